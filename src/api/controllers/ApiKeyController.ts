@@ -0,0 +1,53 @@
+// src/api/controllers/ApiKeyController.ts
+import type { Request, Response } from "express";
+import catchAsync from "../utils/catchAsync";
+import sendResponse from "../utils/sendResponse";
+import ApiKeyService, { CreateApiKeyInput } from "../services/ApiKeyService";
+import { API_KEY_SCOPES } from "../utils/apiKeyScopes";
+
+/**
+ * @desc    The current user's API keys (prefixes only, never the keys)
+ * @route   GET /api/api-keys
+ * @access  Private
+ */
+export const listApiKeys = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const apiKeys = await ApiKeyService.listForUser(req.user!.id);
+    sendResponse(res, 200, true, "API keys fetched", { apiKeys });
+  }
+);
+
+/**
+ * @desc    Scopes that can be granted to an API key
+ * @route   GET /api/api-keys/scopes
+ * @access  Private
+ */
+export const getApiKeyScopes = catchAsync(
+  async (_req: Request, res: Response): Promise<void> => {
+    sendResponse(res, 200, true, "API key scopes fetched", { scopes: API_KEY_SCOPES });
+  }
+);
+
+/**
+ * @desc    Create an API key; the key is in this response only
+ * @route   POST /api/api-keys
+ * @access  Private
+ */
+export const createApiKey = catchAsync(
+  async (req: Request<{}, {}, CreateApiKeyInput>, res: Response): Promise<void> => {
+    const { apiKey, key } = await ApiKeyService.create(req.user!.id, req.body);
+    sendResponse(res, 201, true, "API key created. Copy it now, it won't be shown again", { apiKey, key });
+  }
+);
+
+/**
+ * @desc    Revoke an API key
+ * @route   DELETE /api/api-keys/:id
+ * @access  Private
+ */
+export const revokeApiKey = catchAsync(
+  async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+    const apiKey = await ApiKeyService.revoke(req.user!.id, req.params.id);
+    sendResponse(res, 200, true, "API key revoked", { apiKey });
+  }
+);
@@ -56,6 +56,31 @@ export const removeExpiredBadges = catchAsync(async (req: Request, res: Response
   }
 });
 
+export const listBadgeRules = catchAsync(async (req: Request, res: Response) => {
+  const rules = await BadgeService.listRules(req.user!.role === "admin");
+  sendResponse(res, 200, true, "Badge rules", { rules });
+});
+
+export const getBadgeRuleProgress = catchAsync(async (req: Request, res: Response) => {
+  const progress = await BadgeService.getRuleProgress(req.user!.id);
+  sendResponse(res, 200, true, "Badge rule progress", { progress });
+});
+
+export const createBadgeRule = catchAsync(async (req: Request, res: Response) => {
+  const rule = await BadgeService.createRule(sanitize(req.body), req.user!.id);
+  sendResponse(res, 201, true, "Badge rule created", { rule });
+});
+
+export const updateBadgeRule = catchAsync(async (req: Request, res: Response) => {
+  const rule = await BadgeService.updateRule(req.params.ruleId, sanitize(req.body));
+  sendResponse(res, 200, true, "Badge rule updated", { rule });
+});
+
+export const deleteBadgeRule = catchAsync(async (req: Request, res: Response) => {
+  await BadgeService.deleteRule(req.params.ruleId);
+  sendResponse(res, 200, true, "Badge rule deleted");
+});
+
 export default {
   awardBadge,
   batchAwardBadges,
@@ -63,4 +88,9 @@ export default {
   getUserBadgeShowcase,
   updateBadgeProgress,
   removeExpiredBadges,
+  listBadgeRules,
+  getBadgeRuleProgress,
+  createBadgeRule,
+  updateBadgeRule,
+  deleteBadgeRule,
 };
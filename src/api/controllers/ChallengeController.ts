@@ -5,7 +5,22 @@ import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import Challenge from "../models/Challenge";
 import { rewardChallengeCompletion } from "../utils/rewardUtils";
-import { createChallengeService } from "../services/challengeService";
+import {
+  createChallengeService,
+  createTeamService,
+  getTeamLeaderboardService,
+  joinChallengeService,
+  switchTeamService,
+  updateProgressService,
+} from "../services/challengeService";
+
+// A milestone as validated by the create route
+interface MilestoneBody {
+  label: string;
+  dueDate?: Date;
+  target?: number;
+  requiredAchievers?: number;
+}
 
 export const getPublicChallenges = catchAsync(
   async (req: Request, res: Response): Promise<void> => {
@@ -69,29 +84,15 @@ export const getChallengeById = catchAsync(
 );
 
 export const joinChallenge = catchAsync(
-  async (req: Request<{}, {}, { challengeId: string }>, res: Response): Promise<void> => {
-    const { challengeId } = sanitize(req.body);
+  async (req: Request<{}, {}, { challengeId: string; teamId?: string }>, res: Response): Promise<void> => {
+    const { challengeId, teamId } = sanitize(req.body);
     const userId = req.user?.id;
     if (!userId || !challengeId) {
       sendResponse(res, 400, false, "User ID and Challenge ID are required");
       return;
     }
 
-    const challenge = await Challenge.findById(challengeId);
-    if (!challenge) {
-      sendResponse(res, 404, false, "Challenge not found");
-      return;
-    }
-
-    const userObj = new mongoose.Types.ObjectId(userId);
-    if (challenge.participants.some((p) => p.user.equals(userObj))) {
-      sendResponse(res, 400, false, "Already joined");
-      return;
-    }
-
-    challenge.participants.push({ user: userObj, progress: 0, joinedAt: new Date() });
-    await challenge.save();
-
+    const challenge = await joinChallengeService(userId, challengeId, teamId);
     sendResponse(res, 200, true, "Joined challenge successfully", { challenge });
   }
 );
@@ -147,17 +148,26 @@ export const fetchChallengesWithPagination = catchAsync(
 
 export const createChallenge = catchAsync(
   async (req: Request, res: Response): Promise<void> => {
-    // pull exactly what your service expects:
-    const { name, description, pointsRequired, rewardType, visibility } = req.body;
-
-    // call the service
-    const newChallenge = await createChallengeService(
-      name,
-      description,
-      pointsRequired,
-      rewardType,
-      visibility
-    );
+    const body = sanitize(req.body);
+
+    const newChallenge = await createChallengeService(req.user!.id, {
+      title: body.name,
+      description: body.description,
+      goal: body.goal,
+      startDate: body.startDate,
+      endDate: body.endDate,
+      visibility: body.visibility,
+      progressTracking: body.progressTracking,
+      teamSettings: body.teamSettings,
+      teams: body.teams,
+      milestones: ((body.milestones ?? []) as MilestoneBody[]).map((m) => ({
+        title: m.label,
+        dueDate: m.dueDate ?? body.endDate,
+        target: m.target,
+        requiredAchievers: m.requiredAchievers,
+      })),
+      rewards: body.rewards,
+    });
 
     // service throws on failure, so if we reach here we have an IChallenge
     sendResponse(res, 201, true, "Challenge created successfully", {
@@ -166,6 +176,54 @@ export const createChallenge = catchAsync(
   }
 );
 
+/**
+ * @desc    Add to the current user's progress in a challenge
+ * @route   POST /api/challenge/:id/progress
+ * @access  Private
+ */
+export const updateChallengeProgress = catchAsync(
+  async (req: Request<{ id: string }, {}, { amount: number }>, res: Response): Promise<void> => {
+    const challenge = await updateProgressService(req.user!.id, req.params.id, Number(req.body.amount));
+    sendResponse(res, 200, true, "Progress updated successfully", { challenge });
+  }
+);
+
+/**
+ * @desc    Create a team on a user-chosen team challenge and join it
+ * @route   POST /api/challenge/:id/teams
+ * @access  Private
+ */
+export const createChallengeTeam = catchAsync(
+  async (req: Request<{ id: string }, {}, { name: string }>, res: Response): Promise<void> => {
+    const challenge = await createTeamService(req.user!.id, req.params.id, req.body.name);
+    sendResponse(res, 201, true, "Team created successfully", { challenge });
+  }
+);
+
+/**
+ * @desc    Switch to another team on a user-chosen team challenge
+ * @route   POST /api/challenge/:id/teams/:teamId/join
+ * @access  Private
+ */
+export const switchChallengeTeam = catchAsync(
+  async (req: Request<{ id: string; teamId: string }>, res: Response): Promise<void> => {
+    const challenge = await switchTeamService(req.user!.id, req.params.id, req.params.teamId);
+    sendResponse(res, 200, true, "Team changed successfully", { challenge });
+  }
+);
+
+/**
+ * @desc    Team leaderboard of a challenge
+ * @route   GET /api/challenge/:id/teams
+ * @access  Public (private challenges: members only)
+ */
+export const getChallengeTeamLeaderboard = catchAsync(
+  async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+    const standings = await getTeamLeaderboardService(req.user?.id, req.params.id);
+    sendResponse(res, 200, true, "Team leaderboard fetched successfully", { standings });
+  }
+);
+
 export default {
   getPublicChallenges,
   getChallengeById,
@@ -173,4 +231,8 @@ export default {
   leaveChallenge,
   fetchChallengesWithPagination,
   createChallenge,
+  updateChallengeProgress,
+  createChallengeTeam,
+  switchChallengeTeam,
+  getChallengeTeamLeaderboard,
 };
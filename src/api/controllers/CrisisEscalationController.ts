@@ -0,0 +1,113 @@
+// src/api/controllers/CrisisEscalationController.ts
+import type { Request, Response } from "express";
+import catchAsync from "../utils/catchAsync";
+import sendResponse from "../utils/sendResponse";
+import CrisisEscalationService from "../services/CrisisEscalationService";
+import type { EscalationStatus } from "../models/CrisisEscalation";
+
+/**
+ * @desc    Crisis escalation queue, most urgent first (moderators)
+ * @route   GET /api/crisis-escalations?status=&page=&limit=
+ * @access  Private/Moderator
+ */
+export const listEscalations = catchAsync(
+  async (
+    req: Request<{}, {}, {}, { status?: EscalationStatus; page?: string; limit?: string }>,
+    res: Response
+  ): Promise<void> => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const { items, total } = await CrisisEscalationService.listQueue({
+      status: req.query.status,
+      page,
+      limit,
+    });
+    sendResponse(res, 200, true, "Escalations fetched", {
+      escalations: items,
+      pagination: { total, page, limit },
+    });
+  }
+);
+
+/**
+ * @desc    Go on or off call for new crisis alerts
+ * @route   PUT /api/crisis-escalations/on-call
+ * @access  Private/Moderator
+ */
+export const setOnCall = catchAsync(
+  async (req: Request<{}, {}, { onCall: boolean }>, res: Response): Promise<void> => {
+    const onCall = await CrisisEscalationService.setOnCall(req.user!.id, req.body.onCall);
+    sendResponse(res, 200, true, onCall ? "You are on call" : "You are off call", { onCall });
+  }
+);
+
+/**
+ * @desc    One escalation with its audit trail
+ * @route   GET /api/crisis-escalations/:escalationId
+ * @access  Private/Moderator
+ */
+export const getEscalation = catchAsync(
+  async (req: Request<{ escalationId: string }>, res: Response): Promise<void> => {
+    const escalation = await CrisisEscalationService.getById(req.params.escalationId);
+    sendResponse(res, 200, true, "Escalation fetched", { escalation });
+  }
+);
+
+/**
+ * @desc    Acknowledge an open escalation and take it on
+ * @route   POST /api/crisis-escalations/:escalationId/acknowledge
+ * @access  Private/Moderator
+ */
+export const acknowledgeEscalation = catchAsync(
+  async (req: Request<{ escalationId: string }>, res: Response): Promise<void> => {
+    const escalation = await CrisisEscalationService.acknowledge(req.params.escalationId, req.user!.id);
+    sendResponse(res, 200, true, "Escalation acknowledged", { escalation });
+  }
+);
+
+/**
+ * @desc    Send a support message to the sender's anonymous session
+ * @route   POST /api/crisis-escalations/:escalationId/outreach
+ * @access  Private/Moderator
+ */
+export const sendOutreach = catchAsync(
+  async (req: Request<{ escalationId: string }, {}, { message: string }>, res: Response): Promise<void> => {
+    const { escalation, delivered } = await CrisisEscalationService.sendOutreach(
+      req.params.escalationId,
+      req.user!.id,
+      req.body.message
+    );
+    sendResponse(res, 200, true, delivered ? "Message delivered" : "Sender is not connected", {
+      escalation,
+      delivered,
+    });
+  }
+);
+
+/**
+ * @desc    Add a note to an escalation's audit trail
+ * @route   POST /api/crisis-escalations/:escalationId/notes
+ * @access  Private/Moderator
+ */
+export const addEscalationNote = catchAsync(
+  async (req: Request<{ escalationId: string }, {}, { note: string }>, res: Response): Promise<void> => {
+    const escalation = await CrisisEscalationService.addNote(req.params.escalationId, req.user!.id, req.body.note);
+    sendResponse(res, 201, true, "Note added", { escalation });
+  }
+);
+
+/**
+ * @desc    Resolve an escalation
+ * @route   POST /api/crisis-escalations/:escalationId/resolve
+ * @access  Private/Moderator
+ */
+export const resolveEscalation = catchAsync(
+  async (req: Request<{ escalationId: string }, {}, { resolution: string }>, res: Response): Promise<void> => {
+    const escalation = await CrisisEscalationService.resolve(
+      req.params.escalationId,
+      req.user!.id,
+      req.body.resolution
+    );
+    sendResponse(res, 200, true, "Escalation resolved", { escalation });
+  }
+);
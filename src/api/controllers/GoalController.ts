@@ -6,6 +6,13 @@ import sendResponse from "../utils/sendResponse";
 import { createError } from "../middleware/errorHandler";
 import { User } from "../models/User";
 import GoalManagementService from "../services/GoalManagementService";
+import HabitService from "../services/HabitService";
+import MeasurementService from "../services/MeasurementService";
+import GoalGraphService from "../services/GoalGraphService";
+import { HABIT_FREQUENCIES, HabitFrequency } from "../utils/habitUtils";
+import { MEASUREMENT_AGGREGATIONS, MeasurementAggregation } from "../utils/measurementUtils";
+import * as ReminderService from "../services/ReminderService";
+import { toReminderInput } from "./ReminderController";
 import { AuthenticatedRequest } from "../../types/AuthenticatedRequest";
 
 // Helper function for goal limits
@@ -24,8 +31,18 @@ export const createGoal = catchAsync(
     req: Request<{}, {}, {
       title: string;
       description?: string;
-      deadline: string;
+      deadline?: string;
       category: string;
+      type?: "one-off" | "habit" | "quantitative";
+      habit?: { frequency: HabitFrequency; target: number; reminderTime?: string };
+      measurement?: {
+        unit: string;
+        target: number;
+        startValue?: number;
+        aggregation?: MeasurementAggregation;
+        trackerId?: string;
+      };
+      parentId?: string;
     }>,
     res: Response,
     next: NextFunction
@@ -36,14 +53,53 @@ export const createGoal = catchAsync(
       return next(createError("Unauthorized", 401));
     }
 
-    const { title, description, deadline, category } = req.body;
-    if (!title || !deadline || !category) {
+    const { title, description, deadline, category, type, habit, measurement, parentId } = req.body;
+    const isHabit = type === "habit";
+    const isQuantitative = type === "quantitative";
+    if (!title || !category || (!deadline && !isHabit)) {
       return next(createError("Title, deadline and category are required", 400));
     }
 
+    // Habits repeat per period; a deadline is optional for them
+    if (isHabit) {
+      const target = Number(habit?.target);
+      if (!habit || !HABIT_FREQUENCIES.includes(habit.frequency)) {
+        return next(createError(`Habit frequency must be one of: ${HABIT_FREQUENCIES.join(", ")}`, 400));
+      }
+      if (!Number.isInteger(target) || target < 1 || target > 100) {
+        return next(createError("Habit target must be between 1 and 100", 400));
+      }
+      if (habit.reminderTime && !/^([01]\d|2[0-3]):[0-5]\d$/.test(habit.reminderTime)) {
+        return next(createError("Habit reminder time must be formatted HH:mm", 400));
+      }
+    }
+
+    // Quantitative goals track a numeric value toward a target in some unit
+    if (isQuantitative) {
+      if (!measurement?.unit || typeof measurement.unit !== "string" || measurement.unit.length > 30) {
+        return next(createError("A unit of up to 30 characters is required", 400));
+      }
+      if (!Number.isFinite(Number(measurement.target))) {
+        return next(createError("Target must be a number", 400));
+      }
+      if (measurement.startValue !== undefined && !Number.isFinite(Number(measurement.startValue))) {
+        return next(createError("Start value must be a number", 400));
+      }
+      if (measurement.aggregation && !MEASUREMENT_AGGREGATIONS.includes(measurement.aggregation)) {
+        return next(createError(`Aggregation must be one of: ${MEASUREMENT_AGGREGATIONS.join(", ")}`, 400));
+      }
+      if (measurement.trackerId && !mongoose.isValidObjectId(measurement.trackerId)) {
+        return next(createError("Invalid tracker ID", 400));
+      }
+    }
+
+    if (parentId && !mongoose.isValidObjectId(parentId)) {
+      return next(createError("Invalid parent goal ID", 400));
+    }
+
     // Parse + validate date
-    const due = new Date(deadline);
-    if (isNaN(due.getTime())) {
+    const due = deadline ? new Date(deadline) : undefined;
+    if (due && isNaN(due.getTime())) {
       return next(createError("Invalid date format", 400));
     }
 
@@ -81,12 +137,36 @@ export const createGoal = catchAsync(
     console.log("✅ Goal creation allowed");
 
     // Create the goal - FIXED: Pass description properly
-    const createdGoal = await GoalManagementService.createGoal(userId, {
+    const goal = await GoalManagementService.createGoal(userId, {
       title,
       description: description || "", // Handle undefined description
       category,
       deadline: due,
+      type: isHabit || isQuantitative ? type : "one-off",
+      habit: isHabit
+        ? { frequency: habit.frequency, target: Number(habit.target), reminderTime: habit.reminderTime }
+        : undefined,
+      measurement: isQuantitative
+        ? {
+          unit: measurement.unit.trim(),
+          target: Number(measurement.target),
+          startValue: measurement.startValue === undefined ? undefined : Number(measurement.startValue),
+          aggregation: measurement.aggregation,
+        }
+        : undefined,
     });
+    let createdGoal = goal;
+    try {
+      if (isQuantitative && measurement.trackerId) {
+        createdGoal = await MeasurementService.linkTracker(userId, goal._id.toString(), measurement.trackerId);
+      }
+      if (parentId) {
+        createdGoal = await GoalGraphService.setParent(userId, goal._id.toString(), parentId);
+      }
+    } catch (err) {
+      await GoalManagementService.deleteGoal(goal._id.toString(), userId);
+      throw err;
+    }
 
     // Get updated count after creation - FIXED: Use correct variable name
     const updatedActiveGoalCount = await GoalManagementService.getActiveGoalCount(userId);
@@ -264,6 +344,7 @@ export const getGoalById = catchAsync(
     if (!goal) {
       return next(createError("Goal not found", 404));
     }
+    const reminders = await ReminderService.listReminders(userId, { goalId });
 
     // Remap dueDate → deadline so frontend sees `deadline`
     const safe = {
@@ -273,12 +354,24 @@ export const getGoalById = catchAsync(
       deadline: goal.dueDate?.toISOString() || null,
       category: goal.category,
       progress: goal.progress,
-      reminders: goal.reminders.map(r => ({
-        id: r._id!.toString(),
-        goalId,
-        date: r.remindAt.toISOString().slice(0,10),
-        time: r.remindAt.toISOString().slice(11,16),
-      })),
+      type: goal.type,
+      habit: goal.habit,
+      measurement: goal.measurement,
+      parent: goal.parent?.toString() ?? null,
+      blockedBy: goal.blockedBy.map((id) => id.toString()),
+      weight: goal.weight,
+      reminders: reminders.map(r => {
+        const at = r.nextRunAt ?? r.remindAt;
+        return {
+          id: r._id.toString(),
+          goalId,
+          message: r.message,
+          date: at.toISOString().slice(0,10),
+          time: at.toISOString().slice(11,16),
+          recurrence: r.recurrence,
+          rrule: r.rrule,
+        };
+      }),
     };
 
     res.status(200).json({ success: true, message: "Goal fetched", data: safe });
@@ -366,6 +459,316 @@ export const deleteGoal = catchAsync(
   }
 );
 
+/**
+ * @desc    List reminders attached to a goal
+ * @route   GET /api/goals/:goalId/reminders
+ * @access  Private
+ */
+export const getGoalReminders = catchAsync(
+  async (req: Request<{ goalId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const { goalId } = req.params;
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const reminders = await ReminderService.listReminders(userId, { goalId });
+    sendResponse(res, 200, true, "Goal reminders fetched", { reminders });
+  }
+);
+
+/**
+ * @desc    Add a reminder to a goal (same reminder pipeline as /api/reminders)
+ * @route   POST /api/goals/:goalId/reminders
+ * @access  Private
+ */
+export const addGoalReminder = catchAsync(
+  async (req: Request<{ goalId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const { goalId } = req.params;
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const reminder = await ReminderService.createReminder(userId, {
+      ...toReminderInput(req.body),
+      goalId,
+    });
+    sendResponse(res, 201, true, "Goal reminder created", { reminder });
+  }
+);
+
+/**
+ * @desc    Completed goals, due goals and habit logs per day
+ * @route   GET /api/goals/calendar?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * @access  Private
+ */
+export const getGoalCalendar = catchAsync(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const days = await GoalManagementService.getCalendar(
+      userId,
+      String(req.query.from),
+      String(req.query.to)
+    );
+    sendResponse(res, 200, true, "Goal calendar fetched", { days });
+  }
+);
+
+/**
+ * @desc    Log a completion of a habit goal
+ * @route   POST /api/goals/:goalId/habit/logs
+ * @access  Private
+ */
+export const logHabitCompletion = catchAsync(
+  async (
+    req: Request<{ goalId: string }, {}, { day?: string; count?: number; note?: string }>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const { day, count, note } = req.body;
+    const result = await HabitService.logCompletion(userId, req.params.goalId, { day, count, note });
+    sendResponse(res, 201, true, "Habit completion logged", result);
+  }
+);
+
+/**
+ * @desc    List logged completions of a habit goal
+ * @route   GET /api/goals/:goalId/habit/logs?from=&to=
+ * @access  Private
+ */
+export const getHabitLogs = catchAsync(
+  async (req: Request<{ goalId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const from = typeof req.query.from === "string" ? req.query.from : undefined;
+    const to = typeof req.query.to === "string" ? req.query.to : undefined;
+    const logs = await HabitService.listLogs(userId, req.params.goalId, from, to);
+    sendResponse(res, 200, true, "Habit logs fetched", { logs });
+  }
+);
+
+/**
+ * @desc    Remove a logged habit completion
+ * @route   DELETE /api/goals/:goalId/habit/logs/:logId
+ * @access  Private
+ */
+export const deleteHabitLog = catchAsync(
+  async (req: Request<{ goalId: string; logId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const stats = await HabitService.deleteLog(userId, req.params.goalId, req.params.logId);
+    sendResponse(res, 200, true, "Habit log removed", { stats });
+  }
+);
+
+/**
+ * @desc    Streaks, completion rate and per-period history of a habit goal
+ * @route   GET /api/goals/:goalId/habit/stats?limit=
+ * @access  Private
+ */
+export const getHabitStats = catchAsync(
+  async (req: Request<{ goalId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? ""), 10) || 30, 1), 365);
+    const stats = await HabitService.getStats(userId, req.params.goalId, limit);
+    sendResponse(res, 200, true, "Habit stats fetched", { stats });
+  }
+);
+
+/**
+ * @desc    Log a measured value on a quantitative goal
+ * @route   POST /api/goals/:goalId/measurements
+ * @access  Private
+ */
+export const addMeasurement = catchAsync(
+  async (
+    req: Request<{ goalId: string }, {}, { value: number; recordedAt?: Date; note?: string }>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const { value, recordedAt, note } = req.body;
+    const result = await MeasurementService.addEntry(userId, req.params.goalId, { value, recordedAt, note });
+    sendResponse(res, 201, true, "Measurement logged", result);
+  }
+);
+
+/**
+ * @desc    List measured values of a quantitative goal, newest first
+ * @route   GET /api/goals/:goalId/measurements?from=&to=&limit=
+ * @access  Private
+ */
+export const getMeasurements = catchAsync(
+  async (req: Request<{ goalId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const { from, to, limit } = req.query as { from?: Date; to?: Date; limit?: number };
+    const entries = await MeasurementService.listEntries(userId, req.params.goalId, { from, to, limit });
+    sendResponse(res, 200, true, "Measurements fetched", { entries });
+  }
+);
+
+/**
+ * @desc    Remove a measured value logged by mistake
+ * @route   DELETE /api/goals/:goalId/measurements/:entryId
+ * @access  Private
+ */
+export const deleteMeasurement = catchAsync(
+  async (req: Request<{ goalId: string; entryId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const goal = await MeasurementService.deleteEntry(userId, req.params.goalId, req.params.entryId);
+    sendResponse(res, 200, true, "Measurement removed", { goal });
+  }
+);
+
+/**
+ * @desc    Daily values and rate of a quantitative goal
+ * @route   GET /api/goals/:goalId/trend?days=
+ * @access  Private
+ */
+export const getGoalTrend = catchAsync(
+  async (req: Request<{ goalId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const days = Number(req.query.days) || 30;
+    const trend = await MeasurementService.getTrend(userId, req.params.goalId, days);
+    sendResponse(res, 200, true, "Goal trend fetched", { trend });
+  }
+);
+
+/**
+ * @desc    Whether a quantitative goal is on track to hit its target by its due date
+ * @route   GET /api/goals/:goalId/projection?days=
+ * @access  Private
+ */
+export const getGoalProjection = catchAsync(
+  async (req: Request<{ goalId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const days = Number(req.query.days) || 30;
+    const projection = await MeasurementService.getProjection(userId, req.params.goalId, days);
+    sendResponse(res, 200, true, "Goal projection fetched", { projection });
+  }
+);
+
+/**
+ * @desc    Feed a tracker's updates into a quantitative goal (trackerId null unlinks)
+ * @route   PUT /api/goals/:goalId/tracker
+ * @access  Private
+ */
+export const linkGoalTracker = catchAsync(
+  async (
+    req: Request<{ goalId: string }, {}, { trackerId: string | null }>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const goal = await MeasurementService.linkTracker(userId, req.params.goalId, req.body.trackerId ?? null);
+    sendResponse(res, 200, true, req.body.trackerId ? "Tracker linked" : "Tracker unlinked", { goal });
+  }
+);
+
+/**
+ * @desc    A goal with its ancestors and all of its sub-goals, nested
+ * @route   GET /api/goals/:goalId/tree
+ * @access  Private
+ */
+export const getGoalTree = catchAsync(
+  async (req: Request<{ goalId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const tree = await GoalGraphService.getTree(userId, req.params.goalId);
+    sendResponse(res, 200, true, "Goal tree fetched", tree);
+  }
+);
+
+/**
+ * @desc    Nest a goal under a parent goal (parentId null makes it top-level)
+ * @route   PUT /api/goals/:goalId/parent
+ * @access  Private
+ */
+export const setGoalParent = catchAsync(
+  async (
+    req: Request<{ goalId: string }, {}, { parentId: string | null; weight?: number }>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const { parentId, weight } = req.body;
+    const goal = await GoalGraphService.setParent(userId, req.params.goalId, parentId ?? null, weight);
+    sendResponse(res, 200, true, parentId ? "Goal moved under parent" : "Goal is now top-level", { goal });
+  }
+);
+
+/**
+ * @desc    Block a goal on another goal
+ * @route   POST /api/goals/:goalId/dependencies
+ * @access  Private
+ */
+export const addGoalDependency = catchAsync(
+  async (
+    req: Request<{ goalId: string }, {}, { blockerId: string }>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const goal = await GoalGraphService.addDependency(userId, req.params.goalId, req.body.blockerId);
+    sendResponse(res, 201, true, "Dependency added", { goal });
+  }
+);
+
+/**
+ * @desc    Remove a dependency between goals
+ * @route   DELETE /api/goals/:goalId/dependencies/:blockerId
+ * @access  Private
+ */
+export const removeGoalDependency = catchAsync(
+  async (req: Request<{ goalId: string; blockerId: string }>, res: Response, next: NextFunction): Promise<void> => {
+    const authReq = req as AuthenticatedRequest;
+    const userId = authReq.user?.id;
+    if (!userId) return next(createError("Unauthorized", 401));
+
+    const goal = await GoalGraphService.removeDependency(userId, req.params.goalId, req.params.blockerId);
+    sendResponse(res, 200, true, "Dependency removed", { goal });
+  }
+);
+
 export default {
   createGoal,
   getPublicGoals,
@@ -376,4 +779,21 @@ export default {
   updateGoal,
   deleteGoal,
   getGoalById,
+  getGoalReminders,
+  addGoalReminder,
+  getGoalCalendar,
+  logHabitCompletion,
+  getHabitLogs,
+  deleteHabitLog,
+  getHabitStats,
+  addMeasurement,
+  getMeasurements,
+  deleteMeasurement,
+  getGoalTrend,
+  getGoalProjection,
+  linkGoalTracker,
+  getGoalTree,
+  setGoalParent,
+  addGoalDependency,
+  removeGoalDependency,
 };
@@ -0,0 +1,105 @@
+// src/api/controllers/GoalTemplateController.ts
+import type { Request, Response } from "express";
+import catchAsync from "../utils/catchAsync";
+import sendResponse from "../utils/sendResponse";
+import GoalTemplateService from "../services/GoalTemplateService";
+import type { TemplateInput } from "../services/GoalTemplateService";
+
+/**
+ * @desc    Browse goal templates by category or keyword
+ * @route   GET /api/goal-templates
+ * @access  Private
+ */
+export const listTemplates = catchAsync(async (req: Request, res: Response) => {
+  const { category, q, official, mine, sort, page, limit } = req.query as Record<string, string>;
+  const result = await GoalTemplateService.listTemplates(req.user!.id, {
+    category,
+    q,
+    official: official === undefined ? undefined : official === "true",
+    mine: mine === "true",
+    sort: sort === "newest" ? "newest" : "popular",
+    page: parseInt(page, 10) || 1,
+    limit: parseInt(limit, 10) || 20,
+  });
+  sendResponse(res, 200, true, "Goal templates fetched successfully", {
+    templates: result.templates,
+    pagination: { total: result.total, currentPage: result.page, totalPages: result.totalPages },
+  });
+});
+
+/**
+ * @desc    Template categories with counts
+ * @route   GET /api/goal-templates/categories
+ * @access  Private
+ */
+export const listCategories = catchAsync(async (_req: Request, res: Response) => {
+  const categories = await GoalTemplateService.listCategories();
+  sendResponse(res, 200, true, "Template categories fetched successfully", { categories });
+});
+
+/**
+ * @desc    Get a goal template
+ * @route   GET /api/goal-templates/:templateId
+ * @access  Private
+ */
+export const getTemplate = catchAsync(async (req: Request, res: Response) => {
+  const template = await GoalTemplateService.getTemplate(req.params.templateId, req.user!.id);
+  sendResponse(res, 200, true, "Goal template fetched successfully", { template });
+});
+
+/**
+ * @desc    Publish a goal template
+ * @route   POST /api/goal-templates
+ * @access  Private
+ */
+export const createTemplate = catchAsync(async (req: Request, res: Response) => {
+  const template = await GoalTemplateService.createTemplate(
+    req.user!.id,
+    req.user!.role === "admin",
+    req.body as TemplateInput
+  );
+  sendResponse(res, 201, true, "Goal template created successfully", { template });
+});
+
+/**
+ * @desc    Update a goal template
+ * @route   PUT /api/goal-templates/:templateId
+ * @access  Private (author or admin)
+ */
+export const updateTemplate = catchAsync(async (req: Request, res: Response) => {
+  const template = await GoalTemplateService.updateTemplate(
+    req.params.templateId,
+    req.user!.id,
+    req.user!.role === "admin",
+    req.body as Partial<TemplateInput>
+  );
+  sendResponse(res, 200, true, "Goal template updated successfully", { template });
+});
+
+/**
+ * @desc    Delete a goal template
+ * @route   DELETE /api/goal-templates/:templateId
+ * @access  Private (author or admin)
+ */
+export const deleteTemplate = catchAsync(async (req: Request, res: Response) => {
+  await GoalTemplateService.deleteTemplate(
+    req.params.templateId,
+    req.user!.id,
+    req.user!.role === "admin"
+  );
+  sendResponse(res, 200, true, "Goal template deleted successfully");
+});
+
+/**
+ * @desc    Create a goal (with milestones and reminders) from a template
+ * @route   POST /api/goal-templates/:templateId/instantiate
+ * @access  Private (subscription + goal limit)
+ */
+export const instantiateTemplate = catchAsync(async (req: Request, res: Response) => {
+  const { goal, reminders } = await GoalTemplateService.instantiate(
+    req.params.templateId,
+    req.user!.id,
+    { startDate: req.body.startDate, title: req.body.title }
+  );
+  sendResponse(res, 201, true, "Goal created from template", { goal, reminders });
+});
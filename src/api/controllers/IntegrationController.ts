@@ -3,7 +3,10 @@ import type { Request, Response } from "express";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import IntegrationService from "../services/IntegrationService";
+import WebhookService from "../services/WebhookService";
 import type { IntegrationSettings } from "../models/Integration"; 
+import type { DeliveryStatus } from "../models/WebhookDelivery";
+import { WEBHOOK_EVENTS } from "../utils/webhookUtils";
 
 /** POST /api/integrations */
 export const createIntegration = catchAsync(
@@ -79,6 +82,52 @@ export const testIntegration = catchAsync(
   }
 );
 
+/** POST /api/integrations/:integrationId/enable */
+export const enableIntegration = catchAsync(
+  async (req: Request<{ integrationId: string }>, res: Response) => {
+    const userId = req.user!.id;
+    const integration = await IntegrationService.enable(req.params.integrationId, userId);
+    sendResponse(res, 200, true, "Integration enabled successfully", { integration });
+  }
+);
+
+/** GET /api/integrations/webhook-events */
+export const getWebhookEvents = catchAsync(
+  async (_req: Request, res: Response) => {
+    sendResponse(res, 200, true, "Webhook events fetched successfully", { events: WEBHOOK_EVENTS });
+  }
+);
+
+/** GET /api/integrations/:integrationId/deliveries?status=&page=&limit= */
+export const getWebhookDeliveries = catchAsync(
+  async (
+    req: Request<{ integrationId: string }, any, any, { status?: DeliveryStatus; page?: string; limit?: string }>,
+    res: Response
+  ) => {
+    const userId = req.user!.id;
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const { items, total } = await WebhookService.listDeliveries(userId, req.params.integrationId, {
+      status: req.query.status,
+      page,
+      limit,
+    });
+    sendResponse(res, 200, true, "Webhook deliveries fetched successfully", {
+      deliveries: items,
+      pagination: { total, page, limit },
+    });
+  }
+);
+
+/** POST /api/integrations/:integrationId/deliveries/:deliveryId/replay */
+export const replayWebhookDelivery = catchAsync(
+  async (req: Request<{ integrationId: string; deliveryId: string }>, res: Response) => {
+    const userId = req.user!.id;
+    const delivery = await WebhookService.replay(userId, req.params.integrationId, req.params.deliveryId);
+    sendResponse(res, 202, true, "Webhook delivery queued for replay", { delivery });
+  }
+);
+
 export default {
   createIntegration,
   getUserIntegrations,
@@ -86,4 +135,8 @@ export default {
   updateIntegration,
   deleteIntegration,
   testIntegration,
+  enableIntegration,
+  getWebhookEvents,
+  getWebhookDeliveries,
+  replayWebhookDelivery,
 };
@@ -3,6 +3,8 @@ import { Request, Response, NextFunction } from "express";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import LeaderboardService from "../services/LeaderboardService";
+import type { ArchivedSeason, LeaderboardScope } from "../services/LeaderboardService";
+import type { Season } from "../utils/seasonUtils";
 import { AuthenticatedRequest } from "../../types/AuthenticatedRequest";
 
 export const getLeaderboard = catchAsync(
@@ -30,6 +32,54 @@ export const getUserLeaderboardPosition = catchAsync(
   }
 );
 
+/**
+ * @desc    Get a scoped leaderboard for the current season
+ * @route   GET /api/leaderboard/scopes/:scope?season=&id=&category=&page=&limit=
+ * @access  Private
+ */
+export const getScopedLeaderboard = catchAsync(
+  async (req: Request, res: Response, _next: NextFunction) => {
+    const authReq = req as AuthenticatedRequest;
+    const limit = Math.max(1, Math.min(100, parseInt((req.query.limit as string) || "10", 10)));
+    const page = Math.max(1, parseInt((req.query.page as string) || "1", 10));
+
+    const board = await LeaderboardService.getBoard({
+      scope: req.params.scope as LeaderboardScope,
+      season: ((req.query.season as string) || "alltime") as Season,
+      viewerId: authReq.user?.id!,
+      id: req.query.id as string | undefined,
+      category: req.query.category as string | undefined,
+      page,
+      limit,
+    });
+    sendResponse(res, 200, true, "Leaderboard fetched successfully", board);
+  }
+);
+
+/**
+ * @desc    Get archived final standings of past weekly/monthly seasons
+ * @route   GET /api/leaderboard/archive?season=&board=&page=&limit=
+ * @access  Private
+ */
+export const getLeaderboardArchive = catchAsync(
+  async (req: Request, res: Response, _next: NextFunction) => {
+    const limit = Math.max(1, Math.min(50, parseInt((req.query.limit as string) || "10", 10)));
+    const page = Math.max(1, parseInt((req.query.page as string) || "1", 10));
+    const { data, pagination } = await LeaderboardService.getArchive(
+      {
+        season: req.query.season as ArchivedSeason | undefined,
+        board: req.query.board as string | undefined,
+      },
+      page,
+      limit
+    );
+    sendResponse(res, 200, true, "Leaderboard archive fetched successfully", {
+      archives: data,
+      pagination,
+    });
+  }
+);
+
 export const resetLeaderboard = catchAsync(
   async (req: Request, res: Response, _next: NextFunction) => {
     const authReq = req as AuthenticatedRequest;
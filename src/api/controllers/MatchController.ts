@@ -6,10 +6,28 @@ import { logger } from "../../utils/winstonLogger";
 import MatchService from "../services/MatchService";
 
 export const createMatch = catchAsync(async (req: Request, res: Response) => {
-  const { user1, user2, status } = req.body;
-  const match = await MatchService.createMatch(user1, user2, status);
-  logger.info(`Match created between ${user1} & ${user2}`);
-  sendResponse(res, 201, true, "Match created successfully", { match });
+  const match = await MatchService.requestPartner(req.user!.id, req.body.partnerId);
+  const message =
+    match.status === "active" ? "Match accepted successfully" : "Partner request sent successfully";
+  sendResponse(res, match.status === "active" ? 200 : 201, true, message, { match });
+});
+
+export const getSuggestedPartners = catchAsync(async (req: Request, res: Response) => {
+  const limit = Math.min(parseInt(req.query.limit as string, 10) || 10, 50);
+  const suggestions = await MatchService.getSuggestedPartners(req.user!.id, limit);
+  sendResponse(res, 200, true, "Suggested partners fetched successfully", { suggestions });
+});
+
+export const acceptMatch = catchAsync(async (req: Request, res: Response) => {
+  const match = await MatchService.acceptMatch(req.params.matchId, req.user!.id);
+  logger.info(`Match ${match._id} accepted by ${req.user!.id}`);
+  sendResponse(res, 200, true, "Match accepted successfully", { match });
+});
+
+export const declineMatch = catchAsync(async (req: Request, res: Response) => {
+  const match = await MatchService.declineMatch(req.params.matchId, req.user!.id);
+  logger.info(`Match ${match._id} declined by ${req.user!.id}`);
+  sendResponse(res, 200, true, "Match declined successfully", { match });
 });
 
 export const getUserMatches = catchAsync(async (req: Request, res: Response) => {
@@ -28,13 +46,14 @@ export const getUserMatches = catchAsync(async (req: Request, res: Response) =>
 });
 
 export const getMatchById = catchAsync(async (req: Request, res: Response) => {
-  const match = await MatchService.getMatchById(req.params.matchId);
+  const match = await MatchService.getMatchById(req.params.matchId, req.user!.id);
   sendResponse(res, 200, true, "Match fetched successfully", { match });
 });
 
 export const updateMatchStatus = catchAsync(async (req: Request, res: Response) => {
   const match = await MatchService.updateMatchStatus(
     req.params.matchId,
+    req.user!.id,
     req.body.status
   );
   logger.info(`Match ${match._id} status updated to ${match.status}`);
@@ -42,7 +61,7 @@ export const updateMatchStatus = catchAsync(async (req: Request, res: Response)
 });
 
 export const deleteMatch = catchAsync(async (req: Request, res: Response) => {
-  await MatchService.deleteMatch(req.params.matchId);
+  await MatchService.deleteMatch(req.params.matchId, req.user!.id);
   logger.info(`Match ${req.params.matchId} deleted`);
   sendResponse(res, 200, true, "Match deleted successfully");
 });
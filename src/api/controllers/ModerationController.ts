@@ -0,0 +1,119 @@
+// src/api/controllers/ModerationController.ts
+import type { Request, Response } from "express";
+import catchAsync from "../utils/catchAsync";
+import sendResponse from "../utils/sendResponse";
+import ModerationService, { PolicyInput, WordListInput } from "../services/ModerationService";
+import type { CaseDecision, CaseStatus } from "../models/ModerationCase";
+import type { ModerationSurface } from "../utils/moderationUtils";
+
+/**
+ * @desc    Moderation review queue, most reported first
+ * @route   GET /api/moderation/queue?status=&surface=&page=&limit=
+ * @access  Private/Moderator
+ */
+export const getQueue = catchAsync(
+  async (
+    req: Request<{}, {}, {}, { status?: CaseStatus; surface?: ModerationSurface; page?: string; limit?: string }>,
+    res: Response
+  ): Promise<void> => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const { items, total } = await ModerationService.listQueue({
+      status: req.query.status,
+      surface: req.query.surface,
+      page,
+      limit,
+    });
+    sendResponse(res, 200, true, "Moderation queue fetched", {
+      cases: items,
+      pagination: { total, page, limit },
+    });
+  }
+);
+
+/**
+ * @desc    A moderation case with its reports and current content
+ * @route   GET /api/moderation/cases/:caseId
+ * @access  Private/Moderator
+ */
+export const getCase = catchAsync(
+  async (req: Request<{ caseId: string }>, res: Response): Promise<void> => {
+    const result = await ModerationService.getCase(req.params.caseId);
+    sendResponse(res, 200, true, "Moderation case fetched", result);
+  }
+);
+
+/**
+ * @desc    Approve, hide or remove the content of a case
+ * @route   POST /api/moderation/cases/:caseId/decision
+ * @access  Private/Moderator
+ */
+export const decideCase = catchAsync(
+  async (
+    req: Request<{ caseId: string }, {}, { decision: CaseDecision; note?: string }>,
+    res: Response
+  ): Promise<void> => {
+    const modCase = await ModerationService.review(
+      req.params.caseId,
+      req.user!.id,
+      req.body.decision,
+      req.body.note,
+      req.ip
+    );
+    sendResponse(res, 200, true, "Decision recorded", { case: modCase });
+  }
+);
+
+/**
+ * @desc    Moderation policy of every surface
+ * @route   GET /api/moderation/policies
+ * @access  Private/Admin
+ */
+export const getPolicies = catchAsync(
+  async (_req: Request, res: Response): Promise<void> => {
+    const policies = await ModerationService.listPolicies();
+    sendResponse(res, 200, true, "Moderation policies fetched", { policies });
+  }
+);
+
+/**
+ * @desc    Update the moderation policy of a surface
+ * @route   PUT /api/moderation/policies/:surface
+ * @access  Private/Admin
+ */
+export const updatePolicy = catchAsync(
+  async (req: Request<{ surface: ModerationSurface }, {}, PolicyInput>, res: Response): Promise<void> => {
+    const policy = await ModerationService.updatePolicy(req.params.surface, req.body, req.user!.id, req.ip);
+    sendResponse(res, 200, true, "Moderation policy updated", { policy });
+  }
+);
+
+/**
+ * @desc    Word lists, optionally for one locale
+ * @route   GET /api/moderation/word-lists?locale=
+ * @access  Private/Admin
+ */
+export const getWordLists = catchAsync(
+  async (req: Request<{}, {}, {}, { locale?: string }>, res: Response): Promise<void> => {
+    const wordLists = await ModerationService.listWordLists(req.query.locale);
+    sendResponse(res, 200, true, "Word lists fetched", { wordLists });
+  }
+);
+
+/**
+ * @desc    Create or replace the word list of a locale and category
+ * @route   PUT /api/moderation/word-lists/:locale/:category
+ * @access  Private/Admin
+ */
+export const saveWordList = catchAsync(
+  async (req: Request<{ locale: string; category: string }, {}, WordListInput>, res: Response): Promise<void> => {
+    const wordList = await ModerationService.saveWordList(
+      req.params.locale,
+      req.params.category,
+      req.body,
+      req.user!.id,
+      req.ip
+    );
+    sendResponse(res, 200, true, "Word list saved", { wordList });
+  }
+);
@@ -4,21 +4,29 @@ import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import { logger } from "../../utils/winstonLogger";
 import NotificationService from "../services/NotificationService";
+import NotificationDispatcher from "../services/NotificationDispatcher";
+import NotificationDigestService from "../services/NotificationDigestService";
+import type { NotificationType } from "../models/Notification";
+import type { DigestSettings, NotificationChannelPrefs, PushSubscriptionInfo } from "../models/User";
 
 interface SendPayload {
   receiverId: string;
   message:    string;
-  type?:      string;
+  type?:      NotificationType;
   link?:      string;
 }
 
+interface PreferencesPayload {
+  preferences: Partial<Record<NotificationType, NotificationChannelPrefs>>;
+}
+
 interface ReadPayload {
   notificationIds: string[];
 }
 
 export const sendNotification = catchAsync(
   async (req: Request<{}, {}, SendPayload>, res: Response, _next: NextFunction) => {
-    const { receiverId, message, type = "info", link } = req.body;
+    const { receiverId, message, type = "message", link } = req.body;
     const senderId = req.user!.id;
 
     if (!receiverId || !message.trim()) {
@@ -26,14 +34,13 @@ export const sendNotification = catchAsync(
       return;
     }
 
-    // CALL THE PUBLIC METHOD, NOT THE PRIVATE ONE:
-    await NotificationService.sendInAppNotification(
+    await NotificationDispatcher.dispatch({
       senderId,
-      receiverId,
-      message.trim(),
+      userId: receiverId,
+      message: message.trim(),
       type,
-      link
-    );
+      link,
+    });
 
     logger.info(`Notification sent from ${senderId} to ${receiverId}`);
     sendResponse(res, 201, true, "Notification sent successfully");
@@ -88,9 +95,97 @@ export const deleteNotification = catchAsync(
   }
 );
 
+export const getNotificationPreferences = catchAsync(
+  async (req: Request, res: Response) => {
+    const preferences = await NotificationDispatcher.getPreferences(req.user!.id);
+    sendResponse(res, 200, true, "Notification preferences fetched successfully", { preferences });
+  }
+);
+
+export const updateNotificationPreferences = catchAsync(
+  async (req: Request<{}, {}, PreferencesPayload>, res: Response) => {
+    const preferences = await NotificationDispatcher.updatePreferences(
+      req.user!.id,
+      req.body.preferences
+    );
+    sendResponse(res, 200, true, "Notification preferences updated", { preferences });
+  }
+);
+
+export const addPushSubscription = catchAsync(
+  async (req: Request<{}, {}, PushSubscriptionInfo>, res: Response) => {
+    const { endpoint, keys } = req.body;
+    await NotificationDispatcher.addPushSubscription(req.user!.id, { endpoint, keys });
+    sendResponse(res, 201, true, "Push subscription saved");
+  }
+);
+
+export const removePushSubscription = catchAsync(
+  async (req: Request<{}, {}, { endpoint: string }>, res: Response) => {
+    await NotificationDispatcher.removePushSubscription(req.user!.id, req.body.endpoint);
+    sendResponse(res, 200, true, "Push subscription removed");
+  }
+);
+
+export const getDeliveries = catchAsync(
+  async (
+    req: Request<{}, {}, {}, { page?: string; limit?: string }>,
+    res: Response
+  ) => {
+    const page  = Math.max(1, parseInt(req.query.page  || "1", 10));
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit || "20", 10)));
+
+    const { dispatches, total } = await NotificationDispatcher.listDeliveries(req.user!.id, page, limit);
+
+    sendResponse(res, 200, true, "Notification deliveries fetched successfully", {
+      deliveries: dispatches,
+      pagination: {
+        total,
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  }
+);
+
+export const getDigestSettings = catchAsync(
+  async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const [preferences, recent] = await Promise.all([
+      NotificationDigestService.getSettings(userId),
+      NotificationDigestService.listDigests(userId),
+    ]);
+    sendResponse(res, 200, true, "Digest settings fetched successfully", {
+      digest: preferences,
+      recent,
+    });
+  }
+);
+
+export const updateDigestSettings = catchAsync(
+  async (req: Request<{}, {}, DigestSettings>, res: Response) => {
+    const { enabled, frequency, types, time, weekday } = req.body;
+    const digest = await NotificationDigestService.updateSettings(req.user!.id, {
+      enabled,
+      frequency,
+      types,
+      time,
+      weekday: weekday !== undefined ? Number(weekday) : undefined,
+    });
+    sendResponse(res, 200, true, "Digest settings updated", { digest });
+  }
+);
+
 export default {
   sendNotification,
   getNotifications,
   markNotificationsAsRead,
   deleteNotification,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  addPushSubscription,
+  removePushSubscription,
+  getDeliveries,
+  getDigestSettings,
+  updateDigestSettings,
 };
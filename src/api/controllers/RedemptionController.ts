@@ -3,28 +3,32 @@ import type { Request, Response, NextFunction } from "express";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import RedemptionService from "../services/RedemptionService";
+import type { RedemptionStatus } from "../models/Redemption";
+import { requestIdempotencyKey } from "../utils/idempotencyUtils";
 
 /**
- * @desc    Redeem an item for the authenticated user
+ * @desc    Redeem a catalog reward for the authenticated user
  * @route   POST /api/redemptions
  * @access  Private
  */
 export const createRedemption = catchAsync(
   async (
-    req: Request<{}, {}, { item: string; pointsUsed: number }>,
+    req: Request<{}, {}, { rewardId: string }>,
     res: Response,
     _next: NextFunction
   ): Promise<void> => {
     const userId = req.user!.id;
-    const { item, pointsUsed } = req.body;
-
-    const redemption = await RedemptionService.redeemForUser(
+    const { redemption, remainingPoints, replayed } = await RedemptionService.redeem(
       userId,
-      item,
-      pointsUsed
+      req.body.rewardId,
+      requestIdempotencyKey(req, "reward:redeem")
     );
 
-    sendResponse(res, 201, true, "Redemption recorded", { redemption });
+    sendResponse(res, replayed ? 200 : 201, true, "Redemption recorded", {
+      redemption,
+      remainingPoints,
+      replayed,
+    });
   }
 );
 
@@ -59,3 +63,63 @@ export const getRedemptionsByDate = catchAsync(
     sendResponse(res, 200, true, "Redemptions in range fetched", { redemptions });
   }
 );
+
+/**
+ * @desc    List catalog redemptions to process, oldest first (admin)
+ * @route   GET /api/redemptions/admin?status=&page=&limit=
+ * @access  Private/Admin
+ */
+export const listRedemptionsForAdmin = catchAsync(
+  async (
+    req: Request<{}, {}, {}, { status?: RedemptionStatus; page?: string; limit?: string }>,
+    res: Response
+  ): Promise<void> => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const { items, total } = await RedemptionService.listForAdmin({
+      status: req.query.status,
+      page,
+      limit,
+    });
+    sendResponse(res, 200, true, "Redemptions fetched", {
+      redemptions: items,
+      pagination: { total, page, limit },
+    });
+  }
+);
+
+/**
+ * @desc    Mark a pending redemption as fulfilled (admin)
+ * @route   PATCH /api/redemptions/:redemptionId/fulfill
+ * @access  Private/Admin
+ */
+export const fulfillRedemption = catchAsync(
+  async (req: Request<{ redemptionId: string }, {}, { note?: string }>, res: Response): Promise<void> => {
+    const redemption = await RedemptionService.fulfill(req.params.redemptionId, req.user!.id, req.body.note);
+    sendResponse(res, 200, true, "Redemption fulfilled", { redemption });
+  }
+);
+
+/**
+ * @desc    Cancel a pending redemption and return its points (admin)
+ * @route   PATCH /api/redemptions/:redemptionId/cancel
+ * @access  Private/Admin
+ */
+export const cancelRedemption = catchAsync(
+  async (req: Request<{ redemptionId: string }, {}, { reason?: string }>, res: Response): Promise<void> => {
+    const redemption = await RedemptionService.cancel(req.params.redemptionId, req.user!.id, req.body.reason);
+    sendResponse(res, 200, true, "Redemption canceled", { redemption });
+  }
+);
+
+/**
+ * @desc    Refund a fulfilled redemption and return its points (admin)
+ * @route   PATCH /api/redemptions/:redemptionId/refund
+ * @access  Private/Admin
+ */
+export const refundRedemption = catchAsync(
+  async (req: Request<{ redemptionId: string }, {}, { reason?: string }>, res: Response): Promise<void> => {
+    const redemption = await RedemptionService.refund(req.params.redemptionId, req.user!.id, req.body.reason);
+    sendResponse(res, 200, true, "Redemption refunded", { redemption });
+  }
+);
@@ -1,178 +1,169 @@
 // src/api/controllers/ReminderController.ts
 import type { Request, Response, NextFunction } from "express";
-import mongoose from "mongoose";
 import sanitize from "mongo-sanitize";
 
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import { createError } from "../middleware/errorHandler";
+import * as ReminderService from "../services/ReminderService";
+
+type ReminderBody = {
+  message?: string;
+  remindAt?: string | Date;
+  goalId?: string | null;
+  recurrence?: ReminderService.ReminderInput["recurrence"];
+  rrule?: string;
+  interval?: number;
+  daysOfWeek?: number[];
+  endRepeat?: string | Date | null;
+  reminderType?: ReminderService.ReminderInput["reminderType"];
+  email?: string;
+};
 
-import CustomReminder from "../models/CustomReminder";
-// If you ever need the service functions, import them like this:
-// import { checkReminders, scheduleReminderTask, cancelReminderTask } from "../services/ReminderService";
+/**
+ * Map a validated request body to service input.
+ */
+export const toReminderInput = (raw: ReminderBody): ReminderService.ReminderInput => {
+  const body = sanitize(raw) as ReminderBody;
+  return {
+    message: body.message,
+    remindAt: body.remindAt ? new Date(body.remindAt) : undefined,
+    goalId: body.goalId,
+    recurrence: body.recurrence,
+    rrule: body.rrule,
+    interval: body.interval !== undefined ? Number(body.interval) : undefined,
+    daysOfWeek: body.daysOfWeek?.map(Number),
+    endRepeat:
+      body.endRepeat === null ? null : body.endRepeat ? new Date(body.endRepeat) : undefined,
+    reminderType: body.reminderType,
+    email: body.email,
+  };
+};
 
 /**
- * @desc    Create a custom reminder
+ * @desc    Create a reminder (optionally linked to a goal)
  * @route   POST /api/reminders
  * @access  Private
  */
-export const createCustomReminder = catchAsync(
+export const createReminder = catchAsync(
   async (
-    req: Request<{}, {}, { reminderMessage: string; reminderTime: string; recurrence?: string }>,
+    req: Request<{}, {}, ReminderBody>,
     res: Response,
     next: NextFunction
   ): Promise<void> => {
-    const { reminderMessage, reminderTime, recurrence } = sanitize(req.body);
     const userId = req.user?.id;
     if (!userId) return next(createError("User ID is required", 401));
 
-    if (!reminderMessage || !reminderTime) {
-      return next(createError("Reminder message and time are required", 400));
-    }
-
-    const parsed = new Date(reminderTime);
-    if (isNaN(parsed.getTime()) || parsed <= new Date()) {
-      return next(createError("Reminder time must be a valid future date", 400));
-    }
-
-    const reminder = new CustomReminder({
-      user: userId,
-      reminderMessage,
-      reminderTime: parsed,
-      recurrence,
-    });
-    await reminder.save();
-
-    sendResponse(res, 201, true, "Custom reminder created", { reminder });
+    const reminder = await ReminderService.createReminder(userId, toReminderInput(req.body));
+    sendResponse(res, 201, true, "Reminder created", { reminder });
   }
 );
 
 /**
- * @desc    Get all custom reminders for the current user
+ * @desc    Get all reminders for the current user
  * @route   GET /api/reminders
  * @access  Private
  */
-export const getCustomReminders = catchAsync(
-  async (_req: Request, res: Response): Promise<void> => {
-    const userId = _req.user?.id;
+export const getReminders = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
     if (!userId) throw createError("User ID is required", 401);
 
-    const reminders = await CustomReminder.find({
-      user: new mongoose.Types.ObjectId(userId),
-    }).sort({ reminderTime: 1 });
-
-    if (reminders.length === 0) {
-      sendResponse(res, 404, false, "No reminders found");
-      return;
-    }
+    const reminders = await ReminderService.listReminders(userId, {
+      goalId: req.query.goalId as string | undefined,
+      includeInactive: req.query.includeInactive === "true",
+    });
 
     sendResponse(res, 200, true, "Reminders fetched", { reminders });
   }
 );
 
 /**
- * @desc    Update a custom reminder
+ * @desc    Update a reminder
  * @route   PUT /api/reminders/:id
  * @access  Private
  */
-export const updateCustomReminder = catchAsync(
+export const updateReminder = catchAsync(
   async (
-    req: Request<{ id: string }, {}, { reminderMessage?: string; reminderTime?: string; recurrence?: string }>,
+    req: Request<{ id: string }, {}, ReminderBody>,
     res: Response,
     next: NextFunction
   ): Promise<void> => {
-    const { id } = req.params;
-    const { reminderMessage, reminderTime, recurrence } = sanitize(req.body);
     const userId = req.user?.id;
     if (!userId) return next(createError("User ID is required", 401));
-    if (!reminderMessage && !reminderTime && !recurrence) {
-      return next(createError("At least one field must be provided", 400));
-    }
-
-    const update: any = {};
-    if (reminderMessage) update.reminderMessage = reminderMessage;
-    if (reminderTime) {
-      const parsed = new Date(reminderTime);
-      if (isNaN(parsed.getTime()) || parsed <= new Date()) {
-        return next(createError("Reminder time must be a valid future date", 400));
-      }
-      update.reminderTime = parsed;
-    }
-    if (recurrence) update.recurrence = recurrence;
-
-    const updated = await CustomReminder.findOneAndUpdate(
-      { _id: id, user: new mongoose.Types.ObjectId(userId) },
-      update,
-      { new: true, runValidators: true }
-    );
 
-    if (!updated) {
-      return next(createError("Reminder not found or access denied", 404));
+    const input = toReminderInput(req.body);
+    if (Object.values(input).every((v) => v === undefined)) {
+      return next(createError("At least one field must be provided", 400));
     }
 
-    sendResponse(res, 200, true, "Reminder updated", { reminder: updated });
+    const reminder = await ReminderService.updateReminder(userId, req.params.id, input);
+    sendResponse(res, 200, true, "Reminder updated", { reminder });
   }
 );
 
 /**
- * @desc    Disable (soft-delete) a custom reminder
+ * @desc    Disable (soft-delete) a reminder
  * @route   PUT /api/reminders/disable/:id
  * @access  Private
  */
-export const disableCustomReminder = catchAsync(
+export const disableReminder = catchAsync(
   async (
     req: Request<{ id: string }>,
     res: Response,
     next: NextFunction
   ): Promise<void> => {
-    const { id } = req.params;
     const userId = req.user?.id;
     if (!userId) return next(createError("User ID is required", 401));
 
-    const disabled = await CustomReminder.findOneAndUpdate(
-      { _id: id, user: new mongoose.Types.ObjectId(userId) },
-      { disabled: true },
-      { new: true }
-    );
-    if (!disabled) {
-      return next(createError("Reminder not found or access denied", 404));
-    }
+    const reminder = await ReminderService.setReminderActive(userId, req.params.id, false);
+    sendResponse(res, 200, true, "Reminder disabled", { reminder });
+  }
+);
+
+/**
+ * @desc    Re-enable a disabled reminder
+ * @route   PUT /api/reminders/enable/:id
+ * @access  Private
+ */
+export const enableReminder = catchAsync(
+  async (
+    req: Request<{ id: string }>,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const userId = req.user?.id;
+    if (!userId) return next(createError("User ID is required", 401));
 
-    sendResponse(res, 200, true, "Reminder disabled", { reminder: disabled });
+    const reminder = await ReminderService.setReminderActive(userId, req.params.id, true);
+    sendResponse(res, 200, true, "Reminder enabled", { reminder });
   }
 );
 
 /**
- * @desc    Delete a custom reminder
+ * @desc    Delete a reminder
  * @route   DELETE /api/reminders/:id
  * @access  Private
  */
-export const deleteCustomReminder = catchAsync(
+export const deleteReminder = catchAsync(
   async (
     req: Request<{ id: string }>,
     res: Response,
     next: NextFunction
   ): Promise<void> => {
-    const { id } = req.params;
     const userId = req.user?.id;
     if (!userId) return next(createError("User ID is required", 401));
 
-    const deleted = await CustomReminder.findOneAndDelete({
-      _id: id,
-      user: new mongoose.Types.ObjectId(userId),
-    });
-    if (!deleted) {
-      return next(createError("Reminder not found or access denied", 404));
-    }
-
+    await ReminderService.deleteReminder(userId, req.params.id);
     sendResponse(res, 200, true, "Reminder deleted");
   }
 );
 
 export default {
-  createCustomReminder,
-  getCustomReminders,
-  updateCustomReminder,
-  disableCustomReminder,
-  deleteCustomReminder,
+  createReminder,
+  getReminders,
+  updateReminder,
+  disableReminder,
+  enableReminder,
+  deleteReminder,
 };
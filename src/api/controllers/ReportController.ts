@@ -4,6 +4,8 @@ import * as ReportService from "../services/ReportService";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import { createError } from "../middleware/errorHandler";
+import type { ReportType } from "../models/Report";
+import type { ModerationSurface } from "../utils/moderationUtils";
 
 /**
  * @desc    Create a new report
@@ -14,18 +16,26 @@ export const createReport = catchAsync(
   async (
     req: Request<{}, {}, {
       reportedId: string;
-      reportType: "post" | "comment" | "user";
+      reportType: ReportType;
       reason: string;
+      surface?: ModerationSurface;
+      parentId?: string;
     }>,
     res: Response,
     _next: NextFunction
   ) => {
     const userId = req.user!.id;
-    const { reportedId, reportType, reason } = req.body;
+    const { reportedId, reportType, reason, surface, parentId } = req.body;
     if (!reportedId || !reportType || !reason) {
       throw createError("reportedId, reportType and reason are required", 400);
     }
-    const report = await ReportService.createReport(userId, reportedId, reportType, reason);
+    const report = await ReportService.createReport(
+      userId,
+      reportedId,
+      reportType,
+      reason,
+      surface ? { surface, parentId } : undefined
+    );
     sendResponse(res, 201, true, "Report created successfully", { report });
   }
 );
@@ -2,6 +2,9 @@ import type { Request, Response, NextFunction } from "express";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import RewardService from "../services/rewardService";
+import type { RewardInput } from "../services/rewardService";
+import type { IReward } from "../models/Reward";
+import { requestIdempotencyKey } from "../utils/idempotencyUtils";
 import Redemption from "../models/Redemption";
 import { Types } from "mongoose";
 
@@ -42,14 +45,16 @@ export const getMyRewards = catchAsync(
       return;
     }
 
-    // look up redemptions
-    const redemptions = await Redemption.find({ user: userId })
+    // look up catalog redemptions, newest first
+    const redemptions = await Redemption.find({ user: userId, reward: { $exists: true } })
       .populate<{ reward: any }>("reward")
-      .sort({ redeemedAt: -1 })
+      .sort({ redemptionDate: -1 })
       .lean();
 
-    const rewards = redemptions.map((r) => r.reward);
-    sendResponse(res, 200, true, "Your redeemed rewards", { rewards });
+    const rewards = redemptions
+      .filter((r) => r.status !== "canceled" && r.status !== "refunded")
+      .map((r) => r.reward);
+    sendResponse(res, 200, true, "Your redeemed rewards", { rewards, redemptions });
   }
 );
 
@@ -68,16 +73,17 @@ export const redeemReward = catchAsync(
     const userId = req.user!.id;
 
     try {
-      const { reward, remainingPoints } = await RewardService.redeemReward(
+      const { reward, redemption, remainingPoints, replayed } = await RewardService.redeemReward(
         userId,
-        rewardId
+        rewardId,
+        requestIdempotencyKey(req, "reward:redeem")
       );
       sendResponse(
         res,
         200,
         true,
         "Reward redeemed successfully",
-        { reward, remainingPoints }
+        { reward, redemption, remainingPoints, replayed }
       );
     } catch (err) {
       next(err);
@@ -92,22 +98,17 @@ export const redeemReward = catchAsync(
  */
 export const createReward = catchAsync(
   async (
-    req: Request<{}, {}, {
+    req: Request<{}, {}, RewardInput & {
       name: string;
       description: string;
       pointsRequired: number;
       rewardType: string;
-      imageUrl?: string;
     }>,
     res: Response
   ): Promise<void> => {
-    const { name, description, pointsRequired, rewardType, imageUrl } = req.body;
     const newReward = await RewardService.createReward({
-      name,
-      description,
-      pointsRequired,
-      rewardType: rewardType as any,
-      imageUrl,
+      ...req.body,
+      rewardType: req.body.rewardType as IReward["rewardType"],
     });
     sendResponse(res, 201, true, "Reward created successfully", {
       reward: newReward,
@@ -115,9 +116,40 @@ export const createReward = catchAsync(
   }
 );
 
+/**
+ * @desc    Update a reward's details, stock or restrictions (Admin only)
+ * @route   PATCH /api/rewards/:rewardId
+ * @access  Private/Admin
+ */
+export const updateReward = catchAsync(
+  async (req: Request<{ rewardId: string }, {}, RewardInput>, res: Response): Promise<void> => {
+    const reward = await RewardService.updateReward(req.params.rewardId, req.body);
+    sendResponse(res, 200, true, "Reward updated successfully", { reward });
+  }
+);
+
+/**
+ * @desc    List the whole catalog, including inactive and out-of-window rewards (Admin only)
+ * @route   GET /api/rewards/catalog
+ * @access  Private/Admin
+ */
+export const listCatalog = catchAsync(
+  async (req: Request<{}, {}, {}, { page?: string; limit?: string }>, res: Response): Promise<void> => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const { items, total } = await RewardService.listRewards({ page, limit, includeUnavailable: true });
+    sendResponse(res, 200, true, "Reward catalog fetched successfully", {
+      rewards: items,
+      pagination: { total, page, limit },
+    });
+  }
+);
+
 export default {
   listRewards,
   getMyRewards,
   redeemReward,
   createReward,
+  updateReward,
+  listCatalog,
 };
@@ -1,48 +1,32 @@
 import type { Request, Response, NextFunction } from "express";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
-import SearchService from "../services/SearchService";
+import SearchService, { SEARCH_TYPES } from "../services/SearchService";
+import type { SearchType } from "../services/SearchService";
 
 type Q = { query: string; page?: string; limit?: string };
 
 /**
- * Composite “global” search: ?type=…
+ * Unified search across users, groups, goals and posts: ?query=…&type=user,goal
+ * Results are ranked together; facets give per-type counts.
  */
 export const globalSearch = catchAsync(
   async (
-    req: Request<{}, {}, {}, Q & { type: "user"|"group"|"goal"|"post" }>,
+    req: Request<{}, {}, {}, Q & { type?: string }>,
     res: Response,
     _next: NextFunction
   ): Promise<void> => {
     const { query, page, limit, type } = req.query;
-    let items, pagination;
+    const types = (type ? type.split(",") : []).filter((t): t is SearchType =>
+      (SEARCH_TYPES as readonly string[]).includes(t)
+    );
 
-    switch (type) {
-      case "user":
-        ({ items, pagination } = await SearchService.searchUsers(query, page, limit));
-        sendResponse(res, 200, true, "Users fetched", { users: items, pagination });
-        return;          // <- bare return
-
-      case "group":
-        ({ items, pagination } = await SearchService.searchGroups(query, page, limit));
-        sendResponse(res, 200, true, "Groups fetched", { groups: items, pagination });
-        return;
-
-      case "goal":
-        ({ items, pagination } = await SearchService.searchGoals(query, page, limit));
-        sendResponse(res, 200, true, "Goals fetched", { goals: items, pagination });
-        return;
-
-      case "post":
-        ({ items, pagination } = await SearchService.searchPosts(query, page, limit));
-        sendResponse(res, 200, true, "Posts fetched", { posts: items, pagination });
-        return;
-
-      default:
-        // this should never happen once express-validator is in place, but just in case:
-        sendResponse(res, 400, false, `Unsupported search type: ${type}`);
-        return;
-    }
+    const { items: results, pagination, facets } = await SearchService.search(
+      req.user!.id,
+      query,
+      { types, page, limit }
+    );
+    sendResponse(res, 200, true, "Search results fetched", { results, facets, pagination });
   }
 );
 
@@ -52,7 +36,7 @@ export const globalSearch = catchAsync(
 export const searchUsers = catchAsync(
   async (req: Request<{}, {}, {}, Q>, res: Response) => {
     const { query, page, limit } = req.query;
-    const { items: users, pagination } = await SearchService.searchUsers(query, page, limit);
+    const { items: users, pagination } = await SearchService.searchUsers(req.user!.id, query, page, limit);
     sendResponse(res, 200, true, "Users fetched successfully", { users, pagination });
   }
 );
@@ -60,7 +44,7 @@ export const searchUsers = catchAsync(
 export const searchGroups = catchAsync(
   async (req: Request<{}, {}, {}, Q>, res: Response) => {
     const { query, page, limit } = req.query;
-    const { items: groups, pagination } = await SearchService.searchGroups(query, page, limit);
+    const { items: groups, pagination } = await SearchService.searchGroups(req.user!.id, query, page, limit);
     sendResponse(res, 200, true, "Groups fetched successfully", { groups, pagination });
   }
 );
@@ -68,7 +52,7 @@ export const searchGroups = catchAsync(
 export const searchGoals = catchAsync(
   async (req: Request<{}, {}, {}, Q>, res: Response) => {
     const { query, page, limit } = req.query;
-    const { items: goals, pagination } = await SearchService.searchGoals(query, page, limit);
+    const { items: goals, pagination } = await SearchService.searchGoals(req.user!.id, query, page, limit);
     sendResponse(res, 200, true, "Goals fetched successfully", { goals, pagination });
   }
 );
@@ -76,7 +60,7 @@ export const searchGoals = catchAsync(
 export const searchPosts = catchAsync(
   async (req: Request<{}, {}, {}, Q>, res: Response) => {
     const { query, page, limit } = req.query;
-    const { items: posts, pagination } = await SearchService.searchPosts(query, page, limit);
+    const { items: posts, pagination } = await SearchService.searchPosts(req.user!.id, query, page, limit);
     sendResponse(res, 200, true, "Posts fetched successfully", { posts, pagination });
   }
 );
@@ -1,33 +1,15 @@
 import type { Request, Response, NextFunction } from "express";
 import SessionService from "../services/SessionService";
 
-export const login = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> => {
-  const { email, password } = req.body;
-  try {
-    const { token, session } = await SessionService.login(email, password, req);
-    res.status(200).json({
-      success: true,
-      message: "Logged in successfully",
-      token,
-      sessionId: session._id,
-    });
-  } catch (err: any) {
-    next(err);
-  }
-};
-
 export const logout = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const sessionId = req.session.id;
-    await SessionService.logout(sessionId);
+    if (req.authSessionId) {
+      await SessionService.revoke(req.authSessionId, req.user!.id);
+    }
     res.status(200).json({ success: true, message: "Logged out successfully" });
   } catch (err: any) {
     next(err);
@@ -41,29 +23,10 @@ export const deleteAllSessions = async (
 ): Promise<void> => {
   try {
     const userId = req.user!.id;
-    const sessionId = req.session.id;
-    await SessionService.deleteAllExcept(userId, sessionId);
+    const revoked = await SessionService.revokeAllExcept(userId, req.authSessionId);
     res
       .status(200)
-      .json({ success: true, message: "Other sessions invalidated" });
-  } catch (err: any) {
-    next(err);
-  }
-};
-
-export const refreshSession = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> => {
-  try {
-    const userId = req.user!.id;
-    const token = await SessionService.refresh(userId);
-    res.status(200).json({
-      success: true,
-      message: "Session refreshed successfully",
-      token,
-    });
+      .json({ success: true, message: "Other sessions invalidated", data: { revoked } });
   } catch (err: any) {
     next(err);
   }
@@ -76,7 +39,7 @@ export const getSession = async (
 ): Promise<void> => {
   try {
     const { sessionId } = req.params;
-    const session = await SessionService.getById(sessionId);
+    const session = await SessionService.getById(sessionId, req.user!.id, req.authSessionId);
     res.status(200).json({
       success: true,
       message: "Session retrieved successfully",
@@ -94,7 +57,7 @@ export const getUserSessions = async (
 ): Promise<void> => {
   try {
     const userId = req.user!.id;
-    const sessions = await SessionService.listForUser(userId);
+    const sessions = await SessionService.listForUser(userId, req.authSessionId);
     res.status(200).json({ success: true, data: sessions });
   } catch (err: any) {
     next(err);
@@ -109,8 +72,8 @@ export const deleteSession = async (
   try {
     const { sessionId } = req.params;
     const userId = req.user!.id;
-    await SessionService.delete(sessionId, userId);
-    res.status(200).json({ success: true, message: "Session deleted" });
+    await SessionService.revoke(sessionId, userId);
+    res.status(200).json({ success: true, message: "Session revoked" });
   } catch (err: any) {
     next(err);
   }
@@ -41,6 +41,17 @@ export const updateNotificationPreferences = catchAsync(
   }
 );
 
+export const updateReminderPreferences = catchAsync(
+  async (req: Request, res: Response) => {
+    const prefs = await SettingsService.updateReminderPrefs(req.user!.id, {
+      dailyEnabled: req.body.dailyEnabled,
+      dailyTime: req.body.dailyTime,
+      quietHours: req.body.quietHours,
+    });
+    sendResponse(res, 200, true, "Reminder preferences updated", { reminders: prefs });
+  }
+);
+
 export const updateEmail = catchAsync(
   async (req: Request, res: Response) => {
     const newEmail = sanitize(req.body.newEmail);
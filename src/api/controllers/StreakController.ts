@@ -4,6 +4,7 @@ import mongoose from "mongoose";
 import * as StreakService from "../services/StreakService";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
+import { requestIdempotencyKey } from "../utils/idempotencyUtils";
 
 /**
  * @desc    Get user's streak details
@@ -26,6 +27,7 @@ export const getUserStreak = catchAsync(async (req: Request, res: Response): Pro
         currentStreak: 0,
         longestStreak: 0,
         goalProgress: 0,
+        freezeTokens: 0,
         completionDates: [] as string[],
       };
       sendResponse(res, 200, true, "No streak yet, returning empty", { streak: emptyStreak });
@@ -51,6 +53,54 @@ export const logDailyCheckIn = catchAsync(async (req: Request, res: Response): P
   sendResponse(res, 200, true, "Daily check-in successful", { streak });
 });
 
+/**
+ * @desc    Get the user's per-day check-in history
+ * @route   GET /api/streaks/history
+ * @access  Private
+ */
+export const getStreakHistory = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  const userId = req.user?.id!;
+  const limit = Math.min(365, parseInt(req.query.limit as string, 10) || 90);
+
+  const history = await StreakService.getStreakHistory(userId, limit);
+  sendResponse(res, 200, true, "Streak history fetched successfully", { history });
+});
+
+/**
+ * @desc    Buy streak freeze tokens with points
+ * @route   POST /api/streaks/freezes
+ * @access  Private
+ */
+export const purchaseFreezeTokens = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  const userId = req.user?.id!;
+  const quantity = req.body.quantity !== undefined ? Number(req.body.quantity) : 1;
+
+  const streak = await StreakService.purchaseFreezeTokens(
+    userId,
+    quantity,
+    requestIdempotencyKey(req, "streak:freeze")
+  );
+  sendResponse(res, 200, true, "Streak freeze purchased successfully", {
+    freezeTokens: streak.freezeTokens,
+  });
+});
+
+/**
+ * @desc    Recompute a user's streak from its check-in history (Admin only)
+ * @route   POST /api/streaks/recompute
+ * @access  Private/Admin
+ */
+export const recomputeStreak = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  const userId = req.body.userId as string;
+  if (!mongoose.isValidObjectId(userId)) {
+    sendResponse(res, 400, false, "Invalid User ID format.");
+    return;
+  }
+
+  const streak = await StreakService.recomputeStreak(userId);
+  sendResponse(res, 200, true, "Streak recomputed successfully", { streak });
+});
+
 /**
  * @desc    Reset user's streak (Admin only)
  * @route   DELETE /api/streaks/reset
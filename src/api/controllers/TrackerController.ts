@@ -1,5 +1,6 @@
 import type { Request, Response, NextFunction } from "express";
 import Tracker from "../models/Tracker"; // Database model for tracker
+import MeasurementService from "../services/MeasurementService";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import sanitize from "mongo-sanitize"; // Input sanitization
@@ -83,17 +84,21 @@ export const updateTracker = catchAsync(
       return;
     }
 
-    const updatedTracker = await Tracker.findOneAndUpdate(
+    const previous = await Tracker.findOneAndUpdate(
       { _id: id, user: userId },
       { progress },
-      { new: true }, // Return the updated document
+      { new: false }, // Keep the old value for the progress log
     );
 
-    if (!updatedTracker) {
+    if (!previous) {
       sendResponse(res, 404, false, "Tracker not found");
       return;
     }
 
+    const updatedTracker = await Tracker.findById(previous._id);
+    // Logs the change and feeds quantitative goals following this tracker
+    await MeasurementService.recordTrackerUpdate(updatedTracker, previous.progress);
+
     sendResponse(res, 200, true, "Tracker updated successfully", updatedTracker);
   },
 );
@@ -98,18 +98,17 @@ export const sendMessage = catchAsync(async (req: AnonymousRequest, res: Respons
   // Emit to WebSocket
   const app = req.app;
   const socketService = app.get("anonymousMilitarySocketService");
-  if (socketService) {
+  // Shadow-hidden messages are only echoed back in the response
+  if (socketService && !result.isHidden) {
     socketService.handleNewMessage(roomId, result.message);
-
-    // If flagged content, also send crisis resources
-    if (result.isFlagged) {
-      socketService.handleCrisisDetection(roomId, anonymousUser.sessionId);
-    }
   }
 
+  // Crisis resources go only to the sender, never to the whole room
   sendResponse(res, 201, true, "Message sent", {
     messageId: result.messageId,
-    isFlagged: result.isFlagged
+    isFlagged: result.isFlagged,
+    message: result.message,
+    ...(result.crisisResources && { crisisResources: result.crisisResources })
   });
 });
 
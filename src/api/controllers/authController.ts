@@ -1,11 +1,16 @@
 // src/api/controllers/authController.ts - Updated with subscription support
 
-import type { RequestHandler } from "express";
+import type { Request, RequestHandler } from "express";
+import type { IUser } from "../models/User";
 import { User } from "../models/User";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import { createError } from "../middleware/errorHandler";
 import AuthService from "../services/AuthService";
+import type { AuthTokens } from "../services/AuthService";
+import TwoFactorService from "../services/TwoFactorService";
+import AuthEmailService from "../services/AuthEmailService";
+import type { ClientInfo } from "../services/SessionService";
 import { logger } from "../../utils/winstonLogger";
 
 interface RegisterRequestBody {
@@ -16,6 +21,26 @@ interface RegisterRequestBody {
   billingCycle?: "monthly" | "yearly";
 }
 
+const clientInfo = (req: Request): ClientInfo => ({
+  ipAddress: req.ip,
+  userAgent: req.get("user-agent"),
+});
+
+// Body of a successful login, shared by both login steps
+const loginPayload = (user: IUser, tokens: AuthTokens): Record<string, unknown> => ({
+  id: user._id.toString(),
+  name: user.username,
+  email: user.email,
+  role: user.role,
+  isVerified: user.isVerified,
+  twoFactorEnabled: user.twoFactorEnabled,
+  subscriptionTier: user.subscriptionTier,
+  subscription_status: user.subscription_status,
+  trial_end_date: user.trial_end_date?.toISOString(),
+  isInTrial: user.isInTrial(),
+  ...tokens,
+});
+
 //
 // ─── POST /api/auth/register ─────────────────────────────────────────────────
 //
@@ -71,11 +96,13 @@ export const register: RequestHandler = catchAsync(async (req, res, next) => {
 
   logger.info(`✅ User registered successfully: ${normalizedEmail} with plan: ${selectedPlan}`);
 
+  await AuthEmailService.sendVerification(user);
+
   // Issue tokens
-  const accessToken = await AuthService.generateToken({
-    _id: user._id.toString(), // Changed back to _id to match AuthService
-    role: user.role,
-  });
+  const { accessToken, refreshToken, sessionId } = await AuthService.startSession(
+    { _id: user._id.toString(), role: user.role },
+    clientInfo(req)
+  );
 
   // Prepare user data for response (matching your frontend expectations)
   const userData = {
@@ -83,6 +110,7 @@ export const register: RequestHandler = catchAsync(async (req, res, next) => {
     username: user.username,
     email: user.email,
     role: user.role,
+    isVerified: user.isVerified,
     subscriptionTier: user.subscriptionTier,
     subscription_status: user.subscription_status,
     trial_end_date: user.trial_end_date?.toISOString(),
@@ -99,6 +127,8 @@ export const register: RequestHandler = catchAsync(async (req, res, next) => {
       token: accessToken,
       user: userData,
       accessToken,
+      refreshToken,
+      sessionId,
     }
   );
 });
@@ -133,26 +163,62 @@ export const login: RequestHandler = catchAsync(async (req, res, next) => {
     return next(createError("Invalid credentials", 401));
   }
 
-  // 3) Issue tokens
-  const accessToken = await AuthService.generateToken({
-    _id: user._id.toString(), // Changed back to _id to match AuthService
-    role: user.role,
-  });
+  // 3) With 2FA on, the password only earns a short-lived "mfa pending" token
+  if (user.twoFactorEnabled) {
+    res.status(200).json({
+      mfaRequired: true,
+      mfaToken: AuthService.generateMfaToken(user._id.toString()),
+    });
+    return;
+  }
 
-  // 4) Send response with subscription data
-  res.status(200).json({
-    id: user._id.toString(),
-    name: user.username,
-    email: user.email,
-    role: user.role,
-    subscriptionTier: user.subscriptionTier,
-    subscription_status: user.subscription_status,
-    trial_end_date: user.trial_end_date?.toISOString(),
-    isInTrial: user.isInTrial(),
-    accessToken,
+  // 4) Issue tokens for a new session
+  const tokens = await AuthService.startSession(
+    { _id: user._id.toString(), role: user.role },
+    clientInfo(req)
+  );
+
+  // 5) Send response with subscription data
+  res.status(200).json(loginPayload(user, tokens));
+});
+
+//
+// ─── POST /api/auth/login/2fa ───────────────────────────────────────────────
+//
+export const loginTwoFactor: RequestHandler = catchAsync(async (req, res) => {
+  const { mfaToken, code } = req.body as { mfaToken: string; code: string };
+  const { user, tokens } = await TwoFactorService.completeLogin(mfaToken, code, clientInfo(req));
+  res.status(200).json(loginPayload(user, tokens));
+});
+
+//
+// ─── POST /api/auth/2fa/setup ───────────────────────────────────────────────
+//
+export const setupTwoFactor: RequestHandler = catchAsync(async (req, res) => {
+  const setup = await TwoFactorService.setup(req.user!.id);
+  sendResponse(res, 200, true, "Scan the QR code, then confirm with a code from your app", setup);
+});
+
+//
+// ─── POST /api/auth/2fa/confirm ─────────────────────────────────────────────
+//
+export const confirmTwoFactor: RequestHandler = catchAsync(async (req, res) => {
+  const { code } = req.body as { code: string };
+  const recoveryCodes = await TwoFactorService.confirm(req.user!.id, code, clientInfo(req));
+  sendResponse(res, 200, true, "Two-factor authentication enabled. Store these recovery codes safely", {
+    recoveryCodes,
   });
 });
 
+//
+// ─── POST /api/auth/2fa/disable ─────────────────────────────────────────────
+//
+export const disableTwoFactor: RequestHandler = catchAsync(async (req, res) => {
+  const { password, code } = req.body as { password: string; code: string };
+  await TwoFactorService.disable(req.user!.id, password, code, clientInfo(req));
+  sendResponse(res, 200, true, "Two-factor authentication disabled", {});
+});
+
 //
 // ─── POST /api/auth/refresh-token ──────────────────────────────────────────
 //
@@ -163,11 +229,9 @@ export const refreshToken: RequestHandler = catchAsync(async (req, res, next) =>
   }
 
   try {
-    // this returns a new access token
-    const newAccessToken = await AuthService.refreshToken(oldToken);
-    sendResponse(res, 200, true, "Token refreshed successfully", {
-      accessToken: newAccessToken,
-    });
+    // the old refresh token is spent; the client must store the new one
+    const tokens = await AuthService.refreshToken(oldToken, clientInfo(req));
+    sendResponse(res, 200, true, "Token refreshed successfully", tokens);
   } catch (err) {
     logger.error(`Refresh token error: ${(err as Error).message}`);
     next(createError("Invalid or expired refresh token", 401));
@@ -177,10 +241,51 @@ export const refreshToken: RequestHandler = catchAsync(async (req, res, next) =>
 //
 // ─── POST /api/auth/logout ─────────────────────────────────────────────────
 //
-export const logout: RequestHandler = (_req, res) => {
-  // optionally revoke tokens here
+export const logout: RequestHandler = catchAsync(async (req, res) => {
+  // Works without a valid access token so an expired client can still sign out
+  const { refreshToken: token } = req.body as { refreshToken?: string };
+  if (token) {
+    await AuthService.revokeRefreshToken(token);
+  }
   sendResponse(res, 200, true, "Logged out successfully", {});
-};
+});
+
+//
+// ─── POST /api/auth/forgot-password ────────────────────────────────────────
+//
+export const forgotPassword: RequestHandler = catchAsync(async (req, res) => {
+  const { email } = req.body as { email: string };
+  await AuthEmailService.requestPasswordReset(email);
+  // Same answer whether or not the address has an account
+  sendResponse(res, 200, true, "If that email is registered, a reset link is on its way", {});
+});
+
+//
+// ─── POST /api/auth/reset-password ─────────────────────────────────────────
+//
+export const resetPassword: RequestHandler = catchAsync(async (req, res) => {
+  const { token, password } = req.body as { token: string; password: string };
+  await AuthEmailService.resetPassword(token, password);
+  sendResponse(res, 200, true, "Password has been reset. Please log in again", {});
+});
+
+//
+// ─── POST /api/auth/verify-email ───────────────────────────────────────────
+//
+export const verifyEmail: RequestHandler = catchAsync(async (req, res) => {
+  const { token } = req.body as { token: string };
+  await AuthEmailService.verifyEmail(token);
+  sendResponse(res, 200, true, "Email verified successfully", {});
+});
+
+//
+// ─── POST /api/auth/resend-verification ────────────────────────────────────
+//
+export const resendVerification: RequestHandler = catchAsync(async (req, res) => {
+  const { email } = req.body as { email: string };
+  await AuthEmailService.resendVerification(email);
+  sendResponse(res, 200, true, "If that email needs verifying, a new link is on its way", {});
+});
 
 //
 // ─── GET /api/auth/me ────────────────────────────────────────────────────────
@@ -212,6 +317,7 @@ export const getCurrentUser: RequestHandler = catchAsync(async (req, res, next)
       username: user.username,
       email: user.email,
       role: user.role,
+      isVerified: user.isVerified,
       subscriptionTier: user.subscriptionTier,
       subscription_status: user.subscription_status,
       trial_end_date: user.trial_end_date?.toISOString(),
@@ -223,7 +329,15 @@ export const getCurrentUser: RequestHandler = catchAsync(async (req, res, next)
 export default {
   register,
   login,
+  loginTwoFactor,
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
   refreshToken,
   logout,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
   getCurrentUser,
 };
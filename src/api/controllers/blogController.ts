@@ -120,7 +120,7 @@ export const getAllBlogPosts = catchAsync(
   ): Promise<void> => {
     const limit = parseInt(req.query.limit || "10", 10);
     const page = parseInt(req.query.page || "1", 10);
-    const posts = await blogService.getAllBlogPostsService(limit, page);
+    const posts = await blogService.getAllBlogPostsService(limit, page, req.user?.id);
     sendResponse(res, 200, true, "Blog posts retrieved", { posts });
   }
 );
@@ -136,7 +136,7 @@ export const getBlogPostById = catchAsync(
       sendResponse(res, 400, false, "Invalid post ID");
       return;
     }
-    const post = await blogService.getBlogPostByIdService(id);
+    const post = await blogService.getBlogPostByIdService(id, req.user?.id);
     sendResponse(res, 200, true, "Blog post retrieved", { post });
   }
 );
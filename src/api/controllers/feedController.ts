@@ -5,8 +5,8 @@ import sendResponse from "../utils/sendResponse";
 import FeedService from "../services/FeedService";
 
 /** GET /api/feed — fetch all feed posts */
-export const getFeed = catchAsync(async (_req: Request, res: Response): Promise<void> => {
-  const posts = await FeedService.getFeed();
+export const getFeed = catchAsync(async (req: Request, res: Response): Promise<void> => {
+  const posts = await FeedService.getFeed(req.user?.id);
   sendResponse(res, 200, true, "Feed posts retrieved successfully", { posts });
 });
 
@@ -3,6 +3,7 @@ import type { Request, Response, NextFunction } from "express";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import GamificationService from "../services/GamificationService";
+import { requestIdempotencyKey } from "../utils/idempotencyUtils";
 
 export default {
   /**
@@ -40,7 +41,11 @@ export default {
       const { userId, points } = req.body;
 
       // delegate to service
-      const profile = await GamificationService.addPoints(userId, points);
+      const profile = await GamificationService.addPoints(
+        userId,
+        points,
+        requestIdempotencyKey(req, "gamification:add-points")
+      );
 
       sendResponse(
         res,
@@ -204,11 +204,11 @@ export const getGroupMessages = catchAsync(async (req: Request, res: Response, _
  */
 export const sendGroupMessage = catchAsync(async (req: Request, res: Response, _next: NextFunction) => {
   const { groupId } = req.params;
-  const { content } = req.body;
+  const { content, replyTo } = req.body;
   const userId = req.user!.id;
 
   // Group existence and membership already verified by middleware
-  const message = await GroupService.sendGroupMessage(groupId, userId, content, global.io);
+  const message = await GroupService.sendGroupMessage(groupId, userId, content, global.io, replyTo);
   sendResponse(res, 201, true, "Message sent successfully", message);
 });
 
@@ -3,6 +3,9 @@ import { Request, Response, NextFunction } from "express";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 import PartnerService from "../services/PartnerService";
+import PartnershipService from "../services/PartnershipService";
+import type { AgreementInput, CheckInInput } from "../services/PartnershipService";
+import type { PartnershipStatus } from "../models/AccountabilityPartnership";
 
 export const notifyPartner = catchAsync(
   async (
@@ -64,8 +67,175 @@ export const getPartnerNotifications = catchAsync(
   }
 );
 
+/**
+ * @desc    List the current user's partnerships
+ * @route   GET /api/partner/partnerships
+ * @access  Private
+ */
+export const listPartnerships = catchAsync(
+  async (
+    req: Request<{}, {}, {}, { status?: PartnershipStatus }>,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    const partnerships = await PartnershipService.listPartnerships(req.user!.id, req.query.status);
+    sendResponse(res, 200, true, "Partnerships fetched successfully.", { partnerships });
+  }
+);
+
+/**
+ * @desc    Get one partnership
+ * @route   GET /api/partner/partnerships/:id
+ * @access  Private
+ */
+export const getPartnership = catchAsync(
+  async (req: Request<{ id: string }>, res: Response, _next: NextFunction): Promise<void> => {
+    const partnership = await PartnershipService.getPartnership(req.params.id, req.user!.id);
+    sendResponse(res, 200, true, "Partnership fetched successfully.", { partnership });
+  }
+);
+
+/**
+ * @desc    Propose check-in cadence, shared goals and prompts
+ * @route   PUT /api/partner/partnerships/:id/agreement
+ * @access  Private
+ */
+export const proposeAgreement = catchAsync(
+  async (
+    req: Request<{ id: string }, {}, AgreementInput>,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    const partnership = await PartnershipService.proposeAgreement(
+      req.params.id,
+      req.user!.id,
+      req.body
+    );
+    sendResponse(res, 200, true, "Agreement proposed. Waiting for your partner to accept.", {
+      partnership,
+    });
+  }
+);
+
+/**
+ * @desc    Accept the partner's proposed agreement
+ * @route   POST /api/partner/partnerships/:id/agreement/accept
+ * @access  Private
+ */
+export const acceptAgreement = catchAsync(
+  async (req: Request<{ id: string }>, res: Response, _next: NextFunction): Promise<void> => {
+    const partnership = await PartnershipService.acceptAgreement(req.params.id, req.user!.id);
+    sendResponse(res, 200, true, "Agreement accepted.", { partnership });
+  }
+);
+
+/**
+ * @desc    Record today's check-in
+ * @route   POST /api/partner/partnerships/:id/check-ins
+ * @access  Private
+ */
+export const recordCheckIn = catchAsync(
+  async (
+    req: Request<{ id: string }, {}, CheckInInput>,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    const checkIn = await PartnershipService.recordCheckIn(req.params.id, req.user!.id, req.body);
+    sendResponse(res, 201, true, "Check-in recorded.", { checkIn });
+  }
+);
+
+/**
+ * @desc    List recent check-ins of both partners
+ * @route   GET /api/partner/partnerships/:id/check-ins
+ * @access  Private
+ */
+export const listCheckIns = catchAsync(
+  async (
+    req: Request<{ id: string }, {}, {}, { limit?: string }>,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit || "30", 10)));
+    const checkIns = await PartnershipService.listCheckIns(req.params.id, req.user!.id, limit);
+    sendResponse(res, 200, true, "Check-ins fetched successfully.", { checkIns });
+  }
+);
+
+/**
+ * @desc    Pause check-ins, optionally until a date
+ * @route   POST /api/partner/partnerships/:id/pause
+ * @access  Private
+ */
+export const pausePartnership = catchAsync(
+  async (
+    req: Request<{ id: string }, {}, { until?: string }>,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    const until = req.body.until ? new Date(req.body.until) : undefined;
+    const partnership = await PartnershipService.pause(req.params.id, req.user!.id, until);
+    sendResponse(res, 200, true, "Partnership paused.", { partnership });
+  }
+);
+
+/**
+ * @desc    Resume a paused partnership
+ * @route   POST /api/partner/partnerships/:id/resume
+ * @access  Private
+ */
+export const resumePartnership = catchAsync(
+  async (req: Request<{ id: string }>, res: Response, _next: NextFunction): Promise<void> => {
+    const partnership = await PartnershipService.resume(req.params.id, req.user!.id);
+    sendResponse(res, 200, true, "Partnership resumed.", { partnership });
+  }
+);
+
+/**
+ * @desc    End a partnership
+ * @route   POST /api/partner/partnerships/:id/end
+ * @access  Private
+ */
+export const endPartnership = catchAsync(
+  async (
+    req: Request<{ id: string }, {}, { reason?: string }>,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    const partnership = await PartnershipService.end(req.params.id, req.user!.id, req.body.reason);
+    sendResponse(res, 200, true, "Partnership ended.", { partnership });
+  }
+);
+
+/**
+ * @desc    Partnership health score
+ * @route   GET /api/partner/partnerships/:id/health
+ * @access  Private
+ */
+export const getPartnershipHealth = catchAsync(
+  async (
+    req: Request<{ id: string }, {}, {}, { days?: string }>,
+    res: Response,
+    _next: NextFunction
+  ): Promise<void> => {
+    const days = Math.min(365, Math.max(7, parseInt(req.query.days || "30", 10)));
+    const health = await PartnershipService.getHealth(req.params.id, req.user!.id, days);
+    sendResponse(res, 200, true, "Partnership health fetched successfully.", { health });
+  }
+);
+
 export default {
   notifyPartner,
   addPartnerNotification,
   getPartnerNotifications,
+  listPartnerships,
+  getPartnership,
+  proposeAgreement,
+  acceptAgreement,
+  recordCheckIn,
+  listCheckIns,
+  pausePartnership,
+  resumePartnership,
+  endPartnership,
+  getPartnershipHealth,
 };
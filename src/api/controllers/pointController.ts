@@ -1,6 +1,8 @@
 // src/api/controllers/PointController.ts
 import type { Request, Response, NextFunction } from "express";
 import * as PointService from "../services/PointsService";
+import PointsLedgerService from "../services/PointsLedgerService";
+import { requestIdempotencyKey } from "../utils/idempotencyUtils";
 import catchAsync from "../utils/catchAsync";
 import sendResponse from "../utils/sendResponse";
 
@@ -22,8 +24,16 @@ export const addPoints = catchAsync(
       sendResponse(res, 400, false, "Points must be a positive number");
       return;
     }
-    const updatedUser = await PointService.addPoints(userId, points);
-    sendResponse(res, 200, true, `Added ${points} points`, { user: updatedUser });
+    const { entry, applied, balance } = await PointService.addPoints(
+      userId,
+      points,
+      requestIdempotencyKey(req, "points:add")
+    );
+    sendResponse(res, 200, true, `Added ${points} points`, {
+      points: balance,
+      entry,
+      replayed: !applied,
+    });
   }
 );
 
@@ -44,8 +54,16 @@ export const subtractPoints = catchAsync(
       sendResponse(res, 400, false, "Points must be a positive number");
       return;
     }
-    const updatedUser = await PointService.subtractPoints(userId, points);
-    sendResponse(res, 200, true, `Subtracted ${points} points`, { user: updatedUser });
+    const { entry, applied, balance } = await PointService.subtractPoints(
+      userId,
+      points,
+      requestIdempotencyKey(req, "points:subtract")
+    );
+    sendResponse(res, 200, true, `Subtracted ${points} points`, {
+      points: balance,
+      entry,
+      replayed: !applied,
+    });
   }
 );
 
@@ -79,17 +97,37 @@ export const redeemPoints = catchAsync(
       sendResponse(res, 400, false, "Reward ID is required");
       return;
     }
-    const result = await PointService.redeemPoints(userId, rewardId);
+    const result = await PointService.redeemPoints(
+      userId,
+      rewardId,
+      requestIdempotencyKey(req, "points:redeem")
+    );
     sendResponse(res, 200, true, result.message, {
       reward: result.reward,
+      redemption: result.redemption,
       userPoints: result.userPoints,
     });
   }
 );
 
+/**
+ * @desc    Ledger of the authenticated user's point changes, newest first
+ * @route   GET /api/users/points/history
+ * @access  Private
+ */
+export const getPointsHistory = catchAsync(
+  async (req: Request, res: Response): Promise<void> => {
+    const page = parseInt(req.query.page as string, 10) || 1;
+    const limit = parseInt(req.query.limit as string, 10) || 20;
+    const history = await PointsLedgerService.listEntries(req.user!.id, page, limit);
+    sendResponse(res, 200, true, "Points history fetched successfully", history);
+  }
+);
+
 export default {
   addPoints,
   subtractPoints,
   getUserPoints,
   redeemPoints,
+  getPointsHistory,
 };
@@ -5,15 +5,20 @@ import jwt from "jsonwebtoken";
 import catchAsync from "../utils/catchAsync";
 import { createError } from "./errorHandler";
 import { User } from "../models/User";
+import SessionService from "../services/SessionService";
 import { AuthenticatedRequest } from "../../types/AuthenticatedRequest";
 import { logger } from "../../utils/winstonLogger";
 
 interface JwtPayload {
   userId: string;
   role: string;
+  sid?: string;
 }
 
 export const protect: RequestHandler = catchAsync(async (req, _res, next) => {
+  // Already authenticated by an X-API-Key header (see apiKeyAuth)
+  if (req.apiKey) return next();
+
   let token: string | undefined;
 
   // ONLY use Bearer Authorization header (sent by your Next.js proxy)
@@ -49,6 +54,16 @@ export const protect: RequestHandler = catchAsync(async (req, _res, next) => {
     return next(createError("Unauthorized: Invalid token", 401));
   }
 
+  // Tokens bound to a session stop working as soon as the session is revoked
+  if (decoded.sid) {
+    const session = await SessionService.findActive(decoded.sid);
+    if (!session) {
+      logger.warn(`❌ Session revoked or expired: ${decoded.sid}`);
+      return next(createError("Unauthorized: Session has ended", 401));
+    }
+    req.authSessionId = decoded.sid;
+  }
+
   // Load user from database
   const userDoc = await User.findById(decoded.userId)
     .select("-password")
@@ -74,6 +89,7 @@ export const protect: RequestHandler = catchAsync(async (req, _res, next) => {
     rewards: userDoc.rewards,
     streakCount: userDoc.streakCount,
     isVerified: userDoc.isVerified,
+    twoFactorEnabled: userDoc.twoFactorEnabled ?? false,
     createdAt: userDoc.createdAt,
     updatedAt: userDoc.updatedAt,
   };
@@ -4,6 +4,8 @@ import jwt from "jsonwebtoken";
 import catchAsync from "../utils/catchAsync";
 import { createError } from "./errorHandler";
 import { User } from "../models/User";
+import SessionService from "../services/SessionService";
+import TwoFactorService from "../services/TwoFactorService";
 import { AuthenticatedRequest } from "../../types/AuthenticatedRequest";
 import { logger } from "../../utils/winstonLogger";
 
@@ -13,6 +15,15 @@ interface JwtPayload {
   role: string;
   email?: string;
   username?: string;
+  sid?: string; // Session the token was issued for
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      authSessionId?: string; // Session of the access token, when it has one
+    }
+  }
 }
 
 /**
@@ -20,6 +31,9 @@ interface JwtPayload {
  * ONLY reads from Authorization header - no cookie fallback
  */
 export const protect: RequestHandler = catchAsync(async (req, _res, next) => {
+  // Already authenticated by an X-API-Key header (see apiKeyAuth)
+  if (req.apiKey) return next();
+
   // Extract token from Authorization header ONLY
   const authHeader = req.headers.authorization;
 
@@ -64,6 +78,16 @@ export const protect: RequestHandler = catchAsync(async (req, _res, next) => {
     return next(createError("Unauthorized: Invalid token format", 401));
   }
 
+  // Tokens bound to a session stop working as soon as the session is revoked
+  if (decoded.sid) {
+    const session = await SessionService.findActive(decoded.sid);
+    if (!session) {
+      logger.warn(`❌ Session revoked or expired: ${decoded.sid}`);
+      return next(createError("Unauthorized: Session has ended", 401));
+    }
+    req.authSessionId = decoded.sid;
+  }
+
   // Load user from database
   const userDoc = await User.findById(userIdFromToken)
     .select("-password")
@@ -105,6 +129,7 @@ export const protect: RequestHandler = catchAsync(async (req, _res, next) => {
     rewards: userDoc.rewards ?? [],
     streakCount: userDoc.streakCount ?? 0,
     isVerified: userDoc.isVerified,
+    twoFactorEnabled: userDoc.twoFactorEnabled ?? false,
     createdAt: userDoc.createdAt,
     updatedAt: userDoc.updatedAt,
   };
@@ -139,6 +164,40 @@ export const restrictTo = (
   };
 };
 
+// Reachable before verifying: reading, plus managing one's own sessions
+const UNVERIFIED_SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+const UNVERIFIED_ALLOWED_PATHS = ["/api/sessions"];
+
+/**
+ * Restricts unverified accounts to read-only access until they confirm
+ * their email (see /api/auth/verify-email). Accounts from before this was
+ * enforced are marked verified by `npm run migrate:verified-emails`.
+ */
+export const requireVerifiedEmail: RequestHandler = (req, _res, next) => {
+  const authReq = req as AuthenticatedRequest;
+  if (!authReq.user || authReq.user.isVerified) return next();
+  if (UNVERIFIED_SAFE_METHODS.includes(req.method)) return next();
+  if (UNVERIFIED_ALLOWED_PATHS.some((path) => req.originalUrl.startsWith(path))) return next();
+
+  logger.warn(`🔒 Unverified user ${authReq.user.email} blocked from ${req.method} ${req.originalUrl}`);
+  return next(createError("Please verify your email address to continue", 403));
+};
+
+/**
+ * Staff roles (see TwoFactorService.isRequiredFor) must enable 2FA before
+ * using the API; until then only enrollment under /api/auth/2fa and their
+ * own sessions are reachable.
+ */
+export const requireStaffTwoFactor: RequestHandler = (req, _res, next) => {
+  const authReq = req as AuthenticatedRequest;
+  if (!authReq.user || authReq.user.twoFactorEnabled) return next();
+  if (!TwoFactorService.isRequiredFor(authReq.user.role)) return next();
+  if (req.originalUrl.startsWith("/api/sessions")) return next();
+
+  logger.warn(`🔒 ${authReq.user.role} ${authReq.user.email} blocked until 2FA is enabled`);
+  return next(createError("Two-factor authentication is required for your role. Set it up at /api/auth/2fa/setup", 403));
+};
+
 /**
  * Military-only access
  */
@@ -3,16 +3,31 @@
 import type { Document, Model, Types } from "mongoose";
 import mongoose, { Schema } from "mongoose";
 import crypto from "crypto";
+import type { ApiKeyScope } from "../utils/apiKeyScopes";
+import { API_KEY_SCOPES } from "../utils/apiKeyScopes";
 
-// --- Types & Interfaces ---
-export type Permission = "read" | "write" | "delete" | "admin";
+// Keys look like "abk_1a2b3c4d_<64 hex>". The first 12 characters are the
+// prefix, stored in clear so keys can be told apart; the full key is only
+// shown once, at creation, and stored as a SHA-256 hash.
+const KEY_PREFIX = "abk_";
+const PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+export const API_KEY_DEFAULT_RATE_LIMIT = 60;   // requests per minute
+export const API_KEY_MAX_RATE_LIMIT = 600;
 
+// --- Types & Interfaces ---
 export interface IAPIKey extends Document {
-  key: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
   owner: Types.ObjectId;
-  permissions: Permission[];
+  scopes: ApiKeyScope[];
+  rateLimit: number;              // requests per minute
   isActive: boolean;
-  expiresAt: Date;
+  expiresAt?: Date | null;        // null = never expires
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string | null;
+  revokedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 
@@ -21,36 +36,54 @@ export interface IAPIKey extends Document {
 
   // Instance methods
   deactivate(this: IAPIKey): Promise<IAPIKey>;
-  renew(this: IAPIKey, days?: number): Promise<IAPIKey>;
-  hasPermission(this: IAPIKey, permission: Permission): boolean;
+  hasScope(this: IAPIKey, scope: ApiKeyScope): boolean;
 }
 
 export interface IAPIKeyModel extends Model<IAPIKey> {
+  hashKey(apiKey: string): string;
   validateKey(apiKey: string): Promise<IAPIKey | null>;
   generateKeyForUser(
     userId: Types.ObjectId,
-    permissions?: Permission[],
-    expirationDays?: number
-  ): Promise<IAPIKey>;
+    options: { name: string; scopes: ApiKeyScope[]; expirationDays?: number | null; rateLimit?: number }
+  ): Promise<{ apiKey: IAPIKey; key: string }>;
 }
 
 // --- Schema Definition ---
-const APIKeySchema = new Schema<IAPIKey>(
+const APIKeySchema = new Schema<IAPIKey, IAPIKeyModel>(
   {
-    key: {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
       type: String,
       required: true,
-      unique: true,
+      select: false,
     },
     owner: {
       type: Schema.Types.ObjectId,
       ref: "User",
       required: true,
     },
-    permissions: {
+    scopes: {
       type: [String],
-      enum: ["read", "write", "delete", "admin"],
-      default: ["read"],
+      enum: API_KEY_SCOPES,
+      validate: {
+        validator: (scopes: string[]): boolean => scopes.length > 0,
+        message: "An API key needs at least one scope",
+      },
+    },
+    rateLimit: {
+      type: Number,
+      min: 1,
+      max: API_KEY_MAX_RATE_LIMIT,
+      default: API_KEY_DEFAULT_RATE_LIMIT,
     },
     isActive: {
       type: Boolean,
@@ -58,9 +91,19 @@ const APIKeySchema = new Schema<IAPIKey>(
     },
     expiresAt: {
       type: Date,
-      required: true,
-      default: (): Date =>
-        new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+      default: null,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+    lastUsedIp: {
+      type: String,
+      default: null,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
     },
   },
   {
@@ -71,21 +114,13 @@ const APIKeySchema = new Schema<IAPIKey>(
 );
 
 // --- Indexes (all in one place) ---
+APIKeySchema.index({ prefix: 1 }, { unique: true });
 APIKeySchema.index({ owner: 1, isActive: 1 });
-APIKeySchema.index({ expiresAt: 1 });
 
 // --- Virtuals ---
 APIKeySchema.virtual("status").get(function (this: IAPIKey): string {
   if (!this.isActive) return "Inactive";
-  return this.expiresAt.getTime() > Date.now() ? "Active" : "Expired";
-});
-
-// --- Pre‑validate Hook ---
-APIKeySchema.pre<IAPIKey>("validate", function (next) {
-  if (!this.key) {
-    this.key = crypto.randomBytes(32).toString("hex");
-  }
-  next();
+  return !this.expiresAt || this.expiresAt.getTime() > Date.now() ? "Active" : "Expired";
 });
 
 // --- Instance Methods ---
@@ -93,60 +128,65 @@ APIKeySchema.methods.deactivate = async function (
   this: IAPIKey
 ): Promise<IAPIKey> {
   this.isActive = false;
+  this.revokedAt = new Date();
   await this.save();
   // assert to IAPIKey so TS knows the returned document has all IAPIKey fields
   return this as IAPIKey;
 };
 
-APIKeySchema.methods.renew = async function (
+APIKeySchema.methods.hasScope = function (
   this: IAPIKey,
-  days = 30
-): Promise<IAPIKey> {
-  this.expiresAt = new Date(
-    Date.now() + days * 24 * 60 * 60 * 1000
-  );
-  this.isActive = true;
-  await this.save();
-  return this as IAPIKey;
-};
-
-APIKeySchema.methods.hasPermission = function (
-  permission: Permission
+  scope: ApiKeyScope
 ): boolean {
-  return (
-    this.permissions.includes(permission) ||
-    this.permissions.includes("admin")
-  );
+  return this.scopes.includes(scope);
 };
 
 // --- Static Methods ---
+APIKeySchema.statics.hashKey = function (apiKey: string): string {
+  return crypto.createHash("sha256").update(apiKey).digest("hex");
+};
+
+/** The active, unexpired key matching `apiKey`, or null */
 APIKeySchema.statics.validateKey = async function (
+  this: IAPIKeyModel,
   apiKey: string
 ): Promise<IAPIKey | null> {
-  return this.findOne({
-    key: apiKey,
+  if (!apiKey.startsWith(KEY_PREFIX) || apiKey.length <= PREFIX_LENGTH) return null;
+
+  const doc = await this.findOne({
+    prefix: apiKey.slice(0, PREFIX_LENGTH),
     isActive: true,
-    expiresAt: { $gt: new Date() },
-  });
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+  }).select("+keyHash");
+  if (!doc) return null;
+
+  const expected = Buffer.from(doc.keyHash, "hex");
+  const actual = Buffer.from(this.hashKey(apiKey), "hex");
+  return crypto.timingSafeEqual(expected, actual) ? doc : null;
 };
 
 APIKeySchema.statics.generateKeyForUser = async function (
+  this: IAPIKeyModel,
   userId: Types.ObjectId,
-  permissions: Permission[] = ["read"],
-  expirationDays = 30
-): Promise<IAPIKey> {
-  const keyString = crypto.randomBytes(32).toString("hex");
-  const expiresAt = new Date(
-    Date.now() + expirationDays * 24 * 60 * 60 * 1000
-  );
-  const newKey = new this({
-    key: keyString,
+  options: { name: string; scopes: ApiKeyScope[]; expirationDays?: number | null; rateLimit?: number }
+): Promise<{ apiKey: IAPIKey; key: string }> {
+  const prefix = `${KEY_PREFIX}${crypto.randomBytes(4).toString("hex")}`;
+  const key = `${prefix}_${crypto.randomBytes(32).toString("hex")}`;
+  const expiresAt = options.expirationDays
+    ? new Date(Date.now() + options.expirationDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const apiKey = new this({
+    name: options.name,
+    prefix,
+    keyHash: this.hashKey(key),
     owner: userId,
-    permissions,
+    scopes: [...new Set(options.scopes)],
+    rateLimit: options.rateLimit ?? API_KEY_DEFAULT_RATE_LIMIT,
     expiresAt,
   });
-  await newKey.save();
-  return newKey;
+  await apiKey.save();
+  return { apiKey, key };
 };
 
 // --- Model Export ---
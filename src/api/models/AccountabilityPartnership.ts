@@ -1,9 +1,31 @@
 // src/api/models/AccountabilityPartnership.ts
 import mongoose, { Document, Model, Schema } from "mongoose";
 
+export type PartnershipStatus = "active" | "paused" | "ended";
+export type CheckInFrequency = "daily" | "weekly";
+
+export interface IPartnershipAgreement {
+  frequency: CheckInFrequency;
+  weekdays: number[];                    // 0 = Sunday … 6 = Saturday (weekly only)
+  timezone: string;                      // check-in days are counted in this timezone
+  goals: mongoose.Types.ObjectId[];      // shared goals the check-ins cover
+  prompts: string[];                     // questions answered at each check-in
+  proposedBy: mongoose.Types.ObjectId;
+  agreedBy: mongoose.Types.ObjectId[];   // both partners → agreement in force
+  agreedAt?: Date;
+}
+
 export interface IAccountabilityPartnership extends Document {
   user1: mongoose.Types.ObjectId;
   user2: mongoose.Types.ObjectId;
+  match?: mongoose.Types.ObjectId;
+  status: PartnershipStatus;
+  agreement?: IPartnershipAgreement;
+  lastEvaluatedDay?: string;             // last local day checked for missed check-ins
+  pausedUntil?: Date;
+  endedAt?: Date;
+  endedBy?: mongoose.Types.ObjectId;
+  endReason?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -16,6 +38,20 @@ interface IAccountabilityPartnershipModel
   ): Promise<IAccountabilityPartnership | null>;
 }
 
+const AgreementSchema = new Schema<IPartnershipAgreement>(
+  {
+    frequency: { type: String, enum: ["daily", "weekly"], required: true },
+    weekdays: [{ type: Number, min: 0, max: 6 }],
+    timezone: { type: String, default: "UTC" },
+    goals: [{ type: Schema.Types.ObjectId, ref: "Goal" }],
+    prompts: [{ type: String, trim: true, maxlength: 300 }],
+    proposedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    agreedBy: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    agreedAt: { type: Date },
+  },
+  { _id: false }
+);
+
 const AccountabilityPartnershipSchema = new Schema<
   IAccountabilityPartnership,
   IAccountabilityPartnershipModel
@@ -23,12 +59,28 @@ const AccountabilityPartnershipSchema = new Schema<
   {
     user1: { type: Schema.Types.ObjectId, ref: "User", required: true },
     user2: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    match: { type: Schema.Types.ObjectId, ref: "Match" },
+    status: {
+      type: String,
+      enum: ["active", "paused", "ended"],
+      default: "active",
+    },
+    agreement: { type: AgreementSchema },
+    lastEvaluatedDay: { type: String },
+    pausedUntil: { type: Date },
+    endedAt: { type: Date },
+    endedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    endReason: { type: String, trim: true, maxlength: 500 },
   },
   {
     timestamps: true,
   }
 );
 
+AccountabilityPartnershipSchema.index({ user1: 1 });
+AccountabilityPartnershipSchema.index({ user2: 1 });
+AccountabilityPartnershipSchema.index({ status: 1, "agreement.agreedAt": 1 });
+
 // now give it an explicit return type
 AccountabilityPartnershipSchema.statics.findBetweenUsers = function(
   this: IAccountabilityPartnershipModel,
@@ -13,6 +13,8 @@ export type AdminAction =
   | "delete_goal"
   | "modify_subscription"
   | "view_reports"
+  | "moderate_content"
+  | "update_moderation_settings"
   | "other";
 
 export interface IAdminActionLog extends Document {
@@ -63,6 +65,8 @@ const AdminActionLogSchema = new Schema<IAdminActionLog, IAdminActionLogModel>(
         "delete_goal",
         "modify_subscription",
         "view_reports",
+        "moderate_content",
+        "update_moderation_settings",
         "other",
       ],
       required: [true, "Action type is required"],
@@ -136,13 +140,15 @@ AdminActionLogSchema.statics.logAction = async function (
   details: Record<string, string> = {},
   ipAddress = ""
 ): Promise<IAdminActionLog> {
+  // Only IPv4 is stored; IPv4-mapped IPv6 ("::ffff:1.2.3.4") is unwrapped
+  const ip = ipAddress.replace(/^::ffff:/, "");
   const entry = new this({
     admin: adminId,
     action,
     target: targetId,
     description,
     details,
-    ipAddress,
+    ipAddress: /^([0-9]{1,3}\.){3}[0-9]{1,3}$/.test(ip) ? ip : undefined,
   });
   return entry.save();
 };
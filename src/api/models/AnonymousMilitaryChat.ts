@@ -8,6 +8,7 @@ export interface IAnonymousMilitaryMessage extends Document {
   displayName: string;             // Generated anonymous name
   message: string;                 // Message content
   isFlagged: boolean;             // Crisis/inappropriate content detection
+  isHidden: boolean;              // Shadow-hidden by moderation: never shown to the room
   createdAt: Date;
 }
 
@@ -44,6 +45,10 @@ const AnonymousMilitaryMessageSchema = new Schema({
   isFlagged: {
     type: Boolean,
     default: false
+  },
+  isHidden: {
+    type: Boolean,
+    default: false
   }
 }, {
   timestamps: true,
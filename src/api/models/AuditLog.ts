@@ -133,7 +133,7 @@ AuditTrailSchema.statics.logEvent = async function (
     entityId,
     action,
     description,
-    ipAddress,
+    ipAddress: ipAddress || undefined,   // unknown IPs are left out rather than failing validation
     userAgent,
   }) as IAuditTrail;
 
@@ -26,6 +26,7 @@ export interface IBadge extends Document {
   event?: string;
   pointsRewarded: number;
   badgeIconUrl?: string;
+  rule?: Types.ObjectId;          // badge rule that awarded it, if any
   createdAt: Date;
   updatedAt: Date;
 
@@ -68,6 +69,7 @@ const BadgeSchema = new Schema<IBadge>(
     event: { type: String, default: "", trim: true },
     pointsRewarded: { type: Number, default: 0 },
     badgeIconUrl: { type: String, default: "", trim: true },
+    rule: { type: Schema.Types.ObjectId, ref: "BadgeRule" },
   },
   {
     timestamps: true,
@@ -78,6 +80,7 @@ const BadgeSchema = new Schema<IBadge>(
 
 // --- Indexes (declare once here) ---
 BadgeSchema.index({ user: 1, badgeType: 1, level: 1 });
+BadgeSchema.index({ user: 1, rule: 1 }, { partialFilterExpression: { rule: { $exists: true } } });
 
 // --- Virtuals ---
 BadgeSchema.virtual("isExpired").get(function (this: IBadge): boolean {
@@ -2,6 +2,7 @@
 import type { Document, Model, Types } from "mongoose";
 import mongoose, { Schema } from "mongoose";
 import { logger } from "../../utils/winstonLogger";
+import type { BadgeLevel } from "./Badge";
 
 /**
  * The badge‐progress document interface.
@@ -10,6 +11,9 @@ export interface IBadgeProgress extends Document {
   user: Types.ObjectId;
   badgeType: string;
   progress: number;
+  rule?: Types.ObjectId;          // set when progress is tracked by a badge rule
+  level?: BadgeLevel | null;      // highest tier the rule has unlocked
+  evaluatedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -40,6 +44,18 @@ const BadgeProgressSchema = new Schema<IBadgeProgress>(
       default: 0,
       min: [0, "Progress cannot be negative"],
     },
+    rule: {
+      type: Schema.Types.ObjectId,
+      ref: "BadgeRule",
+    },
+    level: {
+      type: String,
+      enum: ["Bronze", "Silver", "Gold", null],
+      default: null,
+    },
+    evaluatedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -50,6 +66,10 @@ const BadgeProgressSchema = new Schema<IBadgeProgress>(
 
 // single compound index instead of field-level ones
 BadgeProgressSchema.index({ user: 1, badgeType: 1 });
+BadgeProgressSchema.index(
+  { user: 1, rule: 1 },
+  { unique: true, partialFilterExpression: { rule: { $exists: true } } }
+);
 
 // Example hook: log each save
 BadgeProgressSchema.post<IBadgeProgress>("save", function (doc) {
@@ -0,0 +1,130 @@
+// src/api/models/BadgeRule.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+import type { BadgeLevel, BadgeType } from "./Badge";
+
+// --- Domain events rules react to ---
+export const BADGE_EVENTS = [
+  "goal_completed",
+  "check_in",
+  "message_sent",
+  "challenge_completed",
+] as const;
+export type BadgeEvent = (typeof BADGE_EVENTS)[number];
+
+// --- What a rule measures; each metric is recomputed from stored data ---
+export const BADGE_METRICS = [
+  "goals_completed",       // completed goals, optionally in one category
+  "check_ins",             // daily streak check-ins
+  "streak_days",           // longest check-in streak
+  "group_messages",        // messages sent in groups, optionally one group
+  "members_helped",        // distinct group members replied to
+  "challenges_completed",  // completed challenges taken part in
+] as const;
+export type BadgeMetric = (typeof BADGE_METRICS)[number];
+
+export const BADGE_TIER_ORDER: BadgeLevel[] = ["Bronze", "Silver", "Gold"];
+
+export interface IBadgeRuleTier {
+  level: BadgeLevel;
+  threshold: number;       // metric value that unlocks this tier
+  points: number;          // ledger points granted on unlock
+}
+
+export interface IBadgeRuleFilters {
+  category?: string;       // goals_completed
+  group?: Types.ObjectId;  // group_messages, members_helped
+}
+
+// --- Interface for BadgeRule Document ---
+export interface IBadgeRule extends Document {
+  key: string;             // stable slug, e.g. "fitness-finisher"
+  name: string;
+  description?: string;
+  badgeType: BadgeType;
+  badgeIconUrl?: string;
+  metric: BadgeMetric;
+  filters: IBadgeRuleFilters;
+  tiers: IBadgeRuleTier[];
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IBadgeRuleModel extends Model<IBadgeRule> {}
+
+// --- Sub-schemas ---
+const BadgeRuleTierSchema = new Schema<IBadgeRuleTier>(
+  {
+    level: { type: String, enum: BADGE_TIER_ORDER, required: true },
+    threshold: { type: Number, required: true, min: 1 },
+    points: { type: Number, default: 0, min: 0 },
+  },
+  { _id: false }
+);
+
+// --- Schema Definition ---
+const BadgeRuleSchema = new Schema<IBadgeRule, IBadgeRuleModel>(
+  {
+    key: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+      maxlength: 60,
+      match: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    },
+    name: { type: String, required: true, trim: true, maxlength: 100 },
+    description: { type: String, trim: true, maxlength: 500 },
+    badgeType: {
+      type: String,
+      enum: [
+        "goal_completed",
+        "helper",
+        "milestone_achiever",
+        "consistency_master",
+        "time_based",
+        "event_badge",
+      ],
+      required: true,
+    },
+    badgeIconUrl: { type: String, trim: true },
+    metric: { type: String, enum: BADGE_METRICS, required: true },
+    filters: {
+      category: { type: String, trim: true, maxlength: 100 },
+      group: { type: Schema.Types.ObjectId, ref: "Group" },
+    },
+    tiers: { type: [BadgeRuleTierSchema], required: true },
+    isActive: { type: Boolean, default: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true }
+);
+
+// --- Validation ---
+// Tiers start at Bronze, follow Bronze → Silver → Gold and need ever more progress
+BadgeRuleSchema.pre<IBadgeRule>("validate", function (next) {
+  const tiers = this.tiers ?? [];
+  if (!tiers.length) {
+    this.invalidate("tiers", "A rule needs at least one tier");
+  }
+  tiers.forEach((tier, i) => {
+    if (tier.level !== BADGE_TIER_ORDER[i]) {
+      this.invalidate("tiers", "Tiers must be listed as Bronze, Silver, Gold");
+    }
+    if (i > 0 && tier.threshold <= tiers[i - 1].threshold) {
+      this.invalidate("tiers", "Each tier must need more progress than the one before");
+    }
+  });
+  next();
+});
+
+// --- Indexes ---
+BadgeRuleSchema.index({ key: 1 }, { unique: true });
+BadgeRuleSchema.index({ isActive: 1, metric: 1 });
+
+// --- Model Export ---
+export const BadgeRule = mongoose.model<IBadgeRule, IBadgeRuleModel>("BadgeRule", BadgeRuleSchema);
+
+export default BadgeRule;
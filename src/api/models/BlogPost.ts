@@ -8,6 +8,7 @@ export interface IComment {
   _id: Types.ObjectId;
   user: Types.ObjectId;
   text: string;
+  isHidden: boolean;   // shadow-hidden by moderation: only the author sees it
   createdAt: Date;
 }
 
@@ -15,6 +16,7 @@ const CommentSchema = new Schema<IComment>(
   {
     user:      { type: Schema.Types.ObjectId, ref: "User", required: true },
     text:      { type: String, required: true, trim: true },
+    isHidden:  { type: Boolean, default: false },
     createdAt: { type: Date, default: Date.now },
   },
   { _id: true, timestamps: false }
@@ -29,6 +31,7 @@ export interface IBlogPost extends Document {
   author: Types.ObjectId;
   likes: Types.ObjectId[];
   comments: mongoose.Types.DocumentArray<IComment>;
+  isHidden: boolean;   // shadow-hidden by moderation: only the author sees it
   createdAt: Date;
   updatedAt: Date;
 
@@ -59,6 +62,7 @@ const BlogPostSchema = new Schema<IBlogPost, IBlogPostModel>(
     author:    { type: Schema.Types.ObjectId, ref: "User", required: true },
     likes:     [{ type: Schema.Types.ObjectId, ref: "User" }],
     comments:  { type: [CommentSchema], default: [] },
+    isHidden:  { type: Boolean, default: false },
   },
   {
     timestamps: true,
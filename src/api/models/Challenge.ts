@@ -13,6 +13,9 @@ export interface IMilestone extends Document {
   dueDate: Date;
   completed: boolean;
   achievedBy: Types.ObjectId[];
+  target?: number | null;         // progress a participant needs to achieve it; null = manual only
+  requiredAchievers: number;      // achievers needed before it completes
+  completedAt?: Date;
   _id: Types.ObjectId;
 }
 
@@ -20,9 +23,31 @@ export interface IParticipant extends Document {
   user: Types.ObjectId;
   progress: number;
   joinedAt: Date;
+  team?: Types.ObjectId | null;   // _id of an entry in `teams`
   _id: Types.ObjectId;
 }
 
+export interface ITeam extends Document {
+  name: string;
+  createdBy?: Types.ObjectId;
+  createdAt: Date;
+  _id: Types.ObjectId;
+}
+
+export interface ITeamSettings {
+  mode: "auto" | "choice";        // auto-balanced on join, or picked by the user
+  maxTeamSize: number | null;
+  scoring: "sum" | "average";     // how member progress adds up to team progress
+}
+
+export interface IChallengeAward {
+  user: Types.ObjectId;
+  rewardType: IReward["rewardType"];
+  rewardValue: string;
+  team?: Types.ObjectId | null;   // set when won as part of a team
+  awardedAt: Date;
+}
+
 // --- Main Challenge Interface ---
 export interface IChallenge extends Document {
   title: string;
@@ -36,7 +61,12 @@ export interface IChallenge extends Document {
   status: "ongoing" | "completed" | "canceled";
   visibility: "public" | "private";
   progressTracking: "individual" | "team" | "both";
+  teamSettings: ITeamSettings;
+  teams: Types.DocumentArray<ITeam>;
   milestones: Types.DocumentArray<IMilestone>;
+  awards: IChallengeAward[];      // rewards handed to winners at finalization
+  finalizedAt?: Date | null;
+  rewardsPaidAt?: Date | null;    // null while a finalized challenge's rewards are unpaid
   createdAt: Date;
   updatedAt: Date;
 
@@ -64,6 +94,9 @@ const MilestoneSchema = new Schema<IMilestone>(
     dueDate: { type: Date, required: true },
     completed: { type: Boolean, default: false },
     achievedBy: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    target: { type: Number, default: null, min: 0 },
+    requiredAchievers: { type: Number, default: 1, min: 1 },
+    completedAt: { type: Date },
   },
   { timestamps: false }
 );
@@ -73,10 +106,40 @@ const ParticipantSchema = new Schema<IParticipant>(
     user: { type: Schema.Types.ObjectId, ref: "User", required: true },
     progress: { type: Number, default: 0, min: 0 },
     joinedAt: { type: Date, default: Date.now },
+    team: { type: Schema.Types.ObjectId, default: null },
   },
   { timestamps: false }
 );
 
+const TeamSchema = new Schema<ITeam>(
+  {
+    name: { type: String, required: true, trim: true, maxlength: 50 },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+    createdAt: { type: Date, default: Date.now },
+  },
+  { timestamps: false }
+);
+
+const TeamSettingsSchema = new Schema<ITeamSettings>(
+  {
+    mode: { type: String, enum: ["auto", "choice"], default: "auto" },
+    maxTeamSize: { type: Number, default: null, min: 1 },
+    scoring: { type: String, enum: ["sum", "average"], default: "average" },
+  },
+  { _id: false }
+);
+
+const AwardSchema = new Schema<IChallengeAward>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    rewardType: { type: String, enum: ["badge", "discount", "prize", "recognition"], required: true },
+    rewardValue: { type: String, required: true },
+    team: { type: Schema.Types.ObjectId, default: null },
+    awardedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
 const RewardSchema = new Schema<IReward>(
   {
     rewardType: {
@@ -114,7 +177,14 @@ const ChallengeSchema = new Schema<IChallenge, IChallengeModel>(
       enum: ["individual", "team", "both"],
       default: "individual",
     },
+    teamSettings: { type: TeamSettingsSchema, default: (): Partial<ITeamSettings> => ({}) },
+    teams: { type: [TeamSchema], default: [] },
     milestones: { type: [MilestoneSchema], default: [] },
+    awards: { type: [AwardSchema], default: [] },
+    finalizedAt: { type: Date, default: null },
+    // Set to null at finalization and stamped once rewards are paid; absent
+    // on challenges finalized before payouts were tracked
+    rewardsPaidAt: { type: Date },
   },
   {
     timestamps: true,
@@ -132,6 +202,10 @@ ChallengeSchema.index({
   startDate: 1,
   endDate: 1,
 });
+// Finalize job: ongoing challenges past their end date
+ChallengeSchema.index({ status: 1, endDate: 1 });
+// Finalize job: completed challenges whose rewards are still unpaid
+ChallengeSchema.index({ status: 1, rewardsPaidAt: 1 });
 
 // --- Instance Methods ---
 ChallengeSchema.methods.addReward = async function (
@@ -214,10 +288,11 @@ ChallengeSchema.statics.fetchChallengesWithPagination = async function (
     .sort({ createdAt: -1 });
 };
 
-// --- Pre-save Hook ---
-ChallengeSchema.pre<IChallenge>("save", function (next) {
-  if (this.endDate < new Date() && this.status === "ongoing") {
-    this.status = "completed";
+// --- Validation ---
+// Completion is left to the finalize job so winners get their rewards
+ChallengeSchema.pre<IChallenge>("validate", function (next) {
+  if (this.endDate && this.startDate && this.endDate <= this.startDate) {
+    this.invalidate("endDate", "endDate must be after startDate");
   }
   next();
 });
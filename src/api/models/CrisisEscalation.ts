@@ -0,0 +1,104 @@
+// src/api/models/CrisisEscalation.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+
+export const ESCALATION_STATUSES = ["open", "acknowledged", "resolved"] as const;
+export type EscalationStatus = (typeof ESCALATION_STATUSES)[number];
+
+export type EscalationSeverity = "high" | "critical";
+
+export const ESCALATION_ACTIONS = [
+  "created",
+  "resources_sent",
+  "moderators_notified",
+  "acknowledged",
+  "outreach_sent",
+  "note",
+  "sla_breached",
+  "resolved",
+] as const;
+export type EscalationAction = (typeof ESCALATION_ACTIONS)[number];
+
+// --- Audit trail entry ---
+export interface IEscalationEvent {
+  action: EscalationAction;
+  actor?: Types.ObjectId | null;  // moderator; null for the system
+  note?: string;
+  at: Date;
+}
+
+// --- Interface for CrisisEscalation Document ---
+// A flagged anonymous chat message waiting on a moderator. The sender is
+// only known by a keyed hash of their session ID, never the ID itself.
+export interface ICrisisEscalation extends Document {
+  room: string;
+  sessionKey: string;             // HMAC of the anonymous session ID; not selected by default
+  message?: Types.ObjectId;       // AnonymousMilitaryMessage (expires after 24h)
+  excerpt: string;                // copy of the flagged text for the queue
+  matchedKeywords: string[];
+  severity: EscalationSeverity;
+  status: EscalationStatus;
+  ackDueAt: Date;                 // SLA: a moderator must acknowledge by then
+  resolveDueAt: Date;             // SLA: handled by then
+  ackBreachedAt?: Date | null;
+  resolveBreachedAt?: Date | null;
+  assignedTo?: Types.ObjectId | null;
+  acknowledgedAt?: Date | null;
+  resolvedAt?: Date | null;
+  resolvedBy?: Types.ObjectId | null;
+  resolution?: string;
+  events: IEscalationEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ICrisisEscalationModel extends Model<ICrisisEscalation> {}
+
+const EscalationEventSchema = new Schema<IEscalationEvent>(
+  {
+    action: { type: String, enum: ESCALATION_ACTIONS, required: true },
+    actor: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    note: { type: String, trim: true, maxlength: 1000 },
+    at: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+// --- Schema Definition ---
+const CrisisEscalationSchema = new Schema<ICrisisEscalation, ICrisisEscalationModel>(
+  {
+    room: { type: String, required: true },
+    sessionKey: { type: String, required: true, select: false },
+    message: { type: Schema.Types.ObjectId, ref: "AnonymousMilitaryMessage" },
+    excerpt: { type: String, required: true, maxlength: 500 },
+    matchedKeywords: { type: [String], default: [] },
+    severity: { type: String, enum: ["high", "critical"], default: "high" },
+    status: { type: String, enum: ESCALATION_STATUSES, default: "open" },
+    ackDueAt: { type: Date, required: true },
+    resolveDueAt: { type: Date, required: true },
+    ackBreachedAt: { type: Date, default: null },
+    resolveBreachedAt: { type: Date, default: null },
+    assignedTo: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    acknowledgedAt: { type: Date, default: null },
+    resolvedAt: { type: Date, default: null },
+    resolvedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    resolution: { type: String, trim: true, maxlength: 1000 },
+    events: { type: [EscalationEventSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+// --- Indexes ---
+// Moderator queue: unresolved cases, most urgent first
+CrisisEscalationSchema.index({ status: 1, ackDueAt: 1 });
+CrisisEscalationSchema.index({ status: 1, resolveDueAt: 1 });
+// Repeat escalations from the same anonymous session
+CrisisEscalationSchema.index({ sessionKey: 1, createdAt: -1 });
+
+// --- Model Export ---
+export const CrisisEscalation = mongoose.model<ICrisisEscalation, ICrisisEscalationModel>(
+  "CrisisEscalation",
+  CrisisEscalationSchema
+);
+
+export default CrisisEscalation;
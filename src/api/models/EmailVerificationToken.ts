@@ -7,7 +7,7 @@ import crypto from "crypto";
 // --- Interface for a single token document ---
 export interface IEmailVerificationToken extends Document {
   user: Types.ObjectId;
-  token: string;
+  token: string;            // SHA-256 hash; the raw token only goes out by email
   expiresAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -19,18 +19,26 @@ export interface IEmailVerificationToken extends Document {
 // --- Model interface for our statics ---
 export interface IEmailVerificationTokenModel
   extends Model<IEmailVerificationToken> {
+  hashToken(token: string): string;
+
   /**
    * Create a new token for `userId`, valid for `expiresInHours` (default 24h).
+   * Returns the raw token alongside the stored (hashed) document.
    */
   generate(
     userId: Types.ObjectId,
     expiresInHours?: number
-  ): Promise<IEmailVerificationToken>;
+  ): Promise<{ verificationToken: IEmailVerificationToken; token: string }>;
 
   /**
    * Look up a token string and ensure it's not expired.
    */
   findValid(token: string): Promise<IEmailVerificationToken | null>;
+
+  /**
+   * Atomically delete a valid token and return it, so it works only once.
+   */
+  consume(token: string): Promise<IEmailVerificationToken | null>;
 }
 
 // --- Schema definition ---
@@ -80,18 +88,23 @@ EmailVerificationTokenSchema.methods.isExpired = function (
   return this.expiresAt.getTime() <= Date.now();
 };
 
+// --- Static method: hash a raw token for storage/lookup ---
+EmailVerificationTokenSchema.statics.hashToken = function (token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
 // --- Static method: generate a new token ---
 EmailVerificationTokenSchema.statics.generate = async function (
   this: IEmailVerificationTokenModel,
   userId: Types.ObjectId,
   expiresInHours = 24
-): Promise<IEmailVerificationToken> {
-  const tokenString = crypto.randomBytes(32).toString("hex");
+): Promise<{ verificationToken: IEmailVerificationToken; token: string }> {
+  const token = crypto.randomBytes(32).toString("hex");
   const expiresAt = new Date(Date.now() + expiresInHours * 3600 * 1000);
 
-  const doc = new this({ user: userId, token: tokenString, expiresAt });
-  await doc.save();
-  return doc;
+  const verificationToken = new this({ user: userId, token: this.hashToken(token), expiresAt });
+  await verificationToken.save();
+  return { verificationToken, token };
 };
 
 // --- Static method: find only non‐expired token docs ---
@@ -99,11 +112,23 @@ EmailVerificationTokenSchema.statics.findValid = async function (
   this: IEmailVerificationTokenModel,
   token: string
 ): Promise<IEmailVerificationToken | null> {
-  const doc = await this.findOne({ token });
+  const doc = await this.findOne({ token: this.hashToken(token) });
   if (!doc || doc.isExpired()) return null;
   return doc;
 };
 
+// --- Static method: single-use lookup ---
+EmailVerificationTokenSchema.statics.consume = async function (
+  this: IEmailVerificationTokenModel,
+  token: string
+): Promise<IEmailVerificationToken | null> {
+  const doc = await this.findOne({ token: this.hashToken(token), expiresAt: { $gt: new Date() } });
+  if (!doc) return null;
+  // Only the request that actually deletes the token gets to use it
+  const { deletedCount } = await this.deleteOne({ _id: doc._id });
+  return deletedCount ? doc : null;
+};
+
 // --- Export the model ---
 export const EmailVerificationToken = mongoose.model<
   IEmailVerificationToken,
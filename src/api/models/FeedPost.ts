@@ -9,6 +9,7 @@ export interface IFeedComment extends Document {
   _id: Types.ObjectId;
   user: Types.ObjectId;
   text: string;
+  isHidden: boolean;   // shadow-hidden by moderation: only the author sees it
   createdAt: Date;
 }
 
@@ -16,6 +17,7 @@ const FeedCommentSchema = new Schema<IFeedComment>(
   {
     user: { type: Schema.Types.ObjectId, ref: "User", required: true },
     text: { type: String, required: true, trim: true, maxlength: 500 },
+    isHidden: { type: Boolean, default: false },
     createdAt: { type: Date, default: (): Date => new Date() },
   },
   { _id: true, timestamps: false }
@@ -27,6 +29,7 @@ export interface IFeedPost extends Document {
   content: string;
   likes: Types.ObjectId[];
   comments: mongoose.Types.DocumentArray<IFeedComment>;
+  isHidden: boolean;   // shadow-hidden by moderation: only the author sees it
   createdAt: Date;
   updatedAt: Date;
 
@@ -54,6 +57,7 @@ const FeedPostSchema = new Schema<IFeedPost, IFeedPostModel>(
     content: { type: String, required: true, trim: true, maxlength: 1000 },
     likes: [{ type: Schema.Types.ObjectId, ref: "User" }],
     comments: { type: [FeedCommentSchema], default: [] },
+    isHidden: { type: Boolean, default: false },
   },
   {
     timestamps: true,
@@ -3,13 +3,12 @@
 import type { Document, FilterQuery, Model, Types } from "mongoose";
 import mongoose, { Schema } from "mongoose";
 import sanitize from "mongo-sanitize";
-
-// --- Reminder Subdocument ---
-export interface IReminder {
-  message: string;
-  remindAt: Date;
-  status: "pending" | "sent";
-}
+import type { IReminder } from "./Reminder";
+import Reminder from "./Reminder";
+import type { HabitFrequency } from "../utils/habitUtils";
+import { HABIT_FREQUENCIES } from "../utils/habitUtils";
+import type { MeasurementAggregation } from "../utils/measurementUtils";
+import { MEASUREMENT_AGGREGATIONS } from "../utils/measurementUtils";
 
 // --- Milestone Subdocument ---
 export interface IMilestone {
@@ -18,6 +17,24 @@ export interface IMilestone {
   completed: boolean;
 }
 
+// --- Habit settings (habit goals only) ---
+export interface IHabitSettings {
+  frequency: HabitFrequency;  // period the target applies to
+  target: number;             // completions needed per period
+  startDay: string;           // first tracked local day, YYYY-MM-DD
+  reminderTime?: string;      // "HH:mm" local time for the habit reminder
+}
+
+// --- Measurement settings (quantitative goals only) ---
+export interface IMeasurementSettings {
+  unit: string;                       // "km", "USD", "books"
+  target: number;
+  startValue: number;                 // baseline before the first entry
+  aggregation: MeasurementAggregation;
+  current: number;                    // cached value computed from the entries
+  tracker?: Types.ObjectId | null;    // Tracker whose updates are logged as entries
+}
+
 // --- Goal Document Interface ---
 export interface IGoal extends Document {
   user: Types.ObjectId;
@@ -26,7 +43,15 @@ export interface IGoal extends Document {
 
   // ← NEW!
   category: string;
-  dueDate: Date;
+  dueDate?: Date;              // required except for habits, where it is an optional end
+
+  type: "one-off" | "habit" | "quantitative";
+  habit?: IHabitSettings;
+  measurement?: IMeasurementSettings;
+
+  parent?: Types.ObjectId | null;  // goal this one is a sub-goal of
+  blockedBy: Types.ObjectId[];     // goals that must be completed first
+  weight: number;                  // share of the parent's rolled-up progress
 
   status: "not-started" | "in-progress" | "completed" | "archived";
   progress: number;
@@ -34,19 +59,20 @@ export interface IGoal extends Document {
   milestones: Types.DocumentArray<IMilestone>;
   tags: string[];
   priority: "high" | "medium" | "low";
-  reminders: Types.DocumentArray<IReminder>;
   isPinned: boolean;
   points: number;
+  template?: Types.ObjectId;   // GoalTemplate this goal was created from
   createdAt: Date;
   updatedAt: Date;
 
   // Virtuals
   milestoneCount: number;
   completedMilestoneCount: number;
-  reminderCount: number;
+  reminders?: IReminder[];   // populated from the Reminder collection
+  reminderCount?: number;    // populated count of linked reminders
 
   // Instance methods
-  addReminder(message: string, remindAt: Date): Promise<IGoal>;
+  addReminder(message: string, remindAt: Date): Promise<IReminder>;
   markMilestoneComplete(index: number): Promise<IGoal>;
 }
 
@@ -67,8 +93,12 @@ const MilestoneSchema = new Schema<IMilestone>(
     deadline: {
       type: Date,
       required: true,
+      // Only new or rescheduled deadlines must be ahead; past milestones stay valid
       validate: {
-        validator: (d: Date): boolean => d.getTime() > Date.now(),
+        validator: function (this: Types.Subdocument, d: Date): boolean {
+          if (!this.isNew && !this.isDirectModified("deadline")) return true;
+          return d.getTime() > Date.now();
+        },
         message: "Deadline must be in the future",
       },
     },
@@ -77,18 +107,24 @@ const MilestoneSchema = new Schema<IMilestone>(
   { _id: false }
 );
 
-const ReminderSchema = new Schema<IReminder>(
+const HabitSettingsSchema = new Schema<IHabitSettings>(
   {
-    message: { type: String, required: true, trim: true, maxlength: 255 },
-    remindAt: {
-      type: Date,
-      required: true,
-      validate: {
-        validator: (d: Date): boolean => d.getTime() > Date.now(),
-        message: "Remind time must be in the future",
-      },
-    },
-    status: { type: String, enum: ["pending", "sent"], default: "pending" },
+    frequency: { type: String, enum: HABIT_FREQUENCIES, required: true },
+    target: { type: Number, required: true, min: 1, max: 100 },
+    startDay: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    reminderTime: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+  },
+  { _id: false }
+);
+
+const MeasurementSettingsSchema = new Schema<IMeasurementSettings>(
+  {
+    unit: { type: String, required: true, trim: true, maxlength: 30 },
+    target: { type: Number, required: true },
+    startValue: { type: Number, default: 0 },
+    aggregation: { type: String, enum: MEASUREMENT_AGGREGATIONS, default: "sum" },
+    current: { type: Number, default: 0 },
+    tracker: { type: Schema.Types.ObjectId, ref: "Tracker", default: null },
   },
   { _id: false }
 );
@@ -102,7 +138,20 @@ const GoalSchema = new Schema<IGoal, IGoalModel>(
 
     // ← NEW!
     category: { type: String, trim: true, maxlength: 100, required: true },
-    dueDate:  { type: Date, required: true },
+    dueDate:  {
+      type: Date,
+      required(this: IGoal): boolean {
+        return this.type !== "habit";
+      },
+    },
+
+    type:  { type: String, enum: ["one-off", "habit", "quantitative"], default: "one-off" },
+    habit: { type: HabitSettingsSchema },
+    measurement: { type: MeasurementSettingsSchema },
+
+    parent:    { type: Schema.Types.ObjectId, ref: "Goal", default: null },
+    blockedBy: { type: [{ type: Schema.Types.ObjectId, ref: "Goal" }], default: [] },
+    weight:    { type: Number, default: 1, min: 0.1, max: 100 },
 
     status:   {
       type: String,
@@ -115,9 +164,9 @@ const GoalSchema = new Schema<IGoal, IGoalModel>(
     milestones: { type: [MilestoneSchema], default: [] },
     tags:       { type: [String], default: [] },
     priority:   { type: String, enum: ["high", "medium", "low"], default: "medium" },
-    reminders:  { type: [ReminderSchema], default: [] },
     isPinned:   { type: Boolean, default: false },
     points:     { type: Number, default: 0 },
+    template:   { type: Schema.Types.ObjectId, ref: "GoalTemplate" },
   },
   {
     timestamps: true,
@@ -132,6 +181,14 @@ GoalSchema.index({ title: 1 });
 GoalSchema.index({ dueDate: 1 });
 GoalSchema.index({ completedAt: 1 });
 GoalSchema.index({ tags: 1 });
+GoalSchema.index({ user: 1, type: 1 });
+GoalSchema.index({ "measurement.tracker": 1 }, { sparse: true });
+GoalSchema.index({ parent: 1 });
+GoalSchema.index({ blockedBy: 1 });
+GoalSchema.index(
+  { title: "text", tags: "text", category: "text", description: "text" },
+  { name: "GoalSearch", weights: { title: 10, tags: 4, category: 3, description: 2 } }
+);
 
 // --- Virtuals ---
 GoalSchema.virtual("milestoneCount").get(function (this: IGoal): number {
@@ -140,11 +197,37 @@ GoalSchema.virtual("milestoneCount").get(function (this: IGoal): number {
 GoalSchema.virtual("completedMilestoneCount").get(function (this: IGoal): number {
   return this.milestones.filter((m) => m.completed).length;
 });
-GoalSchema.virtual("reminderCount").get(function (this: IGoal): number {
-  return this.reminders.length;
+// Reminders live in the Reminder collection; populate("reminders") to load them
+GoalSchema.virtual("reminders", {
+  ref: "Reminder",
+  localField: "_id",
+  foreignField: "goal",
+});
+GoalSchema.virtual("reminderCount", {
+  ref: "Reminder",
+  localField: "_id",
+  foreignField: "goal",
+  count: true,
 });
 
 // --- Middleware ---
+GoalSchema.pre<IGoal>("validate", function (next) {
+  if (this.type === "habit" && !this.habit) {
+    this.invalidate("habit", "Habit goals need a frequency and target");
+  }
+  if (this.type === "quantitative") {
+    const m = this.measurement;
+    if (!m) {
+      this.invalidate("measurement", "Quantitative goals need a unit and target");
+    } else if (m.aggregation === "sum" && m.target <= 0) {
+      this.invalidate("measurement.target", "Target must be greater than zero");
+    } else if (m.aggregation === "latest" && m.target === m.startValue) {
+      this.invalidate("measurement.target", "Target must differ from the starting value");
+    }
+  }
+  next();
+});
+
 GoalSchema.pre<IGoal>("save", function (next) {
   this.title = sanitize(this.title);
   if (this.description) this.description = sanitize(this.description);
@@ -156,14 +239,13 @@ GoalSchema.pre<IGoal>("save", function (next) {
 });
 
 // --- Instance Methods ---
+// Goal reminders are regular Reminder documents linked back to the goal
 GoalSchema.methods.addReminder = async function (
   this: IGoal,
   message: string,
   remindAt: Date
-): Promise<IGoal> {
-  this.reminders.push({ message, remindAt, status: "pending" });
-  await this.save();
-  return this;
+): Promise<IReminder> {
+  return Reminder.create({ user: this.user, goal: this._id, message, remindAt });
 };
 GoalSchema.methods.markMilestoneComplete = async function (
   this: IGoal,
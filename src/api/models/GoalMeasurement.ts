@@ -0,0 +1,51 @@
+// src/api/models/GoalMeasurement.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+
+export type MeasurementSource = "manual" | "tracker";
+
+// --- Interface for GoalMeasurement Document ---
+// One logged value of a quantitative goal, e.g. "5.2 km on Tuesday".
+export interface IGoalMeasurement extends Document {
+  goal: Types.ObjectId;
+  user: Types.ObjectId;
+  value: number;              // in the goal's unit
+  recordedAt: Date;
+  note?: string;
+  source: MeasurementSource;
+  sourceId?: Types.ObjectId;  // UserProgressLog entry the value came from
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IGoalMeasurementModel extends Model<IGoalMeasurement> {}
+
+// --- Schema Definition ---
+const GoalMeasurementSchema = new Schema<IGoalMeasurement, IGoalMeasurementModel>(
+  {
+    goal: { type: Schema.Types.ObjectId, ref: "Goal", required: true },
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    value: { type: Number, required: true, min: -1e9, max: 1e9 },
+    recordedAt: { type: Date, default: Date.now },
+    note: { type: String, trim: true, maxlength: 500 },
+    source: { type: String, enum: ["manual", "tracker"], default: "manual" },
+    sourceId: { type: Schema.Types.ObjectId },
+  },
+  { timestamps: true }
+);
+
+// --- Indexes ---
+GoalMeasurementSchema.index({ goal: 1, recordedAt: 1 });
+// A tracker update is copied onto each linked goal at most once
+GoalMeasurementSchema.index(
+  { goal: 1, sourceId: 1 },
+  { unique: true, partialFilterExpression: { sourceId: { $exists: true } } }
+);
+
+// --- Model Export ---
+export const GoalMeasurement = mongoose.model<IGoalMeasurement, IGoalMeasurementModel>(
+  "GoalMeasurement",
+  GoalMeasurementSchema
+);
+
+export default GoalMeasurement;
@@ -0,0 +1,112 @@
+// src/api/models/GoalTemplate.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+import type { Recurrence } from "./Reminder";
+
+// --- Template milestone: deadline is `offsetDays` after the start date ---
+export interface ITemplateMilestone {
+  title: string;
+  offsetDays: number;
+}
+
+// --- Template reminder: first fires `offsetDays` after start at local `time` ---
+export interface ITemplateReminder {
+  message: string;
+  offsetDays: number;
+  time: string;                       // "HH:mm" in the user's timezone
+  recurrence: Recurrence;
+  interval: number;
+  daysOfWeek: number[];
+  reminderType: "email" | "sms" | "app";
+}
+
+// --- Interface for GoalTemplate Document ---
+export interface IGoalTemplate extends Document {
+  title: string;
+  description?: string;
+  category: string;
+  tags: string[];
+  priority: "high" | "medium" | "low";
+  durationDays: number;               // goal due date = start + durationDays
+  milestones: ITemplateMilestone[];
+  reminders: ITemplateReminder[];
+  createdBy: Types.ObjectId;
+  isOfficial: boolean;                // published by an admin
+  visibility: "public" | "private";
+  usageCount: number;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IGoalTemplateModel extends Model<IGoalTemplate> {}
+
+// --- Sub-schemas ---
+const TemplateMilestoneSchema = new Schema<ITemplateMilestone>(
+  {
+    title: { type: String, required: true, trim: true, maxlength: 100 },
+    offsetDays: { type: Number, required: true, min: 1, max: 3650 },
+  },
+  { _id: false }
+);
+
+const TemplateReminderSchema = new Schema<ITemplateReminder>(
+  {
+    message: { type: String, required: true, trim: true, maxlength: 255 },
+    offsetDays: { type: Number, default: 0, min: 0, max: 3650 },
+    time: { type: String, default: "09:00", match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+    recurrence: {
+      type: String,
+      enum: ["none", "daily", "weekdays", "weekly", "monthly"],
+      default: "none",
+    },
+    interval: { type: Number, default: 1, min: 1, max: 365 },
+    daysOfWeek: [{ type: Number, min: 0, max: 6 }],
+    reminderType: { type: String, enum: ["email", "sms", "app"], default: "app" },
+  },
+  { _id: false }
+);
+
+// --- Schema Definition ---
+const GoalTemplateSchema = new Schema<IGoalTemplate, IGoalTemplateModel>(
+  {
+    title: { type: String, required: true, trim: true, maxlength: 255 },
+    description: { type: String, trim: true, maxlength: 1000 },
+    category: { type: String, required: true, trim: true, maxlength: 100 },
+    tags: { type: [String], default: [] },
+    priority: { type: String, enum: ["high", "medium", "low"], default: "medium" },
+    durationDays: { type: Number, required: true, min: 1, max: 3650 },
+    milestones: { type: [TemplateMilestoneSchema], default: [] },
+    reminders: { type: [TemplateReminderSchema], default: [] },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    isOfficial: { type: Boolean, default: false },
+    visibility: { type: String, enum: ["public", "private"], default: "public" },
+    usageCount: { type: Number, default: 0, min: 0 },
+    lastUsedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// --- Validation ---
+GoalTemplateSchema.pre<IGoalTemplate>("validate", function (next) {
+  if (this.milestones.some((m) => m.offsetDays > this.durationDays)) {
+    this.invalidate("milestones", "Milestones must fall within the template duration");
+  }
+  next();
+});
+
+// --- Indexes ---
+GoalTemplateSchema.index({ visibility: 1, category: 1, usageCount: -1 });
+GoalTemplateSchema.index({ createdBy: 1, createdAt: -1 });
+GoalTemplateSchema.index(
+  { title: "text", tags: "text", description: "text" },
+  { name: "GoalTemplateSearch", weights: { title: 10, tags: 4, description: 2 } }
+);
+
+// --- Model Export ---
+export const GoalTemplate = mongoose.model<IGoalTemplate, IGoalTemplateModel>(
+  "GoalTemplate",
+  GoalTemplateSchema
+);
+
+export default GoalTemplate;
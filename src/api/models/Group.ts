@@ -101,6 +101,10 @@ GroupSchema.index({ isPublic: 1 }); // Added
 GroupSchema.index({ lastActivity: -1 }); // Added
 GroupSchema.index({ tags: 1 }); // Added
 GroupSchema.index({ "unreadMessages.userId": 1 });
+GroupSchema.index(
+  { name: "text", tags: "text", description: "text" },
+  { name: "GroupSearch", weights: { name: 10, tags: 4, description: 2 } }
+);
 
 // --- Virtuals ---
 GroupSchema.virtual("memberCount").get(function (this: IGroup): number {
@@ -8,8 +8,11 @@ export interface IGroupMessage extends Document {
   content: string;
   timestamp: Date;
   type: "message" | "system";
+  replyTo?: mongoose.Types.ObjectId;
+  replyToSender?: mongoose.Types.ObjectId;
   editedAt?: Date;
   deletedAt?: Date;
+  isHidden: boolean;           // shadow-hidden by moderation: only the sender sees it
   createdAt: Date;
   updatedAt: Date;
 }
@@ -44,6 +47,14 @@ const GroupMessageSchema = new Schema<IGroupMessage>(
       enum: ["message", "system"],
       default: "message"
     },
+    replyTo: {
+      type: Schema.Types.ObjectId,
+      ref: "GroupMessage"
+    },
+    replyToSender: {
+      type: Schema.Types.ObjectId,
+      ref: "User"
+    },
     editedAt: {
       type: Date,
       default: null
@@ -51,6 +62,10 @@ const GroupMessageSchema = new Schema<IGroupMessage>(
     deletedAt: {
       type: Date,
       default: null
+    },
+    isHidden: {
+      type: Boolean,
+      default: false
     }
   },
   {
@@ -62,6 +77,7 @@ const GroupMessageSchema = new Schema<IGroupMessage>(
 // Indexes for better performance
 GroupMessageSchema.index({ groupId: 1, timestamp: -1 });
 GroupMessageSchema.index({ senderId: 1, timestamp: -1 });
+GroupMessageSchema.index({ senderId: 1, replyToSender: 1 }, { sparse: true });
 
 // Virtual for formatted message response
 GroupMessageSchema.virtual("formattedMessage").get(function() {
@@ -0,0 +1,39 @@
+// src/api/models/HabitLog.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+
+// --- Interface for HabitLog Document ---
+// One completion of a habit goal. Periods are derived from `day` when
+// read, so changing a habit's frequency re-buckets its history.
+export interface IHabitLog extends Document {
+  goal: Types.ObjectId;
+  user: Types.ObjectId;
+  day: string;              // local calendar day, YYYY-MM-DD
+  count: number;            // completions recorded by this entry
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IHabitLogModel extends Model<IHabitLog> {}
+
+// --- Schema Definition ---
+const HabitLogSchema = new Schema<IHabitLog, IHabitLogModel>(
+  {
+    goal: { type: Schema.Types.ObjectId, ref: "Goal", required: true },
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    day: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    count: { type: Number, default: 1, min: 1, max: 100 },
+    note: { type: String, trim: true, maxlength: 500 },
+  },
+  { timestamps: true }
+);
+
+// --- Indexes ---
+HabitLogSchema.index({ goal: 1, day: 1 });
+HabitLogSchema.index({ user: 1, day: 1 });
+
+// --- Model Export ---
+export const HabitLog = mongoose.model<IHabitLog, IHabitLogModel>("HabitLog", HabitLogSchema);
+
+export default HabitLog;
@@ -14,6 +14,10 @@ export interface IIntegration extends Document {
   type: "webhook" | "api" | "slack" | "google_calendar" | "github" | "custom";
   settings: IntegrationSettings;
   isActive: boolean;
+  signingSecret?: string;   // webhooks: HMAC key for X-Webhook-Signature
+  failureCount: number;     // consecutive failed deliveries
+  disabledAt?: Date | null; // set when switched off automatically
+  disabledReason?: string | null;
   createdAt: Date;
   updatedAt: Date;
 
@@ -48,6 +52,22 @@ const IntegrationSchema = new Schema<IIntegration, IIntegrationModel>(
       type: Boolean,
       default: true,
     },
+    signingSecret: {
+      type: String,
+      select: false,
+    },
+    failureCount: {
+      type: Number,
+      default: 0,
+    },
+    disabledAt: {
+      type: Date,
+      default: null,
+    },
+    disabledReason: {
+      type: String,
+      default: null,
+    },
   },
   {
     timestamps: true,
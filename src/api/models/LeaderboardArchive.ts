@@ -0,0 +1,58 @@
+// src/api/models/LeaderboardArchive.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+
+export interface IArchivedStanding {
+  user: Types.ObjectId;
+  score: number;
+  rank: number;
+}
+
+// --- Interface for LeaderboardArchive Document ---
+// Final standings of a finished weekly or monthly season
+export interface ILeaderboardArchive extends Document {
+  board: string;                     // "xp" or "category:<name>"
+  season: "weekly" | "monthly";
+  period: string;                    // e.g. "2026-W42", "2026-10"
+  startsAt: Date;
+  endsAt: Date;
+  standings: IArchivedStanding[];    // top of the board, best first
+  participants: number;              // everyone who scored, not just the stored top
+  archivedAt: Date;
+}
+
+export interface ILeaderboardArchiveModel extends Model<ILeaderboardArchive> {}
+
+// --- Sub-schemas ---
+const ArchivedStandingSchema = new Schema<IArchivedStanding>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    score: { type: Number, required: true },
+    rank: { type: Number, required: true, min: 1 },
+  },
+  { _id: false }
+);
+
+// --- Schema Definition ---
+const LeaderboardArchiveSchema = new Schema<ILeaderboardArchive, ILeaderboardArchiveModel>({
+  board: { type: String, required: true, trim: true, maxlength: 150 },
+  season: { type: String, enum: ["weekly", "monthly"], required: true },
+  period: { type: String, required: true },
+  startsAt: { type: Date, required: true },
+  endsAt: { type: Date, required: true },
+  standings: { type: [ArchivedStandingSchema], default: [] },
+  participants: { type: Number, default: 0, min: 0 },
+  archivedAt: { type: Date, default: Date.now },
+});
+
+// --- Indexes ---
+LeaderboardArchiveSchema.index({ board: 1, season: 1, period: 1 }, { unique: true });
+LeaderboardArchiveSchema.index({ "standings.user": 1, endsAt: -1 });
+
+// --- Model Export ---
+export const LeaderboardArchive = mongoose.model<ILeaderboardArchive, ILeaderboardArchiveModel>(
+  "LeaderboardArchive",
+  LeaderboardArchiveSchema
+);
+
+export default LeaderboardArchive;
@@ -1,6 +1,7 @@
 // src/api/models/Level.ts
 import type { Document, Model, Types } from "mongoose";
 import mongoose, { Schema } from "mongoose";
+import { levelForXp, xpForLevel } from "../utils/levelUtils";
 
 // --- Reward Subdocument ---
 export interface IReward {
@@ -12,6 +13,7 @@ export interface IReward {
 // --- Level Document Interface ---
 export interface ILevel extends Document {
   user: Types.ObjectId;
+  totalXp: number;          // lifetime XP; level, points and nextLevelAt derive from it
   points: number;
   level: number;
   nextLevelAt: number;
@@ -58,6 +60,7 @@ const LevelSchema = new Schema<ILevel, ILevelModel>(
       ref: "User",
       required: true,
     },
+    totalXp: { type: Number, default: 0, min: 0 },
     points: { type: Number, default: 0, min: 0 },
     level: { type: Number, default: 1, min: 1 },
     nextLevelAt: { type: Number, default: 100, min: 1 },
@@ -78,28 +81,42 @@ LevelSchema.index({ lastActivity: -1 });
 
 // --- Pre-save Hook for Level-up Logic ---
 LevelSchema.pre<ILevel>("save", function (next): void {
-  while (this.points >= this.nextLevelAt) {
-    this.points -= this.nextLevelAt;
-    this.level += 1;
-    this.nextLevelAt = Math.floor(this.nextLevelAt * 1.2);
+  if (this.isModified("totalXp")) {
+    Object.assign(this, levelForXp(this.totalXp));
   }
   next();
 });
 
 // --- Static Methods ---
+/**
+ * Add XP atomically. The total is incremented in one update and the derived
+ * fields are written only if no other increment landed in between; the
+ * later writer then sets them for the larger total instead.
+ */
 LevelSchema.statics.addPoints = async function (
   this: ILevelModel,
   userId: Types.ObjectId,
   points: number
 ): Promise<ILevel> {
-  let lvl = await this.findOne({ user: userId });
-  if (!lvl) {
-    lvl = await this.create({ user: userId, points });
-  } else {
-    lvl.points += points;
-    lvl.lastActivity = new Date();
-    await lvl.save();
+  // Rows from before totals were stored carry their XP in level + points
+  const legacy = await this.findOne({ user: userId, totalXp: { $exists: false } })
+    .select("level points")
+    .lean();
+  if (legacy) {
+    await this.updateOne(
+      { _id: legacy._id, totalXp: { $exists: false } },
+      { $set: { totalXp: xpForLevel(legacy.level, legacy.points) } }
+    );
   }
+
+  const lvl = await this.findOneAndUpdate(
+    { user: userId },
+    { $inc: { totalXp: points }, $set: { lastActivity: new Date() } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+  const derived = levelForXp(lvl.totalXp);
+  await this.updateOne({ _id: lvl._id, totalXp: lvl.totalXp }, { $set: derived });
+  Object.assign(lvl, derived);
   return lvl;
 };
 
@@ -2,11 +2,23 @@
 import type { Document, Model, Types } from "mongoose";
 import mongoose, { Schema } from "mongoose";
 
+export interface IMatchScoreFactor {
+  factor: string;
+  score: number;
+  weight: number;
+  explanation: string;
+}
+
 // --- Interface for Match Document ---
 export interface IMatch extends Document {
   user1: Types.ObjectId;
   user2: Types.ObjectId;
   status: "pending" | "active" | "rejected" | "completed";
+  requestedBy?: Types.ObjectId;          // user who proposed the match
+  acceptedBy: Types.ObjectId[];          // users who opted in; both → active
+  score?: number;                        // compatibility score (0..100) when requested
+  scoreBreakdown: IMatchScoreFactor[];
+  partnership?: Types.ObjectId;          // AccountabilityPartnership created on mutual opt-in
   createdAt: Date;
   updatedAt: Date;
 
@@ -37,6 +49,19 @@ const MatchSchema = new Schema<IMatch, IMatchModel>(
       enum: ["pending", "active", "rejected", "completed"],
       default: "pending",
     },
+    requestedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    acceptedBy: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    score: { type: Number, min: 0, max: 100 },
+    scoreBreakdown: [
+      {
+        _id: false,
+        factor: { type: String, required: true },
+        score: { type: Number, required: true },
+        weight: { type: Number, required: true },
+        explanation: { type: String },
+      },
+    ],
+    partnership: { type: Schema.Types.ObjectId, ref: "AccountabilityPartnership" },
   },
   {
     timestamps: true,
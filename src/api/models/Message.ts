@@ -47,6 +47,7 @@ export interface IMessage extends Document {
   reactions:   Types.DocumentArray<IReaction>;
   attachments: Types.DocumentArray<IAttachment>;
   replyTo?:    Types.ObjectId;
+  isHidden:    boolean;         // shadow-hidden by moderation: only the sender sees it
   timestamp:   Date;
   createdAt:   Date;
   updatedAt:   Date;
@@ -80,6 +81,7 @@ const MessageSchema = new Schema<IMessage, IMessageModel>(
     reactions:   { type: [ReactionSchema], default: [] },
     attachments: { type: [AttachmentSchema], default: [] },
     replyTo:     { type: Schema.Types.ObjectId, ref: "Message" },
+    isHidden:    { type: Boolean, default: false },
     timestamp:   { type: Date, default: (): Date => new Date() },
   },
   {
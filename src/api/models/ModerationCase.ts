@@ -0,0 +1,91 @@
+// src/api/models/ModerationCase.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+import type { ModerationAction, ModerationSurface } from "../utils/moderationUtils";
+import { MODERATION_ACTIONS, MODERATION_SURFACES } from "../utils/moderationUtils";
+
+export const CASE_STATUSES = ["pending", "actioned", "dismissed"] as const;
+export type CaseStatus = (typeof CASE_STATUSES)[number];
+
+export const CASE_DECISIONS = ["approve", "hide", "remove"] as const;
+export type CaseDecision = (typeof CASE_DECISIONS)[number];
+
+// --- Pipeline match stored on the case ---
+export interface ICaseMatch {
+  term: string;
+  category: string;
+  source?: string;
+}
+
+// --- Interface for ModerationCase Document ---
+// One piece of content waiting on a moderator, opened by the pipeline
+// (flag / shadow-hide) or by user reports. Reports on the same content
+// accumulate on a single case.
+export interface IModerationCase extends Document {
+  surface: ModerationSurface;
+  contentId: Types.ObjectId;
+  parentId?: Types.ObjectId | null;   // post holding a comment
+  author?: Types.ObjectId | null;     // null for anonymous content
+  excerpt: string;
+  locale: string;
+  matches: ICaseMatch[];
+  autoAction?: ModerationAction | null;  // what the pipeline did on submit
+  reports: Types.ObjectId[];
+  reportCount: number;
+  hidden: boolean;                    // content currently shadow-hidden
+  status: CaseStatus;
+  decision?: CaseDecision | null;
+  decisionNote?: string;
+  reviewedBy?: Types.ObjectId | null;
+  reviewedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IModerationCaseModel extends Model<IModerationCase> {}
+
+const CaseMatchSchema = new Schema<ICaseMatch>(
+  {
+    term: { type: String, required: true },
+    category: { type: String, required: true },
+    source: { type: String },
+  },
+  { _id: false }
+);
+
+// --- Schema Definition ---
+const ModerationCaseSchema = new Schema<IModerationCase, IModerationCaseModel>(
+  {
+    surface: { type: String, enum: MODERATION_SURFACES, required: true },
+    contentId: { type: Schema.Types.ObjectId, required: true },
+    parentId: { type: Schema.Types.ObjectId, default: null },
+    author: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    excerpt: { type: String, default: "", maxlength: 1000 },
+    locale: { type: String, default: "en" },
+    matches: { type: [CaseMatchSchema], default: [] },
+    autoAction: { type: String, enum: [...MODERATION_ACTIONS, null], default: null },
+    reports: { type: [{ type: Schema.Types.ObjectId, ref: "Report" }], default: [] },
+    reportCount: { type: Number, default: 0 },
+    hidden: { type: Boolean, default: false },
+    status: { type: String, enum: CASE_STATUSES, default: "pending" },
+    decision: { type: String, enum: [...CASE_DECISIONS, null], default: null },
+    decisionNote: { type: String, trim: true, maxlength: 1000 },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    reviewedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+// --- Indexes ---
+ModerationCaseSchema.index({ surface: 1, contentId: 1 }, { unique: true });
+// Review queue: most reported first, then oldest
+ModerationCaseSchema.index({ status: 1, reportCount: -1, createdAt: 1 });
+ModerationCaseSchema.index({ author: 1, createdAt: -1 });
+
+// --- Model Export ---
+export const ModerationCase = mongoose.model<IModerationCase, IModerationCaseModel>(
+  "ModerationCase",
+  ModerationCaseSchema
+);
+
+export default ModerationCase;
@@ -0,0 +1,54 @@
+// src/api/models/ModerationPolicy.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+import type { ModerationAction, ModerationSurface } from "../utils/moderationUtils";
+import { MODERATION_ACTIONS, MODERATION_SURFACES } from "../utils/moderationUtils";
+
+// --- Category rule ---
+export interface IModerationRule {
+  category: string;
+  action: ModerationAction;
+}
+
+// --- Interface for ModerationPolicy Document ---
+// What happens to text on one surface when the pipeline finds a match:
+// a per-category action, falling back to `defaultAction`.
+export interface IModerationPolicy extends Document {
+  surface: ModerationSurface;
+  enabled: boolean;
+  defaultAction: ModerationAction;
+  rules: IModerationRule[];
+  updatedBy?: Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IModerationPolicyModel extends Model<IModerationPolicy> {}
+
+const ModerationRuleSchema = new Schema<IModerationRule>(
+  {
+    category: { type: String, required: true, trim: true, lowercase: true, maxlength: 50 },
+    action: { type: String, enum: MODERATION_ACTIONS, required: true },
+  },
+  { _id: false }
+);
+
+// --- Schema Definition ---
+const ModerationPolicySchema = new Schema<IModerationPolicy, IModerationPolicyModel>(
+  {
+    surface: { type: String, enum: MODERATION_SURFACES, required: true, unique: true },
+    enabled: { type: Boolean, default: true },
+    defaultAction: { type: String, enum: MODERATION_ACTIONS, default: "mask" },
+    rules: { type: [ModerationRuleSchema], default: [] },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: true }
+);
+
+// --- Model Export ---
+export const ModerationPolicy = mongoose.model<IModerationPolicy, IModerationPolicyModel>(
+  "ModerationPolicy",
+  ModerationPolicySchema
+);
+
+export default ModerationPolicy;
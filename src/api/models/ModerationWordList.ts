@@ -0,0 +1,57 @@
+// src/api/models/ModerationWordList.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+import { normalizeTerm } from "../utils/moderationUtils";
+
+// --- Interface for ModerationWordList Document ---
+// Terms of one category ("profanity", "harassment", …) for one locale.
+// Lists with locale "*" apply to every locale.
+export interface IModerationWordList extends Document {
+  locale: string;
+  category: string;
+  terms: string[];
+  isActive: boolean;
+  updatedBy?: Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IModerationWordListModel extends Model<IModerationWordList> {}
+
+// --- Schema Definition ---
+const ModerationWordListSchema = new Schema<IModerationWordList, IModerationWordListModel>(
+  {
+    locale: { type: String, required: true, trim: true, lowercase: true, match: /^(\*|[a-z]{2,3})$/ },
+    category: { type: String, required: true, trim: true, lowercase: true, maxlength: 50 },
+    terms: {
+      type: [String],
+      default: [],
+      validate: {
+        validator: (terms: string[]): boolean => terms.length <= 5000,
+        message: "A word list can hold at most 5000 terms",
+      },
+    },
+    isActive: { type: Boolean, default: true },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: true }
+);
+
+// --- Indexes ---
+ModerationWordListSchema.index({ locale: 1, category: 1 }, { unique: true });
+
+// --- Middleware ---
+ModerationWordListSchema.pre<IModerationWordList>("save", function (next) {
+  if (this.isModified("terms")) {
+    this.terms = [...new Set(this.terms.map(normalizeTerm).filter(Boolean))];
+  }
+  next();
+});
+
+// --- Model Export ---
+export const ModerationWordList = mongoose.model<IModerationWordList, IModerationWordListModel>(
+  "ModerationWordList",
+  ModerationWordListSchema
+);
+
+export default ModerationWordList;
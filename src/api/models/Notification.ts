@@ -3,12 +3,28 @@ import type { Document, Model, Types, UpdateWriteOpResult } from "mongoose";
 import mongoose, { Schema } from "mongoose";
 
 // --- Notification Types ---
-export type NotificationType =
-  | "friend_request"
-  | "message"
-  | "group_invite"
-  | "blog_activity"
-  | "goal_milestone";
+export const NOTIFICATION_TYPES = [
+  "friend_request",
+  "message",
+  "group_invite",
+  "blog_activity",
+  "goal_milestone",
+  "reminder",
+  "badge_unlocked",
+  "level_up",
+  "partner_request",
+  "partner_checkin",
+  "reward_update",
+  "crisis_alert",
+  "system",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// --- Delivery Channels ---
+export const NOTIFICATION_CHANNELS = ["in_app", "socket", "email", "push", "sms"] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
 
 // --- Interface for Notification Document ---
 export interface INotification extends Document {
@@ -19,6 +35,7 @@ export interface INotification extends Document {
   read: boolean;                 // Read status
   link?: string;                 // Optional link
   expiresAt?: Date;              // When notification expires
+  digest?: Types.ObjectId;       // Email digest that already covered it
   createdAt: Date;               // Auto-generated
   updatedAt: Date;               // Auto-generated
 
@@ -65,13 +82,7 @@ const NotificationSchema = new Schema<INotification, INotificationModel>(
     },
     type: {
       type: String,
-      enum: [
-        "friend_request",
-        "message",
-        "group_invite",
-        "blog_activity",
-        "goal_milestone",
-      ],
+      enum: NOTIFICATION_TYPES,
       required: true,
     },
     read: {
@@ -86,6 +97,11 @@ const NotificationSchema = new Schema<INotification, INotificationModel>(
       type: Date,
       expires: "30d", // auto-remove after 30 days
     },
+    digest: {
+      type: Schema.Types.ObjectId,
+      ref: "NotificationDigest",
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -100,6 +116,7 @@ NotificationSchema.index({ sender: 1 });
 NotificationSchema.index({ type: 1 });
 NotificationSchema.index({ read: 1 });
 NotificationSchema.index({ expiresAt: 1 });
+NotificationSchema.index({ user: 1, read: 1, digest: 1, createdAt: 1 });
 
 // --- Virtuals ---
 NotificationSchema.virtual("isExpired").get(function (this: INotification): boolean {
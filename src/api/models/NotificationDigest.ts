@@ -0,0 +1,47 @@
+// src/api/models/NotificationDigest.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+
+export type DigestStatus = "pending" | "sent" | "empty";
+
+// --- Interface for NotificationDigest Document ---
+export interface INotificationDigest extends Document {
+  user: Types.ObjectId;
+  frequency: "daily" | "weekly";
+  periodKey: string;                 // user's local "YYYY-MM-DD" the digest was due
+  notifications: Types.ObjectId[];   // Notifications covered by this digest
+  locale: string;
+  status: DigestStatus;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface INotificationDigestModel extends Model<INotificationDigest> {}
+
+// --- Schema Definition ---
+const NotificationDigestSchema = new Schema<INotificationDigest, INotificationDigestModel>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    frequency: { type: String, enum: ["daily", "weekly"], required: true },
+    periodKey: { type: String, required: true },
+    notifications: [{ type: Schema.Types.ObjectId, ref: "Notification" }],
+    locale: { type: String, default: "en" },
+    status: { type: String, enum: ["pending", "sent", "empty"], default: "pending" },
+    sentAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// --- Indexes ---
+// One digest per user per period; also serves as the send lock
+NotificationDigestSchema.index({ user: 1, frequency: 1, periodKey: 1 }, { unique: true });
+NotificationDigestSchema.index({ user: 1, createdAt: -1 });
+
+// --- Model Export ---
+export const NotificationDigest = mongoose.model<INotificationDigest, INotificationDigestModel>(
+  "NotificationDigest",
+  NotificationDigestSchema
+);
+
+export default NotificationDigest;
@@ -0,0 +1,82 @@
+// src/api/models/NotificationDispatch.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+import type { NotificationChannel, NotificationType } from "./Notification";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_TYPES } from "./Notification";
+
+export type DeliveryStatus = "sent" | "failed" | "skipped";
+
+// --- Per-channel delivery result ---
+export interface IChannelDelivery {
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  reason?: string;       // why a channel was skipped or failed
+  attemptedAt: Date;
+}
+
+// --- Interface for NotificationDispatch Document ---
+export interface INotificationDispatch extends Document {
+  user: Types.ObjectId;                 // Recipient
+  sender?: Types.ObjectId;
+  type: NotificationType;
+  message: string;
+  link?: string;
+  notification?: Types.ObjectId;        // In-app Notification, when one was created
+  deliveries: IChannelDelivery[];
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Virtuals
+  deliveredChannels: NotificationChannel[];
+}
+
+export interface INotificationDispatchModel extends Model<INotificationDispatch> {}
+
+const ChannelDeliverySchema = new Schema<IChannelDelivery>(
+  {
+    channel: { type: String, enum: NOTIFICATION_CHANNELS, required: true },
+    status: { type: String, enum: ["sent", "failed", "skipped"], required: true },
+    reason: { type: String, trim: true, maxlength: 500 },
+    attemptedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+// --- Schema Definition ---
+const NotificationDispatchSchema = new Schema<INotificationDispatch, INotificationDispatchModel>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    sender: { type: Schema.Types.ObjectId, ref: "User" },
+    type: { type: String, enum: NOTIFICATION_TYPES, required: true },
+    message: { type: String, required: true, trim: true, maxlength: 500 },
+    link: { type: String, trim: true },
+    notification: { type: Schema.Types.ObjectId, ref: "Notification" },
+    deliveries: { type: [ChannelDeliverySchema], default: [] },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// --- Indexes ---
+NotificationDispatchSchema.index({ user: 1, createdAt: -1 });
+NotificationDispatchSchema.index({ "deliveries.status": 1 });
+// Delivery logs are diagnostic only; keep them for 90 days
+NotificationDispatchSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+// --- Virtuals ---
+NotificationDispatchSchema.virtual("deliveredChannels").get(function (
+  this: INotificationDispatch
+): NotificationChannel[] {
+  return this.deliveries.filter((d) => d.status === "sent").map((d) => d.channel);
+});
+
+// --- Model Export ---
+export const NotificationDispatch = mongoose.model<INotificationDispatch, INotificationDispatchModel>(
+  "NotificationDispatch",
+  NotificationDispatchSchema
+);
+
+export default NotificationDispatch;
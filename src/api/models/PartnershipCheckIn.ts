@@ -0,0 +1,66 @@
+// src/api/models/PartnershipCheckIn.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+
+export type CheckInStatus = "completed" | "missed";
+
+export interface ICheckInResponse {
+  prompt: string;
+  answer: string;
+}
+
+// --- Interface for PartnershipCheckIn Document ---
+export interface IPartnershipCheckIn extends Document {
+  partnership: Types.ObjectId;
+  user: Types.ObjectId;
+  dueDay: string;                  // scheduled local day "YYYY-MM-DD" (agreement timezone)
+  status: CheckInStatus;
+  responses: ICheckInResponse[];
+  goals: Types.ObjectId[];         // shared goals reported on
+  note?: string;
+  completedAt?: Date;
+  partnerNotifiedAt?: Date;        // set when the partner was told about a miss
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPartnershipCheckInModel extends Model<IPartnershipCheckIn> {}
+
+// --- Schema Definition ---
+const PartnershipCheckInSchema = new Schema<IPartnershipCheckIn, IPartnershipCheckInModel>(
+  {
+    partnership: {
+      type: Schema.Types.ObjectId,
+      ref: "AccountabilityPartnership",
+      required: true,
+    },
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    dueDay: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    status: { type: String, enum: ["completed", "missed"], required: true },
+    responses: [
+      {
+        _id: false,
+        prompt: { type: String, required: true },
+        answer: { type: String, trim: true, maxlength: 2000 },
+      },
+    ],
+    goals: [{ type: Schema.Types.ObjectId, ref: "Goal" }],
+    note: { type: String, trim: true, maxlength: 2000 },
+    completedAt: { type: Date },
+    partnerNotifiedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// --- Indexes ---
+// One record per partner per scheduled day
+PartnershipCheckInSchema.index({ partnership: 1, user: 1, dueDay: 1 }, { unique: true });
+PartnershipCheckInSchema.index({ partnership: 1, dueDay: -1 });
+
+// --- Model Export ---
+export const PartnershipCheckIn = mongoose.model<IPartnershipCheckIn, IPartnershipCheckInModel>(
+  "PartnershipCheckIn",
+  PartnershipCheckInSchema
+);
+
+export default PartnershipCheckIn;
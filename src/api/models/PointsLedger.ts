@@ -0,0 +1,67 @@
+// src/api/models/PointsLedger.ts
+import type { Document, Model, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+
+export type LedgerDirection = "credit" | "debit";
+
+// --- Interface for PointsLedger Document ---
+// Append-only: entries are never updated or deleted. Corrections are new entries.
+export interface IPointsLedgerEntry extends Document {
+  user: Types.ObjectId;
+  direction: LedgerDirection;
+  amount: number;                  // signed change to the spendable balance (User.points)
+  xp: number;                      // change to lifetime XP (drives levels); never negative
+  reason: string;                  // e.g. "badge_awarded", "reward_redeemed"
+  sourceType?: string;             // kind of entity that caused it, e.g. "Badge"
+  sourceId?: string;
+  idempotencyKey: string;          // same key → same entry, applied once
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface IPointsLedgerModel extends Model<IPointsLedgerEntry> {}
+
+// --- Schema Definition ---
+const PointsLedgerSchema = new Schema<IPointsLedgerEntry, IPointsLedgerModel>(
+  {
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true, immutable: true },
+    direction: { type: String, enum: ["credit", "debit"], required: true, immutable: true },
+    amount: {
+      type: Number,
+      required: true,
+      immutable: true,
+      validate: { validator: Number.isInteger, message: "Amount must be an integer" },
+    },
+    xp: { type: Number, default: 0, min: 0, immutable: true },
+    reason: { type: String, required: true, trim: true, maxlength: 100, immutable: true },
+    sourceType: { type: String, trim: true, maxlength: 50, immutable: true },
+    sourceId: { type: String, trim: true, maxlength: 100, immutable: true },
+    idempotencyKey: { type: String, required: true, maxlength: 200, immutable: true },
+    metadata: { type: Schema.Types.Mixed, immutable: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// --- Validation ---
+PointsLedgerSchema.pre<IPointsLedgerEntry>("validate", function (next) {
+  if (this.direction === "credit" && this.amount < 0) {
+    this.invalidate("amount", "Credits cannot reduce the balance");
+  }
+  if (this.direction === "debit" && this.amount >= 0) {
+    this.invalidate("amount", "Debits must reduce the balance");
+  }
+  next();
+});
+
+// --- Indexes ---
+PointsLedgerSchema.index({ idempotencyKey: 1 }, { unique: true });
+PointsLedgerSchema.index({ user: 1, createdAt: -1 });
+PointsLedgerSchema.index({ sourceType: 1, sourceId: 1 });
+
+// --- Model Export ---
+export const PointsLedger = mongoose.model<IPointsLedgerEntry, IPointsLedgerModel>(
+  "PointsLedger",
+  PointsLedgerSchema
+);
+
+export default PointsLedger;
@@ -74,6 +74,7 @@ PostSchema.virtual("commentCount").get(function (this: IPost): number {
 // --- Indexes ---
 PostSchema.index({ createdAt: -1 });
 PostSchema.index({ user: 1, createdAt: -1 });
+PostSchema.index({ content: "text" }, { name: "PostSearch" });
 
 // --- Middleware ---
 // Update the updatedAt timestamp on any modification
@@ -2,12 +2,24 @@
 import type { Document, Model, Types } from "mongoose";
 import mongoose, { Schema } from "mongoose";
 
+export const REDEMPTION_STATUSES = ["pending", "fulfilled", "canceled", "refunded"] as const;
+export type RedemptionStatus = (typeof REDEMPTION_STATUSES)[number];
+
 // --- Redemption Document Interface ---
 export interface IRedemption extends Document {
   user: Types.ObjectId;         // User who made the redemption
+  reward?: Types.ObjectId;      // Catalog reward (absent on legacy records)
   pointsUsed: number;           // Points spent
   item: string;                 // Redeemed item identifier or description
   redemptionDate: Date;         // When the redemption occurred
+  status: RedemptionStatus;     // pending → fulfilled → refunded, or pending → canceled
+  idempotencyKey?: string;      // Ledger key of the debit that paid for it
+  fulfillmentNote?: string;     // e.g. the code or delivery details sent to the user
+  statusReason?: string;        // Why it was canceled or refunded
+  handledBy?: Types.ObjectId;   // Admin who last changed the status
+  fulfilledAt?: Date;
+  canceledAt?: Date;
+  refundedAt?: Date;
   createdAt: Date;              // Auto-generated
   updatedAt: Date;              // Auto-generated
 
@@ -44,6 +56,38 @@ const RedemptionSchema = new Schema<IRedemption, IRedemptionModel>(
       type: Date,
       default: Date.now,
     },
+    reward: {
+      type: Schema.Types.ObjectId,
+      ref: "Reward",
+    },
+    // Records from before fulfillment tracking were handed out on the spot;
+    // catalog redemptions start out pending
+    status: {
+      type: String,
+      enum: REDEMPTION_STATUSES,
+      default: "fulfilled",
+    },
+    idempotencyKey: {
+      type: String,
+      trim: true,
+    },
+    fulfillmentNote: {
+      type: String,
+      trim: true,
+      maxlength: [1000, "Fulfillment note cannot exceed 1000 characters"],
+    },
+    statusReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Reason cannot exceed 500 characters"],
+    },
+    handledBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    fulfilledAt: { type: Date },
+    canceledAt: { type: Date },
+    refundedAt: { type: Date },
   },
   {
     timestamps: true,
@@ -54,6 +98,9 @@ const RedemptionSchema = new Schema<IRedemption, IRedemptionModel>(
 
 // --- Indexes ---
 RedemptionSchema.index({ user: 1, redemptionDate: -1 });
+RedemptionSchema.index({ user: 1, reward: 1, status: 1 });
+RedemptionSchema.index({ status: 1, redemptionDate: 1 });
+RedemptionSchema.index({ idempotencyKey: 1 }, { unique: true, sparse: true });
 
 // --- Instance Methods ---
 RedemptionSchema.methods.summarize = function (this: IRedemption): string {
@@ -5,11 +5,17 @@ import mongoose, { Schema } from "mongoose";
 import crypto from "crypto";
 
 // --- RefreshToken Document Interface ---
+// Refresh tokens are opaque and single-use. Only a SHA-256 hash is stored;
+// every token issued for one session forms a rotation family, so presenting
+// a token that was already rotated revokes the whole family.
 export interface IRefreshToken extends Document {
   user: Types.ObjectId;        // Reference to User
-  token: string;               // Secure random token
+  session: Types.ObjectId;     // Session (device) the token family belongs to
+  token: string;               // SHA-256 hash of the token handed to the client
   expiresAt: Date;             // Expiration date
   revoked: boolean;            // Token revoked flag
+  revokedAt?: Date;
+  replacedBy?: Types.ObjectId | null; // Token issued when this one was rotated
   createdAt: Date;             // Auto-generated
   updatedAt: Date;             // Auto-generated
 
@@ -23,9 +29,16 @@ export interface IRefreshToken extends Document {
 
 // --- RefreshToken Model Static Interface ---
 export interface IRefreshTokenModel extends Model<IRefreshToken> {
-  generate(userId: Types.ObjectId, expiresInSeconds?: number): Promise<IRefreshToken>;
+  hashToken(token: string): string;
+  generate(
+    userId: Types.ObjectId,
+    sessionId: Types.ObjectId,
+    expiresInSeconds?: number
+  ): Promise<{ refreshToken: IRefreshToken; token: string }>;
+  findByToken(token: string): Promise<IRefreshToken | null>;
   findValid(token: string): Promise<IRefreshToken | null>;
   revokeToken(token: string): Promise<void>;
+  revokeFamily(sessionId: Types.ObjectId): Promise<void>;
   removeExpired(): Promise<{ deletedCount?: number }>;
 }
 
@@ -37,6 +50,11 @@ const RefreshTokenSchema = new Schema<IRefreshToken, IRefreshTokenModel>(
       ref: "User",
       required: true,
     },
+    session: {
+      type: Schema.Types.ObjectId,
+      ref: "Session",
+      required: true,
+    },
     token: {
       type: String,
       required: true,
@@ -50,6 +68,14 @@ const RefreshTokenSchema = new Schema<IRefreshToken, IRefreshTokenModel>(
       type: Boolean,
       default: false,
     },
+    revokedAt: {
+      type: Date,
+    },
+    replacedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "RefreshToken",
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -63,6 +89,8 @@ const RefreshTokenSchema = new Schema<IRefreshToken, IRefreshTokenModel>(
 RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 // User lookup
 RefreshTokenSchema.index({ user: 1 });
+// Family lookup
+RefreshTokenSchema.index({ session: 1, revoked: 1 });
 // Token unique lookup
 RefreshTokenSchema.index({ token: 1 }, { unique: true });
 // Revoked flag
@@ -80,35 +108,64 @@ RefreshTokenSchema.virtual("isActive").get(function (this: IRefreshToken): boole
 // --- Instance Methods ---
 RefreshTokenSchema.methods.revoke = async function (this: IRefreshToken): Promise<IRefreshToken> {
   this.revoked = true;
+  this.revokedAt = new Date();
   await this.save();
   return this;
 };
 
 // --- Static Methods ---
+RefreshTokenSchema.statics.hashToken = function (token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+/** Issue a token for a session; the raw value is only ever returned here */
 RefreshTokenSchema.statics.generate = async function (
+  this: IRefreshTokenModel,
   userId: Types.ObjectId,
+  sessionId: Types.ObjectId,
   expiresInSeconds = 60 * 60 * 24 * 30 // 30 days
-): Promise<IRefreshToken> {
+): Promise<{ refreshToken: IRefreshToken; token: string }> {
   const token = crypto.randomBytes(40).toString("hex");
   const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
-  const doc = await this.create({ user: userId, token, expiresAt });
-  return doc;
+  const refreshToken = await this.create({
+    user: userId,
+    session: sessionId,
+    token: this.hashToken(token),
+    expiresAt,
+  });
+  return { refreshToken, token };
+};
+
+/** Look a token up whatever its state, so rotated ones can be recognised */
+RefreshTokenSchema.statics.findByToken = function (
+  this: IRefreshTokenModel,
+  token: string
+): Promise<IRefreshToken | null> {
+  return this.findOne({ token: this.hashToken(token) });
 };
 
 RefreshTokenSchema.statics.findValid = function (
+  this: IRefreshTokenModel,
   token: string
 ): Promise<IRefreshToken | null> {
-  return this.findOne({ token, revoked: false, expiresAt: { $gt: new Date() } });
+  return this.findOne({ token: this.hashToken(token), revoked: false, expiresAt: { $gt: new Date() } });
 };
 
 RefreshTokenSchema.statics.revokeToken = async function (
+  this: IRefreshTokenModel,
   token: string
 ): Promise<void> {
-  const doc = await this.findOne({ token });
-  if (doc) {
-    doc.revoked = true;
-    await doc.save();
-  }
+  await this.updateOne(
+    { token: this.hashToken(token), revoked: false },
+    { revoked: true, revokedAt: new Date() }
+  ).exec();
+};
+
+RefreshTokenSchema.statics.revokeFamily = async function (
+  this: IRefreshTokenModel,
+  sessionId: Types.ObjectId
+): Promise<void> {
+  await this.updateMany({ session: sessionId, revoked: false }, { revoked: true, revokedAt: new Date() }).exec();
 };
 
 RefreshTokenSchema.statics.removeExpired = function (): Promise<{ deletedCount?: number }> {
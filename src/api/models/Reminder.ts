@@ -2,9 +2,11 @@
 
 import type { Document, Model, Types } from "mongoose";
 import mongoose, { Schema } from "mongoose";
+import type { RecurrenceRule } from "../utils/recurrenceUtils";
+import { formatRRule, nextOccurrence, WEEKDAYS } from "../utils/recurrenceUtils";
 
 // --- Recurrence and ReminderType ---
-type Recurrence = "none" | "daily" | "weekly" | "monthly";
+export type Recurrence = "none" | "daily" | "weekdays" | "weekly" | "monthly";
 type ReminderType = "email" | "sms" | "app";
 
 // --- Reminder Document Interface ---
@@ -14,19 +16,28 @@ export interface IReminder extends Document {
   goal?: Types.ObjectId;
   remindAt: Date;
   recurrence: Recurrence;
+  interval: number;
+  daysOfWeek: number[];
+  timezone: string;
+  nextRunAt: Date | null;
+  occurrenceCount: number;
   isActive: boolean;
   isSent: boolean;
   reminderType: ReminderType;
   email?: string;
   lastSent?: Date;
   endRepeat?: Date;
+  legacyRef?: string;
   createdAt: Date;
   updatedAt: Date;
 
   // Virtuals
   isRecurring: boolean;
+  rrule: string | null;
 
   // Instance methods
+  getRecurrenceRule(): RecurrenceRule | null;
+  computeNextRun(after: Date): Date | null;
   deactivate(): Promise<IReminder>;
   markAsSent(): Promise<IReminder>;
 }
@@ -52,15 +63,36 @@ const ReminderSchema = new Schema<IReminder, IReminderModel>(
       type: Date,
       required: true,
       validate: {
-        validator: (value: Date): boolean => value.getTime() > Date.now(),
+        // Only the first occurrence has to be in the future; recurring
+        // reminders keep their original remindAt as the schedule anchor.
+        validator(this: IReminder, value: Date): boolean {
+          return !this.isNew || value.getTime() > Date.now();
+        },
         message: "Reminder time must be in the future",
       },
     },
     recurrence: {
       type: String,
-      enum: ["none", "daily", "weekly", "monthly"],
+      enum: ["none", "daily", "weekdays", "weekly", "monthly"],
       default: "none",
     },
+    // Repeat every N days/weeks/months
+    interval: { type: Number, default: 1, min: 1, max: 365 },
+    // Weekly reminders: 0 = Sunday … 6 = Saturday (defaults to remindAt's weekday)
+    daysOfWeek: {
+      type: [Number],
+      default: [],
+      validate: {
+        validator: (days: number[]): boolean =>
+          days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6),
+        message: "Days of week must be between 0 (Sunday) and 6 (Saturday)",
+      },
+    },
+    // IANA timezone used to keep occurrences at the same local time
+    timezone: { type: String, default: "UTC" },
+    // Next time the scheduler should fire this reminder (null once finished)
+    nextRunAt: { type: Date, default: null },
+    occurrenceCount: { type: Number, default: 0 },
     isActive: { type: Boolean, default: true },
     isSent: { type: Boolean, default: false },
     reminderType: {
@@ -78,6 +110,8 @@ const ReminderSchema = new Schema<IReminder, IReminderModel>(
       },
     },
     lastSent: { type: Date },
+    // Source record for reminders migrated from CustomReminder / Goal.reminders
+    legacyRef: { type: String },
     endRepeat: {
       type: Date,
       validate: {
@@ -101,24 +135,75 @@ ReminderSchema.index({ recurrence: 1 });
 ReminderSchema.index({ isActive: 1 });
 ReminderSchema.index({ isSent: 1 });
 ReminderSchema.index({ goal: 1 });
+ReminderSchema.index({ isActive: 1, nextRunAt: 1 });
+ReminderSchema.index({ legacyRef: 1 }, { unique: true, sparse: true });
 
 // --- Virtual ---
 ReminderSchema.virtual("isRecurring").get(function (this: IReminder): boolean {
   return this.recurrence !== "none";
 });
 
+ReminderSchema.virtual("rrule").get(function (this: IReminder): string | null {
+  const rule = this.getRecurrenceRule();
+  return rule ? formatRRule(rule) : null;
+});
+
 // --- Middleware ---
 ReminderSchema.pre<IReminder>("save", function (next): void {
   if (this.isModified("message")) {
     this.message = this.message.trim();
   }
-  if (this.recurrence !== "none" && !this.endRepeat) {
-    return next(new Error("End repeat date is required for recurring reminders"));
+  // (Re)compute the next run whenever the schedule itself changes; recurring
+  // reminders without endRepeat repeat until deactivated
+  if (
+    this.isNew ||
+    ["remindAt", "recurrence", "interval", "daysOfWeek", "timezone", "endRepeat"].some((p) =>
+      this.isModified(p)
+    )
+  ) {
+    const now = new Date();
+    this.nextRunAt = this.remindAt > now ? this.remindAt : this.computeNextRun(now);
+    this.isSent = !this.nextRunAt;
   }
   next();
 });
 
 // --- Instance Methods ---
+ReminderSchema.methods.getRecurrenceRule = function (
+  this: IReminder
+): RecurrenceRule | null {
+  const interval = this.interval || 1;
+  switch (this.recurrence) {
+    case "daily":
+      return { frequency: "daily", interval };
+    case "weekdays":
+      return { frequency: "weekly", interval: 1, byWeekday: WEEKDAYS };
+    case "weekly":
+      return {
+        frequency: "weekly",
+        interval,
+        byWeekday: this.daysOfWeek?.length ? [...this.daysOfWeek] : undefined,
+      };
+    case "monthly":
+      return { frequency: "monthly", interval };
+    default:
+      return null;
+  }
+};
+
+// Next occurrence after `after`, or null when the reminder does not repeat
+// or the series has passed its endRepeat date.
+ReminderSchema.methods.computeNextRun = function (
+  this: IReminder,
+  after: Date
+): Date | null {
+  const rule = this.getRecurrenceRule();
+  if (!rule) return null;
+  const next = nextOccurrence(rule, this.remindAt, after, this.timezone || "UTC");
+  if (this.endRepeat && next > this.endRepeat) return null;
+  return next;
+};
+
 ReminderSchema.methods.deactivate = async function (
   this: IReminder
 ): Promise<IReminder> {
@@ -126,11 +211,15 @@ ReminderSchema.methods.deactivate = async function (
   return this.save();
 };
 
+// Record a delivery and advance recurring reminders to their next occurrence
 ReminderSchema.methods.markAsSent = async function (
   this: IReminder
 ): Promise<IReminder> {
-  this.isSent = true;
-  this.lastSent = new Date();
+  const now = new Date();
+  this.lastSent = now;
+  this.occurrenceCount = (this.occurrenceCount || 0) + 1;
+  this.nextRunAt = this.computeNextRun(now);
+  this.isSent = !this.nextRunAt;
   return this.save();
 };
 
@@ -141,11 +230,10 @@ ReminderSchema.statics.getUpcomingRemindersForUser = function (
 ): Promise<IReminder[]> {
   return this.find({
     user: userId,
-    remindAt: { $gte: new Date() },
-    isSent: false,
+    nextRunAt: { $gte: new Date() },
     isActive: true,
   })
-    .sort({ remindAt: 1 })
+    .sort({ nextRunAt: 1 })
     .exec();
 };
 
@@ -156,8 +244,7 @@ ReminderSchema.statics.getUpcomingRemindersInRange = function (
 ): Promise<IReminder[]> {
   return this.find({
     isActive: true,
-    remindAt: { $gte: start, $lte: end },
-    isSent: false,
+    nextRunAt: { $gte: start, $lte: end },
   }).exec();
 };
 
@@ -175,9 +262,7 @@ ReminderSchema.statics.markAsSent = async function (
 ): Promise<IReminder | null> {
   const rem = await this.findById(reminderId).exec();
   if (!rem) return null;
-  rem.isSent = true;
-  rem.lastSent = new Date();
-  return rem.save();
+  return rem.markAsSent();
 };
 
 // --- Model Export ---
@@ -2,12 +2,19 @@
 
 import type { Document, Model, Types } from "mongoose";
 import mongoose, { Schema } from "mongoose";
+import type { ModerationSurface } from "../utils/moderationUtils";
+import { MODERATION_SURFACES } from "../utils/moderationUtils";
+
+export const REPORT_TYPES = ["post", "comment", "message", "user"] as const;
+export type ReportType = (typeof REPORT_TYPES)[number];
 
 // --- Report Document Interface ---
 export interface IReport extends Document {
   userId: Types.ObjectId;       // Reporter
-  reportedId: Types.ObjectId;   // ID of the entity reported (post, comment, user)
-  reportType: "post" | "comment" | "user";
+  reportedId: Types.ObjectId;   // ID of the entity reported (post, comment, message, user)
+  reportType: ReportType;
+  surface?: ModerationSurface;  // where reported content lives; routes it to the moderation queue
+  parentId?: Types.ObjectId;    // post holding a reported comment
   reason: string;
   status: "pending" | "resolved";
   resolvedBy?: Types.ObjectId;
@@ -40,9 +47,16 @@ const ReportSchema = new Schema<IReport, IReportModel>(
     },
     reportType: {
       type: String,
-      enum: ["post", "comment", "user"],
+      enum: REPORT_TYPES,
       required: true,
     },
+    surface: {
+      type: String,
+      enum: MODERATION_SURFACES,
+    },
+    parentId: {
+      type: Schema.Types.ObjectId,
+    },
     reason: {
       type: String,
       required: true,
@@ -2,6 +2,7 @@
 
 import type { Document, Model, Types } from "mongoose";
 import mongoose, { Schema } from "mongoose";
+import type { SubscriptionTier } from "./User";
 
 // --- Reward Document Interface ---
 export interface IReward {
@@ -11,6 +12,12 @@ export interface IReward {
   pointsRequired: number;
   rewardType: "badge" | "discount" | "giftCard" | "recognition";
   imageUrl?: string;
+  stock: number | null;              // units left; null = unlimited
+  perUserLimit: number | null;       // active redemptions allowed per user; null = no cap
+  availableFrom: Date | null;
+  availableUntil: Date | null;
+  allowedTiers: SubscriptionTier[];  // empty = every subscription tier
+  isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 
@@ -57,6 +64,33 @@ const RewardSchema = new Schema<IReward & Document, IRewardModel>(
       trim: true,
       default: "",
     },
+    stock: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    perUserLimit: {
+      type: Number,
+      default: null,
+      min: 1,
+    },
+    availableFrom: {
+      type: Date,
+      default: null,
+    },
+    availableUntil: {
+      type: Date,
+      default: null,
+    },
+    allowedTiers: {
+      type: [String],
+      enum: ["free-trial", "basic", "pro", "elite"],
+      default: [],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
   },
   {
     timestamps: true,
@@ -69,6 +103,15 @@ const RewardSchema = new Schema<IReward & Document, IRewardModel>(
 RewardSchema.index({ name: 1 }, { unique: true });
 RewardSchema.index({ pointsRequired: 1 });
 RewardSchema.index({ rewardType: 1 });
+RewardSchema.index({ isActive: 1, availableFrom: 1, availableUntil: 1 });
+
+// --- Validation ---
+RewardSchema.pre("validate", function (next) {
+  if (this.availableFrom && this.availableUntil && this.availableUntil <= this.availableFrom) {
+    this.invalidate("availableUntil", "availableUntil must be after availableFrom");
+  }
+  next();
+});
 
 // --- Instance Methods ---
 RewardSchema.methods.updateDetails = async function (
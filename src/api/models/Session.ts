@@ -5,14 +5,17 @@ import mongoose, { Schema } from "mongoose";
 import validator from "validator";
 
 // --- Session Document Interface ---
+// One per signed-in device. Access tokens carry the session ID, and the
+// session's refresh tokens (see RefreshToken) keep it alive.
 export interface ISession extends Document {
   user: Types.ObjectId;
-  token: string;
   ipAddress?: string;
   device?: string;
   userAgent?: string;
   isActive: boolean;
   expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 
@@ -37,11 +40,6 @@ const SessionSchema = new Schema<ISession, ISessionModel>(
       ref: "User",
       required: true,
     },
-    token: {
-      type: String,
-      required: true,
-      unique: true,
-    },
     ipAddress: {
       type: String,
       trim: true,
@@ -68,6 +66,13 @@ const SessionSchema = new Schema<ISession, ISessionModel>(
       type: Date,
       required: true,
     },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    revokedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -79,7 +84,6 @@ const SessionSchema = new Schema<ISession, ISessionModel>(
 // --- Indexes ---
 SessionSchema.index({ user: 1, expiresAt: 1 });
 SessionSchema.index({ isActive: 1 });
-SessionSchema.index({ token: 1 });
 
 // --- Virtuals ---
 SessionSchema.virtual("isExpired").get(function (this: ISession): boolean {
@@ -101,6 +105,7 @@ SessionSchema.pre<ISession>("save", function (next): void {
 // --- Instance Methods ---
 SessionSchema.methods.invalidateSession = async function (this: ISession): Promise<ISession> {
   this.isActive = false;
+  this.revokedAt = new Date();
   return this.save();
 };
 
@@ -109,14 +114,16 @@ SessionSchema.statics.invalidateUserSessions = async function (
   this: ISessionModel,
   userId: Types.ObjectId
 ): Promise<void> {
-  await this.updateMany({ user: userId, isActive: true }, { isActive: false }).exec();
+  await this.updateMany({ user: userId, isActive: true }, { isActive: false, revokedAt: new Date() }).exec();
 };
 
 SessionSchema.statics.findActiveSessions = function (
   this: ISessionModel,
   userId: Types.ObjectId
 ): Promise<ISession[]> {
-  return this.find({ user: userId, isActive: true }).sort({ expiresAt: 1 }).exec();
+  return this.find({ user: userId, isActive: true, expiresAt: { $gt: new Date() } })
+    .sort({ lastUsedAt: -1 })
+    .exec();
 };
 
 // --- Model Export ---
@@ -3,25 +3,54 @@
 import type { Document, Model, Types } from "mongoose";
 import mongoose, { Schema } from "mongoose";
 
+// --- Streak History Entry ---
+// "check-in": the user checked in on that local day
+// "freeze":   a freeze token bridged a missed local day
+// "reset":    the streak was reset; earlier entries no longer count
+export type StreakHistoryType = "check-in" | "freeze" | "reset";
+
+export interface IStreakHistoryEntry {
+  day: string; // local calendar day, YYYY-MM-DD
+  type: StreakHistoryType;
+  recordedAt: Date;
+}
+
 // --- Streak Document Interface ---
 export interface IStreak extends Document {
   user: Types.ObjectId;
   streakCount: number;
+  longestStreak: number;
   lastCheckIn: Date | null;
+  lastCheckInDay: string | null;
+  timezone: string;
+  freezeTokens: number;
+  history: IStreakHistoryEntry[];
   createdAt: Date;
   updatedAt: Date;
-
-  // Instance methods
-  recordCheckIn(): Promise<IStreak>;
-  resetStreak(): Promise<IStreak>;
 }
 
 // --- Streak Model Static Interface ---
 export interface IStreakModel extends Model<IStreak> {
   getByUser(userId: Types.ObjectId): Promise<IStreak | null>;
-  resetUserStreak(userId: Types.ObjectId): Promise<void>;
 }
 
+const StreakHistorySchema = new Schema<IStreakHistoryEntry>(
+  {
+    day: {
+      type: String,
+      required: true,
+      match: [/^\d{4}-\d{2}-\d{2}$/, "Day must be in YYYY-MM-DD format"],
+    },
+    type: {
+      type: String,
+      enum: ["check-in", "freeze", "reset"],
+      required: true,
+    },
+    recordedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
 // --- Schema Definition ---
 const StreakSchema = new Schema<IStreak, IStreakModel>(
   {
@@ -37,10 +66,33 @@ const StreakSchema = new Schema<IStreak, IStreakModel>(
       default: 0,
       min: [0, "Streak count cannot be negative"],
     },
+    longestStreak: {
+      type: Number,
+      default: 0,
+      min: [0, "Longest streak cannot be negative"],
+    },
     lastCheckIn: {
       type: Date,
       default: null,
     },
+    lastCheckInDay: {
+      type: String,
+      default: null,
+    },
+    // Timezone the history was last evaluated in
+    timezone: {
+      type: String,
+      default: "UTC",
+    },
+    freezeTokens: {
+      type: Number,
+      default: 0,
+      min: [0, "Freeze tokens cannot be negative"],
+    },
+    history: {
+      type: [StreakHistorySchema],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -49,28 +101,8 @@ const StreakSchema = new Schema<IStreak, IStreakModel>(
 
 // --- Indexes ---
 StreakSchema.index({ user: 1 }, { unique: true });
-
-// --- Instance Methods ---
-// Record a check-in: increments or resets streak based on last check-in
-StreakSchema.methods.recordCheckIn = async function (this: IStreak): Promise<IStreak> {
-  const now = new Date();
-  const last = this.lastCheckIn;
-  const oneDayMs = 24 * 60 * 60 * 1000;
-  if (last && now.getTime() - last.getTime() <= oneDayMs * 1.5) {
-    this.streakCount += 1;
-  } else {
-    this.streakCount = 1;
-  }
-  this.lastCheckIn = now;
-  return this.save();
-};
-
-// Reset the streak to zero
-StreakSchema.methods.resetStreak = async function (this: IStreak): Promise<IStreak> {
-  this.streakCount = 0;
-  this.lastCheckIn = null;
-  return this.save();
-};
+StreakSchema.index({ streakCount: -1 });
+StreakSchema.index({ streakCount: 1, lastCheckIn: 1 });
 
 // --- Static Methods ---
 // Find streak by user
@@ -81,19 +113,6 @@ StreakSchema.statics.getByUser = function (
   return this.findOne({ user: userId }).exec();
 };
 
-// Reset a user's streak
-StreakSchema.statics.resetUserStreak = async function (
-  this: IStreakModel,
-  userId: Types.ObjectId
-): Promise<void> {
-  const streak = await this.findOne({ user: userId }).exec();
-  if (streak) {
-    streak.streakCount = 0;
-    streak.lastCheckIn = null;
-    await streak.save();
-  }
-};
-
 // --- Model Export ---
 export const Streak = mongoose.model<IStreak, IStreakModel>("Streak", StreakSchema);
 export default Streak;
@@ -3,6 +3,33 @@ import type { Document, Types, Model, CallbackError } from "mongoose";
 import mongoose, { Schema } from "mongoose";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
+import type { NotificationChannel, NotificationType } from "./Notification";
+import { NOTIFICATION_TYPES } from "./Notification";
+
+/** Per-channel switches for one notification type; unset means "allowed" */
+export type NotificationChannelPrefs = Partial<Record<NotificationChannel, boolean>>;
+
+/** Per-type switches: a Map on documents, a plain object on lean reads */
+export type NotificationTypePrefs =
+  | Map<NotificationType, NotificationChannelPrefs>
+  | Partial<Record<NotificationType, NotificationChannelPrefs>>;
+
+export interface PushSubscriptionInfo {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+  createdAt?: Date;
+}
+
+export interface DigestSettings {
+  enabled?: boolean;
+  frequency?: "daily" | "weekly";
+  types?: NotificationType[]; // empty = every type
+  time?: string;              // "HH:mm" local time
+  weekday?: number;           // weekly digests: 0 = Sunday … 6 = Saturday
+}
 
 export interface UserSettings {
   notifications?: {
@@ -10,11 +37,22 @@ export interface UserSettings {
     sms?: boolean;
     push?: boolean;
     enableNotifications?: boolean;
+    byType?: NotificationTypePrefs;
+    digest?: DigestSettings;
   };
   privacy?: {
     profileVisibility?: "public" | "friends" | "private";
     searchVisibility?: boolean;
   };
+  reminders?: {
+    dailyEnabled?: boolean;
+    dailyTime?: string; // "HH:mm" in the user's local timezone
+    quietHours?: {
+      enabled?: boolean;
+      start?: string; // "HH:mm"
+      end?: string;   // "HH:mm", may be earlier than start (overnight)
+    };
+  };
 }
 
 export interface ChatPreferences {
@@ -37,6 +75,7 @@ export interface IUser extends Document {
   profilePicture?: string;
   coverImage?: string;
   role: "user" | "admin" | "moderator" | "military";
+  isOnCall: boolean;             // moderator currently taking crisis escalations
   isVerified: boolean;
   isAdmin: boolean;
   permissions: string[];
@@ -51,7 +90,11 @@ export interface IUser extends Document {
   rewards: Types.ObjectId[];
   resetPasswordToken?: string;
   resetPasswordExpires?: Date;
-  twoFactorSecret?: string;
+  twoFactorSecret?: string;            // base32 TOTP secret; set at setup, live once enabled
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt?: Date;
+  twoFactorRecoveryCodes?: string[];   // SHA-256 hashes of unused recovery codes
+  twoFactorLastStep?: number;          // last accepted TOTP step, so a code works once
   firstName?: string;
   lastName?: string;
 
@@ -87,6 +130,9 @@ export interface IUser extends Document {
     updatedAt?: Date;
   }>;
 
+  phoneNumber?: string; // E.164, used for SMS notifications
+  pushSubscriptions?: PushSubscriptionInfo[];
+
   location?: {
     country?: string;
     state?: string;
@@ -110,6 +156,8 @@ export interface IUser extends Document {
   completedGoals?: number;
   streak?: number;
   streakCount: number;
+  lastDailyReminderDay?: string; // local "YYYY-MM-DD" of the last daily streak reminder
+  nextDailyReminderAt?: Date | null; // when the reminder scheduler next looks at this user
   lastGoalCompletedAt?: Date;
   badges?: Types.ObjectId[];
   achievements?: Types.ObjectId[];
@@ -123,7 +171,6 @@ export interface IUser extends Document {
   // Methods
   comparePassword(candidatePassword: string): Promise<boolean>;
   generateResetToken(): string;
-  updatePoints(pointsToAdd: number): Promise<void>;
   updateStreak(): Promise<void>;
   awardBadge(badgeId: Types.ObjectId): Promise<void>;
 
@@ -147,6 +194,7 @@ const UserSchema: Schema<IUser> = new Schema(
     firstName: { type: String },
     lastName: { type: String },
     role: { type: String, enum: ["user", "admin", "moderator", "military"], default: "user" },
+    isOnCall: { type: Boolean, default: false },
     isVerified: { type: Boolean, default: false },
     isAdmin: { type: Boolean, default: false },
     permissions: { type: [String], default: [] },
@@ -187,6 +235,20 @@ const UserSchema: Schema<IUser> = new Schema(
       updatedAt: { type: Date, default: Date.now }
     }],
 
+    phoneNumber: { type: String, trim: true, match: /^\+[1-9]\d{6,14}$/ },
+    pushSubscriptions: {
+      type: [{
+        _id: false,
+        endpoint: { type: String, required: true },
+        keys: {
+          p256dh: { type: String, required: true },
+          auth: { type: String, required: true },
+        },
+        createdAt: { type: Date, default: Date.now },
+      }],
+      select: false,
+    },
+
     location: {
       country: { type: String },
       state: { type: String },
@@ -253,6 +315,8 @@ const UserSchema: Schema<IUser> = new Schema(
     completedGoals: { type: Number, default: 0 },
     streak: { type: Number, default: 0 },
     streakCount: { type: Number, default: 0 },
+    lastDailyReminderDay: { type: String },
+    nextDailyReminderAt: { type: Date, default: null },
     lastGoalCompletedAt: { type: Date },
     points: { type: Number, default: 0 },
 
@@ -272,6 +336,11 @@ const UserSchema: Schema<IUser> = new Schema(
     // Security
     resetPasswordToken: { type: String },
     resetPasswordExpires: { type: Date },
+    twoFactorSecret: { type: String, select: false },
+    twoFactorEnabled: { type: Boolean, default: false },
+    twoFactorEnabledAt: { type: Date },
+    twoFactorRecoveryCodes: { type: [String], select: false, default: undefined },
+    twoFactorLastStep: { type: Number, select: false },
 
     // Settings
     settings: {
@@ -280,11 +349,41 @@ const UserSchema: Schema<IUser> = new Schema(
         sms: { type: Boolean, default: false },
         push: { type: Boolean, default: false },
         enableNotifications: { type: Boolean, default: false },
+        byType: {
+          type: Map,
+          of: new Schema(
+            {
+              in_app: Boolean,
+              socket: Boolean,
+              email: Boolean,
+              push: Boolean,
+              sms: Boolean,
+            },
+            { _id: false }
+          ),
+          default: undefined,
+        },
+        digest: {
+          enabled: { type: Boolean, default: false },
+          frequency: { type: String, enum: ["daily", "weekly"], default: "daily" },
+          types: { type: [{ type: String, enum: NOTIFICATION_TYPES }], default: [] },
+          time: { type: String, default: "08:00", match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+          weekday: { type: Number, default: 1, min: 0, max: 6 },
+        },
       },
       privacy: {
         profileVisibility: { type: String, enum: ["public", "friends", "private"], default: "public" },
         searchVisibility: { type: Boolean, default: true },
       },
+      reminders: {
+        dailyEnabled: { type: Boolean, default: true },
+        dailyTime: { type: String, default: "09:00", match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+        quietHours: {
+          enabled: { type: Boolean, default: false },
+          start: { type: String, default: "22:00", match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+          end: { type: String, default: "07:00", match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+        },
+      },
     },
   },
   { timestamps: true }
@@ -293,15 +392,23 @@ const UserSchema: Schema<IUser> = new Schema(
 // Indexes
 UserSchema.index({ interests: 1 });
 UserSchema.index({ activeStatus: 1 });
+UserSchema.index({ streakCount: 1 });
+UserSchema.index({ nextDailyReminderAt: 1 });
 UserSchema.index({ "goals.category": 1 });
 UserSchema.index({ "location.city": 1 });
 UserSchema.index({ "location.country": 1 });
 UserSchema.index({ active: 1 });
+UserSchema.index({ role: 1, isOnCall: 1 });
 UserSchema.index({ stripeCustomerId: 1 });
 UserSchema.index({ stripeSubscriptionId: 1 });
 UserSchema.index({ subscriptionTier: 1 });
 UserSchema.index({ subscription_status: 1 });
 UserSchema.index({ trial_end_date: 1 });
+// Full-text search; email is deliberately left out
+UserSchema.index(
+  { username: "text", firstName: "text", lastName: "text", interests: "text", bio: "text" },
+  { name: "UserSearch", weights: { username: 10, firstName: 6, lastName: 6, interests: 3, bio: 1 } }
+);
 
 // Virtual fields
 UserSchema.virtual("profilePicture").get(function() {
@@ -328,6 +435,11 @@ UserSchema.pre("save", function(next) {
       goal.updatedAt = new Date();
     });
   }
+  // A new send time, quiet hours or timezone moves the next daily reminder;
+  // the scheduler recomputes it on its next tick
+  if (this.isModified("settings.reminders") || this.isModified("location.timezone")) {
+    this.nextDailyReminderAt = null;
+  }
   next();
 });
 
@@ -448,20 +560,12 @@ UserSchema.methods.generateResetToken = function (): string {
   return resetToken;
 };
 
-UserSchema.methods.updatePoints = async function (
-  pointsToAdd: number
-): Promise<void> {
-  this.points = (this.points || 0) + pointsToAdd;
-  await this.save();
-};
-
 UserSchema.methods.updateStreak = async function (): Promise<void> {
   const today = new Date();
   const lastCompleted = this.lastGoalCompletedAt;
 
   if (!lastCompleted || lastCompleted.toDateString() !== today.toDateString()) {
     this.streak = (this.streak || 0) + 1;
-    this.streakCount = this.streak;
   }
   this.lastGoalCompletedAt = today;
   await this.save();
@@ -0,0 +1,104 @@
+// src/api/models/WebhookDelivery.ts
+
+import type { Document, Types } from "mongoose";
+import mongoose, { Schema } from "mongoose";
+import { WEBHOOK_EVENTS, WEBHOOK_PING_EVENT } from "../utils/webhookUtils";
+
+export const DELIVERY_STATUSES = ["pending", "succeeded", "failed"] as const;
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+// Delivery logs are kept for 30 days
+const DELIVERY_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// --- Types & Interfaces ---
+export interface IWebhookAttempt {
+  attemptedAt: Date;
+  statusCode?: number;        // absent when no response came back
+  durationMs: number;
+  error?: string;
+}
+
+export interface IWebhookDelivery extends Document {
+  integration: Types.ObjectId;
+  user: Types.ObjectId;
+  event: string;
+  eventId: string;            // same across replays, so receivers can dedupe
+  payload: Record<string, unknown>;
+  status: DeliveryStatus;
+  attempts: IWebhookAttempt[];
+  replayOf?: Types.ObjectId;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// --- Schema Definition ---
+const WebhookAttemptSchema = new Schema<IWebhookAttempt>(
+  {
+    attemptedAt: { type: Date, required: true },
+    statusCode: { type: Number },
+    durationMs: { type: Number, required: true },
+    error: { type: String },
+  },
+  { _id: false }
+);
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    integration: {
+      type: Schema.Types.ObjectId,
+      ref: "Integration",
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    event: {
+      type: String,
+      enum: [...WEBHOOK_EVENTS, WEBHOOK_PING_EVENT],
+      required: true,
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: DELIVERY_STATUSES,
+      default: "pending",
+    },
+    attempts: {
+      type: [WebhookAttemptSchema],
+      default: [],
+    },
+    replayOf: {
+      type: Schema.Types.ObjectId,
+      ref: "WebhookDelivery",
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// --- Indexes ---
+WebhookDeliverySchema.index({ integration: 1, createdAt: -1 });
+WebhookDeliverySchema.index({ integration: 1, status: 1 });
+WebhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_TTL_SECONDS });
+
+// --- Model Export ---
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>(
+  "WebhookDelivery",
+  WebhookDeliverySchema
+);
+
+export default WebhookDelivery;
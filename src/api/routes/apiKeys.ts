@@ -0,0 +1,40 @@
+// src/api/routes/apiKeys.ts
+import { Router } from "express";
+import { check, param } from "express-validator";
+import {
+  createApiKey,
+  getApiKeyScopes,
+  listApiKeys,
+  revokeApiKey,
+} from "../controllers/ApiKeyController";
+import { protect } from "../middleware/authMiddleware";
+import handleValidationErrors from "../middleware/handleValidationErrors";
+import { API_KEY_MAX_RATE_LIMIT } from "../models/APIKey";
+import { API_KEY_SCOPES } from "../utils/apiKeyScopes";
+
+const router = Router();
+
+// Key management needs a signed-in user; API keys themselves are refused
+// earlier, since no scope covers /api/api-keys
+router.use(protect);
+
+router.get("/", listApiKeys);
+
+router.get("/scopes", getApiKeyScopes);
+
+router.post(
+  "/",
+  [
+    check("name").isString().trim().isLength({ min: 1, max: 100 }).withMessage("Name is required (max 100 characters)"),
+    check("scopes").isArray({ min: 1 }).withMessage("At least one scope is required"),
+    check("scopes.*").isIn(API_KEY_SCOPES).withMessage(`Scopes must be among: ${API_KEY_SCOPES.join(", ")}`),
+    check("expiresInDays").optional({ values: "null" }).isInt({ min: 1, max: 365 }).toInt(),
+    check("rateLimit").optional().isInt({ min: 1, max: API_KEY_MAX_RATE_LIMIT }).toInt(),
+  ],
+  handleValidationErrors,
+  createApiKey
+);
+
+router.delete("/:id", [param("id").isMongoId().withMessage("Invalid API key ID")], handleValidationErrors, revokeApiKey);
+
+export default router;
@@ -16,6 +16,19 @@ const authLimiter = rateLimit({
   message: "Too many authentication attempts. Please try again later.",
 });
 
+// ─── limit reset/verification emails to 3 per hour per address ────────────
+const emailLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 3,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => {
+    const email = typeof req.body?.email === "string" ? req.body.email.toLowerCase().trim() : "";
+    return email ? `email:${email}` : `ip:${req.ip}`;
+  },
+  message: { success: false, message: "Too many emails requested for this address. Please try again later." },
+});
+
 // ─── wrapper to catch sync+async errors ──────────────────────────────────
 function wrap(handler: RequestHandler): RequestHandler {
   return async (req, res, next) => {
@@ -67,6 +80,25 @@ router.post(
   })
 );
 
+// ─── POST /api/auth/login/2fa ─────────────────────────────────────────────
+router.post(
+  "/login/2fa",
+  authLimiter,
+  [
+    check("mfaToken", "MFA token is required").isString().notEmpty(),
+    check("code", "Authentication or recovery code is required").isString().trim().isLength({ min: 6, max: 20 }),
+  ],
+  wrap(async (req, res, next) => {
+    const errs = validationResult(req);
+    if (!errs.isEmpty()) {
+      res.status(400).json({ success: false, errors: errs.array() });
+      return;
+    }
+    await authController.loginTwoFactor(req, res, next);
+    return;
+  })
+);
+
 // ─── POST /api/auth/refresh-token ───────────────────────────────────────
 router.post(
   "/refresh-token",
@@ -85,12 +117,134 @@ router.post(
 // ─── POST /api/auth/logout ───────────────────────────────────────────────
 router.post(
   "/logout",
+  [ check("refreshToken").optional().isString() ],
   wrap(async (req, res, next) => {
+    const errs = validationResult(req);
+    if (!errs.isEmpty()) {
+      res.status(400).json({ success: false, errors: errs.array() });
+      return;
+    }
     await authController.logout(req, res, next);
     return;
   })
 );
 
+// ─── POST /api/auth/forgot-password ──────────────────────────────────────
+router.post(
+  "/forgot-password",
+  authLimiter,
+  [ check("email", "Valid email is required").isEmail() ],
+  emailLimiter,
+  wrap(async (req, res, next) => {
+    const errs = validationResult(req);
+    if (!errs.isEmpty()) {
+      res.status(400).json({ success: false, errors: errs.array() });
+      return;
+    }
+    await authController.forgotPassword(req, res, next);
+    return;
+  })
+);
+
+// ─── POST /api/auth/reset-password ───────────────────────────────────────
+router.post(
+  "/reset-password",
+  authLimiter,
+  [
+    check("token", "Reset token is required").isString().notEmpty(),
+    check("password", "Password must be ≥8 characters").isLength({ min: 8 }),
+  ],
+  wrap(async (req, res, next) => {
+    const errs = validationResult(req);
+    if (!errs.isEmpty()) {
+      res.status(400).json({ success: false, errors: errs.array() });
+      return;
+    }
+    await authController.resetPassword(req, res, next);
+    return;
+  })
+);
+
+// ─── POST /api/auth/verify-email ─────────────────────────────────────────
+router.post(
+  "/verify-email",
+  authLimiter,
+  [ check("token", "Verification token is required").isString().notEmpty() ],
+  wrap(async (req, res, next) => {
+    const errs = validationResult(req);
+    if (!errs.isEmpty()) {
+      res.status(400).json({ success: false, errors: errs.array() });
+      return;
+    }
+    await authController.verifyEmail(req, res, next);
+    return;
+  })
+);
+
+// ─── POST /api/auth/resend-verification ──────────────────────────────────
+router.post(
+  "/resend-verification",
+  authLimiter,
+  [ check("email", "Valid email is required").isEmail() ],
+  emailLimiter,
+  wrap(async (req, res, next) => {
+    const errs = validationResult(req);
+    if (!errs.isEmpty()) {
+      res.status(400).json({ success: false, errors: errs.array() });
+      return;
+    }
+    await authController.resendVerification(req, res, next);
+    return;
+  })
+);
+
+// ─── POST /api/auth/2fa/setup ────────────────────────────────────────────
+router.post(
+  "/2fa/setup",
+  protect,
+  wrap(async (req, res, next) => {
+    await authController.setupTwoFactor(req, res, next);
+    return;
+  })
+);
+
+// ─── POST /api/auth/2fa/confirm ──────────────────────────────────────────
+router.post(
+  "/2fa/confirm",
+  protect,
+  authLimiter,
+  [ check("code", "Authentication code is required").isString().trim().matches(/^\d{6}$/) ],
+  wrap(async (req, res, next) => {
+    const errs = validationResult(req);
+    if (!errs.isEmpty()) {
+      res.status(400).json({ success: false, errors: errs.array() });
+      return;
+    }
+    await authController.confirmTwoFactor(req, res, next);
+    return;
+  })
+);
+
+// ─── POST /api/auth/2fa/disable ──────────────────────────────────────────
+router.post(
+  "/2fa/disable",
+  protect,
+  authLimiter,
+  [
+    check("password", "Password is required").notEmpty(),
+    check("code", "Authentication or recovery code is required").isString().trim().isLength({ min: 6, max: 20 }),
+  ],
+  wrap(async (req, res, next) => {
+    const errs = validationResult(req);
+    if (!errs.isEmpty()) {
+      res.status(400).json({ success: false, errors: errs.array() });
+      return;
+    }
+    await authController.disableTwoFactor(req, res, next);
+    return;
+  })
+);
+
 // ─── GET /api/auth/me ────────────────────────────────────────────────────
 router.get(
   "/me",
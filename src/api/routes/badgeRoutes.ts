@@ -1,10 +1,12 @@
 // src/api/routes/badgeRoutes.ts
 import { Router } from "express";
-import { check } from "express-validator";
+import { check, param } from "express-validator";
+import type { ValidationChain } from "express-validator";
 import rateLimit from "express-rate-limit";
 import { protect, restrictTo } from "../middleware/authMiddleware";
 import handleValidationErrors from "../middleware/handleValidationErrors";
 import * as BadgeController from "../controllers/BadgeController";
+import { BADGE_METRICS } from "../models/BadgeRule";
 
 const router = Router();
 
@@ -66,6 +68,60 @@ router.post(
   BadgeController.awardBadge  // reuse awardBadge to “upgrade” level
 );
 
+const ruleRules = (optional: boolean): ValidationChain[] => {
+  const field = (name: string): ValidationChain => (optional ? check(name).optional() : check(name));
+  return [
+    field("key").matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/).withMessage("key must be a lowercase slug"),
+    field("name").isString().trim().isLength({ min: 1, max: 100 }).withMessage("name is required"),
+    check("description").optional().isString().isLength({ max: 500 }),
+    field("badgeType").isString().notEmpty().withMessage("badgeType is required"),
+    field("metric").isIn([...BADGE_METRICS]).withMessage(`metric must be one of ${BADGE_METRICS.join(", ")}`),
+    check("filters.category").optional().isString().isLength({ max: 100 }),
+    check("filters.group").optional().isMongoId().withMessage("filters.group must be a group ID"),
+    field("tiers").isArray({ min: 1, max: 3 }).withMessage("tiers must list 1-3 tiers"),
+    check("tiers.*.level").isIn(["Bronze", "Silver", "Gold"]),
+    check("tiers.*.threshold").isInt({ min: 1 }).withMessage("threshold must be a positive integer"),
+    check("tiers.*.points").optional().isInt({ min: 0 }),
+    check("isActive").optional().isBoolean(),
+  ];
+};
+
+// GET /api/badges/rules
+router.get("/rules", protect, BadgeController.listBadgeRules);
+
+// GET /api/badges/rules/progress
+router.get("/rules/progress", protect, BadgeController.getBadgeRuleProgress);
+
+// POST /api/badges/rules
+router.post(
+  "/rules",
+  protect,
+  restrictTo("admin"),
+  ruleRules(false),
+  handleValidationErrors,
+  BadgeController.createBadgeRule
+);
+
+// PATCH /api/badges/rules/:ruleId
+router.patch(
+  "/rules/:ruleId",
+  protect,
+  restrictTo("admin"),
+  [param("ruleId", "Invalid rule ID").isMongoId(), ...ruleRules(true)],
+  handleValidationErrors,
+  BadgeController.updateBadgeRule
+);
+
+// DELETE /api/badges/rules/:ruleId
+router.delete(
+  "/rules/:ruleId",
+  protect,
+  restrictTo("admin"),
+  [param("ruleId", "Invalid rule ID").isMongoId()],
+  handleValidationErrors,
+  BadgeController.deleteBadgeRule
+);
+
 // DELETE /api/badges/expired/remove
 router.delete(
   "/expired/remove",
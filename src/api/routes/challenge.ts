@@ -10,6 +10,10 @@ import {
   joinChallenge,
   leaveChallenge,
   getChallengeById,
+  updateChallengeProgress,
+  getChallengeTeamLeaderboard,
+  createChallengeTeam,
+  switchChallengeTeam,
 } from "../controllers/ChallengeController";
 
 const router = Router();
@@ -35,14 +39,28 @@ router.post(
   challengeCreateLimiter,
   [
     check("name", "Name is required").notEmpty(),
-    check("type", "Type must be 'weekly' or 'monthly'")
-      .isIn(["weekly", "monthly"]),
-    check("milestones", "Milestones array is required")
-      .isArray({ min: 1 }),
+    check("goal", "Goal is required").notEmpty(),
+    check("endDate", "endDate must be a date").isISO8601().toDate(),
+    check("startDate").optional().isISO8601().toDate(),
+    check("visibility").optional().isIn(["public", "private"]),
+    check("progressTracking").optional().isIn(["individual", "team", "both"]),
+    check("teamSettings.mode").optional().isIn(["auto", "choice"]),
+    check("teamSettings.maxTeamSize").optional({ values: "null" }).isInt({ min: 1 }),
+    check("teamSettings.scoring").optional().isIn(["sum", "average"]),
+    check("teams").optional().isArray({ max: 20 }),
+    check("teams.*", "Team names must be 1-50 characters").isString().trim().isLength({ min: 1, max: 50 }),
+    check("milestones").optional().isArray(),
     check("milestones.*.label", "Each milestone must have a label")
       .notEmpty(),
     check("milestones.*.target", "Each milestone must have a numeric target")
-      .isNumeric(),
+      .optional()
+      .isNumeric()
+      .toFloat(),
+    check("milestones.*.requiredAchievers").optional().isInt({ min: 1 }).toInt(),
+    check("milestones.*.dueDate").optional().isISO8601().toDate(),
+    check("rewards").optional().isArray(),
+    check("rewards.*.rewardType").isIn(["badge", "discount", "prize", "recognition"]),
+    check("rewards.*.rewardValue").isString().notEmpty(),
   ],
   handleValidationErrors,
   createChallenge
@@ -68,6 +86,7 @@ router.post(
       .notEmpty()
       .isMongoId()
       .withMessage("challengeId must be a valid Mongo ID"),
+    check("teamId").optional().isMongoId().withMessage("teamId must be a valid Mongo ID"),
   ],
   handleValidationErrors,
   joinChallenge
@@ -91,6 +110,68 @@ router.post(
   leaveChallenge
 );
 
+/**
+ * Add to your progress
+ * POST /api/challenge/:id/progress
+ * Protected + body validation
+ */
+router.post(
+  "/:id/progress",
+  protect,
+  [
+    param("id", "Invalid challenge ID").isMongoId(),
+    check("amount", "amount must be a positive number").isFloat({ gt: 0 }),
+  ],
+  handleValidationErrors,
+  updateChallengeProgress
+);
+
+/**
+ * Team leaderboard
+ * GET /api/challenge/:id/teams
+ * Public + path-param validation
+ */
+router.get(
+  "/:id/teams",
+  [
+    param("id", "Invalid challenge ID").isMongoId(),
+  ],
+  handleValidationErrors,
+  getChallengeTeamLeaderboard
+);
+
+/**
+ * Create a team (user-chosen team challenges)
+ * POST /api/challenge/:id/teams
+ * Protected + body validation
+ */
+router.post(
+  "/:id/teams",
+  protect,
+  [
+    param("id", "Invalid challenge ID").isMongoId(),
+    check("name", "Team name must be 1-50 characters").isString().trim().isLength({ min: 1, max: 50 }),
+  ],
+  handleValidationErrors,
+  createChallengeTeam
+);
+
+/**
+ * Switch team (user-chosen team challenges)
+ * POST /api/challenge/:id/teams/:teamId/join
+ * Protected + path-param validation
+ */
+router.post(
+  "/:id/teams/:teamId/join",
+  protect,
+  [
+    param("id", "Invalid challenge ID").isMongoId(),
+    param("teamId", "Invalid team ID").isMongoId(),
+  ],
+  handleValidationErrors,
+  switchChallengeTeam
+);
+
 /**
  * Get challenge details by ID
  * GET /api/challenge/:id
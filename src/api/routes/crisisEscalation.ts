@@ -0,0 +1,75 @@
+// src/api/routes/crisisEscalation.ts
+import { Router } from "express";
+import { check, param, query } from "express-validator";
+import {
+  acknowledgeEscalation,
+  addEscalationNote,
+  getEscalation,
+  listEscalations,
+  resolveEscalation,
+  sendOutreach,
+  setOnCall,
+} from "../controllers/CrisisEscalationController";
+import { protect, restrictTo } from "../middleware/authMiddleware";
+import handleValidationErrors from "../middleware/handleValidationErrors";
+import { ESCALATION_STATUSES } from "../models/CrisisEscalation";
+
+const router = Router();
+
+router.use(protect, restrictTo("admin", "moderator"));
+
+const escalationIdRule = param("escalationId").isMongoId().withMessage("Invalid escalation ID");
+
+router.get(
+  "/",
+  [
+    query("status").optional().isIn(ESCALATION_STATUSES).withMessage("Unknown escalation status"),
+    query("page").optional().isInt({ min: 1 }),
+    query("limit").optional().isInt({ min: 1, max: 100 }),
+  ],
+  handleValidationErrors,
+  listEscalations
+);
+
+router.put(
+  "/on-call",
+  [check("onCall").isBoolean().withMessage("onCall must be true or false").toBoolean()],
+  handleValidationErrors,
+  setOnCall
+);
+
+router.get("/:escalationId", [escalationIdRule], handleValidationErrors, getEscalation);
+
+router.post("/:escalationId/acknowledge", [escalationIdRule], handleValidationErrors, acknowledgeEscalation);
+
+router.post(
+  "/:escalationId/outreach",
+  [
+    escalationIdRule,
+    check("message").isString().trim().isLength({ min: 1, max: 1000 }).withMessage("Message is required (max 1000 characters)"),
+  ],
+  handleValidationErrors,
+  sendOutreach
+);
+
+router.post(
+  "/:escalationId/notes",
+  [
+    escalationIdRule,
+    check("note").isString().trim().isLength({ min: 1, max: 1000 }).withMessage("Note is required (max 1000 characters)"),
+  ],
+  handleValidationErrors,
+  addEscalationNote
+);
+
+router.post(
+  "/:escalationId/resolve",
+  [
+    escalationIdRule,
+    check("resolution").isString().trim().isLength({ min: 1, max: 1000 }).withMessage("Resolution is required (max 1000 characters)"),
+  ],
+  handleValidationErrors,
+  resolveEscalation
+);
+
+export default router;
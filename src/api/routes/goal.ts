@@ -3,6 +3,15 @@ import { Router } from "express";
 import { protect } from "../middleware/authJwt";
 import { validateSubscription, validateGoalLimit, trialPrompt } from "../middleware/subscriptionValidation";
 import * as goalController from "../controllers/GoalController";
+import { validateReminder } from "../../validators/reminderValidation";
+import { validateCalendarRange, validateHabitLog } from "../../validators/habitValidation";
+import {
+  validateMeasurement,
+  validateMeasurementQuery,
+  validateTrackerLink,
+  validateTrendWindow,
+} from "../../validators/measurementValidation";
+import { validateGoalDependency, validateGoalParent } from "../../validators/goalGraphValidation";
 
 const router = Router();
 
@@ -44,6 +53,13 @@ router.get("/my-goals", validateSubscription, goalController.getUserGoals);
  */
 router.get("/streak-dates", validateSubscription, trialPrompt("streak-analytics"), goalController.getStreakDates);
 
+/**
+ * GET /api/goals/calendar?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Completed goals, due goals and habit logs per local day
+ * Basic subscription required
+ */
+router.get("/calendar", validateSubscription, validateCalendarRange, goalController.getGoalCalendar);
+
 /**
  * Routes for a specific goal by ID
  * All require subscription
@@ -68,4 +84,111 @@ router.put("/:goalId/progress", validateSubscription, goalController.updateGoalP
  */
 router.put("/:goalId/complete", validateSubscription, goalController.completeGoal);
 
+/**
+ * GET/POST /api/goals/:goalId/reminders
+ * Reminders attached to a goal; stored and delivered like any other reminder
+ * Basic subscription required
+ */
+router
+  .route("/:goalId/reminders")
+  .get(validateSubscription, goalController.getGoalReminders)
+  .post(validateSubscription, validateReminder, goalController.addGoalReminder);
+
+/**
+ * GET/POST /api/goals/:goalId/habit/logs
+ * Completions of a habit goal, per local day
+ * Basic subscription required
+ */
+router
+  .route("/:goalId/habit/logs")
+  .get(validateSubscription, goalController.getHabitLogs)
+  .post(validateSubscription, validateHabitLog, goalController.logHabitCompletion);
+
+/**
+ * DELETE /api/goals/:goalId/habit/logs/:logId
+ * Remove a completion logged by mistake
+ * Basic subscription required
+ */
+router.delete("/:goalId/habit/logs/:logId", validateSubscription, goalController.deleteHabitLog);
+
+/**
+ * GET /api/goals/:goalId/habit/stats
+ * Habit streaks, completion rate and per-period history
+ * Basic subscription required
+ */
+router.get("/:goalId/habit/stats", validateSubscription, goalController.getHabitStats);
+
+/**
+ * GET/POST /api/goals/:goalId/measurements
+ * Logged values of a quantitative goal; progress is computed from them
+ * Basic subscription required
+ */
+router
+  .route("/:goalId/measurements")
+  .get(validateSubscription, validateMeasurementQuery, goalController.getMeasurements)
+  .post(validateSubscription, validateMeasurement, goalController.addMeasurement);
+
+/**
+ * DELETE /api/goals/:goalId/measurements/:entryId
+ * Remove a value logged by mistake
+ * Basic subscription required
+ */
+router.delete("/:goalId/measurements/:entryId", validateSubscription, goalController.deleteMeasurement);
+
+/**
+ * GET /api/goals/:goalId/trend
+ * Daily values and recent rate of a quantitative goal
+ * Basic subscription required + trial prompt for analytics
+ */
+router.get(
+  "/:goalId/trend",
+  validateSubscription,
+  trialPrompt("goal-trends"),
+  validateTrendWindow,
+  goalController.getGoalTrend
+);
+
+/**
+ * GET /api/goals/:goalId/projection
+ * Whether the recent rate reaches the target by the due date
+ * Basic subscription required + trial prompt for analytics
+ */
+router.get(
+  "/:goalId/projection",
+  validateSubscription,
+  trialPrompt("goal-trends"),
+  validateTrendWindow,
+  goalController.getGoalProjection
+);
+
+/**
+ * PUT /api/goals/:goalId/tracker
+ * Feed a tracker's progress updates into a quantitative goal
+ * Basic subscription required
+ */
+router.put("/:goalId/tracker", validateSubscription, validateTrackerLink, goalController.linkGoalTracker);
+
+/**
+ * GET /api/goals/:goalId/tree
+ * The goal with its ancestors and nested sub-goals
+ * Basic subscription required
+ */
+router.get("/:goalId/tree", validateSubscription, goalController.getGoalTree);
+
+/**
+ * PUT /api/goals/:goalId/parent
+ * Nest a goal under another one; its progress rolls up to the parent
+ * Basic subscription required
+ */
+router.put("/:goalId/parent", validateSubscription, validateGoalParent, goalController.setGoalParent);
+
+/**
+ * POST /api/goals/:goalId/dependencies
+ * DELETE /api/goals/:goalId/dependencies/:blockerId
+ * Goals that must be completed before this one can complete
+ * Basic subscription required
+ */
+router.post("/:goalId/dependencies", validateSubscription, validateGoalDependency, goalController.addGoalDependency);
+router.delete("/:goalId/dependencies/:blockerId", validateSubscription, goalController.removeGoalDependency);
+
 export default router;
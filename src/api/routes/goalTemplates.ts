@@ -0,0 +1,106 @@
+// src/api/routes/goalTemplates.ts
+import { Router } from "express";
+import rateLimit from "express-rate-limit";
+import type { ValidationChain } from "express-validator";
+import { check, param, query } from "express-validator";
+import { protect } from "../middleware/authMiddleware";
+import handleValidationErrors from "../middleware/handleValidationErrors";
+import { validateSubscription, validateGoalLimit } from "../middleware/subscriptionValidation";
+import * as GoalTemplateController from "../controllers/GoalTemplateController";
+
+const router = Router();
+
+// ─── Rate limiter ───────────────────────────────────────────────────────────────
+const templateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 100,
+  message: { success: false, message: "Too many requests. Please try again later." },
+});
+
+// ─── Validators ─────────────────────────────────────────────────────────────────
+const validateTemplateId = [param("templateId", "Invalid template ID").isMongoId()];
+
+// Required fields become optional for updates
+const templateRules = (optional: boolean): ValidationChain[] => {
+  const field = (name: string): ValidationChain => (optional ? check(name).optional() : check(name));
+  return [
+    field("title").isString().trim().isLength({ min: 1, max: 255 }).withMessage("Title must be 1-255 characters"),
+    field("category").isString().trim().isLength({ min: 1, max: 100 }).withMessage("Category must be 1-100 characters"),
+    field("durationDays").isInt({ min: 1, max: 3650 }).withMessage("durationDays must be 1-3650").toInt(),
+    check("description").optional().isString().isLength({ max: 1000 }),
+    check("tags").optional().isArray({ max: 10 }).withMessage("tags must be an array"),
+    check("tags.*").isString().trim().isLength({ min: 1, max: 50 }),
+    check("priority").optional().isIn(["high", "medium", "low"]),
+    check("visibility").optional().isIn(["public", "private"]),
+    check("isOfficial").optional().isBoolean().toBoolean(),
+    check("milestones").optional().isArray({ max: 50 }).withMessage("milestones must be an array"),
+    check("milestones.*.title", "Each milestone needs a title").isString().trim().isLength({ min: 1, max: 100 }),
+    check("milestones.*.offsetDays", "Milestone offsetDays must be 1-3650").isInt({ min: 1, max: 3650 }).toInt(),
+    check("reminders").optional().isArray({ max: 10 }).withMessage("reminders must be an array"),
+    check("reminders.*.message", "Each reminder needs a message").isString().trim().isLength({ min: 1, max: 255 }),
+    check("reminders.*.offsetDays").optional().isInt({ min: 0, max: 3650 }).toInt(),
+    check("reminders.*.time").optional().matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage("Reminder time must be HH:mm"),
+    check("reminders.*.recurrence").optional().isIn(["none", "daily", "weekdays", "weekly", "monthly"]),
+    check("reminders.*.interval").optional().isInt({ min: 1, max: 365 }).toInt(),
+    check("reminders.*.daysOfWeek").optional().isArray({ max: 7 }),
+    check("reminders.*.daysOfWeek.*").isInt({ min: 0, max: 6 }).toInt(),
+    check("reminders.*.reminderType").optional().isIn(["email", "sms", "app"]),
+  ];
+};
+
+// ─── Routes ─────────────────────────────────────────────────────────────────────
+router.use(protect, templateLimiter);
+
+/**
+ * GET /api/goal-templates
+ * Browse templates (?category=&q=&official=&mine=&sort=popular|newest)
+ */
+router.get(
+  "/",
+  query("q").optional().isString().isLength({ max: 200 }),
+  query("category").optional().isString().isLength({ max: 100 }),
+  query("sort").optional().isIn(["popular", "newest"]),
+  query("page").optional().isInt({ min: 1 }),
+  query("limit").optional().isInt({ min: 1, max: 50 }),
+  handleValidationErrors,
+  GoalTemplateController.listTemplates
+);
+
+/**
+ * GET /api/goal-templates/categories
+ * Template categories with counts
+ */
+router.get("/categories", GoalTemplateController.listCategories);
+
+/**
+ * POST /api/goal-templates
+ * Publish a template (admins publish official templates)
+ */
+router.post("/", templateRules(false), handleValidationErrors, GoalTemplateController.createTemplate);
+
+/**
+ * GET/PUT/DELETE /api/goal-templates/:templateId
+ */
+router
+  .route("/:templateId")
+  .get(validateTemplateId, handleValidationErrors, GoalTemplateController.getTemplate)
+  .put(validateTemplateId, templateRules(true), handleValidationErrors, GoalTemplateController.updateTemplate)
+  .delete(validateTemplateId, handleValidationErrors, GoalTemplateController.deleteTemplate);
+
+/**
+ * POST /api/goal-templates/:templateId/instantiate
+ * Create a fully populated goal from the template
+ * Requires subscription + goal limit validation
+ */
+router.post(
+  "/:templateId/instantiate",
+  validateTemplateId,
+  check("startDate").optional().isISO8601().withMessage("startDate must be an ISO 8601 date").toDate(),
+  check("title").optional().isString().trim().isLength({ min: 1, max: 255 }),
+  handleValidationErrors,
+  validateSubscription,
+  validateGoalLimit,
+  GoalTemplateController.instantiateTemplate
+);
+
+export default router;
@@ -175,6 +175,7 @@ router.post(
   [
     check("content", "Message content is required").notEmpty(),
     check("content", "Message too long").isLength({ max: 1000 }),
+    check("replyTo", "replyTo must be a message ID").optional().isMongoId(),
   ],
   handleValidationErrors,
   groupController.sendGroupMessage
@@ -0,0 +1,77 @@
+// src/api/routes/integrations.ts
+import { Router } from "express";
+import { check, param, query } from "express-validator";
+import {
+  createIntegration,
+  deleteIntegration,
+  enableIntegration,
+  getIntegrationById,
+  getUserIntegrations,
+  getWebhookDeliveries,
+  getWebhookEvents,
+  replayWebhookDelivery,
+  testIntegration,
+  updateIntegration,
+} from "../controllers/IntegrationController";
+import { protect } from "../middleware/authMiddleware";
+import handleValidationErrors from "../middleware/handleValidationErrors";
+import { DELIVERY_STATUSES } from "../models/WebhookDelivery";
+
+const INTEGRATION_TYPES = ["webhook", "api", "slack", "google_calendar", "github", "custom"];
+
+const router = Router();
+
+router.use(protect);
+
+const integrationIdRule = param("integrationId").isMongoId().withMessage("Invalid integration ID");
+
+router.get("/", getUserIntegrations);
+
+router.get("/webhook-events", getWebhookEvents);
+
+router.post(
+  "/",
+  [
+    check("type").isIn(INTEGRATION_TYPES).withMessage(`Type must be one of: ${INTEGRATION_TYPES.join(", ")}`),
+    check("settings").isObject().withMessage("Settings must be an object"),
+  ],
+  handleValidationErrors,
+  createIntegration
+);
+
+router.get("/:integrationId", [integrationIdRule], handleValidationErrors, getIntegrationById);
+
+router.put(
+  "/:integrationId",
+  [integrationIdRule, check("settings").isObject().withMessage("Settings must be an object")],
+  handleValidationErrors,
+  updateIntegration
+);
+
+router.delete("/:integrationId", [integrationIdRule], handleValidationErrors, deleteIntegration);
+
+router.post("/:integrationId/test", [integrationIdRule], handleValidationErrors, testIntegration);
+
+router.post("/:integrationId/enable", [integrationIdRule], handleValidationErrors, enableIntegration);
+
+// ─── Webhook delivery log ───────────────────────────────────────────────────────
+router.get(
+  "/:integrationId/deliveries",
+  [
+    integrationIdRule,
+    query("status").optional().isIn(DELIVERY_STATUSES).withMessage("Unknown delivery status"),
+    query("page").optional().isInt({ min: 1 }),
+    query("limit").optional().isInt({ min: 1, max: 100 }),
+  ],
+  handleValidationErrors,
+  getWebhookDeliveries
+);
+
+router.post(
+  "/:integrationId/deliveries/:deliveryId/replay",
+  [integrationIdRule, param("deliveryId").isMongoId().withMessage("Invalid delivery ID")],
+  handleValidationErrors,
+  replayWebhookDelivery
+);
+
+export default router;
@@ -1,15 +1,19 @@
 // src/api/routes/leaderboard.ts
 import { Router, Request, Response, NextFunction } from "express";
-import { check } from "express-validator";
+import { check, param, query } from "express-validator";
 import { protect, restrictTo } from "../middleware/authMiddleware";
 import handleValidationErrors from "../middleware/handleValidationErrors";
 import catchAsync from "../utils/catchAsync";
 import {
   getLeaderboard,
+  getLeaderboardArchive,
+  getScopedLeaderboard,
   getUserLeaderboardPosition,
   resetLeaderboard,
   updateLeaderboardForUser,
 } from "../controllers/LeaderboardController";
+import { LEADERBOARD_SCOPES } from "../services/LeaderboardService";
+import { SEASONS } from "../utils/seasonUtils";
 
 const router = Router();
 
@@ -39,6 +43,40 @@ router.get(
   })
 );
 
+// GET /api/leaderboard/scopes/:scope
+router.get(
+  "/scopes/:scope",
+  protect,
+  [
+    param("scope").isIn(LEADERBOARD_SCOPES).withMessage(`Scope must be one of: ${LEADERBOARD_SCOPES.join(", ")}`),
+    query("season").optional().isIn(SEASONS).withMessage(`Season must be one of: ${SEASONS.join(", ")}`),
+    query("id").optional().isMongoId().withMessage("id must be a valid group or challenge ID"),
+    query("category").optional().isString().trim().isLength({ min: 1, max: 100 }),
+    query("page").optional().isInt({ min: 1 }),
+    query("limit").optional().isInt({ min: 1, max: 100 }),
+  ],
+  handleValidationErrors,
+  catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    await getScopedLeaderboard(req, res, next);
+  })
+);
+
+// GET /api/leaderboard/archive
+router.get(
+  "/archive",
+  protect,
+  [
+    query("season").optional().isIn(["weekly", "monthly"]).withMessage("Season must be weekly or monthly"),
+    query("board").optional().isString().trim().isLength({ min: 1, max: 150 }),
+    query("page").optional().isInt({ min: 1 }),
+    query("limit").optional().isInt({ min: 1, max: 50 }),
+  ],
+  handleValidationErrors,
+  catchAsync(async (req: Request, res: Response, next: NextFunction) => {
+    await getLeaderboardArchive(req, res, next);
+  })
+);
+
 // GET /api/leaderboard/:userId
 router.get(
   "/:userId",
@@ -2,22 +2,25 @@
 import { Router, Request, Response, NextFunction } from "express";
 import rateLimit from "express-rate-limit";
 import { protect } from "../middleware/authMiddleware";
-import { param } from "express-validator";
+import { body, param, query } from "express-validator";
 import handleValidationErrors from "../middleware/handleValidationErrors";
 import catchAsync from "../utils/catchAsync";
 import * as MatchController from "../controllers/MatchController";
+import { MANUAL_STATUSES } from "../services/MatchService";
 
 const router = Router();
 const limiter = rateLimit({ windowMs: 15 * 60 * 1000, max: 50 });
 
 /**
  * POST /api/matches
- * Create a new match
+ * Request an accountability partner (accepts if they already asked you)
  */
 router.post(
   "/",
   protect,
   limiter,
+  body("partnerId", "Invalid partner ID").isMongoId(),
+  handleValidationErrors,
   catchAsync(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     await MatchController.createMatch(req, res, next);
   })
@@ -36,9 +39,24 @@ router.get(
   })
 );
 
+/**
+ * GET /api/matches/suggestions
+ * Ranked partner suggestions with compatibility explanations
+ */
+router.get(
+  "/suggestions",
+  protect,
+  limiter,
+  query("limit").optional().isInt({ min: 1, max: 50 }).withMessage("limit must be 1-50"),
+  handleValidationErrors,
+  catchAsync(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await MatchController.getSuggestedPartners(req, res, next);
+  })
+);
+
 /**
  * GET /api/matches/:matchId
- * Get a specific match by ID
+ * Get one of your matches by ID
  */
 router.get(
   "/:matchId",
@@ -51,15 +69,46 @@ router.get(
   })
 );
 
+/**
+ * POST /api/matches/:matchId/accept
+ * Opt in to a pending match; creates the partnership once both accept
+ */
+router.post(
+  "/:matchId/accept",
+  protect,
+  limiter,
+  param("matchId", "Invalid match ID").isMongoId(),
+  handleValidationErrors,
+  catchAsync(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await MatchController.acceptMatch(req, res, next);
+  })
+);
+
+/**
+ * POST /api/matches/:matchId/decline
+ * Decline a pending match
+ */
+router.post(
+  "/:matchId/decline",
+  protect,
+  limiter,
+  param("matchId", "Invalid match ID").isMongoId(),
+  handleValidationErrors,
+  catchAsync(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await MatchController.declineMatch(req, res, next);
+  })
+);
+
 /**
  * PATCH /api/matches/:matchId/status
- * Update a match's status
+ * Reject or complete one of your matches (activation goes through /accept)
  */
 router.patch(
   "/:matchId/status",
   protect,
   limiter,
   param("matchId", "Invalid match ID").isMongoId(),
+  body("status", `status must be one of: ${MANUAL_STATUSES.join(", ")}`).isIn(MANUAL_STATUSES),
   handleValidationErrors,
   catchAsync(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     await MatchController.updateMatchStatus(req, res, next);
@@ -68,7 +117,7 @@ router.patch(
 
 /**
  * DELETE /api/matches/:matchId
- * Delete a match
+ * Delete one of your matches
  */
 router.delete(
   "/:matchId",
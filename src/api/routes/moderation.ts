@@ -0,0 +1,92 @@
+// src/api/routes/moderation.ts
+import { Router } from "express";
+import { check, param, query } from "express-validator";
+import {
+  decideCase,
+  getCase,
+  getPolicies,
+  getQueue,
+  getWordLists,
+  saveWordList,
+  updatePolicy,
+} from "../controllers/ModerationController";
+import { protect, restrictTo } from "../middleware/authMiddleware";
+import handleValidationErrors from "../middleware/handleValidationErrors";
+import { CASE_DECISIONS, CASE_STATUSES } from "../models/ModerationCase";
+import { MODERATION_ACTIONS, MODERATION_SURFACES } from "../utils/moderationUtils";
+
+const router = Router();
+
+router.use(protect);
+
+const caseIdRule = param("caseId").isMongoId().withMessage("Invalid case ID");
+
+// ─── Review queue (moderators) ──────────────────────────────────────────────────
+router.get(
+  "/queue",
+  restrictTo("admin", "moderator"),
+  [
+    query("status").optional().isIn(CASE_STATUSES).withMessage("Unknown case status"),
+    query("surface").optional().isIn(MODERATION_SURFACES).withMessage("Unknown surface"),
+    query("page").optional().isInt({ min: 1 }),
+    query("limit").optional().isInt({ min: 1, max: 100 }),
+  ],
+  handleValidationErrors,
+  getQueue
+);
+
+router.get("/cases/:caseId", restrictTo("admin", "moderator"), [caseIdRule], handleValidationErrors, getCase);
+
+router.post(
+  "/cases/:caseId/decision",
+  restrictTo("admin", "moderator"),
+  [
+    caseIdRule,
+    check("decision").isIn(CASE_DECISIONS).withMessage(`Decision must be one of: ${CASE_DECISIONS.join(", ")}`),
+    check("note").optional().isString().trim().isLength({ max: 1000 }),
+  ],
+  handleValidationErrors,
+  decideCase
+);
+
+// ─── Settings (admins) ──────────────────────────────────────────────────────────
+router.get("/policies", restrictTo("admin"), getPolicies);
+
+router.put(
+  "/policies/:surface",
+  restrictTo("admin"),
+  [
+    param("surface").isIn(MODERATION_SURFACES).withMessage("Unknown surface"),
+    check("enabled").optional().isBoolean().toBoolean(),
+    check("defaultAction").optional().isIn(MODERATION_ACTIONS).withMessage("Unknown action"),
+    check("rules").optional().isArray({ max: 50 }),
+    check("rules.*.category").isString().trim().toLowerCase().isLength({ min: 1, max: 50 }),
+    check("rules.*.action").isIn(MODERATION_ACTIONS).withMessage("Unknown action"),
+  ],
+  handleValidationErrors,
+  updatePolicy
+);
+
+router.get(
+  "/word-lists",
+  restrictTo("admin"),
+  [query("locale").optional().matches(/^[a-zA-Z]{2,3}([-_][a-zA-Z]{2,4})?$/).withMessage("Invalid locale")],
+  handleValidationErrors,
+  getWordLists
+);
+
+router.put(
+  "/word-lists/:locale/:category",
+  restrictTo("admin"),
+  [
+    param("locale").matches(/^(\*|[a-zA-Z]{2,3}([-_][a-zA-Z]{2,4})?)$/).withMessage("Invalid locale"),
+    param("category").matches(/^[a-zA-Z0-9_-]{1,50}$/).withMessage("Invalid category"),
+    check("terms").isArray({ max: 5000 }).withMessage("Terms must be a list of at most 5000 entries"),
+    check("terms.*").isString().trim().isLength({ min: 1, max: 100 }),
+    check("isActive").optional().isBoolean().toBoolean(),
+  ],
+  handleValidationErrors,
+  saveWordList
+);
+
+export default router;
@@ -5,6 +5,8 @@ import rateLimit from "express-rate-limit";
 import { protect } from "../middleware/authMiddleware";
 import * as NotificationController from "../controllers/NotificationController";
 import handleValidationErrors from "../middleware/handleValidationErrors";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_TYPES } from "../models/Notification";
+import { CLOCK_TIME_PATTERN } from "../utils/timeOfDayUtils";
 
 const router = Router();
 
@@ -31,13 +33,7 @@ router.post(
   [
     check("receiverId", "Receiver ID is required").notEmpty().isMongoId(),
     check("message", "Notification message is required").notEmpty(),
-    check("type", "Notification type is required").isIn([
-      "friend_request",
-      "message",
-      "group_invite",
-      "blog_activity",
-      "goal_milestone",
-    ]),
+    check("type", "Notification type is invalid").optional().isIn([...NOTIFICATION_TYPES]),
   ],
   handleValidationErrors,
   NotificationController.sendNotification
@@ -53,6 +49,116 @@ router.get(
   NotificationController.getNotifications
 );
 
+/**
+ * GET /api/notifications/preferences
+ * Effective per-type, per-channel notification settings
+ */
+router.get(
+  "/preferences",
+  protect,
+  NotificationController.getNotificationPreferences
+);
+
+/**
+ * PUT /api/notifications/preferences
+ * Body: { preferences: { [type]: { in_app?, socket?, email?, push?, sms? } } }
+ */
+router.put(
+  "/preferences",
+  protect,
+  [
+    check("preferences", "preferences must be an object keyed by notification type")
+      .isObject()
+      .custom((prefs: Record<string, unknown>) =>
+        Object.entries(prefs).every(
+          ([type, channels]) =>
+            (NOTIFICATION_TYPES as readonly string[]).includes(type) &&
+            typeof channels === "object" &&
+            channels !== null &&
+            Object.entries(channels).every(
+              ([channel, enabled]) =>
+                (NOTIFICATION_CHANNELS as readonly string[]).includes(channel) &&
+                typeof enabled === "boolean"
+            )
+        )
+      )
+      .withMessage("Unknown notification type/channel or non-boolean value"),
+  ],
+  handleValidationErrors,
+  NotificationController.updateNotificationPreferences
+);
+
+/**
+ * POST /api/notifications/push-subscriptions
+ * Register a browser Web Push subscription
+ */
+router.post(
+  "/push-subscriptions",
+  protect,
+  [
+    check("endpoint", "A valid push endpoint URL is required").isURL({ require_protocol: true }),
+    check("keys.p256dh", "keys.p256dh is required").isString().notEmpty(),
+    check("keys.auth", "keys.auth is required").isString().notEmpty(),
+  ],
+  handleValidationErrors,
+  NotificationController.addPushSubscription
+);
+
+/**
+ * DELETE /api/notifications/push-subscriptions
+ * Remove a browser Web Push subscription
+ */
+router.delete(
+  "/push-subscriptions",
+  protect,
+  [check("endpoint", "endpoint is required").isString().notEmpty()],
+  handleValidationErrors,
+  NotificationController.removePushSubscription
+);
+
+/**
+ * GET /api/notifications/deliveries
+ * Per-channel delivery status of recent notifications
+ */
+router.get(
+  "/deliveries",
+  protect,
+  NotificationController.getDeliveries
+);
+
+/**
+ * GET /api/notifications/digest
+ * Digest mode settings and recently sent digests
+ */
+router.get(
+  "/digest",
+  protect,
+  NotificationController.getDigestSettings
+);
+
+/**
+ * PUT /api/notifications/digest
+ * Batch unread notifications of chosen types into a daily/weekly email
+ */
+router.put(
+  "/digest",
+  protect,
+  [
+    check("enabled").optional().isBoolean(),
+    check("frequency").optional().isIn(["daily", "weekly"]),
+    check("types", "types must be an array of notification types")
+      .optional()
+      .isArray()
+      .custom((types: unknown[]) =>
+        types.every((t) => (NOTIFICATION_TYPES as readonly unknown[]).includes(t))
+      ),
+    check("time", "time must be HH:mm").optional().matches(CLOCK_TIME_PATTERN),
+    check("weekday", "weekday must be 0 (Sunday) to 6 (Saturday)").optional().isInt({ min: 0, max: 6 }),
+  ],
+  handleValidationErrors,
+  NotificationController.updateDigestSettings
+);
+
 /**
  * PATCH /api/notifications/read
  * Mark a batch of notifications as read
@@ -1,13 +1,23 @@
 // src/api/routes/partner.ts
 import { Router } from "express";
 import rateLimit from "express-rate-limit";
-import { check } from "express-validator";
+import { check, param } from "express-validator";
 import { protect } from "../middleware/authMiddleware";
 import handleValidationErrors from "../middleware/handleValidationErrors";
 import {
   notifyPartner,
   addPartnerNotification,
   getPartnerNotifications,
+  listPartnerships,
+  getPartnership,
+  proposeAgreement,
+  acceptAgreement,
+  recordCheckIn,
+  listCheckIns,
+  pausePartnership,
+  resumePartnership,
+  endPartnership,
+  getPartnershipHealth,
 } from "../controllers/partnerController";
 
 const router = Router();
@@ -19,6 +29,13 @@ const rateLimiter = rateLimit({
   message: { success: false, message: "Too many requests. Please try again later." },
 });
 
+// Partnership management is used far more often than partner notifications
+const partnershipLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 100,
+  message: { success: false, message: "Too many requests. Please try again later." },
+});
+
 // ─── Validators ─────────────────────────────────────────────────────────────────
 const validateNotify = [
   check("partnerId", "Partner ID is required").notEmpty().isMongoId(),
@@ -31,6 +48,42 @@ const validateAdd = [
   check("userId",    "User ID is required").notEmpty().isMongoId(),
 ];
 
+const validatePartnershipId = [
+  param("id", "Invalid partnership ID").isMongoId(),
+];
+
+const validateAgreement = [
+  ...validatePartnershipId,
+  check("frequency", "Frequency must be daily or weekly").isIn(["daily", "weekly"]),
+  check("weekdays").optional().isArray({ max: 7 }).withMessage("weekdays must be an array"),
+  check("weekdays.*", "Weekdays are 0 (Sunday) to 6 (Saturday)").isInt({ min: 0, max: 6 }).toInt(),
+  check("timezone").optional().isString().isLength({ max: 64 }),
+  check("goals").optional().isArray({ max: 20 }).withMessage("goals must be an array"),
+  check("goals.*", "Invalid goal ID").isMongoId(),
+  check("prompts").optional().isArray({ max: 10 }).withMessage("prompts must be an array"),
+  check("prompts.*", "Prompts must be 1-300 characters").isString().trim().isLength({ min: 1, max: 300 }),
+];
+
+const validateCheckIn = [
+  ...validatePartnershipId,
+  check("responses").optional().isArray({ max: 10 }).withMessage("responses must be an array"),
+  check("responses.*.prompt", "Each response needs a prompt").isString().notEmpty(),
+  check("responses.*.answer").optional().isString().isLength({ max: 2000 }),
+  check("goals").optional().isArray({ max: 20 }).withMessage("goals must be an array"),
+  check("goals.*", "Invalid goal ID").isMongoId(),
+  check("note").optional().isString().isLength({ max: 2000 }),
+];
+
+const validatePause = [
+  ...validatePartnershipId,
+  check("until", "until must be an ISO 8601 date").optional().isISO8601(),
+];
+
+const validateEnd = [
+  ...validatePartnershipId,
+  check("reason").optional().isString().isLength({ max: 500 }),
+];
+
 // ─── Routes ─────────────────────────────────────────────────────────────────────
 
 /**
@@ -69,4 +122,135 @@ router.get(
   getPartnerNotifications
 );
 
+/**
+ * GET /api/partner/partnerships
+ * List the current user's accountability partnerships
+ */
+router.get(
+  "/partnerships",
+  protect,
+  partnershipLimiter,
+  check("status").optional().isIn(["active", "paused", "ended"]),
+  handleValidationErrors,
+  listPartnerships
+);
+
+/**
+ * GET /api/partner/partnerships/:id
+ * Get a partnership with its agreement
+ */
+router.get(
+  "/partnerships/:id",
+  protect,
+  partnershipLimiter,
+  validatePartnershipId,
+  handleValidationErrors,
+  getPartnership
+);
+
+/**
+ * PUT /api/partner/partnerships/:id/agreement
+ * Propose cadence, shared goals and check-in prompts
+ */
+router.put(
+  "/partnerships/:id/agreement",
+  protect,
+  partnershipLimiter,
+  validateAgreement,
+  handleValidationErrors,
+  proposeAgreement
+);
+
+/**
+ * POST /api/partner/partnerships/:id/agreement/accept
+ * Accept the partner's proposed agreement
+ */
+router.post(
+  "/partnerships/:id/agreement/accept",
+  protect,
+  partnershipLimiter,
+  validatePartnershipId,
+  handleValidationErrors,
+  acceptAgreement
+);
+
+/**
+ * POST /api/partner/partnerships/:id/check-ins
+ * Record today's check-in
+ */
+router.post(
+  "/partnerships/:id/check-ins",
+  protect,
+  partnershipLimiter,
+  validateCheckIn,
+  handleValidationErrors,
+  recordCheckIn
+);
+
+/**
+ * GET /api/partner/partnerships/:id/check-ins
+ * Recent completed and missed check-ins
+ */
+router.get(
+  "/partnerships/:id/check-ins",
+  protect,
+  partnershipLimiter,
+  validatePartnershipId,
+  handleValidationErrors,
+  listCheckIns
+);
+
+/**
+ * POST /api/partner/partnerships/:id/pause
+ * Pause check-ins, optionally until a date
+ */
+router.post(
+  "/partnerships/:id/pause",
+  protect,
+  partnershipLimiter,
+  validatePause,
+  handleValidationErrors,
+  pausePartnership
+);
+
+/**
+ * POST /api/partner/partnerships/:id/resume
+ * Resume a paused partnership
+ */
+router.post(
+  "/partnerships/:id/resume",
+  protect,
+  partnershipLimiter,
+  validatePartnershipId,
+  handleValidationErrors,
+  resumePartnership
+);
+
+/**
+ * POST /api/partner/partnerships/:id/end
+ * End a partnership
+ */
+router.post(
+  "/partnerships/:id/end",
+  protect,
+  partnershipLimiter,
+  validateEnd,
+  handleValidationErrors,
+  endPartnership
+);
+
+/**
+ * GET /api/partner/partnerships/:id/health
+ * Completion-based health score for a partnership
+ */
+router.get(
+  "/partnerships/:id/health",
+  protect,
+  partnershipLimiter,
+  validatePartnershipId,
+  check("days").optional().isInt({ min: 7, max: 365 }),
+  handleValidationErrors,
+  getPartnershipHealth
+);
+
 export default router;
@@ -1,17 +1,28 @@
 // src/api/routes/redemptions.ts
 import { Router } from "express";
+import { check, param, query } from "express-validator";
 import {
+  cancelRedemption,
   createRedemption,
+  fulfillRedemption,
   getMyRedemptions,
   getRedemptionsByDate,
+  listRedemptionsForAdmin,
+  refundRedemption,
 } from "../controllers/RedemptionController";
 import { protect, restrictTo } from "../middleware/authMiddleware";
+import handleValidationErrors from "../middleware/handleValidationErrors";
+import { REDEMPTION_STATUSES } from "../models/Redemption";
 
 const router = Router();
 
+const redemptionIdRule = param("redemptionId").isMongoId().withMessage("Invalid redemption ID");
+
 router.post(
   "/",
   protect,
+  [check("rewardId").isMongoId().withMessage("A valid reward ID is required")],
+  handleValidationErrors,
   createRedemption
 );
 
@@ -28,4 +39,44 @@ router.get(
   getRedemptionsByDate
 );
 
+router.get(
+  "/admin",
+  protect,
+  restrictTo("admin"),
+  [
+    query("status").optional().isIn(REDEMPTION_STATUSES).withMessage("Unknown redemption status"),
+    query("page").optional().isInt({ min: 1 }),
+    query("limit").optional().isInt({ min: 1, max: 100 }),
+  ],
+  handleValidationErrors,
+  listRedemptionsForAdmin
+);
+
+router.patch(
+  "/:redemptionId/fulfill",
+  protect,
+  restrictTo("admin"),
+  [redemptionIdRule, check("note").optional().isString().isLength({ max: 1000 })],
+  handleValidationErrors,
+  fulfillRedemption
+);
+
+router.patch(
+  "/:redemptionId/cancel",
+  protect,
+  restrictTo("admin"),
+  [redemptionIdRule, check("reason").optional().isString().isLength({ max: 500 })],
+  handleValidationErrors,
+  cancelRedemption
+);
+
+router.patch(
+  "/:redemptionId/refund",
+  protect,
+  restrictTo("admin"),
+  [redemptionIdRule, check("reason").optional().isString().isLength({ max: 500 })],
+  handleValidationErrors,
+  refundRedemption
+);
+
 export default router;
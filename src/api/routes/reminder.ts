@@ -4,13 +4,14 @@ import express from "express";
 import rateLimit from "express-rate-limit";
 import { protect } from "../middleware/authMiddleware";
 import checkSubscription from "../middleware/checkSubscription";
-import { validateReminder } from "../../validators/reminderValidation";
+import { validateReminder, validateReminderUpdate } from "../../validators/reminderValidation";
 import {
-  createCustomReminder,
-  getCustomReminders,
-  updateCustomReminder,
-  disableCustomReminder,
-  deleteCustomReminder,
+  createReminder,
+  getReminders,
+  updateReminder,
+  disableReminder,
+  enableReminder,
+  deleteReminder,
 } from "../controllers/ReminderController";
 import { logger } from "../../utils/winstonLogger";
 
@@ -33,7 +34,7 @@ router.post(
   validateReminder,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      await createCustomReminder(req, res, next);
+      await createReminder(req, res, next);
     } catch (err: any) {
       logger.error(`Failed to create reminder for ${req.user?.id}: ${err.message}`);
       next(err);
@@ -47,7 +48,7 @@ router.get(
   checkSubscription("trial"),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      await getCustomReminders(req, res, next);
+      await getReminders(req, res, next);
     } catch (err: any) {
       logger.error(`Failed to fetch reminders for ${req.user?.id}: ${err.message}`);
       next(err);
@@ -59,10 +60,10 @@ router.put(
   "/:id",
   protect,
   checkSubscription("paid"),
-  validateReminder,
+  validateReminderUpdate,
   async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
     try {
-      await updateCustomReminder(req, res, next);
+      await updateReminder(req, res, next);
     } catch (err: any) {
       logger.error(`Failed to update reminder ${req.params.id}: ${err.message}`);
       next(err);
@@ -76,7 +77,7 @@ router.put(
   checkSubscription("paid"),
   async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
     try {
-      await disableCustomReminder(req, res, next);
+      await disableReminder(req, res, next);
     } catch (err: any) {
       logger.error(`Failed to disable reminder ${req.params.id}: ${err.message}`);
       next(err);
@@ -84,13 +85,27 @@ router.put(
   }
 );
 
+router.put(
+  "/enable/:id",
+  protect,
+  checkSubscription("paid"),
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await enableReminder(req, res, next);
+    } catch (err: any) {
+      logger.error(`Failed to enable reminder ${req.params.id}: ${err.message}`);
+      next(err);
+    }
+  }
+);
+
 router.delete(
   "/:id",
   protect,
   checkSubscription("paid"),
   async (req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> => {
     try {
-      await deleteCustomReminder(req, res, next);
+      await deleteReminder(req, res, next);
     } catch (err: any) {
       logger.error(`Failed to delete reminder ${req.params.id}: ${err.message}`);
       next(err);
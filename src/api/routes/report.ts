@@ -6,6 +6,8 @@ import rateLimit from "express-rate-limit";
 import { protect } from "../middleware/authMiddleware";
 import { roleBasedAccessControl } from "../middleware/roleBasedAccessControl";
 import handleValidationErrors from "../middleware/handleValidationErrors";
+import { REPORT_TYPES } from "../models/Report";
+import { MODERATION_SURFACES } from "../utils/moderationUtils";
 
 import {
   createReport,
@@ -32,12 +34,18 @@ const reportValidation = [
   check("reportedId", "Reported ID is required and must be a valid Mongo ID")
     .notEmpty()
     .isMongoId(),
-  check("reportType", "Report type must be one of [post, comment, user]")
+  check("reportType", `Report type must be one of [${REPORT_TYPES.join(", ")}]`)
     .notEmpty()
-    .isIn(["post", "comment", "user"]),
+    .isIn([...REPORT_TYPES]),
   check("reason", "Reason is required and max 300 chars")
     .notEmpty()
     .isLength({ max: 300 }),
+  check("surface", `Surface must be one of [${MODERATION_SURFACES.join(", ")}]`)
+    .optional()
+    .isIn([...MODERATION_SURFACES]),
+  check("parentId", "Parent ID must be a valid Mongo ID")
+    .optional()
+    .isMongoId(),
 ];
 
 // ─── sanitizer ──────────────────────────────────────────────────────────────────
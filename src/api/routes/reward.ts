@@ -1,7 +1,7 @@
 // src/api/routes/rewards.ts
 import type { Router } from "express";
 import express from "express";
-import { check } from "express-validator";
+import { check, param } from "express-validator";
 import rateLimit from "express-rate-limit";
 import { protect } from "../middleware/authMiddleware";
 import { roleBasedAccessControl } from "../middleware/roleBasedAccessControl";
@@ -17,6 +17,17 @@ const rateLimiter = rateLimit({
   message: "Too many requests. Please try again later.",
 });
 
+// catalog fields shared by create and update
+const catalogRules = [
+  check("stock").optional({ values: "null" }).isInt({ min: 0 }).withMessage("Stock must be a whole number ≥ 0 or null."),
+  check("perUserLimit").optional({ values: "null" }).isInt({ min: 1 }).withMessage("Per-user limit must be ≥ 1 or null."),
+  check("availableFrom").optional({ values: "null" }).isISO8601().toDate().withMessage("availableFrom must be a date."),
+  check("availableUntil").optional({ values: "null" }).isISO8601().toDate().withMessage("availableUntil must be a date."),
+  check("allowedTiers").optional().isArray().withMessage("allowedTiers must be an array."),
+  check("allowedTiers.*").isIn(["free-trial", "basic", "pro", "elite"]).withMessage("Unknown subscription tier."),
+  check("isActive").optional().isBoolean().toBoolean(),
+];
+
 /**
  * GET /api/rewards
  * Public: list all available rewards (optionally filter by maxPoints/page/limit)
@@ -64,9 +75,42 @@ router.post(
     check("pointsRequired").isNumeric().withMessage("Points must be a number."),
     check("rewardType").notEmpty().withMessage("Reward type is required."),
     check("imageUrl").optional().isURL().withMessage("Must be a valid URL."),
+    ...catalogRules,
   ],
   handleValidationErrors,
   RewardController.createReward
 );
 
+/**
+ * GET /api/rewards/catalog
+ * Private/Admin: every reward, including inactive and out-of-window ones
+ */
+router.get(
+  "/catalog",
+  protect,
+  roleBasedAccessControl(["admin"]),
+  RewardController.listCatalog
+);
+
+/**
+ * PATCH /api/rewards/:rewardId
+ * Private/Admin: update details, stock, availability or tier restrictions
+ */
+router.patch(
+  "/:rewardId",
+  protect,
+  roleBasedAccessControl(["admin"]),
+  [
+    param("rewardId").isMongoId().withMessage("Invalid reward ID."),
+    check("name").optional().notEmpty().withMessage("Title cannot be empty."),
+    check("description").optional().isString(),
+    check("pointsRequired").optional().isInt({ min: 1 }).withMessage("Points must be a positive number."),
+    check("rewardType").optional().isIn(["badge", "discount", "giftCard", "recognition"]),
+    check("imageUrl").optional().isURL().withMessage("Must be a valid URL."),
+    ...catalogRules,
+  ],
+  handleValidationErrors,
+  RewardController.updateReward
+);
+
 export default router;
@@ -1,11 +1,12 @@
 // src/api/routes/search.ts
-import { Router, Request, Response, NextFunction, RequestHandler } from "express";
+import { Router, RequestHandler } from "express";
 import { check } from "express-validator";
 import sanitize from "mongo-sanitize";
 import rateLimit from "express-rate-limit";
 import { protect } from "../middleware/authMiddleware";
 import * as searchController from "../controllers/SearchController";
 import handleValidationErrors from "../middleware/handleValidationErrors";
+import { SEARCH_TYPES } from "../services/SearchService";
 
 const router = Router();
 
@@ -34,45 +35,25 @@ const sanitizeInput: RequestHandler = (req, _res, next) => {
 };
 
 /**
- * Global /api/search
+ * GET /api/search?query=…&type=user,goal
+ * Unified, relevance-ranked search with per-type facets
  */
-async function globalSearch(
-  req: Request<{}, {}, {}, {
-    query: string;
-    type:  "user" | "group" | "goal" | "post";
-    page?:  string;
-    limit?: string;
-  }>,
-  res: Response,
-  next: NextFunction
-): Promise<void> {
-  const t = req.query.type;
-  switch (t) {
-    case "user":
-      return void searchController.searchUsers(req, res, next);
-    case "group":
-      return void searchController.searchGroups(req, res, next);
-    case "goal":
-      return void searchController.searchGoals(req, res, next);
-    case "post":
-      return void searchController.searchPosts(req, res, next);
-    default:
-      res.status(400).json({ success: false, message: `Invalid search type: ${t}` });
-  }
-}
-
 router.get(
   "/",
   protect,
   searchLimiter,
   allowEmptySearch,
   [
-    check("query", "Search query is required").notEmpty(),
-    check("type",  "Invalid type").isIn(["user", "group", "goal", "post"]),
+    check("query", "Search query is required").notEmpty().isLength({ max: 200 }),
+    check("type", "Invalid type")
+      .optional()
+      .custom((value: string) =>
+        value.split(",").every((t) => (SEARCH_TYPES as readonly string[]).includes(t))
+      ),
   ],
   sanitizeInput,
   handleValidationErrors,
-  globalSearch,
+  searchController.globalSearch,
 );
 
 /**
@@ -86,7 +67,7 @@ function createSearchRoute(
     path,
     protect,
     searchLimiter,
-    [check("query", "Search query is required").notEmpty()],
+    [check("query", "Search query is required").notEmpty().isLength({ max: 200 })],
     sanitizeInput,
     handleValidationErrors,
     handler,
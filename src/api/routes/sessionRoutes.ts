@@ -1,13 +1,11 @@
 import { Router } from "express";
-import { check, param } from "express-validator";
+import { param } from "express-validator";
 import { protect } from "../middleware/authMiddleware";
 import handleValidationErrors from "../middleware/handleValidationErrors";
 import catchAsync from "../utils/catchAsync";
 import {
-  login,
   logout,
   deleteAllSessions,
-  refreshSession,
   getSession,
   getUserSessions,
   deleteSession,
@@ -15,27 +13,16 @@ import {
 
 const router = Router();
 
-// POST /api/session/login
-router.post(
-  "/login",
-  [
-    check("email", "Valid email is required").isEmail(),
-    check("password", "Password is required").notEmpty(),
-  ],
-  handleValidationErrors,
-  catchAsync(login)
-);
+// Sessions are created by /api/auth/login and kept alive by
+// /api/auth/refresh-token; these routes let a user review and revoke them.
 
-// POST /api/session/logout
+// POST /api/sessions/logout — ends the session of the current access token
 router.post("/logout", protect, catchAsync(logout));
 
-// DELETE /api/session/all
+// DELETE /api/sessions/all — signs out every other device
 router.delete("/all", protect, catchAsync(deleteAllSessions));
 
-// POST /api/session/refresh
-router.post("/refresh", protect, catchAsync(refreshSession));
-
-// GET /api/session/:sessionId
+// GET /api/sessions/:sessionId
 router.get(
   "/:sessionId",
   protect,
@@ -44,10 +31,10 @@ router.get(
   catchAsync(getSession)
 );
 
-// GET /api/session
+// GET /api/sessions
 router.get("/", protect, catchAsync(getUserSessions));
 
-// DELETE /api/session/:sessionId
+// DELETE /api/sessions/:sessionId
 router.delete(
   "/:sessionId",
   protect,
@@ -6,6 +6,7 @@ import rateLimit from "express-rate-limit";
 import { protect } from "../middleware/authMiddleware";
 import * as settingsController from "../controllers/SettingsController";
 import handleValidationErrors from "../middleware/handleValidationErrors";
+import { CLOCK_TIME_PATTERN } from "../utils/timeOfDayUtils";
 
 const router = Router();
 
@@ -74,6 +75,23 @@ router.put(
   settingsController.updateNotificationPreferences
 );
 
+/** PUT /api/settings/reminders — daily reminder time and quiet hours (user's local time) */
+router.put(
+  "/reminders",
+  protect,
+  settingsLimiter,
+  sanitizeBody,
+  [
+    check("dailyEnabled").optional().isBoolean(),
+    check("dailyTime", "dailyTime must be HH:mm").optional().matches(CLOCK_TIME_PATTERN),
+    check("quietHours.enabled").optional().isBoolean(),
+    check("quietHours.start", "quietHours.start must be HH:mm").optional().matches(CLOCK_TIME_PATTERN),
+    check("quietHours.end", "quietHours.end must be HH:mm").optional().matches(CLOCK_TIME_PATTERN),
+  ],
+  handleValidationErrors,
+  settingsController.updateReminderPreferences
+);
+
 /** DELETE /api/settings/account */
 router.delete(
   "/account",
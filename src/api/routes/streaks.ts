@@ -4,13 +4,19 @@ import { protect } from "../middleware/authJwt";
 import rateLimit from "express-rate-limit";
 import { check } from "express-validator";
 import handleValidationErrors from "../middleware/handleValidationErrors";
+import { roleBasedAccessControl } from "../middleware/roleBasedAccessControl";
 import {
   getUserStreak,
   logDailyCheckIn,
   getStreakLeaderboard,
+  getStreakHistory,
+  purchaseFreezeTokens,
+  recomputeStreak,
+  resetUserStreak,
 } from "../controllers/StreakController";
 
 const router = Router();
+const isAdmin = roleBasedAccessControl(["admin"]);
 
 // Throttle check-in requests to 5 per 15 minutes
 const limiter = rateLimit({
@@ -57,4 +63,65 @@ router.get(
   getStreakLeaderboard
 );
 
+/**
+ * GET /api/streaks/history
+ * Get the user's per-day check-in history (check-ins, freezes, resets)
+ */
+router.get(
+  "/history",
+  protect,
+  [
+    check("limit")
+      .optional()
+      .isInt({ min: 1, max: 365 })
+      .withMessage("Limit must be between 1 and 365"),
+  ],
+  handleValidationErrors,
+  getStreakHistory
+);
+
+/**
+ * POST /api/streaks/freezes
+ * Spend points on streak freeze tokens
+ */
+router.post(
+  "/freezes",
+  protect,
+  limiter,
+  [
+    check("quantity")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Quantity must be a positive integer"),
+  ],
+  handleValidationErrors,
+  purchaseFreezeTokens
+);
+
+/**
+ * POST /api/streaks/recompute
+ * Rebuild a user's streak from its history (admin only)
+ */
+router.post(
+  "/recompute",
+  protect,
+  isAdmin,
+  [check("userId").isMongoId().withMessage("Valid userId is required")],
+  handleValidationErrors,
+  recomputeStreak
+);
+
+/**
+ * DELETE /api/streaks/reset
+ * Reset a user's streak (admin only)
+ */
+router.delete(
+  "/reset",
+  protect,
+  isAdmin,
+  [check("userId").isMongoId().withMessage("Valid userId is required")],
+  handleValidationErrors,
+  resetUserStreak
+);
+
 export default router;
@@ -1,6 +1,6 @@
 // src/api/routes/userpointsRoute.ts
 import { Router } from "express";
-import { check } from "express-validator";
+import { check, query } from "express-validator";
 import { protect } from "../middleware/authMiddleware";
 import handleValidationErrors from "../middleware/handleValidationErrors";
 import * as PointController from "../controllers/pointController";
@@ -17,6 +17,21 @@ router.get(
   PointController.getUserPoints
 );
 
+/**
+ * GET /api/users/points/history
+ * (ledger of the current user’s point changes)
+ */
+router.get(
+  "/points/history",
+  protect,
+  [
+    query("page").optional().isInt({ min: 1 }).withMessage("Page must be a positive integer"),
+    query("limit").optional().isInt({ min: 1, max: 100 }).withMessage("Limit must be between 1 and 100"),
+  ],
+  handleValidationErrors,
+  PointController.getPointsHistory
+);
+
 /**
  * POST /api/users/points/add
  * (add points to current user)
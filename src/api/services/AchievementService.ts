@@ -2,6 +2,7 @@
 import { Types } from "mongoose";
 import Achievement, { IAchievement } from "../models/Achievement";
 import { IUser } from "../models/User";
+import BadgeRuleEngine from "./BadgeRuleEngine";
 
 export interface CreateAchievementDTO {
   name: string;
@@ -58,8 +59,10 @@ class AchievementService {
     return Achievement.find().sort({ createdAt: -1 });
   }
 
-  /** Check & award any “streak” achievements on a user */
-  // In AchievementService.checkStreakAchievements
+  /**
+   * Check & award any “streak” achievements on a user, and re-evaluate the
+   * check-in badge rules (streak badges are defined as rules now).
+   */
   static async checkStreakAchievements(user: IUser): Promise<void> {
     user.streak = user.streak ?? 0;
 
@@ -77,6 +80,7 @@ class AchievementService {
     }
 
     await user.save();
+    await BadgeRuleEngine.track("check_in", user.id);
   }
 
 }
@@ -2,6 +2,9 @@
 
 import { AnonymousMilitaryMessage, AnonymousSession } from "../models/AnonymousMilitaryChat";
 import { createError } from "../middleware/errorHandler";
+import CrisisEscalationService, { CrisisResource } from "./CrisisEscalationService";
+import ModerationService, { ModerationVerdict } from "./ModerationService";
+import { logger } from "../../utils/winstonLogger";
 
 const VALID_ROOMS = ["veterans-support", "active-duty", "family-members"];
 
@@ -29,6 +32,14 @@ const CRISIS_KEYWORDS = [
   "no point", "give up", "can't go on", "hopeless", "worthless"
 ];
 
+/**
+ * Crisis keywords found in a message (empty when none)
+ */
+export const matchCrisisKeywords = (message: string): string[] => {
+  const text = message.toLowerCase();
+  return CRISIS_KEYWORDS.filter(keyword => text.includes(keyword));
+};
+
 // Types for return values
 interface ChatRoom {
   id: string;
@@ -45,6 +56,8 @@ interface JoinRoomResult {
 interface MessageResult {
   messageId: string;
   isFlagged: boolean;
+  isHidden: boolean;           // shadow-hidden by moderation; don't broadcast it
+  crisisResources?: CrisisResource[];
   message: {
     id: string;
     displayName: string;
@@ -128,7 +141,7 @@ class AnonymousMilitaryChatService {
       throw createError("Invalid room ID", 400);
     }
 
-    const messages = await AnonymousMilitaryMessage.find({ room: roomId })
+    const messages = await AnonymousMilitaryMessage.find({ room: roomId, isHidden: { $ne: true } })
       .sort({ createdAt: -1 })
       .limit(limit)
       .select("displayName message createdAt isFlagged -_id");
@@ -153,18 +166,30 @@ class AnonymousMilitaryChatService {
     }
 
     // Check for crisis keywords
-    const containsCrisisContent = CRISIS_KEYWORDS.some(keyword =>
-      message.toLowerCase().includes(keyword.toLowerCase())
-    );
+    const matchedKeywords = matchCrisisKeywords(message);
+    const containsCrisisContent = matchedKeywords.length > 0;
+
+    // Moderate; a blocked message still reaches the crisis team
+    let verdict: ModerationVerdict;
+    try {
+      verdict = await ModerationService.enforce("anonymous_chat", message.trim());
+    } catch (error) {
+      if (containsCrisisContent) {
+        await this.escalateCrisis(roomId, sessionId, message.trim(), matchedKeywords);
+      }
+      throw error;
+    }
 
     // Create message
     const newMessage = await AnonymousMilitaryMessage.create({
       room: roomId,
       anonymousSessionId: sessionId,
       displayName,
-      message: message.trim(),
-      isFlagged: containsCrisisContent
+      message: verdict.text,
+      isFlagged: containsCrisisContent,
+      isHidden: verdict.hidden
     });
+    await ModerationService.track(verdict, { contentId: newMessage._id });
 
     // Update user's last active time
     await AnonymousSession.findOneAndUpdate(
@@ -172,9 +197,16 @@ class AnonymousMilitaryChatService {
       { lastActive: new Date() }
     );
 
+    // Flagged messages go to the moderator queue; the sender gets resources
+    const crisisResources = containsCrisisContent
+      ? await this.escalateCrisis(roomId, sessionId, message.trim(), matchedKeywords, newMessage._id.toString())
+      : undefined;
+
     return {
       messageId: newMessage._id.toString(),
       isFlagged: containsCrisisContent,
+      isHidden: newMessage.isHidden,
+      crisisResources,
       message: {
         id: newMessage._id.toString(),
         displayName: newMessage.displayName,
@@ -185,6 +217,31 @@ class AnonymousMilitaryChatService {
     };
   }
 
+  /**
+   * Open a crisis escalation; returns the resources sent to the sender
+   */
+  private static async escalateCrisis(
+    roomId: string,
+    sessionId: string,
+    text: string,
+    matchedKeywords: string[],
+    messageId?: string
+  ): Promise<CrisisResource[] | undefined> {
+    try {
+      const { resources } = await CrisisEscalationService.escalate({
+        room: roomId,
+        sessionId,
+        text,
+        messageId,
+        matchedKeywords
+      });
+      return resources;
+    } catch (error) {
+      logger.error(`Failed to escalate flagged message in ${roomId}:`, error);
+      return undefined;
+    }
+  }
+
   /**
    * Get current member count for a room
    */
@@ -83,14 +83,4 @@ export class AnonymousMilitarySocketService {
       memberCount
     });
   }
-
-  public handleCrisisDetection(room: string, _sessionId: string): void {
-    this.io.of("/anonymous-military-chat").to(room).emit("crisis-resources", {
-      message: "If you or someone you know is in crisis, help is available. Call 988 for the Veterans Crisis Line.",
-      resources: [
-        { name: "Veterans Crisis Line", phone: "988 (Press 1)", text: "838255" },
-        { name: "National Suicide Prevention", phone: "988" }
-      ]
-    });
-  }
 }
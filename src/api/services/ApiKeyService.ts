@@ -0,0 +1,108 @@
+// src/api/services/ApiKeyService.ts
+import { Types } from "mongoose";
+import type { IAPIKey } from "../models/APIKey";
+import { APIKey } from "../models/APIKey";
+import type { ApiKeyScope } from "../utils/apiKeyScopes";
+import { createError } from "../middleware/errorHandler";
+import { logger } from "../../utils/winstonLogger";
+
+export const MAX_ACTIVE_KEYS_PER_USER = 10;
+
+// lastUsedAt is only written when it's at least this stale, so busy scripts
+// don't turn every request into a write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays?: number | null;
+  rateLimit?: number;
+}
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  rateLimit: number;
+  status: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+const toSummary = (apiKey: IAPIKey): ApiKeySummary => ({
+  id: apiKey._id.toString(),
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  rateLimit: apiKey.rateLimit,
+  status: apiKey.status,
+  expiresAt: apiKey.expiresAt ?? null,
+  lastUsedAt: apiKey.lastUsedAt ?? null,
+  lastUsedIp: apiKey.lastUsedIp ?? null,
+  revokedAt: apiKey.revokedAt ?? null,
+  createdAt: apiKey.createdAt,
+});
+
+class ApiKeyService {
+  /**
+   * Create a key for `userId`. The raw key is returned here and never again;
+   * only its hash and prefix are stored.
+   */
+  static async create(userId: string, input: CreateApiKeyInput): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    const active = await APIKey.countDocuments({ owner: userId, isActive: true });
+    if (active >= MAX_ACTIVE_KEYS_PER_USER) {
+      throw createError(`You can have at most ${MAX_ACTIVE_KEYS_PER_USER} active API keys`, 409);
+    }
+
+    const { apiKey, key } = await APIKey.generateKeyForUser(new Types.ObjectId(userId), {
+      name: input.name,
+      scopes: input.scopes,
+      expirationDays: input.expiresInDays,
+      rateLimit: input.rateLimit,
+    });
+    logger.info(`🔑 API key ${apiKey.prefix} created for user ${userId}`);
+    return { apiKey: toSummary(apiKey), key };
+  }
+
+  static async listForUser(userId: string): Promise<ApiKeySummary[]> {
+    const keys = await APIKey.find({ owner: userId }).sort({ createdAt: -1 });
+    return keys.map(toSummary);
+  }
+
+  /** Revoke one of the user's keys; revoking twice is a no-op */
+  static async revoke(userId: string, keyId: string): Promise<ApiKeySummary> {
+    if (!Types.ObjectId.isValid(keyId)) throw createError("API key not found", 404);
+    const apiKey = await APIKey.findOne({ _id: keyId, owner: userId });
+    if (!apiKey) throw createError("API key not found", 404);
+
+    if (apiKey.isActive) {
+      await apiKey.deactivate();
+      logger.info(`🔑 API key ${apiKey.prefix} revoked by user ${userId}`);
+    }
+    return toSummary(apiKey);
+  }
+
+  /** The live key matching `rawKey`, or null */
+  static async authenticate(rawKey: string): Promise<IAPIKey | null> {
+    return APIKey.validateKey(rawKey);
+  }
+
+  /** Fire-and-forget last-used tracking; never fails the request */
+  static recordUse(apiKey: IAPIKey, ipAddress?: string): void {
+    const now = Date.now();
+    if (apiKey.lastUsedAt && now - apiKey.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS) return;
+
+    APIKey.updateOne(
+      { _id: apiKey._id },
+      { lastUsedAt: new Date(now), lastUsedIp: ipAddress?.replace(/^::ffff:/, "") ?? null }
+    ).catch((err: Error) => {
+      logger.error(`❌ Failed to record use of API key ${apiKey.prefix}: ${err.message}`);
+    });
+  }
+}
+
+export default ApiKeyService;
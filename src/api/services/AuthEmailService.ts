@@ -0,0 +1,169 @@
+// src/api/services/AuthEmailService.ts
+import crypto from "crypto";
+import type { Types } from "mongoose";
+import type { IUser } from "../models/User";
+import { User } from "../models/User";
+import EmailVerificationToken from "../models/EmailVerificationToken";
+import SessionService from "./SessionService";
+import { sendEmail } from "./emailService";
+import { createError } from "../middleware/errorHandler";
+import type { AuthEmailKind } from "../utils/authEmailTemplate";
+import { renderAuthEmail } from "../utils/authEmailTemplate";
+import { resolveLocale } from "../utils/digestTemplate";
+import appConfig from "../../config/appConfig";
+import { emailQueue } from "../../queues/emailQueue";
+import { NoopQueue } from "../../queues/noopQueue";
+import { logger } from "../../utils/winstonLogger";
+
+export const PASSWORD_RESET_JOB = "password-reset-email";
+export const VERIFY_EMAIL_JOB = "verify-email";
+
+// Raw tokens never go in job data: they are issued when the email is sent
+export interface AuthEmailJobData {
+  userId: string;
+}
+
+// Matches the expiry set by User.generateResetToken
+const RESET_TOKEN_MINUTES = 10;
+const VERIFY_TOKEN_HOURS = 24;
+
+const JOBS: Record<string, { kind: AuthEmailKind; path: string; vars: Record<string, number> }> = {
+  [PASSWORD_RESET_JOB]: { kind: "resetPassword", path: "/reset-password", vars: { minutes: RESET_TOKEN_MINUTES } },
+  [VERIFY_EMAIL_JOB]: { kind: "verifyEmail", path: "/verify-email", vars: { hours: VERIFY_TOKEN_HOURS } },
+};
+
+const hashToken = (token: string): string => crypto.createHash("sha256").update(token).digest("hex");
+
+const normalizeEmail = (email: string): string => email.toLowerCase().trim();
+
+class AuthEmailService {
+  /**
+   * Email a password reset link. Unknown addresses are ignored silently so
+   * the endpoint can't be used to discover accounts.
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    const user = await User.findOne({ email: normalizeEmail(email) }).select("_id");
+    if (!user) return;
+    await this.queue(PASSWORD_RESET_JOB, { userId: user._id.toString() });
+  }
+
+  /**
+   * Set a new password with a reset token. The token is cleared in the same
+   * update that matches it, so it works once; every session is signed out.
+   */
+  static async resetPassword(token: string, password: string): Promise<void> {
+    const user = await User.findOneAndUpdate(
+      { resetPasswordToken: hashToken(token), resetPasswordExpires: { $gt: new Date() } },
+      { $unset: { resetPasswordToken: 1, resetPasswordExpires: 1 } },
+      { new: true }
+    ).select("+password");
+    if (!user) throw createError("Invalid or expired reset token", 400);
+
+    user.password = password;   // hashed by the User pre-save hook
+    // The reset link arrived by email, which proves the address
+    user.isVerified = true;
+    await user.save();
+
+    await Promise.all([
+      SessionService.revokeAllExcept(user._id.toString()),
+      EmailVerificationToken.deleteMany({ user: user._id }),
+    ]);
+    logger.info(`🔑 Password reset for user ${user._id}`);
+  }
+
+  /**
+   * Email a verification link.
+   */
+  static async sendVerification(user: { _id: Types.ObjectId; isVerified?: boolean }): Promise<void> {
+    if (user.isVerified) return;
+    await this.queue(VERIFY_EMAIL_JOB, { userId: user._id.toString() });
+  }
+
+  /**
+   * Send a fresh verification link. Unknown or already verified addresses
+   * are ignored silently.
+   */
+  static async resendVerification(email: string): Promise<void> {
+    const user = await User.findOne({ email: normalizeEmail(email) }).select("isVerified");
+    if (!user || user.isVerified) return;
+    await this.sendVerification(user);
+  }
+
+  /**
+   * Mark the token's owner as verified. Tokens are single-use; any others
+   * still outstanding for the user are discarded.
+   */
+  static async verifyEmail(token: string): Promise<void> {
+    const record = await EmailVerificationToken.consume(token);
+    if (!record) throw createError("Invalid or expired verification token", 400);
+
+    const { matchedCount } = await User.updateOne({ _id: record.user }, { isVerified: true });
+    if (!matchedCount) throw createError("Invalid or expired verification token", 400);
+    await EmailVerificationToken.deleteMany({ user: record.user });
+    logger.info(`✅ Email verified for user ${record.user}`);
+  }
+
+  /**
+   * Issue the token for one queued email and send it in the user's language.
+   */
+  static async processJob(name: string, data: AuthEmailJobData): Promise<void> {
+    const job = JOBS[name];
+    if (!job) throw new Error(`Unknown auth email job "${name}"`);
+
+    const user = await User.findById(data.userId).select("email username firstName isVerified preferences.language");
+    if (!user) return;
+    const token = await this.issueToken(name, user);
+    if (!token) return;
+
+    const email = renderAuthEmail({
+      kind: job.kind,
+      locale: resolveLocale(user.preferences?.language),
+      name: user.firstName || user.username,
+      link: `${appConfig.frontendUrl}${job.path}?token=${encodeURIComponent(token)}`,
+      vars: job.vars,
+    });
+    await sendEmail(user.email, email.subject, email.text, { html: email.html });
+  }
+
+  /**
+   * A fresh raw token for the email, with only its hash stored; null when
+   * there is nothing left to send (the address was verified meanwhile).
+   * A retried job issues a new token, superseding a reset token it replaces.
+   */
+  private static async issueToken(name: string, user: IUser): Promise<string | null> {
+    if (name === VERIFY_EMAIL_JOB) {
+      if (user.isVerified) return null;
+      const { token } = await EmailVerificationToken.generate(user._id, VERIFY_TOKEN_HOURS);
+      return token;
+    }
+
+    const token = user.generateResetToken();
+    await User.updateOne(
+      { _id: user._id },
+      { resetPasswordToken: user.resetPasswordToken, resetPasswordExpires: user.resetPasswordExpires }
+    );
+    return token;
+  }
+
+  /**
+   * Queue an email on emailQueue; without a real queue it is sent inline.
+   * Failures are logged rather than surfaced, keeping responses uniform.
+   */
+  private static async queue(name: string, data: AuthEmailJobData): Promise<void> {
+    try {
+      if (emailQueue instanceof NoopQueue) {
+        await this.processJob(name, data);
+      } else {
+        await emailQueue.add(name, data, {
+          attempts: 3,
+          backoff: { type: "exponential", delay: 30_000 },
+          removeOnComplete: true,
+        });
+      }
+    } catch (err) {
+      logger.error(`❌ Failed to send ${name} for user ${data.userId}: ${(err as Error).message}`);
+    }
+  }
+}
+
+export default AuthEmailService;
@@ -2,20 +2,44 @@
 import jwt, { SignOptions, JwtPayload } from "jsonwebtoken";
 import bcrypt from "bcryptjs";
 import Role from "../models/Role";
+import RefreshToken from "../models/RefreshToken";
+import { User } from "../models/User";
+import SessionService, { ClientInfo } from "./SessionService";
+import { createError } from "../middleware/errorHandler";
 import { logger } from "../../utils/winstonLogger";
 import type { StringValue } from "ms";
 
 interface TokenPayload {
   userId: string;
   role:   string;
+  sid?:   string;   // Session the token was issued for
+}
+
+export interface AuthTokens {
+  accessToken:  string;
+  refreshToken: string;   // opaque, single-use
+  sessionId:    string;
+}
+
+// Proof that a password checked out while the second factor is outstanding.
+// It has no userId claim, so `protect` never accepts it as an access token.
+interface MfaPendingPayload {
+  mfaUserId: string;
+  purpose:   "mfa_pending";
 }
 
 const {
+  MFA_TOKEN_EXPIRES_IN    = "5m",
   ACCESS_TOKEN_SECRET     = "",
   SALT_ROUNDS             = "12",
-  ACCESS_TOKEN_EXPIRES_IN = "1h",
+  ACCESS_TOKEN_EXPIRES_IN = "15m",
+  REFRESH_TOKEN_TTL_DAYS  = "30",
 } = process.env;
 
+const REFRESH_TOKEN_TTL_SECONDS = parseInt(REFRESH_TOKEN_TTL_DAYS, 10) * 24 * 60 * 60;
+
+const refreshExpiry = (): Date => new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+
 if (!ACCESS_TOKEN_SECRET) {
   logger.error("ACCESS_TOKEN_SECRET must be defined in .env");
   throw new Error("Missing ACCESS_TOKEN_SECRET");
@@ -35,7 +59,7 @@ const AuthService = {
     return bcrypt.compareSync(password, hash);
   },
 
-  async generateToken(user: { _id: string; role: string }): Promise<string> {
+  async generateToken(user: { _id: string; role: string }, sessionId?: string): Promise<string> {
     const roleRecord = await Role.findOne({ roleName: user.role });
     if (!roleRecord) {
       logger.error(`Invalid role: ${user.role}`);
@@ -45,6 +69,7 @@ const AuthService = {
     const payload: TokenPayload = {
       userId: user._id,
       role:   user.role,
+      ...(sessionId ? { sid: sessionId } : {}),
     };
 
     const opts: SignOptions = {
@@ -63,19 +88,102 @@ const AuthService = {
     }
   },
 
-  async refreshToken(oldToken: string): Promise<string> {
-    let decoded: JwtPayload;
+  generateMfaToken(userId: string): string {
+    const payload: MfaPendingPayload = { mfaUserId: userId, purpose: "mfa_pending" };
+    return jwt.sign(payload, ACCESS_TOKEN_SECRET, {
+      expiresIn: MFA_TOKEN_EXPIRES_IN as unknown as StringValue,
+    });
+  },
+
+  /** The user ID an "mfa pending" token was issued for */
+  verifyMfaToken(token: string): string {
     try {
-      decoded = jwt.verify(oldToken, ACCESS_TOKEN_SECRET, { ignoreExpiration: true }) as JwtPayload;
+      const decoded = jwt.verify(token, ACCESS_TOKEN_SECRET) as Partial<MfaPendingPayload>;
+      if (decoded.purpose !== "mfa_pending" || !decoded.mfaUserId) {
+        throw new Error("Not an MFA token");
+      }
+      return decoded.mfaUserId;
     } catch (err) {
-      logger.error(`Refresh token decode failed: ${(err as Error).message}`);
-      throw new Error("Token refresh failed.");
+      logger.warn(`MFA token rejected: ${(err as Error).message}`);
+      throw createError("Invalid or expired two-factor session. Please log in again", 401);
     }
-    const { userId, role } = decoded as unknown as TokenPayload;
-    if (!userId || !role) {
-      throw new Error("Invalid token payload.");
+  },
+
+  /**
+   * Sign a user in on a new device: records a Session and issues the first
+   * access/refresh token pair for it.
+   */
+  async startSession(user: { _id: string; role: string }, client: ClientInfo): Promise<AuthTokens> {
+    const session = await SessionService.create(user._id, client, refreshExpiry());
+    const { token } = await RefreshToken.generate(session.user, session._id, REFRESH_TOKEN_TTL_SECONDS);
+    const accessToken = await this.generateToken(user, session._id.toString());
+    return { accessToken, refreshToken: token, sessionId: session._id.toString() };
+  },
+
+  /**
+   * Trade a refresh token for a new pair. Each refresh token works once;
+   * presenting one that was already rotated means it leaked, so the whole
+   * session is revoked.
+   */
+  async refreshToken(oldToken: string, client: ClientInfo = {}): Promise<AuthTokens> {
+    const stored = await RefreshToken.findByToken(oldToken);
+    if (!stored) {
+      throw createError("Invalid or expired refresh token", 401);
+    }
+
+    if (stored.revoked) {
+      if (stored.replacedBy) {
+        logger.warn(`Refresh token reuse detected for session ${stored.session}; revoking session`);
+        await SessionService.end(stored.session);
+      }
+      throw createError("Invalid or expired refresh token", 401);
+    }
+    if (stored.isExpired) {
+      throw createError("Invalid or expired refresh token", 401);
+    }
+
+    const [session, user] = await Promise.all([
+      SessionService.findActive(stored.session),
+      User.findById(stored.user).select("role"),
+    ]);
+    if (!session || !user) {
+      await SessionService.end(stored.session);
+      throw createError("Invalid or expired refresh token", 401);
+    }
+
+    const { refreshToken: next, token } = await RefreshToken.generate(
+      stored.user,
+      stored.session,
+      REFRESH_TOKEN_TTL_SECONDS
+    );
+    // Claim the old token atomically so two concurrent refreshes cannot both win
+    const claimed = await RefreshToken.findOneAndUpdate(
+      { _id: stored._id, revoked: false },
+      { revoked: true, revokedAt: new Date(), replacedBy: next._id }
+    );
+    if (!claimed) {
+      logger.warn(`Concurrent refresh token reuse for session ${stored.session}; revoking session`);
+      await SessionService.end(stored.session);
+      throw createError("Invalid or expired refresh token", 401);
+    }
+
+    await SessionService.touch(session._id, client, next.expiresAt);
+    const accessToken = await this.generateToken(
+      { _id: user._id.toString(), role: user.role },
+      session._id.toString()
+    );
+    return { accessToken, refreshToken: token, sessionId: session._id.toString() };
+  },
+
+  /**
+   * End the session a refresh token belongs to. Unknown tokens are ignored
+   * so logout always succeeds.
+   */
+  async revokeRefreshToken(token: string): Promise<void> {
+    const stored = await RefreshToken.findByToken(token);
+    if (stored) {
+      await SessionService.end(stored.session);
     }
-    return this.generateToken({ _id: userId, role });
   },
 };
 
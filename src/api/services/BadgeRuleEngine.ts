@@ -0,0 +1,270 @@
+// src/api/services/BadgeRuleEngine.ts
+import { Types } from "mongoose";
+import type { BadgeEvent, BadgeMetric, IBadgeRule, IBadgeRuleFilters, IBadgeRuleTier } from "../models/BadgeRule";
+import BadgeRule, { BADGE_TIER_ORDER } from "../models/BadgeRule";
+import type { BadgeLevel } from "../models/Badge";
+import Badge from "../models/Badge";
+import BadgeProgress from "../models/BadgeProgress";
+import Goal from "../models/Goal";
+import Streak from "../models/Streak";
+import GroupMessage from "../models/GroupMessage";
+import Challenge from "../models/Challenge";
+import { User } from "../models/User";
+import PointsLedgerService from "./PointsLedgerService";
+import NotificationDispatcher from "./NotificationDispatcher";
+import WebhookService from "./WebhookService";
+import { escapeRegex } from "../utils/searchUtils";
+import { logger } from "../../utils/winstonLogger";
+
+export interface RuleEvaluation {
+  rule: string;
+  progress: number;
+  level: BadgeLevel | null;
+  unlocked: BadgeLevel[];          // tiers newly reached by this evaluation
+}
+
+export interface BackfillOptions {
+  ruleId?: string;
+  notify?: boolean;
+  dryRun?: boolean;
+}
+
+export interface BackfillResult {
+  rules: number;
+  users: number;
+  unlocked: number;
+}
+
+interface MetricDefinition {
+  events: BadgeEvent[];
+  compute: (userId: Types.ObjectId, filters: IBadgeRuleFilters) => Promise<number>;
+}
+
+/**
+ * Each metric is computed from the stored data rather than counted event by
+ * event, so handling an event twice, or backfilling over live data, gives
+ * the same result.
+ */
+const METRICS: Record<BadgeMetric, MetricDefinition> = {
+  goals_completed: {
+    events: ["goal_completed"],
+    compute: (user, f) =>
+      Goal.countDocuments({
+        user,
+        status: "completed",
+        ...(f.category ? { category: new RegExp(`^${escapeRegex(f.category)}$`, "i") } : {}),
+      }),
+  },
+  check_ins: {
+    events: ["check_in"],
+    compute: async (user) => {
+      const streak = await Streak.findOne({ user }).select("history").lean();
+      return streak?.history.filter((e) => e.type === "check-in").length ?? 0;
+    },
+  },
+  streak_days: {
+    events: ["check_in"],
+    compute: async (user) => {
+      const streak = await Streak.findOne({ user }).select("longestStreak streakCount").lean();
+      return Math.max(streak?.longestStreak ?? 0, streak?.streakCount ?? 0);
+    },
+  },
+  group_messages: {
+    events: ["message_sent"],
+    compute: (user, f) =>
+      GroupMessage.countDocuments({
+        senderId: user,
+        type: "message",
+        deletedAt: null,
+        ...(f.group ? { groupId: f.group } : {}),
+      }),
+  },
+  members_helped: {
+    events: ["message_sent"],
+    compute: async (user, f) => {
+      const helped = await GroupMessage.distinct("replyToSender", {
+        senderId: user,
+        deletedAt: null,
+        replyToSender: { $exists: true, $ne: user },
+        ...(f.group ? { groupId: f.group } : {}),
+      });
+      return helped.length;
+    },
+  },
+  challenges_completed: {
+    events: ["challenge_completed"],
+    compute: (user) => Challenge.countDocuments({ status: "completed", "participants.user": user }),
+  },
+};
+
+const tierRank = (level?: BadgeLevel | null): number =>
+  level ? BADGE_TIER_ORDER.indexOf(level) : -1;
+
+/** Metrics that change when `event` happens */
+export const metricsForEvent = (event: BadgeEvent): BadgeMetric[] =>
+  (Object.keys(METRICS) as BadgeMetric[]).filter((m) => METRICS[m].events.includes(event));
+
+/**
+ * Evaluates admin-defined badge rules: keeps BadgeProgress in step with each
+ * rule's metric, awards Bronze/Silver/Gold tiers as thresholds are crossed,
+ * grants their points through the ledger and notifies the user.
+ */
+class BadgeRuleEngine {
+  /**
+   * React to a domain event for a user. Never throws: badge bookkeeping
+   * must not fail the action that triggered it.
+   */
+  static async track(event: BadgeEvent, userId: string | Types.ObjectId): Promise<RuleEvaluation[]> {
+    try {
+      const rules = await BadgeRule.find({ isActive: true, metric: { $in: metricsForEvent(event) } });
+      const results: RuleEvaluation[] = [];
+      for (const rule of rules) {
+        results.push(await this.evaluate(rule, new Types.ObjectId(userId.toString())));
+      }
+      return results;
+    } catch (err) {
+      logger.error(`Badge rules failed for ${event} by user ${userId.toString()}: ${(err as Error).message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Recompute one rule for one user and unlock any tiers now reached.
+   * Tiers are never taken away when the metric drops.
+   */
+  static async evaluate(
+    rule: IBadgeRule,
+    userId: Types.ObjectId,
+    opts: { notify?: boolean; dryRun?: boolean } = {}
+  ): Promise<RuleEvaluation> {
+    const progress = await METRICS[rule.metric].compute(userId, rule.filters ?? {});
+    const reached = rule.tiers.filter((t) => progress >= t.threshold);
+    const target = reached.length ? reached[reached.length - 1].level : null;
+
+    if (opts.dryRun) {
+      const current = await BadgeProgress.findOne({ user: userId, rule: rule._id }).select("level").lean();
+      const unlocked = reached
+        .filter((t) => tierRank(t.level) > tierRank(current?.level))
+        .map((t) => t.level);
+      return { rule: rule.key, progress, level: target ?? current?.level ?? null, unlocked };
+    }
+
+    const record = await BadgeProgress.findOneAndUpdate(
+      { user: userId, rule: rule._id },
+      {
+        $set: { progress, badgeType: rule.badgeType, evaluatedAt: new Date() },
+        $setOnInsert: { level: null },
+      },
+      { upsert: true, new: true }
+    );
+    const previous = record.level ?? null;
+    if (tierRank(target) <= tierRank(previous)) {
+      return { rule: rule.key, progress, level: previous, unlocked: [] };
+    }
+
+    // Only the evaluation that moves the tier forward awards it
+    const lower = BADGE_TIER_ORDER.slice(0, tierRank(target));
+    const claimed = await BadgeProgress.updateOne(
+      { _id: record._id, $or: [{ level: null }, { level: { $in: lower } }] },
+      { $set: { level: target } }
+    );
+    if (!claimed.modifiedCount) {
+      return { rule: rule.key, progress, level: previous, unlocked: [] };
+    }
+
+    const unlocked = reached.filter((t) => tierRank(t.level) > tierRank(previous));
+    await this.unlock(rule, userId, progress, unlocked, opts.notify !== false);
+    return { rule: rule.key, progress, level: target, unlocked: unlocked.map((t) => t.level) };
+  }
+
+  /**
+   * Evaluate active rules (or one rule) against every user's history,
+   * e.g. after an admin adds a rule. Unlock notifications are optional.
+   */
+  static async backfill(
+    opts: BackfillOptions = {},
+    onUser?: (userId: string, results: RuleEvaluation[]) => void
+  ): Promise<BackfillResult> {
+    const rules = await BadgeRule.find(
+      opts.ruleId ? { _id: opts.ruleId } : { isActive: true }
+    );
+    const result: BackfillResult = { rules: rules.length, users: 0, unlocked: 0 };
+    if (!rules.length) return result;
+
+    for await (const user of User.find({}).select("_id").lean().cursor()) {
+      const evaluations: RuleEvaluation[] = [];
+      for (const rule of rules) {
+        evaluations.push(
+          await this.evaluate(rule, user._id, { notify: opts.notify ?? false, dryRun: opts.dryRun })
+        );
+      }
+      result.users++;
+      result.unlocked += evaluations.reduce((n, e) => n + e.unlocked.length, 0);
+      onUser?.(user._id.toString(), evaluations);
+    }
+    return result;
+  }
+
+  /** Award the badge at its new tier, pay each crossed tier once, notify */
+  private static async unlock(
+    rule: IBadgeRule,
+    userId: Types.ObjectId,
+    progress: number,
+    tiers: IBadgeRuleTier[],
+    notify: boolean
+  ): Promise<void> {
+    const top = tiers[tiers.length - 1];
+    const next = rule.tiers[rule.tiers.indexOf(top) + 1];
+    let points = 0;
+    for (const tier of tiers) {
+      if (tier.points <= 0) continue;
+      const { applied } = await PointsLedgerService.credit({
+        userId: userId.toString(),
+        amount: tier.points,
+        reason: "badge_awarded",
+        sourceType: "BadgeRule",
+        sourceId: `${rule.key}:${tier.level}`,
+        idempotencyKey: `badge-rule:${rule._id.toString()}:${tier.level}:${userId.toString()}`,
+      });
+      if (applied) points += tier.points;
+    }
+
+    await Badge.findOneAndUpdate(
+      { user: userId, rule: rule._id },
+      {
+        $set: {
+          badgeType: rule.badgeType,
+          level: top.level,
+          description: rule.name,
+          progress,
+          goal: next?.threshold ?? top.threshold,
+          dateAwarded: new Date(),
+          badgeIconUrl: rule.badgeIconUrl ?? "",
+        },
+        $inc: { pointsRewarded: points },
+      },
+      { upsert: true, setDefaultsOnInsert: true }
+    );
+    logger.info(`Badge rule ${rule.key} unlocked ${top.level} for user ${userId.toString()}`);
+    await WebhookService.emit(userId, "badge.awarded", {
+      badgeType: rule.badgeType,
+      badgeName: rule.name,
+      rule: rule.key,
+      level: top.level,
+      points,
+    });
+
+    if (notify) {
+      await NotificationDispatcher.dispatch({
+        userId: userId.toString(),
+        type: "badge_unlocked",
+        title: "Badge unlocked",
+        message: `You unlocked the "${rule.name}" badge (${top.level})!`,
+        link: "/badges",
+        data: { rule: rule.key, badgeName: rule.name, level: top.level, points },
+      });
+    }
+  }
+}
+
+export default BadgeRuleEngine;
@@ -2,8 +2,37 @@
 import mongoose, { Types } from "mongoose";
 import Badge, { IBadge, BadgeType, BadgeLevel } from "../models/Badge";
 import BadgeProgress, { IBadgeProgress } from "../models/BadgeProgress";
+import BadgeRule, { IBadgeRule } from "../models/BadgeRule";
+import { createError } from "../middleware/errorHandler";
 import { logger } from "../../utils/winstonLogger";
 import { awardPoints } from "./rewardService";
+import WebhookService from "./WebhookService";
+
+export type BadgeRuleInput = Pick<
+  IBadgeRule,
+  "key" | "name" | "description" | "badgeType" | "badgeIconUrl" | "metric" | "filters" | "tiers" | "isActive"
+>;
+
+// Fields an admin may set on a rule
+const RULE_FIELDS = [
+  "key",
+  "name",
+  "description",
+  "badgeType",
+  "badgeIconUrl",
+  "metric",
+  "filters",
+  "tiers",
+  "isActive",
+] as const;
+
+const pickRuleFields = (input: Partial<BadgeRuleInput>): Partial<BadgeRuleInput> => {
+  const picked: Record<string, unknown> = {};
+  for (const key of RULE_FIELDS) {
+    if (input[key] !== undefined) picked[key] = input[key];
+  }
+  return picked as Partial<BadgeRuleInput>;
+};
 
 // Local helper to bump badge levels
 const badgeLevels: BadgeLevel[] = ["Bronze", "Silver", "Gold"];
@@ -12,6 +41,18 @@ const getNextBadgeLevel = (current: BadgeLevel): BadgeLevel => {
   return badgeLevels[Math.min(idx + 1, badgeLevels.length - 1)];
 };
 
+// Ledger entry for reaching a badge level; the key makes re-awards free
+const badgeAward = (
+  userId: string,
+  badgeType: BadgeType,
+  level: BadgeLevel
+): Parameters<typeof awardPoints>[2] => ({
+  reason: "badge_awarded",
+  sourceType: "Badge",
+  sourceId: `${badgeType}:${level}`,
+  idempotencyKey: `badge:${userId}:${badgeType}:${level}`,
+});
+
 export default class BadgeService {
   /** Award or upgrade a single badge */
   static async awardBadge(
@@ -29,16 +70,18 @@ export default class BadgeService {
         badge.level = nextLevel;
         await badge.save();
         logger.info(`Upgraded badge ${badgeType} to ${nextLevel} for user ${userId}`);
+        await WebhookService.emit(userId, "badge.awarded", { badgeType, level: nextLevel });
       }
     } else {
       // first award
       badge = await Badge.create({ user: uid, badgeType, level });
       logger.info(`Created new badge ${badgeType} (${level}) for user ${userId}`);
+      await WebhookService.emit(userId, "badge.awarded", { badgeType, level });
     }
 
-    // award points via your rewardService
+    // award points once per badge level reached
     const points = Badge.awardPointsForBadge(badgeType);
-    await awardPoints(userId, points);
+    await awardPoints(userId, points, badgeAward(userId, badgeType, badge.level));
 
     return badge;
   }
@@ -64,7 +107,9 @@ export default class BadgeService {
 
     // award points to each
     const points = Badge.awardPointsForBadge(badgeType);
-    await Promise.all(validIds.map((id) => awardPoints(id, points)));
+    await Promise.all(
+      validIds.map((id) => awardPoints(id, points, badgeAward(id, badgeType, level)))
+    );
 
     return validIds;
   }
@@ -96,6 +141,66 @@ export default class BadgeService {
     return prog;
   }
 
+  /** Badge rules; non-admins only see active ones */
+  static async listRules(includeInactive = false): Promise<IBadgeRule[]> {
+    return BadgeRule.find(includeInactive ? {} : { isActive: true }).sort({ createdAt: -1 });
+  }
+
+  /** Define a new badge rule (admin) */
+  static async createRule(input: BadgeRuleInput, createdBy: string): Promise<IBadgeRule> {
+    if (await BadgeRule.exists({ key: input.key?.toLowerCase() })) {
+      throw createError(`A badge rule with key "${input.key}" already exists`, 409);
+    }
+    const rule = await BadgeRule.create({ ...pickRuleFields(input), createdBy });
+    logger.info(`Badge rule ${rule.key} created by ${createdBy}`);
+    return rule;
+  }
+
+  /** Change a badge rule (admin); badges already earned are kept */
+  static async updateRule(ruleId: string, input: Partial<BadgeRuleInput>): Promise<IBadgeRule> {
+    const rule = await this.findRule(ruleId);
+    rule.set(pickRuleFields(input));
+    await rule.save();
+    return rule;
+  }
+
+  /** Delete a badge rule (admin); badges already earned are kept */
+  static async deleteRule(ruleId: string): Promise<void> {
+    const rule = await this.findRule(ruleId);
+    await rule.deleteOne();
+    await BadgeProgress.deleteMany({ rule: rule._id });
+    logger.info(`Badge rule ${rule.key} deleted`);
+  }
+
+  /** A user's progress towards every active rule */
+  static async getRuleProgress(userId: string): Promise<
+    { rule: IBadgeRule; progress: number; level: BadgeLevel | null; nextThreshold: number | null }[]
+  > {
+    const [rules, records] = await Promise.all([
+      BadgeRule.find({ isActive: true }).sort({ name: 1 }),
+      BadgeProgress.find({ user: userId, rule: { $exists: true } }).lean(),
+    ]);
+    const byRule = new Map(records.map((r) => [String(r.rule), r]));
+    return rules.map((rule) => {
+      const record = byRule.get(rule._id.toString());
+      const progress = record?.progress ?? 0;
+      const next = rule.tiers.find((t) => progress < t.threshold);
+      return {
+        rule,
+        progress,
+        level: record?.level ?? null,
+        nextThreshold: next?.threshold ?? null,
+      };
+    });
+  }
+
+  private static async findRule(ruleId: string): Promise<IBadgeRule> {
+    if (!mongoose.isValidObjectId(ruleId)) throw createError("Invalid rule ID", 400);
+    const rule = await BadgeRule.findById(ruleId);
+    if (!rule) throw createError("Badge rule not found", 404);
+    return rule;
+  }
+
   /** Remove expired badges (flag `isExpired`) */
   static async removeExpired(userId: string): Promise<number> {
     const result = await Badge.deleteMany({ user: userId, expiresAt: { $lt: new Date() } });
@@ -0,0 +1,382 @@
+// src/api/services/CrisisEscalationService.ts
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { Types } from "mongoose";
+import CrisisEscalation, {
+  EscalationAction,
+  EscalationSeverity,
+  EscalationStatus,
+  ICrisisEscalation,
+} from "../models/CrisisEscalation";
+import ExternalSupportResource from "../models/MilitaryResource";
+import { User } from "../models/User";
+import { createError } from "../middleware/errorHandler";
+import NotificationDispatcher from "./NotificationDispatcher";
+import { logger } from "../../utils/winstonLogger";
+
+export interface CrisisResource {
+  title: string;
+  url?: string;
+  phone?: string;
+  text?: string;
+  description?: string;
+}
+
+export interface EscalateInput {
+  room: string;
+  sessionId: string;
+  text: string;
+  matchedKeywords: string[];
+  messageId?: string;
+}
+
+export interface EscalationResult {
+  escalation: ICrisisEscalation;
+  resources: CrisisResource[];
+}
+
+export interface PaginatedEscalations {
+  items: ICrisisEscalation[];
+  total: number;
+}
+
+export const CRISIS_NAMESPACE = "/anonymous-military-chat";
+
+// Minutes a moderator has to acknowledge, and to resolve, per severity
+const SLA_MINUTES: Record<EscalationSeverity, { ack: number; resolve: number }> = {
+  critical: { ack: 5, resolve: 60 },
+  high: { ack: 15, resolve: 240 },
+};
+
+// Phrases that signal immediate risk rather than general distress
+const CRITICAL_KEYWORDS = ["suicide", "kill myself", "want to die", "end it all", "hurt myself"];
+
+// Shown when no hotline resources are configured in the catalog
+const DEFAULT_RESOURCES: CrisisResource[] = [
+  { title: "Veterans Crisis Line", phone: "988 (Press 1)", text: "838255", url: "https://www.veteranscrisisline.net" },
+  { title: "Emergency services", phone: "911" },
+];
+
+const MODERATOR_ROLES = ["moderator", "admin"];
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Secret behind anonymous session keys and tokens. The chat namespace reads
+ * it at setup, so a server without one fails to start.
+ */
+export const sessionSecret = (): string => {
+  const secret = process.env.ANONYMOUS_SESSION_SECRET || process.env.ACCESS_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("ANONYMOUS_SESSION_SECRET or ACCESS_TOKEN_SECRET must be set");
+  }
+  return secret;
+};
+
+/**
+ * Keyed hash of an anonymous session ID. Escalations and socket rooms use
+ * it so moderators can reach a sender without ever learning who they are.
+ */
+export const sessionKey = (sessionId: string): string =>
+  createHmac("sha256", sessionSecret()).update(sessionId).digest("hex");
+
+/** Socket room holding every connection of one anonymous session */
+export const sessionRoom = (sessionId: string): string => `session:${sessionKey(sessionId)}`;
+
+const tokenSignature = (sessionId: string): string =>
+  createHmac("sha256", sessionSecret()).update(`token:${sessionId}`).digest("hex");
+
+/** A new server-chosen anonymous session ID */
+export const newSessionId = (): string => `anon_${randomBytes(16).toString("hex")}`;
+
+/**
+ * Signed token a client presents to resume its anonymous session, so a
+ * socket can only join the session room of a session the server issued.
+ */
+export const issueSessionToken = (sessionId: string): string => `${sessionId}.${tokenSignature(sessionId)}`;
+
+/** The session ID inside a valid session token, or null */
+export const verifySessionToken = (token: unknown): string | null => {
+  if (typeof token !== "string") return null;
+  const dot = token.lastIndexOf(".");
+  if (dot <= 0) return null;
+  const sessionId = token.slice(0, dot);
+  const given = Buffer.from(token.slice(dot + 1), "hex");
+  const expected = Buffer.from(tokenSignature(sessionId), "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected) ? sessionId : null;
+};
+
+const emitToSessionKey = (key: string, event: string, payload: unknown): boolean => {
+  const namespace = global.io?.of(CRISIS_NAMESPACE);
+  if (!namespace) return false;
+  const room = `session:${key}`;
+  namespace.to(room).emit(event, payload);
+  return Boolean(namespace.adapter.rooms.get(room)?.size);
+};
+
+/**
+ * Escalation pipeline for crisis content in the anonymous military chat:
+ * the sender gets crisis resources right away, the message lands in a
+ * moderator queue with acknowledge/resolve SLAs, on-call moderators are
+ * alerted, and every step is kept on the escalation's audit trail.
+ */
+class CrisisEscalationService {
+  /** Active hotline and support organisation resources, hotlines first */
+  static async crisisResources(): Promise<CrisisResource[]> {
+    const resources = await ExternalSupportResource.find({
+      isActive: true,
+      category: { $in: ["hotline", "organization"] },
+    })
+      .sort({ category: 1, title: 1 })
+      .limit(10)
+      .lean();
+    if (!resources.length) return DEFAULT_RESOURCES;
+    return resources.map((r) => ({ title: r.title, url: r.url, description: r.description }));
+  }
+
+  /** Open an escalation for a flagged message and start the response */
+  static async escalate(input: EscalateInput): Promise<EscalationResult> {
+    const now = new Date();
+    const severity: EscalationSeverity = input.matchedKeywords.some((k) => CRITICAL_KEYWORDS.includes(k))
+      ? "critical"
+      : "high";
+    const sla = SLA_MINUTES[severity];
+    const key = sessionKey(input.sessionId);
+
+    const escalation = await CrisisEscalation.create({
+      room: input.room,
+      sessionKey: key,
+      message: input.messageId && Types.ObjectId.isValid(input.messageId) ? input.messageId : undefined,
+      excerpt: input.text.slice(0, 500),
+      matchedKeywords: input.matchedKeywords,
+      severity,
+      ackDueAt: new Date(now.getTime() + sla.ack * MINUTE_MS),
+      resolveDueAt: new Date(now.getTime() + sla.resolve * MINUTE_MS),
+      events: [{ action: "created", at: now }],
+    });
+
+    const resources = await this.crisisResources().catch((err: Error) => {
+      logger.error(`Could not load crisis resources: ${err.message}`);
+      return DEFAULT_RESOURCES;
+    });
+    const delivered = emitToSessionKey(key, "crisis-resources", {
+      message: "We noticed you might be going through something hard. You're not alone — help is available right now.",
+      resources,
+    });
+    const events: { action: EscalationAction; note?: string }[] = [
+      { action: "resources_sent", note: delivered ? "Delivered to the sender's socket" : "Sender not connected" },
+    ];
+
+    const notified = await this.notifyModerators(escalation, true);
+    events.push({ action: "moderators_notified", note: `${notified} on-call moderator(s) alerted` });
+    await this.record(escalation._id, events);
+
+    logger.warn(`🚨 Crisis escalation ${escalation._id} (${severity}) opened in ${input.room}`);
+    return { escalation, resources };
+  }
+
+  /** The moderator queue: unresolved cases first, most urgent first */
+  static async listQueue(opts: {
+    status?: EscalationStatus;
+    page?: number;
+    limit?: number;
+  }): Promise<PaginatedEscalations> {
+    const page = Math.max(1, opts.page || 1);
+    const limit = Math.min(100, Math.max(1, opts.limit || 20));
+    const filter = opts.status ? { status: opts.status } : { status: { $ne: "resolved" } };
+
+    const [items, total] = await Promise.all([
+      CrisisEscalation.find(filter)
+        .sort(opts.status === "resolved" ? { resolvedAt: -1 } : { ackDueAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("assignedTo", "username"),
+      CrisisEscalation.countDocuments(filter),
+    ]);
+    return { items, total };
+  }
+
+  /** One escalation with its audit trail */
+  static async getById(escalationId: string): Promise<ICrisisEscalation> {
+    const escalation = await this.find(escalationId);
+    await escalation.populate([
+      { path: "assignedTo", select: "username" },
+      { path: "resolvedBy", select: "username" },
+      { path: "events.actor", select: "username" },
+    ]);
+    return escalation;
+  }
+
+  /** Claim an open escalation; only one moderator can acknowledge it */
+  static async acknowledge(escalationId: string, moderatorId: string): Promise<ICrisisEscalation> {
+    await this.find(escalationId);
+    const now = new Date();
+    const escalation = await CrisisEscalation.findOneAndUpdate(
+      { _id: escalationId, status: "open" },
+      {
+        $set: { status: "acknowledged", acknowledgedAt: now, assignedTo: moderatorId },
+        $push: { events: { action: "acknowledged", actor: moderatorId, at: now } },
+      },
+      { new: true }
+    );
+    if (!escalation) throw createError("Escalation was already acknowledged", 409);
+    logger.info(`Crisis escalation ${escalationId} acknowledged by ${moderatorId}`);
+    return escalation;
+  }
+
+  /**
+   * Send a supportive message to the sender's anonymous session. The
+   * moderator's identity isn't shared with the sender.
+   */
+  static async sendOutreach(
+    escalationId: string,
+    moderatorId: string,
+    message: string
+  ): Promise<{ escalation: ICrisisEscalation; delivered: boolean }> {
+    const escalation = await this.find(escalationId, true);
+    if (escalation.status === "resolved") throw createError("Escalation is already resolved", 409);
+
+    const delivered = emitToSessionKey(escalation.sessionKey, "moderator-message", {
+      from: "Support team",
+      message,
+      resources: await this.crisisResources(),
+      sentAt: new Date().toISOString(),
+    });
+    const updated = await this.record(escalation._id, [
+      { action: "outreach_sent", actor: moderatorId, note: `${delivered ? "" : "[not delivered] "}${message}` },
+    ]);
+    return { escalation: updated, delivered };
+  }
+
+  /** Add a moderator note to the audit trail */
+  static async addNote(escalationId: string, moderatorId: string, note: string): Promise<ICrisisEscalation> {
+    const escalation = await this.find(escalationId);
+    return this.record(escalation._id, [{ action: "note", actor: moderatorId, note }]);
+  }
+
+  /** Close an escalation with a resolution summary */
+  static async resolve(escalationId: string, moderatorId: string, resolution: string): Promise<ICrisisEscalation> {
+    const current = await this.find(escalationId);
+    const now = new Date();
+    // Resolving straight from the queue also counts as the acknowledgement
+    const ack = current.acknowledgedAt ? {} : { acknowledgedAt: now, assignedTo: moderatorId };
+    const escalation = await CrisisEscalation.findOneAndUpdate(
+      { _id: escalationId, status: { $ne: "resolved" } },
+      {
+        $set: { ...ack, status: "resolved", resolvedAt: now, resolvedBy: moderatorId, resolution },
+        $push: { events: { action: "resolved", actor: moderatorId, note: resolution, at: now } },
+      },
+      { new: true }
+    );
+    if (!escalation) throw createError("Escalation is already resolved", 409);
+    logger.info(`Crisis escalation ${escalationId} resolved by ${moderatorId}`);
+    return escalation;
+  }
+
+  /** Put a moderator on or off call for new escalation alerts */
+  static async setOnCall(userId: string, onCall: boolean): Promise<boolean> {
+    const user = await User.findOneAndUpdate(
+      { _id: userId, role: { $in: MODERATOR_ROLES } },
+      { $set: { isOnCall: onCall } },
+      { new: true }
+    ).select("isOnCall");
+    if (!user) throw createError("Only moderators can go on call", 403);
+    return user.isOnCall;
+  }
+
+  /**
+   * Flag escalations that missed their acknowledge or resolve deadline and
+   * alert every moderator, not just those on call. Returns breaches found.
+   */
+  static async checkSlas(now = new Date()): Promise<number> {
+    let breaches = 0;
+    const checks = [
+      {
+        filter: { status: "open", ackDueAt: { $lte: now }, ackBreachedAt: null },
+        field: "ackBreachedAt",
+        note: "Not acknowledged in time",
+      },
+      {
+        filter: { status: { $ne: "resolved" }, resolveDueAt: { $lte: now }, resolveBreachedAt: null },
+        field: "resolveBreachedAt",
+        note: "Not resolved in time",
+      },
+    ];
+
+    for (const check of checks) {
+      const due = await CrisisEscalation.find(check.filter).limit(100);
+      for (const escalation of due) {
+        // Claim the breach so parallel runs alert once
+        const claimed = await CrisisEscalation.findOneAndUpdate(
+          { _id: escalation._id, [check.field]: null },
+          {
+            $set: { [check.field]: now },
+            $push: { events: { action: "sla_breached", note: check.note, at: now } },
+          },
+          { new: true }
+        );
+        if (!claimed) continue;
+        breaches++;
+        await this.notifyModerators(claimed, false, `SLA missed: ${check.note.toLowerCase()}. `);
+      }
+    }
+    if (breaches) logger.warn(`🚨 ${breaches} crisis escalation SLA breach(es)`);
+    return breaches;
+  }
+
+  private static async find(escalationId: string, withSessionKey = false): Promise<ICrisisEscalation> {
+    if (!Types.ObjectId.isValid(escalationId)) throw createError("Invalid escalation ID", 400);
+    const escalation = await CrisisEscalation.findById(escalationId).select(withSessionKey ? "+sessionKey" : "");
+    if (!escalation) throw createError("Escalation not found", 404);
+    return escalation;
+  }
+
+  private static async record(
+    escalationId: Types.ObjectId,
+    events: { action: EscalationAction; actor?: string; note?: string }[]
+  ): Promise<ICrisisEscalation> {
+    const at = new Date();
+    return CrisisEscalation.findByIdAndUpdate(
+      escalationId,
+      { $push: { events: { $each: events.map((e) => ({ ...e, actor: e.actor ?? null, at })) } } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Alert moderators about an escalation. Falls back to every moderator
+   * when nobody is on call. Returns how many were alerted.
+   */
+  private static async notifyModerators(
+    escalation: ICrisisEscalation,
+    onCallOnly: boolean,
+    prefix = ""
+  ): Promise<number> {
+    let moderators = onCallOnly
+      ? await User.find({ role: { $in: MODERATOR_ROLES }, isOnCall: true, active: true }).select("_id").lean()
+      : [];
+    if (!moderators.length) {
+      moderators = await User.find({ role: { $in: MODERATOR_ROLES }, active: true }).select("_id").lean();
+    }
+
+    const minutes = Math.max(0, Math.round((escalation.ackDueAt.getTime() - Date.now()) / MINUTE_MS));
+    const message =
+      `${prefix}A ${escalation.severity} crisis message in ${escalation.room} needs a moderator` +
+      (escalation.status === "open" ? ` (acknowledge within ${minutes} min).` : ".");
+
+    const results = await Promise.allSettled(
+      moderators.map((m) =>
+        NotificationDispatcher.dispatch({
+          userId: m._id.toString(),
+          type: "crisis_alert",
+          message,
+          link: `/moderation/crisis/${escalation._id.toString()}`,
+          data: { escalationId: escalation._id.toString(), severity: escalation.severity },
+        })
+      )
+    );
+    const failed = results.filter((r) => r.status === "rejected").length;
+    if (failed) logger.warn(`Could not alert ${failed} moderator(s) about escalation ${escalation._id}`);
+    return results.length - failed;
+  }
+}
+
+export default CrisisEscalationService;
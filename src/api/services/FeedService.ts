@@ -1,15 +1,18 @@
 // src/api/services/feedService.ts
 import mongoose from "mongoose";
 import FeedPost, { IFeedPost } from "../models/FeedPost";
+import ModerationService from "./ModerationService";
 
 class FeedService {
   /** Fetch all feed posts (most recent first) */
-  static async getFeed(): Promise<IFeedPost[]> {
-    return FeedPost.find()
+  static async getFeed(viewerId?: string): Promise<IFeedPost[]> {
+    const posts = await FeedPost.find(ModerationService.visibleTo(viewerId, "user"))
       .sort({ createdAt: -1 })
       .populate("user", "username")
       .populate("comments.user", "username")
       .exec();
+    posts.forEach((post) => ModerationService.stripHiddenComments(post, viewerId));
+    return posts;
   }
 
   /** Create a new feed post */
@@ -19,16 +22,20 @@ class FeedService {
     milestone: string,
     message?: string
   ): Promise<IFeedPost> {
+    const verdict = await ModerationService.enforce("feed_post", message?.trim() || "", { userId });
     const post = new FeedPost({
       user: new mongoose.Types.ObjectId(userId),
       goal: goalId,
       milestone,
-      message: message?.trim() || "",
+      message: verdict.text,
       likes: [],
       comments: [],
+      isHidden: verdict.hidden,
       createdAt: new Date(),
     });
-    return post.save();
+    await post.save();
+    await ModerationService.track(verdict, { contentId: post._id, authorId: userId });
+    return post;
   }
 
   /** Like a post */
@@ -65,14 +72,18 @@ class FeedService {
   ): Promise<IFeedPost> {
     const post = await FeedPost.findById(postId);
     if (!post) throw new Error("Post not found");
+    const verdict = await ModerationService.enforce("feed_comment", text.trim(), { userId });
     const comment = {
       _id: new mongoose.Types.ObjectId(),
       user: new mongoose.Types.ObjectId(userId),
-      text: text.trim(),
+      text: verdict.text,
+      isHidden: verdict.hidden,
       createdAt: new Date(),
     };
     post.comments.push(comment as any);
-    return post.save();
+    await post.save();
+    await ModerationService.track(verdict, { contentId: comment._id, parentId: post._id, authorId: userId });
+    return post;
   }
 
   /** Remove a comment */
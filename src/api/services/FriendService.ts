@@ -4,6 +4,7 @@ import Follow from "../models/Follow";
 import FriendRequest, { IFriendRequest } from "../models/FriendRequest";
 import { User, IUser } from "../models/User";
 import Notification from "../models/Notification";
+import NotificationDispatcher from "./NotificationDispatcher";
 import { createError } from "../middleware/errorHandler";
 
 type Follower = { id: string; name: string; avatarUrl?: string };
@@ -80,9 +81,9 @@ const FriendService = {
     if (exists) throw createError("Request already exists", 400);
 
     await FriendRequest.create({ sender: senderId, recipient: recipientId, status: "pending" });
-    await Notification.createNotification({
-      user: new Types.ObjectId(recipientId),
-      sender: new Types.ObjectId(senderId),
+    await NotificationDispatcher.dispatch({
+      userId: recipientId,
+      senderId,
       message: `User ${senderId} sent you a friend request.`,
       type: "friend_request",
       link: "/friends/requests",
@@ -110,9 +111,9 @@ const FriendService = {
       messages: [],
     });
 
-    await Notification.createNotification({
-      user: new Types.ObjectId(other),
-      sender: new Types.ObjectId(userId),
+    await NotificationDispatcher.dispatch({
+      userId: other,
+      senderId: userId,
       message: `${userId} accepted your friend request.`,
       type: "friend_request",
       link: "/friends",
@@ -2,6 +2,7 @@
 
 import mongoose from "mongoose";
 import GamificationModel, { type IGamification } from "../models/Gamification";
+import PointsLedgerService from "./PointsLedgerService";
 
 // What we want in our final payload
 export interface LeaderboardEntry {
@@ -104,18 +105,20 @@ const GamificationService = {
 
   /**
    * Add points to a user's gamification profile (create if missing).
+   * Recorded in the points ledger, which also updates the profile.
    */
-  async addPoints(userId: string, amount: number): Promise<void> {
+  async addPoints(userId: string, amount: number, idempotencyKey: string): Promise<UserProgress> {
     if (!mongoose.Types.ObjectId.isValid(userId)) {
       throw new Error("Invalid user ID");
     }
 
-    let profile = await GamificationModel.findOne({ userId });
-    if (!profile) {
-      profile = await GamificationModel.create({ userId, level: 1, points: 0 });
-    }
-
-    await profile.addPoints(amount);
+    await PointsLedgerService.credit({
+      userId,
+      amount,
+      reason: "gamification_points",
+      idempotencyKey,
+    });
+    return this.getUserProgress(userId);
   },
 };
 
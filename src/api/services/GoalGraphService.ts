@@ -0,0 +1,229 @@
+// src/api/services/GoalGraphService.ts
+import { Types } from "mongoose";
+import Goal, { IGoal } from "../models/Goal";
+import { CustomError } from "../middleware/errorHandler";
+import GoalManagementService from "./GoalManagementService";
+import { logger } from "../../utils/winstonLogger";
+
+export interface GoalTreeNode {
+  id: string;
+  title: string;
+  type: IGoal["type"];
+  status: IGoal["status"];
+  progress: number;
+  weight: number;
+  dueDate: Date | null;
+  blockedBy: string[];
+  blocked: boolean;          // some blocker isn't completed yet
+  children: GoalTreeNode[];
+}
+
+export interface GoalTree {
+  ancestors: { id: string; title: string }[];  // root first
+  root: GoalTreeNode;
+}
+
+// Sub-goal levels below a top-level goal
+const MAX_DEPTH = 5;
+// Upper bound on goals walked while checking dependency cycles
+const MAX_GRAPH_NODES = 1000;
+
+type GraphGoal = Pick<IGoal, "_id" | "title" | "parent" | "blockedBy">;
+
+/**
+ * Structure between goals: parent/sub-goal trees, whose progress rolls up
+ * to the parent, and "blocked-by" dependencies, which keep a goal from
+ * completing until its blockers are done. Both stay acyclic.
+ */
+class GoalGraphService {
+  /**
+   * Make a goal a sub-goal of `parentId`, or a top-level goal again with
+   * null. Both the old and the new parent re-roll their progress.
+   */
+  static async setParent(
+    userId: string,
+    goalId: string,
+    parentId: string | null,
+    weight?: number
+  ): Promise<IGoal> {
+    const goal = await this.findOwned(userId, goalId);
+    const previous = goal.parent;
+
+    if (parentId) {
+      const parent = await this.findOwned(userId, parentId);
+      if (parent._id.equals(goal._id)) {
+        throw new CustomError("A goal can't be its own sub-goal", 400);
+      }
+      if (parent.type !== "one-off") {
+        throw new CustomError("Only one-off goals can have sub-goals", 400);
+      }
+      const lineage = [parent._id, ...(await this.ancestors(parent)).map((a) => a._id)];
+      if (lineage.some((id) => id.equals(goal._id))) {
+        throw new CustomError("A goal can't be nested under one of its own sub-goals", 409);
+      }
+      if (lineage.length + (await this.subtreeHeight(goal._id)) > MAX_DEPTH) {
+        throw new CustomError(`Goals can be nested at most ${MAX_DEPTH} levels deep`, 400);
+      }
+      goal.parent = parent._id;
+    } else {
+      goal.parent = null;
+    }
+    if (weight !== undefined) goal.weight = weight;
+    await goal.save();
+
+    if (previous && !previous.equals(goal.parent ?? undefined)) {
+      await GoalManagementService.rollUp(previous);
+    }
+    if (goal.parent) await GoalManagementService.rollUp(goal.parent);
+    logger.info(`Goal ${goalId} parent set to ${parentId ?? "none"} by user ${userId}`);
+    return goal;
+  }
+
+  /** Keep a goal from completing until `blockerId` is completed */
+  static async addDependency(userId: string, goalId: string, blockerId: string): Promise<IGoal> {
+    const [goal, blocker] = await Promise.all([
+      this.findOwned(userId, goalId),
+      this.findOwned(userId, blockerId),
+    ]);
+    if (goal._id.equals(blocker._id)) {
+      throw new CustomError("A goal can't block itself", 400);
+    }
+    if (goal.blockedBy.some((id) => id.equals(blocker._id))) return goal;
+
+    if ((await this.ancestors(goal)).some((a) => a._id.equals(blocker._id))) {
+      throw new CustomError("A sub-goal can't wait on one of its parent goals", 409);
+    }
+    if (await this.dependsOn(blocker._id, goal._id)) {
+      throw new CustomError("This dependency would create a cycle", 409);
+    }
+
+    goal.blockedBy.push(blocker._id);
+    await goal.save();
+    logger.info(`Goal ${goalId} is now blocked by ${blockerId}`);
+    return goal;
+  }
+
+  /** Drop a dependency; a goal already at 100% then completes */
+  static async removeDependency(userId: string, goalId: string, blockerId: string): Promise<IGoal> {
+    if (!Types.ObjectId.isValid(blockerId)) {
+      throw new CustomError("Invalid goal ID", 400);
+    }
+    const goal = await this.findOwned(userId, goalId);
+    const before = goal.blockedBy.length;
+    goal.blockedBy = goal.blockedBy.filter((id) => !id.equals(blockerId));
+    if (goal.blockedBy.length === before) {
+      throw new CustomError("Dependency not found", 404);
+    }
+    await goal.save();
+
+    if (goal.progress >= 100 && goal.status !== "completed") {
+      await GoalManagementService.applyProgress(goal, goal.progress);
+    }
+    return goal;
+  }
+
+  /** A goal with its ancestors and every sub-goal below it */
+  static async getTree(userId: string, goalId: string): Promise<GoalTree> {
+    const root = await this.findOwned(userId, goalId);
+    const ancestors = (await this.ancestors(root)).reverse();
+
+    const levels: IGoal[][] = [[root]];
+    for (let depth = 0; depth < MAX_DEPTH; depth++) {
+      const ids = levels[depth].map((g) => g._id);
+      const next = await Goal.find({ parent: { $in: ids }, user: userId }).sort({ createdAt: 1 }).exec();
+      if (!next.length) break;
+      levels.push(next);
+    }
+    const goals = levels.flat();
+
+    // Completion state of every blocker, including ones outside this tree
+    const blockerIds = [...new Set(goals.flatMap((g) => g.blockedBy.map((id) => id.toString())))];
+    const open = new Set(
+      (await Goal.find({ _id: { $in: blockerIds }, status: { $ne: "completed" } }).select("_id").lean())
+        .map((g) => g._id.toString())
+    );
+
+    const nodes = new Map<string, GoalTreeNode>();
+    for (const g of goals) {
+      const blockedBy = g.blockedBy.map((id) => id.toString());
+      nodes.set(g._id.toString(), {
+        id: g._id.toString(),
+        title: g.title,
+        type: g.type,
+        status: g.status,
+        progress: g.progress,
+        weight: g.weight ?? 1,
+        dueDate: g.dueDate ?? null,
+        blockedBy,
+        blocked: blockedBy.some((id) => open.has(id)),
+        children: [],
+      });
+    }
+    for (const g of goals.slice(1)) {
+      nodes.get(g.parent!.toString())?.children.push(nodes.get(g._id.toString())!);
+    }
+
+    return {
+      ancestors: ancestors.map((a) => ({ id: a._id.toString(), title: a.title })),
+      root: nodes.get(root._id.toString())!,
+    };
+  }
+
+  private static async findOwned(userId: string, goalId: string): Promise<IGoal> {
+    if (!Types.ObjectId.isValid(goalId) || !Types.ObjectId.isValid(userId)) {
+      throw new CustomError("Invalid goal or user ID", 400);
+    }
+    const goal = await Goal.findById(goalId);
+    if (!goal) throw new CustomError("Goal not found", 404);
+    if (goal.user.toString() !== userId) {
+      throw new CustomError("Not authorized to access this goal", 403);
+    }
+    return goal;
+  }
+
+  /** Parent, grandparent, … of a goal, nearest first */
+  private static async ancestors(goal: GraphGoal): Promise<GraphGoal[]> {
+    const chain: GraphGoal[] = [];
+    let parentId = goal.parent;
+    while (parentId && chain.length <= MAX_DEPTH) {
+      const parent = await Goal.findById(parentId).select("title parent blockedBy").lean<GraphGoal>();
+      if (!parent) break;
+      chain.push(parent);
+      parentId = parent.parent;
+    }
+    return chain;
+  }
+
+  /** Levels of sub-goals below a goal (0 for a goal without any) */
+  private static async subtreeHeight(goalId: Types.ObjectId): Promise<number> {
+    let frontier = [goalId];
+    let height = 0;
+    while (height <= MAX_DEPTH) {
+      const children = await Goal.find({ parent: { $in: frontier } }).select("_id").lean();
+      if (!children.length) break;
+      frontier = children.map((c) => c._id);
+      height++;
+    }
+    return height;
+  }
+
+  /** Whether `from` waits on `target`, directly or through other goals */
+  private static async dependsOn(from: Types.ObjectId, target: Types.ObjectId): Promise<boolean> {
+    const seen = new Set<string>([from.toString()]);
+    let frontier = [from];
+    while (frontier.length && seen.size < MAX_GRAPH_NODES) {
+      const goals = await Goal.find({ _id: { $in: frontier } }).select("blockedBy").lean();
+      frontier = [];
+      for (const id of goals.flatMap((g) => g.blockedBy ?? [])) {
+        if (id.equals(target)) return true;
+        if (!seen.has(id.toString())) {
+          seen.add(id.toString());
+          frontier.push(id);
+        }
+      }
+    }
+    return false;
+  }
+}
+
+export default GoalGraphService;
@@ -1,18 +1,46 @@
 // src/api/services/GoalManagementService.ts - Updated with subscription support
 import mongoose from "mongoose";
-import Goal, { IGoal } from "../models/Goal";
+import Goal, { IGoal, IMilestone } from "../models/Goal";
 import { User } from "../models/User";
 import { CustomError } from "../middleware/errorHandler";
+import { createReminder, deleteGoalReminders } from "./ReminderService";
+import BadgeRuleEngine from "./BadgeRuleEngine";
+import LeaderboardService from "./LeaderboardService";
+import HabitService from "./HabitService";
+import WebhookService from "./WebhookService";
+import type { HabitFrequency } from "../utils/habitUtils";
+import type { MeasurementAggregation } from "../utils/measurementUtils";
+import { progressPercent } from "../utils/measurementUtils";
+import { zonedTimeToUtc } from "../utils/recurrenceUtils";
+import { diffDayKeys, getLocalDayKey, resolveTimeZone, shiftDayKey } from "../utils/streakUtils";
+import { parseClockTime } from "../utils/timeOfDayUtils";
 import { logger } from "../../utils/winstonLogger";
 
 type NewGoalData = {
   title: string;
   description?: string;
-  deadline: Date;
+  deadline?: Date;
   category: string;
   target?: number;
+  milestones?: Pick<IMilestone, "title" | "deadline">[];
+  tags?: string[];
+  priority?: IGoal["priority"];
+  template?: string;
+  type?: IGoal["type"];
+  habit?: { frequency: HabitFrequency; target: number; reminderTime?: string };
+  measurement?: { unit: string; target: number; startValue?: number; aggregation?: MeasurementAggregation };
 };
 
+export interface CalendarDay {
+  day: string;
+  completed: { goalId: string; title: string }[];
+  due: { goalId: string; title: string }[];
+  habits: { goalId: string; title: string; count: number }[];
+}
+
+// Widest range the calendar endpoint will return in one request
+const MAX_CALENDAR_DAYS = 92;
+
 class GoalManagementService {
   /**
    * Fetch all public (non-archived) goals.
@@ -114,7 +142,7 @@ class GoalManagementService {
   }
 
   /**
-   * Get streak dates for a user's completed goals (YYYY-MM-DD).
+   * Get streak dates for a user's completed goals and logged habits (YYYY-MM-DD).
    */
   static async getStreakDates(userId: string): Promise<string[]> {
     if (!mongoose.Types.ObjectId.isValid(userId)) {
@@ -128,9 +156,14 @@ class GoalManagementService {
       .select("completedAt")
       .exec();
 
-    const dates = completed
-      .map((g) => g.completedAt!.toISOString().slice(0, 10))
-      .sort();
+    // Days a habit was logged count toward the streak too
+    const habitDays = await HabitService.countsByDay(userId);
+    const dates = [
+      ...new Set([
+        ...completed.map((g) => g.completedAt!.toISOString().slice(0, 10)),
+        ...habitDays.map((h) => h.day),
+      ]),
+    ].sort();
     logger.info(`Streak dates for user ${userId}: [${dates.join(", ")}]`);
     return dates;
   }
@@ -157,18 +190,101 @@ class GoalManagementService {
       throw new CustomError("Not authorized to update this goal", 403);
     }
 
-    goal.progress = Math.min(100, Math.max(0, progress));
-    if (goal.progress >= 100) {
-      goal.status = "completed";
-      goal.completedAt = new Date();
+    if (goal.type === "quantitative") {
+      throw new CustomError("Progress of a quantitative goal comes from its logged entries", 400);
     }
-    await goal.save();
+    if (await Goal.exists({ parent: goal._id, status: { $ne: "archived" } })) {
+      throw new CustomError("Progress of a goal with sub-goals rolls up from them", 400);
+    }
+
+    await this.applyProgress(goal, progress);
     logger.info(
       `User ${userId} updated progress of goal ${goalId} to ${goal.progress}%`
     );
     return goal;
   }
 
+  /**
+   * Save a new progress percentage on a goal; at 100 the goal completes
+   * and counts toward leaderboards and badges. A goal whose blockers are
+   * still open waits at 100% until they complete. Changes roll up to the
+   * parent goal.
+   */
+  static async applyProgress(goal: IGoal, progress: number): Promise<IGoal> {
+    const userId = goal.user.toString();
+    const wasCompleted = goal.status === "completed";
+    const before = { progress: goal.progress, status: goal.status };
+
+    goal.progress = Math.min(100, Math.max(0, progress));
+    const blocked = goal.progress >= 100 && !wasCompleted && (await this.openBlockers(goal)).length > 0;
+    if (goal.progress >= 100 && !blocked) {
+      goal.status = "completed";
+      goal.completedAt = goal.completedAt ?? new Date();
+    } else if (goal.status === "not-started" && goal.progress > 0) {
+      goal.status = "in-progress";
+    }
+    await goal.save();
+
+    if (goal.status === "completed") {
+      if (!wasCompleted) {
+        await LeaderboardService.recordGoalCompleted(userId, goal.category);
+        await WebhookService.emit(userId, "goal.completed", {
+          goalId: goal._id.toString(),
+          title: goal.title,
+          category: goal.category,
+          completedAt: goal.completedAt,
+        });
+      }
+      await BadgeRuleEngine.track("goal_completed", userId);
+    }
+    if (goal.parent && (goal.progress !== before.progress || goal.status !== before.status)) {
+      await this.rollUp(goal.parent);
+    }
+    if (!wasCompleted && goal.status === "completed") await this.releaseDependents(goal._id);
+    return goal;
+  }
+
+  /**
+   * Recompute a parent goal's progress as the weighted average of its
+   * sub-goals. Archived sub-goals don't count.
+   */
+  static async rollUp(parentId: mongoose.Types.ObjectId | string): Promise<IGoal | null> {
+    const [parent, children] = await Promise.all([
+      Goal.findById(parentId),
+      Goal.find({ parent: parentId, status: { $ne: "archived" } }).select("progress status weight").lean(),
+    ]);
+    if (!parent || !children.length) return parent;
+
+    let total = 0;
+    let weights = 0;
+    for (const child of children) {
+      const weight = child.weight ?? 1;
+      total += weight * (child.status === "completed" ? 100 : child.progress);
+      weights += weight;
+    }
+    return this.applyProgress(parent, Math.round(total / weights));
+  }
+
+  /** Goals listed in `blockedBy` that aren't completed yet */
+  static async openBlockers(goal: IGoal): Promise<IGoal[]> {
+    if (!goal.blockedBy?.length) return [];
+    return Goal.find({ _id: { $in: goal.blockedBy }, status: { $ne: "completed" } })
+      .select("title status progress")
+      .exec();
+  }
+
+  /** Complete goals that were only waiting on `blockerId` */
+  private static async releaseDependents(blockerId: mongoose.Types.ObjectId): Promise<void> {
+    const waiting = await Goal.find({
+      blockedBy: blockerId,
+      progress: { $gte: 100 },
+      status: { $nin: ["completed", "archived"] },
+    });
+    for (const goal of waiting) {
+      await this.applyProgress(goal, goal.progress);
+    }
+  }
+
   /**
    * Mark a goal fully complete.
    */
@@ -190,10 +306,15 @@ class GoalManagementService {
       throw new CustomError("Not authorized to complete this goal", 403);
     }
 
-    goal.progress = 100;
-    goal.status = "completed";
-    goal.completedAt = new Date();
-    await goal.save();
+    const blockers = goal.status === "completed" ? [] : await this.openBlockers(goal);
+    if (blockers.length) {
+      throw new CustomError(
+        `Goal is blocked by: ${blockers.map((b) => `"${b.title}"`).join(", ")}`,
+        409
+      );
+    }
+
+    await this.applyProgress(goal, 100);
     logger.info(`User ${userId} completed goal ${goalId}`);
     return goal;
   }
@@ -230,28 +351,149 @@ class GoalManagementService {
       throw new CustomError("User not found", 404);
     }
 
+    const isHabit = data.type === "habit";
+    const isQuantitative = data.type === "quantitative";
+    if (!isHabit && !data.deadline) {
+      throw new CustomError("A deadline is required", 400);
+    }
+    if (isHabit && !data.habit) {
+      throw new CustomError("Habit goals need a frequency and target", 400);
+    }
+    if (isQuantitative && !data.measurement) {
+      throw new CustomError("Quantitative goals need a unit and target", 400);
+    }
+    const timeZone = resolveTimeZone(user.location?.timezone);
+    const measurement = isQuantitative ? this.initialMeasurement(data.measurement) : undefined;
+
     const goal = new Goal({
       user: userId,
       title: data.title,
       description: data.description ?? "",
       category: data.category,
       dueDate: data.deadline,
+      type: data.type ?? "one-off",
+      habit: isHabit
+        ? { ...data.habit, startDay: getLocalDayKey(new Date(), timeZone) }
+        : undefined,
+      measurement,
       target: data.target,
-      progress: 0,
+      progress: measurement
+        ? progressPercent(measurement.aggregation, measurement.startValue, measurement.target, measurement.current)
+        : 0,
       status: "not-started",
-      milestones: [],
-      tags: [],
-      priority: "medium",
+      milestones: (data.milestones ?? []).map((m) => ({ ...m, completed: false })),
+      tags: data.tags ?? [],
+      priority: data.priority ?? "medium",
+      template: data.template,
       isPinned: false,
       points: 0,
       completedAt: undefined,
     });
 
     await goal.save();
+    if (isHabit && data.habit.reminderTime) {
+      try {
+        await this.createHabitReminder(userId, goal, timeZone);
+      } catch (err) {
+        await Goal.deleteOne({ _id: goal._id });
+        throw err;
+      }
+    }
     logger.info(`Goal created for user ${userId}: ${goal._id}`);
     return goal;
   }
 
+  /**
+   * Completed goals, due goals and habit logs per local day between two
+   * days (inclusive), for calendar views.
+   */
+  static async getCalendar(userId: string, from: string, to: string): Promise<CalendarDay[]> {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw new CustomError("Invalid user ID", 400);
+    }
+    const span = diffDayKeys(from, to);
+    if (span < 0) {
+      throw new CustomError("`from` must not be after `to`", 400);
+    }
+    if (span >= MAX_CALENDAR_DAYS) {
+      throw new CustomError(`Calendar range is limited to ${MAX_CALENDAR_DAYS} days`, 400);
+    }
+
+    const user = await User.findById(userId).select("location.timezone").lean();
+    if (!user) {
+      throw new CustomError("User not found", 404);
+    }
+    const timeZone = resolveTimeZone(user.location?.timezone);
+    // Pad a day either side so every local day in range is covered
+    const windowStart = new Date(`${shiftDayKey(from, -1)}T00:00:00Z`);
+    const windowEnd = new Date(`${shiftDayKey(to, 2)}T00:00:00Z`);
+
+    const [goals, habitDays] = await Promise.all([
+      Goal.find({
+        user: userId,
+        $or: [
+          { completedAt: { $gte: windowStart, $lt: windowEnd } },
+          { dueDate: { $gte: windowStart, $lt: windowEnd } },
+          { type: "habit" },
+        ],
+      })
+        .select("title type dueDate completedAt status")
+        .lean(),
+      HabitService.countsByDay(userId, from, to),
+    ]);
+
+    const days = new Map<string, CalendarDay>();
+    for (let day = from; day <= to; day = shiftDayKey(day, 1)) {
+      days.set(day, { day, completed: [], due: [], habits: [] });
+    }
+    const titles = new Map(goals.map((g) => [g._id.toString(), g.title]));
+
+    for (const g of goals) {
+      const ref = { goalId: g._id.toString(), title: g.title };
+      if (g.completedAt) days.get(getLocalDayKey(g.completedAt, timeZone))?.completed.push(ref);
+      if (g.dueDate && g.status !== "completed" && g.status !== "archived") {
+        days.get(getLocalDayKey(g.dueDate, timeZone))?.due.push(ref);
+      }
+    }
+    for (const h of habitDays) {
+      const goalId = h.goal.toString();
+      days.get(h.day)?.habits.push({ goalId, title: titles.get(goalId) ?? "", count: h.count });
+    }
+    return [...days.values()];
+  }
+
+  private static initialMeasurement(input: NewGoalData["measurement"]): IGoal["measurement"] {
+    const aggregation = input.aggregation ?? "sum";
+    const startValue = input.startValue ?? 0;
+    return { unit: input.unit, target: input.target, startValue, aggregation, current: startValue, tracker: null };
+  }
+
+  /**
+   * Daily reminder for a habit at its local reminder time. The scheduler
+   * skips it once the current period's target is met.
+   */
+  private static async createHabitReminder(userId: string, goal: IGoal, timeZone: string): Promise<void> {
+    const minute = parseClockTime(goal.habit!.reminderTime!);
+    const now = new Date();
+    const at = (day: string): Date => {
+      const [year, month, date] = day.split("-").map((n) => parseInt(n, 10));
+      return zonedTimeToUtc(
+        { year, month, day: date, hour: Math.floor(minute / 60), minute: minute % 60, second: 0 },
+        timeZone
+      );
+    };
+    const today = getLocalDayKey(now, timeZone);
+    const first = at(today) > now ? at(today) : at(shiftDayKey(today, 1));
+
+    await createReminder(userId, {
+      message: `Time for your habit: ${goal.title}`,
+      remindAt: first,
+      goalId: goal._id.toString(),
+      recurrence: "daily",
+      endRepeat: goal.dueDate ?? null,
+    });
+  }
+
   /**
    * Update a goal's details (title, description, dueDate, category).
    */
@@ -296,9 +538,16 @@ class GoalManagementService {
     ) {
       throw new CustomError("Invalid goal or user ID", 400);
     }
+    const goal = await Goal.findOne({ _id: goalId, user: userId }).select("parent").lean();
     const result = await Goal.deleteOne({ _id: goalId, user: userId }).exec();
     const success = result.deletedCount === 1;
     if (success) {
+      await deleteGoalReminders(goalId);
+      // Sub-goals become top-level goals; dependents stop waiting on this one
+      await Goal.updateMany({ parent: goalId }, { $set: { parent: null } });
+      await this.releaseDependents(goal._id);
+      await Goal.updateMany({ blockedBy: goalId }, { $pull: { blockedBy: goal._id } });
+      if (goal.parent) await this.rollUp(goal.parent);
       logger.info(`Goal ${goalId} deleted for user ${userId}`);
     } else {
       logger.warn(`Failed to delete goal ${goalId} for user ${userId}`);
@@ -0,0 +1,296 @@
+// src/api/services/GoalTemplateService.ts
+import mongoose from "mongoose";
+import type { IGoal } from "../models/Goal";
+import Goal from "../models/Goal";
+import type { IGoalTemplate, ITemplateMilestone, ITemplateReminder } from "../models/GoalTemplate";
+import GoalTemplate from "../models/GoalTemplate";
+import type { IReminder } from "../models/Reminder";
+import { User } from "../models/User";
+import { CustomError } from "../middleware/errorHandler";
+import GoalManagementService from "./GoalManagementService";
+import { createReminder, deleteGoalReminders } from "./ReminderService";
+import { zonedTimeToUtc } from "../utils/recurrenceUtils";
+import { getLocalDayKey, resolveTimeZone, shiftDayKey } from "../utils/streakUtils";
+import { parseClockTime } from "../utils/timeOfDayUtils";
+import { escapeRegex } from "../utils/searchUtils";
+import { logger } from "../../utils/winstonLogger";
+
+export interface TemplateInput {
+  title: string;
+  description?: string;
+  category: string;
+  tags?: string[];
+  priority?: IGoalTemplate["priority"];
+  durationDays: number;
+  milestones?: ITemplateMilestone[];
+  reminders?: Partial<ITemplateReminder>[];
+  visibility?: IGoalTemplate["visibility"];
+  isOfficial?: boolean;
+}
+
+export interface TemplateListOptions {
+  category?: string;
+  q?: string;
+  official?: boolean;
+  mine?: boolean;
+  sort?: "popular" | "newest";
+  page?: number;
+  limit?: number;
+}
+
+export interface TemplateListResult {
+  templates: IGoalTemplate[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface InstantiateOptions {
+  startDate?: Date;
+  title?: string;
+}
+
+// Milestones and the due date fall at 23:59 on their local day
+const END_OF_DAY_MINUTE = 23 * 60 + 59;
+const DEFAULT_REMINDER_MINUTE = 9 * 60;
+
+/** A local day + wall-clock time in `timeZone` as a UTC instant */
+const localInstant = (dayKey: string, minuteOfDay: number, timeZone: string): Date => {
+  const [year, month, day] = dayKey.split("-").map((n) => parseInt(n, 10));
+  return zonedTimeToUtc(
+    { year, month, day, hour: Math.floor(minuteOfDay / 60), minute: minuteOfDay % 60, second: 0 },
+    timeZone
+  );
+};
+
+const endOfLocalDay = (dayKey: string, timeZone: string): Date =>
+  localInstant(dayKey, END_OF_DAY_MINUTE, timeZone);
+
+// Fields a client may set; authorship and usage stats are server-managed
+const EDITABLE_FIELDS = [
+  "title",
+  "description",
+  "category",
+  "tags",
+  "priority",
+  "durationDays",
+  "milestones",
+  "reminders",
+  "visibility",
+] as const;
+
+const pickEditable = (input: Partial<TemplateInput>): Partial<TemplateInput> => {
+  const picked: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (input[key] !== undefined) picked[key] = input[key];
+  }
+  return picked as Partial<TemplateInput>;
+};
+
+class GoalTemplateService {
+  /**
+   * Browse templates visible to a user (public ones plus their own),
+   * filtered by category and/or free text.
+   */
+  static async listTemplates(
+    userId: string,
+    opts: TemplateListOptions = {}
+  ): Promise<TemplateListResult> {
+    const page = Math.max(1, opts.page ?? 1);
+    const limit = Math.min(50, Math.max(1, opts.limit ?? 20));
+
+    const filter: Record<string, unknown> = opts.mine
+      ? { createdBy: userId }
+      : { $or: [{ visibility: "public" }, { createdBy: userId }] };
+    if (opts.category) {
+      filter.category = new RegExp(`^${escapeRegex(opts.category)}$`, "i");
+    }
+    if (opts.official !== undefined) filter.isOfficial = opts.official;
+    if (opts.q) filter.$text = { $search: opts.q };
+
+    const sort: Record<string, 1 | -1 | { $meta: "textScore" }> = opts.q
+      ? { score: { $meta: "textScore" }, usageCount: -1 }
+      : opts.sort === "newest"
+        ? { createdAt: -1 }
+        : { isOfficial: -1, usageCount: -1, createdAt: -1 };
+
+    const [templates, total] = await Promise.all([
+      GoalTemplate.find(filter, opts.q ? { score: { $meta: "textScore" } } : {})
+        .populate("createdBy", "username")
+        .sort(sort)
+        .skip((page - 1) * limit)
+        .limit(limit),
+      GoalTemplate.countDocuments(filter),
+    ]);
+
+    return { templates, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  /**
+   * Categories of public templates with how many templates each has.
+   */
+  static async listCategories(): Promise<{ category: string; count: number }[]> {
+    const rows = await GoalTemplate.aggregate<{ _id: string; count: number }>([
+      { $match: { visibility: "public" } },
+      { $group: { _id: "$category", count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+    ]);
+    return rows.map((r) => ({ category: r._id, count: r.count }));
+  }
+
+  /**
+   * Fetch one template the user may see.
+   */
+  static async getTemplate(templateId: string, userId: string): Promise<IGoalTemplate> {
+    if (!mongoose.Types.ObjectId.isValid(templateId)) {
+      throw new CustomError("Invalid template ID", 400);
+    }
+    const template = await GoalTemplate.findOne({
+      _id: templateId,
+      $or: [{ visibility: "public" }, { createdBy: userId }],
+    });
+    if (!template) {
+      throw new CustomError("Template not found", 404);
+    }
+    return template;
+  }
+
+  /**
+   * Publish a template. Only admins can mark templates as official.
+   */
+  static async createTemplate(
+    userId: string,
+    isAdmin: boolean,
+    input: TemplateInput
+  ): Promise<IGoalTemplate> {
+    const template = await GoalTemplate.create({
+      ...pickEditable(input),
+      createdBy: userId,
+      isOfficial: isAdmin && input.isOfficial !== false,
+    });
+    logger.info(`Goal template ${template._id} created by ${userId}`);
+    return template;
+  }
+
+  /**
+   * Update a template; owners and admins only.
+   */
+  static async updateTemplate(
+    templateId: string,
+    userId: string,
+    isAdmin: boolean,
+    input: Partial<TemplateInput>
+  ): Promise<IGoalTemplate> {
+    const template = await this.findEditable(templateId, userId, isAdmin);
+    template.set(pickEditable(input));
+    if (isAdmin && input.isOfficial !== undefined) template.isOfficial = input.isOfficial;
+    await template.save();
+    return template;
+  }
+
+  /**
+   * Delete a template; owners and admins only. Goals created from it are kept.
+   */
+  static async deleteTemplate(templateId: string, userId: string, isAdmin: boolean): Promise<void> {
+    const template = await this.findEditable(templateId, userId, isAdmin);
+    await template.deleteOne();
+    logger.info(`Goal template ${templateId} deleted by ${userId}`);
+  }
+
+  /**
+   * Create a goal from a template, anchored to `startDate` (default today)
+   * in the user's timezone: milestones and the due date land on the end of
+   * their offset day, reminders at their local time. Usage is counted once
+   * the goal exists.
+   */
+  static async instantiate(
+    templateId: string,
+    userId: string,
+    opts: InstantiateOptions = {}
+  ): Promise<{ goal: IGoal; reminders: IReminder[] }> {
+    const template = await this.getTemplate(templateId, userId);
+
+    const user = await User.findById(userId).select("location.timezone").lean();
+    if (!user) {
+      throw new CustomError("User not found", 404);
+    }
+    const timeZone = resolveTimeZone(user.location?.timezone);
+    const now = new Date();
+    const today = getLocalDayKey(now, timeZone);
+    const startDay = opts.startDate ? opts.startDate.toISOString().slice(0, 10) : today;
+    if (startDay < today) {
+      throw new CustomError("Start date cannot be in the past", 400);
+    }
+
+    const goal = await GoalManagementService.createGoal(userId, {
+      title: opts.title?.trim() || template.title,
+      description: template.description,
+      category: template.category,
+      deadline: endOfLocalDay(shiftDayKey(startDay, template.durationDays), timeZone),
+      milestones: template.milestones.map((m) => ({
+        title: m.title,
+        deadline: endOfLocalDay(shiftDayKey(startDay, m.offsetDays), timeZone),
+      })),
+      tags: template.tags,
+      priority: template.priority,
+      template: template._id.toString(),
+    });
+
+    const reminders: IReminder[] = [];
+    try {
+      for (const r of template.reminders) {
+        const minute = parseClockTime(r.time) ?? DEFAULT_REMINDER_MINUTE;
+        let day = shiftDayKey(startDay, r.offsetDays);
+        let remindAt = localInstant(day, minute, timeZone);
+        // A first reminder already past today moves to tomorrow
+        if (remindAt <= now) {
+          day = shiftDayKey(day, 1);
+          remindAt = localInstant(day, minute, timeZone);
+        }
+        reminders.push(
+          await createReminder(userId, {
+            message: r.message,
+            remindAt,
+            goalId: goal._id.toString(),
+            recurrence: r.recurrence,
+            interval: r.interval,
+            daysOfWeek: r.daysOfWeek,
+            reminderType: r.reminderType,
+            endRepeat: r.recurrence === "none" ? null : goal.dueDate,
+          })
+        );
+      }
+    } catch (err) {
+      await deleteGoalReminders(goal._id.toString());
+      await Goal.deleteOne({ _id: goal._id });
+      throw err;
+    }
+
+    await GoalTemplate.updateOne(
+      { _id: template._id },
+      { $inc: { usageCount: 1 }, $set: { lastUsedAt: now } }
+    );
+    logger.info(`Goal ${goal._id} created from template ${template._id} for user ${userId}`);
+    return { goal, reminders };
+  }
+
+  private static async findEditable(
+    templateId: string,
+    userId: string,
+    isAdmin: boolean
+  ): Promise<IGoalTemplate> {
+    if (!mongoose.Types.ObjectId.isValid(templateId)) {
+      throw new CustomError("Invalid template ID", 400);
+    }
+    const template = await GoalTemplate.findById(templateId);
+    if (!template) {
+      throw new CustomError("Template not found", 404);
+    }
+    if (!isAdmin && !template.createdBy.equals(userId)) {
+      throw new CustomError("Only the template's author can change it", 403);
+    }
+    return template;
+  }
+}
+
+export default GoalTemplateService;
@@ -5,6 +5,8 @@ import Group, { IGroup } from "../models/Group";
 import GroupMessage, { IGroupMessage } from "../models/GroupMessage";
 import Notification from "../models/Notification";
 import { logger } from "../../utils/winstonLogger";
+import BadgeRuleEngine from "./BadgeRuleEngine";
+import ModerationService from "./ModerationService";
 
 interface FormattedGroup {
   id: string;
@@ -414,7 +416,11 @@ class GroupService {
       throw new Error("Not authorized to view messages");
     }
 
-    const messages = await GroupMessage.find({ groupId: new mongoose.Types.ObjectId(groupId) })
+    const messages = await GroupMessage.find({
+      groupId: new mongoose.Types.ObjectId(groupId),
+      deletedAt: null,
+      ...ModerationService.visibleTo(userId, "senderId")
+    })
       .populate("senderId", "name profilePicture")
       .sort({ createdAt: -1 })
       .limit(50) // Default limit
@@ -430,7 +436,8 @@ class GroupService {
     groupId: string,
     userId: string,
     content: string,
-    io: Server
+    io: Server,
+    replyToId?: string
   ): Promise<IGroupMessage> {
     // Check if user is a member
     const group = await Group.findById(groupId);
@@ -441,12 +448,24 @@ class GroupService {
       throw new Error("Not authorized to send messages");
     }
 
+    // Replies must point at a live message in the same group
+    let repliedTo: IGroupMessage | null = null;
+    if (replyToId) {
+      repliedTo = await GroupMessage.findOne({ _id: replyToId, groupId, deletedAt: null });
+      if (!repliedTo) throw new Error("Message to reply to not found");
+    }
+
+    const verdict = await ModerationService.enforce("group_message", content.trim(), { userId });
     const message = await GroupMessage.create({
       groupId: new mongoose.Types.ObjectId(groupId),
       senderId: userObjectId,
-      content: content.trim(),
-      timestamp: new Date()
+      content: verdict.text,
+      timestamp: new Date(),
+      replyTo: repliedTo?._id,
+      replyToSender: repliedTo?.senderId,
+      isHidden: verdict.hidden
     });
+    await ModerationService.track(verdict, { contentId: message._id, authorId: userId });
 
     await message.populate("senderId", "name profilePicture");
 
@@ -454,16 +473,20 @@ class GroupService {
     group.lastActivity = new Date();
     await group.save();
 
-    // Emit to group room
-    io.in(groupId).emit("newGroupMessage", {
-      id: message._id.toString(),
-      senderId: userId,
-      senderName: (message.senderId as any).name,
-      content: message.content,
-      timestamp: message.timestamp.toISOString(),
-      type: "message"
-    });
+    // Emit to group room; a shadow-hidden message only reaches its sender
+    if (!message.isHidden) {
+      io.in(groupId).emit("newGroupMessage", {
+        id: message._id.toString(),
+        senderId: userId,
+        senderName: (message.senderId as any).name,
+        content: message.content,
+        timestamp: message.timestamp.toISOString(),
+        type: "message",
+        replyTo: repliedTo?._id.toString()
+      });
+    }
 
+    await BadgeRuleEngine.track("message_sent", userId);
     logger.info(`Message sent to group ${groupId} by ${userId}`);
 
     return message;
@@ -0,0 +1,178 @@
+// src/api/services/HabitService.ts
+import mongoose, { Types } from "mongoose";
+import Goal, { IGoal } from "../models/Goal";
+import HabitLog, { IHabitLog } from "../models/HabitLog";
+import { User } from "../models/User";
+import { CustomError } from "../middleware/errorHandler";
+import WebhookService from "./WebhookService";
+import type { HabitPeriodResult, HabitStats } from "../utils/habitUtils";
+import { computeHabitStats, habitPeriodForDay } from "../utils/habitUtils";
+import { getLocalDayKey, resolveTimeZone } from "../utils/streakUtils";
+import { logger } from "../../utils/winstonLogger";
+
+export interface HabitLogResult {
+  log: IHabitLog;
+  period: HabitPeriodResult;
+  stats: HabitStats;
+}
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Habit goals ("meditate 5x per week"): completion logs per local day,
+ * scored per daily/weekly/monthly period with streaks and completion rates.
+ */
+class HabitService {
+  /**
+   * Record completions of a habit for a local day (default: today in the
+   * user's timezone) and refresh the goal's progress for the period.
+   */
+  static async logCompletion(
+    userId: string,
+    goalId: string,
+    input: { day?: string; count?: number; note?: string } = {}
+  ): Promise<HabitLogResult> {
+    const goal = await this.findHabit(userId, goalId);
+    const timeZone = await this.userTimeZone(userId);
+    const today = getLocalDayKey(new Date(), timeZone);
+
+    const day = input.day ?? today;
+    if (!DAY_KEY.test(day)) throw new CustomError("Day must be formatted YYYY-MM-DD", 400);
+    if (day > today) throw new CustomError("Cannot log a habit for a future day", 400);
+    if (day < goal.habit!.startDay) throw new CustomError("Day is before the habit started", 400);
+
+    const log = await HabitLog.create({
+      goal: goal._id,
+      user: userId,
+      day,
+      count: input.count ?? 1,
+      note: input.note,
+    });
+
+    const stats = await this.statsFor(goal, today);
+    await this.syncProgress(goal, stats);
+    logger.info(`User ${userId} logged habit ${goalId} for ${day}`);
+    await WebhookService.emit(userId, "checkin.created", {
+      source: "habit",
+      checkInId: log._id.toString(),
+      goalId: goal._id.toString(),
+      day,
+      count: log.count,
+    });
+
+    const period = stats.history.find((p) => p.period === habitPeriodForDay(goal.habit!.frequency, day).key);
+    return { log, period: period ?? stats.current, stats };
+  }
+
+  /** Remove a logged completion, e.g. one recorded by mistake */
+  static async deleteLog(userId: string, goalId: string, logId: string): Promise<HabitStats> {
+    if (!Types.ObjectId.isValid(logId)) throw new CustomError("Invalid log ID", 400);
+    const goal = await this.findHabit(userId, goalId);
+
+    const { deletedCount } = await HabitLog.deleteOne({ _id: logId, goal: goal._id, user: userId });
+    if (!deletedCount) throw new CustomError("Habit log not found", 404);
+
+    const today = getLocalDayKey(new Date(), await this.userTimeZone(userId));
+    const stats = await this.statsFor(goal, today);
+    await this.syncProgress(goal, stats);
+    return stats;
+  }
+
+  /** Streaks, completion rate and per-period history of a habit */
+  static async getStats(userId: string, goalId: string, historyLimit = 30): Promise<HabitStats> {
+    const goal = await this.findHabit(userId, goalId);
+    const today = getLocalDayKey(new Date(), await this.userTimeZone(userId));
+    return this.statsFor(goal, today, historyLimit);
+  }
+
+  /** Raw logs of a habit between two local days (inclusive), newest first */
+  static async listLogs(userId: string, goalId: string, from?: string, to?: string): Promise<IHabitLog[]> {
+    const goal = await this.findHabit(userId, goalId);
+    const day: Record<string, string> = {};
+    if (from) day.$gte = from;
+    if (to) day.$lte = to;
+    return HabitLog.find({ goal: goal._id, ...(from || to ? { day } : {}) })
+      .sort({ day: -1, createdAt: -1 })
+      .limit(500)
+      .exec();
+  }
+
+  /** Completions per local day for a user's habits, e.g. for calendars */
+  static async countsByDay(
+    userId: string,
+    from?: string,
+    to?: string
+  ): Promise<{ goal: Types.ObjectId; day: string; count: number }[]> {
+    const day: Record<string, string> = {};
+    if (from) day.$gte = from;
+    if (to) day.$lte = to;
+    const rows = await HabitLog.aggregate<{ _id: { goal: Types.ObjectId; day: string }; count: number }>([
+      { $match: { user: new mongoose.Types.ObjectId(userId), ...(from || to ? { day } : {}) } },
+      { $group: { _id: { goal: "$goal", day: "$day" }, count: { $sum: "$count" } } },
+      { $sort: { "_id.day": 1 } },
+    ]);
+    return rows.map((r) => ({ goal: r._id.goal, day: r._id.day, count: r.count }));
+  }
+
+  /**
+   * Whether the habit behind a goal has already met its target for the
+   * period containing `at` in `timeZone`. False for non-habit goals.
+   */
+  static async isPeriodComplete(goalId: Types.ObjectId | string, timeZone: string, at = new Date()): Promise<boolean> {
+    const goal = await Goal.findById(goalId).select("type habit").lean();
+    if (!goal || goal.type !== "habit" || !goal.habit) return false;
+
+    const period = habitPeriodForDay(goal.habit.frequency, getLocalDayKey(at, resolveTimeZone(timeZone)));
+    const [row] = await HabitLog.aggregate<{ total: number }>([
+      { $match: { goal: goal._id, day: { $gte: period.startDay, $lt: period.endDay } } },
+      { $group: { _id: null, total: { $sum: "$count" } } },
+    ]);
+    return (row?.total ?? 0) >= goal.habit.target;
+  }
+
+  private static async findHabit(userId: string, goalId: string): Promise<IGoal> {
+    if (!Types.ObjectId.isValid(goalId) || !Types.ObjectId.isValid(userId)) {
+      throw new CustomError("Invalid goal or user ID", 400);
+    }
+    const goal = await Goal.findById(goalId);
+    if (!goal) throw new CustomError("Goal not found", 404);
+    if (goal.user.toString() !== userId) {
+      throw new CustomError("Not authorized to access this goal", 403);
+    }
+    if (goal.type !== "habit" || !goal.habit) {
+      throw new CustomError("Goal is not a habit", 400);
+    }
+    return goal;
+  }
+
+  private static async userTimeZone(userId: string): Promise<string> {
+    const user = await User.findById(userId).select("location.timezone").lean();
+    return resolveTimeZone(user?.location?.timezone);
+  }
+
+  private static async statsFor(goal: IGoal, today: string, historyLimit?: number): Promise<HabitStats> {
+    const rows = await HabitLog.aggregate<{ _id: string; count: number }>([
+      { $match: { goal: goal._id } },
+      { $group: { _id: "$day", count: { $sum: "$count" } } },
+    ]);
+    const countsByDay = new Map(rows.map((r) => [r._id, r.count]));
+    return computeHabitStats(
+      goal.habit!.frequency,
+      goal.habit!.target,
+      countsByDay,
+      goal.habit!.startDay,
+      today,
+      historyLimit
+    );
+  }
+
+  /** Goal progress mirrors how far along the current period is */
+  private static async syncProgress(goal: IGoal, stats: HabitStats): Promise<void> {
+    const progress = Math.round((stats.current?.rate ?? 0) * 100);
+    const update: Record<string, unknown> = { progress };
+    if (goal.status === "not-started") update.status = "in-progress";
+    await Goal.updateOne({ _id: goal._id }, { $set: update });
+  }
+}
+
+export default HabitService;
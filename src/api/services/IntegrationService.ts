@@ -1,11 +1,33 @@
 // src/api/services/integrationService.ts
 import { createError } from "../middleware/errorHandler";
 import Integration, { IIntegration, IntegrationSettings } from "../models/Integration";
+import WebhookService from "./WebhookService";
+import { WEBHOOK_EVENTS, generateWebhookSecret, webhookUrlError } from "../utils/webhookUtils";
 import { logger } from "../../utils/winstonLogger";
 
+/**
+ * Webhook settings must name a usable URL and at least one known event.
+ * Returns the settings with the event list de-duplicated.
+ */
+const validateWebhookSettings = (settings: IntegrationSettings): IntegrationSettings => {
+  const urlError = typeof settings?.url === "string" ? webhookUrlError(settings.url) : "Webhook URL is required";
+  if (urlError) throw createError(urlError, 400);
+
+  const events = settings.events;
+  if (!Array.isArray(events) || !events.length) {
+    throw createError("Subscribe the webhook to at least one event", 400);
+  }
+  const unknown = events.filter((e) => !(WEBHOOK_EVENTS as readonly unknown[]).includes(e));
+  if (unknown.length) {
+    throw createError(`Unknown webhook events: ${unknown.join(", ")}`, 400);
+  }
+  return { ...settings, events: [...new Set(events)] };
+};
+
 class IntegrationService {
   /**
-   * Create a new integration for a user
+   * Create a new integration for a user. Webhooks get a signing secret,
+   * which is only included in this response.
    */
   static async create(
     userId: string,
@@ -17,6 +39,10 @@ class IntegrationService {
     }
 
     const newIntegration = new Integration({ user: userId, type, settings });
+    if (type === "webhook") {
+      newIntegration.settings = validateWebhookSettings(settings);
+      newIntegration.signingSecret = generateWebhookSecret();
+    }
     await newIntegration.save();
 
     logger.info(`Integration created: ${newIntegration._id} for user ${userId}`, {
@@ -52,7 +78,7 @@ class IntegrationService {
       throw createError("Integration not found or access denied", 404);
     }
 
-    integration.settings = settings;
+    integration.settings = integration.type === "webhook" ? validateWebhookSettings(settings) : settings;
     await integration.save();
 
     logger.info(`Integration ${integrationId} updated for user ${userId}`);
@@ -76,14 +102,37 @@ class IntegrationService {
   }
 
   /**
-   * Validate (test) an integration belongs to the user.
+   * Switch an integration back on, e.g. a webhook disabled after repeated
+   * failed deliveries, and reset its failure count.
+   */
+  static async enable(integrationId: string, userId: string): Promise<IIntegration> {
+    const integration = await this.getById(integrationId, userId);
+    integration.isActive = true;
+    integration.failureCount = 0;
+    integration.disabledAt = null;
+    integration.disabledReason = null;
+    await integration.save();
+
+    logger.info(`Integration ${integrationId} enabled for user ${userId}`);
+    return integration;
+  }
+
+  /**
+   * Validate (test) an integration belongs to the user. Webhooks are sent
+   * a signed "ping" event.
    */
   static async test(
     integrationId: string,
     userId: string
   ): Promise<void> {
     // ensure it exists & belongs to them
-    await this.getById(integrationId, userId);
+    const integration = await this.getById(integrationId, userId);
+
+    if (integration.type === "webhook") {
+      await WebhookService.sendTest(integration);
+      logger.info(`Integration ${integrationId} test passed for user ${userId}`);
+      return;
+    }
 
     try {
       // TODO: replace with real validation logic per integration.type
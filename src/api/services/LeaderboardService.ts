@@ -1,7 +1,22 @@
 // src/api/services/LeaderboardService.ts - FIXED: Conditional Redis usage
 import Leaderboard from "../models/Leaderboard";
 import Goal from "../models/Goal";
-import { SortOrder } from "mongoose";
+import Streak from "../models/Streak";
+import PointsLedger from "../models/PointsLedger";
+import { OPENING_BALANCE_REASON } from "./PointsLedgerService";
+import LeaderboardArchive from "../models/LeaderboardArchive";
+import type { ILeaderboardArchive } from "../models/LeaderboardArchive";
+import { User } from "../models/User";
+import Group from "../models/Group";
+import Challenge from "../models/Challenge";
+import type { SortOrder } from "mongoose";
+import { Types } from "mongoose";
+import { createError } from "../middleware/errorHandler";
+import { escapeRegex } from "../utils/searchUtils";
+import type { RankedMember } from "../utils/rankingStore";
+import { FallbackRankingStore } from "../utils/rankingStore";
+import type { Season, SeasonPeriod } from "../utils/seasonUtils";
+import { SEASONS, getPreviousPeriod, getSeasonPeriod } from "../utils/seasonUtils";
 import { logger } from "../../utils/winstonLogger";
 
 // Check if Redis is disabled
@@ -128,6 +143,105 @@ export interface PageResult<T> {
   pagination: { totalEntries: number; currentPage: number; totalPages: number };
 }
 
+// --- Scoped & seasonal boards ---
+export const LEADERBOARD_SCOPES = ["global", "friends", "group", "challenge", "category"] as const;
+export type LeaderboardScope = (typeof LEADERBOARD_SCOPES)[number];
+
+export interface BoardQuery {
+  scope: LeaderboardScope;
+  season: Season;
+  viewerId: string;
+  id?: string;                 // group or challenge id
+  category?: string;           // goal category for the category scope
+  page: number;
+  limit: number;
+}
+
+export interface BoardEntry {
+  rank: number;
+  score: number;
+  user: { _id: string; username: string; profilePicture: string } | null;
+}
+
+export interface BoardResult {
+  scope: LeaderboardScope;
+  board: string;               // "xp", "category:<name>" or "challenge:<id>"
+  period: SeasonPeriod | null; // null for challenge boards, which follow the challenge
+  entries: BoardEntry[];
+  me: { rank: number; score: number } | null;
+  pagination: PageResult<unknown>["pagination"];
+}
+
+export type ArchivedSeason = Exclude<Season, "alltime">;
+
+// Boards are rebuilt from MongoDB at least daily, which also heals any
+// increments lost to a race with a rebuild
+const BOARD_TTL = 24 * 60 * 60;
+const ARCHIVE_SIZE = 100;
+
+// Ranking boards share Redis with the page cache, so keep them out of
+// the "leaderboard:*" namespace that resets wipe
+const rankings = new FallbackRankingStore(redis);
+
+const normalizeCategory = (category: string): string => category.trim().toLowerCase();
+
+const boardKey = (board: string, period: SeasonPeriod): string =>
+  `ranking:${board}:${period.season}:${period.key}`;
+
+/** createdAt/completedAt bounds for a season period */
+const windowMatch = (period: SeasonPeriod): Record<string, Date> | null =>
+  period.startsAt ? { $gte: period.startsAt, $lt: period.endsAt } : null;
+
+/** XP earned per user in the period. Opening balances only count all-time. */
+const xpScores = async (period: SeasonPeriod): Promise<RankedMember[]> => {
+  const window = windowMatch(period);
+  const rows = await PointsLedger.aggregate<{ _id: Types.ObjectId; score: number }>([
+    {
+      $match: {
+        xp: { $gt: 0 },
+        ...(window ? { createdAt: window, reason: { $ne: OPENING_BALANCE_REASON } } : {}),
+      },
+    },
+    { $group: { _id: "$user", score: { $sum: "$xp" } } },
+  ]);
+  return rows.map((r) => ({ member: r._id.toString(), score: r.score }));
+};
+
+/** Goals completed per user in a category during the period */
+const categoryScores = async (category: string, period: SeasonPeriod): Promise<RankedMember[]> => {
+  const window = windowMatch(period);
+  const rows = await Goal.aggregate<{ _id: Types.ObjectId; score: number }>([
+    {
+      $match: {
+        status: "completed",
+        category: new RegExp(`^${escapeRegex(category)}$`, "i"),
+        ...(window ? { completedAt: window } : {}),
+      },
+    },
+    { $group: { _id: "$user", score: { $sum: 1 } } },
+  ]);
+  return rows.map((r) => ({ member: r._id.toString(), score: r.score }));
+};
+
+const boardScores = (board: string, period: SeasonPeriod): Promise<RankedMember[]> =>
+  board === "xp" ? xpScores(period) : categoryScores(board.slice("category:".length), period);
+
+/** Best first; ties share a rank (1, 2, 2, 4) */
+const rankMembers = (members: RankedMember[]): (RankedMember & { rank: number })[] => {
+  const sorted = [...members].sort((a, b) => b.score - a.score || a.member.localeCompare(b.member));
+  let rank = 0;
+  return sorted.map((m, i) => {
+    if (i === 0 || sorted[i - 1].score !== m.score) rank = i + 1;
+    return { ...m, rank };
+  });
+};
+
+const toPagination = (total: number, page: number, limit: number): PageResult<unknown>["pagination"] => ({
+  totalEntries: total,
+  currentPage: page,
+  totalPages: Math.ceil(total / limit),
+});
+
 export default class LeaderboardService {
   static async fetchPage(limit: number, page: number): Promise<PageResult<any>> {
     const cacheKey = `leaderboard:${page}:${limit}`;
@@ -138,11 +252,7 @@ export default class LeaderboardService {
       const cached = await cacheGet(cacheKey);
       if (cached) {
         logger.info(`Leaderboard cache hit ${cacheKey}`);
-        const data = JSON.parse(cached);
-        return {
-          data,
-          pagination: { totalEntries: 0, currentPage: page, totalPages: 0 },
-        };
+        return JSON.parse(cached) as PageResult<any>;
       }
 
       // Query database
@@ -156,15 +266,16 @@ export default class LeaderboardService {
       ]);
 
       const totalPages = Math.ceil(totalEntries / limit);
-
-      // Cache the results
-      await cacheSet(cacheKey, JSON.stringify(entries), ttl);
-
-      logger.info(`Leaderboard cache set ${cacheKey}`);
-      return {
+      const result: PageResult<any> = {
         data: entries,
         pagination: { totalEntries, currentPage: page, totalPages },
       };
+
+      // Cache the results together with their pagination
+      await cacheSet(cacheKey, JSON.stringify(result), ttl);
+
+      logger.info(`Leaderboard cache set ${cacheKey}`);
+      return result;
     } catch (error) {
       logger.error(`Leaderboard fetchPage error: ${(error as Error).message}`);
       throw error;
@@ -173,14 +284,23 @@ export default class LeaderboardService {
 
   static async getUserPosition(userId: string): Promise<{ position: number; entry: any }> {
     try {
-      const entries: any[] = await Leaderboard.find()
-        .sort(SORT_CRITERIA)
-        .populate("user", "username profilePicture");
-
-      const idx = entries.findIndex((e) => e.user._id.toString() === userId);
-      if (idx === -1) throw new Error("User not on leaderboard");
-
-      return { position: idx + 1, entry: entries[idx] };
+      const entry = await Leaderboard.findOne({ user: userId }).populate(
+        "user",
+        "username profilePicture"
+      );
+      if (!entry) throw createError("User not on leaderboard", 404);
+
+      // Rank = entries strictly ahead under SORT_CRITERIA, plus one
+      const { completedGoals, completedMilestones, totalPoints } = entry;
+      const ahead = await Leaderboard.countDocuments({
+        $or: [
+          { completedGoals: { $gt: completedGoals } },
+          { completedGoals, completedMilestones: { $gt: completedMilestones } },
+          { completedGoals, completedMilestones, totalPoints: { $gt: totalPoints } },
+        ],
+      });
+
+      return { position: ahead + 1, entry };
     } catch (error) {
       logger.error(`getUserPosition error: ${(error as Error).message}`);
       throw error;
@@ -214,10 +334,12 @@ export default class LeaderboardService {
         0
       );
       const totalPoints = goals.reduce((sum, g) => sum + (g.points || 0), 0);
+      const streak = await Streak.findOne({ user: userId }).select("streakCount").lean();
+      const streakDays = streak?.streakCount ?? 0;
 
       await Leaderboard.findOneAndUpdate(
         { user: userId },
-        { completedGoals, completedMilestones, totalPoints },
+        { completedGoals, completedMilestones, totalPoints, streakDays },
         { upsert: true, new: true }
       );
 
@@ -233,4 +355,246 @@ export default class LeaderboardService {
       throw error;
     }
   }
+
+  /**
+   * Add freshly earned XP to the current weekly, monthly and all-time XP
+   * boards. Boards that aren't built yet pick it up when rebuilt.
+   */
+  static async recordXp(userId: string, xp: number, at = new Date()): Promise<void> {
+    if (xp <= 0) return;
+    try {
+      for (const season of SEASONS) {
+        await rankings.incrBy(boardKey("xp", getSeasonPeriod(season, at)), userId, xp);
+      }
+    } catch (error) {
+      logger.warn(`recordXp failed for ${userId}: ${(error as Error).message}`);
+    }
+  }
+
+  /** Count a completed goal on its category's current boards */
+  static async recordGoalCompleted(userId: string, category: string, at = new Date()): Promise<void> {
+    if (!category?.trim()) return;
+    try {
+      const board = `category:${normalizeCategory(category)}`;
+      for (const season of SEASONS) {
+        await rankings.incrBy(boardKey(board, getSeasonPeriod(season, at)), userId, 1);
+      }
+    } catch (error) {
+      logger.warn(`recordGoalCompleted failed for ${userId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * One page of a scoped board for the current season, plus the viewer's
+   * own standing. Friends and group boards rank their members on the XP
+   * board; challenge boards rank participants by challenge progress.
+   */
+  static async getBoard(query: BoardQuery): Promise<BoardResult> {
+    const { scope, season, viewerId, page, limit } = query;
+
+    if (scope === "challenge") return this.getChallengeBoard(query);
+
+    const period = getSeasonPeriod(season);
+    let board = "xp";
+    if (scope === "category") {
+      if (!query.category?.trim()) throw createError("Category is required", 400);
+      board = `category:${normalizeCategory(query.category)}`;
+    }
+    const key = await this.ensureBoard(board, period);
+
+    if (scope === "global" || scope === "category") {
+      const offset = (page - 1) * limit;
+      const [top, total, me] = await Promise.all([
+        rankings.top(key, offset, limit),
+        rankings.size(key),
+        rankings.rankOf(key, viewerId),
+      ]);
+      // Competition ranks: the first row's rank comes from the store,
+      // later rows only move on when the score changes
+      const first = top.length ? await rankings.rankOf(key, top[0].member) : null;
+      let rank = first?.rank ?? offset + 1;
+      const ranked = top.map((m, i) => {
+        if (i > 0 && top[i - 1].score !== m.score) rank = offset + i + 1;
+        return { ...m, rank };
+      });
+      return {
+        scope,
+        board,
+        period,
+        entries: await this.withUsers(ranked),
+        me,
+        pagination: toPagination(total, page, limit),
+      };
+    }
+
+    const members = scope === "friends"
+      ? await this.friendIds(viewerId)
+      : await this.groupMemberIds(query.id, viewerId);
+    const scores = await rankings.scoresOf(key, members);
+    const ranked = rankMembers(members.map((member, i) => ({ member, score: scores[i] ?? 0 })));
+    const me = ranked.find((m) => m.member === viewerId);
+
+    return {
+      scope,
+      board,
+      period,
+      entries: await this.withUsers(ranked.slice((page - 1) * limit, page * limit)),
+      me: me ? { rank: me.rank, score: me.score } : null,
+      pagination: toPagination(ranked.length, page, limit),
+    };
+  }
+
+  /**
+   * Store the final standings of a finished weekly or monthly period for
+   * the XP board and every category that saw a completed goal, then drop
+   * the period's live boards. Already archived boards are left alone.
+   */
+  static async archiveSeason(season: ArchivedSeason, period: SeasonPeriod): Promise<number> {
+    const categories: string[] = await Goal.distinct("category", {
+      status: "completed",
+      completedAt: windowMatch(period),
+    });
+    const boards = [
+      "xp",
+      ...new Set(categories.filter((c) => c?.trim()).map((c) => `category:${normalizeCategory(c)}`)),
+    ];
+
+    let archived = 0;
+    for (const board of boards) {
+      if (await LeaderboardArchive.exists({ board, season, period: period.key })) continue;
+
+      const ranked = rankMembers(await boardScores(board, period));
+      try {
+        await LeaderboardArchive.create({
+          board,
+          season,
+          period: period.key,
+          startsAt: period.startsAt,
+          endsAt: period.endsAt,
+          standings: ranked.slice(0, ARCHIVE_SIZE).map((m) => ({
+            user: new Types.ObjectId(m.member),
+            score: m.score,
+            rank: m.rank,
+          })),
+          participants: ranked.length,
+        });
+        archived++;
+      } catch (error) {
+        // Another instance archived it first
+        if ((error as { code?: number }).code !== 11000) throw error;
+      }
+    }
+
+    await rankings.remove(boards.map((b) => boardKey(b, period)));
+    logger.info(`Archived ${archived} ${season} leaderboards for ${period.key}`);
+    return archived;
+  }
+
+  /** Archive the previous weekly and monthly periods if not done yet */
+  static async archiveEndedSeasons(now = new Date()): Promise<number> {
+    let archived = 0;
+    for (const season of ["weekly", "monthly"] as ArchivedSeason[]) {
+      archived += await this.archiveSeason(season, getPreviousPeriod(season, now));
+    }
+    return archived;
+  }
+
+  /** Archived standings, newest first */
+  static async getArchive(
+    filters: { season?: ArchivedSeason; board?: string },
+    page: number,
+    limit: number
+  ): Promise<PageResult<ILeaderboardArchive>> {
+    const query: Record<string, unknown> = {};
+    if (filters.season) query.season = filters.season;
+    if (filters.board) query.board = filters.board.trim().toLowerCase();
+
+    const [data, total] = await Promise.all([
+      LeaderboardArchive.find(query)
+        .sort({ endsAt: -1, board: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("standings.user", "username profilePicture"),
+      LeaderboardArchive.countDocuments(query),
+    ]);
+    return { data, pagination: toPagination(total, page, limit) };
+  }
+
+  /** Rebuild a board from MongoDB when the store doesn't have it */
+  private static async ensureBoard(board: string, period: SeasonPeriod): Promise<string> {
+    const key = boardKey(board, period);
+    if (!(await rankings.isBuilt(key))) {
+      const ttl = period.endsAt
+        ? Math.min(BOARD_TTL, Math.ceil((period.endsAt.getTime() - Date.now()) / 1000) + 60)
+        : BOARD_TTL;
+      await rankings.replace(key, await boardScores(board, period), ttl);
+      logger.info(`Leaderboard board rebuilt ${key}`);
+    }
+    return key;
+  }
+
+  private static async getChallengeBoard(query: BoardQuery): Promise<BoardResult> {
+    const { viewerId, page, limit } = query;
+    if (!query.id || !Types.ObjectId.isValid(query.id)) throw createError("Invalid challenge ID", 400);
+
+    const challenge = await Challenge.findById(query.id).select("creator visibility participants").lean();
+    if (!challenge) throw createError("Challenge not found", 404);
+    const joined = challenge.participants.some((p) => p.user.toString() === viewerId);
+    if (challenge.visibility === "private" && !joined && challenge.creator.toString() !== viewerId) {
+      throw createError("Not authorized to view this challenge leaderboard", 403);
+    }
+
+    // Earlier joiners win ties, then ranks follow progress
+    const participants = [...challenge.participants].sort(
+      (a, b) => b.progress - a.progress || new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime()
+    );
+    let rank = 0;
+    const ranked = participants.map((p, i) => {
+      if (i === 0 || participants[i - 1].progress !== p.progress) rank = i + 1;
+      return { member: p.user.toString(), score: p.progress, rank };
+    });
+    const me = ranked.find((m) => m.member === viewerId);
+
+    return {
+      scope: "challenge",
+      board: `challenge:${query.id}`,
+      period: null,
+      entries: await this.withUsers(ranked.slice((page - 1) * limit, page * limit)),
+      me: me ? { rank: me.rank, score: me.score } : null,
+      pagination: toPagination(ranked.length, page, limit),
+    };
+  }
+
+  private static async friendIds(viewerId: string): Promise<string[]> {
+    const viewer = await User.findById(viewerId).select("friends").lean();
+    if (!viewer) throw createError("User not found", 404);
+    return [viewerId, ...(viewer.friends ?? []).map((f) => f.toString())];
+  }
+
+  private static async groupMemberIds(groupId: string | undefined, viewerId: string): Promise<string[]> {
+    if (!groupId || !Types.ObjectId.isValid(groupId)) throw createError("Invalid group ID", 400);
+    const group = await Group.findById(groupId).select("members visibility").lean();
+    if (!group) throw createError("Group not found", 404);
+    const members = group.members.map((m) => m.toString());
+    if (group.visibility === "private" && !members.includes(viewerId)) {
+      throw createError("Not authorized to view this group leaderboard", 403);
+    }
+    return members;
+  }
+
+  private static async withUsers(ranked: (RankedMember & { rank: number })[]): Promise<BoardEntry[]> {
+    const users = await User.find({ _id: { $in: ranked.map((m) => m.member) } })
+      .select("username profileImage")
+      .lean();
+    const byId = new Map(users.map((u) => [u._id.toString(), u]));
+    return ranked.map((m) => {
+      const user = byId.get(m.member);
+      const profile = user && {
+        _id: m.member,
+        username: user.username,
+        profilePicture: user.profileImage || "/default-avatar.png",
+      };
+      return { rank: m.rank, score: m.score, user: profile ?? null };
+    });
+  }
 }
@@ -1,7 +1,17 @@
 // src/api/services/MatchService.ts
 import { Types } from "mongoose";
+import type { FilterQuery } from "mongoose";
 import { Match, IMatch } from "../models/Match";
+import AccountabilityPartnership from "../models/AccountabilityPartnership";
+import { Goal } from "../models/Goal";
+import { Streak } from "../models/Streak";
+import { User } from "../models/User";
 import { CustomError } from "../middleware/errorHandler";
+import NotificationDispatcher from "./NotificationDispatcher";
+import type { CompatibilityScore, MatchProfile } from "../utils/matchingUtils";
+import { scoreCompatibility } from "../utils/matchingUtils";
+import { resolveTimeZone } from "../utils/streakUtils";
+import { logger } from "../../utils/winstonLogger";
 
 export interface PaginationResult<T> {
   items: T[];
@@ -11,6 +21,30 @@ export interface PaginationResult<T> {
   totalPages: number;
 }
 
+export interface PartnerSuggestion {
+  user: {
+    _id: Types.ObjectId;
+    username: string;
+    profilePicture?: string;
+  };
+  score: number;
+  breakdown: CompatibilityScore["factors"];
+  reasons: string[];
+}
+
+// Candidates scored per suggestion request
+const CANDIDATE_POOL_SIZE = 200;
+// Factors scoring at least this much are surfaced as reasons
+const REASON_THRESHOLD = 0.5;
+// Statuses a participant may set directly; "active" needs both to opt in
+export const MANUAL_STATUSES: IMatch["status"][] = ["rejected", "completed"];
+
+/** A match only its two users can see or change */
+const participantFilter = (matchId: string, userId: string): FilterQuery<IMatch> => ({
+  _id: matchId,
+  $or: [{ user1: userId }, { user2: userId }],
+});
+
 class MatchService {
   /**
    * Create a new match between two users.
@@ -76,13 +110,13 @@ class MatchService {
   }
 
   /**
-   * Fetch a single match by its ID.
+   * Fetch a single match the user takes part in.
    */
-  static async getMatchById(matchId: string): Promise<IMatch> {
+  static async getMatchById(matchId: string, userId: string): Promise<IMatch> {
     if (!Types.ObjectId.isValid(matchId)) {
       throw new CustomError("Invalid match ID", 400);
     }
-    const match = await Match.findById(matchId).populate(
+    const match = await Match.findOne(participantFilter(matchId, userId)).populate(
       "user1 user2",
       "username profilePicture"
     );
@@ -93,21 +127,22 @@ class MatchService {
   }
 
   /**
-   * Update only the status of a match.
+   * Update only the status of a match the user takes part in. Activation
+   * is left to the mutual opt-in (acceptMatch).
    */
   static async updateMatchStatus(
     matchId: string,
+    userId: string,
     status: string
   ): Promise<IMatch> {
-    const validStatuses = ["pending", "active", "rejected", "completed"];
-    if (!validStatuses.includes(status)) {
+    if (!MANUAL_STATUSES.includes(status as IMatch["status"])) {
       throw new CustomError("Invalid match status", 400);
     }
     if (!Types.ObjectId.isValid(matchId)) {
       throw new CustomError("Invalid match ID", 400);
     }
-    const match = await Match.findByIdAndUpdate(
-      matchId,
+    const match = await Match.findOneAndUpdate(
+      participantFilter(matchId, userId),
       { status },
       { new: true }
     );
@@ -118,17 +153,307 @@ class MatchService {
   }
 
   /**
-   * Delete a match by its ID.
+   * Delete a match the user takes part in.
    */
-  static async deleteMatch(matchId: string): Promise<void> {
+  static async deleteMatch(matchId: string, userId: string): Promise<void> {
     if (!Types.ObjectId.isValid(matchId)) {
       throw new CustomError("Invalid match ID", 400);
     }
-    const result = await Match.findByIdAndDelete(matchId);
+    const result = await Match.findOneAndDelete(participantFilter(matchId, userId));
     if (!result) {
       throw new CustomError("Match not found", 404);
     }
   }
+
+  /**
+   * Build matching profiles (interests, goal categories, timezone, tier, activity)
+   * for a set of users.
+   */
+  private static async loadProfiles(
+    userIds: Types.ObjectId[]
+  ): Promise<Map<string, MatchProfile>> {
+    const [users, goals, streaks] = await Promise.all([
+      User.find({ _id: { $in: userIds } })
+        .select("interests location.timezone subscriptionTier")
+        .lean(),
+      Goal.aggregate<{ _id: Types.ObjectId; categories: string[] }>([
+        { $match: { user: { $in: userIds }, status: { $ne: "archived" } } },
+        { $group: { _id: "$user", categories: { $addToSet: "$category" } } },
+      ]),
+      Streak.find({ user: { $in: userIds } })
+        .select("user streakCount lastCheckIn timezone")
+        .lean(),
+    ]);
+
+    const categoriesByUser = new Map(goals.map((g) => [g._id.toString(), g.categories]));
+    const streakByUser = new Map(streaks.map((s) => [s.user.toString(), s]));
+
+    const profiles = new Map<string, MatchProfile>();
+    for (const u of users) {
+      const id = u._id.toString();
+      const streak = streakByUser.get(id);
+      profiles.set(id, {
+        interests: u.interests ?? [],
+        goalCategories: categoriesByUser.get(id) ?? [],
+        timezone: resolveTimeZone(u.location?.timezone ?? streak?.timezone),
+        tier: u.subscriptionTier,
+        lastCheckIn: streak?.lastCheckIn ?? null,
+        streakCount: streak?.streakCount ?? 0,
+      });
+    }
+    return profiles;
+  }
+
+  /** Compatibility of two users, or null when either profile is missing */
+  private static async scorePair(
+    userId: string,
+    partnerId: string
+  ): Promise<CompatibilityScore | null> {
+    const profiles = await this.loadProfiles([
+      new Types.ObjectId(userId),
+      new Types.ObjectId(partnerId),
+    ]);
+    const mine = profiles.get(userId);
+    const theirs = profiles.get(partnerId);
+    return mine && theirs ? scoreCompatibility(mine, theirs) : null;
+  }
+
+  /**
+   * Ranked accountability partner suggestions for a user. Users already
+   * matched or partnered with them are excluded; each suggestion carries a
+   * per-factor breakdown and the reasons it scored well.
+   */
+  static async getSuggestedPartners(
+    userId: string,
+    limit = 10
+  ): Promise<PartnerSuggestion[]> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new CustomError("Invalid user ID", 400);
+    }
+    const me = new Types.ObjectId(userId);
+
+    const [matches, partnerships, myCategories, myUser] = await Promise.all([
+      Match.find({ $or: [{ user1: me }, { user2: me }] }).select("user1 user2").lean(),
+      AccountabilityPartnership.find({ $or: [{ user1: me }, { user2: me }] })
+        .select("user1 user2")
+        .lean(),
+      Goal.distinct("category", { user: me, status: { $ne: "archived" } }),
+      User.findById(me).select("interests friends").lean(),
+    ]);
+    if (!myUser) {
+      throw new CustomError("User not found", 404);
+    }
+
+    const excluded = [me];
+    for (const pair of [...matches, ...partnerships]) {
+      excluded.push(pair.user1.equals(me) ? pair.user2 : pair.user1);
+    }
+
+    // Prefer users who share interests or goal categories, topped up with
+    // other active users so new accounts still get suggestions.
+    let sharedGoalUsers: Types.ObjectId[] = [];
+    if (myCategories.length) {
+      sharedGoalUsers = await Goal.distinct("user", {
+        category: { $in: myCategories },
+        user: { $nin: excluded },
+        status: { $ne: "archived" },
+      });
+    }
+    // Users who hid themselves from search, or whose profile is private or
+    // friends-only (unless we're friends), are never suggested
+    const base = {
+      _id: { $nin: excluded },
+      active: true,
+      "settings.privacy.searchVisibility": { $ne: false },
+      $and: [
+        {
+          $or: [
+            { "settings.privacy.profileVisibility": { $nin: ["friends", "private"] } },
+            { "settings.privacy.profileVisibility": "friends", _id: { $in: myUser.friends ?? [] } },
+          ],
+        },
+      ],
+    };
+    const related = await User.find({
+      ...base,
+      $or: [
+        { interests: { $in: myUser.interests ?? [] } },
+        { _id: { $in: sharedGoalUsers } },
+      ],
+    })
+      .select("_id")
+      .limit(CANDIDATE_POOL_SIZE)
+      .lean();
+    let candidateIds = related.map((u) => u._id as Types.ObjectId);
+    if (candidateIds.length < CANDIDATE_POOL_SIZE) {
+      const others = await User.find({ ...base, _id: { $nin: [...excluded, ...candidateIds] } })
+        .sort({ updatedAt: -1 })
+        .select("_id")
+        .limit(CANDIDATE_POOL_SIZE - candidateIds.length)
+        .lean();
+      candidateIds = candidateIds.concat(others.map((u) => u._id as Types.ObjectId));
+    }
+    if (!candidateIds.length) return [];
+
+    const [profiles, users] = await Promise.all([
+      this.loadProfiles([me, ...candidateIds]),
+      User.find({ _id: { $in: candidateIds } }).select("username profileImage"),
+    ]);
+    const mine = profiles.get(userId);
+
+    return users
+      .map((u) => {
+        const result = scoreCompatibility(mine, profiles.get(u._id.toString()));
+        return {
+          user: { _id: u._id, username: u.username, profilePicture: u.profilePicture },
+          score: result.total,
+          breakdown: result.factors,
+          reasons: result.factors
+            .filter((f) => f.score >= REASON_THRESHOLD)
+            .sort((a, b) => b.score * b.weight - a.score * a.weight)
+            .map((f) => f.explanation),
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Ask another user to become accountability partners. Creates a pending
+   * match opted into by the requester; if the other user had already asked,
+   * this counts as their acceptance instead.
+   */
+  static async requestPartner(userId: string, partnerId: string): Promise<IMatch> {
+    if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(partnerId)) {
+      throw new CustomError("Invalid user ID(s)", 400);
+    }
+    if (userId === partnerId) {
+      throw new CustomError("A user cannot be matched with themselves", 400);
+    }
+    const partner = await User.findOne({ _id: partnerId, active: true }).select("_id");
+    if (!partner) {
+      throw new CustomError("User not found", 404);
+    }
+
+    const existing = await Match.findOne({
+      $or: [
+        { user1: userId, user2: partnerId },
+        { user1: partnerId, user2: userId },
+      ],
+    });
+    if (existing) {
+      if (existing.status === "pending" && !existing.acceptedBy.some((id) => id.equals(userId))) {
+        return this.acceptMatch(existing._id.toString(), userId);
+      }
+      throw new CustomError(
+        existing.status === "pending"
+          ? "Partner request already sent"
+          : "Match already exists between these users",
+        400
+      );
+    }
+
+    const compatibility = await this.scorePair(userId, partnerId);
+    const match = await Match.create({
+      user1: userId,
+      user2: partnerId,
+      status: "pending",
+      requestedBy: userId,
+      acceptedBy: [userId],
+      score: compatibility?.total,
+      scoreBreakdown: compatibility?.factors ?? [],
+    });
+
+    await NotificationDispatcher.dispatch({
+      senderId: userId,
+      userId: partnerId,
+      type: "partner_request",
+      message: "You have a new accountability partner request.",
+      link: `/matches/${match._id}`,
+      data: { matchId: match._id.toString(), score: match.score },
+    });
+
+    logger.info(`Partner request ${match._id} sent from ${userId} to ${partnerId}`);
+    return match;
+  }
+
+  /**
+   * Opt in to a pending match. Once both users have accepted the match
+   * becomes active and an AccountabilityPartnership is created for them.
+   */
+  static async acceptMatch(matchId: string, userId: string): Promise<IMatch> {
+    if (!Types.ObjectId.isValid(matchId)) {
+      throw new CustomError("Invalid match ID", 400);
+    }
+    const match = await Match.findOneAndUpdate(
+      {
+        _id: matchId,
+        status: "pending",
+        $or: [{ user1: userId }, { user2: userId }],
+      },
+      { $addToSet: { acceptedBy: new Types.ObjectId(userId) } },
+      { new: true }
+    );
+    if (!match) {
+      throw new CustomError("Pending match not found", 404);
+    }
+
+    const bothAccepted = [match.user1, match.user2].every((u) =>
+      match.acceptedBy.some((id) => id.equals(u))
+    );
+    if (!bothAccepted) return match;
+
+    // Only one caller wins the pending → active transition
+    const activated = await Match.findOneAndUpdate(
+      { _id: match._id, status: "pending" },
+      { status: "active" },
+      { new: true }
+    );
+    if (!activated) return Match.findById(match._id);
+
+    const u1 = activated.user1.toString();
+    const u2 = activated.user2.toString();
+    const partnership =
+      (await AccountabilityPartnership.findBetweenUsers(u1, u2)) ??
+      (await AccountabilityPartnership.create({ user1: u1, user2: u2, match: activated._id }));
+    activated.partnership = partnership._id as Types.ObjectId;
+    await activated.save();
+
+    const otherId = u1 === userId ? u2 : u1;
+    await NotificationDispatcher.dispatch({
+      senderId: userId,
+      userId: otherId,
+      type: "partner_request",
+      message: "Your accountability partner request was accepted.",
+      link: `/matches/${activated._id}`,
+      data: { matchId: activated._id.toString(), partnershipId: partnership._id.toString() },
+    });
+
+    logger.info(`Match ${activated._id} accepted; partnership ${partnership._id} created`);
+    return activated;
+  }
+
+  /**
+   * Decline a pending match.
+   */
+  static async declineMatch(matchId: string, userId: string): Promise<IMatch> {
+    if (!Types.ObjectId.isValid(matchId)) {
+      throw new CustomError("Invalid match ID", 400);
+    }
+    const match = await Match.findOneAndUpdate(
+      {
+        _id: matchId,
+        status: "pending",
+        $or: [{ user1: userId }, { user2: userId }],
+      },
+      { status: "rejected" },
+      { new: true }
+    );
+    if (!match) {
+      throw new CustomError("Pending match not found", 404);
+    }
+    return match;
+  }
 }
 
 export default MatchService;
@@ -0,0 +1,266 @@
+// src/api/services/MeasurementService.ts
+import { Types } from "mongoose";
+import Goal, { IGoal } from "../models/Goal";
+import GoalMeasurement, { IGoalMeasurement } from "../models/GoalMeasurement";
+import Tracker, { ITracker } from "../models/Tracker";
+import UserProgressLog from "../models/UserProgressLog";
+import { User } from "../models/User";
+import { CustomError } from "../middleware/errorHandler";
+import GoalManagementService from "./GoalManagementService";
+import type { MeasurementPoint, Projection, TrendPoint } from "../utils/measurementUtils";
+import {
+  currentValue,
+  dailySeries,
+  progressPercent,
+  projectTarget,
+  slopePerDay,
+} from "../utils/measurementUtils";
+import { getLocalDayKey, resolveTimeZone, shiftDayKey } from "../utils/streakUtils";
+import { logger } from "../../utils/winstonLogger";
+
+export interface MeasurementInput {
+  value: number;
+  recordedAt?: Date;
+  note?: string;
+}
+
+export interface MeasurementResult {
+  entry: IGoalMeasurement;
+  goal: IGoal;
+}
+
+export interface GoalTrend {
+  unit: string;
+  current: number;
+  target: number;
+  progress: number;
+  ratePerDay: number;
+  series: TrendPoint[];
+}
+
+export type GoalProjection = Projection & { unit: string; dueDate: Date | null; windowDays: number };
+
+// Entries may carry a slightly-ahead client clock
+const FUTURE_SKEW_MS = 5 * 60 * 1000;
+const MAX_ENTRIES = 1000;
+
+/**
+ * Quantitative goals ("run 100 km", "save $5,000"): logged entries drive
+ * the goal's value and progress, and feed trend and projection views.
+ * Linked trackers contribute entries through their UserProgressLog history.
+ */
+class MeasurementService {
+  /** Log a value against a quantitative goal and recompute its progress */
+  static async addEntry(userId: string, goalId: string, input: MeasurementInput): Promise<MeasurementResult> {
+    const goal = await this.findMeasured(userId, goalId);
+    if (!Number.isFinite(input.value)) throw new CustomError("Value must be a number", 400);
+
+    const recordedAt = input.recordedAt ?? new Date();
+    if (recordedAt.getTime() > Date.now() + FUTURE_SKEW_MS) {
+      throw new CustomError("Entries cannot be recorded in the future", 400);
+    }
+
+    const entry = await GoalMeasurement.create({
+      goal: goal._id,
+      user: userId,
+      value: input.value,
+      recordedAt,
+      note: input.note,
+      source: "manual",
+    });
+    await this.recompute(goal);
+    logger.info(`User ${userId} logged ${input.value} ${goal.measurement!.unit} on goal ${goalId}`);
+    return { entry, goal };
+  }
+
+  /** Entries of a goal, newest first */
+  static async listEntries(
+    userId: string,
+    goalId: string,
+    opts: { from?: Date; to?: Date; limit?: number } = {}
+  ): Promise<IGoalMeasurement[]> {
+    const goal = await this.findMeasured(userId, goalId);
+    const recordedAt: Record<string, Date> = {};
+    if (opts.from) recordedAt.$gte = opts.from;
+    if (opts.to) recordedAt.$lte = opts.to;
+    return GoalMeasurement.find({ goal: goal._id, ...(opts.from || opts.to ? { recordedAt } : {}) })
+      .sort({ recordedAt: -1 })
+      .limit(Math.min(opts.limit ?? 100, MAX_ENTRIES))
+      .exec();
+  }
+
+  /** Remove an entry logged by mistake */
+  static async deleteEntry(userId: string, goalId: string, entryId: string): Promise<IGoal> {
+    if (!Types.ObjectId.isValid(entryId)) throw new CustomError("Invalid entry ID", 400);
+    const goal = await this.findMeasured(userId, goalId);
+
+    const { deletedCount } = await GoalMeasurement.deleteOne({ _id: entryId, goal: goal._id });
+    if (!deletedCount) throw new CustomError("Entry not found", 404);
+    return this.recompute(goal);
+  }
+
+  /** Daily values over the last `days` local days and the rate they imply */
+  static async getTrend(userId: string, goalId: string, days = 30): Promise<GoalTrend> {
+    const goal = await this.findMeasured(userId, goalId);
+    const m = goal.measurement!;
+    const series = await this.series(goal, days);
+    return {
+      unit: m.unit,
+      current: m.current,
+      target: m.target,
+      progress: goal.progress,
+      ratePerDay: slopePerDay(series),
+      series,
+    };
+  }
+
+  /** Whether the recent trend reaches the target by the goal's due date */
+  static async getProjection(userId: string, goalId: string, days = 30): Promise<GoalProjection> {
+    const goal = await this.findMeasured(userId, goalId);
+    const m = goal.measurement!;
+    const ratePerDay = slopePerDay(await this.series(goal, days));
+    return {
+      ...projectTarget({ current: m.current, target: m.target, ratePerDay, dueDate: goal.dueDate }),
+      unit: m.unit,
+      dueDate: goal.dueDate ?? null,
+      windowDays: days,
+    };
+  }
+
+  /**
+   * Feed a tracker's updates into a goal (or stop, with `trackerId` null).
+   * Progress the tracker already logged is imported as entries.
+   */
+  static async linkTracker(userId: string, goalId: string, trackerId: string | null): Promise<IGoal> {
+    const goal = await this.findMeasured(userId, goalId);
+    if (!trackerId) {
+      goal.measurement!.tracker = null;
+      await goal.save();
+      return goal;
+    }
+
+    if (!Types.ObjectId.isValid(trackerId)) throw new CustomError("Invalid tracker ID", 400);
+    const tracker = await Tracker.findOne({ _id: trackerId, user: userId });
+    if (!tracker) throw new CustomError("Tracker not found", 404);
+    if (goal.measurement!.aggregation !== "latest") {
+      throw new CustomError("Only goals measured by their latest value can follow a tracker", 400);
+    }
+
+    goal.measurement!.tracker = tracker._id;
+    await goal.save();
+
+    const logs = await UserProgressLog.find({ targetType: "tracker", targetId: tracker._id })
+      .sort({ createdAt: 1 })
+      .limit(MAX_ENTRIES)
+      .lean();
+    if (logs.length) {
+      await GoalMeasurement.bulkWrite(
+        logs.map((log) => ({
+          updateOne: {
+            filter: { goal: goal._id, sourceId: log._id },
+            update: {
+              $setOnInsert: {
+                user: goal.user,
+                value: log.after,
+                recordedAt: log.createdAt,
+                source: "tracker",
+                note: log.note,
+              },
+            },
+            upsert: true,
+          },
+        }))
+      );
+    } else {
+      await this.recordTrackerUpdate(tracker, tracker.progress);
+    }
+    logger.info(`Goal ${goalId} now follows tracker ${trackerId}`);
+    return this.recompute(goal);
+  }
+
+  /**
+   * Log a tracker change to the progress history and copy it onto every
+   * goal following that tracker.
+   */
+  static async recordTrackerUpdate(tracker: ITracker, before: number, note?: string): Promise<void> {
+    const log = await UserProgressLog.logProgress(
+      tracker.user,
+      "tracker",
+      tracker._id,
+      before,
+      tracker.progress,
+      note
+    );
+
+    const goals = await Goal.find({ "measurement.tracker": tracker._id, type: "quantitative" });
+    for (const goal of goals) {
+      try {
+        await GoalMeasurement.updateOne(
+          { goal: goal._id, sourceId: log._id },
+          {
+            $setOnInsert: {
+              user: goal.user,
+              value: tracker.progress,
+              recordedAt: log.createdAt,
+              source: "tracker",
+              note,
+            },
+          },
+          { upsert: true }
+        );
+        await this.recompute(goal);
+      } catch (err) {
+        logger.error(`Failed to apply tracker ${tracker._id} update to goal ${goal._id}:`, err);
+      }
+    }
+  }
+
+  private static async findMeasured(userId: string, goalId: string): Promise<IGoal> {
+    if (!Types.ObjectId.isValid(goalId) || !Types.ObjectId.isValid(userId)) {
+      throw new CustomError("Invalid goal or user ID", 400);
+    }
+    const goal = await Goal.findById(goalId);
+    if (!goal) throw new CustomError("Goal not found", 404);
+    if (goal.user.toString() !== userId) {
+      throw new CustomError("Not authorized to access this goal", 403);
+    }
+    if (goal.type !== "quantitative" || !goal.measurement) {
+      throw new CustomError("Goal is not quantitative", 400);
+    }
+    return goal;
+  }
+
+  private static async points(goal: IGoal): Promise<MeasurementPoint[]> {
+    const entries = await GoalMeasurement.find({ goal: goal._id })
+      .sort({ recordedAt: 1, createdAt: 1 })
+      .select("value recordedAt")
+      .lean();
+    return entries.map((e) => ({ at: e.recordedAt, value: e.value }));
+  }
+
+  private static async series(goal: IGoal, days: number): Promise<TrendPoint[]> {
+    const user = await User.findById(goal.user).select("location.timezone").lean();
+    const timeZone = resolveTimeZone(user?.location?.timezone);
+    const today = getLocalDayKey(new Date(), timeZone);
+    const m = goal.measurement!;
+    return dailySeries(m.aggregation, m.startValue, await this.points(goal), shiftDayKey(today, 1 - days), today, timeZone);
+  }
+
+  /** Refresh the cached value and progress, and record the change */
+  private static async recompute(goal: IGoal): Promise<IGoal> {
+    const m = goal.measurement!;
+    const before = goal.progress;
+    m.current = currentValue(m.aggregation, m.startValue, await this.points(goal));
+    await GoalManagementService.applyProgress(
+      goal,
+      progressPercent(m.aggregation, m.startValue, m.target, m.current)
+    );
+
+    if (goal.progress !== before) {
+      await UserProgressLog.logProgress(goal.user, "goal", goal._id, before, goal.progress);
+    }
+    return goal;
+  }
+}
+
+export default MeasurementService;
@@ -3,6 +3,7 @@ import { Types } from "mongoose";
 import { Message, IMessage, MessageType } from "../models/Message";
 import { User } from "../models/User";
 import { createError } from "../middleware/errorHandler";
+import ModerationService from "./ModerationService";
 
 export interface MessagePage {
   messages: IMessage[];
@@ -96,15 +97,19 @@ export default class MessageService {
       chatId = new Types.ObjectId(groupId);
     }
 
+    // Everything in the Message collection, group messages included, is moderated as a DM
+    const verdict = await ModerationService.enforce("direct_message", messageContent, { userId: senderId });
     const message = await Message.create({
       chatId,
       senderId,
       receiverId: messageType === "private" ? recipientId : undefined, // Changed from "direct" to "private"
-      text: messageContent,
+      text: verdict.text,
       messageType: messageType as MessageType,
       status: "sent",
+      isHidden: verdict.hidden,
       timestamp: new Date(),
     });
+    await ModerationService.track(verdict, { contentId: message._id, authorId: senderId });
 
     // Populate sender info before returning
     await message.populate("senderId", "username email profilePicture");
@@ -128,14 +133,17 @@ export default class MessageService {
     const ids = [userId, otherUserId].sort();
     const chatId = new Types.ObjectId(ids.join("").slice(0, 24).padEnd(24, "0"));
 
+    const visible = ModerationService.visibleTo(userId, "senderId");
     const totalMessages = await Message.countDocuments({
       chatId,
-      status: { $ne: "deleted" }
+      status: { $ne: "deleted" },
+      ...visible
     });
 
     const messages = await Message.find({
       chatId,
-      status: { $ne: "deleted" }
+      status: { $ne: "deleted" },
+      ...visible
     })
       .sort({ timestamp: -1 })
       .skip((page - 1) * limit)
@@ -326,7 +334,7 @@ export default class MessageService {
    */
   static async getMessagesInThread(
     threadId: string,
-    _userId: string, // Prefixed with underscore to indicate intentionally unused
+    userId: string,
     options: {
       limit?: number;
       page?: number;
@@ -339,9 +347,11 @@ export default class MessageService {
       throw createError("Invalid thread ID", 400);
     }
 
+    const visible = ModerationService.visibleTo(userId, "senderId");
     const query: any = {
       chatId: threadId,
-      status: { $ne: "deleted" }
+      status: { $ne: "deleted" },
+      ...visible
     };
 
     if (before) {
@@ -350,7 +360,8 @@ export default class MessageService {
 
     const total = await Message.countDocuments({
       chatId: threadId,
-      status: { $ne: "deleted" }
+      status: { $ne: "deleted" },
+      ...visible
     });
 
     const messages = await Message.find(query)
@@ -520,7 +531,12 @@ export default class MessageService {
       throw createError("Message content cannot be empty", 400);
     }
 
-    return await message.edit(newContent.trim());
+    const verdict = await ModerationService.enforce("direct_message", newContent.trim(), { userId });
+    // Editing never lifts a hide; only a moderator can
+    message.isHidden = message.isHidden || verdict.hidden;
+    const edited = await message.edit(verdict.text);
+    await ModerationService.track(verdict, { contentId: message._id, authorId: userId });
+    return edited;
   }
 
   /**
@@ -0,0 +1,677 @@
+// src/api/services/ModerationService.ts
+import { Types } from "mongoose";
+import type { FilterQuery } from "mongoose";
+import ModerationCase, { CaseDecision, CaseStatus, IModerationCase } from "../models/ModerationCase";
+import ModerationPolicy, { IModerationPolicy, IModerationRule } from "../models/ModerationPolicy";
+import ModerationWordList, { IModerationWordList } from "../models/ModerationWordList";
+import Report, { IReport } from "../models/Report";
+import AdminActionLog from "../models/AdminActionLog";
+import GroupMessage from "../models/GroupMessage";
+import Message from "../models/Message";
+import FeedPost from "../models/FeedPost";
+import BlogPost from "../models/BlogPost";
+import { AnonymousMilitaryMessage } from "../models/AnonymousMilitaryChat";
+import { User } from "../models/User";
+import { createError } from "../middleware/errorHandler";
+import type { ModerationAction, ModerationMatch, ModerationSurface } from "../utils/moderationUtils";
+import {
+  MODERATION_SURFACES,
+  baseLocale,
+  buildTermPattern,
+  findTerms,
+  maskTerms,
+  strictestAction,
+} from "../utils/moderationUtils";
+import { logger } from "../../utils/winstonLogger";
+
+export interface ModerationContext {
+  userId?: string | null;  // author, used for their preferred locale
+  locale?: string;         // overrides the author's locale
+}
+
+export interface ModerationVerdict {
+  surface: ModerationSurface;
+  action: ModerationAction;
+  text: string;            // what should be stored: masked when the action is "mask"
+  matches: ModerationMatch[];
+  locale: string;
+  hidden: boolean;         // store the content shadow-hidden
+  review: boolean;         // open a case in the review queue
+}
+
+export interface ModerationFilterInput {
+  surface: ModerationSurface;
+  text: string;
+  locale: string;
+}
+
+/** Extra pipeline stage, e.g. an external classifier. Returns its matches. */
+export type ModerationFilter = (input: ModerationFilterInput) => ModerationMatch[] | Promise<ModerationMatch[]>;
+
+export interface ContentRef {
+  contentId: string | Types.ObjectId;
+  parentId?: string | Types.ObjectId | null;
+  authorId?: string | Types.ObjectId | null;
+}
+
+export interface PolicyInput {
+  enabled?: boolean;
+  defaultAction?: ModerationAction;
+  rules?: IModerationRule[];
+}
+
+export interface PolicySummary extends PolicyInput {
+  surface: ModerationSurface;
+  custom: boolean;         // saved by an admin rather than the built-in default
+}
+
+export interface WordListInput {
+  terms: string[];
+  isActive?: boolean;
+}
+
+export interface PaginatedCases {
+  items: IModerationCase[];
+  total: number;
+}
+
+interface CommentLike {
+  _id: Types.ObjectId;
+  user: unknown;        // ObjectId, or the populated user
+  isHidden?: boolean;
+}
+
+interface ContentSnapshot {
+  author: Types.ObjectId | null;
+  text: string;
+}
+
+/** How the pipeline reads, hides and removes content on one surface */
+interface SurfaceHandler {
+  load(contentId: string, parentId?: string | null): Promise<ContentSnapshot | null>;
+  setHidden(contentId: string, parentId: string | null | undefined, hidden: boolean): Promise<boolean>;
+  remove(contentId: string, parentId?: string | null): Promise<boolean>;
+}
+
+interface PolicyConfig {
+  enabled: boolean;
+  defaultAction: ModerationAction;
+  rules: Map<string, ModerationAction>;
+}
+
+interface ModerationConfig {
+  lists: { locale: string; category: string; pattern: RegExp }[];
+  policies: Map<ModerationSurface, PolicyConfig>;
+}
+
+// Used until an admin saves a list with the same locale and category
+const DEFAULT_WORD_LISTS: { locale: string; category: string; terms: string[] }[] = [
+  {
+    locale: "*",
+    category: "profanity",
+    terms: ["fuck", "fucking", "shit", "bullshit", "bitch", "asshole", "bastard", "dickhead", "motherfucker"],
+  },
+  {
+    locale: "*",
+    category: "harassment",
+    terms: ["kill yourself", "kys", "go die", "nobody likes you", "you should die"],
+  },
+  {
+    locale: "*",
+    category: "spam",
+    terms: ["buy followers", "free crypto", "crypto giveaway", "work from home and earn"],
+  },
+];
+
+// Used for a surface until an admin saves its policy
+const DEFAULT_POLICY: PolicyConfig = {
+  enabled: true,
+  defaultAction: "mask",
+  rules: new Map<string, ModerationAction>([
+    ["harassment", "flag"],
+    ["spam", "shadow_hide"],
+  ]),
+};
+
+// Distinct reports that shadow-hide content until a moderator looks at it
+const REPORT_HIDE_THRESHOLD = 3;
+// Comments live inside their post, so reaching them needs the post ID
+const COMMENT_SURFACES: ModerationSurface[] = ["feed_comment", "blog_comment"];
+const CONFIG_TTL_MS = 60 * 1000;
+
+const toId = (id: string | Types.ObjectId): string => id.toString();
+
+const handlers: Record<ModerationSurface, SurfaceHandler> = {
+  group_message: {
+    async load(id) {
+      const m = await GroupMessage.findById(id).select("senderId content").lean();
+      return m && { author: m.senderId, text: m.content };
+    },
+    async setHidden(id, _parent, hidden) {
+      return (await GroupMessage.updateOne({ _id: id }, { isHidden: hidden })).matchedCount > 0;
+    },
+    async remove(id) {
+      return (await GroupMessage.updateOne({ _id: id, deletedAt: null }, { deletedAt: new Date() })).modifiedCount > 0;
+    },
+  },
+  direct_message: {
+    async load(id) {
+      const m = await Message.findById(id).select("senderId text").lean();
+      return m && { author: m.senderId, text: m.text ?? "" };
+    },
+    async setHidden(id, _parent, hidden) {
+      return (await Message.updateOne({ _id: id }, { isHidden: hidden })).matchedCount > 0;
+    },
+    async remove(id) {
+      const m = await Message.findById(id);
+      if (!m || m.status === "deleted") return false;
+      await m.softDelete();
+      return true;
+    },
+  },
+  feed_post: {
+    async load(id) {
+      const p = await FeedPost.findById(id).select("user content").lean();
+      return p && { author: p.user, text: p.content };
+    },
+    async setHidden(id, _parent, hidden) {
+      return (await FeedPost.updateOne({ _id: id }, { isHidden: hidden })).matchedCount > 0;
+    },
+    async remove(id) {
+      return (await FeedPost.deleteOne({ _id: id })).deletedCount > 0;
+    },
+  },
+  feed_comment: {
+    async load(id, parentId) {
+      const p = await FeedPost.findOne({ _id: parentId, "comments._id": id }).select({ "comments.$": 1 }).lean();
+      const c = p?.comments?.[0];
+      return c ? { author: c.user, text: c.text } : null;
+    },
+    async setHidden(id, parentId, hidden) {
+      const res = await FeedPost.updateOne({ _id: parentId, "comments._id": id }, { "comments.$.isHidden": hidden });
+      return res.matchedCount > 0;
+    },
+    async remove(id, parentId) {
+      return (await FeedPost.updateOne({ _id: parentId }, { $pull: { comments: { _id: id } } })).modifiedCount > 0;
+    },
+  },
+  blog_post: {
+    async load(id) {
+      const p = await BlogPost.findById(id).select("author title content").lean();
+      return p && { author: p.author, text: `${p.title}\n${p.content}` };
+    },
+    async setHidden(id, _parent, hidden) {
+      return (await BlogPost.updateOne({ _id: id }, { isHidden: hidden })).matchedCount > 0;
+    },
+    async remove(id) {
+      return (await BlogPost.deleteOne({ _id: id })).deletedCount > 0;
+    },
+  },
+  blog_comment: {
+    async load(id, parentId) {
+      const p = await BlogPost.findOne({ _id: parentId, "comments._id": id }).select({ "comments.$": 1 }).lean();
+      const c = p?.comments?.[0];
+      return c ? { author: c.user, text: c.text } : null;
+    },
+    async setHidden(id, parentId, hidden) {
+      const res = await BlogPost.updateOne({ _id: parentId, "comments._id": id }, { "comments.$.isHidden": hidden });
+      return res.matchedCount > 0;
+    },
+    async remove(id, parentId) {
+      return (await BlogPost.updateOne({ _id: parentId }, { $pull: { comments: { _id: id } } })).modifiedCount > 0;
+    },
+  },
+  anonymous_chat: {
+    async load(id) {
+      const m = await AnonymousMilitaryMessage.findById(id).select("message").lean<{ message: string }>();
+      return m && { author: null, text: m.message };
+    },
+    async setHidden(id, _parent, hidden) {
+      return (await AnonymousMilitaryMessage.updateOne({ _id: id }, { isHidden: hidden })).matchedCount > 0;
+    },
+    async remove(id) {
+      return (await AnonymousMilitaryMessage.deleteOne({ _id: id })).deletedCount > 0;
+    },
+  },
+};
+
+const filters: ModerationFilter[] = [];
+let cachedConfig: { config: ModerationConfig; loadedAt: number } | null = null;
+
+/**
+ * Moderation pipeline for user-generated text. Each surface (group
+ * messages, DMs, feed, blog, anonymous chat) screens text before storing
+ * it: locale word lists and any registered filters produce matches, and
+ * the surface's policy turns them into an action — mask, flag for review,
+ * shadow-hide or block. Flagged content and user reports land in a review
+ * queue whose decisions are recorded in the admin action log.
+ */
+class ModerationService {
+  /** Add a stage to the pipeline; it runs after the word lists */
+  static use(filter: ModerationFilter): void {
+    filters.push(filter);
+  }
+
+  /** Drop cached word lists and policies so the next screen reloads them */
+  static invalidate(): void {
+    cachedConfig = null;
+  }
+
+  /** Run text through the pipeline without enforcing a block */
+  static async screen(
+    surface: ModerationSurface,
+    text: string,
+    ctx: ModerationContext = {}
+  ): Promise<ModerationVerdict> {
+    const config = await this.config();
+    const policy = config.policies.get(surface) ?? DEFAULT_POLICY;
+    const locale = await this.resolveLocale(ctx);
+    const allow: ModerationVerdict = {
+      surface, action: "allow", text, matches: [], locale, hidden: false, review: false,
+    };
+    if (!text || !policy.enabled) return allow;
+
+    const matches: ModerationMatch[] = [];
+    for (const list of config.lists) {
+      if (list.locale !== "*" && list.locale !== locale) continue;
+      for (const term of findTerms(text, list.pattern)) {
+        matches.push({ term, category: list.category, source: "wordlist" });
+      }
+    }
+    for (const filter of filters) {
+      try {
+        matches.push(...(await filter({ surface, text, locale })));
+      } catch (err) {
+        logger.error(`Moderation filter failed on ${surface}:`, err);
+      }
+    }
+    if (!matches.length) return allow;
+
+    const action = matches.reduce<ModerationAction>(
+      (acc, m) => strictestAction(acc, policy.rules.get(m.category) ?? policy.defaultAction),
+      "allow"
+    );
+    return {
+      surface,
+      action,
+      text: action === "mask" ? maskTerms(text, matches.map((m) => m.term)) : text,
+      matches,
+      locale,
+      hidden: action === "shadow_hide",
+      review: action === "flag" || action === "shadow_hide",
+    };
+  }
+
+  /** Screen text and reject it when the surface's policy blocks it */
+  static async enforce(
+    surface: ModerationSurface,
+    text: string,
+    ctx: ModerationContext = {}
+  ): Promise<ModerationVerdict> {
+    const verdict = await this.screen(surface, text, ctx);
+    if (verdict.action === "block") {
+      logger.info(`Blocked ${surface} content from ${ctx.userId ?? "anonymous"}`);
+      throw createError("This content goes against our community guidelines", 422);
+    }
+    return verdict;
+  }
+
+  /**
+   * Queue stored content for review when its verdict asks for it. Call
+   * after saving the content the verdict was for.
+   */
+  static async track(verdict: ModerationVerdict, ref: ContentRef): Promise<IModerationCase | null> {
+    if (!verdict.review) return null;
+    try {
+      return await ModerationCase.findOneAndUpdate(
+        { surface: verdict.surface, contentId: ref.contentId },
+        {
+          $setOnInsert: {
+            parentId: ref.parentId ?? null,
+            author: ref.authorId ?? null,
+            locale: verdict.locale,
+          },
+          $set: {
+            excerpt: verdict.text.slice(0, 1000),
+            matches: verdict.matches,
+            autoAction: verdict.action,
+            hidden: verdict.hidden,
+            status: "pending",
+          },
+        },
+        { upsert: true, new: true }
+      );
+    } catch (err) {
+      logger.error(`Failed to queue ${verdict.surface} ${toId(ref.contentId)} for review:`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Query condition showing shadow-hidden content only to its author.
+   * `authorField` is the model's author path ("senderId", "user", …).
+   */
+  static visibleTo(viewerId: string | null | undefined, authorField: string): FilterQuery<unknown> {
+    if (!viewerId || !Types.ObjectId.isValid(viewerId)) return { isHidden: { $ne: true } };
+    return { $or: [{ isHidden: { $ne: true } }, { [authorField]: new Types.ObjectId(viewerId) }] };
+  }
+
+  /**
+   * Drop shadow-hidden comments other people wrote from a loaded post.
+   * Only the in-memory document changes; don't save it afterwards.
+   */
+  static stripHiddenComments(
+    post: { comments: CommentLike[] & { pull(...ids: unknown[]): unknown } },
+    viewerId: string | null | undefined
+  ): void {
+    const hidden = post.comments.filter((c) => {
+      if (!c.isHidden) return false;
+      const author = (c.user as { _id?: Types.ObjectId })?._id ?? c.user;
+      return !viewerId || String(author) !== viewerId;
+    });
+    for (const c of hidden) post.comments.pull(c._id);
+  }
+
+  /** Throw 404 unless reported content exists */
+  static async assertReportable(
+    surface: ModerationSurface,
+    contentId: string,
+    parentId?: string | null
+  ): Promise<void> {
+    if (COMMENT_SURFACES.includes(surface) && !parentId) {
+      throw createError("A parent ID is required to report a comment", 400);
+    }
+    if (!(await handlers[surface].load(contentId, parentId))) {
+      throw createError("Reported content not found", 404);
+    }
+  }
+
+  /**
+   * Put reported content in the review queue. Enough distinct reports
+   * shadow-hide it until a moderator decides.
+   */
+  static async addReport(report: IReport): Promise<IModerationCase | null> {
+    if (!report.surface) return null;
+    const surface = report.surface;
+    const contentId = report.reportedId.toString();
+    const parentId = report.parentId?.toString() ?? null;
+    const content = await handlers[surface].load(contentId, parentId);
+    if (!content) return null;
+
+    let modCase = await ModerationCase.findOneAndUpdate(
+      { surface, contentId: report.reportedId },
+      {
+        $setOnInsert: {
+          parentId,
+          author: content.author,
+          excerpt: content.text.slice(0, 1000),
+        },
+        $addToSet: { reports: report._id },
+        $inc: { reportCount: 1 },
+      },
+      { upsert: true, new: true }
+    );
+    // New reports reopen a case unless the content is already gone
+    if (modCase.status !== "pending" && modCase.decision !== "remove") {
+      modCase.status = "pending";
+      modCase.decision = null;
+      await modCase.save();
+    }
+
+    if (!modCase.hidden && modCase.status === "pending" && modCase.reportCount >= REPORT_HIDE_THRESHOLD) {
+      const distinct = await Report.distinct("userId", { _id: { $in: modCase.reports } });
+      if (distinct.length >= REPORT_HIDE_THRESHOLD && (await handlers[surface].setHidden(contentId, parentId, true))) {
+        modCase = await ModerationCase.findByIdAndUpdate(modCase._id, { hidden: true }, { new: true });
+        logger.info(`${surface} ${contentId} hidden after ${distinct.length} reports`);
+      }
+    }
+    return modCase;
+  }
+
+  /** The review queue: most reported first, then oldest */
+  static async listQueue(opts: {
+    status?: CaseStatus;
+    surface?: ModerationSurface;
+    page?: number;
+    limit?: number;
+  }): Promise<PaginatedCases> {
+    const page = Math.max(1, opts.page || 1);
+    const limit = Math.min(100, Math.max(1, opts.limit || 20));
+    const filter: FilterQuery<IModerationCase> = { status: opts.status ?? "pending" };
+    if (opts.surface) filter.surface = opts.surface;
+
+    const [items, total] = await Promise.all([
+      ModerationCase.find(filter)
+        .sort(filter.status === "pending" ? { reportCount: -1, createdAt: 1 } : { reviewedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("author", "username"),
+      ModerationCase.countDocuments(filter),
+    ]);
+    return { items, total };
+  }
+
+  /** A case with its reports and the content as it is now */
+  static async getCase(caseId: string): Promise<{ case: IModerationCase; content: ContentSnapshot | null }> {
+    const modCase = await this.findCase(caseId);
+    await modCase.populate([
+      { path: "author", select: "username" },
+      { path: "reviewedBy", select: "username" },
+      { path: "reports", select: "userId reason status createdAt" },
+    ]);
+    const content = await handlers[modCase.surface].load(
+      modCase.contentId.toString(),
+      modCase.parentId?.toString()
+    );
+    return { case: modCase, content };
+  }
+
+  /**
+   * Decide a case: approve (content visible again), hide (shadow-hidden
+   * for good) or remove. Attached reports are resolved and the decision
+   * is written to the admin action log.
+   */
+  static async review(
+    caseId: string,
+    moderatorId: string,
+    decision: CaseDecision,
+    note?: string,
+    ipAddress?: string
+  ): Promise<IModerationCase> {
+    const modCase = await this.findCase(caseId);
+    if (modCase.decision === "remove") throw createError("Content was already removed", 409);
+
+    const handler = handlers[modCase.surface];
+    const contentId = modCase.contentId.toString();
+    const parentId = modCase.parentId?.toString();
+    if (decision === "remove") {
+      await handler.remove(contentId, parentId);
+      modCase.hidden = false;
+    } else {
+      await handler.setHidden(contentId, parentId, decision === "hide");
+      modCase.hidden = decision === "hide";
+    }
+
+    modCase.status = decision === "approve" ? "dismissed" : "actioned";
+    modCase.decision = decision;
+    modCase.decisionNote = note;
+    modCase.reviewedBy = new Types.ObjectId(moderatorId);
+    modCase.reviewedAt = new Date();
+    await modCase.save();
+
+    if (modCase.reports.length) {
+      await Report.updateMany(
+        { _id: { $in: modCase.reports }, status: "pending" },
+        { status: "resolved", resolvedBy: moderatorId, resolvedAt: new Date() }
+      );
+    }
+    await this.logAction(
+      moderatorId,
+      "moderate_content",
+      `${decision} ${modCase.surface.replace(/_/g, " ")}`,
+      {
+        caseId: modCase._id.toString(),
+        surface: modCase.surface,
+        contentId,
+        decision,
+        ...(note && { note }),
+      },
+      ipAddress,
+      modCase.author
+    );
+    logger.info(`Moderation case ${caseId}: ${decision} by ${moderatorId}`);
+    return modCase;
+  }
+
+  /** Saved policies for every surface, with defaults where none was saved */
+  static async listPolicies(): Promise<PolicySummary[]> {
+    const saved = new Map((await ModerationPolicy.find().lean()).map((p) => [p.surface, p]));
+    return MODERATION_SURFACES.map((surface) => {
+      const p = saved.get(surface);
+      return p
+        ? { surface, enabled: p.enabled, defaultAction: p.defaultAction, rules: p.rules, custom: true }
+        : {
+          surface,
+          enabled: DEFAULT_POLICY.enabled,
+          defaultAction: DEFAULT_POLICY.defaultAction,
+          rules: [...DEFAULT_POLICY.rules].map(([category, action]) => ({ category, action })),
+          custom: false,
+        };
+    });
+  }
+
+  /** Replace a surface's policy */
+  static async updatePolicy(
+    surface: ModerationSurface,
+    input: PolicyInput,
+    adminId: string,
+    ipAddress?: string
+  ): Promise<IModerationPolicy> {
+    const policy = await ModerationPolicy.findOneAndUpdate(
+      { surface },
+      {
+        $set: {
+          ...(input.enabled !== undefined && { enabled: input.enabled }),
+          ...(input.defaultAction && { defaultAction: input.defaultAction }),
+          ...(input.rules && { rules: input.rules }),
+          updatedBy: adminId,
+        },
+      },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+    this.invalidate();
+    await this.logAction(adminId, "update_moderation_settings", `Updated ${surface} moderation policy`, {
+      surface,
+      defaultAction: policy.defaultAction,
+      enabled: String(policy.enabled),
+    }, ipAddress);
+    return policy;
+  }
+
+  /** Word lists, saved and built-in, optionally for one locale */
+  static async listWordLists(locale?: string): Promise<Partial<IModerationWordList>[]> {
+    const saved = await ModerationWordList.find(locale ? { locale: { $in: ["*", baseLocale(locale)] } } : {})
+      .sort({ locale: 1, category: 1 })
+      .lean();
+    const savedKeys = new Set(saved.map((l) => `${l.locale}:${l.category}`));
+    const builtIn = DEFAULT_WORD_LISTS
+      .filter((l) => !savedKeys.has(`${l.locale}:${l.category}`))
+      .filter((l) => !locale || l.locale === "*" || l.locale === baseLocale(locale))
+      .map((l) => ({ ...l, isActive: true }));
+    return [...saved, ...builtIn];
+  }
+
+  /** Create or replace the word list of a locale and category */
+  static async saveWordList(
+    locale: string,
+    category: string,
+    input: WordListInput,
+    adminId: string,
+    ipAddress?: string
+  ): Promise<IModerationWordList> {
+    const key = { locale: locale === "*" ? "*" : baseLocale(locale), category: category.trim().toLowerCase() };
+    const list = (await ModerationWordList.findOne(key)) ?? new ModerationWordList(key);
+    list.terms = input.terms;
+    if (input.isActive !== undefined) list.isActive = input.isActive;
+    list.updatedBy = new Types.ObjectId(adminId);
+    await list.save();
+
+    this.invalidate();
+    await this.logAction(adminId, "update_moderation_settings", `Updated ${key.category} word list (${key.locale})`, {
+      locale: key.locale,
+      category: key.category,
+      terms: String(list.terms.length),
+      isActive: String(list.isActive),
+    }, ipAddress);
+    return list;
+  }
+
+  private static async findCase(caseId: string): Promise<IModerationCase> {
+    if (!Types.ObjectId.isValid(caseId)) throw createError("Invalid case ID", 400);
+    const modCase = await ModerationCase.findById(caseId);
+    if (!modCase) throw createError("Moderation case not found", 404);
+    return modCase;
+  }
+
+  private static async resolveLocale(ctx: ModerationContext): Promise<string> {
+    if (ctx.locale) return baseLocale(ctx.locale);
+    if (!ctx.userId || !Types.ObjectId.isValid(ctx.userId)) return "en";
+    const user = await User.findById(ctx.userId).select("preferences.language").lean();
+    return baseLocale(user?.preferences?.language);
+  }
+
+  /** Word lists and policies, cached briefly */
+  private static async config(): Promise<ModerationConfig> {
+    if (cachedConfig && Date.now() - cachedConfig.loadedAt < CONFIG_TTL_MS) return cachedConfig.config;
+
+    const [savedLists, savedPolicies] = await Promise.all([
+      ModerationWordList.find().lean(),
+      ModerationPolicy.find().lean(),
+    ]);
+    const lists = new Map(DEFAULT_WORD_LISTS.map((l) => [`${l.locale}:${l.category}`, { ...l, isActive: true }]));
+    for (const l of savedLists) lists.set(`${l.locale}:${l.category}`, l);
+
+    const config: ModerationConfig = {
+      lists: [...lists.values()]
+        .filter((l) => l.isActive)
+        .map((l) => ({ locale: l.locale, category: l.category, pattern: buildTermPattern(l.terms) }))
+        .filter((l): l is { locale: string; category: string; pattern: RegExp } => l.pattern !== null),
+      policies: new Map(
+        savedPolicies.map((p) => [
+          p.surface,
+          {
+            enabled: p.enabled,
+            defaultAction: p.defaultAction,
+            rules: new Map(p.rules.map((r) => [r.category, r.action])),
+          },
+        ])
+      ),
+    };
+    cachedConfig = { config, loadedAt: Date.now() };
+    return config;
+  }
+
+  private static async logAction(
+    adminId: string,
+    action: "moderate_content" | "update_moderation_settings",
+    description: string,
+    details: Record<string, string>,
+    ipAddress?: string,
+    target?: Types.ObjectId | null
+  ): Promise<void> {
+    try {
+      await AdminActionLog.logAction(
+        new Types.ObjectId(adminId),
+        action,
+        target ?? null,
+        description,
+        details,
+        ipAddress ?? ""
+      );
+    } catch (err) {
+      logger.error(`Failed to record ${action} by ${adminId}:`, err);
+    }
+  }
+}
+
+export default ModerationService;
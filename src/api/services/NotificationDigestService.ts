@@ -0,0 +1,221 @@
+// src/api/services/NotificationDigestService.ts
+import { Types } from "mongoose";
+import type { NotificationType } from "../models/Notification";
+import Notification, { NOTIFICATION_TYPES } from "../models/Notification";
+import type { INotificationDigest } from "../models/NotificationDigest";
+import NotificationDigest from "../models/NotificationDigest";
+import type { DigestSettings, IUser } from "../models/User";
+import { User } from "../models/User";
+import { sendEmail } from "./emailService";
+import { createError } from "../middleware/errorHandler";
+import type { DigestFrequency } from "../utils/digestTemplate";
+import { renderDigestEmail, resolveLocale } from "../utils/digestTemplate";
+import { getLocalDayKey, resolveTimeZone } from "../utils/streakUtils";
+import { getLocalMinuteOfDay, parseClockTime } from "../utils/timeOfDayUtils";
+import { getZonedParts } from "../utils/recurrenceUtils";
+import { emailQueue } from "../../queues/emailQueue";
+import { NoopQueue } from "../../queues/noopQueue";
+import { logger } from "../../utils/winstonLogger";
+
+export const DIGEST_JOB = "notification-digest";
+
+export interface DigestJobData {
+  userId: string;
+  frequency: DigestFrequency;
+  periodKey: string;
+}
+
+// Upper bound on notifications folded into one digest email
+const MAX_DIGEST_ITEMS = 200;
+const DEFAULT_SEND_MINUTE = 8 * 60;
+
+const DUPLICATE_KEY = 11000;
+
+class NotificationDigestService {
+  /**
+   * Whether email for this notification type is batched into a digest
+   * instead of being sent right away.
+   */
+  static isDigested(user: Pick<IUser, "settings">, type: NotificationType): boolean {
+    const digest = user.settings?.notifications?.digest;
+    if (!digest?.enabled) return false;
+    return !digest.types?.length || digest.types.includes(type);
+  }
+
+  /**
+   * Period a digest is due for right now, or null when it is not due yet.
+   * Daily digests go out once the local send time passes; weekly ones
+   * only on the chosen weekday.
+   */
+  static duePeriod(
+    digest: DigestSettings,
+    timeZone: string,
+    now: Date
+  ): string | null {
+    const sendAt = parseClockTime(digest.time) ?? DEFAULT_SEND_MINUTE;
+    if (getLocalMinuteOfDay(now, timeZone) < sendAt) return null;
+
+    const today = getLocalDayKey(now, timeZone);
+    if (digest.frequency === "weekly") {
+      const { year, month, day } = getZonedParts(now, timeZone);
+      const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+      if (weekday !== (digest.weekday ?? 1)) return null;
+    }
+    return today;
+  }
+
+  /**
+   * Queue a digest job on emailQueue for every user whose digest is due.
+   * Without a real queue the job runs inline.
+   */
+  static async scheduleDueDigests(now = new Date()): Promise<number> {
+    const cursor = User.find({ "settings.notifications.digest.enabled": true })
+      .select("location.timezone settings.notifications.digest")
+      .lean()
+      .cursor();
+
+    let queued = 0;
+    for await (const user of cursor) {
+      const digest = user.settings?.notifications?.digest;
+      if (!digest) continue;
+
+      const timeZone = resolveTimeZone(user.location?.timezone);
+      const periodKey = this.duePeriod(digest, timeZone, now);
+      if (!periodKey) continue;
+
+      const frequency = digest.frequency ?? "daily";
+      const exists = await NotificationDigest.exists({ user: user._id, frequency, periodKey });
+      if (exists) continue;
+
+      const data: DigestJobData = { userId: user._id.toString(), frequency, periodKey };
+      try {
+        if (emailQueue instanceof NoopQueue) {
+          await this.processDigestJob(data);
+        } else {
+          await emailQueue.add(DIGEST_JOB, data, {
+            jobId: `digest:${data.userId}:${frequency}:${periodKey}`,
+            attempts: 3,
+            backoff: { type: "exponential", delay: 60_000 },
+            removeOnComplete: true,
+          });
+        }
+        queued++;
+      } catch (err) {
+        logger.error(`❌ Failed to queue digest for user ${data.userId}: ${(err as Error).message}`);
+      }
+    }
+
+    if (queued > 0) logger.info(`📬 Queued ${queued} notification digests`);
+    return queued;
+  }
+
+  /**
+   * Build and send one digest. The digest document is created first and
+   * acts as a lock; covered notifications are tagged with it so they are
+   * never included in a later digest. If sending fails the claim is
+   * released so the queue can retry.
+   */
+  static async processDigestJob(data: DigestJobData): Promise<INotificationDigest | null> {
+    const { userId, frequency, periodKey } = data;
+    const user = await User.findById(userId).select(
+      "email username firstName preferences.language settings.notifications.digest"
+    );
+    if (!user) return null;
+
+    const settings = user.settings?.notifications?.digest;
+    const locale = resolveLocale(user.preferences?.language);
+
+    let digest: INotificationDigest;
+    try {
+      digest = await NotificationDigest.create({ user: userId, frequency, periodKey, locale });
+    } catch (err) {
+      if ((err as { code?: number }).code === DUPLICATE_KEY) return null;
+      throw err;
+    }
+
+    const filter: Record<string, unknown> = { user: userId, read: false, digest: null };
+    if (settings?.types?.length) filter.type = { $in: settings.types };
+
+    const items = await Notification.find(filter)
+      .sort({ createdAt: 1 })
+      .limit(MAX_DIGEST_ITEMS)
+      .select("type message link createdAt")
+      .lean();
+
+    if (!items.length) {
+      digest.status = "empty";
+      await digest.save();
+      return digest;
+    }
+
+    const ids = items.map((n) => n._id);
+    await Notification.updateMany({ _id: { $in: ids }, digest: null }, { $set: { digest: digest._id } });
+
+    try {
+      const email = renderDigestEmail({
+        locale,
+        frequency,
+        name: user.firstName || user.username,
+        items,
+      });
+      await sendEmail(user.email, email.subject, email.text, { html: email.html });
+    } catch (err) {
+      await Notification.updateMany({ digest: digest._id }, { $set: { digest: null } });
+      await digest.deleteOne();
+      throw err;
+    }
+
+    digest.notifications = ids as Types.ObjectId[];
+    digest.status = "sent";
+    digest.sentAt = new Date();
+    await digest.save();
+
+    logger.info(`📬 Sent ${frequency} digest to user ${userId} (${ids.length} notifications)`);
+    return digest;
+  }
+
+  /** Current digest mode settings */
+  static async getSettings(userId: string): Promise<DigestSettings> {
+    const user = await User.findById(userId).select("settings.notifications.digest");
+    if (!user) throw createError("User not found", 404);
+    return user.settings?.notifications?.digest ?? {};
+  }
+
+  /**
+   * Update digest mode. Only provided fields are changed.
+   */
+  static async updateSettings(userId: string, input: DigestSettings): Promise<DigestSettings> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw createError("Invalid user ID", 400);
+    }
+    const invalid = input.types?.find((t) => !NOTIFICATION_TYPES.includes(t));
+    if (invalid) {
+      throw createError(`Unknown notification type "${invalid}"`, 400);
+    }
+
+    const $set: Record<string, unknown> = {};
+    for (const key of ["enabled", "frequency", "types", "time", "weekday"] as const) {
+      if (input[key] !== undefined) $set[`settings.notifications.digest.${key}`] = input[key];
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $set },
+      { new: true, runValidators: true }
+    ).select("settings.notifications.digest");
+    if (!user) throw createError("User not found", 404);
+
+    return user.settings?.notifications?.digest ?? {};
+  }
+
+  /**
+   * Most recent digests sent to a user.
+   */
+  static async listDigests(userId: string, limit = 10): Promise<INotificationDigest[]> {
+    return NotificationDigest.find({ user: userId, status: "sent" })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+  }
+}
+
+export default NotificationDigestService;
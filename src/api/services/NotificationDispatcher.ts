@@ -0,0 +1,365 @@
+// src/api/services/NotificationDispatcher.ts
+import { Types } from "mongoose";
+import type { Twilio } from "twilio";
+import twilio from "twilio";
+import webPush from "web-push";
+import type { NotificationChannel, NotificationType } from "../models/Notification";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_TYPES } from "../models/Notification";
+import type { IChannelDelivery, INotificationDispatch } from "../models/NotificationDispatch";
+import NotificationDispatch from "../models/NotificationDispatch";
+import type { IUser, NotificationChannelPrefs, PushSubscriptionInfo } from "../models/User";
+import { User } from "../models/User";
+import NotificationService from "./NotificationService";
+import NotificationDigestService from "./NotificationDigestService";
+import { sendEmail } from "./emailService";
+import { createError } from "../middleware/errorHandler";
+import { logger } from "../../utils/winstonLogger";
+
+/** One event to fan out to every channel the recipient allows */
+export interface NotificationEvent {
+  userId: string;
+  type: NotificationType;
+  message: string;
+  title?: string;                     // email subject / push title
+  link?: string;
+  senderId?: string;
+  data?: Record<string, unknown>;     // extra payload for socket and push
+  channels?: NotificationChannel[];   // restrict fan-out (default: all channels)
+  emailTo?: string;                   // send email here instead of the account address
+  userRequested?: NotificationChannel[]; // asked for by the user on this notification; skips the global switch
+}
+
+export type ChannelMatrix = Record<NotificationChannel, boolean>;
+
+export interface NotificationPreferences {
+  channels: { email: boolean; sms: boolean; push: boolean };
+  types: Record<NotificationType, ChannelMatrix>;
+}
+
+type ChannelResult = Omit<IChannelDelivery, "attemptedAt">;
+
+// Channels that also need the global switch in User.settings.notifications
+const MASTER_SWITCHED: NotificationChannel[] = ["email", "sms", "push"];
+
+const DEFAULT_TITLES: Partial<Record<NotificationType, string>> = {
+  friend_request: "New friend request",
+  reminder: "Reminder",
+  badge_unlocked: "Badge unlocked",
+  level_up: "Level up!",
+  partner_request: "New accountability partner",
+  partner_checkin: "Partner check-in",
+  reward_update: "Reward update",
+  crisis_alert: "Crisis escalation",
+};
+
+let pushReady: boolean | null = null;
+let smsClient: Twilio | null | undefined;
+
+/** Configure web-push lazily so a missing VAPID key only disables push */
+const isPushConfigured = (): boolean => {
+  if (pushReady !== null) return pushReady;
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, CONTACT_EMAIL } = process.env;
+  pushReady = Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY && CONTACT_EMAIL);
+  if (pushReady) {
+    webPush.setVapidDetails(`mailto:${CONTACT_EMAIL}`, VAPID_PUBLIC_KEY!, VAPID_PRIVATE_KEY!);
+  }
+  return pushReady;
+};
+
+const getSmsClient = (): Twilio | null => {
+  if (smsClient !== undefined) return smsClient;
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER } = process.env;
+  smsClient =
+    TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_PHONE_NUMBER
+      ? twilio(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN)
+      : null;
+  return smsClient;
+};
+
+const errorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : String(err);
+
+class NotificationDispatcher {
+  /**
+   * Which channels a user allows for a notification type. Per-type switches
+   * default to on; email, SMS and push also need their global switch,
+   * unless the user asked for that channel on this notification itself.
+   */
+  static resolveChannels(
+    user: Pick<IUser, "settings">,
+    type: NotificationType,
+    userRequested: NotificationChannel[] = []
+  ): ChannelMatrix {
+    const notifications = user.settings?.notifications;
+    const byType = notifications?.byType;
+    const prefs: NotificationChannelPrefs =
+      (byType instanceof Map ? byType.get(type) : byType?.[type]) ?? {};
+
+    const matrix = {} as ChannelMatrix;
+    for (const channel of NOTIFICATION_CHANNELS) {
+      const switched = MASTER_SWITCHED.includes(channel) && !userRequested.includes(channel);
+      const master = switched
+        ? Boolean(notifications?.[channel as "email" | "sms" | "push"])
+        : true;
+      matrix[channel] = master && prefs[channel] !== false;
+    }
+    return matrix;
+  }
+
+  /**
+   * Deliver one event on every allowed channel and record the outcome of
+   * each. Channel failures are logged and recorded, never thrown.
+   */
+  static async dispatch(event: NotificationEvent): Promise<INotificationDispatch> {
+    const { userId, type, message } = event;
+    if (!Types.ObjectId.isValid(userId)) {
+      throw createError("Invalid user ID", 400);
+    }
+    if (!message?.trim()) {
+      throw createError("Notification message is required", 400);
+    }
+
+    const user = await User.findById(userId).select(
+      "email phoneNumber settings.notifications +pushSubscriptions"
+    );
+    if (!user) {
+      throw createError("User not found", 404);
+    }
+
+    const allowed = this.resolveChannels(user, type, event.userRequested);
+    const requested = new Set(event.channels ?? NOTIFICATION_CHANNELS);
+    const title = event.title ?? DEFAULT_TITLES[type] ?? "New notification";
+    const deliveries: IChannelDelivery[] = [];
+    const record = (result: ChannelResult): void => {
+      deliveries.push({ ...result, attemptedAt: new Date() });
+    };
+    const skipReason = (channel: NotificationChannel): string | null => {
+      if (!requested.has(channel)) return "not requested";
+      if (!allowed[channel]) return "disabled by user preferences";
+      if (channel === "email" && NotificationDigestService.isDigested(user, type)) {
+        return "batched into email digest";
+      }
+      return null;
+    };
+
+    // In-app first, so socket and push payloads can reference the notification
+    let notificationId: Types.ObjectId | undefined;
+    const inAppSkip = skipReason("in_app");
+    if (inAppSkip) {
+      record({ channel: "in_app", status: "skipped", reason: inAppSkip });
+    } else {
+      try {
+        const notification = await NotificationService.sendInAppNotification(
+          event.senderId ?? "system",
+          userId,
+          message,
+          type,
+          event.link
+        );
+        notificationId = notification._id as Types.ObjectId;
+        record({ channel: "in_app", status: "sent" });
+      } catch (err) {
+        record({ channel: "in_app", status: "failed", reason: errorMessage(err) });
+      }
+    }
+
+    const payload = {
+      id: notificationId?.toString(),
+      type,
+      title,
+      message,
+      link: event.link,
+      data: event.data,
+      createdAt: new Date().toISOString(),
+    };
+
+    const senders: Record<Exclude<NotificationChannel, "in_app">, () => Promise<ChannelResult>> = {
+      socket: async () => this.deliverSocket(userId, payload),
+      email: async () => this.deliverEmail(event.emailTo ?? user.email, title, message),
+      push: async () => this.deliverPush(user, payload),
+      sms: async () => this.deliverSms(user.phoneNumber, message),
+    };
+
+    await Promise.all(
+      (Object.keys(senders) as (keyof typeof senders)[]).map(async (channel) => {
+        const skip = skipReason(channel);
+        if (skip) return record({ channel, status: "skipped", reason: skip });
+        try {
+          record(await senders[channel]());
+        } catch (err) {
+          logger.error(`Notification ${type} via ${channel} failed for user ${userId}: ${errorMessage(err)}`);
+          record({ channel, status: "failed", reason: errorMessage(err) });
+        }
+      })
+    );
+
+    return NotificationDispatch.create({
+      user: userId,
+      sender: event.senderId && Types.ObjectId.isValid(event.senderId) ? event.senderId : undefined,
+      type,
+      message,
+      link: event.link,
+      notification: notificationId,
+      deliveries,
+    });
+  }
+
+  private static async deliverSocket(userId: string, payload: object): Promise<ChannelResult> {
+    const io = global.io;
+    if (!io) return { channel: "socket", status: "skipped", reason: "socket server not running" };
+    if (!io.sockets.adapter.rooms.get(userId)?.size) {
+      return { channel: "socket", status: "skipped", reason: "user not connected" };
+    }
+    io.to(userId).emit("newNotification", payload);
+    return { channel: "socket", status: "sent" };
+  }
+
+  private static async deliverEmail(
+    to: string | undefined,
+    subject: string,
+    text: string
+  ): Promise<ChannelResult> {
+    if (!to) return { channel: "email", status: "skipped", reason: "no email address" };
+    await sendEmail(to, subject, text);
+    return { channel: "email", status: "sent" };
+  }
+
+  private static async deliverPush(user: IUser, payload: object): Promise<ChannelResult> {
+    if (!isPushConfigured()) {
+      return { channel: "push", status: "skipped", reason: "web push not configured" };
+    }
+    const subscriptions = user.pushSubscriptions ?? [];
+    if (!subscriptions.length) {
+      return { channel: "push", status: "skipped", reason: "no push subscriptions" };
+    }
+
+    const body = JSON.stringify(payload);
+    const expired: string[] = [];
+    const results = await Promise.allSettled(
+      subscriptions.map((sub) =>
+        webPush.sendNotification(sub, body).catch((err: { statusCode?: number }) => {
+          // 404/410: the browser dropped this subscription
+          if (err.statusCode === 404 || err.statusCode === 410) expired.push(sub.endpoint);
+          throw err;
+        })
+      )
+    );
+
+    if (expired.length) {
+      await User.updateOne(
+        { _id: user._id },
+        { $pull: { pushSubscriptions: { endpoint: { $in: expired } } } }
+      );
+    }
+
+    const sent = results.filter((r) => r.status === "fulfilled").length;
+    if (sent > 0) return { channel: "push", status: "sent" };
+    const firstError = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    return { channel: "push", status: "failed", reason: errorMessage(firstError?.reason) };
+  }
+
+  private static async deliverSms(to: string | undefined, body: string): Promise<ChannelResult> {
+    const client = getSmsClient();
+    if (!client) return { channel: "sms", status: "skipped", reason: "SMS not configured" };
+    if (!to) return { channel: "sms", status: "skipped", reason: "no phone number" };
+    await client.messages.create({ body, from: process.env.TWILIO_PHONE_NUMBER, to });
+    return { channel: "sms", status: "sent" };
+  }
+
+  /**
+   * Effective channel settings for every notification type.
+   */
+  static async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const user = await User.findById(userId).select("settings.notifications");
+    if (!user) throw createError("User not found", 404);
+
+    const types = {} as Record<NotificationType, ChannelMatrix>;
+    for (const type of NOTIFICATION_TYPES) {
+      types[type] = this.resolveChannels(user, type);
+    }
+    const notifications = user.settings?.notifications;
+    return {
+      channels: {
+        email: Boolean(notifications?.email),
+        sms: Boolean(notifications?.sms),
+        push: Boolean(notifications?.push),
+      },
+      types,
+    };
+  }
+
+  /**
+   * Turn individual channels on or off per notification type.
+   * Only the provided type/channel pairs are changed.
+   */
+  static async updatePreferences(
+    userId: string,
+    updates: Partial<Record<NotificationType, NotificationChannelPrefs>>
+  ): Promise<NotificationPreferences> {
+    const $set: Record<string, boolean> = {};
+    for (const [type, prefs] of Object.entries(updates ?? {})) {
+      if (!NOTIFICATION_TYPES.includes(type as NotificationType)) {
+        throw createError(`Unknown notification type "${type}"`, 400);
+      }
+      for (const [channel, enabled] of Object.entries(prefs ?? {})) {
+        if (!NOTIFICATION_CHANNELS.includes(channel as NotificationChannel)) {
+          throw createError(`Unknown notification channel "${channel}"`, 400);
+        }
+        $set[`settings.notifications.byType.${type}.${channel}`] = Boolean(enabled);
+      }
+    }
+
+    if (Object.keys($set).length) {
+      const res = await User.updateOne({ _id: userId }, { $set });
+      if (!res.matchedCount) throw createError("User not found", 404);
+    }
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Register a browser push subscription (re-registering replaces it).
+   */
+  static async addPushSubscription(userId: string, sub: PushSubscriptionInfo): Promise<void> {
+    await User.updateOne({ _id: userId }, { $pull: { pushSubscriptions: { endpoint: sub.endpoint } } });
+    const res = await User.updateOne(
+      { _id: userId },
+      {
+        $push: {
+          pushSubscriptions: {
+            endpoint: sub.endpoint,
+            keys: { p256dh: sub.keys.p256dh, auth: sub.keys.auth },
+            createdAt: new Date(),
+          },
+        },
+      }
+    );
+    if (!res.matchedCount) throw createError("User not found", 404);
+  }
+
+  static async removePushSubscription(userId: string, endpoint: string): Promise<void> {
+    await User.updateOne({ _id: userId }, { $pull: { pushSubscriptions: { endpoint } } });
+  }
+
+  /**
+   * Paginated delivery log for a user's notifications.
+   */
+  static async listDeliveries(
+    userId: string,
+    page = 1,
+    limit = 20
+  ): Promise<{ dispatches: INotificationDispatch[]; total: number }> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw createError("Invalid user ID", 400);
+    }
+    const [dispatches, total] = await Promise.all([
+      NotificationDispatch.find({ user: userId })
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      NotificationDispatch.countDocuments({ user: userId }),
+    ]);
+    return { dispatches, total };
+  }
+}
+
+export default NotificationDispatcher;
@@ -23,12 +23,13 @@ interface ListOpts {
 class NotificationService {
   /** internal helper */
   private static async sendInApp(args: SendArgs): Promise<INotification> {
-    const { senderId, receiverId, message, type = "info", link } = args;
+    const { senderId, receiverId, message, type = "system", link } = args;
     if (!Types.ObjectId.isValid(receiverId)) {
       throw createError("Invalid receiverId", 400);
     }
     return Notification.create({
-      sender: senderId,
+      // "system" and other non-user senders are stored without a sender
+      sender: Types.ObjectId.isValid(senderId) ? senderId : undefined,
       user: receiverId,
       message,
       type,
@@ -45,7 +46,7 @@ class NotificationService {
     senderId: string,
     receiverId: string,
     message: string,
-    type: string = "info",
+    type: string = "system",
     link?: string
   ): Promise<INotification> {
     return this.sendInApp({ senderId, receiverId, message, type, link });
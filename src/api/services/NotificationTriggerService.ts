@@ -1,46 +1,42 @@
 // src/api/services/NotificationTriggerService.ts
 import { Types } from "mongoose";
-import Notification from "../models/Notification";
 import { User } from "../models/User";
 import sendEmail from "../utils/sendEmail";
+import NotificationDispatcher from "./NotificationDispatcher";
 import { logger } from "../../utils/winstonLogger";
 import { createError } from "../middleware/errorHandler";
 
 class NotificationTriggerService {
   /**
-   * Send a daily streak reminder to a user:
-   *  - creates an in-app notification
-   *  - emails the user
+   * Send a daily streak reminder to a user on every channel they allow,
+   * and by email unless they turned reminder emails off.
    */
   static async dailyStreakReminder(userId: string): Promise<void> {
     if (!Types.ObjectId.isValid(userId)) {
       throw createError("Invalid user ID", 400);
     }
-    const user = await User.findById(userId).select("email streak");
+    const user = await User.findById(userId).select("email streakCount");
     if (!user) {
       throw createError("User not found", 404);
     }
 
-    const msg = `Reminder: Keep your streak alive! You're at ${user.streak} days!`;
+    const msg = `Reminder: Keep your streak alive! You're at ${user.streakCount} days!`;
 
-    await Notification.create({
-      user: userId,
+    await NotificationDispatcher.dispatch({
+      userId,
+      type: "reminder",
+      title: "Streak Reminder",
       message: msg,
-      type: "info",
-      read: false,
-    });
-
-    await sendEmail({
-      to: user.email,
-      subject: "Streak Reminder",
-      text: msg,
+      link: "/streaks",
+      // The daily reminder is its own opt-in and has always come by email
+      userRequested: ["email"],
     });
 
     logger.info(`Sent daily streak reminder to user ${userId}`);
   }
 
   /**
-   * Send a “level up” notification (in-app only).
+   * Send a “level up” notification.
    */
   static async levelUpNotification(userId: string, level: number): Promise<void> {
     if (!Types.ObjectId.isValid(userId)) {
@@ -53,18 +49,18 @@ class NotificationTriggerService {
 
     const msg = `Congratulations! You've leveled up to level ${level}!`;
 
-    await Notification.create({
-      user: userId,
+    await NotificationDispatcher.dispatch({
+      userId,
+      type: "level_up",
       message: msg,
-      type: "success",
-      read: false,
+      data: { level },
     });
 
     logger.info(`Sent level-up notification to user ${userId} (level ${level})`);
   }
 
   /**
-   * Send a badge-unlocked notification (in-app only).
+   * Send a badge-unlocked notification.
    */
   static async badgeUnlockNotification(userId: string, badgeName: string): Promise<void> {
     if (!Types.ObjectId.isValid(userId)) {
@@ -77,11 +73,12 @@ class NotificationTriggerService {
 
     const msg = `You unlocked the "${badgeName}" badge!`;
 
-    await Notification.create({
-      user: userId,
+    await NotificationDispatcher.dispatch({
+      userId,
+      type: "badge_unlocked",
       message: msg,
-      type: "success",
-      read: false,
+      link: "/badges",
+      data: { badgeName },
     });
 
     logger.info(`Sent badge-unlock notification to user ${userId} for "${badgeName}"`);
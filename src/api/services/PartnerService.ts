@@ -1,9 +1,12 @@
 // src/api/services/PartnerService.ts
 import { Types } from "mongoose";
 import Notification from "../models/Notification";
+import NotificationDispatcher from "./NotificationDispatcher";
 import { createError } from "../middleware/errorHandler";
 import { logger } from "../../utils/winstonLogger";
 
+const PARTNER_TYPES = ["partner_request", "partner_checkin"];
+
 class PartnerService {
   /**
    * Send a “milestone reached” notification to a partner.
@@ -24,12 +27,12 @@ class PartnerService {
       throw createError("Goal and milestone are required", 400);
     }
 
-    await Notification.create({
-      sender: senderId,
-      user: partnerId,
+    await NotificationDispatcher.dispatch({
+      senderId,
+      userId: partnerId,
       message: `Your partner (User ${senderId}) progressed on milestone "${milestone}" of goal "${goal}".`,
-      type: "partner-notification",
-      read: false,
+      type: "partner_checkin",
+      data: { goal, milestone },
     });
 
     logger.info(
@@ -51,12 +54,11 @@ class PartnerService {
       throw createError("Invalid user or partner ID", 400);
     }
 
-    await Notification.create({
-      sender: senderId,
-      user: partnerId,
+    await NotificationDispatcher.dispatch({
+      senderId,
+      userId: partnerId,
       message: `User ${senderId} has added you as a partner.`,
-      type: "partner-notification",
-      read: false,
+      type: "partner_request",
     });
 
     logger.info(`Partner add notification sent from ${senderId} to ${partnerId}`);
@@ -79,11 +81,11 @@ class PartnerService {
     const skip = (page - 1) * limit;
 
     const [notifications, total] = await Promise.all([
-      Notification.find({ user: userId, type: "partner-notification" })
+      Notification.find({ user: userId, type: { $in: PARTNER_TYPES } })
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(limit),
-      Notification.countDocuments({ user: userId, type: "partner-notification" }),
+      Notification.countDocuments({ user: userId, type: { $in: PARTNER_TYPES } }),
     ]);
 
     return { notifications, total };
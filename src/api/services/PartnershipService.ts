@@ -0,0 +1,519 @@
+// src/api/services/PartnershipService.ts
+import { Types } from "mongoose";
+import type {
+  CheckInFrequency,
+  IAccountabilityPartnership,
+  PartnershipStatus,
+} from "../models/AccountabilityPartnership";
+import AccountabilityPartnership from "../models/AccountabilityPartnership";
+import type { ICheckInResponse, IPartnershipCheckIn } from "../models/PartnershipCheckIn";
+import PartnershipCheckIn from "../models/PartnershipCheckIn";
+import Goal from "../models/Goal";
+import { User } from "../models/User";
+import NotificationDispatcher from "./NotificationDispatcher";
+import WebhookService from "./WebhookService";
+import { createError } from "../middleware/errorHandler";
+import { getLocalDayKey, resolveTimeZone, shiftDayKey } from "../utils/streakUtils";
+import { logger } from "../../utils/winstonLogger";
+
+export interface AgreementInput {
+  frequency: CheckInFrequency;
+  weekdays?: number[];
+  timezone?: string;
+  goals?: string[];
+  prompts?: string[];
+}
+
+export interface CheckInInput {
+  responses?: ICheckInResponse[];
+  goals?: string[];
+  note?: string;
+}
+
+export interface PartnerHealth {
+  userId: string;
+  completed: number;
+  missed: number;
+  completionRate: number | null;
+}
+
+export interface PartnershipHealth {
+  score: number | null;          // 0..100, null until a check-in has been due
+  status: "healthy" | "needs_attention" | "at_risk" | "no_data";
+  windowDays: number;
+  completionRate: number | null;
+  currentStreak: number;         // consecutive scheduled days both partners checked in
+  partners: PartnerHealth[];
+}
+
+const DEFAULT_PROMPTS = [
+  "What did you get done since the last check-in?",
+  "What will you focus on next?",
+  "Is anything blocking you?",
+];
+
+// Missed days evaluated at most this far back (e.g. after downtime)
+const MAX_BACKFILL_DAYS = 14;
+
+const weekdayOf = (dayKey: string): number => new Date(`${dayKey}T00:00:00Z`).getUTCDay();
+
+const otherPartner = (p: IAccountabilityPartnership, userId: string): string =>
+  p.user1.toString() === userId ? p.user2.toString() : p.user1.toString();
+
+class PartnershipService {
+  /** Whether a check-in is scheduled on the given local day */
+  static isCheckInDay(
+    agreement: IAccountabilityPartnership["agreement"],
+    dayKey: string
+  ): boolean {
+    if (!agreement?.agreedAt) return false;
+    if (agreement.frequency === "daily") return true;
+    return agreement.weekdays.includes(weekdayOf(dayKey));
+  }
+
+  /**
+   * Fetch a partnership the user belongs to.
+   */
+  static async getPartnership(
+    partnershipId: string,
+    userId: string
+  ): Promise<IAccountabilityPartnership> {
+    if (!Types.ObjectId.isValid(partnershipId)) {
+      throw createError("Invalid partnership ID", 400);
+    }
+    const partnership = await AccountabilityPartnership.findOne({
+      _id: partnershipId,
+      $or: [{ user1: userId }, { user2: userId }],
+    });
+    if (!partnership) {
+      throw createError("Partnership not found", 404);
+    }
+    return partnership;
+  }
+
+  /**
+   * List a user's partnerships, optionally filtered by status.
+   */
+  static async listPartnerships(
+    userId: string,
+    status?: PartnershipStatus
+  ): Promise<IAccountabilityPartnership[]> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw createError("Invalid user ID", 400);
+    }
+    const filter: Record<string, unknown> = { $or: [{ user1: userId }, { user2: userId }] };
+    if (status) filter.status = status;
+    return AccountabilityPartnership.find(filter)
+      .populate("user1 user2", "username profilePicture")
+      .sort({ createdAt: -1 });
+  }
+
+  /**
+   * Propose check-in terms. The proposer agrees implicitly; the agreement
+   * takes effect once the other partner accepts it. Proposing again
+   * replaces any previous terms and needs fresh acceptance.
+   */
+  static async proposeAgreement(
+    partnershipId: string,
+    userId: string,
+    input: AgreementInput
+  ): Promise<IAccountabilityPartnership> {
+    const partnership = await this.getPartnership(partnershipId, userId);
+    if (partnership.status === "ended") {
+      throw createError("Partnership has ended", 400);
+    }
+
+    const weekdays = [...new Set(input.weekdays ?? [])].sort();
+    if (input.frequency === "weekly" && !weekdays.length) {
+      throw createError("Weekly check-ins need at least one weekday", 400);
+    }
+
+    const goals = [...new Set(input.goals ?? [])];
+    if (goals.length) {
+      const owned = await Goal.countDocuments({
+        _id: { $in: goals },
+        user: { $in: [partnership.user1, partnership.user2] },
+      });
+      if (owned !== goals.length) {
+        throw createError("Shared goals must belong to one of the partners", 400);
+      }
+    }
+
+    let timezone = input.timezone;
+    if (!timezone) {
+      const proposer = await User.findById(userId).select("location.timezone").lean();
+      timezone = proposer?.location?.timezone;
+    }
+
+    partnership.agreement = {
+      frequency: input.frequency,
+      weekdays: input.frequency === "weekly" ? weekdays : [],
+      timezone: resolveTimeZone(timezone),
+      goals: goals.map((id) => new Types.ObjectId(id)),
+      prompts: input.prompts?.length ? input.prompts : DEFAULT_PROMPTS,
+      proposedBy: new Types.ObjectId(userId),
+      agreedBy: [new Types.ObjectId(userId)],
+    };
+    partnership.lastEvaluatedDay = undefined;
+    await partnership.save();
+
+    await this.notify(partnership, userId, "Your partner proposed new check-in terms.", {
+      event: "agreement_proposed",
+    });
+    return partnership;
+  }
+
+  /**
+   * Accept the partner's proposed terms. Today can still be checked in
+   * but is never marked missed; tracking starts tomorrow.
+   */
+  static async acceptAgreement(
+    partnershipId: string,
+    userId: string,
+    now = new Date()
+  ): Promise<IAccountabilityPartnership> {
+    const partnership = await this.getPartnership(partnershipId, userId);
+    const agreement = partnership.agreement;
+    if (!agreement) {
+      throw createError("No agreement has been proposed", 400);
+    }
+    if (agreement.agreedAt) {
+      throw createError("Agreement is already in force", 400);
+    }
+    if (agreement.agreedBy.some((id) => id.equals(userId))) {
+      throw createError("Waiting for your partner to accept", 400);
+    }
+
+    agreement.agreedBy.push(new Types.ObjectId(userId));
+    agreement.agreedAt = now;
+    partnership.lastEvaluatedDay = getLocalDayKey(now, agreement.timezone);
+    await partnership.save();
+
+    await this.notify(partnership, userId, "Your partner accepted the check-in agreement.", {
+      event: "agreement_accepted",
+    });
+    return partnership;
+  }
+
+  /**
+   * Record today's check-in for the user. Only allowed on scheduled days
+   * while the partnership is active; the partner is notified.
+   */
+  static async recordCheckIn(
+    partnershipId: string,
+    userId: string,
+    input: CheckInInput,
+    now = new Date()
+  ): Promise<IPartnershipCheckIn> {
+    const partnership = await this.getPartnership(partnershipId, userId);
+    if (partnership.status !== "active") {
+      throw createError(`Partnership is ${partnership.status}`, 400);
+    }
+    const agreement = partnership.agreement;
+    if (!agreement?.agreedAt) {
+      throw createError("Check-ins start once both partners accept an agreement", 400);
+    }
+
+    const dueDay = getLocalDayKey(now, agreement.timezone);
+    if (!this.isCheckInDay(agreement, dueDay)) {
+      throw createError("No check-in is scheduled for today", 400);
+    }
+
+    const goals = (input.goals ?? []).filter((id) =>
+      agreement.goals.some((g) => g.equals(id))
+    );
+    const existing = await PartnershipCheckIn.findOne({ partnership: partnership._id, user: userId, dueDay });
+    if (existing?.status === "completed") {
+      throw createError("You already checked in today", 409);
+    }
+
+    const checkIn = await PartnershipCheckIn.findOneAndUpdate(
+      { partnership: partnership._id, user: userId, dueDay },
+      {
+        status: "completed",
+        responses: input.responses ?? [],
+        goals,
+        note: input.note,
+        completedAt: now,
+      },
+      { upsert: true, new: true, runValidators: true }
+    );
+
+    await this.notify(partnership, userId, "Your partner completed today's check-in.", {
+      event: "checkin_completed",
+      checkInId: checkIn._id.toString(),
+    });
+    await WebhookService.emit(userId, "checkin.created", {
+      source: "partnership",
+      checkInId: checkIn._id.toString(),
+      partnershipId: partnership._id.toString(),
+      dueDay,
+      goals: goals.map((id) => id.toString()),
+      completedAt: now,
+    });
+    return checkIn;
+  }
+
+  /**
+   * Most recent check-ins for a partnership, both partners.
+   */
+  static async listCheckIns(
+    partnershipId: string,
+    userId: string,
+    limit = 30
+  ): Promise<IPartnershipCheckIn[]> {
+    const partnership = await this.getPartnership(partnershipId, userId);
+    return PartnershipCheckIn.find({ partnership: partnership._id })
+      .sort({ dueDay: -1, createdAt: -1 })
+      .limit(limit);
+  }
+
+  /**
+   * Pause check-ins, optionally until a given date. Days while paused are
+   * never counted as missed.
+   */
+  static async pause(
+    partnershipId: string,
+    userId: string,
+    until?: Date
+  ): Promise<IAccountabilityPartnership> {
+    const partnership = await this.getPartnership(partnershipId, userId);
+    if (partnership.status !== "active") {
+      throw createError(`Partnership is ${partnership.status}`, 400);
+    }
+    if (until && until <= new Date()) {
+      throw createError("Pause end must be in the future", 400);
+    }
+
+    partnership.status = "paused";
+    partnership.pausedUntil = until;
+    await partnership.save();
+
+    await this.notify(partnership, userId, "Your partner paused your check-ins.", {
+      event: "paused",
+      until: until?.toISOString(),
+    });
+    return partnership;
+  }
+
+  /**
+   * Resume a paused partnership. Scheduling restarts from today.
+   */
+  static async resume(
+    partnershipId: string,
+    userId: string,
+    now = new Date()
+  ): Promise<IAccountabilityPartnership> {
+    const partnership = await this.getPartnership(partnershipId, userId);
+    if (partnership.status !== "paused") {
+      throw createError("Partnership is not paused", 400);
+    }
+    this.reactivate(partnership, now);
+    await partnership.save();
+
+    await this.notify(partnership, userId, "Your partner resumed your check-ins.", {
+      event: "resumed",
+    });
+    return partnership;
+  }
+
+  /**
+   * End a partnership for good. Check-in history is kept.
+   */
+  static async end(
+    partnershipId: string,
+    userId: string,
+    reason?: string
+  ): Promise<IAccountabilityPartnership> {
+    const partnership = await this.getPartnership(partnershipId, userId);
+    if (partnership.status === "ended") {
+      throw createError("Partnership has already ended", 400);
+    }
+
+    partnership.status = "ended";
+    partnership.endedAt = new Date();
+    partnership.endedBy = new Types.ObjectId(userId);
+    partnership.endReason = reason;
+    partnership.pausedUntil = undefined;
+    await partnership.save();
+
+    await this.notify(partnership, userId, "Your partner ended your accountability partnership.", {
+      event: "ended",
+    });
+    return partnership;
+  }
+
+  /**
+   * Health of a partnership over the last `days` days: overall completion
+   * rate (75%) and how evenly both partners keep it up (25%).
+   */
+  static async getHealth(
+    partnershipId: string,
+    userId: string,
+    days = 30,
+    now = new Date()
+  ): Promise<PartnershipHealth> {
+    const partnership = await this.getPartnership(partnershipId, userId);
+    const timezone = partnership.agreement?.timezone ?? "UTC";
+    const today = getLocalDayKey(now, timezone);
+
+    const records = await PartnershipCheckIn.find({
+      partnership: partnership._id,
+      dueDay: { $gt: shiftDayKey(today, -days), $lte: today },
+    })
+      .select("user dueDay status")
+      .sort({ dueDay: -1 })
+      .lean();
+
+    const partners = [partnership.user1, partnership.user2].map((id): PartnerHealth => {
+      const mine = records.filter((r) => r.user.equals(id));
+      const completed = mine.filter((r) => r.status === "completed").length;
+      const missed = mine.length - completed;
+      return {
+        userId: id.toString(),
+        completed,
+        missed,
+        completionRate: mine.length ? completed / mine.length : null,
+      };
+    });
+
+    const completed = partners.reduce((sum, p) => sum + p.completed, 0);
+    const total = records.length;
+    const completionRate = total ? completed / total : null;
+
+    // Walk scheduled days newest first; a partial day (today) is skipped
+    let currentStreak = 0;
+    const byDay = new Map<string, string[]>();
+    for (const r of records) byDay.set(r.dueDay, [...(byDay.get(r.dueDay) ?? []), r.status]);
+    for (const statuses of byDay.values()) {
+      if (statuses.includes("missed")) break;
+      if (statuses.length === 2) currentStreak++;
+    }
+
+    let score: number | null = null;
+    if (completionRate !== null) {
+      const [a, b] = partners.map((p) => p.completionRate ?? 0);
+      const balance = 1 - Math.abs(a - b);
+      score = Math.round(100 * (0.75 * completionRate + 0.25 * balance));
+    }
+
+    return {
+      score,
+      status:
+        score === null ? "no_data" : score >= 75 ? "healthy" : score >= 50 ? "needs_attention" : "at_risk",
+      windowDays: days,
+      completionRate: completionRate === null ? null : Math.round(completionRate * 100) / 100,
+      currentStreak,
+      partners,
+    };
+  }
+
+  /**
+   * Mark scheduled check-ins that passed without a submission as missed and
+   * tell the other partner. Runs over every local day since the last pass,
+   * up to yesterday, so each day is evaluated once. Also resumes
+   * partnerships whose pause has expired.
+   */
+  static async processMissedCheckIns(now = new Date()): Promise<number> {
+    const expired = await AccountabilityPartnership.find({
+      status: "paused",
+      pausedUntil: { $lte: now },
+    });
+    for (const partnership of expired) {
+      this.reactivate(partnership, now);
+      await partnership.save();
+    }
+
+    const cursor = AccountabilityPartnership.find({
+      status: "active",
+      "agreement.agreedAt": { $exists: true },
+    }).cursor();
+
+    let missed = 0;
+    for await (const partnership of cursor) {
+      const agreement = partnership.agreement;
+      const yesterday = shiftDayKey(getLocalDayKey(now, agreement.timezone), -1);
+      let day = partnership.lastEvaluatedDay
+        ? shiftDayKey(partnership.lastEvaluatedDay, 1)
+        : yesterday;
+      const earliest = shiftDayKey(yesterday, -(MAX_BACKFILL_DAYS - 1));
+      if (day < earliest) day = earliest;
+      if (day > yesterday) continue;
+
+      try {
+        for (; day <= yesterday; day = shiftDayKey(day, 1)) {
+          if (!this.isCheckInDay(agreement, day)) continue;
+          for (const user of [partnership.user1, partnership.user2]) {
+            const result = await PartnershipCheckIn.updateOne(
+              { partnership: partnership._id, user, dueDay: day },
+              { $setOnInsert: { status: "missed" } },
+              { upsert: true }
+            );
+            if (!result.upsertedCount) continue;
+
+            missed++;
+            await this.notify(
+              partnership,
+              user.toString(),
+              `Your partner missed their check-in on ${day}. A quick nudge might help!`,
+              { event: "checkin_missed", dueDay: day }
+            );
+            await PartnershipCheckIn.updateOne(
+              { _id: result.upsertedId },
+              { partnerNotifiedAt: new Date() }
+            );
+            await WebhookService.emit(otherPartner(partnership, user.toString()), "partner.missed_checkin", {
+              partnershipId: partnership._id.toString(),
+              partnerId: user.toString(),
+              dueDay: day,
+            });
+          }
+        }
+        partnership.lastEvaluatedDay = yesterday;
+        await partnership.save();
+      } catch (err) {
+        logger.error(
+          `❌ Failed to evaluate check-ins for partnership ${partnership._id}: ${(err as Error).message}`
+        );
+      }
+    }
+
+    if (missed > 0) logger.info(`⏰ Recorded ${missed} missed partner check-ins`);
+    return missed;
+  }
+
+  /** Back to active; days spent paused are skipped */
+  private static reactivate(partnership: IAccountabilityPartnership, now: Date): void {
+    partnership.status = "active";
+    partnership.pausedUntil = undefined;
+    if (partnership.agreement?.agreedAt) {
+      partnership.lastEvaluatedDay = shiftDayKey(
+        getLocalDayKey(now, partnership.agreement.timezone),
+        -1
+      );
+    }
+  }
+
+  /** Tell the other partner about something `fromUserId` did */
+  private static async notify(
+    partnership: IAccountabilityPartnership,
+    fromUserId: string,
+    message: string,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await NotificationDispatcher.dispatch({
+        senderId: fromUserId,
+        userId: otherPartner(partnership, fromUserId),
+        type: "partner_checkin",
+        message,
+        link: `/partnerships/${partnership._id}`,
+        data: { partnershipId: partnership._id.toString(), ...data },
+      });
+    } catch (err) {
+      logger.error(`❌ Partnership notification failed: ${(err as Error).message}`);
+    }
+  }
+}
+
+export default PartnershipService;
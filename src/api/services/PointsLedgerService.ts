@@ -0,0 +1,354 @@
+// src/api/services/PointsLedgerService.ts
+import mongoose, { Types } from "mongoose";
+import type { IPointsLedgerEntry } from "../models/PointsLedger";
+import PointsLedger from "../models/PointsLedger";
+import { User } from "../models/User";
+import Level from "../models/Level";
+import Gamification from "../models/Gamification";
+import XpHistory from "../models/XpHistory";
+import { createError } from "../middleware/errorHandler";
+import LeaderboardService from "./LeaderboardService";
+import { gamificationLevelForXp, levelForXp, xpForLevel } from "../utils/levelUtils";
+import { logger } from "../../utils/winstonLogger";
+
+export interface LedgerInput {
+  userId: string;
+  amount: number;                   // always positive; direction comes from the method
+  reason: string;
+  idempotencyKey: string;
+  sourceType?: string;
+  sourceId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CreditInput extends LedgerInput {
+  xp?: number;                      // lifetime XP earned; defaults to `amount`, 0 for refunds
+}
+
+export interface LedgerResult {
+  entry: IPointsLedgerEntry;
+  applied: boolean;                 // false when the key had already been used
+  balance: number;
+}
+
+export interface LedgerTotals {
+  balance: number;
+  xp: number;
+  entries: number;
+  hasOpening: boolean;
+}
+
+export interface DriftReport {
+  userId: string;
+  ledger: LedgerTotals;
+  userPoints: number;
+  levelXp: number | null;
+  gamificationXp: number | null;
+  drift: string[];                  // human-readable mismatches; empty when in sync
+  repaired: boolean;
+}
+
+export const OPENING_BALANCE_REASON = "opening_balance";
+const openingKey = (userId: string): string => `opening:${userId}`;
+
+const isDuplicateKey = (err: unknown): boolean =>
+  (err as { code?: number })?.code === 11000;
+
+const assertAmount = (amount: number): void => {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw createError("Points must be a positive whole number", 400);
+  }
+};
+
+/**
+ * Every change to a user's points goes through here. Each change is one
+ * append-only ledger entry keyed by an idempotency key, so retried requests
+ * and re-run jobs apply at most once. User.points is the spendable balance;
+ * earned XP additionally feeds Level and Gamification. All three can be
+ * rebuilt from the ledger (see src/scripts/reconcilePoints.ts).
+ */
+class PointsLedgerService {
+  /**
+   * Add points. The entry is written first so a duplicate key stops the
+   * credit before any balance moves.
+   */
+  static async credit(input: CreditInput): Promise<LedgerResult> {
+    assertAmount(input.amount);
+    const xp = input.xp ?? input.amount;
+    await this.assertUser(input.userId);
+
+    let entry: IPointsLedgerEntry;
+    try {
+      entry = await PointsLedger.create({
+        user: input.userId,
+        direction: "credit",
+        amount: input.amount,
+        xp,
+        reason: input.reason,
+        sourceType: input.sourceType,
+        sourceId: input.sourceId,
+        idempotencyKey: input.idempotencyKey,
+        metadata: input.metadata,
+      });
+    } catch (err) {
+      if (!isDuplicateKey(err)) throw err;
+      return this.replay(input.idempotencyKey);
+    }
+
+    const user = await User.findByIdAndUpdate(
+      input.userId,
+      { $inc: { points: input.amount } },
+      { new: true }
+    ).select("points");
+    if (xp > 0) await this.applyXp(input.userId, xp, input.reason);
+
+    logger.info(`Credited ${input.amount} points to user ${input.userId} (${input.reason})`);
+    return { entry, applied: true, balance: user?.points ?? 0 };
+  }
+
+  /**
+   * Spend points. The balance is only charged if it covers the amount; if
+   * another request with the same key wins the race, the charge is undone.
+   */
+  static async debit(input: LedgerInput): Promise<LedgerResult> {
+    assertAmount(input.amount);
+    if (await PointsLedger.exists({ idempotencyKey: input.idempotencyKey })) {
+      return this.replay(input.idempotencyKey);
+    }
+
+    const charged = await User.findOneAndUpdate(
+      { _id: input.userId, points: { $gte: input.amount } },
+      { $inc: { points: -input.amount } },
+      { new: true }
+    ).select("points");
+    if (!charged) {
+      await this.assertUser(input.userId);
+      throw createError("Insufficient points", 400);
+    }
+
+    try {
+      const entry = await PointsLedger.create({
+        user: input.userId,
+        direction: "debit",
+        amount: -input.amount,
+        xp: 0,
+        reason: input.reason,
+        sourceType: input.sourceType,
+        sourceId: input.sourceId,
+        idempotencyKey: input.idempotencyKey,
+        metadata: input.metadata,
+      });
+      logger.info(`Debited ${input.amount} points from user ${input.userId} (${input.reason})`);
+      return { entry, applied: true, balance: charged.points };
+    } catch (err) {
+      await User.updateOne({ _id: input.userId }, { $inc: { points: input.amount } });
+      if (!isDuplicateKey(err)) throw err;
+      return this.replay(input.idempotencyKey);
+    }
+  }
+
+  /** Whether an entry with this key has been recorded */
+  static async hasEntry(idempotencyKey: string): Promise<boolean> {
+    return !!(await PointsLedger.exists({ idempotencyKey }));
+  }
+
+  /**
+   * A user's ledger, newest first.
+   */
+  static async listEntries(
+    userId: string,
+    page = 1,
+    limit = 20
+  ): Promise<{ entries: IPointsLedgerEntry[]; total: number; page: number; totalPages: number }> {
+    const safeLimit = Math.min(100, Math.max(1, limit));
+    const safePage = Math.max(1, page);
+    const [entries, total] = await Promise.all([
+      PointsLedger.find({ user: userId })
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((safePage - 1) * safeLimit)
+        .limit(safeLimit)
+        .lean<IPointsLedgerEntry[]>(),
+      PointsLedger.countDocuments({ user: userId }),
+    ]);
+    return { entries, total, page: safePage, totalPages: Math.ceil(total / safeLimit) };
+  }
+
+  /**
+   * Balance and lifetime XP according to the ledger.
+   */
+  static async getTotals(userId: string): Promise<LedgerTotals> {
+    const [row] = await PointsLedger.aggregate<{
+      balance: number;
+      xp: number;
+      entries: number;
+      opening: number;
+    }>([
+      { $match: { user: new Types.ObjectId(userId) } },
+      {
+        $group: {
+          _id: null,
+          balance: { $sum: "$amount" },
+          xp: { $sum: "$xp" },
+          entries: { $sum: 1 },
+          opening: { $sum: { $cond: [{ $eq: ["$reason", OPENING_BALANCE_REASON] }, 1, 0] } },
+        },
+      },
+    ]);
+    return {
+      balance: row?.balance ?? 0,
+      xp: row?.xp ?? 0,
+      entries: row?.entries ?? 0,
+      hasOpening: (row?.opening ?? 0) > 0,
+    };
+  }
+
+  /**
+   * Record the balance and XP a user had before the ledger existed, i.e.
+   * whatever the stored totals hold beyond the ledger's own sum. Keyed per
+   * user, so it can only ever be written once.
+   */
+  static async openBalance(userId: string): Promise<IPointsLedgerEntry | null> {
+    const totals = await this.getTotals(userId);
+    if (totals.hasOpening) return null;
+
+    const stored = await this.loadStored(userId);
+    const amount = stored.userPoints - totals.balance;
+    const xp = Math.max(0, Math.max(stored.levelXp ?? 0, stored.gamificationXp ?? 0) - totals.xp);
+    try {
+      return await PointsLedger.create({
+        user: userId,
+        direction: amount < 0 ? "debit" : "credit",
+        amount,
+        xp,
+        reason: OPENING_BALANCE_REASON,
+        idempotencyKey: openingKey(userId),
+        metadata: { userPoints: stored.userPoints, levelXp: stored.levelXp },
+      });
+    } catch (err) {
+      if (isDuplicateKey(err)) return null;
+      throw err;
+    }
+  }
+
+  /**
+   * Compare User.points, Level and Gamification with the ledger. With
+   * `repair`, overwrite the stored values with the ledger's — but only once
+   * the user has an opening balance, since before that the ledger misses
+   * everything earned before it existed.
+   */
+  static async reconcileUser(userId: string, repair = false): Promise<DriftReport> {
+    const [ledger, stored] = await Promise.all([this.getTotals(userId), this.loadStored(userId)]);
+    const drift: string[] = [];
+
+    if (stored.userPoints !== ledger.balance) {
+      drift.push(`User.points ${stored.userPoints} ≠ ledger balance ${ledger.balance}`);
+    }
+    const level = levelForXp(ledger.xp);
+    if (stored.level) {
+      const { totalXp, level: lvl, points, nextLevelAt } = stored.level;
+      if (totalXp !== ledger.xp) drift.push(`Level.totalXp ${totalXp ?? "unset"} ≠ ledger XP ${ledger.xp}`);
+      if (lvl !== level.level || points !== level.points || nextLevelAt !== level.nextLevelAt) {
+        drift.push(
+          `Level ${lvl} (${points}/${nextLevelAt}) ≠ expected ${level.level} (${level.points}/${level.nextLevelAt})`
+        );
+      }
+    } else if (ledger.xp > 0) {
+      drift.push(`Level missing for ledger XP ${ledger.xp}`);
+    }
+    if (stored.gamificationXp !== null && stored.gamificationXp !== ledger.xp) {
+      drift.push(`Gamification.points ${stored.gamificationXp} ≠ ledger XP ${ledger.xp}`);
+    }
+
+    const repairable = repair && drift.length > 0 && ledger.hasOpening;
+    if (repair && drift.length && !ledger.hasOpening) {
+      logger.warn(`Not repairing points drift for user ${userId}: no opening balance recorded`);
+    }
+    if (repairable) {
+      await User.updateOne({ _id: userId }, { $set: { points: ledger.balance } });
+      if (stored.level || ledger.xp > 0) {
+        await Level.updateOne(
+          { user: userId },
+          { $set: { totalXp: ledger.xp, ...level } },
+          { upsert: true }
+        );
+      }
+      if (stored.gamificationXp !== null) {
+        await Gamification.updateOne(
+          { userId },
+          { $set: { points: ledger.xp, level: gamificationLevelForXp(ledger.xp) } }
+        );
+      }
+      logger.warn(`Repaired points drift for user ${userId}: ${drift.join("; ")}`);
+    }
+
+    return {
+      userId,
+      ledger,
+      userPoints: stored.userPoints,
+      levelXp: stored.levelXp,
+      gamificationXp: stored.gamificationXp,
+      drift,
+      repaired: repairable,
+    };
+  }
+
+  /** The entry a reused key refers to, with the current balance */
+  private static async replay(idempotencyKey: string): Promise<LedgerResult> {
+    const entry = await PointsLedger.findOne({ idempotencyKey });
+    if (!entry) throw createError("Ledger entry not found", 500);
+    const user = await User.findById(entry.user).select("points").lean();
+    return { entry, applied: false, balance: user?.points ?? 0 };
+  }
+
+  private static async assertUser(userId: string): Promise<void> {
+    if (!mongoose.isValidObjectId(userId)) throw createError("Invalid user ID", 400);
+    if (!(await User.exists({ _id: userId }))) throw createError("User not found", 404);
+  }
+
+  /**
+   * Feed earned XP into the level and gamification projections and the
+   * XP history. These follow the ledger; reconciliation fixes any gap.
+   */
+  private static async applyXp(userId: string, xp: number, reason: string): Promise<void> {
+    const uid = new Types.ObjectId(userId);
+    await Level.addPoints(uid, xp);
+
+    const profile = await Gamification.findOneAndUpdate(
+      { userId: uid },
+      { $inc: { points: xp } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+    const gamificationLevel = gamificationLevelForXp(profile.points);
+    await Gamification.updateOne(
+      { _id: profile._id, level: { $lt: gamificationLevel } },
+      { $set: { level: gamificationLevel } }
+    );
+
+    await XpHistory.logXp(uid, xp, reason).catch((err: Error) =>
+      logger.warn(`Could not log XP history for user ${userId}: ${err.message}`)
+    );
+    await LeaderboardService.recordXp(userId, xp);
+  }
+
+  private static async loadStored(userId: string): Promise<{
+    userPoints: number;
+    level: { totalXp?: number; level: number; points: number; nextLevelAt: number } | null;
+    levelXp: number | null;
+    gamificationXp: number | null;
+  }> {
+    const [user, level, profile] = await Promise.all([
+      User.findById(userId).select("points").lean(),
+      Level.findOne({ user: userId }).select("totalXp level points nextLevelAt").lean(),
+      Gamification.findOne({ userId }).select("points").lean(),
+    ]);
+    if (!user) throw createError("User not found", 404);
+    return {
+      userPoints: user.points ?? 0,
+      level,
+      levelXp: level ? level.totalXp ?? xpForLevel(level.level, level.points) : null,
+      gamificationXp: profile ? profile.points : null,
+    };
+  }
+}
+
+export default PointsLedgerService;
@@ -1,71 +1,62 @@
-import { IUser, User } from "../models/User"; // Ensure the correct import for User model
-import Reward from "../models/Reward"; // Correct import for the Reward model
-import { Types } from "mongoose";
+import { User } from "../models/User"; // Ensure the correct import for User model
+import type { IRedemption } from "../models/Redemption";
 import { createError } from "../middleware/errorHandler";
+import PointsLedgerService from "./PointsLedgerService";
+import type { LedgerResult } from "./PointsLedgerService";
+import RedemptionService from "./RedemptionService";
 // …
-export const addPoints = async (userId: string, points: number): Promise<IUser> => {
-  if (points <= 0) throw createError("Points must be a positive number", 400);
-  const user = await User.findById(userId);
-  if (!user) throw createError("User not found", 404);
-  user.points = (user.points ?? 0) + points;
-  await user.save();
-  return user;
+export const addPoints = async (
+  userId: string,
+  points: number,
+  idempotencyKey: string
+): Promise<LedgerResult> => {
+  return PointsLedgerService.credit({
+    userId,
+    amount: points,
+    reason: "manual_credit",
+    idempotencyKey,
+  });
 };
 
 // 🟢 Service to subtract points from a user
-export const subtractPoints = async (userId: string, points: number): Promise<IUser> => {
-  if (points <= 0) {
-    throw new Error("Points must be a positive number.");
-  }
-
-  const user = await User.findById(userId);
-  if (!user) {
-    throw new Error("User not found.");
-  }
-
-  if ((user.points ?? 0) < points) {
-    throw new Error("Insufficient points.");
-  }
-
-  user.points = (user.points ?? 0) - points;
-  await user.save();
-
-  // Return the updated user document
-  return user; // Return the Mongoose document
+export const subtractPoints = async (
+  userId: string,
+  points: number,
+  idempotencyKey: string
+): Promise<LedgerResult> => {
+  return PointsLedgerService.debit({
+    userId,
+    amount: points,
+    reason: "manual_debit",
+    idempotencyKey,
+  });
 };
 
 // 🟢 Service to get a user's points
 export const getUserPoints = async (userId: string): Promise<number> => {
-  const user = await User.findById(userId);
+  const user = await User.findById(userId).select("points");
   if (!user) {
-    throw new Error("User not found.");
+    throw createError("User not found", 404);
   }
   return user.points ?? 0;
 };
 
-// 🟢 Service to redeem points for rewards
-export const redeemPoints = async (userId: string, rewardId: string): Promise<{ message: string; reward: any; userPoints: number }> => {
-  const user = await User.findById(userId);
-  if (!user) {
-    throw new Error("User not found.");
-  }
-
-  const reward = await Reward.findById(rewardId);
-  if (!reward) {
-    throw new Error("Reward not found.");
-  }
-
-  if ((user.points ?? 0) < reward.pointsRequired) {    throw new Error("Insufficient points to redeem this reward.");
-  }
-
-  user.points = (user.points ?? 0) - reward.pointsRequired; // Use default value of 0 if undefined
-  user.rewards.push(reward._id as Types.ObjectId); // Add reward to user's rewards list
-  await user.save();
-
+// 🟢 Service to redeem points for rewards (same catalog rules as /api/rewards/redeem)
+export const redeemPoints = async (
+  userId: string,
+  rewardId: string,
+  idempotencyKey: string
+): Promise<{ message: string; reward: any; redemption: IRedemption; userPoints: number }> => {
+  const { reward, redemption, remainingPoints } = await RedemptionService.redeem(
+    userId,
+    rewardId,
+    idempotencyKey
+  );
 
   return {
     message: "Reward redeemed successfully.",
     reward,
-    userPoints: user.points,
+    redemption,
+    userPoints: remainingPoints,
   };
 };
@@ -1,28 +1,201 @@
 // src/api/services/RedemptionService.ts
 import { Types } from "mongoose";
-import Redemption, { IRedemption } from "../models/Redemption";
+import Redemption, { IRedemption, RedemptionStatus } from "../models/Redemption";
+import { Reward, IReward } from "../models/Reward";
+import { User } from "../models/User";
+import type { SubscriptionTier } from "../models/User";
 import { createError } from "../middleware/errorHandler";
+import PointsLedgerService from "./PointsLedgerService";
+import NotificationDispatcher from "./NotificationDispatcher";
+import { logger } from "../../utils/winstonLogger";
 
+export interface RedeemResult {
+  redemption: IRedemption;
+  reward: IReward;
+  remainingPoints: number;
+  replayed: boolean;
+}
+
+export interface PaginatedRedemptions {
+  items: IRedemption[];
+  total: number;
+}
+
+// Redemptions that still count against stock and per-user caps
+const ACTIVE_STATUSES: RedemptionStatus[] = ["pending", "fulfilled"];
+
+/** Why the reward can't be redeemed by this user right now, if anything */
+export const unavailableReason = (
+  reward: IReward,
+  tier?: SubscriptionTier,
+  now = new Date()
+): string | null => {
+  if (!reward.isActive) return "Reward is no longer available";
+  if (reward.availableFrom && reward.availableFrom > now) return "Reward is not available yet";
+  if (reward.availableUntil && reward.availableUntil <= now) return "Reward is no longer available";
+  if (reward.allowedTiers?.length && !reward.allowedTiers.includes(tier)) {
+    return `Reward requires a ${reward.allowedTiers.join(" or ")} subscription`;
+  }
+  if (reward.stock !== null && reward.stock !== undefined && reward.stock <= 0) return "Reward is out of stock";
+  return null;
+};
+
+/**
+ * Redeem catalog rewards and move redemptions through their lifecycle:
+ * pending → fulfilled → refunded, or pending → canceled. Points are
+ * charged and returned through the ledger; stock is held while a
+ * redemption is pending or fulfilled and released when it is canceled.
+ */
 class RedemptionService {
-  /** Redeem an item for a user, record the points spent. */
-  static async redeemForUser(
-    userId: string,
-    item: string,
-    pointsUsed: number
-  ): Promise<IRedemption> {
-    if (!Types.ObjectId.isValid(userId)) {
-      throw createError("Invalid user ID", 400);
+  /**
+   * Redeem a catalog reward for a user. A retried request with the same
+   * idempotency key returns the original redemption without charging again.
+   */
+  static async redeem(userId: string, rewardId: string, idempotencyKey: string): Promise<RedeemResult> {
+    if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(rewardId)) {
+      throw createError("Invalid user or reward ID", 400);
+    }
+
+    const existing = await Redemption.findOne({ idempotencyKey });
+    if (existing) return this.replay(existing);
+
+    const [reward, user] = await Promise.all([
+      Reward.findById(rewardId),
+      User.findById(userId).select("subscriptionTier"),
+    ]);
+    if (!reward) throw createError("Reward not found", 404);
+    if (!user) throw createError("User not found", 404);
+
+    const reason = unavailableReason(reward, user.subscriptionTier);
+    if (reason) throw createError(reason, 409);
+    if (reward.perUserLimit && (await this.activeCount(userId, reward._id)) >= reward.perUserLimit) {
+      throw createError("You have reached the redemption limit for this reward", 409);
     }
-    if (pointsUsed < 1) {
-      throw createError("Points used must be at least 1", 400);
+
+    // Hold a unit before charging so two users can't buy the last one
+    if (reward.stock !== null) {
+      const held = await Reward.updateOne({ _id: reward._id, stock: { $gt: 0 } }, { $inc: { stock: -1 } });
+      if (!held.modifiedCount) throw createError("Reward is out of stock", 409);
+    }
+
+    let debit;
+    try {
+      debit = await PointsLedgerService.debit({
+        userId,
+        amount: reward.pointsRequired,
+        reason: "reward_redeemed",
+        sourceType: "Reward",
+        sourceId: reward._id.toString(),
+        idempotencyKey,
+      });
+    } catch (err) {
+      await this.restock(reward);
+      throw err;
+    }
+
+    // The key was charged before: either a concurrent request is still
+    // creating its redemption, or an earlier attempt failed and was refunded
+    if (!debit.applied) {
+      const winner = await Redemption.findOne({ idempotencyKey });
+      await this.restock(reward);
+      if (winner) return this.replay(winner);
+      throw createError("This request was already processed; retry with a new Idempotency-Key", 409);
+    }
+
+    let redemption: IRedemption;
+    try {
+      redemption = await Redemption.create({
+        user: userId,
+        reward: reward._id,
+        pointsUsed: reward.pointsRequired,
+        item: reward.name,
+        redemptionDate: new Date(),
+        status: "pending",
+        idempotencyKey,
+      });
+    } catch (err) {
+      // A concurrent retry with the same key got there first
+      const winner = await Redemption.findOne({ idempotencyKey });
+      await this.restock(reward);
+      if (winner) return this.replay(winner);
+
+      if (debit.applied) {
+        await PointsLedgerService.credit({
+          userId,
+          amount: reward.pointsRequired,
+          xp: 0,
+          reason: "reward_refunded",
+          sourceType: "Reward",
+          sourceId: reward._id.toString(),
+          idempotencyKey: `${idempotencyKey}:refund`,
+        });
+      }
+      throw err;
+    }
+
+    // Concurrent redemptions can both pass the cap check; the late one backs out
+    if (reward.perUserLimit && (await this.activeCount(userId, reward._id)) > reward.perUserLimit) {
+      await this.cancel(redemption._id.toString(), null, "Redemption limit reached", false);
+      throw createError("You have reached the redemption limit for this reward", 409);
     }
-    const red = await Redemption.create({
-      user: userId,
-      item,
-      pointsUsed,
-      redemptionDate: new Date(),
+
+    await User.updateOne({ _id: userId }, { $addToSet: { rewards: reward._id } });
+    logger.info(`User ${userId} redeemed reward ${rewardId} (redemption ${redemption._id})`);
+    return { redemption, reward, remainingPoints: debit.balance, replayed: false };
+  }
+
+  /** Mark a pending redemption as delivered */
+  static async fulfill(redemptionId: string, adminId: string, note?: string): Promise<IRedemption> {
+    const redemption = await this.transition(redemptionId, "pending", "fulfilled", {
+      fulfilledAt: new Date(),
+      handledBy: adminId,
+      ...(note ? { fulfillmentNote: note } : {}),
     });
-    return red;
+    await this.notify(redemption, `Your "${redemption.item}" reward has been fulfilled.`);
+    return redemption;
+  }
+
+  /**
+   * Cancel a pending redemption: returns the points and releases the held
+   * unit of stock. `adminId` is null when the system backs a redemption out.
+   */
+  static async cancel(
+    redemptionId: string,
+    adminId: string | null,
+    reason?: string,
+    notify = true
+  ): Promise<IRedemption> {
+    const redemption = await this.transition(redemptionId, "pending", "canceled", {
+      canceledAt: new Date(),
+      ...(adminId ? { handledBy: adminId } : {}),
+      ...(reason ? { statusReason: reason } : {}),
+    });
+    await this.returnPoints(redemption);
+    const reward = redemption.reward ? await Reward.findById(redemption.reward) : null;
+    if (reward) await this.restock(reward);
+
+    if (notify) {
+      await this.notify(
+        redemption,
+        `Your "${redemption.item}" redemption was canceled and ${redemption.pointsUsed} points were returned.`
+      );
+    }
+    return redemption;
+  }
+
+  /** Refund a fulfilled redemption. The delivered unit is not restocked. */
+  static async refund(redemptionId: string, adminId: string, reason?: string): Promise<IRedemption> {
+    const redemption = await this.transition(redemptionId, "fulfilled", "refunded", {
+      refundedAt: new Date(),
+      handledBy: adminId,
+      ...(reason ? { statusReason: reason } : {}),
+    });
+    await this.returnPoints(redemption);
+    await this.notify(
+      redemption,
+      `Your "${redemption.item}" redemption was refunded: ${redemption.pointsUsed} points were returned.`
+    );
+    return redemption;
   }
 
   /** List all redemptions by a single user. */
@@ -33,6 +206,29 @@ class RedemptionService {
     return Redemption.findByUser(new Types.ObjectId(userId));
   }
 
+  /** Redemptions for admins to work through, oldest first */
+  static async listForAdmin(opts: {
+    status?: RedemptionStatus;
+    page?: number;
+    limit?: number;
+  }): Promise<PaginatedRedemptions> {
+    const page = Math.max(1, opts.page || 1);
+    const limit = Math.min(100, Math.max(1, opts.limit || 20));
+    const filter: Record<string, unknown> = { reward: { $exists: true } };
+    if (opts.status) filter.status = opts.status;
+
+    const [items, total] = await Promise.all([
+      Redemption.find(filter)
+        .sort({ redemptionDate: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("user", "username email")
+        .populate("reward", "name rewardType stock"),
+      Redemption.countDocuments(filter),
+    ]);
+    return { items, total };
+  }
+
   /** List all redemptions in a date range. */
   static async listByDateRange(start: Date, end: Date): Promise<IRedemption[]> {
     if (end < start) {
@@ -40,6 +236,71 @@ class RedemptionService {
     }
     return Redemption.findByDateRange(start, end);
   }
+
+  private static async replay(redemption: IRedemption): Promise<RedeemResult> {
+    const [reward, user] = await Promise.all([
+      Reward.findById(redemption.reward),
+      User.findById(redemption.user).select("points"),
+    ]);
+    return { redemption, reward, remainingPoints: user?.points ?? 0, replayed: true };
+  }
+
+  private static activeCount(userId: string, rewardId: Types.ObjectId): Promise<number> {
+    return Redemption.countDocuments({ user: userId, reward: rewardId, status: { $in: ACTIVE_STATUSES } });
+  }
+
+  private static async restock(reward: IReward): Promise<void> {
+    if (reward.stock === null || reward.stock === undefined) return;
+    await Reward.updateOne({ _id: reward._id, stock: { $ne: null } }, { $inc: { stock: 1 } });
+  }
+
+  /** Move a redemption between states; only one caller can win each move */
+  private static async transition(
+    redemptionId: string,
+    from: RedemptionStatus,
+    to: RedemptionStatus,
+    fields: Record<string, unknown>
+  ): Promise<IRedemption> {
+    if (!Types.ObjectId.isValid(redemptionId)) {
+      throw createError("Invalid redemption ID", 400);
+    }
+    const redemption = await Redemption.findOneAndUpdate(
+      { _id: redemptionId, status: from, reward: { $exists: true } },
+      { $set: { status: to, ...fields } },
+      { new: true }
+    );
+    if (redemption) return redemption;
+
+    const current = await Redemption.findById(redemptionId).select("status reward");
+    if (!current) throw createError("Redemption not found", 404);
+    if (!current.reward) throw createError("Only catalog redemptions can change status", 400);
+    throw createError(`Cannot move a ${current.status} redemption to ${to}`, 409);
+  }
+
+  private static async returnPoints(redemption: IRedemption): Promise<void> {
+    await PointsLedgerService.credit({
+      userId: redemption.user.toString(),
+      amount: redemption.pointsUsed,
+      xp: 0,
+      reason: "reward_refunded",
+      sourceType: "Redemption",
+      sourceId: redemption._id.toString(),
+      idempotencyKey: `redemption:${redemption._id.toString()}:refund`,
+    });
+  }
+
+  private static async notify(redemption: IRedemption, message: string): Promise<void> {
+    await NotificationDispatcher.dispatch({
+      userId: redemption.user.toString(),
+      type: "reward_update",
+      title: "Reward update",
+      message,
+      link: "/rewards/my",
+      data: { redemptionId: redemption._id.toString(), status: redemption.status },
+    }).catch((err: Error) =>
+      logger.warn(`Could not notify user about redemption ${redemption._id}: ${err.message}`)
+    );
+  }
 }
 
 export default RedemptionService;
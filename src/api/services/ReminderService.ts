@@ -1,123 +1,301 @@
 // src/api/services/ReminderService.ts
 import type { ScheduledTask } from "node-cron";
 import cron from "node-cron";
-import { Reminder, IReminder } from "../models/Reminder";
-import NotificationService from "./NotificationService";
-import { sendEmail } from "./emailService";
+import { Types } from "mongoose";
+import { Reminder, IReminder, Recurrence } from "../models/Reminder";
+import { User } from "../models/User";
+import Goal from "../models/Goal";
+import type { NotificationChannel } from "../models/Notification";
+import NotificationDispatcher from "./NotificationDispatcher";
+import HabitService from "./HabitService";
 import LoggingService from "./LoggingService";
+import { createError } from "../middleware/errorHandler";
+import { parseRRule, WEEKDAYS } from "../utils/recurrenceUtils";
+import { resolveTimeZone } from "../utils/streakUtils";
 
-/** Send due reminders now, then delete them */
+export interface ReminderInput {
+  message?: string;
+  remindAt?: Date;
+  goalId?: string | null;
+  recurrence?: Recurrence;
+  rrule?: string;
+  interval?: number;
+  daysOfWeek?: number[];
+  endRepeat?: Date | null;
+  reminderType?: "email" | "sms" | "app";
+  email?: string;
+}
+
+export interface ReminderListOptions {
+  goalId?: string;
+  includeInactive?: boolean;
+}
+
+// Max reminders claimed per scheduler tick
+const BATCH_SIZE = 100;
+
+let schedulerTask: ScheduledTask | null = null;
+let isChecking = false;
+
+/**
+ * Reminders whose next run is due. Documents created before `nextRunAt`
+ * existed fall back to their unsent `remindAt`.
+ */
+const findDue = (now: Date): Promise<IReminder[]> =>
+  Reminder.find({
+    isActive: true,
+    $or: [
+      { nextRunAt: { $lte: now } },
+      { nextRunAt: { $exists: false }, isSent: false, remindAt: { $lte: now } },
+    ],
+  })
+    .sort({ nextRunAt: 1 })
+    .limit(BATCH_SIZE)
+    .exec();
+
+/**
+ * Atomically move a due reminder to its next occurrence. Returns false when
+ * another scheduler instance already claimed this run.
+ */
+const claim = async (rem: IReminder, now: Date): Promise<boolean> => {
+  const next = rem.computeNextRun(now);
+  const res = await Reminder.updateOne(
+    { _id: rem._id, isActive: true, nextRunAt: rem.nextRunAt ?? { $exists: false } },
+    {
+      $set: { lastSent: now, nextRunAt: next, isSent: !next },
+      $inc: { occurrenceCount: 1 },
+    }
+  );
+  return res.modifiedCount === 1;
+};
+
+// Channels per reminder type; the dispatcher still applies user preferences
+const REMINDER_CHANNELS: Record<IReminder["reminderType"], NotificationChannel[]> = {
+  app: ["in_app", "socket", "push"],
+  email: ["in_app", "socket", "push", "email"],
+  sms: ["in_app", "socket", "push", "sms"],
+};
+
+const deliver = async (rem: IReminder): Promise<void> => {
+  await NotificationDispatcher.dispatch({
+    userId: rem.user.toString(),
+    type: "reminder",
+    message: rem.message,
+    link: rem.goal ? `/goals/${rem.goal.toString()}` : undefined,
+    channels: REMINDER_CHANNELS[rem.reminderType] ?? REMINDER_CHANNELS.app,
+    emailTo: rem.email,
+    // An email or SMS reminder asks for that channel even if it's off globally
+    userRequested: rem.reminderType === "app" ? [] : [rem.reminderType],
+  });
+};
+
+/** Send due reminders now and advance recurring ones to their next occurrence */
 export const checkReminders = async (): Promise<void> => {
+  if (isChecking) return;
+  isChecking = true;
+
   const now = new Date();
-  let due: IReminder[];
   try {
-    due = await Reminder.find({ remindAt: { $lte: now } });
-  } catch (err) {
-    return void LoggingService.logError(
-      "Failed to query due reminders",
-      err as Error
-    );
-  }
-
-  for (const rem of due) {
-    const userId = rem.user.toString();
-    const message = rem.message;
-
+    let due: IReminder[];
     try {
-      // In-app
-      await NotificationService.sendInAppNotification(
-        "system",
-        userId,
-        message
-      );
-      // Email
-      if (rem.reminderType === "email" && rem.email) {
-        await sendEmail(rem.email, "Reminder", message);
-      }
-      // remove
-      await Reminder.findByIdAndDelete(rem.id);
-      void LoggingService.logInfo(`Sent & removed reminder ${rem.id}`, { userId });
+      due = await findDue(now);
     } catch (err) {
-      void LoggingService.logError(
-        "Error sending reminder",
-        err as Error,
-        { reminderId: rem.id }
+      return void LoggingService.logError(
+        "Failed to query due reminders",
+        err as Error
       );
     }
+
+    for (const rem of due) {
+      try {
+        if (!(await claim(rem, now))) continue;
+        // Habit reminders go quiet once this period's target is met
+        if (rem.goal && (await HabitService.isPeriodComplete(rem.goal, rem.timezone, now))) continue;
+        await deliver(rem);
+        void LoggingService.logInfo(`Sent reminder ${rem.id}`, {
+          userId: rem.user.toString(),
+          recurrence: rem.recurrence,
+        });
+      } catch (err) {
+        void LoggingService.logError(
+          "Error sending reminder",
+          err as Error,
+          { reminderId: rem.id }
+        );
+      }
+    }
+  } finally {
+    isChecking = false;
   }
 };
 
-const toCronExpr = (date: Date): string => {
-  return [
-    date.getSeconds(),
-    date.getMinutes(),
-    date.getHours(),
-    date.getDate(),
-    date.getMonth() + 1,
-    "*",
-  ].join(" ");
-};
-
-/** Schedule one cron task for a reminder */
-export const scheduleReminderTask = async (
-  rem: IReminder
-): Promise<ScheduledTask | null> => {
-  const dt = new Date(rem.remindAt);
-  if (isNaN(dt.getTime())) {
-    void LoggingService.logError("Invalid remindAt date", new Error());
-    return null;
-  }
+/**
+ * Start the reminder scheduler: a single once-a-minute tick that fires
+ * whatever is due. All schedule state lives on the Reminder documents,
+ * so nothing is lost when the process restarts.
+ */
+export const startReminderScheduler = (): ScheduledTask => {
+  if (schedulerTask) return schedulerTask;
+
+  schedulerTask = cron.schedule("* * * * *", () => {
+    void checkReminders();
+  });
+  void LoggingService.logInfo("Reminder scheduler started");
+  return schedulerTask;
+};
 
-  const expr = toCronExpr(dt);
+/** Stop the reminder scheduler */
+export const stopReminderScheduler = (): void => {
+  if (!schedulerTask) return;
   try {
-    const task = cron.schedule(
-      expr,
-      async () => {
-        try {
-          const userId = rem.user.toString();
-          const message = rem.message;
-
-          await NotificationService.sendInAppNotification(
-            "system",
-            userId,
-            message
-          );
-
-          if (rem.reminderType === "email" && rem.email) {
-            await sendEmail(rem.email, "Reminder", message);
-          }
-
-          await Reminder.findByIdAndDelete(rem.id);
-          void LoggingService.logInfo(`Cron fired for reminder ${rem.id}`);
-        } catch (err) {
-          void LoggingService.logError(
-            "Error in cron reminder",
-            err as Error,
-            { reminderId: rem.id }
-          );
-        }
-      },
-      { scheduled: true, timezone: process.env.TIMEZONE || "UTC" }
-    );
-
-    void LoggingService.logInfo(`Scheduled reminder ${rem.id} at ${rem.remindAt}`);
-    return task;
+    schedulerTask.stop();
+    schedulerTask = null;
+    void LoggingService.logInfo("Reminder scheduler stopped");
   } catch (err) {
-    void LoggingService.logError(
-      "Failed to schedule reminder",
-      err as Error,
-      { reminderId: rem.id }
-    );
-    return null;
+    void LoggingService.logError("Error stopping reminder scheduler", err as Error);
   }
 };
 
-/** Cancel a scheduled task */
-export const cancelReminderTask = (task: ScheduledTask): void => {
+// ─── Reminder management (shared by the reminders API and goal pages) ──────
+
+/**
+ * Translate an RRULE string into the schedule fields stored on a Reminder.
+ */
+const scheduleFromRRule = (
+  rrule: string
+): Pick<IReminder, "recurrence" | "interval" | "daysOfWeek"> => {
+  let rule;
   try {
-    task.stop();
-    void LoggingService.logInfo("Canceled scheduled reminder task");
+    rule = parseRRule(rrule);
   } catch (err) {
-    void LoggingService.logError("Error canceling reminder task", err as Error);
+    throw createError((err as Error).message, 400);
+  }
+
+  const days = [...(rule.byWeekday ?? [])].sort();
+  if (
+    rule.frequency === "weekly" &&
+    rule.interval === 1 &&
+    days.length === WEEKDAYS.length &&
+    days.every((d, i) => d === WEEKDAYS[i])
+  ) {
+    return { recurrence: "weekdays", interval: 1, daysOfWeek: [] };
+  }
+  return { recurrence: rule.frequency, interval: rule.interval, daysOfWeek: days };
+};
+
+const applyInput = (rem: IReminder, input: ReminderInput): void => {
+  if (input.message !== undefined) rem.message = input.message;
+  if (input.remindAt !== undefined) rem.remindAt = input.remindAt;
+  if (input.reminderType !== undefined) rem.reminderType = input.reminderType;
+  if (input.email !== undefined) rem.email = input.email;
+  if (input.endRepeat !== undefined) rem.endRepeat = input.endRepeat ?? undefined;
+
+  if (input.rrule) {
+    Object.assign(rem, scheduleFromRRule(input.rrule));
+  } else {
+    if (input.recurrence !== undefined) rem.recurrence = input.recurrence;
+    if (input.interval !== undefined) rem.interval = input.interval;
+    if (input.daysOfWeek !== undefined) rem.daysOfWeek = input.daysOfWeek;
+  }
+};
+
+const assertGoalOwner = async (userId: string, goalId: string): Promise<void> => {
+  if (!Types.ObjectId.isValid(goalId)) {
+    throw createError("Invalid goal ID", 400);
   }
+  const owns = await Goal.exists({ _id: goalId, user: userId });
+  if (!owns) {
+    throw createError("Goal not found or access denied", 404);
+  }
+};
+
+const findOwned = async (userId: string, reminderId: string): Promise<IReminder> => {
+  if (!Types.ObjectId.isValid(reminderId)) {
+    throw createError("Invalid reminder ID", 400);
+  }
+  const rem = await Reminder.findOne({ _id: reminderId, user: userId });
+  if (!rem) {
+    throw createError("Reminder not found or access denied", 404);
+  }
+  return rem;
+};
+
+/** Create a reminder, optionally linked to one of the user's goals */
+export const createReminder = async (
+  userId: string,
+  input: ReminderInput
+): Promise<IReminder> => {
+  if (!input.message || !input.remindAt) {
+    throw createError("Reminder message and time are required", 400);
+  }
+  if (input.goalId) await assertGoalOwner(userId, input.goalId);
+
+  const user = await User.findById(userId).select("location.timezone").lean();
+  const rem = new Reminder({
+    user: userId,
+    goal: input.goalId || undefined,
+    timezone: resolveTimeZone(user?.location?.timezone),
+  });
+  applyInput(rem, input);
+  await rem.save();
+
+  void LoggingService.logInfo(`Created reminder ${rem.id}`, { userId, goalId: input.goalId });
+  return rem;
+};
+
+/** List a user's reminders, soonest first */
+export const listReminders = async (
+  userId: string,
+  opts: ReminderListOptions = {}
+): Promise<IReminder[]> => {
+  const filter: Record<string, unknown> = { user: userId };
+  if (opts.goalId) {
+    await assertGoalOwner(userId, opts.goalId);
+    filter.goal = opts.goalId;
+  }
+  if (!opts.includeInactive) filter.isActive = true;
+  return Reminder.find(filter).sort({ nextRunAt: 1, remindAt: 1 }).exec();
+};
+
+/** Update the message, channel or schedule of a reminder */
+export const updateReminder = async (
+  userId: string,
+  reminderId: string,
+  input: ReminderInput
+): Promise<IReminder> => {
+  const rem = await findOwned(userId, reminderId);
+  if (input.goalId !== undefined) {
+    if (input.goalId) await assertGoalOwner(userId, input.goalId);
+    rem.goal = input.goalId ? new Types.ObjectId(input.goalId) : undefined;
+  }
+  applyInput(rem, input);
+  await rem.save();
+  return rem;
+};
+
+/** Enable or disable (soft-delete) a reminder */
+export const setReminderActive = async (
+  userId: string,
+  reminderId: string,
+  isActive: boolean
+): Promise<IReminder> => {
+  const rem = await findOwned(userId, reminderId);
+  rem.isActive = isActive;
+  if (isActive && !rem.nextRunAt) {
+    rem.nextRunAt = rem.remindAt > new Date() ? rem.remindAt : rem.computeNextRun(new Date());
+  }
+  await rem.save();
+  return rem;
+};
+
+/** Permanently delete a reminder */
+export const deleteReminder = async (userId: string, reminderId: string): Promise<void> => {
+  const rem = await findOwned(userId, reminderId);
+  await rem.deleteOne();
+};
+
+/** Remove every reminder attached to a goal (used when the goal is deleted) */
+export const deleteGoalReminders = async (goalId: string): Promise<number> => {
+  const res = await Reminder.deleteMany({ goal: goalId });
+  return res.deletedCount;
 };
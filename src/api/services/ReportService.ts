@@ -1,31 +1,51 @@
 // src/api/services/ReportService.ts
 
-import Report, { IReport } from "../models/Report";
+import Report, { IReport, ReportType } from "../models/Report";
 import { logger } from "../../utils/winstonLogger";
 import { createError } from "../middleware/errorHandler";
+import ModerationService from "./ModerationService";
+import type { ModerationSurface } from "../utils/moderationUtils";
+
+export interface ReportTarget {
+  surface: ModerationSurface;
+  parentId?: string;   // post holding a reported comment
+}
 
 /**
- * Create a new report.
+ * Create a new report. Reports naming the surface of the content go to
+ * the moderation review queue.
  */
 export const createReport = async (
   userId: string,
   reportedId: string,
-  reportType: "post" | "comment" | "user",
-  reason: string
+  reportType: ReportType,
+  reason: string,
+  target?: ReportTarget
 ): Promise<IReport> => {
+  if (target) {
+    await ModerationService.assertReportable(target.surface, reportedId, target.parentId);
+  }
+  let report: IReport;
   try {
-    const report = await Report.create({
+    report = await Report.create({
       userId,
       reportedId,
       reportType,
       reason,
+      surface: target?.surface,
+      parentId: target?.parentId,
     });
     logger.info(`Report created: ${report.id}`);
-    return report;
   } catch (err: unknown) {
     logger.error(`Error creating report: ${(err as Error).message}`);
     throw createError("Failed to create report", 500);
   }
+  if (target) {
+    await ModerationService.addReport(report).catch((err: Error) =>
+      logger.error(`Error queueing report ${report.id} for review: ${err.message}`)
+    );
+  }
+  return report;
 };
 
 /**
@@ -1,10 +1,13 @@
 // src/api/services/SearchService.ts
-import type { Document, Model } from "mongoose";
+import type { FilterQuery, Model, Types } from "mongoose";
 import sanitize from "mongo-sanitize";
 import { User } from "../models/User";
 import Group from "../models/Group";
 import Goal from "../models/Goal";
 import { Post } from "../models/Post";
+import { createError } from "../middleware/errorHandler";
+import type { FieldHighlight, SearchField } from "../utils/searchUtils";
+import { escapeRegex, scoreFields, tokenize } from "../utils/searchUtils";
 
 interface PaginationMeta {
   totalCount: number;
@@ -16,97 +19,338 @@ export interface PaginatedResult<T> {
   pagination: PaginationMeta;
 }
 
+export const SEARCH_TYPES = ["user", "group", "goal", "post"] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export interface SearchHit {
+  type: SearchType;
+  id: string;
+  score: number;
+  title: string;
+  subtitle?: string;
+  highlights: FieldHighlight[];
+  data: Record<string, unknown>;
+}
+
+export interface UnifiedSearchResult extends PaginatedResult<SearchHit> {
+  facets: Record<SearchType, number>;
+}
+
+interface Viewer {
+  _id: Types.ObjectId;
+  friends: Types.ObjectId[];
+}
+
+type LeanDoc = Record<string, any> & { _id: Types.ObjectId; score?: number };
+
+interface SearchSource {
+  model: Model<any>;
+  fields: { name: string; weight: number }[];
+  select: string;
+  filter: (viewer: Viewer) => FilterQuery<unknown>;
+  owner?: string;                                   // author field checked against privacy settings
+  toHit: (doc: LeanDoc) => Omit<SearchHit, "type" | "score" | "highlights">;
+}
+
 const MAX_LIMIT = 50;
+// Candidates fetched per type before in-process ranking
+const CANDIDATE_LIMIT = 100;
+// Below this many full-text hits, typo-tolerant prefix matching kicks in
+const FUZZY_FALLBACK_THRESHOLD = 20;
+// Characters of each term used for the typo-tolerant prefix lookup
+const FUZZY_PREFIX_LENGTH = 3;
+// Weight of MongoDB's textScore (stemming, phrase matches) in the final score
+const TEXT_SCORE_WEIGHT = 0.5;
 
-async function paginate<T extends Document>(
-  model: Model<T>,
-  query: Record<string, unknown>,
-  page: number,
-  limit: number
-): Promise<PaginatedResult<T>> {
-  const skip = (page - 1) * limit;
-  const [items, totalCount] = await Promise.all([
-    model.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).exec(),
-    model.countDocuments(query).exec(),
-  ]);
-
-  return {
-    items,
-    pagination: {
-      totalCount,
-      currentPage: page,
-      totalPages: Math.ceil(totalCount / limit),
+/**
+ * Users the viewer may find: searchable, active, and either public,
+ * friends-only with the viewer as a friend, or the viewer themselves.
+ */
+const visibleUserFilter = (viewer: Viewer): FilterQuery<unknown> => ({
+  $or: [
+    { _id: viewer._id },
+    {
+      active: true,
+      "settings.privacy.searchVisibility": { $ne: false },
+      $or: [
+        { "settings.privacy.profileVisibility": { $nin: ["friends", "private"] } },
+        { "settings.privacy.profileVisibility": "friends", _id: { $in: viewer.friends } },
+      ],
     },
-  };
-}
+  ],
+});
+
+const SOURCES: Record<SearchType, SearchSource> = {
+  user: {
+    model: User,
+    fields: [
+      { name: "username", weight: 10 },
+      { name: "firstName", weight: 6 },
+      { name: "lastName", weight: 6 },
+      { name: "interests", weight: 3 },
+      { name: "bio", weight: 1 },
+    ],
+    // never select email: it must not be searchable or returned
+    select: "username firstName lastName interests bio profileImage",
+    filter: visibleUserFilter,
+    toHit: (u) => ({
+      id: u._id.toString(),
+      title: u.username,
+      subtitle: [u.firstName, u.lastName].filter(Boolean).join(" ") || undefined,
+      data: {
+        _id: u._id,
+        username: u.username,
+        firstName: u.firstName,
+        lastName: u.lastName,
+        bio: u.bio,
+        profilePicture: u.profileImage || "/default-avatar.png",
+      },
+    }),
+  },
+  group: {
+    model: Group,
+    fields: [
+      { name: "name", weight: 10 },
+      { name: "tags", weight: 4 },
+      { name: "description", weight: 2 },
+    ],
+    select: "name description category tags avatar members visibility",
+    filter: (viewer) => ({
+      isActive: true,
+      $or: [{ visibility: "public" }, { members: viewer._id }],
+    }),
+    toHit: (g) => ({
+      id: g._id.toString(),
+      title: g.name,
+      subtitle: g.category,
+      data: {
+        _id: g._id,
+        name: g.name,
+        description: g.description,
+        category: g.category,
+        tags: g.tags,
+        avatar: g.avatar,
+        visibility: g.visibility,
+        memberCount: g.members?.length ?? 0,
+      },
+    }),
+  },
+  goal: {
+    model: Goal,
+    fields: [
+      { name: "title", weight: 10 },
+      { name: "tags", weight: 4 },
+      { name: "category", weight: 3 },
+      { name: "description", weight: 2 },
+    ],
+    select: "user title description category tags status progress",
+    filter: () => ({ status: { $ne: "archived" } }),
+    owner: "user",
+    toHit: (g) => ({
+      id: g._id.toString(),
+      title: g.title,
+      subtitle: g.category,
+      data: {
+        _id: g._id,
+        user: g.user,
+        title: g.title,
+        description: g.description,
+        category: g.category,
+        tags: g.tags,
+        status: g.status,
+        progress: g.progress,
+      },
+    }),
+  },
+  post: {
+    model: Post,
+    fields: [{ name: "content", weight: 5 }],
+    select: "user content createdAt",
+    filter: () => ({ isDeleted: { $ne: true } }),
+    owner: "user",
+    toHit: (p) => ({
+      id: p._id.toString(),
+      title: p.content.length > 80 ? `${p.content.slice(0, 80)}…` : p.content,
+      data: { _id: p._id, user: p.user, content: p.content, createdAt: p.createdAt },
+    }),
+  },
+};
+
+const parsePaging = (rawPage?: string, rawLimit?: string): { page: number; limit: number } => {
+  const page = Math.max(1, parseInt(sanitize(rawPage || "1"), 10) || 1);
+  const limit = Math.min(Math.max(1, parseInt(sanitize(rawLimit || "10"), 10) || 10), MAX_LIMIT);
+  return { page, limit };
+};
+
+const paginate = <T>(items: T[], page: number, limit: number): PaginatedResult<T> => ({
+  items: items.slice((page - 1) * limit, page * limit),
+  pagination: {
+    totalCount: items.length,
+    currentPage: page,
+    totalPages: Math.ceil(items.length / limit),
+  },
+});
 
 class SearchService {
+  /**
+   * Rank one type of document for the query. Candidates come from the
+   * collection's text index, topped up with a word-prefix lookup so typos
+   * after the first few characters still match; they are then scored,
+   * highlighted and filtered by the owners' privacy settings.
+   */
+  private static async searchType(
+    type: SearchType,
+    terms: string[],
+    viewer: Viewer
+  ): Promise<SearchHit[]> {
+    const source = SOURCES[type];
+    const base = source.filter(viewer);
+
+    const textHits: LeanDoc[] = await source.model
+      .find({ ...base, $text: { $search: terms.join(" ") } }, { score: { $meta: "textScore" } })
+      .select(source.select)
+      .sort({ score: { $meta: "textScore" } })
+      .limit(CANDIDATE_LIMIT)
+      .lean();
+
+    const candidates = new Map(textHits.map((d) => [d._id.toString(), d]));
+    if (textHits.length < FUZZY_FALLBACK_THRESHOLD) {
+      const prefixes = terms.map((t) => escapeRegex(t.slice(0, FUZZY_PREFIX_LENGTH)));
+      const wordStart = new RegExp(`(^|[\\s_.\\-])(${prefixes.join("|")})`, "i");
+      const fuzzyHits: LeanDoc[] = await source.model
+        .find({
+          $and: [base, { $or: source.fields.map((f) => ({ [f.name]: wordStart })) }],
+          _id: { $nin: textHits.map((d) => d._id) },
+        })
+        .select(source.select)
+        .limit(CANDIDATE_LIMIT)
+        .lean();
+      for (const doc of fuzzyHits) candidates.set(doc._id.toString(), doc);
+    }
+
+    let docs = [...candidates.values()];
+    if (source.owner && docs.length) {
+      const visible = await this.visibleOwners(
+        docs.map((d) => d[source.owner] as Types.ObjectId),
+        viewer
+      );
+      docs = docs.filter((d) => visible.has(String(d[source.owner])));
+    }
+
+    const minTerms = Math.ceil(terms.length / 2);
+    const hits: SearchHit[] = [];
+    for (const doc of docs) {
+      const fields: SearchField[] = source.fields.map((f) => ({ ...f, value: doc[f.name] }));
+      const match = scoreFields(fields, terms);
+      const textScore = doc.score ?? 0;
+      if (!textScore && match.matchedTerms < minTerms) continue;
+
+      hits.push({
+        type,
+        ...source.toHit(doc),
+        score: Math.round((match.score + textScore * TEXT_SCORE_WEIGHT) * 100) / 100,
+        highlights: match.highlights,
+      });
+    }
+    return hits.sort((a, b) => b.score - a.score);
+  }
+
+  /** Owners whose content the viewer may see in search results */
+  private static async visibleOwners(
+    ownerIds: Types.ObjectId[],
+    viewer: Viewer
+  ): Promise<Set<string>> {
+    const owners = await User.find({
+      $and: [{ _id: { $in: ownerIds } }, visibleUserFilter(viewer)],
+    })
+      .select("_id")
+      .lean();
+    return new Set(owners.map((o) => o._id.toString()));
+  }
+
+  private static async loadViewer(viewerId: string): Promise<Viewer> {
+    const viewer = await User.findById(viewerId).select("friends").lean();
+    if (!viewer) throw createError("User not found", 404);
+    return { _id: viewer._id, friends: viewer.friends ?? [] };
+  }
+
+  /**
+   * Search users, groups, goals and posts at once. Hits from all types are
+   * ranked together; `facets` counts hits per type regardless of `types`.
+   */
+  static async search(
+    viewerId: string,
+    rawQuery: string,
+    options: { types?: SearchType[]; page?: string; limit?: string } = {}
+  ): Promise<UnifiedSearchResult> {
+    const terms = tokenize(sanitize(rawQuery || ""));
+    const { page, limit } = parsePaging(options.page, options.limit);
+    const facets = { user: 0, group: 0, goal: 0, post: 0 };
+    if (!terms.length) return { ...paginate([], page, limit), facets };
+
+    const viewer = await this.loadViewer(viewerId);
+    const wanted = options.types?.length ? options.types : [...SEARCH_TYPES];
+
+    const perType = await Promise.all(SEARCH_TYPES.map((t) => this.searchType(t, terms, viewer)));
+    const hits: SearchHit[] = [];
+    SEARCH_TYPES.forEach((type, i) => {
+      facets[type] = perType[i].length;
+      if (wanted.includes(type)) hits.push(...perType[i]);
+    });
+    hits.sort((a, b) => b.score - a.score);
+
+    return { ...paginate(hits, page, limit), facets };
+  }
+
+  private static async searchOne(
+    type: SearchType,
+    viewerId: string,
+    rawQuery: string,
+    rawPage?: string,
+    rawLimit?: string
+  ): Promise<PaginatedResult<SearchHit>> {
+    const terms = tokenize(sanitize(rawQuery || ""));
+    const { page, limit } = parsePaging(rawPage, rawLimit);
+    if (!terms.length) return paginate([], page, limit);
+
+    const viewer = await this.loadViewer(viewerId);
+    return paginate(await this.searchType(type, terms, viewer), page, limit);
+  }
+
   static async searchUsers(
+    viewerId: string,
     rawQuery: string,
     rawPage?: string,
     rawLimit?: string
-  ): Promise<PaginatedResult<typeof User.prototype>> {
-    const q = sanitize(rawQuery || "");
-    const page = Math.max(1, parseInt(sanitize(rawPage || "1"), 10));
-    let limit = parseInt(sanitize(rawLimit || "10"), 10);
-    limit = Math.min(limit, MAX_LIMIT);
-
-    const regex = new RegExp(q, "i");
-    const filter = {
-      $or: [{ username: regex }, { email: regex }],
-    };
-
-    return paginate(User, filter, page, limit);
+  ): Promise<PaginatedResult<SearchHit>> {
+    return this.searchOne("user", viewerId, rawQuery, rawPage, rawLimit);
   }
 
   static async searchGroups(
+    viewerId: string,
     rawQuery: string,
     rawPage?: string,
     rawLimit?: string
-  ): Promise<PaginatedResult<typeof Group.prototype>> {
-    const q = sanitize(rawQuery || "");
-    const page = Math.max(1, parseInt(sanitize(rawPage || "1"), 10));
-    let limit = parseInt(sanitize(rawLimit || "10"), 10);
-    limit = Math.min(limit, MAX_LIMIT);
-
-    const regex = new RegExp(q, "i");
-    const filter = { name: regex };
-
-    return paginate(Group, filter, page, limit);
+  ): Promise<PaginatedResult<SearchHit>> {
+    return this.searchOne("group", viewerId, rawQuery, rawPage, rawLimit);
   }
 
   static async searchGoals(
+    viewerId: string,
     rawQuery: string,
     rawPage?: string,
     rawLimit?: string
-  ): Promise<PaginatedResult<typeof Goal.prototype>> {
-    const q = sanitize(rawQuery || "");
-    const page = Math.max(1, parseInt(sanitize(rawPage || "1"), 10));
-    let limit = parseInt(sanitize(rawLimit || "10"), 10);
-    limit = Math.min(limit, MAX_LIMIT);
-
-    const regex = new RegExp(q, "i");
-    const filter = { title: regex };
-
-    return paginate(Goal, filter, page, limit);
+  ): Promise<PaginatedResult<SearchHit>> {
+    return this.searchOne("goal", viewerId, rawQuery, rawPage, rawLimit);
   }
 
   static async searchPosts(
+    viewerId: string,
     rawQuery: string,
     rawPage?: string,
     rawLimit?: string
-  ): Promise<PaginatedResult<typeof Post.prototype>> {
-    const q = sanitize(rawQuery || "");
-    const page = Math.max(1, parseInt(sanitize(rawPage || "1"), 10));
-    let limit = parseInt(sanitize(rawLimit || "10"), 10);
-    limit = Math.min(limit, MAX_LIMIT);
-
-    const regex = new RegExp(q, "i");
-    const filter = {
-      $or: [{ title: regex }, { content: regex }],
-    };
-
-    return paginate(Post, filter, page, limit);
+  ): Promise<PaginatedResult<SearchHit>> {
+    return this.searchOne("post", viewerId, rawQuery, rawPage, rawLimit);
   }
 }
 
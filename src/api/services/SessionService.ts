@@ -1,121 +1,147 @@
 // src/api/services/SessionService.ts
-import jwt from "jsonwebtoken";
-import bcrypt from "bcryptjs";
-import { Request } from "express";
+import { Types } from "mongoose";
 import { Session, ISession } from "../models/Session";
-import { User, IUser } from "../models/User";
+import RefreshToken from "../models/RefreshToken";
 import { createError } from "../middleware/errorHandler";
 
-const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret";
-const JWT_EXPIRES_IN = "1h";
-
-export interface LoginResult {
-  token: string;
-  session: ISession;
+export interface ClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
 }
 
+export type SessionSummary = Pick<
+  ISession,
+  "_id" | "ipAddress" | "device" | "userAgent" | "createdAt" | "lastUsedAt" | "expiresAt"
+> & { current: boolean };
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Mac OS X/, "macOS"],
+  [/Windows/, "Windows"],
+  [/Linux/, "Linux"],
+];
+
+/** "Chrome on macOS"-style label for the sessions list */
+const describeDevice = (userAgent?: string): string | undefined => {
+  if (!userAgent) return undefined;
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([re]) => re.test(userAgent))?.[1];
+  if (!browser && !platform) return userAgent.slice(0, 100);
+  return [browser, platform].filter(Boolean).join(" on ");
+};
+
+const toSummary = (session: ISession, currentSessionId?: string): SessionSummary => ({
+  _id: session._id,
+  ipAddress: session.ipAddress,
+  device: session.device,
+  userAgent: session.userAgent,
+  createdAt: session.createdAt,
+  lastUsedAt: session.lastUsedAt,
+  expiresAt: session.expiresAt,
+  current: session._id.toString() === currentSessionId,
+});
+
 class SessionService {
   /**
-   * Verify credentials, issue a JWT, and record a new Session.
+   * Record a new device session for a user.
    */
-  static async login(
-    email: string,
-    password: string,
-    req: Request
-  ): Promise<LoginResult> {
-    const user = await User.findOne({ email });
-    if (!user) throw createError("Invalid credentials", 401);
-
-    const match = await bcrypt.compare(password, user.password);
-    if (!match) throw createError("Invalid credentials", 401);
-
-    const payload = { id: user._id.toString() };
-    const token = jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
-
-    const session = await Session.create({
-      user: user._id,
-      token,
-      ipAddress: req.ip,
-      device: req.headers["user-agent"] || "unknown",
-      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  static async create(
+    userId: string | Types.ObjectId,
+    client: ClientInfo,
+    expiresAt: Date
+  ): Promise<ISession> {
+    const userAgent = client.userAgent?.slice(0, 255);
+    return Session.create({
+      user: userId,
+      ipAddress: client.ipAddress?.replace(/^::ffff:/, ""),
+      userAgent,
+      device: describeDevice(userAgent),
+      expiresAt,
+      lastUsedAt: new Date(),
       isActive: true,
     });
-
-    return { token, session };
   }
 
   /**
-   * Mark a session as inactive (logout).
+   * The session if it is still active and unexpired.
    */
-  static async logout(sessionId: string): Promise<void> {
-    const session = await Session.findById(sessionId);
-    if (!session) return;
-    session.isActive = false;
-    await session.save();
+  static async findActive(sessionId: string | Types.ObjectId): Promise<ISession | null> {
+    if (!Types.ObjectId.isValid(sessionId)) return null;
+    return Session.findOne({ _id: sessionId, isActive: true, expiresAt: { $gt: new Date() } });
   }
 
   /**
-   * Invalidate all other sessions for a user.
+   * Note activity on a session and push its expiry out to `expiresAt`.
    */
-  static async deleteAllExcept(
-    userId: string,
-    keepSessionId: string
+  static async touch(
+    sessionId: Types.ObjectId,
+    client: ClientInfo,
+    expiresAt: Date
   ): Promise<void> {
-    await Session.updateMany(
-      { user: userId, _id: { $ne: keepSessionId } },
-      { isActive: false }
-    );
+    await Session.updateOne(
+      { _id: sessionId },
+      {
+        lastUsedAt: new Date(),
+        expiresAt,
+        ...(client.ipAddress ? { ipAddress: client.ipAddress.replace(/^::ffff:/, "") } : {}),
+      }
+    ).exec();
   }
 
   /**
-   * Issue a new token for the active session.
+   * Deactivate a session and revoke every refresh token issued for it.
    */
-  static async refresh(userId: string): Promise<string> {
-    const newToken = jwt.sign({ id: userId }, JWT_SECRET, {
-      expiresIn: JWT_EXPIRES_IN,
-    });
-
-    const session = await Session.findOneAndUpdate(
-      { user: userId, isActive: true },
-      {
-        token: newToken,
-        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
-      },
-      { new: true }
-    );
-
-    if (!session) throw createError("Session not found", 404);
-    return newToken;
+  static async end(sessionId: Types.ObjectId): Promise<void> {
+    await Promise.all([
+      Session.updateOne({ _id: sessionId, isActive: true }, { isActive: false, revokedAt: new Date() }).exec(),
+      RefreshToken.revokeFamily(sessionId),
+    ]);
   }
 
   /**
-   * Fetch one session by its ID.
+   * List a user's active sessions, flagging the one making the request.
    */
-  static async getById(sessionId: string): Promise<ISession> {
-    const session = await Session.findById(sessionId).populate<
-      ISession & { user: IUser }
-    >("user");
-    if (!session) throw createError("Session not found", 404);
-    return session;
+  static async listForUser(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await Session.findActiveSessions(new Types.ObjectId(userId));
+    return sessions.map((s) => toSummary(s, currentSessionId));
   }
 
   /**
-   * List all active sessions for a given user.
+   * Fetch one of the user's sessions.
    */
-  static async listForUser(userId: string): Promise<ISession[]> {
-    return Session.find({ user: userId, isActive: true }).populate("user");
+  static async getById(sessionId: string, userId: string, currentSessionId?: string): Promise<SessionSummary> {
+    const session = await Session.findOne({ _id: sessionId, user: userId });
+    if (!session) throw createError("Session not found", 404);
+    return toSummary(session, currentSessionId);
   }
 
   /**
-   * Delete (deactivate) a single session, verifying ownership.
+   * Revoke one of the user's sessions.
    */
-  static async delete(
-    sessionId: string,
-    userId: string
-  ): Promise<void> {
+  static async revoke(sessionId: string, userId: string): Promise<void> {
     const session = await Session.findOne({ _id: sessionId, user: userId });
     if (!session) throw createError("Session not found or access denied", 404);
-    await session.deleteOne();
+    await this.end(session._id);
+  }
+
+  /**
+   * Revoke all of the user's sessions except `keepSessionId`; returns how many.
+   */
+  static async revokeAllExcept(userId: string, keepSessionId?: string): Promise<number> {
+    const sessions = await Session.find({
+      user: userId,
+      isActive: true,
+      ...(keepSessionId ? { _id: { $ne: keepSessionId } } : {}),
+    }).select("_id");
+    await Promise.all(sessions.map((s) => this.end(s._id)));
+    return sessions.length;
   }
 }
 
@@ -14,6 +14,22 @@ export interface NotificationPrefs {
  */
 export type NotificationPrefsInput = Partial<NotificationPrefs>;
 
+export interface ReminderPrefs {
+  dailyEnabled: boolean;
+  dailyTime: string;
+  quietHours: {
+    enabled: boolean;
+    start: string;
+    end: string;
+  };
+}
+
+export interface ReminderPrefsInput {
+  dailyEnabled?: boolean;
+  dailyTime?: string;
+  quietHours?: Partial<ReminderPrefs["quietHours"]>;
+}
+
 interface AccountUpdates {
   email?: string;
   username?: string;
@@ -92,11 +108,38 @@ class SettingsService {
       push:  prefsInput.push  ?? existingPush,
     };
 
-    // Save back
-    user.settings = {
-      ...user.settings,
-      notifications: updated,
+    // Save back (path by path, so per-type preferences are kept)
+    user.set("settings.notifications.email", updated.email);
+    user.set("settings.notifications.sms", updated.sms);
+    user.set("settings.notifications.push", updated.push);
+    await user.save();
+
+    return updated;
+  }
+
+  /**
+   * Update when the daily streak reminder is sent (local time) and the
+   * quiet hours during which it is held back.
+   */
+  static async updateReminderPrefs(
+    userId: string,
+    prefsInput: ReminderPrefsInput
+  ): Promise<ReminderPrefs> {
+    const user = await User.findById(userId);
+    if (!user) throw createError("User not found", 404);
+
+    const existing = user.settings?.reminders ?? {};
+    const updated: ReminderPrefs = {
+      dailyEnabled: prefsInput.dailyEnabled ?? existing.dailyEnabled ?? true,
+      dailyTime: prefsInput.dailyTime ?? existing.dailyTime ?? "09:00",
+      quietHours: {
+        enabled: prefsInput.quietHours?.enabled ?? existing.quietHours?.enabled ?? false,
+        start: prefsInput.quietHours?.start ?? existing.quietHours?.start ?? "22:00",
+        end: prefsInput.quietHours?.end ?? existing.quietHours?.end ?? "07:00",
+      },
     };
+
+    user.set("settings.reminders", updated);
     await user.save();
 
     return updated;
@@ -1,8 +1,31 @@
 // src/api/services/StreakService.ts
 import mongoose from "mongoose";
-import Streak, { IStreak } from "../models/Streak";
+import Streak, { IStreak, IStreakHistoryEntry } from "../models/Streak";
+import { User } from "../models/User";
+import { createError } from "../middleware/errorHandler";
+import type { CustomError } from "../middleware/errorHandler";
+import PointsLedgerService from "./PointsLedgerService";
+import BadgeRuleEngine from "./BadgeRuleEngine";
+import WebhookService from "./WebhookService";
+import {
+  diffDayKeys,
+  getLocalDayKey,
+  getLocalHour,
+  legacyHistory,
+  resolveTimeZone,
+  shiftDayKey,
+} from "../utils/streakUtils";
 import { logger } from "../../utils/winstonLogger";
 
+// Hours after local midnight during which a check-in can still save yesterday
+const GRACE_HOURS = parseInt(process.env.STREAK_GRACE_HOURS ?? "2", 10);
+// Points spent per purchased freeze token
+export const FREEZE_TOKEN_COST = parseInt(process.env.STREAK_FREEZE_COST ?? "100", 10);
+// Maximum freeze tokens a user can hold at once
+export const MAX_FREEZE_TOKENS = parseInt(process.env.STREAK_MAX_FREEZE_TOKENS ?? "3", 10);
+// A freeze token is earned every N consecutive check-in days
+const FREEZE_EARN_INTERVAL = 7;
+
 export interface LeaderboardResult {
   streaks: IStreak[];
   pagination: {
@@ -12,73 +35,403 @@ export interface LeaderboardResult {
   };
 }
 
+export interface StreakEvaluation {
+  currentStreak: number;
+  longestStreak: number;
+  lastCheckInDay: string | null;
+  /** Missed days that would have to be bridged by freeze tokens on the next check-in */
+  missedDays: number;
+}
+
+/**
+ * Pure streak evaluation over a check-in history, as of `todayKey`.
+ * Freeze days keep a chain alive without adding to it; entries before the
+ * latest "reset" are ignored. A chain with a gap is still alive when the
+ * available freeze tokens can bridge it on the next check-in.
+ */
+export const evaluateHistory = (
+  history: IStreakHistoryEntry[],
+  todayKey: string,
+  freezeTokens = 0
+): StreakEvaluation => {
+  let start = 0;
+  history.forEach((entry, idx) => {
+    if (entry.type === "reset") start = idx + 1;
+  });
+
+  // One entry per day; a real check-in wins over a freeze on the same day
+  const days = new Map<string, IStreakHistoryEntry["type"]>();
+  for (const entry of history.slice(start)) {
+    if (entry.type === "check-in" || !days.has(entry.day)) {
+      days.set(entry.day, entry.type);
+    }
+  }
+
+  const sorted = [...days.keys()].sort();
+  let run = 0;
+  let longest = 0;
+  let prev: string | null = null;
+  for (const day of sorted) {
+    if (prev && diffDayKeys(prev, day) !== 1) run = 0;
+    if (days.get(day) === "check-in") run += 1;
+    longest = Math.max(longest, run);
+    prev = day;
+  }
+
+  if (!prev) {
+    return { currentStreak: 0, longestStreak: 0, lastCheckInDay: null, missedDays: 0 };
+  }
+
+  const missedDays = Math.max(0, diffDayKeys(prev, todayKey) - 1);
+  const alive = missedDays <= freezeTokens;
+  return {
+    currentStreak: alive ? run : 0,
+    longestStreak: longest,
+    lastCheckInDay: prev,
+    missedDays: alive ? missedDays : 0,
+  };
+};
+
+/**
+ * Look up the user's timezone from `location.timezone`.
+ */
+const getUserTimeZone = async (userId: string): Promise<string> => {
+  const user = await User.findById(userId).select("location.timezone").lean();
+  return resolveTimeZone(user?.location?.timezone);
+};
+
+/**
+ * Keep the denormalized `User.streakCount` in step with the engine.
+ */
+const syncUserStreakCount = async (userId: mongoose.Types.ObjectId | string, count: number): Promise<void> => {
+  await User.updateOne({ _id: userId }, { $set: { streakCount: count } });
+};
+
+/**
+ * Streaks saved before per-day history existed only have `streakCount` and
+ * `lastCheckIn`; evaluating their empty history would zero them. Seed the
+ * history those fields imply (in memory) and report whether anything changed.
+ */
+const seedLegacyHistory = (
+  streak: Pick<IStreak, "history" | "streakCount" | "lastCheckIn" | "lastCheckInDay">,
+  timeZone: string
+): boolean => {
+  if (streak.history.length) return false;
+  const seeded = legacyHistory(streak.streakCount, streak.lastCheckIn, timeZone);
+  if (!seeded.length) return false;
+  streak.history.push(...seeded);
+  streak.lastCheckInDay = seeded[seeded.length - 1].day;
+  return true;
+};
+
+/**
+ * Re-evaluate a streak document as of `now` and persist any change.
+ */
+const refreshStreak = async (streak: IStreak, timeZone: string, now = new Date()): Promise<IStreak> => {
+  const seeded = seedLegacyHistory(streak, timeZone);
+  const evaluation = evaluateHistory(streak.history, getLocalDayKey(now, timeZone), streak.freezeTokens);
+  const longest = Math.max(streak.longestStreak, evaluation.longestStreak);
+
+  if (
+    seeded ||
+    streak.streakCount !== evaluation.currentStreak ||
+    streak.longestStreak !== longest ||
+    streak.timezone !== timeZone
+  ) {
+    streak.streakCount = evaluation.currentStreak;
+    streak.longestStreak = longest;
+    streak.timezone = timeZone;
+    await streak.save();
+    await syncUserStreakCount(streak.user, streak.streakCount);
+  }
+  return streak;
+};
+
 export const getUserStreak = async (userId: string): Promise<IStreak> => {
   if (!mongoose.isValidObjectId(userId)) {
-    throw new Error("Invalid User ID format.");
+    throw createError("Invalid User ID format.", 400);
   }
-  const streak = await Streak.findOne({ user: userId }).populate("user", "username");
+  const streak = await Streak.findOne({ user: userId });
   if (!streak) {
     throw new Error("Streak not found for this user.");
   }
+  await refreshStreak(streak, await getUserTimeZone(userId));
+  return streak.populate("user", "username");
+};
+
+export const logDailyCheckIn = async (userId: string, now = new Date()): Promise<IStreak> => {
+  if (!mongoose.isValidObjectId(userId)) {
+    throw createError("Invalid User ID format.", 400);
+  }
+
+  const timeZone = await getUserTimeZone(userId);
+  const streak =
+    (await Streak.findOne({ user: userId })) ??
+    new Streak({ user: userId, timezone: timeZone });
+  seedLegacyHistory(streak, timeZone);
+
+  const today = getLocalDayKey(now, timeZone);
+  const yesterday = shiftDayKey(today, -1);
+  const before = evaluateHistory(streak.history, today, streak.freezeTokens);
+
+  // Grace period: shortly after local midnight, a check-in that would
+  // otherwise break the chain is credited to the day that was missed.
+  let day = today;
+  if (
+    before.lastCheckInDay &&
+    before.lastCheckInDay < yesterday &&
+    getLocalHour(now, timeZone) < GRACE_HOURS &&
+    diffDayKeys(before.lastCheckInDay, yesterday) - 1 <= streak.freezeTokens
+  ) {
+    day = yesterday;
+  }
+
+  if (streak.history.some((e) => e.day === today && e.type === "check-in") && day === today) {
+    throw createError("You have already checked in today.", 409);
+  }
+
+  // Bridge missed days with freeze tokens when possible
+  if (before.lastCheckInDay) {
+    const missed = diffDayKeys(before.lastCheckInDay, day) - 1;
+    if (missed > 0 && missed <= streak.freezeTokens) {
+      for (let i = 1; i <= missed; i++) {
+        streak.history.push({
+          day: shiftDayKey(before.lastCheckInDay, i),
+          type: "freeze",
+          recordedAt: now,
+        });
+      }
+      streak.freezeTokens -= missed;
+      logger.info(`🧊 Used ${missed} freeze token(s) to protect streak for user ${userId}`);
+    }
+  }
+
+  streak.history.push({ day, type: "check-in", recordedAt: now });
+  const after = evaluateHistory(streak.history, today, streak.freezeTokens);
+
+  // Earn a freeze token at every FREEZE_EARN_INTERVAL-day mark
+  if (
+    after.currentStreak > 0 &&
+    after.currentStreak % FREEZE_EARN_INTERVAL === 0 &&
+    streak.freezeTokens < MAX_FREEZE_TOKENS
+  ) {
+    streak.freezeTokens += 1;
+    logger.info(`🧊 User ${userId} earned a streak freeze at ${after.currentStreak} days`);
+  }
+
+  streak.streakCount = after.currentStreak;
+  streak.longestStreak = Math.max(streak.longestStreak, after.longestStreak);
+  streak.lastCheckIn = now;
+  streak.lastCheckInDay = after.lastCheckInDay;
+  streak.timezone = timeZone;
+  await streak.save();
+  await syncUserStreakCount(userId, streak.streakCount);
+  await BadgeRuleEngine.track("check_in", userId);
+  await WebhookService.emit(userId, "checkin.created", {
+    source: "streak",
+    day,
+    streakCount: streak.streakCount,
+    completedAt: now,
+  });
+
+  logger.info(`✅ Streak updated for user ${userId}: ${streak.streakCount} days (${day}, ${timeZone})`);
   return streak;
 };
 
-export const logDailyCheckIn = async (userId: string): Promise<IStreak> => {
+/**
+ * Whether the user has a check-in recorded for their current local day.
+ */
+export const hasCheckedInToday = async (userId: string, now = new Date()): Promise<boolean> => {
+  const timeZone = await getUserTimeZone(userId);
+  const today = getLocalDayKey(now, timeZone);
+  const found = await Streak.exists({
+    user: userId,
+    history: { $elemMatch: { day: today, type: "check-in" } },
+  });
+  return !!found;
+};
+
+/**
+ * Spend points on freeze tokens. Points are only deducted when the
+ * user has enough of them; a retried purchase with the same key is
+ * not charged or credited twice.
+ */
+export const purchaseFreezeTokens = async (
+  userId: string,
+  quantity: number,
+  idempotencyKey: string
+): Promise<IStreak> => {
   if (!mongoose.isValidObjectId(userId)) {
-    throw new Error("Invalid User ID format.");
+    throw createError("Invalid User ID format.", 400);
+  }
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw createError("Quantity must be a positive integer.", 400);
   }
 
-  let streak = await Streak.findOne({ user: userId });
+  const existing = await Streak.findOne({ user: userId });
+  if (existing && (await PointsLedgerService.hasEntry(idempotencyKey))) {
+    return existing;
+  }
+  const streak = existing ?? (await Streak.create({ user: userId, timezone: await getUserTimeZone(userId) }));
 
-  if (!streak) {
-    streak = await Streak.create({ user: userId, lastCheckIn: new Date(), streakCount: 1 });
-    logger.info(`✅ New streak started for user ${userId}`);
-    return streak;
+  if (streak.freezeTokens + quantity > MAX_FREEZE_TOKENS) {
+    throw createError(`You can hold at most ${MAX_FREEZE_TOKENS} streak freezes.`, 400);
   }
 
-  const last = streak.lastCheckIn?.toISOString().split("T")[0];
-  const today = new Date().toISOString().split("T")[0];
+  const cost = quantity * FREEZE_TOKEN_COST;
+  const { applied } = await PointsLedgerService.debit({
+    userId,
+    amount: cost,
+    reason: "streak_freeze_purchased",
+    sourceType: "Streak",
+    sourceId: streak._id.toString(),
+    idempotencyKey,
+    metadata: { quantity },
+  }).catch((err: CustomError) => {
+    if (err.statusCode === 400) throw createError("Not enough points to buy a streak freeze.", 400);
+    throw err;
+  });
+  if (!applied) return (await Streak.findById(streak._id)) ?? streak;
 
-  if (last === today) {
-    throw new Error("You have already checked in today.");
+  // The cap is re-checked in the update itself: a concurrent purchase may
+  // have filled the freezes since the check above. If so, refund the points.
+  const { modifiedCount } = await Streak.updateOne(
+    { _id: streak._id, freezeTokens: { $lte: MAX_FREEZE_TOKENS - quantity } },
+    { $inc: { freezeTokens: quantity } }
+  );
+  if (!modifiedCount) {
+    await PointsLedgerService.credit({
+      userId,
+      amount: cost,
+      xp: 0,
+      reason: "streak_freeze_refunded",
+      sourceType: "Streak",
+      sourceId: streak._id.toString(),
+      idempotencyKey: `${idempotencyKey}:refund`,
+      metadata: { quantity },
+    });
+    throw createError(`You can hold at most ${MAX_FREEZE_TOKENS} streak freezes.`, 400);
   }
 
-  const yesterday = new Date(Date.now() - 86400000).toISOString().split("T")[0];
-  streak.streakCount = (last === yesterday) ? streak.streakCount + 1 : 1;
-  streak.lastCheckIn = new Date();
+  logger.info(`🧊 User ${userId} bought ${quantity} streak freeze(s) for ${cost} points`);
+  return (await Streak.findById(streak._id)) ?? streak;
+};
+
+/**
+ * Rebuild the streak counters from the stored history (audit/repair).
+ */
+export const recomputeStreak = async (userId: string): Promise<IStreak> => {
+  if (!mongoose.isValidObjectId(userId)) {
+    throw createError("Invalid User ID format.", 400);
+  }
+  const streak = await Streak.findOne({ user: userId });
+  if (!streak) {
+    throw new Error("Streak not found for this user.");
+  }
+  const timeZone = await getUserTimeZone(userId);
+  seedLegacyHistory(streak, timeZone);
+  const evaluation = evaluateHistory(
+    streak.history,
+    getLocalDayKey(new Date(), timeZone),
+    streak.freezeTokens
+  );
+  streak.streakCount = evaluation.currentStreak;
+  streak.longestStreak = Math.max(streak.longestStreak, evaluation.longestStreak);
+  streak.lastCheckInDay = evaluation.lastCheckInDay;
+  streak.timezone = timeZone;
   await streak.save();
-  logger.info(`✅ Streak updated for user ${userId}: ${streak.streakCount} days`);
+  await syncUserStreakCount(userId, streak.streakCount);
   return streak;
 };
 
+/**
+ * Per-day history for auditing, most recent first.
+ */
+export const getStreakHistory = async (userId: string, limit = 90): Promise<IStreakHistoryEntry[]> => {
+  if (!mongoose.isValidObjectId(userId)) {
+    throw createError("Invalid User ID format.", 400);
+  }
+  const streak = await Streak.findOne({ user: userId }).select("history").lean();
+  return (streak?.history ?? []).slice(-limit).reverse();
+};
+
 export const resetUserStreak = async (userId: string): Promise<void> => {
   if (!mongoose.isValidObjectId(userId)) {
-    throw new Error("Invalid User ID format.");
+    throw createError("Invalid User ID format.", 400);
   }
   const streak = await Streak.findOne({ user: userId });
   if (!streak) {
-    throw new Error("No streak found for this user.");
+    throw createError("No streak found for this user.", 404);
   }
+  const timeZone = await getUserTimeZone(userId);
+  streak.history.push({
+    day: getLocalDayKey(new Date(), timeZone),
+    type: "reset",
+    recordedAt: new Date(),
+  });
   streak.streakCount = 0;
   streak.lastCheckIn = null;
+  streak.lastCheckInDay = null;
   await streak.save();
+  await syncUserStreakCount(userId, 0);
   logger.info(`✅ Streak reset for user: ${userId}`);
 };
 
+/**
+ * Zero out streaks that have lapsed. Anyone who checked in within the last
+ * 24 hours is still on today or yesterday in every timezone, so only older
+ * non-zero streaks need a per-user evaluation. Run by streakExpiryJob.
+ */
+export const expireStaleStreaks = async (now = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const candidates = await Streak.find({
+    streakCount: { $gt: 0 },
+    lastCheckIn: { $lt: cutoff },
+  }).populate<{ user: { _id: mongoose.Types.ObjectId; location?: { timezone?: string } } }>(
+    "user",
+    "location.timezone"
+  );
+
+  let expired = 0;
+  for (const streak of candidates) {
+    const timeZone = resolveTimeZone(streak.user?.location?.timezone);
+    const seeded = seedLegacyHistory(streak, timeZone);
+    const evaluation = evaluateHistory(
+      streak.history,
+      getLocalDayKey(now, timeZone),
+      streak.freezeTokens
+    );
+    const changed = evaluation.currentStreak !== streak.streakCount;
+    if (!seeded && !changed) continue;
+
+    const update: Record<string, unknown> = { streakCount: evaluation.currentStreak };
+    if (seeded) Object.assign(update, { history: streak.history, lastCheckInDay: streak.lastCheckInDay });
+    await Streak.updateOne({ _id: streak._id }, { $set: update });
+    if (changed) {
+      await syncUserStreakCount(streak.user._id, evaluation.currentStreak);
+      expired++;
+    }
+  }
+  if (expired) logger.info(`⏳ Expired ${expired} lapsed streak(s)`);
+  return expired;
+};
+
 export const getStreakLeaderboard = async (
   limit: number,
   page: number
 ): Promise<LeaderboardResult> => {
   const skip = (page - 1) * limit;
+  const filter = { streakCount: { $gt: 0 } };
   const [streaks, totalEntries] = await Promise.all([
-    Streak.find()
-      .sort({ streakCount: -1 })
+    Streak.find(filter)
+      .select("-history")
+      .sort({ streakCount: -1, longestStreak: -1 })
       .skip(skip)
       .limit(limit)
       .populate("user", "username profilePicture")
       .lean()
       .exec(),
-    Streak.countDocuments(),
+    Streak.countDocuments(filter),
   ]);
   const totalPages = Math.ceil(totalEntries / limit);
   return { streaks, pagination: { totalEntries, currentPage: page, totalPages } };
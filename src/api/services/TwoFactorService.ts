@@ -0,0 +1,201 @@
+// src/api/services/TwoFactorService.ts
+import { Types } from "mongoose";
+import type { IUser } from "../models/User";
+import { User } from "../models/User";
+import AuditTrail from "../models/AuditLog";
+import AuthService from "./AuthService";
+import type { AuthTokens } from "./AuthService";
+import type { ClientInfo } from "./SessionService";
+import { createError } from "../middleware/errorHandler";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from "../utils/totpUtils";
+import appConfig from "../../config/appConfig";
+import { logger } from "../../utils/winstonLogger";
+
+export type SecondFactor = "totp" | "recovery";
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+// Roles that must have 2FA on before they can use the API beyond enrolling
+export const TWO_FACTOR_REQUIRED_ROLES: IUser["role"][] = ["admin", "moderator"];
+
+const RECOVERY_CODE_COUNT = 10;
+
+class TwoFactorService {
+  /** Whether `role` must use 2FA; REQUIRE_STAFF_2FA=false switches enforcement off */
+  static isRequiredFor(role?: string): boolean {
+    if (process.env.REQUIRE_STAFF_2FA === "false") return false;
+    return TWO_FACTOR_REQUIRED_ROLES.includes(role as IUser["role"]);
+  }
+
+  /**
+   * Start enrollment: store a fresh secret (not yet live) and return it
+   * with an otpauth URI for the authenticator app. Calling again before
+   * confirming replaces the secret.
+   */
+  static async setup(userId: string): Promise<TwoFactorSetup> {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw createError("Two-factor authentication is already enabled", 409);
+    }
+
+    const secret = generateTotpSecret();
+    await User.updateOne(
+      { _id: user._id, twoFactorEnabled: { $ne: true } },
+      { $set: { twoFactorSecret: secret }, $unset: { twoFactorLastStep: 1 } }
+    );
+    return { secret, otpauthUri: buildOtpauthUri(appConfig.appName, user.email, secret) };
+  }
+
+  /**
+   * Finish enrollment with a code from the app. Returns the recovery codes;
+   * this is the only time they are shown.
+   */
+  static async confirm(userId: string, code: string, client: ClientInfo = {}): Promise<string[]> {
+    const user = await this.findUser(userId, "+twoFactorSecret");
+    if (user.twoFactorEnabled) {
+      throw createError("Two-factor authentication is already enabled", 409);
+    }
+    if (!user.twoFactorSecret) {
+      throw createError("Start two-factor setup first", 400);
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null) throw createError("Invalid authentication code", 400);
+
+    const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+    await User.updateOne(
+      { _id: user._id },
+      {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        twoFactorLastStep: step,
+      }
+    );
+    await this.audit(user._id, "2fa_enabled", "Two-factor authentication enabled", client);
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a second factor for `userId`: a current TOTP code or an unused
+   * recovery code. Both are spent atomically, so each works only once.
+   */
+  static async verify(userId: string | Types.ObjectId, code: string): Promise<SecondFactor | null> {
+    const user = await User.findById(userId).select("+twoFactorSecret twoFactorEnabled");
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) return null;
+
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step !== null) {
+      const { modifiedCount } = await User.updateOne(
+        {
+          _id: user._id,
+          $or: [{ twoFactorLastStep: { $lt: step } }, { twoFactorLastStep: { $exists: false } }],
+        },
+        { twoFactorLastStep: step }
+      );
+      return modifiedCount ? "totp" : null;
+    }
+
+    const hash = hashRecoveryCode(code);
+    const { modifiedCount } = await User.updateOne(
+      { _id: user._id, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } }
+    );
+    if (modifiedCount) {
+      logger.info(`🔑 Recovery code used by user ${user._id}`);
+      return "recovery";
+    }
+    return null;
+  }
+
+  /**
+   * Second login step: trade an "mfa pending" token and a valid code for a
+   * full session.
+   */
+  static async completeLogin(
+    mfaToken: string,
+    code: string,
+    client: ClientInfo
+  ): Promise<{ user: IUser; tokens: AuthTokens; method: SecondFactor }> {
+    const userId = AuthService.verifyMfaToken(mfaToken);
+    const method = await this.verify(userId, code);
+    if (!method) throw createError("Invalid authentication code", 401);
+
+    const user = await this.findUser(userId);
+    const tokens = await AuthService.startSession({ _id: user._id.toString(), role: user.role }, client);
+    return { user, tokens, method };
+  }
+
+  /**
+   * Turn 2FA off. Requires the password and a current code (re-authentication);
+   * not allowed for roles where it is mandatory.
+   */
+  static async disable(userId: string, password: string, code: string, client: ClientInfo = {}): Promise<void> {
+    const user = await this.findUser(userId, "+password");
+    if (!user.twoFactorEnabled) {
+      throw createError("Two-factor authentication is not enabled", 400);
+    }
+    if (this.isRequiredFor(user.role)) {
+      throw createError("Two-factor authentication is required for your role", 403);
+    }
+    const passwordOk = await AuthService.comparePassword(password, user.password);
+    if (!passwordOk || !(await this.verify(user._id, code))) {
+      throw createError("Re-authentication failed", 401);
+    }
+
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: { twoFactorEnabled: false },
+        $unset: {
+          twoFactorSecret: 1,
+          twoFactorRecoveryCodes: 1,
+          twoFactorLastStep: 1,
+          twoFactorEnabledAt: 1,
+        },
+      }
+    );
+    await this.audit(user._id, "2fa_disabled", "Two-factor authentication disabled", client);
+  }
+
+  private static async findUser(userId: string | Types.ObjectId, select?: string): Promise<IUser> {
+    if (!Types.ObjectId.isValid(userId)) throw createError("User not found", 404);
+    const query = User.findById(userId);
+    if (select) query.select(select);
+    const user = await query;
+    if (!user) throw createError("User not found", 404);
+    return user;
+  }
+
+  private static async audit(
+    userId: Types.ObjectId,
+    action: string,
+    description: string,
+    client: ClientInfo
+  ): Promise<void> {
+    try {
+      await AuditTrail.logEvent(
+        userId,
+        "User",
+        userId,
+        action,
+        description,
+        client.ipAddress?.replace(/^::ffff:/, ""),
+        client.userAgent
+      );
+    } catch (err) {
+      logger.error(`❌ Failed to audit ${action} for user ${userId}: ${(err as Error).message}`);
+    }
+  }
+}
+
+export default TwoFactorService;
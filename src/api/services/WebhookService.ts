@@ -0,0 +1,308 @@
+// src/api/services/WebhookService.ts
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import type { Types } from "mongoose";
+import type { IIntegration } from "../models/Integration";
+import Integration from "../models/Integration";
+import type { DeliveryStatus, IWebhookAttempt, IWebhookDelivery } from "../models/WebhookDelivery";
+import WebhookDelivery from "../models/WebhookDelivery";
+import { createError } from "../middleware/errorHandler";
+import type { WebhookEvent } from "../utils/webhookUtils";
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WEBHOOK_PING_EVENT,
+  WebhookAddressError,
+  allowPrivateWebhookTargets,
+  publicOnlyLookup,
+  signWebhookPayload,
+  webhookUrlError,
+} from "../utils/webhookUtils";
+import retryAsync from "../../utils/retryHelper";
+import { isWebhookQueueEnabled, webhookQueue } from "../../queues/webhookQueue";
+import appConfig from "../../config/appConfig";
+import { logger } from "../../utils/winstonLogger";
+
+// Up to 5 attempts, waiting 2s, 4s, 8s then 16s between them
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5;
+const RETRY_BASE_DELAY_MS = Number(process.env.WEBHOOK_RETRY_DELAY_MS) || 2000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// An endpoint is switched off after this many deliveries in a row fail
+export const MAX_CONSECUTIVE_FAILURES = 10;
+
+/** One failed attempt; `retryable` is false when retrying can't help (e.g. a 404) */
+class DeliveryAttemptError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+  }
+}
+
+const isRetryableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+/**
+ * POST `body` to `url` and resolve with the response status. Redirects
+ * aren't followed and the response body is discarded. The host is
+ * resolved through publicOnlyLookup, so the connection goes to the
+ * address that passed the check.
+ */
+const post = (url: string, headers: Record<string, string>, body: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const urlError = webhookUrlError(url);
+    if (urlError) return reject(new WebhookAddressError(urlError));
+
+    const client = url.startsWith("https:") ? https : http;
+    const req = client.request(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: allowPrivateWebhookTargets() ? undefined : publicOnlyLookup,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }, (res) => {
+      res.resume();
+      res.on("end", () => resolve(res.statusCode ?? 0));
+      res.on("error", reject);
+    });
+    req.on("error", reject);
+    req.end(body);
+  });
+
+class WebhookService {
+  /**
+   * Queue a delivery of `event` to every active webhook of `userId`
+   * subscribed to it. Never throws: a webhook problem must not fail the
+   * action that raised the event.
+   */
+  static async emit(
+    userId: string | Types.ObjectId,
+    event: WebhookEvent,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const endpoints = await Integration.find({
+        user: userId,
+        type: "webhook",
+        isActive: true,
+        "settings.events": event,
+      }).select("_id user");
+      if (!endpoints.length) return;
+
+      const payload = {
+        id: `evt_${crypto.randomBytes(12).toString("hex")}`,
+        event,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+      for (const endpoint of endpoints) {
+        const delivery = await WebhookDelivery.create({
+          integration: endpoint._id,
+          user: endpoint.user,
+          event,
+          eventId: payload.id,
+          payload,
+        });
+        await this.enqueue(delivery);
+      }
+    } catch (err) {
+      logger.error(`❌ Failed to queue ${event} webhooks for user ${userId}: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Send a pending delivery, retrying with exponential backoff. Every
+   * attempt is logged on the delivery; the final outcome feeds the
+   * endpoint's failure count.
+   */
+  static async processDelivery(deliveryId: string): Promise<void> {
+    const delivery = await WebhookDelivery.findById(deliveryId);
+    if (!delivery || delivery.status !== "pending") return;
+
+    const integration = await Integration.findById(delivery.integration).select("+signingSecret");
+    if (!integration?.isActive || !integration.signingSecret) {
+      await this.complete(delivery, "failed");
+      logger.warn(`Webhook delivery ${deliveryId} dropped: endpoint removed or disabled`);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    try {
+      await retryAsync(() => this.attempt(delivery, integration, body), {
+        maxRetries: MAX_ATTEMPTS,
+        delay: RETRY_BASE_DELAY_MS,
+        exponentialBackoff: true,
+        shouldRetry: (err) => !(err instanceof DeliveryAttemptError) || err.retryable,
+      });
+    } catch {
+      await this.complete(delivery, "failed");
+      await this.recordFailure(integration);
+      return;
+    }
+
+    await this.complete(delivery, "succeeded");
+    if (integration.failureCount > 0) {
+      await Integration.updateOne({ _id: integration._id }, { failureCount: 0 });
+    }
+  }
+
+  /**
+   * Send a "ping" event once, without retries, so users can check their
+   * endpoint and signature verification. Doesn't count toward auto-disable.
+   */
+  static async sendTest(integration: IIntegration): Promise<IWebhookDelivery> {
+    const withSecret = await Integration.findById(integration._id).select("+signingSecret");
+    if (!withSecret?.signingSecret) {
+      throw createError("Webhook has no signing secret", 400);
+    }
+
+    const eventId = `evt_${crypto.randomBytes(12).toString("hex")}`;
+    const delivery = await WebhookDelivery.create({
+      integration: withSecret._id,
+      user: withSecret.user,
+      event: WEBHOOK_PING_EVENT,
+      eventId,
+      payload: { id: eventId, event: WEBHOOK_PING_EVENT, createdAt: new Date().toISOString(), data: {} },
+    });
+
+    try {
+      await this.attempt(delivery, withSecret, JSON.stringify(delivery.payload));
+    } catch (err) {
+      await this.complete(delivery, "failed");
+      throw createError(`Webhook test failed: ${(err as Error).message}`, 502);
+    }
+    await this.complete(delivery, "succeeded");
+    return delivery;
+  }
+
+  /** Deliveries of one of the user's webhooks, newest first */
+  static async listDeliveries(
+    userId: string,
+    integrationId: string,
+    opts: { status?: DeliveryStatus; page?: number; limit?: number } = {}
+  ): Promise<{ items: IWebhookDelivery[]; total: number }> {
+    const integration = await this.findWebhook(userId, integrationId);
+    const page = Math.max(1, opts.page || 1);
+    const limit = Math.min(100, Math.max(1, opts.limit || 20));
+    const filter: Record<string, unknown> = { integration: integration._id };
+    if (opts.status) filter.status = opts.status;
+
+    const [items, total] = await Promise.all([
+      // Response bodies are no longer recorded; hide any kept from before
+      WebhookDelivery.find(filter)
+        .select("-attempts.responseBody")
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      WebhookDelivery.countDocuments(filter),
+    ]);
+    return { items, total };
+  }
+
+  /**
+   * Send a finished delivery again as a new delivery. The payload, event
+   * id included, is unchanged so receivers can recognise the duplicate.
+   */
+  static async replay(userId: string, integrationId: string, deliveryId: string): Promise<IWebhookDelivery> {
+    const integration = await this.findWebhook(userId, integrationId);
+    if (!integration.isActive) {
+      throw createError("Webhook is disabled; enable it before replaying deliveries", 409);
+    }
+
+    const original = await WebhookDelivery.findOne({ _id: deliveryId, integration: integration._id });
+    if (!original) throw createError("Delivery not found", 404);
+    if (original.status === "pending") {
+      throw createError("Delivery is still being attempted", 409);
+    }
+
+    const replay = await WebhookDelivery.create({
+      integration: integration._id,
+      user: integration.user,
+      event: original.event,
+      eventId: original.eventId,
+      payload: original.payload,
+      replayOf: original._id,
+    });
+    await this.enqueue(replay);
+    logger.info(`🔁 Webhook delivery ${deliveryId} replayed as ${replay._id}`);
+    return replay;
+  }
+
+  /** Hand a delivery to the queue; without one, send it in the background */
+  private static async enqueue(delivery: IWebhookDelivery): Promise<void> {
+    const deliveryId = delivery._id.toString();
+    if (isWebhookQueueEnabled()) {
+      await webhookQueue.add("deliver", { deliveryId }, { removeOnComplete: true, removeOnFail: 1000 });
+      return;
+    }
+    this.processDelivery(deliveryId).catch((err: Error) => {
+      logger.error(`❌ Webhook delivery ${deliveryId} crashed: ${err.message}`);
+    });
+  }
+
+  /** POST the signed payload once and log the attempt */
+  private static async attempt(delivery: IWebhookDelivery, integration: IIntegration, body: string): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+    const record: IWebhookAttempt = { attemptedAt: new Date(started), durationMs: 0 };
+
+    try {
+      const status = await post(String(integration.settings.url), {
+        "Content-Type": "application/json",
+        "User-Agent": `${appConfig.appName} Webhooks`,
+        "X-Webhook-Id": delivery._id.toString(),
+        "X-Webhook-Event": delivery.event,
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: signWebhookPayload(integration.signingSecret!, timestamp, body),
+      }, body);
+      record.statusCode = status;
+      if (status < 200 || status >= 300) {
+        record.error = `Endpoint responded with HTTP ${status}`;
+        throw new DeliveryAttemptError(record.error, isRetryableStatus(status));
+      }
+    } catch (err) {
+      if (err instanceof DeliveryAttemptError) throw err;
+      record.error = (err as Error).message;
+      // A blocked address stays blocked; network errors and timeouts are worth retrying
+      throw new DeliveryAttemptError(record.error, !(err instanceof WebhookAddressError));
+    } finally {
+      record.durationMs = Date.now() - started;
+      await WebhookDelivery.updateOne({ _id: delivery._id }, { $push: { attempts: record } });
+    }
+  }
+
+  private static async complete(delivery: IWebhookDelivery, status: DeliveryStatus): Promise<void> {
+    await WebhookDelivery.updateOne({ _id: delivery._id }, { status, completedAt: new Date() });
+    delivery.status = status;
+  }
+
+  /** Count a failed delivery; too many in a row switches the endpoint off */
+  private static async recordFailure(integration: IIntegration): Promise<void> {
+    const updated = await Integration.findOneAndUpdate(
+      { _id: integration._id },
+      { $inc: { failureCount: 1 } },
+      { new: true }
+    );
+    if (!updated?.isActive || updated.failureCount < MAX_CONSECUTIVE_FAILURES) return;
+
+    const { modifiedCount } = await Integration.updateOne(
+      { _id: updated._id, isActive: true },
+      {
+        isActive: false,
+        disabledAt: new Date(),
+        disabledReason: `${updated.failureCount} consecutive deliveries failed`,
+      }
+    );
+    if (modifiedCount) {
+      logger.warn(`🔌 Webhook ${updated._id} of user ${updated.user} disabled after ${updated.failureCount} failed deliveries`);
+    }
+  }
+
+  private static async findWebhook(userId: string, integrationId: string): Promise<IIntegration> {
+    const integration = await Integration.findOne({ _id: integrationId, user: userId, type: "webhook" });
+    if (!integration) {
+      throw createError("Webhook not found or access denied", 404);
+    }
+    return integration;
+  }
+}
+
+export default WebhookService;
@@ -2,6 +2,7 @@
 import mongoose from "mongoose";
 import BlogPost, { IBlogPost } from "../models/BlogPost";
 import Notification from "../models/Notification";
+import ModerationService from "./ModerationService";
 
 export const createBlogPostService = async (
   userId: string,
@@ -9,15 +10,19 @@ export const createBlogPostService = async (
   content: string,
   category: string
 ): Promise<IBlogPost> => {
+  const verdict = await ModerationService.enforce("blog_post", `${title}\n${content}`, { userId });
+  // Masking keeps the text length, so the title and content split back apart
   const post = new BlogPost({
     author: userId,
-    title,
-    content,
+    title: verdict.text.slice(0, title.length),
+    content: verdict.text.slice(title.length + 1),
     category,
     likes: [],
     comments: [],
+    isHidden: verdict.hidden,
   });
   await post.save();
+  await ModerationService.track(verdict, { contentId: post._id, authorId: userId });
   return post;
 };
 
@@ -58,14 +63,19 @@ export const addCommentService = async (
 
   const uid = new mongoose.Types.ObjectId(userId);
   // create a real sub-document
+  const verdict = await ModerationService.enforce("blog_comment", text, { userId });
   const commentDoc = post.comments.create({
     user: uid,
-    text,
+    text: verdict.text,
+    isHidden: verdict.hidden,
     createdAt: new Date(),
   });
   post.comments.push(commentDoc as any);
   await post.save();
+  await ModerationService.track(verdict, { contentId: commentDoc._id, parentId: post._id, authorId: userId });
 
+  // Nobody else sees a shadow-hidden comment, so don't announce it
+  if (verdict.hidden) return post;
   await Notification.create({
     user: post.author,
     message: `${userId} commented on your blog post "${post.title}".`,
@@ -98,19 +108,24 @@ export const removeCommentService = async (
 
 export const getAllBlogPostsService = async (
   limit: number,
-  page: number
+  page: number,
+  viewerId?: string
 ): Promise<IBlogPost[]> => {
-  return BlogPost.find()
+  const posts = await BlogPost.find(ModerationService.visibleTo(viewerId, "author"))
     .sort({ createdAt: -1 })
     .skip((page - 1) * limit)
     .limit(limit);
+  posts.forEach((post) => ModerationService.stripHiddenComments(post, viewerId));
+  return posts;
 };
 
 export const getBlogPostByIdService = async (
-  postId: string
+  postId: string,
+  viewerId?: string
 ): Promise<IBlogPost> => {
-  const post = await BlogPost.findById(postId);
+  const post = await BlogPost.findOne({ _id: postId, ...ModerationService.visibleTo(viewerId, "author") });
   if (!post) throw new Error("Blog post not found");
+  ModerationService.stripHiddenComments(post, viewerId);
   return post;
 };
 
@@ -126,10 +141,19 @@ export const updateBlogPostService = async (
   if (post.author.toString() !== userId) {
     throw new Error("You are not authorized to update this blog post");
   }
-  if (title) post.title = title;
-  if (content) post.content = content;
+  const verdict = (title || content)
+    ? await ModerationService.enforce("blog_post", `${title || post.title}\n${content || post.content}`, { userId })
+    : null;
+  if (verdict) {
+    const titleLength = (title || post.title).length;
+    post.title = verdict.text.slice(0, titleLength);
+    post.content = verdict.text.slice(titleLength + 1);
+    // Editing never lifts a hide; only a moderator can
+    post.isHidden = post.isHidden || verdict.hidden;
+  }
   if (category) post.category = category;
   await post.save();
+  if (verdict) await ModerationService.track(verdict, { contentId: post._id, authorId: userId });
   return post;
 };
 
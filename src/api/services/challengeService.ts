@@ -1,23 +1,70 @@
 // src/api/services/challengeService.ts
 import { Types } from "mongoose";
-import Challenge, { IChallenge } from "../models/Challenge";
+import Challenge, { IChallenge, IReward, ITeamSettings } from "../models/Challenge";
+import { createError } from "../middleware/errorHandler";
+import { rewardChallengeCompletion } from "../utils/rewardUtils";
+import NotificationDispatcher from "./NotificationDispatcher";
+import { logger } from "../../utils/winstonLogger";
+
+export interface CreateChallengeInput {
+  title: string;
+  description?: string;
+  goal: string;
+  startDate?: Date;
+  endDate: Date;
+  visibility?: "public" | "private";
+  progressTracking?: IChallenge["progressTracking"];
+  teamSettings?: Partial<ITeamSettings>;
+  teams?: string[];                 // team names; auto mode defaults to two teams
+  milestones?: { title: string; dueDate: Date; target?: number; requiredAchievers?: number }[];
+  rewards?: IReward[];
+}
+
+export interface TeamStanding {
+  team: { _id: Types.ObjectId; name: string };
+  members: number;
+  score: number;
+  rank: number;
+}
+
+const DEFAULT_AUTO_TEAMS = 2;
+
+const usesTeams = (challenge: Pick<IChallenge, "progressTracking">): boolean =>
+  challenge.progressTracking === "team" || challenge.progressTracking === "both";
 
 /**
  * Create a new challenge.
  */
 export const createChallengeService = async (
-  title: string,
-  description: string,
-  pointsRequired: number,
-  rewardType: string,
-  visibility: "public" | "private" = "public"
+  creatorId: string,
+  input: CreateChallengeInput
 ): Promise<IChallenge> => {
+  const progressTracking = input.progressTracking ?? "individual";
+  const teamSettings = { mode: "auto" as const, maxTeamSize: null, scoring: "average" as const, ...input.teamSettings };
+
+  let teamNames = input.teams ?? [];
+  if (progressTracking !== "individual" && !teamNames.length && teamSettings.mode === "auto") {
+    teamNames = Array.from({ length: DEFAULT_AUTO_TEAMS }, (_, i) => `Team ${i + 1}`);
+  }
+
   const newChallenge = await Challenge.create({
-    title,
-    description,
-    pointsRequired,
-    rewardType,
-    visibility,
+    title: input.title,
+    description: input.description,
+    goal: input.goal,
+    startDate: input.startDate ?? new Date(),
+    endDate: input.endDate,
+    creator: creatorId,
+    visibility: input.visibility ?? "public",
+    progressTracking,
+    teamSettings,
+    teams: teamNames.map((name) => ({ name, createdBy: creatorId })),
+    milestones: (input.milestones ?? []).map((m) => ({
+      title: m.title,
+      dueDate: m.dueDate,
+      target: m.target ?? null,
+      requiredAchievers: m.requiredAchievers ?? 1,
+    })),
+    rewards: input.rewards ?? [],
     participants: [],
     status: "ongoing",
   });
@@ -65,29 +112,362 @@ export const getChallengeByIdService = async (
 };
 
 /**
- * Add the current user to the participants list.
+ * Add the current user to the participants list. On team challenges the
+ * user is placed on the smallest team (auto mode) or the team they chose.
  */
 export const joinChallengeService = async (
   userId: string,
-  challengeId: string
+  challengeId: string,
+  teamId?: string
 ): Promise<IChallenge> => {
   if (!Types.ObjectId.isValid(challengeId)) {
-    throw new Error("Invalid challenge ID");
+    throw createError("Invalid challenge ID", 400);
   }
   const challenge = await Challenge.findById(challengeId);
   if (!challenge) {
-    throw new Error("Challenge not found");
+    throw createError("Challenge not found", 404);
+  }
+  if (challenge.status !== "ongoing") {
+    throw createError("Challenge is no longer open", 409);
   }
 
   const uid = new Types.ObjectId(userId);
   if (challenge.participants.some((p) => p.user.equals(uid))) {
-    throw new Error("Already joined");
+    throw createError("Already joined", 400);
+  }
+
+  const team = usesTeams(challenge) ? pickTeam(challenge, teamId) : null;
+  const updated = await Challenge.findOneAndUpdate(
+    { _id: challenge._id, "participants.user": { $ne: uid } },
+    { $push: { participants: { user: uid, progress: 0, joinedAt: new Date(), team } } },
+    { new: true }
+  );
+  if (!updated) throw createError("Already joined", 400);
+  return updated;
+};
+
+/** Team a joining user goes on, enforcing the challenge's team rules */
+const pickTeam = (challenge: IChallenge, teamId?: string): Types.ObjectId => {
+  const sizes = new Map(challenge.teams.map((t) => [t._id.toString(), 0]));
+  for (const p of challenge.participants) {
+    const key = p.team?.toString();
+    if (key && sizes.has(key)) sizes.set(key, sizes.get(key)! + 1);
+  }
+  const { mode, maxTeamSize } = challenge.teamSettings ?? { mode: "auto", maxTeamSize: null };
+  const hasRoom = (id: string): boolean => !maxTeamSize || sizes.get(id)! < maxTeamSize;
+
+  if (mode === "choice") {
+    if (!teamId) throw createError("Choose a team to join this challenge", 400);
+    if (!sizes.has(teamId)) throw createError("Team not found", 404);
+    if (!hasRoom(teamId)) throw createError("That team is full", 409);
+    return new Types.ObjectId(teamId);
+  }
+
+  // Auto-balance: the smallest team with room, earliest created on ties
+  const open = [...sizes.entries()].filter(([id]) => hasRoom(id)).sort((a, b) => a[1] - b[1]);
+  if (!open.length) throw createError("All teams are full", 409);
+  return new Types.ObjectId(open[0][0]);
+};
+
+/**
+ * Create a team on a user-chosen team challenge and move the creator onto it.
+ */
+export const createTeamService = async (
+  userId: string,
+  challengeId: string,
+  name: string
+): Promise<IChallenge> => {
+  if (!Types.ObjectId.isValid(challengeId)) {
+    throw createError("Invalid challenge ID", 400);
+  }
+  const challenge = await Challenge.findById(challengeId);
+  if (!challenge) throw createError("Challenge not found", 404);
+  if (challenge.status !== "ongoing") throw createError("Challenge is no longer open", 409);
+  if (!usesTeams(challenge) || challenge.teamSettings?.mode !== "choice") {
+    throw createError("Teams on this challenge are assigned automatically", 400);
+  }
+  if (!challenge.participants.some((p) => p.user.toString() === userId)) {
+    throw createError("Join the challenge before creating a team", 403);
+  }
+  if (challenge.teams.some((t) => t.name.toLowerCase() === name.trim().toLowerCase())) {
+    throw createError("A team with that name already exists", 409);
+  }
+
+  const teamId = new Types.ObjectId();
+  const updated = await Challenge.findOneAndUpdate(
+    { _id: challenge._id, "participants.user": new Types.ObjectId(userId) },
+    {
+      $push: { teams: { _id: teamId, name: name.trim(), createdBy: userId, createdAt: new Date() } },
+      $set: { "participants.$.team": teamId },
+    },
+    { new: true }
+  );
+  if (!updated) throw createError("Join the challenge before creating a team", 403);
+  return updated;
+};
+
+/**
+ * Move a participant to another team (user-chosen team challenges only).
+ */
+export const switchTeamService = async (
+  userId: string,
+  challengeId: string,
+  teamId: string
+): Promise<IChallenge> => {
+  if (!Types.ObjectId.isValid(challengeId)) {
+    throw createError("Invalid challenge ID", 400);
+  }
+  const challenge = await Challenge.findById(challengeId);
+  if (!challenge) throw createError("Challenge not found", 404);
+  if (challenge.status !== "ongoing") throw createError("Challenge is no longer open", 409);
+  if (!usesTeams(challenge) || challenge.teamSettings?.mode !== "choice") {
+    throw createError("Teams on this challenge are assigned automatically", 400);
+  }
+  const participant = challenge.participants.find((p) => p.user.toString() === userId);
+  if (!participant) throw createError("You are not part of this challenge", 403);
+  if (participant.team?.toString() === teamId) return challenge;
+
+  const team = pickTeam(challenge, teamId);
+  const updated = await Challenge.findOneAndUpdate(
+    { _id: challenge._id, "participants.user": participant.user },
+    { $set: { "participants.$.team": team } },
+    { new: true }
+  );
+  return updated!;
+};
+
+/**
+ * Add to a participant's progress, then record milestones they reached
+ * and complete milestones that have enough achievers.
+ */
+export const updateProgressService = async (
+  userId: string,
+  challengeId: string,
+  amount: number
+): Promise<IChallenge> => {
+  if (!Types.ObjectId.isValid(challengeId)) {
+    throw createError("Invalid challenge ID", 400);
+  }
+  const uid = new Types.ObjectId(userId);
+  const now = new Date();
+
+  const challenge = await Challenge.findOneAndUpdate(
+    { _id: challengeId, status: "ongoing", endDate: { $gt: now }, "participants.user": uid },
+    { $inc: { "participants.$.progress": amount } },
+    { new: true }
+  );
+  if (!challenge) {
+    const existing = await Challenge.findById(challengeId).select("status endDate participants.user");
+    if (!existing) throw createError("Challenge not found", 404);
+    if (!existing.participants.some((p) => p.user.equals(uid))) {
+      throw createError("You are not part of this challenge", 403);
+    }
+    throw createError("Challenge has ended", 409);
+  }
+
+  const progress = challenge.participants.find((p) => p.user.equals(uid))!.progress;
+  const reached = challenge.milestones.filter(
+    (m) => m.target !== null && m.target !== undefined && progress >= m.target && !m.achievedBy.some((a) => a.equals(uid))
+  );
+  if (!reached.length) return challenge;
+
+  for (const milestone of reached) {
+    await Challenge.updateOne(
+      { _id: challenge._id, "milestones._id": milestone._id },
+      { $addToSet: { "milestones.$.achievedBy": uid } }
+    );
+  }
+  return completeReachedMilestones(challenge._id);
+};
+
+/** Complete milestones whose achievers meet their threshold; only once each */
+const completeReachedMilestones = async (challengeId: Types.ObjectId): Promise<IChallenge> => {
+  const challenge = await Challenge.findById(challengeId);
+  const due = challenge.milestones.filter((m) => !m.completed && m.achievedBy.length >= m.requiredAchievers);
+  for (const milestone of due) {
+    const res = await Challenge.updateOne(
+      { _id: challengeId },
+      { $set: { "milestones.$[m].completed": true, "milestones.$[m].completedAt": new Date() } },
+      { arrayFilters: [{ "m._id": milestone._id, "m.completed": false }] }
+    );
+    if (res.modifiedCount) {
+      milestone.completed = true;
+      logger.info(`Challenge ${challengeId} milestone "${milestone.title}" completed`);
+    }
   }
-  challenge.participants.push({ user: uid, progress: 0, joinedAt: new Date() });
-  await challenge.save();
   return challenge;
 };
 
+/**
+ * Teams ranked by aggregated member progress (sum or average, per the
+ * challenge's scoring). Ties share a rank.
+ */
+export const getTeamStandings = (challenge: IChallenge): TeamStanding[] => {
+  const scoring = challenge.teamSettings?.scoring ?? "average";
+  const standings = challenge.teams.map((team) => {
+    const members = challenge.participants.filter((p) => p.team?.equals(team._id));
+    const total = members.reduce((sum, p) => sum + p.progress, 0);
+    const score = scoring === "sum" || !members.length ? total : total / members.length;
+    return { team: { _id: team._id, name: team.name }, members: members.length, score, rank: 0 };
+  });
+  standings.sort((a, b) => b.score - a.score || a.team.name.localeCompare(b.team.name));
+  standings.forEach((s, i) => {
+    s.rank = i > 0 && standings[i - 1].score === s.score ? standings[i - 1].rank : i + 1;
+  });
+  return standings;
+};
+
+/**
+ * Team leaderboard for a challenge the user can see.
+ */
+export const getTeamLeaderboardService = async (
+  userId: string | undefined,
+  challengeId: string
+): Promise<TeamStanding[]> => {
+  if (!Types.ObjectId.isValid(challengeId)) {
+    throw createError("Invalid challenge ID", 400);
+  }
+  const challenge = await Challenge.findById(challengeId);
+  if (!challenge) throw createError("Challenge not found", 404);
+  if (
+    challenge.visibility === "private" &&
+    challenge.creator.toString() !== userId &&
+    !challenge.participants.some((p) => p.user.toString() === userId)
+  ) {
+    throw createError("You do not have permission to view this private challenge", 403);
+  }
+  if (!usesTeams(challenge)) throw createError("This challenge has no teams", 400);
+  return getTeamStandings(challenge);
+};
+
+/** Users who won: top individuals, members of the top team(s), or both */
+const pickWinners = (challenge: IChallenge): { user: Types.ObjectId; team: Types.ObjectId | null }[] => {
+  const winners = new Map<string, { user: Types.ObjectId; team: Types.ObjectId | null }>();
+
+  if (challenge.progressTracking !== "team") {
+    const best = Math.max(0, ...challenge.participants.map((p) => p.progress));
+    if (best > 0) {
+      challenge.participants
+        .filter((p) => p.progress === best)
+        .forEach((p) => winners.set(p.user.toString(), { user: p.user, team: null }));
+    }
+  }
+
+  if (usesTeams(challenge)) {
+    const standings = getTeamStandings(challenge);
+    const topTeams = standings.filter((s) => s.rank === 1 && s.score > 0).map((s) => s.team._id);
+    challenge.participants
+      .filter((p) => p.team && topTeams.some((t) => t.equals(p.team!)))
+      .forEach((p) => winners.set(p.user.toString(), { user: p.user, team: p.team! }));
+  }
+
+  return [...winners.values()];
+};
+
+/**
+ * Close a challenge that has reached its end date: complete it, then pay
+ * its rewards (see payChallengeRewards). Returns false if it was already
+ * finalized or isn't due yet.
+ */
+export const finalizeChallengeService = async (challengeId: Types.ObjectId | string): Promise<boolean> => {
+  const now = new Date();
+  const challenge = await Challenge.findOne({ _id: challengeId, status: "ongoing", endDate: { $lte: now } });
+  if (!challenge) return false;
+
+  const winners = pickWinners(challenge);
+  const awards = winners.flatMap((w) =>
+    challenge.rewards.map((r) => ({
+      user: w.user,
+      rewardType: r.rewardType,
+      rewardValue: r.rewardValue,
+      team: w.team,
+      awardedAt: now,
+    }))
+  );
+
+  // Only one finalizer wins; the status check makes re-runs no-ops.
+  // rewardsPaidAt stays null until the payout below has gone through.
+  const finalized = await Challenge.findOneAndUpdate(
+    { _id: challenge._id, status: "ongoing" },
+    { $set: { status: "completed", finalizedAt: now, awards, rewardsPaidAt: null } },
+    { new: true }
+  );
+  if (!finalized) return false;
+
+  await payChallengeRewards(finalized);
+  logger.info(`Challenge ${challenge._id} finalized with ${winners.length} winner(s)`);
+  return true;
+};
+
+/**
+ * Pay every participant's completion XP, mark the rewards paid and notify
+ * the winners. Credits are idempotent, so a payout interrupted part-way can
+ * simply be run again; winners are only notified by the run that marks it.
+ */
+export const payChallengeRewards = async (challenge: IChallenge): Promise<void> => {
+  await rewardChallengeCompletion(challenge);
+
+  const paid = await Challenge.updateOne(
+    { _id: challenge._id, rewardsPaidAt: { $type: "null" } },
+    { $set: { rewardsPaidAt: new Date() } }
+  );
+  if (paid.modifiedCount !== 1) return;
+
+  const prizes = challenge.rewards.map((r) => r.rewardValue).join(", ");
+  const winners = new Map<string, Types.ObjectId | null>();
+  for (const award of challenge.awards) {
+    winners.set(award.user.toString(), award.team ?? null);
+  }
+  for (const [userId, team] of winners) {
+    await NotificationDispatcher.dispatch({
+      userId,
+      type: "reward_update",
+      title: "Challenge won",
+      message: prizes
+        ? `You won "${challenge.title}"! Your rewards: ${prizes}.`
+        : `You won "${challenge.title}"!`,
+      link: `/challenges/${challenge._id.toString()}`,
+      data: { challengeId: challenge._id.toString(), team: team?.toString() ?? null },
+    }).catch((err: Error) =>
+      logger.warn(`Could not notify challenge winner ${userId}: ${err.message}`)
+    );
+  }
+};
+
+/**
+ * Finalize every ongoing challenge past its end date, and retry the payout
+ * of completed challenges whose rewards didn't go through.
+ */
+export const finalizeDueChallengesService = async (now = new Date()): Promise<number> => {
+  const due = await Challenge.find({ status: "ongoing", endDate: { $lte: now } })
+    .select("_id")
+    .sort({ endDate: 1 })
+    .lean();
+
+  let finalized = 0;
+  for (const { _id } of due) {
+    try {
+      if (await finalizeChallengeService(_id)) finalized++;
+    } catch (err) {
+      logger.error(`Failed to finalize challenge ${_id.toString()}: ${(err as Error).message}`);
+    }
+  }
+
+  // An explicit null marks an unpaid payout; challenges finalized before
+  // payouts were tracked have no rewardsPaidAt at all and are left alone
+  const unpaid = await Challenge.find({ status: "completed", rewardsPaidAt: { $type: "null" } })
+    .sort({ finalizedAt: 1 });
+  for (const challenge of unpaid) {
+    try {
+      await payChallengeRewards(challenge);
+      logger.info(`Paid outstanding rewards of challenge ${challenge._id}`);
+    } catch (err) {
+      logger.error(`Failed to pay rewards of challenge ${challenge._id.toString()}: ${(err as Error).message}`);
+    }
+  }
+  return finalized;
+};
+
 /**
  * Remove the current user from participants.
  */
@@ -132,6 +512,12 @@ export default {
   getPublicChallengesService,
   getChallengeByIdService,
   joinChallengeService,
+  createTeamService,
+  switchTeamService,
+  updateProgressService,
+  getTeamLeaderboardService,
+  finalizeChallengeService,
+  finalizeDueChallengesService,
   leaveChallengeService,
   fetchChallengesWithPaginationService,
 };
@@ -1,9 +1,11 @@
 // src/api/services/RewardService.ts
+import type { Document } from "mongoose";
 import { Types } from "mongoose";
 import { Reward, IReward } from "../models/Reward";
-import { User, IUser } from "../models/User";
-import Redemption from "../models/Redemption";
 import { createError } from "../middleware/errorHandler";
+import PointsLedgerService from "./PointsLedgerService";
+import RedemptionService from "./RedemptionService";
+import type { RedeemResult } from "./RedemptionService";
 import { logger } from "../../utils/winstonLogger";
 
 export interface PaginatedRewards {
@@ -11,31 +13,66 @@ export interface PaginatedRewards {
   total: number;
 }
 
+export type RewardInput = Partial<
+  Pick<
+    IReward,
+    | "name"
+    | "description"
+    | "pointsRequired"
+    | "rewardType"
+    | "imageUrl"
+    | "stock"
+    | "perUserLimit"
+    | "availableFrom"
+    | "availableUntil"
+    | "allowedTiers"
+    | "isActive"
+  >
+>;
+
+const REWARD_FIELDS: (keyof RewardInput)[] = [
+  "name",
+  "description",
+  "pointsRequired",
+  "rewardType",
+  "imageUrl",
+  "stock",
+  "perUserLimit",
+  "availableFrom",
+  "availableUntil",
+  "allowedTiers",
+  "isActive",
+];
+
+/** Copy only catalog fields that were actually provided */
+const pickRewardFields = (data: RewardInput): RewardInput => {
+  const picked: Record<string, unknown> = {};
+  for (const field of REWARD_FIELDS) {
+    if (data[field] !== undefined) picked[field] = data[field];
+  }
+  return picked as RewardInput;
+};
+
 /**
- * Manage rewards: creation, listing, retrieval, redemption.
+ * Manage the reward catalog: creation, updates, listing, retrieval and
+ * redemption.
  */
 class RewardService {
   /**
    * Create a new reward.
    */
-  static async createReward(data: {
+  static async createReward(data: RewardInput & {
     name: string;
     description: string;
     pointsRequired: number;
     rewardType: IReward["rewardType"];
-    imageUrl?: string;
   }): Promise<IReward> {
-    const { name, description, pointsRequired, rewardType, imageUrl } = data;
-    const existing = await Reward.findOne({ name });
+    const existing = await Reward.findOne({ name: data.name });
     if (existing) throw createError("Reward name must be unique", 409);
 
     const reward = await Reward.create({
-      name,
-      description,
-      pointsRequired,
-      rewardType,
-      imageUrl: imageUrl || "",
-      createdAt: new Date(),
+      ...pickRewardFields(data),
+      imageUrl: data.imageUrl || "",
     });
 
     logger.info(`Reward created: ${reward._id}`);
@@ -43,13 +80,31 @@ class RewardService {
   }
 
   /**
-   * List all rewards, optionally filtering by type or by maxPoints.
+   * Update a reward's details, stock or restrictions (admin).
+   */
+  static async updateReward(rewardId: string, data: RewardInput): Promise<IReward> {
+    const reward = await this.getById(rewardId);
+    if (data.name && data.name !== reward.name && (await Reward.exists({ name: data.name }))) {
+      throw createError("Reward name must be unique", 409);
+    }
+    Object.assign(reward, pickRewardFields(data));
+    await (reward as IReward & Document).save();
+
+    logger.info(`Reward updated: ${reward._id}`);
+    return reward;
+  }
+
+  /**
+   * List rewards, optionally filtering by type or by maxPoints. Only
+   * active rewards inside their availability window are listed unless
+   * `includeUnavailable` is set (admin views).
    */
   static async listRewards(opts?: {
     page?: number;
     limit?: number;
     type?: IReward["rewardType"];
     maxPoints?: number;
+    includeUnavailable?: boolean;
   }): Promise<PaginatedRewards> {
     const page = Math.max(1, opts?.page || 1);
     const limit = Math.min(100, Math.max(1, opts?.limit || 20));
@@ -57,6 +112,14 @@ class RewardService {
 
     if (opts?.type) filter.rewardType = opts.type;
     if (opts?.maxPoints != null) filter.pointsRequired = { $lte: opts.maxPoints };
+    if (!opts?.includeUnavailable) {
+      const now = new Date();
+      filter.isActive = { $ne: false };
+      filter.$and = [
+        { $or: [{ availableFrom: null }, { availableFrom: { $lte: now } }] },
+        { $or: [{ availableUntil: null }, { availableUntil: { $gt: now } }] },
+      ];
+    }
 
     const [items, total] = await Promise.all([
       Reward.find(filter)
@@ -83,60 +146,35 @@ class RewardService {
   }
 
   /**
-   * Redeem a reward for a user: checks points, deducts, records redemption.
+   * Redeem a reward for a user. See RedemptionService.redeem for stock,
+   * caps and idempotency.
    */
-  static async redeemReward(userId: string, rewardId: string): Promise<{
-    user: IUser;
-    reward: IReward;
-    remainingPoints: number;
-  }> {
-    if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(rewardId)) {
-      throw createError("Invalid user or reward ID", 400);
-    }
-
-    const [user, reward] = await Promise.all([
-      User.findById(userId),
-      Reward.findById(rewardId),
-    ]);
-
-    if (!user) throw createError("User not found", 404);
-    if (!reward) throw createError("Reward not found", 404);
-
-    const current = user.points ?? 0;
-    if (current < reward.pointsRequired) {
-      throw createError("Insufficient points", 400);
-    }
-
-    // Deduct points
-    user.points = current - reward.pointsRequired;
-    await user.save();
-
-    // Record redemption
-    await Redemption.create({
-      user: user._id,
-      reward: reward._id,
-      redeemedAt: new Date(),
-    });
-
-    logger.info(`User ${userId} redeemed reward ${rewardId}`);
-    return { user, reward, remainingPoints: user.points };
+  static async redeemReward(
+    userId: string,
+    rewardId: string,
+    idempotencyKey: string
+  ): Promise<RedeemResult> {
+    return RedemptionService.redeem(userId, rewardId, idempotencyKey);
   }
 }
 
 /**
  * Award a given number of points to a user.
- * Used by BadgeService (and any other point-awarding workflows).
+ * Used by BadgeService (and any other point-awarding workflows); the key
+ * makes repeated awards for the same event a no-op.
  */
-export async function awardPoints(userId: string, points: number): Promise<void> {
+export async function awardPoints(
+  userId: string,
+  points: number,
+  award: { reason: string; idempotencyKey: string; sourceType?: string; sourceId?: string }
+): Promise<boolean> {
   if (!Types.ObjectId.isValid(userId)) {
     throw createError("Invalid user ID", 400);
   }
-  const user = await User.findById(userId);
-  if (!user) throw createError("User not found", 404);
+  if (points <= 0) return false;
 
-  user.points = (user.points ?? 0) + points;
-  await user.save();
-  logger.info(`Awarded ${points} points to user ${userId}`);
+  const { applied } = await PointsLedgerService.credit({ userId, amount: points, ...award });
+  return applied;
 }
 
 export default RewardService;
@@ -0,0 +1,36 @@
+// src/api/utils/apiKeyScopes.ts
+
+// What an API key can reach, by resource. The first rule whose pattern
+// matches the request path decides the resource; paths matching no rule
+// (admin, billing, key management, …) are closed to API keys.
+const RESOURCE_RULES = [
+  { resource: "checkins", pattern: /^\/api\/goals\/[^/]+\/(habit\/logs|measurements)(\/|$)/ },
+  { resource: "checkins", pattern: /^\/api\/partner\/partnerships\/[^/]+\/check-ins(\/|$)/ },
+  { resource: "checkins", pattern: /^\/api\/tracker(\/|$)/ },
+  { resource: "goals", pattern: /^\/api\/(goals|milestone|goal-templates|collaboration-goals)(\/|$)/ },
+  { resource: "tasks", pattern: /^\/api\/tasks(\/|$)/ },
+  { resource: "reminders", pattern: /^\/api\/reminders(\/|$)/ },
+  { resource: "challenges", pattern: /^\/api\/challenges(\/|$)/ },
+  { resource: "progress", pattern: /^\/api\/(progress|streaks|history|xp-history|analytics|dashboard)(\/|$)/ },
+  { resource: "notifications", pattern: /^\/api\/notifications(\/|$)/ },
+  { resource: "profile", pattern: /^\/api\/profile(\/|$)/ },
+] as const;
+
+export const API_KEY_RESOURCES = [...new Set(RESOURCE_RULES.map((r) => r.resource))];
+export type ApiKeyResource = (typeof RESOURCE_RULES)[number]["resource"];
+
+export const API_KEY_SCOPES = API_KEY_RESOURCES.flatMap((r) => [`${r}:read`, `${r}:write`]) as ApiKeyScope[];
+export type ApiKeyScope = `${ApiKeyResource}:${"read" | "write"}`;
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+/**
+ * The scope a request needs, e.g. "goals:read" for GET /api/goals, or null
+ * when API keys may not call the path at all. Write scopes don't imply read.
+ */
+export const requiredScope = (method: string, url: string): ApiKeyScope | null => {
+  const path = url.split("?")[0];
+  const rule = RESOURCE_RULES.find((r) => r.pattern.test(path));
+  if (!rule) return null;
+  return `${rule.resource}:${READ_METHODS.includes(method.toUpperCase()) ? "read" : "write"}`;
+};
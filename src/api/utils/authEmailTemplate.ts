@@ -0,0 +1,38 @@
+// src/api/utils/authEmailTemplate.ts
+import en from "../../locales/en/auth.json";
+import de from "../../locales/de/auth.json";
+import es from "../../locales/es/auth.json";
+import fr from "../../locales/fr/auth.json";
+import jp from "../../locales/jp/auth.json";
+import type { DigestEmail, DigestLocale } from "./digestTemplate";
+import { escapeHtml, interpolate } from "./digestTemplate";
+
+const LOCALES: Record<DigestLocale, { emails: typeof en.emails }> = { en, de, es, fr, jp };
+
+export type AuthEmailKind = "resetPassword" | "verifyEmail";
+
+/**
+ * ✅ Render a password reset or email verification email in the given locale.
+ *    `vars` fills the expiry line ({minutes} or {hours}).
+ */
+export const renderAuthEmail = (opts: {
+  kind: AuthEmailKind;
+  locale: DigestLocale;
+  name: string;
+  link: string;
+  vars: Record<string, string | number>;
+}): DigestEmail => {
+  const strings = LOCALES[opts.locale].emails ?? en.emails;
+  const t = (key: keyof typeof en.emails.resetPassword): string =>
+    interpolate(strings[opts.kind]?.[key] ?? en.emails[opts.kind][key], opts.vars);
+
+  const greeting = interpolate(strings.greeting ?? en.emails.greeting, { name: opts.name });
+  const text = [greeting, "", t("intro"), "", `${t("action")}: ${opts.link}`, "", t("expiry"), t("ignore")].join("\n");
+  const html =
+    `<p>${escapeHtml(greeting)}</p><p>${escapeHtml(t("intro"))}</p>` +
+    `<p><a href="${escapeHtml(opts.link)}">${escapeHtml(t("action"))}</a></p>` +
+    `<p>${escapeHtml(t("expiry"))}</p>` +
+    `<p style="color:#888;font-size:12px">${escapeHtml(t("ignore"))}</p>`;
+
+  return { subject: t("subject"), text, html };
+};
@@ -1,56 +1,37 @@
-import { User } from "../models/User";
-import Badge from "../models/Badge";
-import type { BadgeType, BadgeLevel } from "../models/Badge";
 import mongoose from "mongoose";
+import PointsLedgerService from "../services/PointsLedgerService";
+import BadgeRuleEngine from "../services/BadgeRuleEngine";
 
 /**
- * ➕ Award XP to a user
+ * ➕ Award XP to a user (once per idempotency key)
  */
-export const awardXp = async (userId: string | mongoose.Types.ObjectId, amount: number): Promise<void> => {
-  const user = await User.findById(userId);
-  if (!user) throw new Error("User not found");
-
-  user.points = (user.points || 0) + amount;
-  await user.save();
-};
-
-/**
- * 🏅 Award or update badge progress
- */
-export const awardOrUpdateBadge = async (
+export const awardXp = async (
   userId: string | mongoose.Types.ObjectId,
-  badgeType: BadgeType,
-  defaultLevel: BadgeLevel = "Bronze",
-  goal: number = 3,
-  pointsRewarded: number = 25
-): Promise<void> => {
-  const existing = await Badge.findOne({ user: userId, badgeType });
-
-  if (existing) {
-    existing.progress += 1;
-    if (existing.progress >= existing.goal) {
-      existing.level = Badge.getNextLevel(existing.level);
-      existing.progress = 0;
-    }
-    await existing.save();
-  } else {
-    const newBadge = new Badge({
-      user: userId,
-      badgeType,
-      level: defaultLevel,
-      progress: 1,
-      goal,
-      pointsRewarded,
-      isShowcased: false,
-    });
-    await newBadge.save();
-  }
+  amount: number,
+  idempotencyKey: string,
+  reason = "xp_awarded"
+): Promise<boolean> => {
+  const { applied } = await PointsLedgerService.credit({
+    userId: userId.toString(),
+    amount,
+    reason,
+    idempotencyKey,
+  });
+  return applied;
 };
 
 /**
  * 🧠 Utility to reward user for completing a challenge
  */
-export const rewardUserForChallengeCompletion = async (userId: string | mongoose.Types.ObjectId): Promise<void> => {
-  await awardXp(userId, 50); // Example: +50 XP
-  await awardOrUpdateBadge(userId, "milestone_achiever", "Bronze", 3, 25);
+export const rewardUserForChallengeCompletion = async (
+  userId: string | mongoose.Types.ObjectId,
+  challengeId: string | mongoose.Types.ObjectId
+): Promise<void> => {
+  const awarded = await awardXp(
+    userId,
+    50, // Example: +50 XP
+    `challenge:${challengeId.toString()}:completed:${userId.toString()}`,
+    "challenge_completed"
+  );
+  if (awarded) await BadgeRuleEngine.track("challenge_completed", userId);
 };
@@ -0,0 +1,119 @@
+// src/api/utils/digestTemplate.ts
+import en from "../../locales/en/notifications.json";
+import de from "../../locales/de/notifications.json";
+import es from "../../locales/es/notifications.json";
+import fr from "../../locales/fr/notifications.json";
+import jp from "../../locales/jp/notifications.json";
+import type { NotificationType } from "../models/Notification";
+
+const LOCALES = { en, de, es, fr, jp };
+
+export type DigestLocale = keyof typeof LOCALES;
+export type DigestFrequency = "daily" | "weekly";
+
+export interface DigestItem {
+  type: NotificationType;
+  message: string;
+  link?: string;
+  createdAt: Date;
+}
+
+export interface DigestEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Items listed per type before collapsing into "…and N more"
+const MAX_PER_TYPE = 5;
+
+/**
+ * ✅ Map a user's language preference ("en", "de-AT", "ja", …) to a bundled locale.
+ */
+export const resolveLocale = (language?: string | null): DigestLocale => {
+  const code = (language ?? "").toLowerCase().slice(0, 2);
+  if (code === "ja") return "jp";
+  return code in LOCALES ? (code as DigestLocale) : "en";
+};
+
+export const interpolate = (template: string, vars: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    vars[key] !== undefined ? String(vars[key]) : match
+  );
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * ✅ Render a digest email (subject, plain text and HTML) in the given locale.
+ *    Items are grouped by notification type in the order they first appear.
+ */
+export const renderDigestEmail = (opts: {
+  locale: DigestLocale;
+  frequency: DigestFrequency;
+  name: string;
+  items: DigestItem[];
+}): DigestEmail => {
+  const strings = LOCALES[opts.locale].digest;
+  const fallback = LOCALES.en.digest;
+  const t = (key: keyof typeof fallback): string =>
+    (strings[key] as string | undefined) ?? (fallback[key] as string);
+  const typeLabel = (type: NotificationType): string =>
+    (strings.types as Record<string, string>)[type] ??
+    (fallback.types as Record<string, string>)[type] ??
+    type;
+
+  const baseUrl = process.env.FRONTEND_URL ?? "";
+  const groups = new Map<NotificationType, DigestItem[]>();
+  for (const item of opts.items) {
+    groups.set(item.type, [...(groups.get(item.type) ?? []), item]);
+  }
+
+  const count = opts.items.length;
+  const subject = interpolate(
+    t(opts.frequency === "weekly" ? "subjectWeekly" : "subjectDaily"),
+    { count }
+  );
+  const greeting = interpolate(t("greeting"), { name: opts.name });
+  const intro = t(opts.frequency === "weekly" ? "introWeekly" : "introDaily");
+
+  const textSections: string[] = [];
+  const htmlSections: string[] = [];
+  for (const [type, items] of groups) {
+    const shown = items.slice(0, MAX_PER_TYPE);
+    const more = items.length - shown.length;
+    const moreLine = more > 0 ? interpolate(t("more"), { count: more }) : null;
+
+    textSections.push(
+      [
+        `${typeLabel(type)} (${items.length})`,
+        ...shown.map((i) => `  • ${i.message}${i.link ? ` — ${baseUrl}${i.link}` : ""}`),
+        ...(moreLine ? [`  ${moreLine}`] : []),
+      ].join("\n")
+    );
+    htmlSections.push(
+      `<h3>${escapeHtml(typeLabel(type))} (${items.length})</h3><ul>` +
+        shown
+          .map((i) =>
+            i.link
+              ? `<li><a href="${escapeHtml(baseUrl + i.link)}">${escapeHtml(i.message)}</a></li>`
+              : `<li>${escapeHtml(i.message)}</li>`
+          )
+          .join("") +
+        (moreLine ? `<li><em>${escapeHtml(moreLine)}</em></li>` : "") +
+        "</ul>"
+    );
+  }
+
+  const text = [greeting, "", intro, "", textSections.join("\n\n"), "", t("footer")].join("\n");
+  const html =
+    `<p>${escapeHtml(greeting)}</p><p>${escapeHtml(intro)}</p>` +
+    htmlSections.join("") +
+    `<p style="color:#888;font-size:12px">${escapeHtml(t("footer"))}</p>`;
+
+  return { subject, text, html };
+};
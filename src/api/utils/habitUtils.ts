@@ -0,0 +1,107 @@
+// src/api/utils/habitUtils.ts
+import { getSeasonPeriod } from "./seasonUtils";
+import { shiftDayKey } from "./streakUtils";
+
+export const HABIT_FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+export type HabitFrequency = (typeof HABIT_FREQUENCIES)[number];
+
+export interface HabitPeriod {
+  key: string;        // "2026-10-19", "2026-W43" or "2026-10"
+  startDay: string;   // first local day of the period
+  endDay: string;     // first local day of the next period
+}
+
+export interface HabitPeriodResult {
+  period: string;
+  startDay: string;
+  count: number;
+  target: number;
+  rate: number;       // count / target, capped at 1
+  completed: boolean;
+  current: boolean;   // the period containing today, still in progress
+}
+
+export interface HabitStats {
+  currentStreak: number;        // completed periods in a row, ending now
+  longestStreak: number;
+  completionRate: number;       // share of periods completed, 0–1
+  periodsTracked: number;
+  current: HabitPeriodResult | null;
+  history: HabitPeriodResult[]; // newest last
+}
+
+const toDayKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * The habit period containing a local day. Weeks run Monday to Sunday and
+ * share their keys with the weekly leaderboards.
+ */
+export const habitPeriodForDay = (frequency: HabitFrequency, dayKey: string): HabitPeriod => {
+  if (frequency === "daily") {
+    return { key: dayKey, startDay: dayKey, endDay: shiftDayKey(dayKey, 1) };
+  }
+  const period = getSeasonPeriod(frequency, new Date(`${dayKey}T00:00:00Z`));
+  return { key: period.key, startDay: toDayKey(period.startsAt!), endDay: toDayKey(period.endsAt!) };
+};
+
+/**
+ * Walk every period from `firstDay` to `today`, scoring each against the
+ * target. The period still in progress never breaks a streak: it only
+ * extends it once its target is met.
+ */
+export const computeHabitStats = (
+  frequency: HabitFrequency,
+  target: number,
+  countsByDay: Map<string, number>,
+  firstDay: string,
+  today: string,
+  historyLimit = 30
+): HabitStats => {
+  const countsByPeriod = new Map<string, number>();
+  for (const [day, count] of countsByDay) {
+    const key = habitPeriodForDay(frequency, day).key;
+    countsByPeriod.set(key, (countsByPeriod.get(key) ?? 0) + count);
+  }
+
+  const periods: HabitPeriodResult[] = [];
+  for (let p = habitPeriodForDay(frequency, firstDay); p.startDay <= today; p = habitPeriodForDay(frequency, p.endDay)) {
+    const count = countsByPeriod.get(p.key) ?? 0;
+    periods.push({
+      period: p.key,
+      startDay: p.startDay,
+      count,
+      target,
+      rate: Math.min(1, count / target),
+      completed: count >= target,
+      current: today < p.endDay,
+    });
+  }
+
+  let longestStreak = 0;
+  let run = 0;
+  for (const p of periods) {
+    run = p.completed ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  let currentStreak = 0;
+  for (let i = periods.length - 1; i >= 0; i--) {
+    const p = periods[i];
+    if (p.completed) currentStreak++;
+    else if (!p.current) break;
+  }
+
+  const current = periods.length && periods[periods.length - 1].current ? periods[periods.length - 1] : null;
+  // An unfinished current period only counts once it is completed
+  const scored = periods.filter((p) => !p.current || p.completed);
+  const completionRate = scored.length ? scored.filter((p) => p.completed).length / scored.length : 0;
+
+  return {
+    currentStreak,
+    longestStreak,
+    completionRate: Math.round(completionRate * 1000) / 1000,
+    periodsTracked: scored.length,
+    current,
+    history: periods.slice(-historyLimit),
+  };
+};
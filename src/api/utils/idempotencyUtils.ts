@@ -0,0 +1,17 @@
+// src/api/utils/idempotencyUtils.ts
+import type { Request } from "express";
+import { v4 as uuidv4 } from "uuid";
+
+const MAX_CLIENT_KEY_LENGTH = 100;
+
+/**
+ * Ledger key for a client-initiated change. A client that retries with the
+ * same `Idempotency-Key` header gets the original result instead of a second
+ * charge; without the header every request is treated as new. Keys are
+ * scoped to the action and the user so clients cannot collide with others.
+ */
+export const requestIdempotencyKey = (req: Request, scope: string): string => {
+  const header = req.get("Idempotency-Key")?.trim();
+  const clientKey = header ? header.slice(0, MAX_CLIENT_KEY_LENGTH) : uuidv4();
+  return `${scope}:${req.user?.id ?? "anonymous"}:${clientKey}`;
+};
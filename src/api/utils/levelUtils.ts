@@ -0,0 +1,49 @@
+// src/api/utils/levelUtils.ts
+
+/** XP needed to go from level 1 to level 2 */
+export const BASE_LEVEL_XP = 100;
+/** Each level costs this much more XP than the previous one */
+export const LEVEL_GROWTH = 1.2;
+/** Gamification profiles gain one level per this many XP */
+export const GAMIFICATION_LEVEL_XP = 100;
+
+export interface LevelProgress {
+  level: number;
+  points: number;        // XP earned within the current level
+  nextLevelAt: number;   // XP the current level takes in total
+}
+
+/**
+ * Level reached with `totalXp` lifetime XP. Mirrors the step-by-step
+ * level-up the Level model has always applied, so it can be recomputed
+ * from the ledger at any time.
+ */
+export const levelForXp = (totalXp: number): LevelProgress => {
+  let level = 1;
+  let points = Math.max(0, Math.floor(totalXp));
+  let nextLevelAt = BASE_LEVEL_XP;
+  while (points >= nextLevelAt) {
+    points -= nextLevelAt;
+    level += 1;
+    nextLevelAt = Math.floor(nextLevelAt * LEVEL_GROWTH);
+  }
+  return { level, points, nextLevelAt };
+};
+
+/**
+ * Lifetime XP represented by a level and the progress within it; the
+ * inverse of `levelForXp` for rows written before totals were stored.
+ */
+export const xpForLevel = (level: number, points = 0): number => {
+  let total = 0;
+  let nextLevelAt = BASE_LEVEL_XP;
+  for (let l = 1; l < level; l++) {
+    total += nextLevelAt;
+    nextLevelAt = Math.floor(nextLevelAt * LEVEL_GROWTH);
+  }
+  return total + Math.max(0, points);
+};
+
+/** Gamification profile level for a lifetime XP total */
+export const gamificationLevelForXp = (totalXp: number): number =>
+  Math.floor(Math.max(0, totalXp) / GAMIFICATION_LEVEL_XP) + 1;
@@ -0,0 +1,161 @@
+// src/api/utils/matchingUtils.ts
+import type { SubscriptionTier } from "../models/User";
+import { getZonedParts } from "./recurrenceUtils";
+
+// ✅ Pure scoring helpers for accountability partner matching.
+// Every factor is normalised to 0..1; the total is a weighted 0..100 score.
+
+export interface MatchProfile {
+  interests: string[];
+  goalCategories: string[];
+  timezone: string;
+  tier?: SubscriptionTier;
+  lastCheckIn?: Date | null;
+  streakCount?: number;
+}
+
+export type MatchFactor = "interests" | "goals" | "timezone" | "activity" | "tier";
+
+export interface FactorScore {
+  factor: MatchFactor;
+  score: number;        // 0..1
+  weight: number;
+  explanation: string;
+}
+
+export interface CompatibilityScore {
+  total: number;        // 0..100
+  factors: FactorScore[];
+}
+
+export const MATCH_WEIGHTS: Record<MatchFactor, number> = {
+  interests: 0.3,
+  goals: 0.3,
+  timezone: 0.15,
+  activity: 0.15,
+  tier: 0.1,
+};
+
+const TIER_RANK: Record<SubscriptionTier, number> = {
+  "free-trial": 0,
+  basic: 1,
+  pro: 2,
+  elite: 3,
+};
+
+// Waking hours assumed per day when estimating timezone overlap
+const WAKING_HOURS = 16;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalise = (values: string[]): Set<string> =>
+  new Set(values.map((v) => v.trim().toLowerCase()).filter(Boolean));
+
+/**
+ * ✅ Jaccard similarity of two string lists (case-insensitive), plus the shared items.
+ */
+export const overlap = (a: string[], b: string[]): { score: number; shared: string[] } => {
+  const setA = normalise(a);
+  const setB = normalise(b);
+  const shared = [...setA].filter((v) => setB.has(v));
+  const union = new Set([...setA, ...setB]).size;
+  return { score: union ? shared.length / union : 0, shared };
+};
+
+/**
+ * ✅ UTC offset of a timezone at `at`, in hours.
+ */
+export const utcOffsetHours = (timeZone: string, at = new Date()): number => {
+  const p = getZonedParts(at, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round(((asUtc - at.getTime()) / 3_600_000) * 4) / 4;
+};
+
+/**
+ * ✅ Hours of overlapping waking time for two timezones (0..WAKING_HOURS).
+ */
+export const wakingHoursOverlap = (tzA: string, tzB: string, at = new Date()): number => {
+  // Offsets span UTC-12..+14, so the gap can exceed a full day
+  const raw = Math.abs(utcOffsetHours(tzA, at) - utcOffsetHours(tzB, at)) % 24;
+  const diff = Math.min(raw, 24 - raw);
+  return Math.max(0, WAKING_HOURS - diff);
+};
+
+/**
+ * ✅ How active a user is (0..1), from check-in recency and streak length.
+ */
+export const activityLevel = (profile: MatchProfile, now = new Date()): number => {
+  if (!profile.lastCheckIn) return 0;
+  const days = (now.getTime() - new Date(profile.lastCheckIn).getTime()) / DAY_MS;
+  const recency = days <= 1 ? 1 : days <= 3 ? 0.7 : days <= 7 ? 0.4 : days <= 30 ? 0.15 : 0;
+  const streak = Math.min(1, (profile.streakCount ?? 0) / 30);
+  return 0.7 * recency + 0.3 * streak;
+};
+
+const describeActivity = (level: number): string =>
+  level >= 0.7 ? "very active" : level >= 0.4 ? "active" : level > 0 ? "occasionally active" : "inactive";
+
+/**
+ * ✅ Score how well `candidate` fits `user` as an accountability partner,
+ *    with a human-readable explanation per factor.
+ */
+export const scoreCompatibility = (
+  user: MatchProfile,
+  candidate: MatchProfile,
+  now = new Date()
+): CompatibilityScore => {
+  const factors: FactorScore[] = [];
+
+  const interests = overlap(user.interests, candidate.interests);
+  factors.push({
+    factor: "interests",
+    score: interests.score,
+    weight: MATCH_WEIGHTS.interests,
+    explanation: interests.shared.length
+      ? `Shares ${interests.shared.length} interest(s): ${interests.shared.slice(0, 5).join(", ")}`
+      : "No shared interests",
+  });
+
+  const goals = overlap(user.goalCategories, candidate.goalCategories);
+  factors.push({
+    factor: "goals",
+    score: goals.score,
+    weight: MATCH_WEIGHTS.goals,
+    explanation: goals.shared.length
+      ? `Working on the same goal categories: ${goals.shared.join(", ")}`
+      : "Working on different goal categories",
+  });
+
+  const hours = wakingHoursOverlap(user.timezone, candidate.timezone, now);
+  factors.push({
+    factor: "timezone",
+    score: hours / WAKING_HOURS,
+    weight: MATCH_WEIGHTS.timezone,
+    explanation:
+      user.timezone === candidate.timezone
+        ? "Same timezone"
+        : `About ${Math.round(hours)}h of overlapping waking hours`,
+  });
+
+  const mine = activityLevel(user, now);
+  const theirs = activityLevel(candidate, now);
+  factors.push({
+    factor: "activity",
+    score: 0.5 * theirs + 0.5 * (1 - Math.abs(mine - theirs)),
+    weight: MATCH_WEIGHTS.activity,
+    explanation: `Candidate is ${describeActivity(theirs)}`,
+  });
+
+  const rankA = TIER_RANK[user.tier ?? "free-trial"] ?? 0;
+  const rankB = TIER_RANK[candidate.tier ?? "free-trial"] ?? 0;
+  const tierGap = Math.abs(rankA - rankB);
+  factors.push({
+    factor: "tier",
+    score: tierGap === 0 ? 1 : tierGap === 1 ? 0.5 : 0,
+    weight: MATCH_WEIGHTS.tier,
+    explanation: tierGap === 0 ? "Same subscription tier" : "Different subscription tier",
+  });
+
+  const total = factors.reduce((sum, f) => sum + f.score * f.weight, 0);
+  for (const f of factors) f.score = Math.round(f.score * 100) / 100;
+  return { total: Math.round(total * 1000) / 10, factors };
+};
@@ -0,0 +1,160 @@
+// src/api/utils/measurementUtils.ts
+import { getLocalDayKey, shiftDayKey } from "./streakUtils";
+
+/**
+ * How entries add up to a goal's current value: "sum" for cumulative
+ * targets (run 100 km, read 20 books), "latest" for readings where only
+ * the newest value counts (body weight, a tracker's level).
+ */
+export const MEASUREMENT_AGGREGATIONS = ["sum", "latest"] as const;
+export type MeasurementAggregation = (typeof MEASUREMENT_AGGREGATIONS)[number];
+
+export interface MeasurementPoint {
+  at: Date;
+  value: number;
+}
+
+export interface TrendPoint {
+  day: string;        // local day, YYYY-MM-DD
+  value: number;      // goal value at the end of that day
+}
+
+export interface Projection {
+  current: number;
+  target: number;
+  remaining: number;              // still to go, in the goal's unit
+  ratePerDay: number;             // recent trend, in the goal's unit
+  daysLeft: number | null;        // until dueDate; null without one
+  requiredRatePerDay: number | null;
+  projectedValue: number | null;  // value at dueDate if the trend holds
+  estimatedCompletion: Date | null;
+  onTrack: boolean;
+}
+
+const DAY_MS = 86_400_000;
+
+const round = (n: number, digits = 4): number => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/** Current value of a goal from its entries (oldest first) */
+export const currentValue = (
+  aggregation: MeasurementAggregation,
+  startValue: number,
+  points: MeasurementPoint[]
+): number => {
+  if (aggregation === "latest") {
+    return points.length ? points[points.length - 1].value : startValue;
+  }
+  return round(points.reduce((sum, p) => sum + p.value, startValue));
+};
+
+/**
+ * Progress toward the target as a 0–100 percentage. Cumulative goals count
+ * from zero; readings count from where the user started, in either
+ * direction (90 kg → 80 kg works the same as 10 → 20 push-ups).
+ */
+export const progressPercent = (
+  aggregation: MeasurementAggregation,
+  startValue: number,
+  target: number,
+  current: number
+): number => {
+  const base = aggregation === "sum" ? 0 : startValue;
+  if (target === base) return current === target ? 100 : 0;
+  const pct = ((current - base) / (target - base)) * 100;
+  return Math.min(100, Math.max(0, Math.round(pct)));
+};
+
+/**
+ * The goal's value at the end of each local day from `fromDay` to `toDay`.
+ * Points must be sorted oldest first.
+ */
+export const dailySeries = (
+  aggregation: MeasurementAggregation,
+  startValue: number,
+  points: MeasurementPoint[],
+  fromDay: string,
+  toDay: string,
+  timeZone: string
+): TrendPoint[] => {
+  const byDay = new Map<string, MeasurementPoint[]>();
+  let value = startValue;
+  for (const p of points) {
+    const day = getLocalDayKey(p.at, timeZone);
+    if (day < fromDay) {
+      value = aggregation === "sum" ? value + p.value : p.value;
+      continue;
+    }
+    byDay.set(day, [...(byDay.get(day) ?? []), p]);
+  }
+
+  const series: TrendPoint[] = [];
+  for (let day = fromDay; day <= toDay; day = shiftDayKey(day, 1)) {
+    for (const p of byDay.get(day) ?? []) {
+      value = aggregation === "sum" ? value + p.value : p.value;
+    }
+    series.push({ day, value: round(value) });
+  }
+  return series;
+};
+
+/** Least-squares slope of a daily series, in units per day */
+export const slopePerDay = (series: TrendPoint[]): number => {
+  const n = series.length;
+  if (n < 2) return 0;
+  const meanX = (n - 1) / 2;
+  const meanY = series.reduce((s, p) => s + p.value, 0) / n;
+  let num = 0;
+  let den = 0;
+  series.forEach((p, x) => {
+    num += (x - meanX) * (p.value - meanY);
+    den += (x - meanX) ** 2;
+  });
+  return den ? round(num / den) : 0;
+};
+
+/**
+ * Whether the recent rate gets the goal to its target by `dueDate`, and
+ * when it would get there at that rate.
+ */
+export const projectTarget = (opts: {
+  current: number;
+  target: number;
+  ratePerDay: number;
+  dueDate?: Date | null;
+  now?: Date;
+}): Projection => {
+  const { current, target, ratePerDay } = opts;
+  const now = opts.now ?? new Date();
+  const remaining = round(target - current);
+  const direction = Math.sign(remaining);
+  const reached = direction === 0;
+  // A rate pointing away from the target never gets there
+  const heading = reached || Math.sign(ratePerDay) === direction;
+
+  const daysLeft = opts.dueDate ? Math.max(0, (opts.dueDate.getTime() - now.getTime()) / DAY_MS) : null;
+  const projectedValue = daysLeft === null ? null : round(current + ratePerDay * daysLeft);
+  const estimatedCompletion = reached
+    ? now
+    : heading && ratePerDay !== 0
+      ? new Date(now.getTime() + (remaining / ratePerDay) * DAY_MS)
+      : null;
+
+  let onTrack = reached;
+  if (!reached && projectedValue !== null) {
+    onTrack = direction > 0 ? projectedValue >= target : projectedValue <= target;
+  } else if (!reached) {
+    onTrack = heading && ratePerDay !== 0;
+  }
+
+  return {
+    current,
+    target,
+    remaining,
+    ratePerDay,
+    daysLeft: daysLeft === null ? null : round(daysLeft, 1),
+    requiredRatePerDay: daysLeft ? round(remaining / daysLeft) : null,
+    projectedValue,
+    estimatedCompletion,
+    onTrack,
+  };
+};
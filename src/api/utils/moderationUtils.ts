@@ -0,0 +1,62 @@
+// src/api/utils/moderationUtils.ts
+
+export const MODERATION_SURFACES = [
+  "group_message",
+  "direct_message",
+  "feed_post",
+  "feed_comment",
+  "blog_post",
+  "blog_comment",
+  "anonymous_chat",
+] as const;
+export type ModerationSurface = (typeof MODERATION_SURFACES)[number];
+
+// Ordered from least to most severe; when several rules match, the most severe wins
+export const MODERATION_ACTIONS = ["allow", "mask", "flag", "shadow_hide", "block"] as const;
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+export interface ModerationMatch {
+  term: string;
+  category: string;
+  source?: string;   // filter that produced the match; "wordlist" for the built-in one
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Lowercase, trim and collapse whitespace so list terms compare reliably */
+export const normalizeTerm = (term: string): string => term.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * A case-insensitive pattern matching any of `terms` as whole words, or
+ * null for an empty list. Longer terms are tried first so phrases win over
+ * the single words they contain.
+ */
+export const buildTermPattern = (terms: string[]): RegExp | null => {
+  const unique = [...new Set(terms.map(normalizeTerm).filter(Boolean))].sort((a, b) => b.length - a.length);
+  if (!unique.length) return null;
+  const body = unique.map((t) => escapeRegExp(t).replace(/ /g, "\\s+")).join("|");
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${body})(?![\\p{L}\\p{N}])`, "giu");
+};
+
+/** Distinct terms of `pattern` found in `text`, normalized */
+export const findTerms = (text: string, pattern: RegExp | null): string[] => {
+  if (!pattern || !text) return [];
+  const found = new Set<string>();
+  for (const match of text.matchAll(pattern)) found.add(normalizeTerm(match[0]));
+  return [...found];
+};
+
+/** Replace every occurrence of the matched terms with asterisks */
+export const maskTerms = (text: string, terms: string[]): string => {
+  const pattern = buildTermPattern(terms);
+  if (!pattern) return text;
+  return text.replace(pattern, (match) => match.replace(/[^\s]/g, "*"));
+};
+
+/** The more severe of two actions */
+export const strictestAction = (a: ModerationAction, b: ModerationAction): ModerationAction =>
+  MODERATION_ACTIONS.indexOf(a) >= MODERATION_ACTIONS.indexOf(b) ? a : b;
+
+/** "en-US" and "en_us" both resolve to "en" */
+export const baseLocale = (locale?: string | null): string =>
+  (locale || "en").toLowerCase().split(/[-_]/)[0] || "en";
@@ -0,0 +1,227 @@
+// src/api/utils/rankingStore.ts
+import type { Redis } from "ioredis";
+import { logger } from "../../utils/winstonLogger";
+
+export interface RankedMember {
+  member: string;
+  score: number;
+}
+
+/**
+ * Sorted score sets for leaderboards. Ranks use competition ranking: tied
+ * scores share a rank and the next score skips ahead (1, 2, 2, 4).
+ * A board counts as built once `replace` has written it, even when empty,
+ * so callers know whether to rebuild it from the database.
+ */
+export interface RankingStore {
+  isBuilt(key: string): Promise<boolean>;
+  replace(key: string, entries: RankedMember[], ttlSeconds?: number): Promise<void>;
+  incrBy(key: string, member: string, by: number): Promise<void>;
+  set(key: string, member: string, score: number): Promise<void>;
+  top(key: string, offset: number, count: number): Promise<RankedMember[]>;
+  rankOf(key: string, member: string): Promise<{ rank: number; score: number } | null>;
+  scoresOf(key: string, members: string[]): Promise<(number | null)[]>;
+  size(key: string): Promise<number>;
+  remove(keys: string[]): Promise<void>;
+}
+
+const builtKey = (key: string): string => `${key}:built`;
+const ZADD_CHUNK = 500;
+
+/**
+ * Fallback when Redis is disabled: one Map per board, sorted on read.
+ */
+export class MemoryRankingStore implements RankingStore {
+  private boards = new Map<string, Map<string, number>>();
+  private expiries = new Map<string, number>();
+
+  private board(key: string, create = false): Map<string, number> | undefined {
+    const expiry = this.expiries.get(key);
+    if (expiry !== undefined && expiry <= Date.now()) {
+      this.boards.delete(key);
+      this.expiries.delete(key);
+    }
+    if (!this.boards.has(key) && create) this.boards.set(key, new Map());
+    return this.boards.get(key);
+  }
+
+  private sorted(key: string): RankedMember[] {
+    const board = this.board(key);
+    if (!board) return [];
+    return [...board.entries()]
+      .map(([member, score]) => ({ member, score }))
+      .sort((a, b) => b.score - a.score || a.member.localeCompare(b.member));
+  }
+
+  async isBuilt(key: string): Promise<boolean> {
+    return this.board(key) !== undefined;
+  }
+
+  async replace(key: string, entries: RankedMember[], ttlSeconds?: number): Promise<void> {
+    this.boards.set(key, new Map(entries.map((e) => [e.member, e.score])));
+    if (ttlSeconds) this.expiries.set(key, Date.now() + ttlSeconds * 1000);
+    else this.expiries.delete(key);
+  }
+
+  async incrBy(key: string, member: string, by: number): Promise<void> {
+    const board = this.board(key);
+    if (board) board.set(member, (board.get(member) ?? 0) + by);
+  }
+
+  async set(key: string, member: string, score: number): Promise<void> {
+    this.board(key)?.set(member, score);
+  }
+
+  async top(key: string, offset: number, count: number): Promise<RankedMember[]> {
+    return this.sorted(key).slice(offset, offset + count);
+  }
+
+  async rankOf(key: string, member: string): Promise<{ rank: number; score: number } | null> {
+    const board = this.board(key);
+    const score = board?.get(member);
+    if (score === undefined) return null;
+    let ahead = 0;
+    for (const s of board!.values()) if (s > score) ahead++;
+    return { rank: ahead + 1, score };
+  }
+
+  async scoresOf(key: string, members: string[]): Promise<(number | null)[]> {
+    const board = this.board(key);
+    return members.map((m) => board?.get(m) ?? null);
+  }
+
+  async size(key: string): Promise<number> {
+    return this.board(key)?.size ?? 0;
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.boards.delete(key);
+      this.expiries.delete(key);
+    }
+  }
+}
+
+/**
+ * Redis sorted sets (ioredis client). Updates only touch boards that have
+ * been built, so a board missing from Redis is always rebuilt in full.
+ */
+export class RedisRankingStore implements RankingStore {
+  constructor(private readonly redis: Redis) {}
+
+  async isBuilt(key: string): Promise<boolean> {
+    return (await this.redis.exists(builtKey(key))) === 1;
+  }
+
+  async replace(key: string, entries: RankedMember[], ttlSeconds?: number): Promise<void> {
+    const staging = `${key}:staging`;
+    const pipeline = this.redis.multi().del(staging);
+    for (let i = 0; i < entries.length; i += ZADD_CHUNK) {
+      const args = entries.slice(i, i + ZADD_CHUNK).flatMap((e) => [e.score, e.member]);
+      pipeline.zadd(staging, ...args);
+    }
+    if (entries.length) pipeline.rename(staging, key);
+    else pipeline.del(key);
+    if (ttlSeconds) {
+      if (entries.length) pipeline.expire(key, ttlSeconds);
+      pipeline.set(builtKey(key), "1", "EX", ttlSeconds);
+    } else {
+      pipeline.set(builtKey(key), "1");
+    }
+    await pipeline.exec();
+  }
+
+  async incrBy(key: string, member: string, by: number): Promise<void> {
+    if (await this.isBuilt(key)) await this.redis.zincrby(key, by, member);
+  }
+
+  async set(key: string, member: string, score: number): Promise<void> {
+    if (await this.isBuilt(key)) await this.redis.zadd(key, score, member);
+  }
+
+  async top(key: string, offset: number, count: number): Promise<RankedMember[]> {
+    const flat: string[] = await this.redis.zrevrange(key, offset, offset + count - 1, "WITHSCORES");
+    const result: RankedMember[] = [];
+    for (let i = 0; i < flat.length; i += 2) {
+      result.push({ member: flat[i], score: Number(flat[i + 1]) });
+    }
+    return result;
+  }
+
+  async rankOf(key: string, member: string): Promise<{ rank: number; score: number } | null> {
+    const raw = await this.redis.zscore(key, member);
+    if (raw === null) return null;
+    const score = Number(raw);
+    const ahead = await this.redis.zcount(key, `(${score}`, "+inf");
+    return { rank: ahead + 1, score };
+  }
+
+  async scoresOf(key: string, members: string[]): Promise<(number | null)[]> {
+    if (!members.length) return [];
+    const pipeline = this.redis.pipeline();
+    members.forEach((m) => pipeline.zscore(key, m));
+    const replies = (await pipeline.exec()) ?? [];
+    return replies.map(([, raw]) => (raw === null ? null : Number(raw)));
+  }
+
+  async size(key: string): Promise<number> {
+    return this.redis.zcard(key);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (keys.length) await this.redis.del(...keys.flatMap((k) => [k, builtKey(k)]));
+  }
+}
+
+/**
+ * Uses Redis while it works and the in-memory store otherwise. After a
+ * Redis failure boards are rebuilt in memory from the database.
+ */
+export class FallbackRankingStore implements RankingStore {
+  private readonly memory = new MemoryRankingStore();
+  private redisStore: RedisRankingStore | null;
+
+  constructor(redis: Redis | null) {
+    this.redisStore = redis ? new RedisRankingStore(redis) : null;
+  }
+
+  private async run<T>(op: (store: RankingStore) => Promise<T>): Promise<T> {
+    if (this.redisStore) {
+      try {
+        return await op(this.redisStore);
+      } catch (error) {
+        logger.warn(`Ranking store Redis failed, using memory: ${(error as Error).message}`);
+        this.redisStore = null;
+      }
+    }
+    return op(this.memory);
+  }
+
+  isBuilt(key: string): Promise<boolean> {
+    return this.run((s) => s.isBuilt(key));
+  }
+  replace(key: string, entries: RankedMember[], ttlSeconds?: number): Promise<void> {
+    return this.run((s) => s.replace(key, entries, ttlSeconds));
+  }
+  incrBy(key: string, member: string, by: number): Promise<void> {
+    return this.run((s) => s.incrBy(key, member, by));
+  }
+  set(key: string, member: string, score: number): Promise<void> {
+    return this.run((s) => s.set(key, member, score));
+  }
+  top(key: string, offset: number, count: number): Promise<RankedMember[]> {
+    return this.run((s) => s.top(key, offset, count));
+  }
+  rankOf(key: string, member: string): Promise<{ rank: number; score: number } | null> {
+    return this.run((s) => s.rankOf(key, member));
+  }
+  scoresOf(key: string, members: string[]): Promise<(number | null)[]> {
+    return this.run((s) => s.scoresOf(key, members));
+  }
+  size(key: string): Promise<number> {
+    return this.run((s) => s.size(key));
+  }
+  remove(keys: string[]): Promise<void> {
+    return this.run((s) => s.remove(keys));
+  }
+}
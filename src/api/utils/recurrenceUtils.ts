@@ -0,0 +1,200 @@
+// src/api/utils/recurrenceUtils.ts
+import { diffDayKeys, getLocalDayKey, shiftDayKey } from "./streakUtils";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+/**
+ * ✅ Subset of RFC 5545 RRULE we support:
+ *    FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL=n, BYDAY=MO,TU,… (weekly only)
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;       // every N days/weeks/months
+  byWeekday?: number[];   // 0 = Sunday … 6 = Saturday
+}
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * ✅ Parse an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR".
+ */
+export const parseRRule = (rrule: string): RecurrenceRule => {
+  const parts = rrule.replace(/^RRULE:/i, "").split(";").filter(Boolean);
+  const map = new Map<string, string>();
+  for (const part of parts) {
+    const [key, value] = part.split("=");
+    if (!key || !value) throw new Error(`Invalid RRULE part "${part}"`);
+    map.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = map.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new Error("RRULE FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  const interval = map.has("INTERVAL") ? parseInt(map.get("INTERVAL")!, 10) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error("RRULE INTERVAL must be a positive integer");
+  }
+
+  const rule: RecurrenceRule = {
+    frequency: freq.toLowerCase() as RecurrenceFrequency,
+    interval,
+  };
+
+  if (map.has("BYDAY")) {
+    if (rule.frequency !== "weekly") {
+      throw new Error("RRULE BYDAY is only supported with FREQ=WEEKLY");
+    }
+    rule.byWeekday = map.get("BYDAY")!.split(",").map((d) => {
+      const idx = RRULE_DAYS.indexOf(d);
+      if (idx === -1) throw new Error(`Invalid RRULE BYDAY value "${d}"`);
+      return idx;
+    });
+  }
+
+  return rule;
+};
+
+/**
+ * ✅ Format a rule back into an RRULE string.
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday?.length) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort().map((d) => RRULE_DAYS[d]).join(",")}`);
+  }
+  return parts.join(";");
+};
+
+/**
+ * ✅ Wall-clock components of an instant in the given timezone.
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string): number =>
+    parseInt(parts.find((p) => p.type === type)?.value ?? "0", 10);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+};
+
+const getOffsetMs = (date: Date, timeZone: string): number => {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * ✅ Convert a wall-clock time in `timeZone` to the matching UTC instant.
+ *    Wall times skipped by a DST jump resolve to the instant just after it.
+ */
+export const zonedTimeToUtc = (parts: ZonedParts, timeZone: string): Date => {
+  const guess = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const first = guess - getOffsetMs(new Date(guess), timeZone);
+  const second = guess - getOffsetMs(new Date(first), timeZone);
+  // In a DST gap neither candidate shows the requested wall time; the later
+  // one is the wall time shifted past the jump (02:30 → 03:30)
+  const p = getZonedParts(new Date(second), timeZone);
+  if (p.hour !== parts.hour || p.minute !== parts.minute) {
+    return new Date(Math.max(first, second));
+  }
+  return new Date(second);
+};
+
+const dayKeyToParts = (dayKey: string, time: ZonedParts): ZonedParts => {
+  const [year, month, day] = dayKey.split("-").map((n) => parseInt(n, 10));
+  return { year, month, day, hour: time.hour, minute: time.minute, second: time.second };
+};
+
+const weekdayOf = (dayKey: string): number => new Date(`${dayKey}T00:00:00Z`).getUTCDay();
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * ✅ Next occurrence strictly after `after` for a rule anchored at `anchor`.
+ *    Occurrences keep the anchor's local wall-clock time in `timeZone`, so a
+ *    09:00 reminder stays at 09:00 across DST changes.
+ */
+export const nextOccurrence = (
+  rule: RecurrenceRule,
+  anchor: Date,
+  after: Date,
+  timeZone: string
+): Date => {
+  const time = getZonedParts(anchor, timeZone);
+  const anchorDay = getLocalDayKey(anchor, timeZone);
+  const at = (dayKey: string): Date => zonedTimeToUtc(dayKeyToParts(dayKey, time), timeZone);
+
+  if (after < anchor) return anchor;
+
+  const afterDay = getLocalDayKey(after, timeZone);
+  const interval = Math.max(1, rule.interval);
+
+  if (rule.frequency === "daily") {
+    let k = Math.max(0, Math.floor(diffDayKeys(anchorDay, afterDay) / interval));
+    for (;;) {
+      const candidate = at(shiftDayKey(anchorDay, k * interval));
+      if (candidate > after) return candidate;
+      k++;
+    }
+  }
+
+  if (rule.frequency === "weekly") {
+    const byWeekday = rule.byWeekday?.length ? rule.byWeekday : [weekdayOf(anchorDay)];
+    const anchorWeekStart = shiftDayKey(anchorDay, -weekdayOf(anchorDay));
+    let day = afterDay < anchorDay ? anchorDay : shiftDayKey(afterDay, -1);
+    // Any valid rule has an occurrence within interval + 1 weeks
+    for (let i = 0; i <= 7 * (interval + 1); i++, day = shiftDayKey(day, 1)) {
+      if (day < anchorDay || !byWeekday.includes(weekdayOf(day))) continue;
+      const week = Math.floor(diffDayKeys(anchorWeekStart, day) / 7);
+      if (week % interval !== 0) continue;
+      const candidate = at(day);
+      if (candidate > after) return candidate;
+    }
+    throw new Error("Unable to compute next weekly occurrence");
+  }
+
+  // monthly: same day-of-month as the anchor, clamped to shorter months
+  const [ay, am] = anchorDay.split("-").map((n) => parseInt(n, 10));
+  const [fy, fm] = afterDay.split("-").map((n) => parseInt(n, 10));
+  let k = Math.max(0, Math.floor(((fy - ay) * 12 + (fm - am)) / interval));
+  for (;;) {
+    const monthIndex = am - 1 + k * interval;
+    const year = ay + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    const day = Math.min(time.day, daysInMonth(year, month));
+    const candidate = zonedTimeToUtc(
+      { year, month, day, hour: time.hour, minute: time.minute, second: time.second },
+      timeZone
+    );
+    if (candidate > after) return candidate;
+    k++;
+  }
+};
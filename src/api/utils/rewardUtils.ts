@@ -1,64 +1,48 @@
-import { User } from "../models/User";
-import Badge from "../models/Badge";
 import type { IChallenge } from "../models/Challenge";
+import PointsLedgerService from "../services/PointsLedgerService";
+import BadgeRuleEngine from "../services/BadgeRuleEngine";
 
 /**
- * Award XP to a user by incrementing their points.
+ * Award XP to a user through the points ledger.
  * @param userId - The ID of the user to award points to.
  * @param xp - The amount of XP to add.
+ * @param idempotencyKey - Identifies the event; the same key is only paid once.
+ * @returns Whether the XP was newly awarded.
  */
-export const awardXpToUser = async (userId: string, xp: number): Promise<void> => {
-  const user = await User.findById(userId);
-  if (user) {
-    user.points = (user.points || 0) + xp;
-    await user.save();
-  }
+export const awardXpToUser = async (
+  userId: string,
+  xp: number,
+  idempotencyKey: string,
+  reason = "xp_awarded"
+): Promise<boolean> => {
+  const { applied } = await PointsLedgerService.credit({ userId, amount: xp, reason, idempotencyKey });
+  return applied;
 };
 
 /**
  * Reward users when a challenge is completed.
- * Grants XP and milestone_achiever badge progress.
+ * Grants XP and badge rule progress, once per participant.
  * @param challenge - The completed challenge object
  */
 export const rewardChallengeCompletion = async (challenge: IChallenge): Promise<void> => {
   if (!challenge.participants || challenge.participants.length === 0) return;
 
   for (const participant of challenge.participants) {
-    const userId = participant.user.toString();
+    // participants may be populated; `_id` works for both documents and ids
+    const userId = participant.user._id.toString();
 
     // ✅ Award XP (e.g., 50 XP for completing a challenge)
-    await awardXpToUser(userId, 50);
-
-    // ✅ Handle milestone_achiever badge
-    const existingBadge = await Badge.findOne({
-      user: userId,
-      badgeType: "milestone_achiever",
+    const { applied } = await PointsLedgerService.credit({
+      userId,
+      amount: 50,
+      reason: "challenge_completed",
+      sourceType: "Challenge",
+      sourceId: challenge._id.toString(),
+      idempotencyKey: `challenge:${challenge._id.toString()}:completed:${userId}`,
     });
+    if (!applied) continue;
 
-    if (existingBadge) {
-      existingBadge.progress += 1;
-
-      // Optional: auto-upgrade badge level based on progress
-      if (existingBadge.progress >= existingBadge.goal) {
-        if (existingBadge.level === "Bronze") existingBadge.level = "Silver";
-        else if (existingBadge.level === "Silver") existingBadge.level = "Gold";
-        // Gold stays Gold
-      }
-
-      await existingBadge.save();
-    } else {
-      // ✅ First time earning the badge
-      const newBadge = new Badge({
-        user: userId,
-        badgeType: "milestone_achiever",
-        level: "Bronze",
-        progress: 1,
-        goal: 3, // Require 3 to upgrade to Silver
-        pointsRewarded: 25,
-        isShowcased: false,
-      });
-
-      await newBadge.save();
-    }
+    // ✅ Badge progress (e.g. milestone_achiever) comes from the badge rules
+    await BadgeRuleEngine.track("challenge_completed", userId);
   }
 };
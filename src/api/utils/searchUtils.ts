@@ -0,0 +1,153 @@
+// src/api/utils/searchUtils.ts
+
+// ✅ In-process relevance scoring, typo tolerance and highlighting for search.
+// Candidates come from MongoDB (text index + prefix fallback); these helpers
+// rank them and build snippets.
+
+export interface SearchField {
+  name: string;
+  value?: string | string[] | null;
+  weight: number;
+}
+
+export interface FieldHighlight {
+  field: string;
+  snippet: string; // HTML-escaped, matches wrapped in <mark>
+}
+
+export interface ScoredMatch {
+  score: number;
+  matchedTerms: number;
+  highlights: FieldHighlight[];
+}
+
+// Query terms beyond this are ignored
+const MAX_TERMS = 8;
+// Characters of context kept either side of the first match in a snippet
+const SNIPPET_CONTEXT = 40;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * ✅ Split a query into lowercase terms, dropping duplicates and 1-char noise.
+ */
+export const tokenize = (query: string): string[] => {
+  const terms = (query.toLowerCase().match(WORD_PATTERN) ?? []).filter((t) => t.length > 1);
+  return [...new Set(terms)].slice(0, MAX_TERMS);
+};
+
+/**
+ * ✅ Escape a string for literal use inside a RegExp.
+ */
+export const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * ✅ Edit distance allowed for a term: none for short terms, 1 from 4
+ *    characters and 2 from 8.
+ */
+export const allowedTypos = (term: string): number =>
+  term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+/**
+ * ✅ Levenshtein distance, giving up once it exceeds `max`.
+ */
+export const boundedLevenshtein = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+/**
+ * ✅ How well one query term matches one word: exact 1, prefix 0.8,
+ *    within typo budget 0.6 (1 edit) or 0.4 (2 edits), otherwise 0.
+ */
+export const termScore = (term: string, word: string): number => {
+  if (word === term) return 1;
+  if (term.length >= 2 && word.startsWith(term)) return 0.8;
+  const max = allowedTypos(term);
+  if (!max) return 0;
+  const distance = boundedLevenshtein(term, word.slice(0, term.length + max), max);
+  if (distance > max) return 0;
+  return distance === 1 ? 0.6 : 0.4;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * ✅ Snippet of `text` around its matching words, with each match wrapped in <mark>.
+ */
+export const highlight = (text: string, terms: string[]): string | null => {
+  const ranges: [number, number][] = [];
+  for (const m of text.matchAll(WORD_PATTERN)) {
+    const word = m[0].toLowerCase();
+    if (terms.some((t) => termScore(t, word) > 0)) {
+      ranges.push([m.index ?? 0, (m.index ?? 0) + m[0].length]);
+    }
+  }
+  if (!ranges.length) return null;
+
+  const start = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, ranges[ranges.length - 1][1] + SNIPPET_CONTEXT);
+  let out = start > 0 ? "…" : "";
+  let cursor = start;
+  for (const [from, to] of ranges) {
+    if (to > end) break;
+    out += escapeHtml(text.slice(cursor, from)) + `<mark>${escapeHtml(text.slice(from, to))}</mark>`;
+    cursor = to;
+  }
+  out += escapeHtml(text.slice(cursor, end)) + (end < text.length ? "…" : "");
+  return out;
+};
+
+/**
+ * ✅ Score a document against the query terms. Each term takes its best
+ *    match across all fields (times the field weight); documents matching
+ *    more of the terms rank higher.
+ */
+export const scoreFields = (fields: SearchField[], terms: string[]): ScoredMatch => {
+  if (!terms.length) return { score: 0, matchedTerms: 0, highlights: [] };
+
+  const words = fields.map((f) => {
+    const text = Array.isArray(f.value) ? f.value.join(" ") : f.value ?? "";
+    return { field: f, text, words: text.toLowerCase().match(WORD_PATTERN) ?? [] };
+  });
+
+  let score = 0;
+  let matchedTerms = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const { field, words: list } of words) {
+      for (const word of list) {
+        best = Math.max(best, termScore(term, word) * field.weight);
+      }
+    }
+    if (best > 0) matchedTerms++;
+    score += best;
+  }
+
+  const coverage = matchedTerms / terms.length;
+  const highlights: FieldHighlight[] = [];
+  for (const { field, text } of words) {
+    const snippet = text && highlight(text, terms);
+    if (snippet) highlights.push({ field: field.name, snippet });
+  }
+
+  return { score: score * coverage, matchedTerms, highlights };
+};
@@ -0,0 +1,60 @@
+// src/api/utils/seasonUtils.ts
+
+export const SEASONS = ["weekly", "monthly", "alltime"] as const;
+export type Season = (typeof SEASONS)[number];
+
+export interface SeasonPeriod {
+  season: Season;
+  key: string;            // "2026-W42", "2026-10" or "alltime"
+  startsAt: Date | null;  // null for all-time
+  endsAt: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Monday 00:00 UTC of the ISO week containing `date` */
+const startOfIsoWeek = (date: Date): Date => {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = (day.getUTCDay() + 6) % 7; // Monday = 0
+  return new Date(day.getTime() - weekday * DAY_MS);
+};
+
+/** ISO week label, e.g. "2026-W01" (the year is the ISO week-year) */
+const isoWeekKey = (monday: Date): string => {
+  const thursday = new Date(monday.getTime() + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const firstThursday = new Date(Date.UTC(year, 0, 4));
+  const week = Math.round((startOfIsoWeek(thursday).getTime() - startOfIsoWeek(firstThursday).getTime()) / (7 * DAY_MS)) + 1;
+  return `${year}-W${String(week).padStart(2, "0")}`;
+};
+
+/**
+ * The season period containing `date`. Seasons follow UTC: weeks run
+ * Monday to Monday, months from the 1st.
+ */
+export const getSeasonPeriod = (season: Season, date = new Date()): SeasonPeriod => {
+  if (season === "weekly") {
+    const startsAt = startOfIsoWeek(date);
+    return { season, key: isoWeekKey(startsAt), startsAt, endsAt: new Date(startsAt.getTime() + 7 * DAY_MS) };
+  }
+  if (season === "monthly") {
+    const startsAt = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    const endsAt = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+    const key = `${startsAt.getUTCFullYear()}-${String(startsAt.getUTCMonth() + 1).padStart(2, "0")}`;
+    return { season, key, startsAt, endsAt };
+  }
+  return { season, key: "alltime", startsAt: null, endsAt: null };
+};
+
+/** The period just before the one containing `date` (weekly/monthly only) */
+export const getPreviousPeriod = (season: Exclude<Season, "alltime">, date = new Date()): SeasonPeriod => {
+  const current = getSeasonPeriod(season, date);
+  return getSeasonPeriod(season, new Date(current.startsAt!.getTime() - 1));
+};
+
+/** Whether `key` is a well-formed period key for `season` */
+export const isPeriodKey = (season: Season, key: string): boolean => {
+  if (season === "weekly") return /^\d{4}-W(0[1-9]|[1-4]\d|5[0-3])$/.test(key);
+  if (season === "monthly") return /^\d{4}-(0[1-9]|1[0-2])$/.test(key);
+  return key === "alltime";
+};
@@ -21,4 +21,79 @@ export const checkStreakMilestone = (streakCount: number): StreakRewardResult =>
   const reward = STREAK_MILESTONES[streakCount];
   return reward ? { badgeId: reward.badgeId, bonusXP: reward.bonusXP } : { bonusXP: 0 };
 };
-  
\ No newline at end of file
+  
+// ✅ Timezone-aware calendar day helpers used by the streak engine.
+// Day keys are plain "YYYY-MM-DD" strings in the user's local timezone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ✅ Return a valid IANA timezone, falling back to UTC for missing/unknown zones.
+ */
+export const resolveTimeZone = (timeZone?: string | null): string => {
+  if (!timeZone) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    return "UTC";
+  }
+};
+
+/**
+ * ✅ Get the local calendar day ("YYYY-MM-DD") of an instant in the given timezone.
+ */
+export const getLocalDayKey = (date: Date, timeZone: string): string => {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+};
+
+/**
+ * ✅ Get the local hour (0-23) of an instant in the given timezone.
+ */
+export const getLocalHour = (date: Date, timeZone: string): number => {
+  const hour = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    hourCycle: "h23",
+  }).format(date);
+  return parseInt(hour, 10);
+};
+
+/**
+ * ✅ Shift a day key by a number of calendar days.
+ */
+export const shiftDayKey = (dayKey: string, days: number): string => {
+  const ms = Date.parse(`${dayKey}T00:00:00Z`) + days * DAY_MS;
+  return new Date(ms).toISOString().slice(0, 10);
+};
+
+/**
+ * ✅ Number of calendar days from `from` to `to` (positive when `to` is later).
+ */
+export const diffDayKeys = (from: string, to: string): number => {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+};
+
+/**
+ * ✅ Check-ins implied by a streak saved before per-day history existed:
+ * `streakCount` consecutive days ending on the local day of `lastCheckIn`.
+ */
+export const legacyHistory = (
+  streakCount: number,
+  lastCheckIn: Date | null,
+  timeZone: string
+): { day: string; type: "check-in"; recordedAt: Date }[] => {
+  if (!lastCheckIn || streakCount <= 0) return [];
+  const lastDay = getLocalDayKey(lastCheckIn, timeZone);
+  return Array.from({ length: streakCount }, (_, i) => ({
+    day: shiftDayKey(lastDay, i - streakCount + 1),
+    type: "check-in" as const,
+    recordedAt: lastCheckIn,
+  }));
+};
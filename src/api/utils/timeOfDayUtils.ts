@@ -0,0 +1,55 @@
+// src/api/utils/timeOfDayUtils.ts
+import { getZonedParts, zonedTimeToUtc } from "./recurrenceUtils";
+import { getLocalDayKey, shiftDayKey } from "./streakUtils";
+
+// ✅ Wall-clock helpers for per-user delivery windows ("HH:mm" strings).
+
+export const CLOCK_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * ✅ Minutes since local midnight for an "HH:mm" string (null if malformed).
+ */
+export const parseClockTime = (value?: string | null): number | null => {
+  if (!value || !CLOCK_TIME_PATTERN.test(value)) return null;
+  const [hour, minute] = value.split(":").map((n) => parseInt(n, 10));
+  return hour * 60 + minute;
+};
+
+/**
+ * ✅ Minutes since local midnight of an instant in the given timezone.
+ */
+export const getLocalMinuteOfDay = (date: Date, timeZone: string): number => {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return hour * 60 + minute;
+};
+
+/**
+ * ✅ Whether a local minute-of-day falls inside [start, end).
+ *    Windows where end <= start wrap past midnight (e.g. 22:00 → 07:00).
+ */
+export const isWithinWindow = (minuteOfDay: number, start: number, end: number): boolean => {
+  if (start === end) return false;
+  return start < end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end;
+};
+
+/**
+ * ✅ The next instant, at or after `now`, whose local time is `minuteOfDay`.
+ *    With `skipToday` it is the one on the following local day.
+ */
+export const nextLocalTime = (
+  now: Date,
+  minuteOfDay: number,
+  timeZone: string,
+  skipToday = false
+): Date => {
+  const at = (dayKey: string): Date => {
+    const [year, month, day] = dayKey.split("-").map((n) => parseInt(n, 10));
+    const hour = Math.floor(minuteOfDay / 60);
+    return zonedTimeToUtc({ year, month, day, hour, minute: minuteOfDay % 60, second: 0 }, timeZone);
+  };
+  const today = getLocalDayKey(now, timeZone);
+  const todayAt = at(today);
+  return !skipToday && todayAt >= now ? todayAt : at(shiftDayKey(today, 1));
+};
@@ -0,0 +1,108 @@
+// src/api/utils/webhookUtils.ts
+import crypto from "crypto";
+import dns from "dns";
+import net from "net";
+
+// Domain events users can subscribe a webhook to
+export const WEBHOOK_EVENTS = [
+  "goal.completed",
+  "checkin.created",
+  "badge.awarded",
+  "partner.missed_checkin",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent by "test" so receivers can check their signature verification
+export const WEBHOOK_PING_EVENT = "ping";
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+/** A new signing secret, shown to the user once */
+export const generateWebhookSecret = (): string => `whsec_${crypto.randomBytes(24).toString("hex")}`;
+
+/**
+ * "sha256=<hex>" HMAC of "<timestamp>.<body>". Receivers recompute it with
+ * their secret and should reject stale timestamps to stop replays.
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+// Addresses a webhook must never reach: private, loopback, link-local
+// (cloud metadata), CGNAT, multicast and reserved ranges. IPv6 addresses
+// embedding IPv4 (::ffff:7f00:1) are checked against the IPv4 rules.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 96], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(prefix, bits, "ipv6");
+}
+
+/** Whether an IP address is one webhooks may not be sent to */
+export const isPrivateAddress = (address: string): boolean => {
+  const ip = address.replace(/^\[|\]$/g, "").split("%")[0];
+  const family = net.isIP(ip);
+  if (!family) return false;
+  return BLOCKED_ADDRESSES.check(ip, family === 4 ? "ipv4" : "ipv6");
+};
+
+const isLocalHostname = (host: string): boolean =>
+  host === "localhost" || host.endsWith(".localhost");
+
+/** A webhook host resolved to an address webhooks may not be sent to */
+export class WebhookAddressError extends Error {}
+
+/**
+ * dns.lookup for outgoing webhook requests: fails when the host resolves to
+ * any blocked address, so the socket only ever connects to an address that
+ * was checked, whatever the name resolves to later.
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (!addresses.length || addresses.some((a) => isPrivateAddress(a.address))) {
+      return callback(new WebhookAddressError(`${hostname} does not resolve to a public address`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Whether webhooks may be sent to local and private addresses. Only for
+ * local development: it takes WEBHOOK_ALLOW_PRIVATE_TARGETS=true and a
+ * development or test NODE_ENV, so staging stays blocked like production.
+ */
+export const allowPrivateWebhookTargets = (env: NodeJS.ProcessEnv = process.env): boolean =>
+  env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "true" && (env.NODE_ENV === "development" || env.NODE_ENV === "test");
+
+/**
+ * Why `url` can't be a webhook target, or null when it can. Local/private
+ * address literals are refused unless allowPrivateWebhookTargets, and
+ * production only accepts https; hostnames are checked when each request
+ * resolves them (see publicOnlyLookup).
+ */
+export const webhookUrlError = (
+  url: string,
+  production = process.env.NODE_ENV === "production",
+  allowPrivate = allowPrivateWebhookTargets()
+): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Webhook URL is not a valid URL";
+  }
+  if (!["http:", "https:"].includes(parsed.protocol)) return "Webhook URL must use http or https";
+  if (production && parsed.protocol !== "https:") return "Webhook URL must use https";
+  if (!allowPrivate && (isLocalHostname(parsed.hostname) || isPrivateAddress(parsed.hostname))) {
+    return "Webhook URL must be publicly reachable";
+  }
+  return null;
+};
@@ -48,6 +48,8 @@ import { logger } from "./utils/winstonLogger";
 
 // JWT guard
 import { protect } from "./api/middleware/authJwt";
+import { apiKeyRateLimiter, authenticateApiKey } from "./api/middleware/apiKeyAuth";
+import { requireStaffTwoFactor, requireVerifiedEmail } from "./api/middleware/authMiddleware";
 
 // ─── Public route imports ─────────────────────────────────────
 import healthRoutes from "./api/routes/healthRoutes";
@@ -70,12 +72,14 @@ import paymentRoutes from "./api/routes/payment";
 import subscriptionRoutes from "./api/routes/subscription";
 import goalRoutes from "./api/routes/goal";
 import goalMessageRoutes from "./api/routes/goalMessage";
+import goalTemplateRoutes from "./api/routes/goalTemplates";
 import friendsRoutes from "./api/routes/friends";
 import blogRoutes from "./api/routes/blog";
 import booksRoutes from "./api/routes/books";
 import notificationsRoutes from "./api/routes/notifications";
 import followRoutes from "./api/routes/follow";
 import adminRoutes from "./api/routes/adminRoutes";
+import apiKeyRoutes from "./api/routes/apiKeys";
 import adminAnalyticsRoutes from "./api/routes/adminAnalytics";
 import adminReports from "./api/routes/adminReports";
 import recommendationRoutes from "./api/routes/recommendationRoutes";
@@ -84,6 +88,7 @@ import activityRoutes from "./api/routes/activity";
 import badgeRoutes from "./api/routes/badgeRoutes";
 import challengeRoutes from "./api/routes/challenge";
 import collaborationRoutes from "./api/routes/collaborationGoals";
+import crisisEscalationRoutes from "./api/routes/crisisEscalation";
 import feedRoutes from "./api/routes/feed";
 import progressRoutes from "./api/routes/progress";
 import searchRoutes from "./api/routes/search";
@@ -95,8 +100,10 @@ import feedbackRoutes from "./api/routes/feedback";
 import fileUploadRoutes from "./api/routes/fileUpload";
 import goalAnalyticsRoutes from "./api/routes/goalAnalyticsRoutes";
 import historyRoutes from "./api/routes/history";
+import integrationRoutes from "./api/routes/integrations";
 import leaderboardRoutes from "./api/routes/leaderboard";
 import milestoneRoutes from "./api/routes/milestone";
+import moderationRoutes from "./api/routes/moderation";
 import militarySupportRoutes from "./api/routes/militarySupportRoutes";
 import newsletterRoutes from "./api/routes/newsletter";
 import notificationTriggersRoutes from "./api/routes/notificationTriggers";
@@ -197,8 +204,12 @@ app.use("/api/webhooks", webhooksRoutes);
 app.use("/api/anonymous-military-chat", anonymousMilitaryChatRoutes);
 
 // ─── PROTECTED routes (AUTHENTICATION REQUIRED) ───────────────
+// Scripts may authenticate with an X-API-Key header instead of a JWT
+app.use("/api/*", authenticateApiKey, apiKeyRateLimiter);
 // Apply protection to all remaining /api/* routes
 app.use("/api/*", protect);
+app.use("/api/*", requireVerifiedEmail);
+app.use("/api/*", requireStaffTwoFactor);
 
 // Now add all protected routes
 app.use("/api/military-support", militarySupportRoutes);
@@ -215,12 +226,14 @@ app.use("/api/payment", paymentRoutes);
 app.use("/api/subscription", subscriptionRoutes);
 app.use("/api/goals", goalRoutes);
 app.use("/api/goal-messages", goalMessageRoutes);
+app.use("/api/goal-templates", goalTemplateRoutes);
 app.use("/api/friends", friendsRoutes);
 app.use("/api/blog", blogRoutes);
 app.use("/api/books", booksRoutes);
 app.use("/api/notifications", notificationsRoutes);
 app.use("/api/follow", followRoutes);
 app.use("/api/admin", adminRoutes);
+app.use("/api/api-keys", apiKeyRoutes);
 app.use("/api/admin/analytics", adminAnalyticsRoutes);
 app.use("/api/admin/reports", adminReports);
 app.use("/api/recommendations", recommendationRoutes);
@@ -229,6 +242,7 @@ app.use("/api/activities", activityRoutes);
 app.use("/api/badges", badgeRoutes);
 app.use("/api/challenges", challengeRoutes);
 app.use("/api/collaboration-goals", collaborationRoutes);
+app.use("/api/crisis-escalations", crisisEscalationRoutes);
 app.use("/api/feed", feedRoutes);
 app.use("/api/progress", progressRoutes);
 app.use("/api/search", searchRoutes);
@@ -240,8 +254,10 @@ app.use("/api/feedback", feedbackRoutes);
 app.use("/api/file-uploads", fileUploadRoutes);
 app.use("/api/analytics", goalAnalyticsRoutes);
 app.use("/api/history", historyRoutes);
+app.use("/api/integrations", integrationRoutes);
 app.use("/api/leaderboard", leaderboardRoutes);
 app.use("/api/milestone", milestoneRoutes);
+app.use("/api/moderation", moderationRoutes);
 app.use("/api/newsletters", newsletterRoutes);
 app.use("/api/notification-triggers", notificationTriggersRoutes);
 app.use("/api/partner", partnerRoutes);
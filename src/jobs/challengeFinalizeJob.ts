@@ -0,0 +1,40 @@
+// src/jobs/challengeFinalizeJob.ts
+import type { ScheduledTask } from "node-cron";
+import cron from "node-cron";
+import { finalizeDueChallengesService } from "../api/services/challengeService";
+import { logger } from "../utils/winstonLogger";
+
+let task: ScheduledTask | null = null;
+let isRunning = false;
+
+/**
+ * Start the challenge finalize scheduler. Every five minutes it completes
+ * challenges past their end date and distributes their rewards, retrying
+ * payouts that failed on an earlier run.
+ */
+export const startChallengeFinalizeJob = (): ScheduledTask => {
+  if (task) return task;
+
+  task = cron.schedule("*/5 * * * *", async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await finalizeDueChallengesService();
+    } catch (err) {
+      logger.error("❌ Error in challengeFinalizeJob:", err);
+    } finally {
+      isRunning = false;
+    }
+  });
+  logger.info("✅ Challenge finalize job started");
+  return task;
+};
+
+/** Stop the challenge finalize scheduler */
+export const stopChallengeFinalizeJob = (): void => {
+  if (!task) return;
+  task.stop();
+  task = null;
+};
+
+export default startChallengeFinalizeJob;
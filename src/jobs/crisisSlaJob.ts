@@ -0,0 +1,39 @@
+// src/jobs/crisisSlaJob.ts
+import type { ScheduledTask } from "node-cron";
+import cron from "node-cron";
+import CrisisEscalationService from "../api/services/CrisisEscalationService";
+import { logger } from "../utils/winstonLogger";
+
+let task: ScheduledTask | null = null;
+let isRunning = false;
+
+/**
+ * Start the crisis SLA watcher. Every minute it flags escalations that
+ * missed their acknowledge or resolve deadline and re-alerts moderators.
+ */
+export const startCrisisSlaJob = (): ScheduledTask => {
+  if (task) return task;
+
+  task = cron.schedule("* * * * *", async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await CrisisEscalationService.checkSlas();
+    } catch (err) {
+      logger.error("❌ Error in crisisSlaJob:", err);
+    } finally {
+      isRunning = false;
+    }
+  });
+  logger.info("✅ Crisis SLA job started");
+  return task;
+};
+
+/** Stop the crisis SLA watcher */
+export const stopCrisisSlaJob = (): void => {
+  if (!task) return;
+  task.stop();
+  task = null;
+};
+
+export default startCrisisSlaJob;
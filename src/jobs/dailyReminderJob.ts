@@ -1,53 +1,152 @@
 // src/jobs/dailyReminderJob.ts
+import type { ScheduledTask } from "node-cron";
 import cron from "node-cron";
-import mongoose from "mongoose";
+import type { IUser } from "../api/models/User";
 import { User } from "../api/models/User";
-import NotificationTriggerService from "../api/services/NotificationTriggerService";
+import { hasCheckedInToday } from "../api/services/StreakService";
+import { getLocalDayKey, resolveTimeZone } from "../api/utils/streakUtils";
+import { getLocalMinuteOfDay, isWithinWindow, nextLocalTime, parseClockTime } from "../api/utils/timeOfDayUtils";
+import { dailyReminderQueue, isDailyReminderQueueEnabled } from "../queues/dailyReminderQueue";
+import { processDailyReminder } from "../queues/dailyReminderWorker";
 import { logger } from "../utils/winstonLogger";
-import { loadEnvironment } from "../utils/loadEnv";
-import dotenv from "dotenv";
-
-loadEnvironment();
-dotenv.config();
-
-// Make sure we have a MONGO_URI to connect to
-const uri = process.env.MONGO_URI;
-if (!uri) {
-  logger.error("MONGO_URI must be defined to run dailyReminderJob");
-  process.exit(1);
-}
-
-// Connect mongoose once at startup
-mongoose.connect(uri).then(() => {
-  logger.info("✅ mongoose connected for dailyReminderJob");
-}).catch((err) => {
-  logger.error("❌ mongoose connection error in dailyReminderJob:", err);
-  process.exit(1);
-});
-
-// This cron expression runs every day at 09:00 server time
-const dailyReminderJob = cron.schedule("0 9 * * *", async () => {
-  try {
-    // find all users who are active and have a positive streak
-    const users = await User.find({ activeStatus: "online", streak: { $gt: 0 } }).lean();
-
-    if (users.length === 0) {
-      logger.info("No users to send daily streak reminders to.");
-      return;
-    }
 
-    for (const u of users) {
-      const userId = u._id.toString();
-      // call your service (you’ll need to implement this)
-      await NotificationTriggerService.dailyStreakReminder(userId);
-      logger.info(`✅ Streak reminder sent to ${u.username} (${userId})`);
+const DEFAULT_SEND_MINUTE = 9 * 60; // 09:00 local
+
+let task: ScheduledTask | null = null;
+let isRunning = false;
+
+type ReminderUser = Pick<IUser, "settings" | "lastDailyReminderDay">;
+
+/** The user's quiet hours as local minutes of the day, if they are on */
+const quietWindow = (user: ReminderUser): { start: number; end: number } | null => {
+  const quiet = user.settings?.reminders?.quietHours;
+  if (!quiet?.enabled) return null;
+  const start = parseClockTime(quiet.start);
+  const end = parseClockTime(quiet.end);
+  return start !== null && end !== null ? { start, end } : null;
+};
+
+/**
+ * Local minute the daily reminder goes out: the user's chosen time, or the
+ * end of quiet hours when that time falls inside them (a 23:00 reminder
+ * with quiet hours 22:00–07:00 goes out at 07:00).
+ */
+const sendMinute = (user: ReminderUser): number => {
+  const chosen = parseClockTime(user.settings?.reminders?.dailyTime) ?? DEFAULT_SEND_MINUTE;
+  const quiet = quietWindow(user);
+  return quiet && isWithinWindow(chosen, quiet.start, quiet.end) ? quiet.end : chosen;
+};
+
+/**
+ * When a user's daily reminder should next be looked at: `now` if it is due
+ * (their local send time has passed, they are outside quiet hours and
+ * haven't been reminded yet today), otherwise their next send time or the
+ * end of quiet hours. Reminders held back by quiet hours go out once they end.
+ */
+const nextCheckAt = (user: ReminderUser, now: Date, timeZone: string): Date => {
+  const sendAt = sendMinute(user);
+  if (user.lastDailyReminderDay === getLocalDayKey(now, timeZone)) {
+    return nextLocalTime(now, sendAt, timeZone, true);
+  }
+
+  const minuteOfDay = getLocalMinuteOfDay(now, timeZone);
+  if (minuteOfDay < sendAt) return nextLocalTime(now, sendAt, timeZone);
+
+  const quiet = quietWindow(user);
+  if (quiet && isWithinWindow(minuteOfDay, quiet.start, quiet.end)) {
+    return nextLocalTime(now, quiet.end, timeZone);
+  }
+  return now;
+};
+
+/**
+ * Queue the daily streak reminders that are due. Only users whose stored
+ * `nextDailyReminderAt` has passed (or who have none yet) are read; each one
+ * gets a new time from `nextCheckAt`. Users are claimed for their local day
+ * before queueing, so overlapping runs or multiple instances never send the
+ * same reminder twice.
+ */
+export const scheduleDailyReminders = async (now = new Date()): Promise<number> => {
+  let queued = 0;
+  const cursor = User.find({
+    streakCount: { $gt: 0 },
+    "settings.reminders.dailyEnabled": { $ne: false },
+    $or: [{ nextDailyReminderAt: null }, { nextDailyReminderAt: { $lte: now } }],
+  })
+    .select("location.timezone settings.reminders lastDailyReminderDay")
+    .lean()
+    .cursor();
+
+  for await (const user of cursor) {
+    const userId = user._id.toString();
+    try {
+      const timeZone = resolveTimeZone(user.location?.timezone);
+      const checkAt = nextCheckAt(user, now, timeZone);
+      if (checkAt > now) {
+        await User.updateOne({ _id: user._id }, { $set: { nextDailyReminderAt: checkAt } });
+        continue;
+      }
+
+      const today = getLocalDayKey(now, timeZone);
+      const tomorrow = nextLocalTime(now, sendMinute(user), timeZone, true);
+      if (await hasCheckedInToday(userId, now)) {
+        await User.updateOne({ _id: user._id }, { $set: { nextDailyReminderAt: tomorrow } });
+        continue;
+      }
+
+      const claimed = await User.updateOne(
+        { _id: user._id, lastDailyReminderDay: { $ne: today } },
+        { $set: { lastDailyReminderDay: today, nextDailyReminderAt: tomorrow } }
+      );
+      if (claimed.modifiedCount !== 1) continue;
+
+      const data = { userId, day: today };
+      if (isDailyReminderQueueEnabled()) {
+        await dailyReminderQueue.add("daily-streak-reminder", data, {
+          jobId: `${userId}:${today}`,
+          attempts: 3,
+          removeOnComplete: true,
+        });
+      } else {
+        await processDailyReminder(data);
+      }
+      queued++;
+    } catch (err) {
+      logger.error(`❌ Failed to schedule daily reminder for ${userId}:`, err);
     }
-  } catch (err) {
-    logger.error("❌ Error in dailyReminderJob:", err);
   }
-});
 
-// start the cron task
-dailyReminderJob.start();
+  if (queued > 0) logger.info(`✅ Queued ${queued} daily streak reminders`);
+  return queued;
+};
+
+/**
+ * Start the daily reminder scheduler. It ticks every five minutes so each
+ * user is reminded shortly after their own local send time.
+ */
+export const startDailyReminderJob = (): ScheduledTask => {
+  if (task) return task;
+
+  task = cron.schedule("*/5 * * * *", async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await scheduleDailyReminders();
+    } catch (err) {
+      logger.error("❌ Error in dailyReminderJob:", err);
+    } finally {
+      isRunning = false;
+    }
+  });
+  logger.info("✅ Daily reminder job started");
+  return task;
+};
+
+/** Stop the daily reminder scheduler */
+export const stopDailyReminderJob = (): void => {
+  if (!task) return;
+  task.stop();
+  task = null;
+};
 
-export default dailyReminderJob;
+export default startDailyReminderJob;
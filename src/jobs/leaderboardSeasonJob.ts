@@ -0,0 +1,45 @@
+// src/jobs/leaderboardSeasonJob.ts
+import type { ScheduledTask } from "node-cron";
+import cron from "node-cron";
+import LeaderboardService from "../api/services/LeaderboardService";
+import { logger } from "../utils/winstonLogger";
+
+let task: ScheduledTask | null = null;
+let isRunning = false;
+
+/**
+ * Start the leaderboard season scheduler. Shortly after midnight UTC it
+ * archives the final standings of the previous weekly and monthly seasons,
+ * which starts the new season on an empty board. Runs daily so a missed
+ * run is caught up the next day; finished seasons are archived once.
+ */
+export const startLeaderboardSeasonJob = (): ScheduledTask => {
+  if (task) return task;
+
+  task = cron.schedule(
+    "10 0 * * *",
+    async () => {
+      if (isRunning) return;
+      isRunning = true;
+      try {
+        await LeaderboardService.archiveEndedSeasons();
+      } catch (err) {
+        logger.error("❌ Error in leaderboardSeasonJob:", err);
+      } finally {
+        isRunning = false;
+      }
+    },
+    { timezone: "UTC" }
+  );
+  logger.info("✅ Leaderboard season job started");
+  return task;
+};
+
+/** Stop the leaderboard season scheduler */
+export const stopLeaderboardSeasonJob = (): void => {
+  if (!task) return;
+  task.stop();
+  task = null;
+};
+
+export default startLeaderboardSeasonJob;
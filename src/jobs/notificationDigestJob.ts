@@ -0,0 +1,39 @@
+// src/jobs/notificationDigestJob.ts
+import type { ScheduledTask } from "node-cron";
+import cron from "node-cron";
+import NotificationDigestService from "../api/services/NotificationDigestService";
+import { logger } from "../utils/winstonLogger";
+
+let task: ScheduledTask | null = null;
+let isRunning = false;
+
+/**
+ * Start the digest scheduler. Every 15 minutes it queues digests for users
+ * whose local send time has passed; each digest goes out once per period.
+ */
+export const startNotificationDigestJob = (): ScheduledTask => {
+  if (task) return task;
+
+  task = cron.schedule("*/15 * * * *", async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await NotificationDigestService.scheduleDueDigests();
+    } catch (err) {
+      logger.error("❌ Error in notificationDigestJob:", err);
+    } finally {
+      isRunning = false;
+    }
+  });
+  logger.info("✅ Notification digest job started");
+  return task;
+};
+
+/** Stop the digest scheduler */
+export const stopNotificationDigestJob = (): void => {
+  if (!task) return;
+  task.stop();
+  task = null;
+};
+
+export default startNotificationDigestJob;
@@ -0,0 +1,39 @@
+// src/jobs/partnershipCheckInJob.ts
+import type { ScheduledTask } from "node-cron";
+import cron from "node-cron";
+import PartnershipService from "../api/services/PartnershipService";
+import { logger } from "../utils/winstonLogger";
+
+let task: ScheduledTask | null = null;
+let isRunning = false;
+
+/**
+ * Start the partner check-in scheduler. Every hour it marks check-ins from
+ * finished local days as missed and notifies the other partner.
+ */
+export const startPartnershipCheckInJob = (): ScheduledTask => {
+  if (task) return task;
+
+  task = cron.schedule("5 * * * *", async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await PartnershipService.processMissedCheckIns();
+    } catch (err) {
+      logger.error("❌ Error in partnershipCheckInJob:", err);
+    } finally {
+      isRunning = false;
+    }
+  });
+  logger.info("✅ Partnership check-in job started");
+  return task;
+};
+
+/** Stop the partner check-in scheduler */
+export const stopPartnershipCheckInJob = (): void => {
+  if (!task) return;
+  task.stop();
+  task = null;
+};
+
+export default startPartnershipCheckInJob;
@@ -0,0 +1,40 @@
+// src/jobs/streakExpiryJob.ts
+import type { ScheduledTask } from "node-cron";
+import cron from "node-cron";
+import { expireStaleStreaks } from "../api/services/StreakService";
+import { logger } from "../utils/winstonLogger";
+
+let task: ScheduledTask | null = null;
+let isRunning = false;
+
+/**
+ * Start the streak expiry scheduler. Local days end on the hour (or half
+ * hour) somewhere, so every 30 minutes it zeroes streaks whose owners
+ * missed a day and had no freeze left.
+ */
+export const startStreakExpiryJob = (): ScheduledTask => {
+  if (task) return task;
+
+  task = cron.schedule("*/30 * * * *", async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await expireStaleStreaks();
+    } catch (err) {
+      logger.error("❌ Error in streakExpiryJob:", err);
+    } finally {
+      isRunning = false;
+    }
+  });
+  logger.info("✅ Streak expiry job started");
+  return task;
+};
+
+/** Stop the streak expiry scheduler */
+export const stopStreakExpiryJob = (): void => {
+  if (!task) return;
+  task.stop();
+  task = null;
+};
+
+export default startStreakExpiryJob;
@@ -0,0 +1,62 @@
+// src/queues/dailyReminderQueue.ts - Same Redis disable flags as emailQueue
+import type { Queue } from "bullmq";
+import { NoopQueue } from "./noopQueue";
+import { logger } from "../utils/winstonLogger";
+
+export const DAILY_REMINDER_QUEUE = "daily-reminder-jobs";
+
+export interface DailyReminderJobData {
+  userId: string;
+  day: string; // user's local "YYYY-MM-DD" the reminder was claimed for
+}
+
+const isProd = process.env.NODE_ENV === "production";
+const disableQueue = process.env.DISABLE_EMAIL_QUEUE === "true";
+
+// Also check our Redis disable flags
+const isRedisDisabled = process.env.DISABLE_REDIS === "true" ||
+                       process.env.SKIP_REDIS_INIT === "true" ||
+                       process.env.REDIS_DISABLED === "true";
+
+/**
+ * BullMQ queue for daily streak reminders. Falls back to NoopQueue, in which
+ * case the scheduler processes jobs inline (see dailyReminderJob).
+ */
+export const dailyReminderQueue = ((): Queue<DailyReminderJobData> | NoopQueue => {
+  if (!isProd || disableQueue || isRedisDisabled) {
+    logger.warn("⚠️ dailyReminderQueue: DISABLED — using NoopQueue");
+    return new NoopQueue();
+  }
+
+  try {
+    const { Queue } = require("bullmq");
+
+    const host = process.env.REDIS_HOST!;
+    const port = parseInt(process.env.REDIS_PORT || "", 10);
+    if (!host || isNaN(port)) {
+      throw new Error("Missing or invalid REDIS_HOST/REDIS_PORT");
+    }
+
+    const q = new Queue(DAILY_REMINDER_QUEUE, {
+      connection: {
+        host,
+        port,
+        password: process.env.REDIS_PASSWORD || undefined,
+        tls: process.env.REDIS_USE_TLS === "true" ? {} : undefined,
+      },
+    });
+
+    q.on("error", (err: Error) => {
+      logger.error("❌ dailyReminderQueue runtime error:", err);
+    });
+
+    logger.info("✅ dailyReminderQueue: BullMQ initialized successfully");
+    return q;
+  } catch (err) {
+    logger.warn("⚠️ dailyReminderQueue init failed — falling back to NoopQueue:", err);
+    return new NoopQueue();
+  }
+})();
+
+export const isDailyReminderQueueEnabled = (): boolean =>
+  !(dailyReminderQueue instanceof NoopQueue);
@@ -0,0 +1,60 @@
+// src/queues/dailyReminderWorker.ts - Delivers queued daily streak reminders
+import NotificationTriggerService from "../api/services/NotificationTriggerService";
+import { hasCheckedInToday } from "../api/services/StreakService";
+import { logger } from "../utils/winstonLogger";
+import type { DailyReminderJobData } from "./dailyReminderQueue";
+import { DAILY_REMINDER_QUEUE, isDailyReminderQueueEnabled } from "./dailyReminderQueue";
+
+let worker: { close(): Promise<void> } | null = null;
+
+/**
+ * Send one daily streak reminder. The check-in test is repeated here
+ * because the user may have checked in while the job was queued.
+ */
+export const processDailyReminder = async ({ userId, day }: DailyReminderJobData): Promise<void> => {
+  if (await hasCheckedInToday(userId)) {
+    logger.info(`Skipping daily reminder for ${userId} (${day}): already checked in`);
+    return;
+  }
+  await NotificationTriggerService.dailyStreakReminder(userId);
+};
+
+/**
+ * Start the BullMQ worker for daily reminders. Uses the app's existing
+ * mongoose connection, so call it after MongoDB is connected. Without a
+ * queue the scheduler runs jobs inline and no worker is needed.
+ */
+export const startDailyReminderWorker = (): void => {
+  if (worker) return;
+  if (!isDailyReminderQueueEnabled()) {
+    logger.warn("⚠️ dailyReminderWorker disabled (no queue) — reminders are processed inline");
+    return;
+  }
+
+  try {
+    const { Worker } = require("bullmq");
+    worker = new Worker(
+      DAILY_REMINDER_QUEUE,
+      async (job: { data: DailyReminderJobData }) => processDailyReminder(job.data),
+      {
+        connection: {
+          host: process.env.REDIS_HOST!,
+          port: Number(process.env.REDIS_PORT!),
+          password: process.env.REDIS_PASSWORD || undefined,
+          tls: process.env.REDIS_USE_TLS === "true" ? {} : undefined,
+        },
+      }
+    ).on("error", (err: Error) => logger.error("❌ dailyReminderWorker error", err));
+
+    logger.info("✅ dailyReminderWorker: BullMQ worker initialized successfully");
+  } catch (err) {
+    logger.warn("⚠️ dailyReminderWorker failed to init — disabled:", err);
+  }
+};
+
+/** Stop the BullMQ worker, if one is running */
+export const stopDailyReminderWorker = async (): Promise<void> => {
+  if (!worker) return;
+  await worker.close();
+  worker = null;
+};
@@ -13,6 +13,15 @@ if (isProd && !disableQueue && !isRedisDisabled) {
     console.log("🔴 emailWorker: Attempting to initialize BullMQ worker");
 
     const { Worker } = require("bullmq");
+    const {
+      default: NotificationDigestService,
+      DIGEST_JOB,
+    } = require("../api/services/NotificationDigestService");
+    const {
+      default: AuthEmailService,
+      PASSWORD_RESET_JOB,
+      VERIFY_EMAIL_JOB,
+    } = require("../api/services/AuthEmailService");
     const host = process.env.REDIS_HOST!;
     const port = Number(process.env.REDIS_PORT!);
     const opts = {
@@ -25,6 +34,12 @@ if (isProd && !disableQueue && !isRedisDisabled) {
     new Worker(
       "email-jobs",
       async (_job: any) => {
+        if (_job.name === DIGEST_JOB) {
+          return NotificationDigestService.processDigestJob(_job.data);
+        }
+        if (_job.name === PASSWORD_RESET_JOB || _job.name === VERIFY_EMAIL_JOB) {
+          return AuthEmailService.processJob(_job.name, _job.data);
+        }
         // TODO: implement your mail‐sending logic here
         console.log("📧 Processing email job:", _job.id);
       },
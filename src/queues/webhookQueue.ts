@@ -0,0 +1,61 @@
+// src/queues/webhookQueue.ts - Same Redis disable flags as emailQueue
+import type { Queue } from "bullmq";
+import { NoopQueue } from "./noopQueue";
+import { logger } from "../utils/winstonLogger";
+
+export const WEBHOOK_QUEUE = "webhook-deliveries";
+
+export interface WebhookJobData {
+  deliveryId: string;
+}
+
+const isProd = process.env.NODE_ENV === "production";
+const disableQueue = process.env.DISABLE_EMAIL_QUEUE === "true";
+
+// Also check our Redis disable flags
+const isRedisDisabled = process.env.DISABLE_REDIS === "true" ||
+                       process.env.SKIP_REDIS_INIT === "true" ||
+                       process.env.REDIS_DISABLED === "true";
+
+/**
+ * BullMQ queue for outgoing webhook deliveries. Falls back to NoopQueue, in
+ * which case WebhookService sends deliveries in the background in-process.
+ */
+export const webhookQueue = ((): Queue<WebhookJobData> | NoopQueue => {
+  if (!isProd || disableQueue || isRedisDisabled) {
+    logger.warn("⚠️ webhookQueue: DISABLED — using NoopQueue");
+    return new NoopQueue();
+  }
+
+  try {
+    const { Queue } = require("bullmq");
+
+    const host = process.env.REDIS_HOST!;
+    const port = parseInt(process.env.REDIS_PORT || "", 10);
+    if (!host || isNaN(port)) {
+      throw new Error("Missing or invalid REDIS_HOST/REDIS_PORT");
+    }
+
+    const q = new Queue(WEBHOOK_QUEUE, {
+      connection: {
+        host,
+        port,
+        password: process.env.REDIS_PASSWORD || undefined,
+        tls: process.env.REDIS_USE_TLS === "true" ? {} : undefined,
+      },
+    });
+
+    q.on("error", (err: Error) => {
+      logger.error("❌ webhookQueue runtime error:", err);
+    });
+
+    logger.info("✅ webhookQueue: BullMQ initialized successfully");
+    return q;
+  } catch (err) {
+    logger.warn("⚠️ webhookQueue init failed — falling back to NoopQueue:", err);
+    return new NoopQueue();
+  }
+})();
+
+export const isWebhookQueueEnabled = (): boolean =>
+  !(webhookQueue instanceof NoopQueue);
@@ -0,0 +1,48 @@
+// src/queues/webhookWorker.ts - Sends queued webhook deliveries
+import WebhookService from "../api/services/WebhookService";
+import { logger } from "../utils/winstonLogger";
+import type { WebhookJobData } from "./webhookQueue";
+import { WEBHOOK_QUEUE, isWebhookQueueEnabled } from "./webhookQueue";
+
+let worker: { close(): Promise<void> } | null = null;
+
+/**
+ * Start the BullMQ worker for webhook deliveries. Retries happen inside
+ * WebhookService, so jobs themselves run once. Call it after MongoDB is
+ * connected; without a queue no worker is needed.
+ */
+export const startWebhookWorker = (): void => {
+  if (worker) return;
+  if (!isWebhookQueueEnabled()) {
+    logger.warn("⚠️ webhookWorker disabled (no queue) — deliveries are sent in-process");
+    return;
+  }
+
+  try {
+    const { Worker } = require("bullmq");
+    worker = new Worker(
+      WEBHOOK_QUEUE,
+      async (job: { data: WebhookJobData }) => WebhookService.processDelivery(job.data.deliveryId),
+      {
+        connection: {
+          host: process.env.REDIS_HOST!,
+          port: Number(process.env.REDIS_PORT!),
+          password: process.env.REDIS_PASSWORD || undefined,
+          tls: process.env.REDIS_USE_TLS === "true" ? {} : undefined,
+        },
+        concurrency: 5,
+      }
+    ).on("error", (err: Error) => logger.error("❌ webhookWorker error", err));
+
+    logger.info("✅ webhookWorker: BullMQ worker initialized successfully");
+  } catch (err) {
+    logger.warn("⚠️ webhookWorker failed to init — disabled:", err);
+  }
+};
+
+/** Stop the BullMQ worker, if one is running */
+export const stopWebhookWorker = async (): Promise<void> => {
+  if (!worker) return;
+  await worker.close();
+  worker = null;
+};
@@ -0,0 +1,141 @@
+// scripts/backfillBadgeRules.ts
+
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import BadgeRule from "../api/models/BadgeRule";
+import type { IBadgeRule } from "../api/models/BadgeRule";
+import BadgeRuleEngine from "../api/services/BadgeRuleEngine";
+import { logger } from "../utils/winstonLogger";
+import { loadEnvironment } from "../utils/loadEnv";
+
+loadEnvironment();
+dotenv.config();
+
+const DRY_RUN = process.argv.includes("--dry-run");
+const NOTIFY = process.argv.includes("--notify");
+const SEED_DEFAULTS = process.argv.includes("--seed-defaults");
+const ruleArg = process.argv.indexOf("--rule");
+const RULE_KEY = ruleArg > -1 ? process.argv[ruleArg + 1] : undefined;
+
+type SeedRule = Pick<IBadgeRule, "key" | "name" | "description" | "badgeType" | "metric" | "tiers">;
+
+// The badges that used to be awarded by hardcoded calls, expressed as rules
+const DEFAULT_RULES: SeedRule[] = [
+  {
+    key: "challenge-finisher",
+    name: "Challenge Finisher",
+    description: "Complete challenges",
+    badgeType: "milestone_achiever",
+    metric: "challenges_completed",
+    tiers: [
+      { level: "Bronze", threshold: 1, points: 25 },
+      { level: "Silver", threshold: 4, points: 50 },
+      { level: "Gold", threshold: 7, points: 100 },
+    ],
+  },
+  {
+    key: "streak-keeper",
+    name: "Streak Keeper",
+    description: "Keep a daily check-in streak going",
+    badgeType: "consistency_master",
+    metric: "streak_days",
+    tiers: [
+      { level: "Bronze", threshold: 7, points: 25 },
+      { level: "Silver", threshold: 30, points: 75 },
+      { level: "Gold", threshold: 100, points: 150 },
+    ],
+  },
+  {
+    key: "goal-getter",
+    name: "Goal Getter",
+    description: "Complete goals",
+    badgeType: "goal_completed",
+    metric: "goals_completed",
+    tiers: [
+      { level: "Bronze", threshold: 1, points: 25 },
+      { level: "Silver", threshold: 10, points: 50 },
+      { level: "Gold", threshold: 50, points: 100 },
+    ],
+  },
+  {
+    key: "helping-hand",
+    name: "Helping Hand",
+    description: "Reply to fellow group members",
+    badgeType: "helper",
+    metric: "members_helped",
+    tiers: [
+      { level: "Bronze", threshold: 5, points: 30 },
+      { level: "Silver", threshold: 15, points: 60 },
+      { level: "Gold", threshold: 30, points: 120 },
+    ],
+  },
+];
+
+async function seedDefaultRules(): Promise<number> {
+  let created = 0;
+  for (const rule of DEFAULT_RULES) {
+    if (await BadgeRule.exists({ key: rule.key })) continue;
+    if (!DRY_RUN) await BadgeRule.create(rule);
+    created++;
+  }
+  return created;
+}
+
+/**
+ * Evaluates badge rules against users' historical data, awarding every tier
+ * they already qualify for. Safe to re-run: tiers and their points are only
+ * ever awarded once.
+ *
+ *   --rule <key>     only backfill one rule (default: all active rules)
+ *   --seed-defaults  first create the built-in rules that don't exist yet
+ *   --notify         send unlock notifications (silent by default)
+ *   --dry-run        report what would be unlocked without writing
+ */
+async function main(): Promise<void> {
+  const mongoUri = process.env.MONGO_URI;
+  if (!mongoUri) {
+    logger.error("MONGO_URI is not defined in environment variables.");
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(mongoUri);
+    logger.info(`✅ Connected to MongoDB${DRY_RUN ? " (dry run)" : ""}`);
+
+    if (SEED_DEFAULTS) {
+      const created = await seedDefaultRules();
+      logger.info(`🌱 ${DRY_RUN ? "Would create" : "Created"} ${created} default badge rules`);
+    }
+
+    let ruleId: string | undefined;
+    if (RULE_KEY) {
+      const rule = await BadgeRule.findOne({ key: RULE_KEY.toLowerCase() }).select("_id");
+      if (!rule) {
+        logger.error(`❌ No badge rule with key "${RULE_KEY}"`);
+        process.exit(1);
+      }
+      ruleId = rule._id.toString();
+    }
+
+    const result = await BadgeRuleEngine.backfill(
+      { ruleId, notify: NOTIFY, dryRun: DRY_RUN },
+      (userId, evaluations) => {
+        for (const e of evaluations.filter((ev) => ev.unlocked.length)) {
+          logger.info(`🏅 ${userId}: ${e.rule} → ${e.unlocked.join(", ")} (progress ${e.progress})`);
+        }
+      }
+    );
+    logger.info(
+      `🔄 Evaluated ${result.rules} rules for ${result.users} users: ${result.unlocked} tiers ${DRY_RUN ? "would unlock" : "unlocked"}`
+    );
+  } catch (error) {
+    logger.error(`❌ Error backfilling badge rules: ${(error as Error).message}`);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    logger.info("🔌 Disconnected from MongoDB");
+  }
+}
+
+// Invoke the backfill; exit explicitly since the leaderboard's Redis client keeps the process alive
+void main().then(() => process.exit(0));
@@ -0,0 +1,164 @@
+// scripts/migrateReminders.ts
+
+import mongoose from "mongoose";
+import type { Types } from "mongoose";
+import dotenv from "dotenv";
+import { Reminder } from "../api/models/Reminder";
+import type { Recurrence } from "../api/models/Reminder";
+import { User } from "../api/models/User";
+import { resolveTimeZone } from "../api/utils/streakUtils";
+import { logger } from "../utils/winstonLogger";
+import { loadEnvironment } from "../utils/loadEnv";
+
+loadEnvironment();
+dotenv.config();
+
+const DRY_RUN = process.argv.includes("--dry-run");
+const DROP_LEGACY = process.argv.includes("--drop-legacy");
+
+const RECURRENCES: Recurrence[] = ["none", "daily", "weekdays", "weekly", "monthly"];
+
+interface LegacyCustomReminder {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  reminderMessage: string;
+  remindAt: Date;
+  recurrence?: string | null;
+  disabled?: boolean;
+}
+
+interface LegacyGoalReminder {
+  message: string;
+  remindAt: Date;
+  status?: "pending" | "sent";
+}
+
+interface LegacyGoal {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  reminders?: LegacyGoalReminder[];
+}
+
+const timezoneCache = new Map<string, string>();
+
+async function userTimeZone(userId: Types.ObjectId): Promise<string> {
+  const key = userId.toString();
+  if (!timezoneCache.has(key)) {
+    const user = await User.findById(userId).select("location.timezone").lean();
+    timezoneCache.set(key, resolveTimeZone(user?.location?.timezone));
+  }
+  return timezoneCache.get(key)!;
+}
+
+/**
+ * Insert a migrated reminder unless one with the same legacyRef exists.
+ * Validation is skipped because legacy reminders may already be in the past;
+ * the pre-save hook still computes nextRunAt (null for finished one-offs).
+ */
+async function importReminder(
+  legacyRef: string,
+  fields: Record<string, unknown>,
+  sent = false
+): Promise<boolean> {
+  if (await Reminder.exists({ legacyRef })) return false;
+  if (DRY_RUN) return true;
+
+  const rem = new Reminder({ ...fields, legacyRef });
+  await rem.save({ validateBeforeSave: false });
+  if (sent) {
+    await Reminder.updateOne(
+      { _id: rem._id },
+      { $set: { isSent: true, nextRunAt: null, lastSent: rem.remindAt } }
+    );
+  }
+  return true;
+}
+
+async function migrateCustomReminders(): Promise<number> {
+  const collection = mongoose.connection.db.collection<LegacyCustomReminder>("customreminders");
+  let imported = 0;
+
+  for await (const doc of collection.find({})) {
+    const recurrence = RECURRENCES.includes(doc.recurrence as Recurrence)
+      ? (doc.recurrence as Recurrence)
+      : "none";
+    const created = await importReminder(`custom:${doc._id.toString()}`, {
+      user: doc.user,
+      message: doc.reminderMessage,
+      remindAt: doc.remindAt,
+      recurrence,
+      isActive: !doc.disabled,
+      timezone: await userTimeZone(doc.user),
+    });
+    if (created) imported++;
+  }
+
+  if (DROP_LEGACY && !DRY_RUN) {
+    await collection.drop().catch(() => undefined);
+    logger.info("🗑️ Dropped legacy 'customreminders' collection");
+  }
+  return imported;
+}
+
+async function migrateGoalReminders(): Promise<number> {
+  const collection = mongoose.connection.db.collection<LegacyGoal>("goals");
+  let imported = 0;
+
+  for await (const goal of collection.find({ "reminders.0": { $exists: true } })) {
+    const timezone = await userTimeZone(goal.user);
+    for (const [idx, r] of (goal.reminders ?? []).entries()) {
+      const created = await importReminder(
+        `goal:${goal._id.toString()}:${idx}`,
+        {
+          user: goal.user,
+          goal: goal._id,
+          message: r.message,
+          remindAt: r.remindAt,
+          timezone,
+        },
+        r.status === "sent"
+      );
+      if (created) imported++;
+    }
+    if (!DRY_RUN) {
+      await collection.updateOne({ _id: goal._id }, { $unset: { reminders: "" } });
+    }
+  }
+  return imported;
+}
+
+/**
+ * Moves CustomReminder documents and embedded Goal.reminders into the
+ * unified Reminder collection. Safe to re-run: each source record is
+ * tracked through `legacyRef`.
+ *
+ *   --dry-run      report what would be migrated without writing
+ *   --drop-legacy  drop the old `customreminders` collection afterwards
+ */
+async function main(): Promise<void> {
+  const mongoUri = process.env.MONGO_URI;
+  if (!mongoUri) {
+    logger.error("MONGO_URI is not defined in environment variables.");
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(mongoUri);
+    logger.info(`✅ Connected to MongoDB${DRY_RUN ? " (dry run)" : ""}`);
+
+    const custom = await migrateCustomReminders();
+    logger.info(`🔄 ${DRY_RUN ? "Would migrate" : "Migrated"} ${custom} custom reminders`);
+
+    const goal = await migrateGoalReminders();
+    logger.info(`🔄 ${DRY_RUN ? "Would migrate" : "Migrated"} ${goal} goal reminders`);
+  } catch (error) {
+    logger.error(`❌ Error migrating reminders: ${(error as Error).message}`);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    logger.info("🔌 Disconnected from MongoDB");
+  }
+}
+
+// Invoke the migration
+void main();
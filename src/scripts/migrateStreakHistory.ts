@@ -0,0 +1,65 @@
+// scripts/migrateStreakHistory.ts
+
+import mongoose from "mongoose";
+import type { Types } from "mongoose";
+import dotenv from "dotenv";
+import Streak from "../api/models/Streak";
+import { User } from "../api/models/User";
+import { legacyHistory, resolveTimeZone } from "../api/utils/streakUtils";
+import { logger } from "../utils/winstonLogger";
+import { loadEnvironment } from "../utils/loadEnv";
+
+loadEnvironment();
+dotenv.config();
+
+const DRY_RUN = process.argv.includes("--dry-run");
+
+async function userTimeZone(userId: Types.ObjectId): Promise<string> {
+  const user = await User.findById(userId).select("location.timezone").lean();
+  return resolveTimeZone(user?.location?.timezone);
+}
+
+/**
+ * Gives streaks saved before per-day history existed the history their
+ * `streakCount` and `lastCheckIn` imply, so the streak engine doesn't
+ * evaluate them as empty. Safe to re-run: only streaks without any
+ * history are touched. The engine seeds untouched streaks lazily too.
+ *
+ *   --dry-run  report what would be migrated without writing
+ */
+async function main(): Promise<void> {
+  const mongoUri = process.env.MONGO_URI;
+  if (!mongoUri) {
+    logger.error("MONGO_URI is not defined in environment variables.");
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(mongoUri);
+    logger.info(`✅ Connected to MongoDB${DRY_RUN ? " (dry run)" : ""}`);
+
+    const filter = { "history.0": { $exists: false }, streakCount: { $gt: 0 }, lastCheckIn: { $ne: null } };
+    let migrated = 0;
+    for await (const streak of Streak.find(filter).select("user streakCount lastCheckIn").lean()) {
+      const history = legacyHistory(streak.streakCount, streak.lastCheckIn, await userTimeZone(streak.user));
+      if (!history.length) continue;
+      if (!DRY_RUN) {
+        await Streak.updateOne(
+          { _id: streak._id, "history.0": { $exists: false } },
+          { $set: { history, lastCheckInDay: history[history.length - 1].day } }
+        );
+      }
+      migrated++;
+    }
+    logger.info(`🔄 ${DRY_RUN ? "Would seed" : "Seeded"} history for ${migrated} streaks`);
+  } catch (error) {
+    logger.error(`❌ Error migrating streak history: ${(error as Error).message}`);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    logger.info("🔌 Disconnected from MongoDB");
+  }
+}
+
+// Invoke the migration
+void main();
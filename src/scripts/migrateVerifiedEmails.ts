@@ -0,0 +1,59 @@
+// scripts/migrateVerifiedEmails.ts
+
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { User } from "../api/models/User";
+import { logger } from "../utils/winstonLogger";
+import { loadEnvironment } from "../utils/loadEnv";
+
+loadEnvironment();
+dotenv.config();
+
+const DRY_RUN = process.argv.includes("--dry-run");
+const BEFORE_ARG = process.argv.find((arg) => arg.startsWith("--before="));
+
+/**
+ * Marks accounts created before email verification was enforced as
+ * verified, so requireVerifiedEmail doesn't lock existing users out of
+ * writes. Run it when deploying the enforcement; safe to re-run.
+ *
+ *   --before=YYYY-MM-DD  only accounts created before this date (default: now)
+ *   --dry-run            report how many accounts would be updated
+ */
+async function main(): Promise<void> {
+  const mongoUri = process.env.MONGO_URI;
+  if (!mongoUri) {
+    logger.error("MONGO_URI is not defined in environment variables.");
+    process.exit(1);
+  }
+
+  const before = BEFORE_ARG ? new Date(BEFORE_ARG.slice("--before=".length)) : new Date();
+  if (Number.isNaN(before.getTime())) {
+    logger.error(`Invalid --before date: ${BEFORE_ARG}`);
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(mongoUri);
+    logger.info(`✅ Connected to MongoDB${DRY_RUN ? " (dry run)" : ""}`);
+
+    // Accounts old enough to predate timestamps have no createdAt
+    const filter = {
+      isVerified: { $ne: true },
+      $or: [{ createdAt: { $lt: before } }, { createdAt: { $exists: false } }],
+    };
+    const count = DRY_RUN
+      ? await User.countDocuments(filter)
+      : (await User.updateMany(filter, { $set: { isVerified: true } })).modifiedCount;
+    logger.info(`🔄 ${DRY_RUN ? "Would mark" : "Marked"} ${count} accounts created before ${before.toISOString()} as verified`);
+  } catch (error) {
+    logger.error(`❌ Error marking existing accounts verified: ${(error as Error).message}`);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    logger.info("🔌 Disconnected from MongoDB");
+  }
+}
+
+// Invoke the migration
+void main();
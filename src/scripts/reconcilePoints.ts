@@ -0,0 +1,83 @@
+// scripts/reconcilePoints.ts
+
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { User } from "../api/models/User";
+import PointsLedgerService from "../api/services/PointsLedgerService";
+import { logger } from "../utils/winstonLogger";
+import { loadEnvironment } from "../utils/loadEnv";
+
+loadEnvironment();
+dotenv.config();
+
+const REPAIR = process.argv.includes("--repair");
+const OPEN_BALANCES = process.argv.includes("--open-balances");
+const userArg = process.argv.indexOf("--user");
+const ONLY_USER = userArg > -1 ? process.argv[userArg + 1] : undefined;
+
+/**
+ * Compares every user's User.points, Level and Gamification progress with
+ * the points ledger and reports drift. Safe to re-run.
+ *
+ *   --open-balances  first record each user's pre-ledger balance and XP as
+ *                    an opening ledger entry (run once after introducing
+ *                    the ledger; users who already have one are skipped)
+ *   --repair         overwrite drifted values with the ledger's totals;
+ *                    users without an opening balance are only reported
+ *   --user <id>      only check one user
+ */
+async function main(): Promise<void> {
+  const mongoUri = process.env.MONGO_URI;
+  if (!mongoUri) {
+    logger.error("MONGO_URI is not defined in environment variables.");
+    process.exit(1);
+  }
+  if (ONLY_USER && !mongoose.isValidObjectId(ONLY_USER)) {
+    logger.error(`Invalid user ID: ${ONLY_USER}`);
+    process.exit(1);
+  }
+
+  let checked = 0;
+  let opened = 0;
+  let drifted = 0;
+  let repaired = 0;
+  try {
+    await mongoose.connect(mongoUri);
+    logger.info(`✅ Connected to MongoDB${REPAIR ? " (repair mode)" : ""}`);
+
+    const cursor = User.find(ONLY_USER ? { _id: ONLY_USER } : {})
+      .select("_id")
+      .lean()
+      .cursor();
+    for await (const user of cursor) {
+      const userId = user._id.toString();
+      if (OPEN_BALANCES && (await PointsLedgerService.openBalance(userId))) opened++;
+
+      const report = await PointsLedgerService.reconcileUser(userId, REPAIR);
+      checked++;
+      if (report.drift.length) {
+        drifted++;
+        if (report.repaired) repaired++;
+        logger.warn(
+          `⚠️ User ${userId}: ${report.drift.join("; ")}${
+            report.repaired ? " (repaired)" : REPAIR ? " (not repaired: no opening balance)" : ""
+          }`
+        );
+      }
+    }
+
+    if (OPEN_BALANCES) logger.info(`📒 Recorded ${opened} opening balances`);
+    logger.info(
+      `🔎 Checked ${checked} users: ${drifted} with drift${REPAIR ? `, ${repaired} repaired` : ""}`
+    );
+  } catch (error) {
+    logger.error(`❌ Error reconciling points: ${(error as Error).message}`);
+    process.exit(1);
+  } finally {
+    await mongoose.disconnect();
+    logger.info("🔌 Disconnected from MongoDB");
+  }
+}
+
+// Invoke the reconciliation; exit explicitly since the leaderboard's Redis client keeps the process alive
+void main().then(() => process.exit(0));
@@ -146,6 +146,17 @@ import { Server } from "socket.io";
 import app from "./app";
 import { logger } from "./utils/winstonLogger";
 import socketServer from "./sockets/index"; // This now returns { io, socketService }
+import { startReminderScheduler } from "./api/services/ReminderService";
+import { startDailyReminderJob } from "./jobs/dailyReminderJob";
+import { startDailyReminderWorker } from "./queues/dailyReminderWorker";
+import { startWebhookWorker } from "./queues/webhookWorker";
+import { startNotificationDigestJob } from "./jobs/notificationDigestJob";
+import { startPartnershipCheckInJob } from "./jobs/partnershipCheckInJob";
+import { startLeaderboardSeasonJob } from "./jobs/leaderboardSeasonJob";
+import { startChallengeFinalizeJob } from "./jobs/challengeFinalizeJob";
+import { startCrisisSlaJob } from "./jobs/crisisSlaJob";
+import { startStreakExpiryJob } from "./jobs/streakExpiryJob";
+import "./queues/emailWorker";
 
 // ─── Extend NodeJS global for Socket.io ────────────────────────
 declare global {
@@ -184,7 +195,20 @@ async function startServer(): Promise<void> {
     app.set("anonymousMilitarySocketService", socketService);
     logger.info("✅ Anonymous military socket service registered");
 
-    // 4) Start listening
+    // 4) Start the DB-backed reminder scheduler, daily streak reminders, digests,
+    //    partner check-in tracking, webhook deliveries and streak expiry
+    startReminderScheduler();
+    startDailyReminderWorker();
+    startWebhookWorker();
+    startDailyReminderJob();
+    startNotificationDigestJob();
+    startPartnershipCheckInJob();
+    startLeaderboardSeasonJob();
+    startChallengeFinalizeJob();
+    startCrisisSlaJob();
+    startStreakExpiryJob();
+
+    // 5) Start listening
     const PORT = parseInt(process.env.PORT || "5000", 10);
     httpServer.listen(PORT, "0.0.0.0", () => {
       console.log(`🚀 Server listening on port ${PORT}`);
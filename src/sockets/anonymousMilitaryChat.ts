@@ -1,6 +1,15 @@
 // src/sockets/anonymousMilitaryChat.ts
 import type { Server, Socket } from "socket.io";
 import { logger } from "../utils/winstonLogger";
+import { matchCrisisKeywords } from "../api/services/AnonymousMilitaryChatService";
+import CrisisEscalationService, {
+  issueSessionToken,
+  newSessionId,
+  sessionRoom,
+  sessionSecret,
+  verifySessionToken,
+} from "../api/services/CrisisEscalationService";
+import ModerationService, { ModerationVerdict } from "../api/services/ModerationService";
 
 interface AnonymousUser {
   sessionId: string;
@@ -12,27 +21,33 @@ interface AnonymousUser {
 const activeUsers = new Map<string, Set<AnonymousUser>>();
 
 export function setupAnonymousMilitaryChat(io: Server): void {
+  // Throws when no session secret is configured, stopping startup
+  sessionSecret();
+
   // Create anonymous military chat namespace (no auth required)
   const anonymousChatNamespace = io.of("/anonymous-military-chat");
 
   anonymousChatNamespace.on("connection", (socket: Socket) => {
     logger.info(`👋 Anonymous user connected: ${socket.id}`);
 
+    // The session comes from a token the server signed, never from the
+    // client's say-so; without a valid one the socket gets a fresh session
     const user: AnonymousUser = {
-      sessionId: socket.handshake.auth.sessionId || socket.id,
+      sessionId: verifySessionToken(socket.handshake.auth.sessionToken) ?? newSessionId(),
       displayName: socket.handshake.auth.displayName || "Anonymous User"
     };
+    void socket.join(sessionRoom(user.sessionId));
+    socket.emit("session", { sessionToken: issueSessionToken(user.sessionId) });
 
     // Handle joining a room
-    socket.on("join-room", async (data: { room: string; sessionId: string; displayName: string }) => {
-      const { room, sessionId, displayName } = data;
+    socket.on("join-room", async (data: { room: string; displayName: string }) => {
+      const { room, displayName } = data;
 
       logger.info(`👥 Anonymous user ${displayName} joining room: ${room}`);
 
       // Join the Socket.IO room
       await socket.join(room);
       user.roomId = room;
-      user.sessionId = sessionId;
       user.displayName = displayName;
 
 
@@ -60,45 +75,60 @@ export function setupAnonymousMilitaryChat(io: Server): void {
     });
 
     // Handle sending messages
-    socket.on("send-message", (data: { room: string; message: string; sessionId: string; displayName: string }) => {
+    socket.on("send-message", async (data: { room: string; message: string; displayName: string }) => {
       const { room, message, displayName } = data;
-      logger.info(`💬 Anonymous message from ${displayName} in ${room}: ${message}`);
+      const { sessionId } = user;
+      logger.info(`💬 Anonymous message from ${displayName} in ${room}`);
 
       // Check for crisis keywords
-      const crisisKeywords = ["suicide", "kill myself", "end it all", "hurt myself", "die", "want to die"];
-      const messageContainsCrisisKeywords = crisisKeywords.some(keyword =>
-        message.toLowerCase().includes(keyword)
-      );
+      const matchedKeywords = matchCrisisKeywords(message);
+      const messageContainsCrisisKeywords = matchedKeywords.length > 0;
 
       if (messageContainsCrisisKeywords) {
-        logger.warn(`🚨 Crisis keywords detected from ${displayName} in ${room}`);
-
-        // Send crisis resources to the user
-        socket.emit("crisis-resources", {
-          message: "We noticed you might be in distress. Please reach out for help: Veterans Crisis Line 988 (Press 1) or emergency services 911.",
-          resources: {
-            veteransCrisis: "988",
-            emergency: "911",
-            textLine: "838255"
-          }
-        });
+        logger.warn(`🚨 Crisis keywords detected in ${room}`);
+
+        // Resources go to the sender's session room; moderators get the escalation
+        try {
+          await CrisisEscalationService.escalate({
+            room,
+            sessionId,
+            text: message.trim(),
+            matchedKeywords
+          });
+        } catch (error) {
+          logger.error(`Failed to escalate flagged message in ${room}: ${error}`);
+        }
+      }
+
+      // Socket messages aren't stored, so there is nothing to queue for review
+      let verdict: ModerationVerdict;
+      try {
+        verdict = await ModerationService.enforce("anonymous_chat", message.trim());
+      } catch (error) {
+        socket.emit("message-blocked", { message: (error as Error).message });
+        return;
       }
 
       const messageData = {
         id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         displayName,
-        message: message.trim(),
+        message: verdict.text,
         timestamp: new Date().toISOString(),
         isFlagged: messageContainsCrisisKeywords
       };
 
-      // Send message to everyone in the room
-      anonymousChatNamespace.to(room).emit("new-message", messageData);
+      // Send message to everyone in the room; a shadow-hidden one only to its sender
+      if (verdict.hidden) {
+        socket.emit("new-message", messageData);
+      } else {
+        anonymousChatNamespace.to(room).emit("new-message", messageData);
+      }
     });
 
     // Handle leaving room
-    socket.on("leave-room", async (data: { room: string; sessionId: string; displayName: string }) => {
-      const { room, sessionId, displayName } = data;
+    socket.on("leave-room", async (data: { room: string; displayName: string }) => {
+      const { room, displayName } = data;
+      const { sessionId } = user;
 
       logger.info(`👋 Anonymous user ${displayName} leaving room: ${room}`);
 
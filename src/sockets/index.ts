@@ -70,6 +70,9 @@ const socketServer = (server: HttpServer): { io: Server; socketService: Anonymou
     const { id: userId } = socket.data.user as { id: string; role: string };
     logger.info(`User connected: ${userId}`);
 
+    // Personal room used by NotificationDispatcher for real-time delivery
+    void socket.join(userId);
+
     // Attach chat-specific event handlers
     chatSocket(io, socket);
 
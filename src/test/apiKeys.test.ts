@@ -0,0 +1,70 @@
+import APIKey from "../api/models/APIKey";
+import { API_KEY_SCOPES, requiredScope } from "../api/utils/apiKeyScopes";
+
+describe("API key scopes", () => {
+  it("offers a read and a write scope per resource", () => {
+    expect(API_KEY_SCOPES).toEqual(expect.arrayContaining(["goals:read", "goals:write", "checkins:read", "checkins:write"]));
+    expect(API_KEY_SCOPES.length % 2).toBe(0);
+  });
+
+  it("requires read for safe methods and write for the rest", () => {
+    expect(requiredScope("GET", "/api/goals")).toBe("goals:read");
+    expect(requiredScope("head", "/api/goals/123")).toBe("goals:read");
+    expect(requiredScope("POST", "/api/goals")).toBe("goals:write");
+    expect(requiredScope("DELETE", "/api/tasks/1")).toBe("tasks:write");
+  });
+
+  it("ignores the query string", () => {
+    expect(requiredScope("GET", "/api/goals?status=active")).toBe("goals:read");
+  });
+
+  it("maps habit logs, measurements and partner check-ins to checkins before goals", () => {
+    expect(requiredScope("POST", "/api/goals/abc/habit/logs")).toBe("checkins:write");
+    expect(requiredScope("GET", "/api/goals/abc/measurements")).toBe("checkins:read");
+    expect(requiredScope("POST", "/api/partner/partnerships/p1/check-ins")).toBe("checkins:write");
+    expect(requiredScope("GET", "/api/goals/abc/tree")).toBe("goals:read");
+  });
+
+  it("closes unmapped paths to API keys", () => {
+    expect(requiredScope("GET", "/api/admin/users")).toBeNull();
+    expect(requiredScope("GET", "/api/api-keys")).toBeNull();
+    expect(requiredScope("GET", "/api/partner/suggestions")).toBeNull();
+  });
+
+  it("matches whole path segments only", () => {
+    expect(requiredScope("GET", "/api/goalsearch")).toBeNull();
+    expect(requiredScope("GET", "/api/tasks-archive")).toBeNull();
+  });
+});
+
+describe("API key hashing", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("hashes keys to a stable SHA-256 hex digest", () => {
+    const hash = APIKey.hashKey("abk_12345678_secret");
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(APIKey.hashKey("abk_12345678_secret")).toBe(hash);
+    expect(APIKey.hashKey("abk_12345678_secreT")).not.toBe(hash);
+  });
+
+  it("rejects malformed keys without a database lookup", async () => {
+    const findOne = jest.spyOn(APIKey, "findOne");
+    await expect(APIKey.validateKey("not-a-key")).resolves.toBeNull();
+    await expect(APIKey.validateKey("abk_1234")).resolves.toBeNull();
+    await expect(APIKey.validateKey("abk_12345678")).resolves.toBeNull();
+    expect(findOne).not.toHaveBeenCalled();
+  });
+
+  it("looks the key up by its visible prefix and compares hashes", async () => {
+    const key = "abk_1a2b3c4d_" + "f".repeat(64);
+    const doc = { keyHash: APIKey.hashKey(key) };
+    const select = jest.fn().mockResolvedValue(doc);
+    const findOne = jest.spyOn(APIKey, "findOne").mockReturnValue({ select } as any);
+
+    await expect(APIKey.validateKey(key)).resolves.toBe(doc);
+    expect(findOne.mock.calls[0][0]).toMatchObject({ prefix: "abk_1a2b3c4d", isActive: true });
+    expect(select).toHaveBeenCalledWith("+keyHash");
+
+    await expect(APIKey.validateKey("abk_1a2b3c4d_" + "0".repeat(64))).resolves.toBeNull();
+  });
+});
@@ -1,3 +1,25 @@
+import { Types } from "mongoose";
+import RefreshToken from "../api/models/RefreshToken";
+import { User } from "../api/models/User";
+import AuthService from "../api/services/AuthService";
+import SessionService from "../api/services/SessionService";
+import TwoFactorService from "../api/services/TwoFactorService";
+import { renderAuthEmail } from "../api/utils/authEmailTemplate";
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  hashRecoveryCode,
+  totpStep,
+  verifyTotp,
+} from "../api/utils/totpUtils";
+
+// AuthService refuses to load without an access token secret
+jest.mock("../api/services/AuthService", () => {
+  process.env.ACCESS_TOKEN_SECRET ||= "test-access-secret";
+  return jest.requireActual("../api/services/AuthService");
+});
+
 describe("Auth + seeded users", () => {
   it("should log in…", async () => {
     const res = await global.authPost("/api/auths/login", {
@@ -9,3 +31,190 @@ describe("Auth + seeded users", () => {
   });
 });
 
+// RFC 6238 appendix B seed for SHA1; codes are the last 6 of the 8-digit vectors
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("base32", () => {
+  it("encodes per RFC 4648 without padding", () => {
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  });
+
+  it("decodes case-, space- and padding-insensitively", () => {
+    expect(base32Decode("mzxw 6ytb oi======").toString()).toBe("foobar");
+    expect(base32Decode(RFC_SECRET).toString()).toBe("12345678901234567890");
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("MZXW1")).toThrow("Invalid base32 character");
+  });
+});
+
+describe("TOTP", () => {
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+  ])("matches the RFC 6238 vector at %is", (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+  });
+
+  it("returns the matched step, allowing one step of drift", () => {
+    const time = 1234567890 * 1000;
+    const step = totpStep(time);
+    expect(verifyTotp(RFC_SECRET, "005924", 1, time)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, time)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), 1, time)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, time)).toBeNull();
+  });
+
+  it("ignores spaces and rejects malformed codes", () => {
+    const time = 59 * 1000;
+    expect(verifyTotp(RFC_SECRET, "287 082", 1, time)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, "28708", 1, time)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", 1, time)).toBeNull();
+  });
+});
+
+describe("TwoFactorService.verify", () => {
+  const userId = "64b000000000000000000001";
+  const twoFactorUser = { _id: userId, twoFactorEnabled: true, twoFactorSecret: RFC_SECRET };
+
+  beforeEach(() => {
+    jest.spyOn(User, "findById").mockReturnValue({ select: jest.fn().mockResolvedValue(twoFactorUser) } as any);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it("spends a TOTP step so the same code is refused the second time", async () => {
+    const updateOne = jest
+      .spyOn(User, "updateOne")
+      .mockResolvedValueOnce({ modifiedCount: 1 } as any)
+      .mockResolvedValueOnce({ modifiedCount: 0 } as any);
+    const code = generateTotp(RFC_SECRET);
+
+    await expect(TwoFactorService.verify(userId, code)).resolves.toBe("totp");
+    await expect(TwoFactorService.verify(userId, code)).resolves.toBeNull();
+
+    const [filter, update] = updateOne.mock.calls[0] as any[];
+    const step = update.twoFactorLastStep;
+    expect(filter.$or).toContainEqual({ twoFactorLastStep: { $lt: step } });
+  });
+
+  it("pulls a recovery code when it is used, so it works only once", async () => {
+    const updateOne = jest
+      .spyOn(User, "updateOne")
+      .mockResolvedValueOnce({ modifiedCount: 1 } as any)
+      .mockResolvedValueOnce({ modifiedCount: 0 } as any);
+
+    await expect(TwoFactorService.verify(userId, "ABCDE-12345")).resolves.toBe("recovery");
+    await expect(TwoFactorService.verify(userId, "abcde12345")).resolves.toBeNull();
+
+    const hash = hashRecoveryCode("abcde-12345");
+    expect(updateOne.mock.calls[0]).toEqual([
+      { _id: userId, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } },
+    ]);
+    expect(updateOne.mock.calls[1][0]).toEqual({ _id: userId, twoFactorRecoveryCodes: hash });
+  });
+
+  it("refuses every code while two-factor is off", async () => {
+    jest.spyOn(User, "findById").mockReturnValue({
+      select: jest.fn().mockResolvedValue({ ...twoFactorUser, twoFactorEnabled: false }),
+    } as any);
+    const updateOne = jest.spyOn(User, "updateOne");
+
+    await expect(TwoFactorService.verify(userId, generateTotp(RFC_SECRET))).resolves.toBeNull();
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+});
+
+describe("AuthService.refreshToken", () => {
+  const sessionId = new Types.ObjectId();
+  const userId = new Types.ObjectId();
+  const stored = (fields: Record<string, unknown> = {}): any => ({
+    _id: new Types.ObjectId(),
+    user: userId,
+    session: sessionId,
+    revoked: false,
+    isExpired: false,
+    ...fields,
+  });
+  const next = { _id: new Types.ObjectId(), expiresAt: new Date("2030-01-01T00:00:00Z") };
+
+  let endSession: jest.SpyInstance;
+  let claim: jest.SpyInstance;
+
+  beforeEach(() => {
+    endSession = jest.spyOn(SessionService, "end").mockResolvedValue();
+    jest.spyOn(SessionService, "findActive").mockResolvedValue({ _id: sessionId } as any);
+    jest.spyOn(SessionService, "touch").mockResolvedValue(undefined as never);
+    jest.spyOn(User, "findById").mockReturnValue({ select: jest.fn().mockResolvedValue({ _id: userId, role: "user" }) } as any);
+    jest.spyOn(RefreshToken, "generate").mockResolvedValue({ refreshToken: next, token: "new-raw-token" } as any);
+    claim = jest.spyOn(RefreshToken, "findOneAndUpdate");
+    jest.spyOn(AuthService, "generateToken").mockResolvedValue("access-token");
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it("rotates a live token into a new pair and retires the old one", async () => {
+    const old = stored();
+    jest.spyOn(RefreshToken, "findByToken").mockResolvedValue(old);
+    claim.mockResolvedValue(old);
+
+    await expect(AuthService.refreshToken("raw-token")).resolves.toEqual({
+      accessToken: "access-token",
+      refreshToken: "new-raw-token",
+      sessionId: sessionId.toString(),
+    });
+    expect(claim).toHaveBeenCalledWith(
+      { _id: old._id, revoked: false },
+      expect.objectContaining({ revoked: true, replacedBy: next._id })
+    );
+    expect(endSession).not.toHaveBeenCalled();
+  });
+
+  it("revokes the whole session when a rotated token comes back", async () => {
+    jest.spyOn(RefreshToken, "findByToken").mockResolvedValue(stored({ revoked: true, replacedBy: next._id }));
+
+    await expect(AuthService.refreshToken("raw-token")).rejects.toMatchObject({ statusCode: 401 });
+    expect(endSession).toHaveBeenCalledWith(sessionId);
+    expect(RefreshToken.generate).not.toHaveBeenCalled();
+  });
+
+  it("revokes the session when a concurrent refresh claimed the token first", async () => {
+    jest.spyOn(RefreshToken, "findByToken").mockResolvedValue(stored());
+    claim.mockResolvedValue(null);
+
+    await expect(AuthService.refreshToken("raw-token")).rejects.toMatchObject({ statusCode: 401 });
+    expect(endSession).toHaveBeenCalledWith(sessionId);
+  });
+
+  it("refuses unknown and expired tokens without touching the session", async () => {
+    jest.spyOn(RefreshToken, "findByToken").mockResolvedValueOnce(null).mockResolvedValueOnce(stored({ isExpired: true }));
+
+    await expect(AuthService.refreshToken("unknown")).rejects.toMatchObject({ statusCode: 401 });
+    await expect(AuthService.refreshToken("expired")).rejects.toMatchObject({ statusCode: 401 });
+    expect(endSession).not.toHaveBeenCalled();
+  });
+});
+
+describe("renderAuthEmail", () => {
+  const link = "https://app.example.com/reset-password?token=abc&x=1";
+
+  it("renders the reset email with its expiry and link", () => {
+    const email = renderAuthEmail({ kind: "resetPassword", locale: "en", name: "Sam", link, vars: { minutes: 30 } });
+    expect(email.subject).toBe("Reset your Accountability Buddy password");
+    expect(email.text).toContain("Hi Sam,");
+    expect(email.text).toContain(`Reset password: ${link}`);
+    expect(email.text).toContain("This link expires in 30 minutes");
+    expect(email.html).toContain('href="https://app.example.com/reset-password?token=abc&amp;x=1"');
+  });
+
+  it("uses the recipient's locale and escapes their name", () => {
+    const email = renderAuthEmail({ kind: "verifyEmail", locale: "de", name: "<Sam>", link, vars: { hours: 24 } });
+    expect(email.subject).toBe("Bestätigen Sie Ihre E-Mail-Adresse");
+    expect(email.html).toContain("Hallo &lt;Sam&gt;,");
+    expect(email.text).toContain("24");
+  });
+});
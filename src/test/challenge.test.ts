@@ -1,5 +1,14 @@
-
-
+import { Types } from "mongoose";
+import Challenge from "../api/models/Challenge";
+import NotificationDispatcher from "../api/services/NotificationDispatcher";
+import {
+  finalizeChallengeService,
+  finalizeDueChallengesService,
+  getTeamStandings,
+  joinChallengeService,
+  updateProgressService,
+} from "../api/services/challengeService";
+import * as rewardUtils from "../api/utils/rewardUtils";
 
 describe("challenge routes", () => {
   it("smoke test runs", () => {
@@ -12,3 +21,214 @@ describe("challenge routes", () => {
   });
 });
 
+describe("challenge teams and payouts", () => {
+  const id = (): Types.ObjectId => new Types.ObjectId();
+  const alpha = { _id: id(), name: "Alpha" };
+  const beta = { _id: id(), name: "Beta" };
+  const gamma = { _id: id(), name: "Gamma" };
+  const member = (team: { _id: Types.ObjectId } | null, progress = 0): any => ({
+    user: id(),
+    team: team?._id ?? null,
+    progress,
+  });
+  const challenge = (overrides: Record<string, unknown> = {}): any => ({
+    _id: id(),
+    title: "Spring steps",
+    status: "ongoing",
+    progressTracking: "team",
+    teamSettings: { mode: "auto", maxTeamSize: null, scoring: "average" },
+    teams: [alpha, beta],
+    participants: [],
+    milestones: [],
+    rewards: [{ rewardType: "badge", rewardValue: "Trailblazer" }],
+    awards: [],
+    ...overrides,
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe("joining a team", () => {
+    const join = async (doc: any, teamId?: string): Promise<Types.ObjectId> => {
+      jest.spyOn(Challenge, "findById").mockResolvedValue(doc);
+      const push = jest.spyOn(Challenge, "findOneAndUpdate").mockResolvedValue(doc);
+      await joinChallengeService(id().toString(), doc._id.toString(), teamId);
+      return (push.mock.lastCall[1] as any).$push.participants.team;
+    };
+
+    it("auto-balances onto the smallest team with room, earliest first on ties", async () => {
+      expect(await join(challenge({ participants: [member(alpha), member(alpha), member(beta)] }))).toEqual(beta._id);
+      expect(await join(challenge({ participants: [member(alpha), member(beta)] }))).toEqual(alpha._id);
+    });
+
+    it("refuses auto joins once every team is full", async () => {
+      const full = challenge({
+        teamSettings: { mode: "auto", maxTeamSize: 1, scoring: "average" },
+        participants: [member(alpha), member(beta)],
+      });
+      await expect(join(full)).rejects.toMatchObject({ statusCode: 409, message: "All teams are full" });
+    });
+
+    it("places users on the team they chose, if it exists and has room", async () => {
+      const choice = (participants: any[] = []): any =>
+        challenge({ teamSettings: { mode: "choice", maxTeamSize: 1, scoring: "average" }, participants });
+
+      expect(await join(choice(), beta._id.toString())).toEqual(beta._id);
+      await expect(join(choice())).rejects.toMatchObject({ statusCode: 400 });
+      await expect(join(choice(), id().toString())).rejects.toMatchObject({ statusCode: 404 });
+      await expect(join(choice([member(beta)]), beta._id.toString())).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe("milestones", () => {
+    const userId = id();
+    const milestone = (overrides: Record<string, unknown> = {}): any => ({
+      _id: id(),
+      title: "10k steps",
+      target: 10,
+      requiredAchievers: 1,
+      achievedBy: [],
+      completed: false,
+      ...overrides,
+    });
+
+    it("records achievers and completes milestones that reach their threshold once", async () => {
+      const solo = milestone();
+      const group = milestone({ title: "Team effort", requiredAchievers: 2 });
+      const participant = { user: userId, progress: 12 };
+      jest.spyOn(Challenge, "findOneAndUpdate").mockResolvedValue(
+        challenge({ participants: [participant], milestones: [solo, group] })
+      );
+      jest.spyOn(Challenge, "findById").mockResolvedValue(
+        challenge({
+          participants: [participant],
+          milestones: [{ ...solo, achievedBy: [userId] }, { ...group, achievedBy: [userId] }],
+        })
+      );
+      const update = jest.spyOn(Challenge, "updateOne").mockResolvedValue({ modifiedCount: 1 } as any);
+
+      const result = await updateProgressService(userId.toString(), id().toString(), 2);
+
+      expect(result.milestones.map((m) => m.completed)).toEqual([true, false]);
+      expect(update).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.anything(),
+        { arrayFilters: [{ "m._id": solo._id, "m.completed": false }] }
+      );
+    });
+
+    it("leaves completion to whichever request marked it first", async () => {
+      const solo = milestone();
+      jest.spyOn(Challenge, "findOneAndUpdate").mockResolvedValue(
+        challenge({ participants: [{ user: userId, progress: 10 }], milestones: [solo] })
+      );
+      jest.spyOn(Challenge, "findById").mockResolvedValue(challenge({ milestones: [{ ...solo, achievedBy: [userId] }] }));
+      jest.spyOn(Challenge, "updateOne").mockResolvedValue({ modifiedCount: 0 } as any);
+
+      const result = await updateProgressService(userId.toString(), id().toString(), 10);
+
+      expect(result.milestones[0].completed).toBe(false);
+    });
+  });
+
+  describe("standings and winners", () => {
+    it("ranks teams by average or total progress, sharing ranks on ties", () => {
+      const participants = [member(alpha, 10), member(beta, 4), member(beta, 6), member(gamma, 2)];
+      const average = getTeamStandings(challenge({ teams: [gamma, beta, alpha], participants }));
+      expect(average.map((s) => [s.team.name, s.score, s.rank])).toEqual([
+        ["Alpha", 10, 1],
+        ["Beta", 5, 2],
+        ["Gamma", 2, 3],
+      ]);
+
+      const sum = getTeamStandings(
+        challenge({ teams: [gamma, beta, alpha], participants, teamSettings: { mode: "auto", maxTeamSize: null, scoring: "sum" } })
+      );
+      expect(sum.map((s) => [s.team.name, s.rank])).toEqual([
+        ["Alpha", 1],
+        ["Beta", 1],
+        ["Gamma", 3],
+      ]);
+    });
+
+    it("awards tied top individuals and every member of tied top teams", async () => {
+      const topA = member(alpha, 8);
+      const topB = member(beta, 8);
+      const teammate = member(beta, 0);
+      const loser = member(gamma, 3);
+      jest.spyOn(Challenge, "findOne").mockResolvedValue(
+        challenge({
+          progressTracking: "both",
+          teams: [alpha, beta, gamma],
+          teamSettings: { mode: "auto", maxTeamSize: null, scoring: "sum" },
+          participants: [topA, topB, teammate, loser],
+        })
+      );
+      const finalize = jest.spyOn(Challenge, "findOneAndUpdate").mockResolvedValue(null);
+
+      expect(await finalizeChallengeService(id())).toBe(false);
+
+      const { awards, rewardsPaidAt } = (finalize.mock.calls[0][1] as any).$set;
+      expect(rewardsPaidAt).toBeNull();
+      expect(awards.map((a: any) => [a.user, a.team])).toEqual([
+        [topA.user, alpha._id],
+        [topB.user, beta._id],
+        [teammate.user, beta._id],
+      ]);
+    });
+  });
+
+  describe("payouts", () => {
+    let dispatch: jest.SpyInstance;
+    const completed = (): any =>
+      challenge({
+        status: "completed",
+        rewardsPaidAt: null,
+        awards: [{ user: id(), rewardType: "badge", rewardValue: "Trailblazer", team: null }],
+      });
+    const findUnpaid = (docs: any[]): void => {
+      jest
+        .spyOn(Challenge, "find")
+        .mockReturnValueOnce({
+          select: jest.fn().mockReturnValue({ sort: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue([]) }) }),
+        } as any)
+        .mockReturnValueOnce({ sort: jest.fn().mockResolvedValue(docs) } as any);
+    };
+
+    beforeEach(() => {
+      dispatch = jest.spyOn(NotificationDispatcher, "dispatch").mockResolvedValue({} as any);
+    });
+
+    it("retries payouts that failed and notifies winners once they go through", async () => {
+      const pay = jest
+        .spyOn(rewardUtils, "rewardChallengeCompletion")
+        .mockRejectedValueOnce(new Error("ledger down"))
+        .mockResolvedValue(undefined);
+      const markPaid = jest.spyOn(Challenge, "updateOne").mockResolvedValue({ modifiedCount: 1 } as any);
+      const doc = completed();
+
+      findUnpaid([doc]);
+      await finalizeDueChallengesService();
+      expect(markPaid).not.toHaveBeenCalled();
+      expect(dispatch).not.toHaveBeenCalled();
+
+      findUnpaid([doc]);
+      await finalizeDueChallengesService();
+      expect(pay).toHaveBeenCalledTimes(2);
+      expect(markPaid).toHaveBeenCalledWith(
+        { _id: doc._id, rewardsPaidAt: { $type: "null" } },
+        { $set: { rewardsPaidAt: expect.any(Date) } }
+      );
+      expect(dispatch).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't notify winners again when another run already marked the payout", async () => {
+      jest.spyOn(rewardUtils, "rewardChallengeCompletion").mockResolvedValue(undefined);
+      jest.spyOn(Challenge, "updateOne").mockResolvedValue({ modifiedCount: 0 } as any);
+
+      findUnpaid([completed()]);
+      await finalizeDueChallengesService();
+
+      expect(dispatch).not.toHaveBeenCalled();
+    });
+  });
+});
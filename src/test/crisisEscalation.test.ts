@@ -0,0 +1,125 @@
+import { Types } from "mongoose";
+import CrisisEscalation from "../api/models/CrisisEscalation";
+import CrisisEscalationService, {
+  issueSessionToken,
+  newSessionId,
+  sessionKey,
+  sessionRoom,
+  sessionSecret,
+  verifySessionToken,
+} from "../api/services/CrisisEscalationService";
+
+const secretEnv = {
+  ANONYMOUS_SESSION_SECRET: process.env.ANONYMOUS_SESSION_SECRET,
+  ACCESS_TOKEN_SECRET: process.env.ACCESS_TOKEN_SECRET,
+};
+
+beforeEach(() => {
+  process.env.ANONYMOUS_SESSION_SECRET = "test-session-secret";
+});
+
+afterAll(() => {
+  for (const [name, value] of Object.entries(secretEnv)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+});
+
+describe("anonymous session secret", () => {
+  it("falls back to the access token secret", () => {
+    delete process.env.ANONYMOUS_SESSION_SECRET;
+    process.env.ACCESS_TOKEN_SECRET = "access-secret";
+    expect(sessionSecret()).toBe("access-secret");
+  });
+
+  it("refuses to run without either secret", () => {
+    delete process.env.ANONYMOUS_SESSION_SECRET;
+    delete process.env.ACCESS_TOKEN_SECRET;
+    expect(() => sessionSecret()).toThrow(/ANONYMOUS_SESSION_SECRET/);
+  });
+});
+
+describe("anonymous session tokens", () => {
+  it("issues random session IDs", () => {
+    const id = newSessionId();
+    expect(id).toMatch(/^anon_[0-9a-f]{32}$/);
+    expect(newSessionId()).not.toBe(id);
+  });
+
+  it("round-trips a token the server issued", () => {
+    const id = newSessionId();
+    expect(verifySessionToken(issueSessionToken(id))).toBe(id);
+  });
+
+  it("rejects forged, tampered and malformed tokens", () => {
+    const id = newSessionId();
+    const token = issueSessionToken(id);
+    const [, signature] = token.split(".");
+
+    expect(verifySessionToken(`${newSessionId()}.${signature}`)).toBeNull();
+    expect(verifySessionToken(`${token.slice(0, -1)}${token.endsWith("0") ? "1" : "0"}`)).toBeNull();
+    expect(verifySessionToken(id)).toBeNull();
+    expect(verifySessionToken(`${id}.abc`)).toBeNull();
+    expect(verifySessionToken(undefined)).toBeNull();
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const token = issueSessionToken(newSessionId());
+    process.env.ANONYMOUS_SESSION_SECRET = "rotated";
+    expect(verifySessionToken(token)).toBeNull();
+  });
+
+  it("keys rooms by a keyed hash, never the raw session ID", () => {
+    const id = newSessionId();
+    expect(sessionKey(id)).toMatch(/^[0-9a-f]{64}$/);
+    expect(sessionRoom(id)).toBe(`session:${sessionKey(id)}`);
+    expect(sessionRoom(id)).not.toContain(id);
+  });
+});
+
+describe("CrisisEscalationService.escalate", () => {
+  const input = { room: "general", sessionId: "anon_1", text: "rough week", matchedKeywords: ["hopeless"] };
+  let create: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2024-03-10T12:00:00Z"), doNotFake: ["nextTick", "setImmediate"] });
+    create = jest.spyOn(CrisisEscalation, "create").mockImplementation((async (doc: object) => ({
+      _id: new Types.ObjectId(),
+      ...doc,
+    })) as never);
+    jest.spyOn(CrisisEscalationService, "crisisResources").mockResolvedValue([]);
+    jest.spyOn(CrisisEscalationService as any, "notifyModerators").mockResolvedValue(2);
+    jest.spyOn(CrisisEscalationService as any, "record").mockResolvedValue(undefined);
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("gives general distress the high-severity SLA", async () => {
+    await CrisisEscalationService.escalate(input);
+    expect(create.mock.calls[0][0]).toMatchObject({
+      severity: "high",
+      ackDueAt: new Date("2024-03-10T12:15:00Z"),
+      resolveDueAt: new Date("2024-03-10T16:00:00Z"),
+    });
+  });
+
+  it("treats immediate-risk phrases as critical", async () => {
+    await CrisisEscalationService.escalate({ ...input, matchedKeywords: ["hopeless", "want to die"] });
+    expect(create.mock.calls[0][0]).toMatchObject({
+      severity: "critical",
+      ackDueAt: new Date("2024-03-10T12:05:00Z"),
+      resolveDueAt: new Date("2024-03-10T13:00:00Z"),
+    });
+  });
+
+  it("stores the session's keyed hash and a bounded excerpt", async () => {
+    await CrisisEscalationService.escalate({ ...input, text: "x".repeat(800), messageId: "not-an-id" });
+    const doc = create.mock.calls[0][0];
+    expect(doc.sessionKey).toBe(sessionKey("anon_1"));
+    expect(JSON.stringify(doc)).not.toContain("anon_1");
+    expect(doc.excerpt).toHaveLength(500);
+    expect(doc.message).toBeUndefined();
+  });
+});
@@ -1,5 +1,16 @@
-
-
+import { Types } from "mongoose";
+import Goal from "../api/models/Goal";
+import GoalGraphService from "../api/services/GoalGraphService";
+import GoalManagementService from "../api/services/GoalManagementService";
+import { computeHabitStats, habitPeriodForDay } from "../api/utils/habitUtils";
+import type { MeasurementPoint } from "../api/utils/measurementUtils";
+import {
+  currentValue,
+  dailySeries,
+  progressPercent,
+  projectTarget,
+  slopePerDay,
+} from "../api/utils/measurementUtils";
 
 describe("goal routes", () => {
   it("smoke test runs", () => {
@@ -12,3 +23,197 @@ describe("goal routes", () => {
   });
 });
 
+describe("habit periods", () => {
+  it("keys daily, weekly and monthly periods by their local days", () => {
+    expect(habitPeriodForDay("daily", "2024-03-10")).toEqual({ key: "2024-03-10", startDay: "2024-03-10", endDay: "2024-03-11" });
+    expect(habitPeriodForDay("weekly", "2024-03-10")).toEqual({ key: "2024-W10", startDay: "2024-03-04", endDay: "2024-03-11" });
+    expect(habitPeriodForDay("monthly", "2024-02-29")).toEqual({ key: "2024-02", startDay: "2024-02-01", endDay: "2024-03-01" });
+  });
+});
+
+describe("computeHabitStats", () => {
+  const counts = (entries: Record<string, number>): Map<string, number> => new Map(Object.entries(entries));
+
+  it("sums logs per period and scores them against the target", () => {
+    const stats = computeHabitStats(
+      "weekly",
+      3,
+      counts({ "2024-03-04": 2, "2024-03-06": 1, "2024-03-12": 2, "2024-03-18": 1, "2024-03-20": 2 }),
+      "2024-03-04",
+      "2024-03-20"
+    );
+    expect(stats.history.map((p) => [p.period, p.count, p.completed])).toEqual([
+      ["2024-W10", 3, true],
+      ["2024-W11", 2, false],
+      ["2024-W12", 3, true],
+    ]);
+    expect(stats.history[1].rate).toBeCloseTo(2 / 3);
+    expect(stats.currentStreak).toBe(1);
+    expect(stats.longestStreak).toBe(1);
+    expect(stats.completionRate).toBe(0.667);
+  });
+
+  it("doesn't let the period in progress break the streak or the rate", () => {
+    const stats = computeHabitStats(
+      "daily",
+      1,
+      counts({ "2024-03-08": 1, "2024-03-09": 2 }),
+      "2024-03-07",
+      "2024-03-10"
+    );
+    expect(stats.current).toMatchObject({ period: "2024-03-10", count: 0, current: true, completed: false });
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.longestStreak).toBe(2);
+    expect(stats.periodsTracked).toBe(3);
+    expect(stats.completionRate).toBe(0.667);
+  });
+
+  it("caps the history it returns", () => {
+    const stats = computeHabitStats("daily", 1, counts({}), "2024-01-01", "2024-03-10", 5);
+    expect(stats.history).toHaveLength(5);
+    expect(stats.history[4].period).toBe("2024-03-10");
+    expect(stats.periodsTracked).toBe(69);
+    expect(stats.completionRate).toBe(0);
+  });
+});
+
+describe("measurement math", () => {
+  const at = (iso: string, value: number): MeasurementPoint => ({ at: new Date(iso), value });
+
+  it("sums cumulative entries and keeps only the latest reading", () => {
+    const points = [at("2024-03-01T10:00:00Z", 5.1), at("2024-03-02T10:00:00Z", 4.2)];
+    expect(currentValue("sum", 0, points)).toBe(9.3);
+    expect(currentValue("latest", 90, points)).toBe(4.2);
+    expect(currentValue("latest", 90, [])).toBe(90);
+  });
+
+  it("measures progress from zero for sums and from the start for readings", () => {
+    expect(progressPercent("sum", 0, 100, 25)).toBe(25);
+    expect(progressPercent("latest", 90, 80, 85)).toBe(50);
+    expect(progressPercent("latest", 90, 80, 95)).toBe(0);
+    expect(progressPercent("latest", 80, 80, 80)).toBe(100);
+  });
+
+  it("builds a daily series in the user's timezone, carrying earlier entries in", () => {
+    const points = [
+      at("2024-02-28T12:00:00Z", 3),
+      at("2024-03-02T03:00:00Z", 2), // still 1 March in New York
+      at("2024-03-03T15:00:00Z", 4),
+    ];
+    expect(dailySeries("sum", 0, points, "2024-03-01", "2024-03-03", "America/New_York")).toEqual([
+      { day: "2024-03-01", value: 5 },
+      { day: "2024-03-02", value: 5 },
+      { day: "2024-03-03", value: 9 },
+    ]);
+  });
+
+  it("fits a least-squares slope", () => {
+    const series = [0, 2, 4, 6].map((value, i) => ({ day: `2024-03-0${i + 1}`, value }));
+    expect(slopePerDay(series)).toBe(2);
+    expect(slopePerDay(series.slice(0, 1))).toBe(0);
+  });
+
+  it("projects whether the trend reaches the target by the due date", () => {
+    const now = new Date("2024-03-01T00:00:00Z");
+    const dueDate = new Date("2024-03-11T00:00:00Z");
+
+    expect(projectTarget({ current: 40, target: 100, ratePerDay: 5, dueDate, now })).toMatchObject({
+      remaining: 60,
+      daysLeft: 10,
+      requiredRatePerDay: 6,
+      projectedValue: 90,
+      onTrack: false,
+      estimatedCompletion: new Date("2024-03-13T00:00:00Z"),
+    });
+    expect(projectTarget({ current: 85, target: 80, ratePerDay: -1, dueDate, now }).onTrack).toBe(true);
+  });
+
+  it("never estimates completion for a trend heading away from the target", () => {
+    const projection = projectTarget({ current: 85, target: 80, ratePerDay: 0.5, now: new Date() });
+    expect(projection.estimatedCompletion).toBeNull();
+    expect(projection.onTrack).toBe(false);
+  });
+});
+
+describe("GoalGraphService", () => {
+  const userId = new Types.ObjectId().toString();
+  let goals: Map<string, any>;
+
+  const goal = (fields: Record<string, unknown> = {}): any => {
+    const doc = { _id: new Types.ObjectId(), user: userId, type: "one-off", parent: null, blockedBy: [], save: jest.fn(), ...fields };
+    goals.set(doc._id.toString(), doc);
+    return doc;
+  };
+  const matches = (doc: any, filter: any): boolean =>
+    filter._id
+      ? filter._id.$in.some((id: Types.ObjectId) => id.equals(doc._id))
+      : filter.parent.$in.some((id: Types.ObjectId) => doc.parent?.equals(id));
+
+  beforeEach(() => {
+    goals = new Map();
+    // findById is awaited directly and through select().lean(); find only the latter
+    const query = (result: unknown): any => {
+      const lean = jest.fn().mockResolvedValue(result);
+      return Object.assign(Promise.resolve(result), { select: jest.fn().mockReturnValue({ lean }) });
+    };
+    jest.spyOn(Goal, "findById").mockImplementation(((id: unknown) => query(goals.get(String(id)) ?? null)) as never);
+    jest.spyOn(Goal, "find").mockImplementation(((filter: unknown) =>
+      query([...goals.values()].filter((g) => matches(g, filter)))) as never);
+    jest.spyOn(GoalManagementService, "rollUp").mockResolvedValue(undefined as never);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it("refuses a dependency that closes a cycle", async () => {
+    const a = goal();
+    const b = goal();
+    const c = goal({ blockedBy: [a._id] });
+    b.blockedBy.push(c._id);
+
+    await expect(GoalGraphService.addDependency(userId, a._id.toString(), b._id.toString())).rejects.toMatchObject({
+      statusCode: 409,
+      message: "This dependency would create a cycle",
+    });
+    expect(a.save).not.toHaveBeenCalled();
+  });
+
+  it("refuses self-blocks and waits on a parent goal", async () => {
+    const parent = goal();
+    const child = goal({ parent: parent._id });
+
+    await expect(GoalGraphService.addDependency(userId, child._id.toString(), child._id.toString())).rejects.toMatchObject({ statusCode: 400 });
+    await expect(GoalGraphService.addDependency(userId, child._id.toString(), parent._id.toString())).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it("adds a dependency between unrelated goals once", async () => {
+    const a = goal();
+    const b = goal();
+
+    await GoalGraphService.addDependency(userId, a._id.toString(), b._id.toString());
+    await GoalGraphService.addDependency(userId, a._id.toString(), b._id.toString());
+    expect(a.blockedBy).toEqual([b._id]);
+    expect(a.save).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses to nest a goal under its own sub-goal", async () => {
+    const top = goal();
+    const middle = goal({ parent: top._id });
+
+    await expect(GoalGraphService.setParent(userId, top._id.toString(), middle._id.toString())).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it("limits nesting to five levels and re-rolls both parents on a move", async () => {
+    let parent = goal();
+    for (let i = 0; i < 4; i++) parent = goal({ parent: parent._id });
+    const loose = goal();
+    goal({ parent: loose._id });
+    await expect(GoalGraphService.setParent(userId, loose._id.toString(), parent._id.toString())).rejects.toMatchObject({ statusCode: 400 });
+
+    const oldParent = goal();
+    const newParent = goal();
+    const moved = goal({ parent: oldParent._id });
+    await GoalGraphService.setParent(userId, moved._id.toString(), newParent._id.toString());
+    expect(moved.parent).toEqual(newParent._id);
+    expect(GoalManagementService.rollUp).toHaveBeenCalledWith(oldParent._id);
+    expect(GoalManagementService.rollUp).toHaveBeenCalledWith(newParent._id);
+  });
+});
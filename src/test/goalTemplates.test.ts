@@ -0,0 +1,94 @@
+import { Types } from "mongoose";
+import Goal from "../api/models/Goal";
+import GoalTemplate from "../api/models/GoalTemplate";
+import { User } from "../api/models/User";
+import GoalManagementService from "../api/services/GoalManagementService";
+import GoalTemplateService from "../api/services/GoalTemplateService";
+import * as ReminderService from "../api/services/ReminderService";
+
+describe("GoalTemplateService.instantiate", () => {
+  const userId = new Types.ObjectId().toString();
+  const goalId = new Types.ObjectId();
+  const template = {
+    _id: new Types.ObjectId(),
+    title: "Couch to 5k",
+    category: "fitness",
+    tags: ["running"],
+    priority: "medium",
+    durationDays: 30,
+    milestones: [{ title: "First 2k", offsetDays: 7 }],
+    reminders: [{ message: "Run", offsetDays: 0, time: "07:30", recurrence: "daily", interval: 1 }],
+  };
+
+  let createGoal: jest.SpyInstance;
+  let createReminder: jest.SpyInstance;
+
+  beforeEach(() => {
+    // 11:00 in New York on the day clocks went forward
+    jest.useFakeTimers({ now: new Date("2024-03-10T15:00:00Z"), doNotFake: ["nextTick", "setImmediate"] });
+    jest.spyOn(GoalTemplateService, "getTemplate").mockResolvedValue(template as any);
+    const lean = jest.fn().mockResolvedValue({ location: { timezone: "America/New_York" } });
+    jest.spyOn(User, "findById").mockReturnValue({ select: jest.fn().mockReturnValue({ lean }) } as any);
+    createGoal = jest
+      .spyOn(GoalManagementService, "createGoal")
+      .mockResolvedValue({ _id: goalId, dueDate: new Date("2024-04-10T03:59:00Z") } as any);
+    createReminder = jest.spyOn(ReminderService, "createReminder").mockResolvedValue({} as any);
+    jest.spyOn(GoalTemplate, "updateOne").mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("places the due date and milestones at the end of their local day", async () => {
+    await GoalTemplateService.instantiate(template._id.toString(), userId);
+
+    const [, data] = createGoal.mock.calls[0];
+    expect(data.deadline).toEqual(new Date("2024-04-10T03:59:00Z"));
+    expect(data.milestones).toEqual([{ title: "First 2k", deadline: new Date("2024-03-18T03:59:00Z") }]);
+    expect(data.template).toBe(template._id.toString());
+  });
+
+  it("moves a first reminder already past today to tomorrow, ending with the goal", async () => {
+    await GoalTemplateService.instantiate(template._id.toString(), userId);
+
+    expect(createReminder.mock.calls[0][1]).toMatchObject({
+      message: "Run",
+      remindAt: new Date("2024-03-11T11:30:00Z"),
+      goalId: goalId.toString(),
+      endRepeat: new Date("2024-04-10T03:59:00Z"),
+    });
+    expect(GoalTemplate.updateOne).toHaveBeenCalledWith(
+      { _id: template._id },
+      expect.objectContaining({ $inc: { usageCount: 1 } })
+    );
+  });
+
+  it("refuses a start date in the past", async () => {
+    await expect(
+      GoalTemplateService.instantiate(template._id.toString(), userId, { startDate: new Date("2024-03-09T00:00:00Z") })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(createGoal).not.toHaveBeenCalled();
+  });
+
+  it("removes the goal and its reminders when a reminder can't be created", async () => {
+    createReminder.mockRejectedValue(new Error("boom"));
+    const deleteReminders = jest.spyOn(ReminderService, "deleteGoalReminders").mockResolvedValue(0);
+    const deleteGoal = jest.spyOn(Goal, "deleteOne").mockResolvedValue({} as any);
+
+    await expect(GoalTemplateService.instantiate(template._id.toString(), userId)).rejects.toThrow("boom");
+    expect(deleteReminders).toHaveBeenCalledWith(goalId.toString());
+    expect(deleteGoal).toHaveBeenCalledWith({ _id: goalId });
+    expect(GoalTemplate.updateOne).not.toHaveBeenCalled();
+  });
+});
+
+describe("GoalTemplateService.getTemplate", () => {
+  it("rejects malformed ids before querying", async () => {
+    const findOne = jest.spyOn(GoalTemplate, "findOne");
+    await expect(GoalTemplateService.getTemplate("nope", "u1")).rejects.toMatchObject({ statusCode: 400 });
+    expect(findOne).not.toHaveBeenCalled();
+    findOne.mockRestore();
+  });
+});
@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import dns from "dns";
+import {
+  WebhookAddressError,
+  allowPrivateWebhookTargets,
+  generateWebhookSecret,
+  isPrivateAddress,
+  publicOnlyLookup,
+  signWebhookPayload,
+  webhookUrlError,
+} from "../api/utils/webhookUtils";
+
+describe("signWebhookPayload", () => {
+  it("signs '<timestamp>.<body>' with HMAC-SHA256", () => {
+    const expected = crypto.createHmac("sha256", "whsec_test").update('1700000000.{"a":1}').digest("hex");
+    expect(signWebhookPayload("whsec_test", 1700000000, '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+
+  it("changes with the secret, timestamp and body", () => {
+    const base = signWebhookPayload("whsec_test", 1700000000, "{}");
+    expect(signWebhookPayload("whsec_other", 1700000000, "{}")).not.toBe(base);
+    expect(signWebhookPayload("whsec_test", 1700000001, "{}")).not.toBe(base);
+    expect(signWebhookPayload("whsec_test", 1700000000, "{ }")).not.toBe(base);
+  });
+
+  it("generates distinct prefixed secrets", () => {
+    const secret = generateWebhookSecret();
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+});
+
+describe("webhookUrlError", () => {
+  it("rejects invalid URLs and non-http protocols everywhere", () => {
+    expect(webhookUrlError("not a url", false, true)).toMatch(/valid URL/);
+    expect(webhookUrlError("ftp://example.com/hook", false, true)).toMatch(/http or https/);
+  });
+
+  it("allows plain http outside production", () => {
+    expect(webhookUrlError("http://example.com/hook", false, false)).toBeNull();
+  });
+
+  it("refuses local targets in every environment unless explicitly allowed", () => {
+    expect(webhookUrlError("http://localhost:4000/hook", false, false)).toMatch(/publicly reachable/);
+    expect(webhookUrlError("http://localhost:4000/hook", false, true)).toBeNull();
+  });
+
+  it("requires https in production", () => {
+    expect(webhookUrlError("http://example.com/hook", true, false)).toMatch(/https/);
+    expect(webhookUrlError("https://example.com/hook", true, false)).toBeNull();
+  });
+
+  it.each([
+    "https://localhost/hook",
+    "https://api.localhost/hook",
+    "https://127.0.0.1/hook",
+    "https://10.1.2.3/hook",
+    "https://172.20.0.1/hook",
+    "https://192.168.1.10/hook",
+    "https://169.254.169.254/latest/meta-data",
+    "https://100.64.0.1/hook",
+    "https://100.127.255.254/hook",
+    "https://[::1]/hook",
+    "https://[fd00::1]/hook",
+    "https://[::ffff:7f00:1]/hook",
+    "https://[::ffff:169.254.169.254]/hook",
+    "https://2130706433/hook",
+    "https://0x7f.1/hook",
+  ])("refuses the private address %s", (url) => {
+    expect(webhookUrlError(url, true, false)).toMatch(/publicly reachable/);
+    expect(webhookUrlError(url, false, false)).toMatch(/publicly reachable/);
+  });
+});
+
+describe("allowPrivateWebhookTargets", () => {
+  it("only opts out of the private address block for local development", () => {
+    const optOut = { WEBHOOK_ALLOW_PRIVATE_TARGETS: "true" };
+    expect(allowPrivateWebhookTargets({ ...optOut, NODE_ENV: "development" })).toBe(true);
+    expect(allowPrivateWebhookTargets({ ...optOut, NODE_ENV: "test" })).toBe(true);
+    expect(allowPrivateWebhookTargets({ ...optOut, NODE_ENV: "staging" })).toBe(false);
+    expect(allowPrivateWebhookTargets({ ...optOut, NODE_ENV: "production" })).toBe(false);
+    expect(allowPrivateWebhookTargets(optOut)).toBe(false);
+    expect(allowPrivateWebhookTargets({ NODE_ENV: "development" })).toBe(false);
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("blocks private, loopback, link-local, CGNAT and reserved IPv4", () => {
+    for (const ip of ["0.0.0.0", "10.0.0.1", "100.64.0.1", "127.0.0.1", "169.254.169.254", "172.31.255.255", "192.168.0.1", "224.0.0.1", "255.255.255.255"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+  });
+
+  it("checks IPv4 embedded in IPv6 against the IPv4 rules", () => {
+    expect(isPrivateAddress("::ffff:7f00:1")).toBe(true);
+    expect(isPrivateAddress("::ffff:10.0.0.1")).toBe(true);
+    expect(isPrivateAddress("64:ff9b::a9fe:a9fe")).toBe(true);
+    expect(isPrivateAddress("::ffff:8.8.8.8")).toBe(false);
+  });
+
+  it("blocks loopback, unique-local and link-local IPv6", () => {
+    for (const ip of ["::1", "::", "fc00::1", "fd12:3456::1", "fe80::1%eth0", "[::1]"]) {
+      expect(isPrivateAddress(ip)).toBe(true);
+    }
+  });
+
+  it("lets public addresses through", () => {
+    for (const ip of ["8.8.8.8", "100.128.0.1", "172.32.0.1", "2606:4700::1111"]) {
+      expect(isPrivateAddress(ip)).toBe(false);
+    }
+  });
+});
+
+describe("publicOnlyLookup", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const resolveTo = (...addresses: string[]): void => {
+    jest.spyOn(dns, "lookup").mockImplementation(((_host: string, _opts: unknown, cb: (...args: unknown[]) => void) =>
+      cb(null, addresses.map((address) => ({ address, family: address.includes(":") ? 6 : 4 })))) as never);
+  };
+
+  const lookup = (all: boolean): Promise<{ err: Error | null; address: unknown; family?: number }> =>
+    new Promise((resolve) => publicOnlyLookup("hooks.example.com", { all }, (err, address, family) => resolve({ err, address, family })));
+
+  it("fails when the host resolves to a private address", async () => {
+    resolveTo("93.184.216.34", "169.254.169.254");
+    const { err } = await lookup(false);
+    expect(err).toBeInstanceOf(WebhookAddressError);
+  });
+
+  it("returns the checked address in the shape the caller asked for", async () => {
+    resolveTo("93.184.216.34");
+    await expect(lookup(false)).resolves.toEqual({ err: null, address: "93.184.216.34", family: 4 });
+    await expect(lookup(true)).resolves.toMatchObject({ err: null, address: [{ address: "93.184.216.34", family: 4 }] });
+  });
+});
@@ -1,3 +1,7 @@
+import type { Redis } from "ioredis";
+import { FallbackRankingStore, MemoryRankingStore } from "../api/utils/rankingStore";
+import { getPreviousPeriod, getSeasonPeriod, isPeriodKey } from "../api/utils/seasonUtils";
+
 describe("leaderboard routes", () => {
   it("smoke test runs", () => {
     expect(true).toBe(true);
@@ -9,3 +13,93 @@ describe("leaderboard routes", () => {
     // TODO: add more assertions here
   });
 });
+
+describe("season periods", () => {
+  it("labels weeks by ISO week-year", () => {
+    expect(getSeasonPeriod("weekly", new Date("2026-01-01T12:00:00Z"))).toEqual({
+      season: "weekly",
+      key: "2026-W01",
+      startsAt: new Date("2025-12-29T00:00:00Z"),
+      endsAt: new Date("2026-01-05T00:00:00Z"),
+    });
+    expect(getSeasonPeriod("weekly", new Date("2021-01-03T23:59:59Z")).key).toBe("2020-W53");
+    expect(getSeasonPeriod("weekly", new Date("2024-12-30T00:00:00Z")).key).toBe("2025-W01");
+  });
+
+  it("runs months from the 1st in UTC", () => {
+    expect(getSeasonPeriod("monthly", new Date("2024-02-29T23:00:00Z"))).toEqual({
+      season: "monthly",
+      key: "2024-02",
+      startsAt: new Date("2024-02-01T00:00:00Z"),
+      endsAt: new Date("2024-03-01T00:00:00Z"),
+    });
+    expect(getSeasonPeriod("alltime")).toEqual({ season: "alltime", key: "alltime", startsAt: null, endsAt: null });
+  });
+
+  it("finds the previous period across year boundaries", () => {
+    expect(getPreviousPeriod("monthly", new Date("2024-01-10T00:00:00Z")).key).toBe("2023-12");
+    expect(getPreviousPeriod("weekly", new Date("2026-01-01T00:00:00Z")).key).toBe("2025-W52");
+  });
+
+  it("validates period keys per season", () => {
+    expect(isPeriodKey("weekly", "2026-W53")).toBe(true);
+    expect(isPeriodKey("weekly", "2026-W54")).toBe(false);
+    expect(isPeriodKey("monthly", "2026-13")).toBe(false);
+    expect(isPeriodKey("alltime", "alltime")).toBe(true);
+  });
+});
+
+describe("MemoryRankingStore", () => {
+  afterEach(() => jest.useRealTimers());
+
+  it("uses competition ranking for ties", async () => {
+    const store = new MemoryRankingStore();
+    await store.replace("lb", [
+      { member: "a", score: 50 },
+      { member: "b", score: 80 },
+      { member: "c", score: 50 },
+      { member: "d", score: 10 },
+    ]);
+    expect(await store.top("lb", 0, 3)).toEqual([
+      { member: "b", score: 80 },
+      { member: "a", score: 50 },
+      { member: "c", score: 50 },
+    ]);
+    expect(await store.rankOf("lb", "c")).toEqual({ rank: 2, score: 50 });
+    expect(await store.rankOf("lb", "d")).toEqual({ rank: 4, score: 10 });
+    expect(await store.rankOf("lb", "zzz")).toBeNull();
+  });
+
+  it("only updates boards that have been built", async () => {
+    const store = new MemoryRankingStore();
+    await store.incrBy("lb", "a", 5);
+    expect(await store.isBuilt("lb")).toBe(false);
+
+    await store.replace("lb", []);
+    expect(await store.isBuilt("lb")).toBe(true);
+    await store.incrBy("lb", "a", 5);
+    await store.incrBy("lb", "a", 3);
+    expect(await store.scoresOf("lb", ["a", "b"])).toEqual([8, null]);
+  });
+
+  it("drops boards once their TTL passes", async () => {
+    jest.useFakeTimers({ now: new Date("2024-03-10T00:00:00Z") });
+    const store = new MemoryRankingStore();
+    await store.replace("lb", [{ member: "a", score: 1 }], 60);
+    jest.setSystemTime(new Date("2024-03-10T00:01:00Z"));
+    expect(await store.isBuilt("lb")).toBe(false);
+    expect(await store.size("lb")).toBe(0);
+  });
+});
+
+describe("FallbackRankingStore", () => {
+  it("switches to memory for good once Redis fails", async () => {
+    const exists = jest.fn().mockRejectedValue(new Error("connection lost"));
+    const store = new FallbackRankingStore({ exists } as unknown as Redis);
+
+    expect(await store.isBuilt("lb")).toBe(false);
+    await store.replace("lb", [{ member: "a", score: 3 }]);
+    expect(await store.top("lb", 0, 10)).toEqual([{ member: "a", score: 3 }]);
+    expect(exists).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,5 +1,14 @@
-
-
+import { Types } from "mongoose";
+import { Match } from "../api/models/Match";
+import MatchService from "../api/services/MatchService";
+import type { MatchProfile } from "../api/utils/matchingUtils";
+import {
+  activityLevel,
+  overlap,
+  scoreCompatibility,
+  utcOffsetHours,
+  wakingHoursOverlap,
+} from "../api/utils/matchingUtils";
 
 describe("matches routes", () => {
   it("smoke test runs", () => {
@@ -12,3 +21,91 @@ describe("matches routes", () => {
   });
 });
 
+
+describe("partner matching scores", () => {
+  const now = new Date("2024-01-15T12:00:00Z");
+  const profile = (overrides: Partial<MatchProfile> = {}): MatchProfile => ({
+    interests: ["Running", "reading"],
+    goalCategories: ["fitness"],
+    timezone: "America/New_York",
+    tier: "basic",
+    lastCheckIn: now,
+    streakCount: 30,
+    ...overrides,
+  });
+
+  it("measures overlap case-insensitively as a Jaccard index", () => {
+    expect(overlap(["Running", " reading "], ["running", "chess"])).toEqual({ score: 1 / 3, shared: ["running"] });
+    expect(overlap([], [])).toEqual({ score: 0, shared: [] });
+  });
+
+  it("uses the offset in effect at the given time", () => {
+    expect(utcOffsetHours("America/New_York", now)).toBe(-5);
+    expect(utcOffsetHours("America/New_York", new Date("2024-07-15T12:00:00Z"))).toBe(-4);
+    expect(utcOffsetHours("Asia/Kolkata", now)).toBe(5.5);
+  });
+
+  it("wraps timezone differences around the day", () => {
+    expect(wakingHoursOverlap("America/New_York", "America/New_York", now)).toBe(16);
+    expect(wakingHoursOverlap("America/New_York", "Asia/Tokyo", now)).toBe(6);
+    expect(wakingHoursOverlap("Pacific/Kiritimati", "Pacific/Pago_Pago", now)).toBe(15);
+  });
+
+  it("rates activity by check-in recency and streak length", () => {
+    expect(activityLevel(profile(), now)).toBe(1);
+    expect(activityLevel(profile({ lastCheckIn: null }), now)).toBe(0);
+    expect(activityLevel(profile({ lastCheckIn: new Date("2024-01-10T12:00:00Z"), streakCount: 0 }), now)).toBeCloseTo(0.28);
+  });
+
+  it("gives identical active profiles a full score", () => {
+    const { total, factors } = scoreCompatibility(profile(), profile(), now);
+    expect(total).toBe(100);
+    expect(factors.map((f) => f.factor)).toEqual(["interests", "goals", "timezone", "activity", "tier"]);
+    expect(factors.find((f) => f.factor === "timezone")?.explanation).toBe("Same timezone");
+  });
+
+  it("explains and penalises each mismatch", () => {
+    const candidate = profile({
+      interests: ["chess"],
+      goalCategories: ["career"],
+      timezone: "Asia/Tokyo",
+      tier: "elite",
+      lastCheckIn: null,
+    });
+    const { total, factors } = scoreCompatibility(profile(), candidate, now);
+    const byFactor = Object.fromEntries(factors.map((f) => [f.factor, f]));
+
+    expect(byFactor.interests.explanation).toBe("No shared interests");
+    expect(byFactor.timezone.explanation).toBe("About 6h of overlapping waking hours");
+    expect(byFactor.activity.explanation).toBe("Candidate is inactive");
+    expect(byFactor.tier.score).toBe(0);
+    expect(total).toBeLessThan(20);
+  });
+});
+
+describe("MatchService participant scoping", () => {
+  const matchId = new Types.ObjectId().toString();
+  const userId = new Types.ObjectId().toString();
+  const scoped = { _id: matchId, $or: [{ user1: userId }, { user2: userId }] };
+  afterEach(() => jest.restoreAllMocks());
+
+  it("only reads, updates and deletes matches the caller takes part in", async () => {
+    const populate = jest.fn().mockResolvedValue(null);
+    const findOne = jest.spyOn(Match, "findOne").mockReturnValue({ populate } as any);
+    const update = jest.spyOn(Match, "findOneAndUpdate").mockResolvedValue(null);
+    const remove = jest.spyOn(Match, "findOneAndDelete").mockResolvedValue(null);
+
+    await expect(MatchService.getMatchById(matchId, userId)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(MatchService.updateMatchStatus(matchId, userId, "completed")).rejects.toMatchObject({ statusCode: 404 });
+    await expect(MatchService.deleteMatch(matchId, userId)).rejects.toMatchObject({ statusCode: 404 });
+    expect(findOne).toHaveBeenCalledWith(scoped);
+    expect(update.mock.calls[0][0]).toEqual(scoped);
+    expect(remove).toHaveBeenCalledWith(scoped);
+  });
+
+  it("leaves activation to the mutual opt-in", async () => {
+    const update = jest.spyOn(Match, "findOneAndUpdate");
+    await expect(MatchService.updateMatchStatus(matchId, userId, "active")).rejects.toMatchObject({ statusCode: 400 });
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+import { Types } from "mongoose";
+import ModerationService from "../api/services/ModerationService";
+import {
+  baseLocale,
+  buildTermPattern,
+  findTerms,
+  maskTerms,
+  normalizeTerm,
+  strictestAction,
+} from "../api/utils/moderationUtils";
+
+describe("moderation term matching", () => {
+  it("normalizes list terms", () => {
+    expect(normalizeTerm("  Bad   WORD ")).toBe("bad word");
+  });
+
+  it("matches whole words case-insensitively, including accented text", () => {
+    const pattern = buildTermPattern(["spam", "idiot", "café"]);
+    expect(findTerms("SPAM! you Idiot", pattern)).toEqual(["spam", "idiot"]);
+    expect(findTerms("spammer idiotic", pattern)).toEqual([]);
+    expect(findTerms("Café crème", pattern)).toEqual(["café"]);
+    expect(findTerms("décafé", pattern)).toEqual([]);
+  });
+
+  it("prefers phrases over the words they contain and allows any spacing", () => {
+    const pattern = buildTermPattern(["kill", "kill yourself"]);
+    expect(findTerms("just KILL   yourself", pattern)).toEqual(["kill yourself"]);
+  });
+
+  it("escapes regex characters in terms", () => {
+    const pattern = buildTermPattern(["a.b", "(x)"]);
+    expect(findTerms("axb a.b", pattern)).toEqual(["a.b"]);
+    expect(buildTermPattern([" ", ""])).toBeNull();
+    expect(findTerms("anything", null)).toEqual([]);
+  });
+
+  it("masks every occurrence, keeping spaces and length", () => {
+    expect(maskTerms("Spam and more spam, bad word", ["spam", "bad word"])).toBe("**** and more ****, *** ****");
+    expect(maskTerms("clean", [])).toBe("clean");
+  });
+});
+
+describe("moderation helpers", () => {
+  it("picks the more severe action", () => {
+    expect(strictestAction("mask", "block")).toBe("block");
+    expect(strictestAction("shadow_hide", "flag")).toBe("shadow_hide");
+    expect(strictestAction("allow", "allow")).toBe("allow");
+  });
+
+  it("reduces locales to their language", () => {
+    expect(baseLocale("en-US")).toBe("en");
+    expect(baseLocale("PT_br")).toBe("pt");
+    expect(baseLocale(null)).toBe("en");
+  });
+
+  it("shows shadow-hidden content only to its author", () => {
+    const viewer = new Types.ObjectId().toString();
+    expect(ModerationService.visibleTo(undefined, "senderId")).toEqual({ isHidden: { $ne: true } });
+    expect(ModerationService.visibleTo("not-an-id", "senderId")).toEqual({ isHidden: { $ne: true } });
+    expect(ModerationService.visibleTo(viewer, "senderId")).toEqual({
+      $or: [{ isHidden: { $ne: true } }, { senderId: new Types.ObjectId(viewer) }],
+    });
+  });
+
+  it("strips other people's hidden comments from a loaded post", () => {
+    const me = new Types.ObjectId();
+    const other = new Types.ObjectId();
+    const comments = [
+      { _id: "c1", user: other, isHidden: true },
+      { _id: "c2", user: { _id: me }, isHidden: true },
+      { _id: "c3", user: other, isHidden: false },
+    ];
+    const pull = jest.fn();
+
+    ModerationService.stripHiddenComments({ comments: Object.assign([...comments], { pull }) } as any, me.toString());
+    expect(pull.mock.calls).toEqual([["c1"]]);
+
+    pull.mockClear();
+    ModerationService.stripHiddenComments({ comments: Object.assign([...comments], { pull }) } as any, null);
+    expect(pull.mock.calls).toEqual([["c1"], ["c2"]]);
+  });
+});
@@ -1,5 +1,6 @@
-
-
+import NotificationDispatcher from "../api/services/NotificationDispatcher";
+import type { DigestItem } from "../api/utils/digestTemplate";
+import { escapeHtml, interpolate, renderDigestEmail, resolveLocale } from "../api/utils/digestTemplate";
 
 describe("notifications routes", () => {
   it("smoke test runs", () => {
@@ -12,3 +13,79 @@ describe("notifications routes", () => {
   });
 });
 
+
+describe("NotificationDispatcher.resolveChannels", () => {
+  const userWith = (notifications: Record<string, unknown>): any => ({ settings: { notifications } });
+
+  it("defaults every type on, with email, SMS and push behind their global switch", () => {
+    const matrix = NotificationDispatcher.resolveChannels(userWith({ email: true, sms: false, push: false }), "reminder");
+    expect(matrix).toEqual({ in_app: true, socket: true, email: true, push: false, sms: false });
+  });
+
+  it("applies per-type switches stored as a plain object", () => {
+    const user = userWith({ email: true, push: true, byType: { reminder: { email: false, in_app: false } } });
+    expect(NotificationDispatcher.resolveChannels(user, "reminder")).toMatchObject({ email: false, in_app: false, push: true });
+    expect(NotificationDispatcher.resolveChannels(user, "message")).toMatchObject({ email: true, in_app: true });
+  });
+
+  it("applies per-type switches loaded as a Mongoose map", () => {
+    const user = userWith({ email: true, byType: new Map([["level_up", { socket: false }]]) });
+    expect(NotificationDispatcher.resolveChannels(user, "level_up")).toMatchObject({ socket: false, email: true });
+  });
+
+  it("never turns on a channel whose global switch is off", () => {
+    const user = userWith({ sms: false, byType: { reminder: { sms: true } } });
+    expect(NotificationDispatcher.resolveChannels(user, "reminder").sms).toBe(false);
+  });
+
+  it("lets a channel the user asked for skip its global switch but not a per-type opt-out", () => {
+    const user = userWith({ email: false, sms: false, byType: { reminder: { sms: false } } });
+    const matrix = NotificationDispatcher.resolveChannels(user, "reminder", ["email", "sms"]);
+    expect(matrix).toMatchObject({ email: true, sms: false, push: false });
+  });
+});
+
+describe("digest template", () => {
+  const item = (type: DigestItem["type"], message: string, link?: string): DigestItem =>
+    ({ type, message, link, createdAt: new Date("2024-03-10T08:00:00Z") });
+
+  it("maps language preferences to a bundled locale", () => {
+    expect(resolveLocale("de-AT")).toBe("de");
+    expect(resolveLocale("ja")).toBe("jp");
+    expect(resolveLocale("pt-BR")).toBe("en");
+    expect(resolveLocale(null)).toBe("en");
+  });
+
+  it("fills known placeholders and leaves unknown ones", () => {
+    expect(interpolate("{count} new for {name} {missing}", { count: 3, name: "Sam" })).toBe("3 new for Sam {missing}");
+    expect(escapeHtml('<a href="x">&</a>')).toBe("&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;");
+  });
+
+  it("groups items by type in first-seen order and collapses long groups", () => {
+    const items = [
+      item("reminder", "Drink water"),
+      ...Array.from({ length: 7 }, (_, i) => item("message", `Message ${i + 1}`)),
+      item("reminder", "Stretch"),
+    ];
+    const email = renderDigestEmail({ locale: "en", frequency: "daily", name: "Sam", items });
+
+    expect(email.subject).toBe("Your daily summary: 9 new notifications");
+    expect(email.text.indexOf("Reminders (2)")).toBeLessThan(email.text.indexOf("Messages (7)"));
+    expect(email.text).toContain("Message 5");
+    expect(email.text).not.toContain("Message 6");
+    expect(email.text).toContain("…and 2 more.");
+  });
+
+  it("escapes messages in the HTML part and renders the locale's strings", () => {
+    const email = renderDigestEmail({
+      locale: "de",
+      frequency: "weekly",
+      name: "Sam",
+      items: [item("message", "<b>hi</b>", "/messages/1")],
+    });
+    expect(email.subject).toMatch(/wöchentliche/);
+    expect(email.html).toContain("&lt;b&gt;hi&lt;/b&gt;");
+    expect(email.html).not.toContain("<b>hi</b>");
+    expect(email.html).toContain('href="/messages/1"');
+  });
+});
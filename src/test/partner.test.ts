@@ -1,5 +1,6 @@
-
-
+import { Types } from "mongoose";
+import PartnershipCheckIn from "../api/models/PartnershipCheckIn";
+import PartnershipService from "../api/services/PartnershipService";
 
 describe("partner routes", () => {
   it("smoke test runs", () => {
@@ -12,3 +13,80 @@ describe("partner routes", () => {
   });
 });
 
+
+describe("PartnershipService.isCheckInDay", () => {
+  const agreedAt = new Date("2024-03-01T00:00:00Z");
+
+  it("schedules nothing until both partners agreed", () => {
+    expect(PartnershipService.isCheckInDay(undefined, "2024-03-11")).toBe(false);
+    expect(PartnershipService.isCheckInDay({ frequency: "daily", weekdays: [] } as any, "2024-03-11")).toBe(false);
+  });
+
+  it("schedules every day for daily and the chosen weekdays for weekly", () => {
+    expect(PartnershipService.isCheckInDay({ frequency: "daily", weekdays: [], agreedAt } as any, "2024-03-10")).toBe(true);
+    const weekly = { frequency: "weekly", weekdays: [1, 4], agreedAt } as any;
+    expect(PartnershipService.isCheckInDay(weekly, "2024-03-11")).toBe(true); // Monday
+    expect(PartnershipService.isCheckInDay(weekly, "2024-03-12")).toBe(false);
+  });
+});
+
+describe("PartnershipService.getHealth", () => {
+  const user1 = new Types.ObjectId();
+  const user2 = new Types.ObjectId();
+  const now = new Date("2024-03-10T12:00:00Z");
+
+  const withRecords = (records: { user: Types.ObjectId; dueDay: string; status: string }[]): void => {
+    jest.spyOn(PartnershipService, "getPartnership").mockResolvedValue({
+      _id: new Types.ObjectId(),
+      user1,
+      user2,
+      agreement: { timezone: "UTC" },
+    } as any);
+    const lean = jest.fn().mockResolvedValue([...records].sort((a, b) => b.dueDay.localeCompare(a.dueDay)));
+    const sort = jest.fn().mockReturnValue({ lean });
+    jest.spyOn(PartnershipCheckIn, "find").mockReturnValue({ select: jest.fn().mockReturnValue({ sort }) } as any);
+  };
+  afterEach(() => jest.restoreAllMocks());
+
+  it("reports no data before any check-in was due", async () => {
+    withRecords([]);
+    await expect(PartnershipService.getHealth("p1", user1.toString(), 30, now)).resolves.toMatchObject({
+      score: null,
+      status: "no_data",
+      currentStreak: 0,
+    });
+  });
+
+  it("weighs completion and balance and counts the shared streak", async () => {
+    withRecords([
+      { user: user1, dueDay: "2024-03-10", status: "completed" },
+      { user: user2, dueDay: "2024-03-09", status: "completed" },
+      { user: user1, dueDay: "2024-03-09", status: "completed" },
+      { user: user2, dueDay: "2024-03-08", status: "completed" },
+      { user: user1, dueDay: "2024-03-08", status: "completed" },
+      { user: user2, dueDay: "2024-03-07", status: "missed" },
+      { user: user1, dueDay: "2024-03-07", status: "completed" },
+    ]);
+    const health = await PartnershipService.getHealth("p1", user1.toString(), 30, now);
+
+    // 6 of 7 done; user1 4/4, user2 2/3
+    expect(health.completionRate).toBe(0.86);
+    expect(health.score).toBe(Math.round(100 * (0.75 * (6 / 7) + 0.25 * (1 - 1 / 3))));
+    expect(health.status).toBe("healthy");
+    expect(health.currentStreak).toBe(2);
+    expect(health.partners.map((p) => p.missed)).toEqual([0, 1]);
+  });
+
+  it("flags a partnership where one partner stopped", async () => {
+    withRecords([
+      { user: user1, dueDay: "2024-03-09", status: "completed" },
+      { user: user2, dueDay: "2024-03-09", status: "missed" },
+      { user: user1, dueDay: "2024-03-08", status: "completed" },
+      { user: user2, dueDay: "2024-03-08", status: "missed" },
+    ]);
+    const health = await PartnershipService.getHealth("p1", user1.toString(), 30, now);
+    expect(health.score).toBe(38);
+    expect(health.status).toBe("at_risk");
+    expect(health.currentStreak).toBe(0);
+  });
+});
@@ -1,5 +1,14 @@
-
-
+import type { IReminder } from "../api/models/Reminder";
+import Reminder from "../api/models/Reminder";
+import { User } from "../api/models/User";
+import NotificationDispatcher from "../api/services/NotificationDispatcher";
+import NotificationTriggerService from "../api/services/NotificationTriggerService";
+import { checkReminders } from "../api/services/ReminderService";
+import * as StreakService from "../api/services/StreakService";
+import type { RecurrenceRule } from "../api/utils/recurrenceUtils";
+import { formatRRule, nextOccurrence, parseRRule, zonedTimeToUtc } from "../api/utils/recurrenceUtils";
+import { nextLocalTime } from "../api/utils/timeOfDayUtils";
+import { scheduleDailyReminders } from "../jobs/dailyReminderJob";
 
 describe("reminder routes", () => {
   it("smoke test runs", () => {
@@ -12,3 +21,246 @@ describe("reminder routes", () => {
   });
 });
 
+
+describe("parseRRule", () => {
+  it("parses frequency, interval and weekdays", () => {
+    expect(parseRRule("FREQ=DAILY")).toEqual({ frequency: "daily", interval: 1 });
+    expect(parseRRule("RRULE:freq=weekly;interval=2;byday=mo,we,fr")).toEqual({
+      frequency: "weekly",
+      interval: 2,
+      byWeekday: [1, 3, 5],
+    });
+  });
+
+  it("rejects unsupported or malformed rules", () => {
+    expect(() => parseRRule("FREQ=YEARLY")).toThrow("FREQ");
+    expect(() => parseRRule("FREQ=DAILY;INTERVAL=0")).toThrow("INTERVAL");
+    expect(() => parseRRule("FREQ=DAILY;INTERVAL=x")).toThrow("INTERVAL");
+    expect(() => parseRRule("FREQ=DAILY;BYDAY=MO")).toThrow("BYDAY");
+    expect(() => parseRRule("FREQ=WEEKLY;BYDAY=XX")).toThrow("XX");
+    expect(() => parseRRule("FREQ")).toThrow("Invalid RRULE part");
+  });
+
+  it("round-trips through formatRRule", () => {
+    expect(formatRRule(parseRRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=FR,MO"))).toBe("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR");
+    expect(formatRRule({ frequency: "monthly", interval: 1 })).toBe("FREQ=MONTHLY");
+  });
+});
+
+describe("nextOccurrence", () => {
+  const next = (rule: RecurrenceRule, anchor: string, after: string, timeZone = "UTC"): string =>
+    nextOccurrence(rule, new Date(anchor), new Date(after), timeZone).toISOString();
+
+  it("returns the anchor until it has passed", () => {
+    expect(next({ frequency: "daily", interval: 1 }, "2024-01-10T09:00:00Z", "2024-01-01T00:00:00Z")).toBe(
+      "2024-01-10T09:00:00.000Z"
+    );
+  });
+
+  it("steps daily rules by their interval, strictly after `after`", () => {
+    const rule: RecurrenceRule = { frequency: "daily", interval: 3 };
+    expect(next(rule, "2024-01-01T09:00:00Z", "2024-01-05T10:00:00Z")).toBe("2024-01-07T09:00:00.000Z");
+    expect(next(rule, "2024-01-01T09:00:00Z", "2024-01-04T09:00:00Z")).toBe("2024-01-07T09:00:00.000Z");
+  });
+
+  it("picks the next listed weekday", () => {
+    // 2024-01-01 is a Monday
+    const rule: RecurrenceRule = { frequency: "weekly", interval: 1, byWeekday: [1, 3, 5] };
+    expect(next(rule, "2024-01-01T09:00:00Z", "2024-01-03T10:00:00Z")).toBe("2024-01-05T09:00:00.000Z");
+    expect(next(rule, "2024-01-01T09:00:00Z", "2024-01-05T10:00:00Z")).toBe("2024-01-08T09:00:00.000Z");
+  });
+
+  it("skips off weeks of an every-other-week rule", () => {
+    const rule: RecurrenceRule = { frequency: "weekly", interval: 2, byWeekday: [1, 5] };
+    expect(next(rule, "2024-01-01T09:00:00Z", "2024-01-05T10:00:00Z")).toBe("2024-01-15T09:00:00.000Z");
+  });
+
+  it("defaults weekly rules to the anchor's weekday", () => {
+    const rule: RecurrenceRule = { frequency: "weekly", interval: 1 };
+    expect(next(rule, "2024-01-03T09:00:00Z", "2024-01-03T10:00:00Z")).toBe("2024-01-10T09:00:00.000Z");
+  });
+
+  it("clamps monthly rules to short months without drifting", () => {
+    const rule: RecurrenceRule = { frequency: "monthly", interval: 1 };
+    expect(next(rule, "2024-01-31T09:00:00Z", "2024-02-01T00:00:00Z")).toBe("2024-02-29T09:00:00.000Z");
+    expect(next(rule, "2024-01-31T09:00:00Z", "2024-03-01T00:00:00Z")).toBe("2024-03-31T09:00:00.000Z");
+    expect(next({ frequency: "monthly", interval: 2 }, "2024-11-15T09:00:00Z", "2024-11-16T00:00:00Z")).toBe(
+      "2025-01-15T09:00:00.000Z"
+    );
+  });
+
+  it("keeps the local wall-clock time across DST changes", () => {
+    const daily: RecurrenceRule = { frequency: "daily", interval: 1 };
+    // 09:00 EST the day before spring-forward, then 09:00 EDT
+    expect(next(daily, "2024-03-09T14:00:00Z", "2024-03-09T15:00:00Z", "America/New_York")).toBe(
+      "2024-03-10T13:00:00.000Z"
+    );
+    // 09:00 EDT the day before fall-back, then 09:00 EST
+    expect(next(daily, "2024-11-02T13:00:00Z", "2024-11-02T14:00:00Z", "America/New_York")).toBe(
+      "2024-11-03T14:00:00.000Z"
+    );
+  });
+
+  it("moves wall times skipped by spring-forward past the jump", () => {
+    const time = { year: 2024, month: 3, day: 10, hour: 2, minute: 30, second: 0 };
+    // 02:30 doesn't exist in New York that day; 03:30 EDT does
+    expect(zonedTimeToUtc(time, "America/New_York").toISOString()).toBe("2024-03-10T07:30:00.000Z");
+    expect(
+      next({ frequency: "daily", interval: 1 }, "2024-03-09T07:30:00Z", "2024-03-09T08:00:00Z", "America/New_York")
+    ).toBe("2024-03-10T07:30:00.000Z");
+  });
+});
+
+describe("Reminder.computeNextRun", () => {
+  const reminder = (fields: Record<string, unknown>): IReminder =>
+    new Reminder({ user: "507f1f77bcf86cd799439011", message: "Stretch", remindAt: new Date("2024-01-01T09:00:00Z"), ...fields });
+
+  it("stops a series after its endRepeat date", () => {
+    const rem = reminder({ recurrence: "daily", endRepeat: new Date("2024-01-03T12:00:00Z") });
+    expect(rem.computeNextRun(new Date("2024-01-02T10:00:00Z"))?.toISOString()).toBe("2024-01-03T09:00:00.000Z");
+    expect(rem.computeNextRun(new Date("2024-01-03T10:00:00Z"))).toBeNull();
+  });
+
+  it("includes an occurrence falling exactly on endRepeat", () => {
+    const rem = reminder({ recurrence: "daily", endRepeat: new Date("2024-01-03T09:00:00Z") });
+    expect(rem.computeNextRun(new Date("2024-01-02T10:00:00Z"))?.toISOString()).toBe("2024-01-03T09:00:00.000Z");
+  });
+
+  it("maps weekdays to Monday–Friday and never repeats one-off reminders", () => {
+    // 2024-01-05 is a Friday
+    const weekdays = reminder({ recurrence: "weekdays" });
+    expect(weekdays.computeNextRun(new Date("2024-01-05T10:00:00Z"))?.toISOString()).toBe("2024-01-08T09:00:00.000Z");
+    expect(reminder({ recurrence: "none" }).computeNextRun(new Date("2024-01-02T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("nextLocalTime", () => {
+  const nineAm = 9 * 60;
+
+  it("returns today's time until it has passed, then tomorrow's", () => {
+    expect(nextLocalTime(new Date("2024-01-10T08:00:00Z"), nineAm, "UTC").toISOString()).toBe("2024-01-10T09:00:00.000Z");
+    expect(nextLocalTime(new Date("2024-01-10T09:00:00Z"), nineAm, "UTC").toISOString()).toBe("2024-01-10T09:00:00.000Z");
+    expect(nextLocalTime(new Date("2024-01-10T09:01:00Z"), nineAm, "UTC").toISOString()).toBe("2024-01-11T09:00:00.000Z");
+  });
+
+  it("skips to the next local day on request", () => {
+    expect(nextLocalTime(new Date("2024-01-10T08:00:00Z"), nineAm, "UTC", true).toISOString()).toBe(
+      "2024-01-11T09:00:00.000Z"
+    );
+  });
+
+  it("uses the local day and offset of the timezone", () => {
+    // 03:00 UTC on the 10th is still the evening of the 9th in New York; the
+    // next 09:00 there is on the 10th, already in daylight time
+    expect(nextLocalTime(new Date("2024-03-10T03:00:00Z"), nineAm, "America/New_York").toISOString()).toBe(
+      "2024-03-10T13:00:00.000Z"
+    );
+    expect(nextLocalTime(new Date("2024-01-10T23:30:00Z"), nineAm, "Asia/Tokyo").toISOString()).toBe(
+      "2024-01-11T00:00:00.000Z"
+    );
+  });
+});
+
+describe("checkReminders", () => {
+  const now = new Date("2024-01-02T09:00:30Z");
+  const reminder = (fields: Record<string, unknown>): IReminder =>
+    new Reminder({
+      user: "507f1f77bcf86cd799439011",
+      message: "Stretch",
+      remindAt: new Date("2024-01-01T09:00:00Z"),
+      nextRunAt: new Date("2024-01-02T09:00:00Z"),
+      ...fields,
+    });
+  const due = (docs: IReminder[]): void => {
+    jest.spyOn(Reminder, "find").mockReturnValue({
+      sort: jest.fn().mockReturnValue({ limit: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue(docs) }) }),
+    } as any);
+  };
+
+  let dispatch: jest.SpyInstance;
+  beforeEach(() => {
+    jest.useFakeTimers({ now, doNotFake: ["nextTick", "setImmediate"] });
+    dispatch = jest.spyOn(NotificationDispatcher, "dispatch").mockResolvedValue({} as any);
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("sends a recurring reminder and moves it to its next occurrence instead of deleting it", async () => {
+    const rem = reminder({ recurrence: "daily" });
+    due([rem]);
+    const claim = jest.spyOn(Reminder, "updateOne").mockResolvedValue({ modifiedCount: 1 } as any);
+
+    await checkReminders();
+
+    expect(claim).toHaveBeenCalledWith(
+      { _id: rem._id, isActive: true, nextRunAt: new Date("2024-01-02T09:00:00Z") },
+      {
+        $set: { lastSent: now, nextRunAt: new Date("2024-01-03T09:00:00Z"), isSent: false },
+        $inc: { occurrenceCount: 1 },
+      }
+    );
+    expect(dispatch).toHaveBeenCalledWith(expect.objectContaining({ type: "reminder", message: "Stretch" }));
+  });
+
+  it("finishes one-off reminders and series past their endRepeat", async () => {
+    due([reminder({ recurrence: "none" }), reminder({ recurrence: "daily", endRepeat: new Date("2024-01-02T12:00:00Z") })]);
+    const claim = jest.spyOn(Reminder, "updateOne").mockResolvedValue({ modifiedCount: 1 } as any);
+
+    await checkReminders();
+
+    for (const [, update] of claim.mock.calls) {
+      expect((update as any).$set).toMatchObject({ nextRunAt: null, isSent: true });
+    }
+    expect(dispatch).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips a run another scheduler instance already claimed", async () => {
+    due([reminder({ recurrence: "daily" })]);
+    jest.spyOn(Reminder, "updateOne").mockResolvedValue({ modifiedCount: 0 } as any);
+
+    await checkReminders();
+
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+});
+
+describe("scheduleDailyReminders", () => {
+  const user = {
+    _id: "507f1f77bcf86cd799439011",
+    location: { timezone: "UTC" },
+    lastDailyReminderDay: "2024-01-01",
+    settings: { reminders: { dailyTime: "23:00", quietHours: { enabled: true, start: "22:00", end: "07:00" } } },
+  };
+
+  let update: jest.SpyInstance;
+  let remind: jest.SpyInstance;
+  beforeEach(() => {
+    jest.spyOn(User, "find").mockReturnValue({
+      select: jest.fn().mockReturnValue({ lean: jest.fn().mockReturnValue({ cursor: () => [user] }) }),
+    } as any);
+    jest.spyOn(StreakService, "hasCheckedInToday").mockResolvedValue(false);
+    update = jest.spyOn(User, "updateOne").mockResolvedValue({ modifiedCount: 1 } as any);
+    remind = jest.spyOn(NotificationTriggerService, "dailyStreakReminder").mockResolvedValue();
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it("defers a send time inside overnight quiet hours to the end of quiet hours", async () => {
+    expect(await scheduleDailyReminders(new Date("2024-01-02T23:00:00Z"))).toBe(0);
+    expect(update).toHaveBeenCalledWith(
+      { _id: user._id },
+      { $set: { nextDailyReminderAt: new Date("2024-01-03T07:00:00Z") } }
+    );
+    expect(remind).not.toHaveBeenCalled();
+  });
+
+  it("sends the deferred reminder once quiet hours end", async () => {
+    expect(await scheduleDailyReminders(new Date("2024-01-03T07:00:00Z"))).toBe(1);
+    expect(update).toHaveBeenCalledWith(
+      { _id: user._id, lastDailyReminderDay: { $ne: "2024-01-03" } },
+      { $set: { lastDailyReminderDay: "2024-01-03", nextDailyReminderAt: new Date("2024-01-04T07:00:00Z") } }
+    );
+    expect(remind).toHaveBeenCalledWith(user._id);
+  });
+});
@@ -1,5 +1,10 @@
-
-
+import { Types } from "mongoose";
+import Redemption from "../api/models/Redemption";
+import { Reward } from "../api/models/Reward";
+import { User } from "../api/models/User";
+import NotificationDispatcher from "../api/services/NotificationDispatcher";
+import PointsLedgerService from "../api/services/PointsLedgerService";
+import RedemptionService, { unavailableReason } from "../api/services/RedemptionService";
 
 describe("reward routes", () => {
   it("smoke test runs", () => {
@@ -12,3 +17,113 @@ describe("reward routes", () => {
   });
 });
 
+describe("unavailableReason", () => {
+  const now = new Date("2024-03-10T12:00:00Z");
+  const reward = (overrides: Record<string, unknown> = {}): any => ({
+    isActive: true,
+    availableFrom: null,
+    availableUntil: null,
+    allowedTiers: [],
+    stock: null,
+    ...overrides,
+  });
+
+  it("allows an active, unlimited reward for every tier", () => {
+    expect(unavailableReason(reward(), "free-trial", now)).toBeNull();
+  });
+
+  it("enforces the availability window", () => {
+    expect(unavailableReason(reward({ availableFrom: new Date("2024-03-11T00:00:00Z") }), "basic", now)).toMatch(/not available yet/);
+    expect(unavailableReason(reward({ availableUntil: now }), "basic", now)).toMatch(/no longer available/);
+    expect(unavailableReason(reward({ isActive: false }), "basic", now)).toMatch(/no longer available/);
+  });
+
+  it("limits rewards to their subscription tiers", () => {
+    const proOnly = reward({ allowedTiers: ["pro", "elite"] });
+    expect(unavailableReason(proOnly, "basic", now)).toBe("Reward requires a pro or elite subscription");
+    expect(unavailableReason(proOnly, "elite", now)).toBeNull();
+  });
+
+  it("refuses rewards that ran out of stock", () => {
+    expect(unavailableReason(reward({ stock: 0 }), "basic", now)).toBe("Reward is out of stock");
+    expect(unavailableReason(reward({ stock: 1 }), "basic", now)).toBeNull();
+  });
+});
+
+describe("RedemptionService lifecycle", () => {
+  const redemptionId = new Types.ObjectId();
+  const rewardId = new Types.ObjectId();
+  const redemption = {
+    _id: redemptionId,
+    user: new Types.ObjectId(),
+    reward: rewardId,
+    item: "Sticker pack",
+    pointsUsed: 200,
+  };
+
+  let credit: jest.SpyInstance;
+  let restock: jest.SpyInstance;
+
+  beforeEach(() => {
+    credit = jest.spyOn(PointsLedgerService, "credit").mockResolvedValue({ applied: true } as any);
+    restock = jest.spyOn(Reward, "updateOne").mockResolvedValue({} as any);
+    jest.spyOn(Reward, "findById").mockResolvedValue({ _id: rewardId, stock: 4 } as any);
+    jest.spyOn(NotificationDispatcher, "dispatch").mockResolvedValue({} as any);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it("returns the points and the held unit when a pending redemption is canceled", async () => {
+    const move = jest.spyOn(Redemption, "findOneAndUpdate").mockResolvedValue({ ...redemption, status: "canceled" } as any);
+
+    await RedemptionService.cancel(redemptionId.toString(), null, "Out of season");
+
+    expect(move.mock.calls[0][0]).toMatchObject({ status: "pending" });
+    expect(credit).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 200, xp: 0, idempotencyKey: `redemption:${redemptionId}:refund` })
+    );
+    expect(restock).toHaveBeenCalledWith({ _id: rewardId, stock: { $ne: null } }, { $inc: { stock: 1 } });
+  });
+
+  it("returns the points but not the delivered unit on refund", async () => {
+    jest.spyOn(Redemption, "findOneAndUpdate").mockResolvedValue({ ...redemption, status: "refunded" } as any);
+
+    await RedemptionService.refund(redemptionId.toString(), new Types.ObjectId().toString());
+
+    expect(credit).toHaveBeenCalledTimes(1);
+    expect(restock).not.toHaveBeenCalled();
+  });
+
+  it("refuses moves from the wrong state", async () => {
+    jest.spyOn(Redemption, "findOneAndUpdate").mockResolvedValue(null);
+    jest.spyOn(Redemption, "findById").mockReturnValue({
+      select: jest.fn().mockResolvedValue({ status: "fulfilled", reward: rewardId }),
+    } as any);
+
+    await expect(RedemptionService.cancel(redemptionId.toString(), null)).rejects.toMatchObject({ statusCode: 409 });
+    expect(credit).not.toHaveBeenCalled();
+  });
+
+  it("never hands out a reward for a retried key whose charge was already refunded", async () => {
+    const userId = new Types.ObjectId().toString();
+    jest.spyOn(Reward, "findById").mockResolvedValue({
+      _id: rewardId,
+      isActive: true,
+      stock: 4,
+      pointsRequired: 200,
+      perUserLimit: null,
+    } as any);
+    jest.spyOn(User, "findById").mockReturnValue({
+      select: jest.fn().mockResolvedValue({ subscriptionTier: "basic" }),
+    } as any);
+    restock.mockResolvedValue({ modifiedCount: 1 } as any);
+    jest.spyOn(Redemption, "findOne").mockResolvedValue(null);
+    jest.spyOn(PointsLedgerService, "debit").mockResolvedValue({ applied: false, balance: 500 } as any);
+    const create = jest.spyOn(Redemption, "create");
+
+    await expect(RedemptionService.redeem(userId, rewardId.toString(), "redeem:retry")).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(create).not.toHaveBeenCalled();
+    expect(restock).toHaveBeenLastCalledWith({ _id: rewardId, stock: { $ne: null } }, { $inc: { stock: 1 } });
+  });
+});
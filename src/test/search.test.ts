@@ -1,5 +1,14 @@
-
-
+import { Types } from "mongoose";
+import { User } from "../api/models/User";
+import Goal from "../api/models/Goal";
+import SearchService from "../api/services/SearchService";
+import {
+  boundedLevenshtein,
+  highlight,
+  scoreFields,
+  termScore,
+  tokenize,
+} from "../api/utils/searchUtils";
 
 describe("search routes", () => {
   it("smoke test runs", () => {
@@ -12,3 +21,124 @@ describe("search routes", () => {
   });
 });
 
+describe("search scoring", () => {
+  it("tokenizes into unique lowercase terms, dropping 1-char noise", () => {
+    expect(tokenize("Run, run a MARATHON 5k!")).toEqual(["run", "marathon", "5k"]);
+    expect(tokenize("Café Über")).toEqual(["café", "über"]);
+    expect(tokenize("a b c d e f g h i j k l m n o p q r s t u v w x y z aa bb cc dd ee ff gg hh ii")).toHaveLength(8);
+  });
+
+  it("computes edit distance and gives up past the bound", () => {
+    expect(boundedLevenshtein("kitten", "sitting", 3)).toBe(3);
+    expect(boundedLevenshtein("kitten", "sitting", 2)).toBe(3);
+    expect(boundedLevenshtein("run", "marathon", 1)).toBe(2);
+    expect(boundedLevenshtein("yoga", "yoga", 0)).toBe(0);
+  });
+
+  it("scores exact, prefix and typo matches within the term's budget", () => {
+    expect(termScore("yoga", "yoga")).toBe(1);
+    expect(termScore("mara", "marathon")).toBe(0.8);
+    expect(termScore("marthon", "marathon")).toBe(0.6);
+    expect(termScore("meditatoin", "meditation")).toBe(0.4);
+    expect(termScore("run", "rum")).toBe(0);
+    expect(termScore("swim", "yoga")).toBe(0);
+  });
+
+  it("highlights matches in an escaped snippet trimmed around them", () => {
+    expect(highlight("Morning <yoga> & tea", ["yoga"])).toBe("Morning &lt;<mark>yoga</mark>&gt; &amp; tea");
+    expect(highlight("nothing here", ["yoga"])).toBeNull();
+
+    const long = `${"x".repeat(60)} yoga ${"y".repeat(60)}`;
+    const snippet = highlight(long, ["yoga"])!;
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(snippet).toContain("<mark>yoga</mark>");
+  });
+
+  it("weights fields and ranks documents matching more terms higher", () => {
+    const title = scoreFields([{ name: "title", value: "Marathon", weight: 10 }], ["marathon"]);
+    const body = scoreFields([{ name: "description", value: "marathon", weight: 2 }], ["marathon"]);
+    expect(title.score).toBeGreaterThan(body.score);
+
+    const both = scoreFields([{ name: "tags", value: ["marathon", "spring"], weight: 4 }], ["marathon", "spring"]);
+    const one = scoreFields([{ name: "tags", value: ["marathon"], weight: 4 }], ["marathon", "spring"]);
+    expect(both).toMatchObject({ score: 8, matchedTerms: 2 });
+    expect(one).toMatchObject({ score: 2, matchedTerms: 1 });
+    expect(one.highlights).toEqual([{ field: "tags", snippet: "<mark>marathon</mark>" }]);
+  });
+
+  it("scores nothing for an empty query or missing fields", () => {
+    expect(scoreFields([{ name: "bio", value: null, weight: 1 }], ["yoga"])).toEqual({
+      score: 0,
+      matchedTerms: 0,
+      highlights: [],
+    });
+    expect(scoreFields([{ name: "bio", value: "yoga", weight: 1 }], []).score).toBe(0);
+  });
+});
+
+describe("SearchService privacy", () => {
+  const viewerId = new Types.ObjectId();
+  const friendId = new Types.ObjectId();
+  const strangerId = new Types.ObjectId();
+
+  // Mimics a mongoose query: chainable, resolving to `docs` from lean()
+  const query = (docs: unknown[]): any => {
+    const chain: any = {};
+    for (const method of ["select", "sort", "limit"]) chain[method] = jest.fn().mockReturnValue(chain);
+    chain.lean = jest.fn().mockResolvedValue(docs);
+    return chain;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(User, "findById").mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        lean: jest.fn().mockResolvedValue({ _id: viewerId, friends: [friendId] }),
+      }),
+    } as any);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  it("only finds users who are searchable and visible to the viewer", async () => {
+    const find = jest
+      .spyOn(User, "find")
+      .mockReturnValueOnce(query([{ _id: friendId, username: "runner", score: 1 }]))
+      .mockReturnValue(query([]));
+
+    const result = await SearchService.searchUsers(viewerId.toString(), "runner");
+
+    expect(result.items.map((h) => h.id)).toEqual([friendId.toString()]);
+    expect(find.mock.calls[0][0]).toMatchObject({
+      $or: [
+        { _id: viewerId },
+        {
+          active: true,
+          "settings.privacy.searchVisibility": { $ne: false },
+          $or: [
+            { "settings.privacy.profileVisibility": { $nin: ["friends", "private"] } },
+            { "settings.privacy.profileVisibility": "friends", _id: { $in: [friendId] } },
+          ],
+        },
+      ],
+    });
+    expect(find.mock.calls[0][1]).toEqual({ score: { $meta: "textScore" } });
+  });
+
+  it("drops goals whose owners the viewer may not see", async () => {
+    jest
+      .spyOn(Goal, "find")
+      .mockReturnValueOnce(
+        query([
+          { _id: new Types.ObjectId(), user: friendId, title: "Spring marathon", score: 1 },
+          { _id: new Types.ObjectId(), user: strangerId, title: "Secret marathon", score: 1 },
+        ])
+      )
+      .mockReturnValue(query([]));
+    const owners = jest.spyOn(User, "find").mockReturnValue(query([{ _id: friendId }]));
+
+    const result = await SearchService.searchGoals(viewerId.toString(), "marathon");
+
+    expect(result.items.map((h) => h.title)).toEqual(["Spring marathon"]);
+    expect((owners.mock.calls[0][0] as any).$and[0]).toEqual({ _id: { $in: [friendId, strangerId] } });
+  });
+});
@@ -1,3 +1,7 @@
+import type { IStreakHistoryEntry } from "../api/models/Streak";
+import { evaluateHistory } from "../api/services/StreakService";
+import { diffDayKeys, getLocalDayKey, legacyHistory, shiftDayKey } from "../api/utils/streakUtils";
+
 describe("leaderboard routes", () => {
   it("smoke test runs", () => {
     expect(true).toBe(true);
@@ -9,3 +13,95 @@ describe("leaderboard routes", () => {
     // TODO: add more assertions here
   });
 });
+
+const checkIns = (...days: string[]): IStreakHistoryEntry[] =>
+  days.map((day) => ({ day, type: "check-in", recordedAt: new Date(`${day}T12:00:00Z`) }));
+
+describe("evaluateHistory", () => {
+  it("returns an empty streak for an empty history", () => {
+    expect(evaluateHistory([], "2024-03-10")).toEqual({
+      currentStreak: 0,
+      longestStreak: 0,
+      lastCheckInDay: null,
+      missedDays: 0,
+    });
+  });
+
+  it("keeps a streak alive through yesterday and counts consecutive days", () => {
+    const history = checkIns("2024-03-07", "2024-03-08", "2024-03-09");
+    expect(evaluateHistory(history, "2024-03-09")).toMatchObject({ currentStreak: 3, missedDays: 0 });
+    expect(evaluateHistory(history, "2024-03-10")).toMatchObject({ currentStreak: 3, missedDays: 0 });
+  });
+
+  it("breaks the streak after a missed day without freeze tokens", () => {
+    const result = evaluateHistory(checkIns("2024-03-07", "2024-03-08"), "2024-03-10");
+    expect(result).toMatchObject({ currentStreak: 0, longestStreak: 2, lastCheckInDay: "2024-03-08", missedDays: 0 });
+  });
+
+  it("covers missed days with freeze tokens, one per day", () => {
+    const history = checkIns("2024-03-07", "2024-03-08");
+    expect(evaluateHistory(history, "2024-03-10", 1)).toMatchObject({ currentStreak: 2, missedDays: 1 });
+    expect(evaluateHistory(history, "2024-03-11", 1)).toMatchObject({ currentStreak: 0, missedDays: 0 });
+    expect(evaluateHistory(history, "2024-03-11", 2)).toMatchObject({ currentStreak: 2, missedDays: 2 });
+  });
+
+  it("bridges frozen days without counting them", () => {
+    const history: IStreakHistoryEntry[] = [
+      ...checkIns("2024-03-07"),
+      { day: "2024-03-08", type: "freeze", recordedAt: new Date() },
+      ...checkIns("2024-03-09"),
+    ];
+    expect(evaluateHistory(history, "2024-03-09")).toMatchObject({ currentStreak: 2, longestStreak: 2 });
+  });
+
+  it("lets a check-in win over a freeze on the same day", () => {
+    const history: IStreakHistoryEntry[] = [
+      ...checkIns("2024-03-08"),
+      { day: "2024-03-09", type: "freeze", recordedAt: new Date() },
+      ...checkIns("2024-03-09"),
+    ];
+    expect(evaluateHistory(history, "2024-03-09")).toMatchObject({ currentStreak: 2 });
+  });
+
+  it("reports the longest run even when the current one is shorter", () => {
+    const history = checkIns("2024-03-01", "2024-03-02", "2024-03-03", "2024-03-04", "2024-03-08", "2024-03-09");
+    expect(evaluateHistory(history, "2024-03-09")).toMatchObject({ currentStreak: 2, longestStreak: 4 });
+  });
+
+  it("ignores history before the last reset", () => {
+    const history: IStreakHistoryEntry[] = [
+      ...checkIns("2024-03-07", "2024-03-08"),
+      { day: "2024-03-08", type: "reset", recordedAt: new Date() },
+      ...checkIns("2024-03-09"),
+    ];
+    expect(evaluateHistory(history, "2024-03-09")).toMatchObject({ currentStreak: 1, longestStreak: 1 });
+  });
+
+  it("judges the same instant by each user's local day", () => {
+    const history = checkIns("2024-03-09");
+    const instant = new Date("2024-03-11T03:00:00Z");
+    // Still the 10th in Los Angeles, already the 11th in Tokyo
+    expect(evaluateHistory(history, getLocalDayKey(instant, "America/Los_Angeles"))).toMatchObject({ currentStreak: 1 });
+    expect(evaluateHistory(history, getLocalDayKey(instant, "Asia/Tokyo"))).toMatchObject({ currentStreak: 0 });
+  });
+});
+
+describe("streak day keys", () => {
+  it("shifts and diffs across month and DST boundaries", () => {
+    expect(shiftDayKey("2024-02-28", 1)).toBe("2024-02-29");
+    expect(shiftDayKey("2024-03-01", -1)).toBe("2024-02-29");
+    expect(diffDayKeys("2024-03-09", "2024-03-11")).toBe(2);
+    expect(diffDayKeys("2024-11-04", "2024-11-02")).toBe(-2);
+  });
+
+  it("seeds legacy history ending on the local day of the last check-in", () => {
+    const lastCheckIn = new Date("2024-03-10T02:00:00Z");
+    expect(legacyHistory(3, lastCheckIn, "America/New_York").map((e) => e.day)).toEqual([
+      "2024-03-07",
+      "2024-03-08",
+      "2024-03-09",
+    ]);
+    expect(legacyHistory(0, lastCheckIn, "UTC")).toEqual([]);
+    expect(legacyHistory(3, null, "UTC")).toEqual([]);
+  });
+});
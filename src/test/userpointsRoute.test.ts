@@ -1,5 +1,10 @@
-
-
+import type { Request } from "express";
+import { requestIdempotencyKey } from "../api/utils/idempotencyUtils";
+import { gamificationLevelForXp, levelForXp, xpForLevel } from "../api/utils/levelUtils";
+import PointsLedgerService from "../api/services/PointsLedgerService";
+import { User } from "../api/models/User";
+import Level from "../api/models/Level";
+import Gamification from "../api/models/Gamification";
 
 describe("userpointsRoute routes", () => {
   it("smoke test runs", () => {
@@ -12,3 +17,88 @@ describe("userpointsRoute routes", () => {
   });
 });
 
+describe("level math", () => {
+  it("levels up step by step, each level costing 20% more", () => {
+    expect(levelForXp(0)).toEqual({ level: 1, points: 0, nextLevelAt: 100 });
+    expect(levelForXp(99)).toEqual({ level: 1, points: 99, nextLevelAt: 100 });
+    expect(levelForXp(100)).toEqual({ level: 2, points: 0, nextLevelAt: 120 });
+    expect(levelForXp(219)).toEqual({ level: 2, points: 119, nextLevelAt: 120 });
+    expect(levelForXp(220)).toEqual({ level: 3, points: 0, nextLevelAt: 144 });
+  });
+
+  it("treats negative and fractional totals as whole, non-negative XP", () => {
+    expect(levelForXp(-50)).toEqual({ level: 1, points: 0, nextLevelAt: 100 });
+    expect(levelForXp(100.9).level).toBe(2);
+  });
+
+  it("inverts levelForXp", () => {
+    for (const xp of [0, 57, 100, 220, 1234, 98765]) {
+      const { level, points } = levelForXp(xp);
+      expect(xpForLevel(level, points)).toBe(xp);
+    }
+  });
+
+  it("gives gamification profiles one level per 100 XP", () => {
+    expect(gamificationLevelForXp(0)).toBe(1);
+    expect(gamificationLevelForXp(199)).toBe(2);
+    expect(gamificationLevelForXp(-10)).toBe(1);
+  });
+});
+
+describe("requestIdempotencyKey", () => {
+  const request = (header?: string): Request =>
+    ({ get: (name: string) => (name === "Idempotency-Key" ? header : undefined), user: { id: "u1" } }) as unknown as Request;
+
+  it("scopes the client's key to the action and user", () => {
+    expect(requestIdempotencyKey(request(" abc "), "redeem")).toBe("redeem:u1:abc");
+  });
+
+  it("caps long client keys", () => {
+    expect(requestIdempotencyKey(request("k".repeat(300)), "redeem")).toBe(`redeem:u1:${"k".repeat(100)}`);
+  });
+
+  it("makes every request without the header unique", () => {
+    const first = requestIdempotencyKey(request(), "redeem");
+    expect(first).toMatch(/^redeem:u1:[0-9a-f-]{36}$/);
+    expect(requestIdempotencyKey(request(), "redeem")).not.toBe(first);
+  });
+});
+
+describe("PointsLedgerService.reconcileUser", () => {
+  const userId = "64b000000000000000000001";
+  const lean = (value: unknown): any => ({ select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(value) }) });
+
+  const mockState = (hasOpening: boolean): jest.SpyInstance => {
+    jest
+      .spyOn(PointsLedgerService, "getTotals")
+      .mockResolvedValue({ balance: 40, xp: 40, entries: 2, hasOpening });
+    jest.spyOn(User, "findById").mockReturnValue(lean({ points: 540 }));
+    jest.spyOn(Level, "findOne").mockReturnValue(lean(null));
+    jest.spyOn(Gamification, "findOne").mockReturnValue(lean({ points: 540 }));
+    jest.spyOn(Level, "updateOne").mockResolvedValue({} as any);
+    jest.spyOn(Gamification, "updateOne").mockResolvedValue({} as any);
+    return jest.spyOn(User, "updateOne").mockResolvedValue({} as any);
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("reports but never repairs drift before the opening balance is recorded", async () => {
+    const updateUser = mockState(false);
+
+    const report = await PointsLedgerService.reconcileUser(userId, true);
+
+    expect(report.drift).toContain("User.points 540 ≠ ledger balance 40");
+    expect(report.repaired).toBe(false);
+    expect(updateUser).not.toHaveBeenCalled();
+    expect(Gamification.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("repairs drift once the ledger has an opening balance", async () => {
+    const updateUser = mockState(true);
+
+    const report = await PointsLedgerService.reconcileUser(userId, true);
+
+    expect(report.repaired).toBe(true);
+    expect(updateUser).toHaveBeenCalledWith({ _id: userId }, { $set: { points: 40 } });
+  });
+});
@@ -6,7 +6,11 @@ import { Document, Types } from "mongoose";
 export interface IStreak {
   user: Types.ObjectId; // Reference to the user who owns the streak
   streakCount: number; // Number of consecutive days the user has checked in
+  longestStreak: number; // Longest chain of consecutive check-in days
   lastCheckIn: Date | null; // Date of the user's last check-in (null if no check-in)
+  lastCheckInDay: string | null; // Local calendar day (YYYY-MM-DD) of the last check-in
+  timezone: string; // IANA timezone the streak is evaluated in
+  freezeTokens: number; // Streak freezes available to bridge missed days
   createdAt: Date; // Date when the streak record was created
   updatedAt: Date; // Date when the streak record was last updated
 }
@@ -33,6 +37,11 @@ export interface IResetStreakResponse {
   streak: IStreak;
 }
 
+// Type for the request body when buying streak freezes
+export interface IPurchaseStreakFreezeRequest {
+  quantity?: number; // Number of freeze tokens to buy (defaults to 1)
+}
+
 // Type for the streak leaderboard
 export interface IStreakLeaderboardEntry {
   user: Types.ObjectId;
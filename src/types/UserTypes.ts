@@ -1,10 +1,12 @@
 
+import type { SubscriptionStatus } from "../api/models/User";
+
 export interface IUser {
   id: string;
   email: string;
   role: "user" | "admin" | "moderator" | "military";
   trial_start_date?: Date;
-  subscription_status?: "active" | "trial" | "expired";
+  subscription_status?: SubscriptionStatus;
   next_billing_date?: Date;
   isAdmin: boolean;
   username: string;
@@ -12,6 +14,7 @@ export interface IUser {
   rewards: any; // Adjust as needed
   streakCount: number;
   isVerified: boolean;
+  twoFactorEnabled?: boolean;
   createdAt: Date;
   updatedAt: Date;
   permissions: string[];
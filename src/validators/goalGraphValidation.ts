@@ -0,0 +1,32 @@
+import { check } from "express-validator";
+import validator from "validator";
+import { validationMiddleware } from "./reminderValidation";
+
+/**
+ * Validation for moving a goal under a parent; null makes it top-level.
+ */
+export const validateGoalParent = [
+  // Required, so a body without it can't un-nest a goal by accident
+  check("parentId")
+    .custom((value) => value === null || (typeof value === "string" && validator.isMongoId(value)))
+    .withMessage("parentId must be a goal ID, or null for a top-level goal"),
+
+  check("weight")
+    .optional()
+    .isFloat({ min: 0.1, max: 100 })
+    .withMessage("Weight must be between 0.1 and 100")
+    .toFloat(),
+
+  validationMiddleware,
+];
+
+/**
+ * Validation for blocking a goal on another goal.
+ */
+export const validateGoalDependency = [
+  check("blockerId")
+    .isMongoId()
+    .withMessage("blockerId must be a valid goal ID"),
+
+  validationMiddleware,
+];
@@ -0,0 +1,46 @@
+import { check, query } from "express-validator";
+import { validationMiddleware } from "./reminderValidation";
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validation for logging a habit completion.
+ */
+export const validateHabitLog = [
+  // Local calendar day; defaults to today in the user's timezone
+  check("day")
+    .optional()
+    .matches(DAY_KEY)
+    .withMessage("Day must be formatted YYYY-MM-DD"),
+
+  check("count")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Count must be between 1 and 100")
+    .toInt(),
+
+  check("note")
+    .optional()
+    .isString()
+    .trim()
+    .escape()
+    .isLength({ max: 500 })
+    .withMessage("Note must be at most 500 characters"),
+
+  validationMiddleware,
+];
+
+/**
+ * Validation for the goal calendar range (local days, inclusive).
+ */
+export const validateCalendarRange = [
+  query("from")
+    .matches(DAY_KEY)
+    .withMessage("from must be formatted YYYY-MM-DD"),
+
+  query("to")
+    .matches(DAY_KEY)
+    .withMessage("to must be formatted YYYY-MM-DD"),
+
+  validationMiddleware,
+];
@@ -0,0 +1,62 @@
+import { check, query } from "express-validator";
+import { validationMiddleware } from "./reminderValidation";
+
+/**
+ * Validation for logging a value on a quantitative goal.
+ */
+export const validateMeasurement = [
+  check("value")
+    .exists({ values: "null" })
+    .withMessage("Value is required")
+    .isFloat({ min: -1e9, max: 1e9 })
+    .withMessage("Value must be a number")
+    .toFloat(),
+
+  check("recordedAt")
+    .optional()
+    .isISO8601()
+    .withMessage("recordedAt must be a valid ISO 8601 date")
+    .toDate(),
+
+  check("note")
+    .optional()
+    .isString()
+    .trim()
+    .escape()
+    .isLength({ max: 500 })
+    .withMessage("Note must be at most 500 characters"),
+
+  validationMiddleware,
+];
+
+/**
+ * Validation for listing measured values.
+ */
+export const validateMeasurementQuery = [
+  query("from").optional().isISO8601().withMessage("from must be a valid ISO 8601 date").toDate(),
+  query("to").optional().isISO8601().withMessage("to must be a valid ISO 8601 date").toDate(),
+  query("limit").optional().isInt({ min: 1, max: 1000 }).withMessage("limit must be between 1 and 1000").toInt(),
+
+  validationMiddleware,
+];
+
+/**
+ * Validation for the window (in days) trends and projections look back over.
+ */
+export const validateTrendWindow = [
+  query("days").optional().isInt({ min: 2, max: 365 }).withMessage("days must be between 2 and 365").toInt(),
+
+  validationMiddleware,
+];
+
+/**
+ * Validation for linking a tracker to a goal; null unlinks.
+ */
+export const validateTrackerLink = [
+  check("trackerId")
+    .optional({ values: "null" })
+    .isMongoId()
+    .withMessage("trackerId must be a valid tracker ID"),
+
+  validationMiddleware,
+];
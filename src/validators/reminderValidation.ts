@@ -39,24 +39,100 @@ export const validationMiddleware = (
 };
 
 /**
- * Validation for creating or updating a reminder.
+ * Accept the legacy custom-reminder field names (`reminderMessage`,
+ * `reminderTime`) so older clients keep working against the unified API.
  */
-export const validateReminder = [
-  // Validate goal ID to ensure it's a valid MongoDB ObjectId
+export const normalizeReminderBody = (
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+): void => {
+  if (req.body) {
+    if (req.body.message === undefined && req.body.reminderMessage !== undefined) {
+      req.body.message = req.body.reminderMessage;
+    }
+    if (req.body.remindAt === undefined && req.body.reminderTime !== undefined) {
+      req.body.remindAt = req.body.reminderTime;
+    }
+    delete req.body.reminderMessage;
+    delete req.body.reminderTime;
+  }
+  next();
+};
+
+const futureDate = (value: Date): boolean => {
+  if (value <= new Date()) {
+    throw new Error("Reminder date must be in the future");
+  }
+  return true;
+};
+
+// Schedule/channel fields shared by create and update
+const scheduleRules = [
+  // Optional link to one of the user's goals
   check("goalId")
-    .notEmpty()
-    .withMessage("Goal ID is required.")
+    .optional({ values: "null" })
     .isMongoId()
     .withMessage("Goal ID must be a valid Mongo ID"),
 
+  check("recurrence")
+    .optional()
+    .isIn(["none", "daily", "weekdays", "weekly", "monthly"])
+    .withMessage("Recurrence must be one of none, daily, weekdays, weekly, monthly"),
+
+  // RRULE-style schedule, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE
+  check("rrule")
+    .optional()
+    .isString()
+    .matches(/^(RRULE:)?FREQ=/i)
+    .withMessage("rrule must be an RRULE string starting with FREQ="),
+
+  check("interval")
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage("Interval must be between 1 and 365")
+    .toInt(),
+
+  check("daysOfWeek")
+    .optional()
+    .isArray({ max: 7 })
+    .withMessage("daysOfWeek must be an array"),
+  check("daysOfWeek.*")
+    .isInt({ min: 0, max: 6 })
+    .withMessage("daysOfWeek values must be between 0 (Sunday) and 6 (Saturday)")
+    .toInt(),
+
+  check("endRepeat")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("End repeat must be a valid ISO 8601 date")
+    .toDate(),
+
+  check("reminderType")
+    .optional()
+    .isIn(["email", "sms", "app"])
+    .withMessage("Reminder type must be email, sms or app"),
+
+  check("email")
+    .optional()
+    .isEmail()
+    .withMessage("Email must be a valid email address"),
+];
+
+/**
+ * Validation for creating a reminder.
+ */
+export const validateReminder = [
+  normalizeReminderBody,
+
   // Validate message to ensure it's not empty and has a reasonable length
   check("message")
     .notEmpty()
     .withMessage("Message is required.")
     .trim()
     .escape() // Sanitize input to prevent XSS attacks
-    .isLength({ min: 5, max: 500 })
-    .withMessage("Message must be between 5 and 500 characters"),
+    .isLength({ min: 1, max: 255 })
+    .withMessage("Message must be between 1 and 255 characters"),
 
   // Validate that the reminder date is a valid ISO 8601 date and in the future
   check("remindAt")
@@ -65,12 +141,34 @@ export const validateReminder = [
     .isISO8601()
     .withMessage("Reminder date must be a valid ISO 8601 date")
     .toDate()
-    .custom((value: Date) => {
-      if (value <= new Date()) {
-        throw new Error("Reminder date must be in the future");
-      }
-      return true;
-    }),
+    .custom(futureDate),
+
+  ...scheduleRules,
 
   validationMiddleware, // Apply the validation middleware
 ];
+
+/**
+ * Validation for updating a reminder; every field is optional.
+ */
+export const validateReminderUpdate = [
+  normalizeReminderBody,
+
+  check("message")
+    .optional()
+    .trim()
+    .escape()
+    .isLength({ min: 1, max: 255 })
+    .withMessage("Message must be between 1 and 255 characters"),
+
+  check("remindAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Reminder date must be a valid ISO 8601 date")
+    .toDate()
+    .custom(futureDate),
+
+  ...scheduleRules,
+
+  validationMiddleware,
+];